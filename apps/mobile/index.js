@@ -7,6 +7,10 @@ import 'react-native-gesture-handler';
 
 import { AppRegistry } from 'react-native';
 import App from './src/App';
+import { registerBackgroundLocationService } from './src/features/safety/services/backgroundLocation';
 import { name as appName } from './app.json';
 
+// Runs safety features after the user leaves the app (Android foreground service).
+registerBackgroundLocationService();
+
 AppRegistry.registerComponent(appName, () => App);
@@ -73,6 +73,21 @@ jest.mock('@react-native-community/geolocation', () => ({
   setRNConfiguration: jest.fn(),
 }));
 
+// Mock react-native-device-info
+jest.mock('react-native-device-info', () =>
+  require('react-native-device-info/jest/react-native-device-info-mock')
+);
+
+// Mock react-native-sensors; tests push readings through the accelerometer subject
+jest.mock('react-native-sensors', () => {
+  const { Subject } = require('rxjs');
+  return {
+    accelerometer: new Subject(),
+    SensorTypes: { accelerometer: 'accelerometer' },
+    setUpdateIntervalForType: jest.fn(),
+  };
+});
+
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () =>
   require('@react-native-async-storage/async-storage/jest/async-storage-mock')
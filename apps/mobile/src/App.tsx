@@ -34,6 +34,16 @@ import { NetworkProvider } from './utils/NetworkProvider';
 import { ToastProvider } from './components/ui/Toast';
 import { initializeSentry } from './services/monitoring/SentryService';
 import { hydrateExchangeRates } from './services/fx';
+import { hydrateRedFlagRulePack } from './lib/askCarebow/redFlagRulePack';
+import { hydrateInteractionDataset } from './lib/interactions';
+import { useMedicationReminders } from './features/medications';
+import {
+  useFallDetectionMonitor,
+  useLiveLocationRunner,
+  useSafeZoneMonitor,
+  useSafetyHistorySync,
+} from './features/safety/hooks';
+import { useSafetyStore } from './features/safety/store';
 import { regionApi } from './services/api/endpoints/region';
 import { setServerCurrency } from './data/countries';
 import { useAuthStore } from './store/useAuthStore';
@@ -98,6 +108,7 @@ const linking = {
       ServiceDetails: 'service/:id',
       PlanDetails: 'plan/:id',
       Checkout: 'checkout/:serviceId?',
+      Cart: 'cart',
       OrderSuccess: 'order-success/:orderId?',
       Orders: 'orders',
       OrderDetails: 'order/:id',
@@ -173,6 +184,22 @@ function AppContent() {
 
   const hydrateTokens = useAuthStore((state) => state.hydrateTokensFromSecureStorage);
 
+  // Taken / Skip / Snooze on medication reminders, and rescheduling at launch.
+  useMedicationReminders();
+
+  // Safe-zone exit alerts need the location watch to outlive the Safety screens.
+  useSafeZoneMonitor();
+
+  // An SOS live-location session keeps updating wherever the user goes.
+  useLiveLocationRunner();
+
+  // Falls are caught anywhere in the app, and after the user leaves it.
+  useFallDetectionMonitor();
+  const pendingFall = useSafetyStore((state) => state.pendingFall);
+
+  // Safety history lives on the account too, so it survives a reinstall.
+  useSafetyHistorySync();
+
   // Initialize app - hydrate auth tokens from secure storage
   useEffect(() => {
     const initializeApp = async () => {
@@ -189,6 +216,23 @@ function AppContent() {
             /* hydrateExchangeRates already degrades internally */
           });
 
+        // Clinically reviewed red-flag rules published since this build. The
+        // bundled pack is already active, so emergency detection never waits
+        // on this; a rejected or missing override simply leaves it in place.
+        hydrateRedFlagRulePack()
+          .then((source) => logger.debug('Red-flag rule pack hydrated from', source))
+          .catch(() => {
+            /* hydrateRedFlagRulePack already degrades internally */
+          });
+
+        // Same for the interaction dataset behind medication and allergy
+        // warnings: the bundled copy is checked against until a newer one lands.
+        hydrateInteractionDataset()
+          .then((source) => logger.debug('Interaction dataset hydrated from', source))
+          .catch(() => {
+            /* hydrateInteractionDataset already degrades internally */
+          });
+
         // Which currency this account is actually charged in. The app can work
         // it out from the chosen country, but the server has the final say — it
         // also knows whether the payment processor can collect dollars at all.
@@ -245,6 +289,12 @@ function AppContent() {
     };
   }, []);
 
+  // The Safety hub runs the fall countdown and the SOS that follows it.
+  useEffect(() => {
+    if (!pendingFall || !isAppReady) return;
+    navigationRef.current?.navigate('Safety', { screen: 'SafetyIndex' });
+  }, [pendingFall, isAppReady]);
+
   // Handle splash screen animation completion
   const handleSplashComplete = useCallback(() => {
     setSplashAnimationComplete(true);
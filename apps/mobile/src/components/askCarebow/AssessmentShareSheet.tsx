@@ -0,0 +1,247 @@
+/**
+ * AssessmentShareSheet Component
+ * Shows exactly what a provider will receive from an Ask CareBow conversation
+ * and asks the customer to agree before it is shared with a booking.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows } from '../../theme';
+import { AskCarebowSession } from '../../types/askCarebow';
+import { formatAssessmentForProvider } from '../../lib/askCarebow/assessmentShare';
+
+interface AssessmentShareSheetProps {
+  visible: boolean;
+  /** Conversations the customer can choose from, best match first. */
+  sessions: AskCarebowSession[];
+  /** Who will read it, e.g. the provider's name. */
+  recipient: string;
+  confirmLabel: string;
+  sending?: boolean;
+  onConfirm: (session: AskCarebowSession) => void;
+  onClose: () => void;
+}
+
+function sessionLabel(session: AskCarebowSession): string {
+  const complaint =
+    session.healthContext.primarySymptom ||
+    session.messages.find((message) => message.role === 'user')?.text ||
+    'Conversation';
+  const date = new Date(session.createdAt).toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${complaint} · ${date}`;
+}
+
+export function AssessmentShareSheet({
+  visible,
+  sessions,
+  recipient,
+  confirmLabel,
+  sending = false,
+  onConfirm,
+  onClose,
+}: AssessmentShareSheetProps) {
+  const insets = useSafeAreaInsets();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Start from the best match each time the sheet opens.
+  useEffect(() => {
+    if (visible) setSelectedId(sessions[0]?.id ?? null);
+  }, [visible, sessions]);
+
+  const selected = sessions.find((session) => session.id === selectedId) ?? null;
+  const preview = useMemo(
+    () => (selected ? formatAssessmentForProvider(selected) : ''),
+    [selected]
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={sending ? undefined : onClose}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: insets.bottom + spacing.lg }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.handleContainer}>
+            <View style={styles.handle} />
+          </View>
+
+          <Text style={styles.title}>Share your assessment</Text>
+          <Text style={styles.description}>
+            {recipient} will see the summary below from your Ask CareBow conversation. Contact
+            details and CareBow account IDs are removed.
+          </Text>
+
+          {sessions.length > 1 && (
+            <View style={styles.choices}>
+              {sessions.map((session) => {
+                const active = session.id === selectedId;
+                return (
+                  <TouchableOpacity
+                    key={session.id}
+                    style={[styles.choice, active && styles.choiceActive]}
+                    onPress={() => setSelectedId(session.id)}
+                    disabled={sending}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: active }}
+                  >
+                    <Text
+                      style={[styles.choiceText, active && styles.choiceTextActive]}
+                      numberOfLines={1}
+                    >
+                      {sessionLabel(session)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <ScrollView style={styles.preview} contentContainerStyle={styles.previewContent}>
+            <Text style={styles.previewText}>{preview}</Text>
+          </ScrollView>
+
+          <View style={styles.consentRow}>
+            <Icon name="lock-closed-outline" size={16} color={colors.textSecondary} />
+            <Text style={styles.consentText}>
+              Only this text is shared, and only with this booking. Once sent it becomes part of the
+              provider's record and cannot be withdrawn from the app.
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, (!selected || sending) && styles.disabled]}
+            onPress={() => selected && onConfirm(selected)}
+            disabled={!selected || sending}
+            activeOpacity={0.8}
+          >
+            {sending ? (
+              <ActivityIndicator color={colors.textInverse} />
+            ) : (
+              <Text style={styles.confirmText}>{confirmLabel}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={sending}>
+            <Text style={styles.cancelText}>Not now</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+  },
+  title: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  description: {
+    ...typography.body,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  choices: {
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  choice: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  choiceActive: {
+    borderColor: colors.accent,
+    backgroundColor: colors.accentMuted,
+  },
+  choiceText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  choiceTextActive: {
+    color: colors.accent,
+  },
+  preview: {
+    maxHeight: 280,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+  },
+  previewContent: {
+    padding: spacing.md,
+  },
+  previewText: {
+    ...typography.caption,
+    color: colors.textPrimary,
+  },
+  consentRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginVertical: spacing.md,
+  },
+  consentText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  confirmButton: {
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    ...shadows.button,
+  },
+  confirmText: {
+    ...typography.labelLarge,
+    color: colors.textInverse,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+});
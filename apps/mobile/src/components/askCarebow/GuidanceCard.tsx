@@ -8,6 +8,8 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { GuidanceResponse, UrgencyLevel, urgencyConfig } from '../../types/askCarebow';
 import { colors, spacing, radius, typography, shadows } from '../../theme';
+import { useInteractionWarnings } from '../../hooks/useInteractionWarnings';
+import { InteractionWarnings } from './InteractionWarnings';
 
 interface GuidanceCardProps {
   guidance: GuidanceResponse;
@@ -19,6 +21,7 @@ export function GuidanceCard({ guidance, urgencyLevel = 'monitor' }: GuidanceCar
     new Set(['immediateActions'])
   );
   const urgency = urgencyConfig[urgencyLevel];
+  const interactionWarnings = useInteractionWarnings(guidance.immediateActions);
 
   const toggleSection = (section: string) => {
     setExpandedSections((prev) => {
@@ -77,6 +80,9 @@ export function GuidanceCard({ guidance, urgencyLevel = 'monitor' }: GuidanceCar
         />
       )}
 
+      {/* Conflicts with recorded medications, allergies and conditions */}
+      <InteractionWarnings warnings={interactionWarnings} />
+
       {/* Disclaimer */}
       <View style={styles.disclaimer}>
         <Icon name="information-circle" size={16} color={colors.textTertiary} />
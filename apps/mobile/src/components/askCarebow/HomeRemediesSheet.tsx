@@ -9,7 +9,7 @@
  * no such filtering at all.
  */
 
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -28,6 +28,8 @@ import { colors, spacing, radius, typography, shadows } from '../../theme';
 import type { TriageLevel } from '../../utils/triageCTAMapping';
 import { getRemediesForSymptom } from '../../lib/askCarebow/remediesClient';
 import type { Remedy } from '../../services/api/endpoints/remedies';
+import { useInteractionWarnings } from '../../hooks/useInteractionWarnings';
+import { InteractionWarnings } from './InteractionWarnings';
 
 interface HomeRemediesSheetProps {
   visible: boolean;
@@ -57,6 +59,11 @@ export function HomeRemediesSheet({
       'worsening, or last more than a few days, see a clinician.'
   );
   const [fromCache, setFromCache] = useState(false);
+  const remedyTexts = useMemo(
+    () => remedies.map((r) => `${r.name}. ${r.description} ${r.howTo}`),
+    [remedies]
+  );
+  const interactionWarnings = useInteractionWarnings(remedyTexts);
 
   const primarySymptom = symptoms[0];
 
@@ -194,6 +201,8 @@ export function HomeRemediesSheet({
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={styles.scrollContent}
               >
+                <InteractionWarnings warnings={interactionWarnings} />
+
                 {remedies.map((remedy) => {
                   const isChecked = checkedItems.has(remedy.name);
 
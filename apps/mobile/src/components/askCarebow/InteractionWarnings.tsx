@@ -0,0 +1,88 @@
+/**
+ * InteractionWarnings Component
+ * Lists conflicts between suggested items and the recorded medications,
+ * allergies and conditions in health memory
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography } from '../../theme';
+import type { InteractionWarning } from '../../lib/interactions';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+}
+
+const KIND_LABELS: Record<InteractionWarning['kind'], string> = {
+  drug_drug: 'Interacts with',
+  drug_allergy: 'Allergy',
+  drug_condition: 'Not advised with',
+  duplicate: 'Already taking',
+};
+
+export function InteractionWarnings({ warnings }: InteractionWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icon name="medkit" size={16} color={colors.error} />
+        <Text style={styles.title}>Check before you use</Text>
+      </View>
+
+      {warnings.map((warning) => {
+        const isMajor = warning.severity === 'major';
+        return (
+          <View key={warning.key} style={[styles.item, isMajor && styles.itemMajor]}>
+            <Text style={[styles.itemTitle, isMajor && styles.itemTitleMajor]}>
+              {warning.subject} · {KIND_LABELS[warning.kind]} {warning.conflictsWith}
+            </Text>
+            <Text style={styles.itemMessage}>{warning.message}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  title: {
+    ...typography.label,
+    color: colors.textPrimary,
+  },
+  item: {
+    backgroundColor: colors.warningSoft,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.warning,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  itemMajor: {
+    backgroundColor: colors.errorSoft,
+    borderLeftColor: colors.error,
+  },
+  itemTitle: {
+    ...typography.label,
+    color: '#92400E',
+    marginBottom: 2,
+  },
+  itemTitleMajor: {
+    color: colors.error,
+  },
+  itemMessage: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+});
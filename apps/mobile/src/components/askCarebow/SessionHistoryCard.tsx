@@ -10,16 +10,14 @@ import {
   TouchableOpacity,
   StyleSheet,
   FlatList,
-  Share,
-  Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, spacing, radius, typography, shadows } from '../../theme';
 import { useAskCarebowStore } from '../../store/askCarebowStore';
+import { useSessionExport } from '../../hooks/useSessionExport';
 import {
   AskCarebowSession,
   urgencyConfig,
-  formatSessionForDoctorNotes,
 } from '../../types/askCarebow';
 
 type SessionHistoryCardProps = {
@@ -36,28 +34,10 @@ export function SessionHistoryCard({
   showExportButton = true,
 }: SessionHistoryCardProps) {
   const getSessionsForMember = useAskCarebowStore((state) => state.getSessionsForMember);
-  const exportSession = useAskCarebowStore((state) => state.exportSession);
+  const { exporting, promptExport } = useSessionExport();
 
   const sessions = getSessionsForMember(memberId).slice(0, maxItems);
 
-  const handleExportSession = async (session: AskCarebowSession) => {
-    try {
-      const exportText = formatSessionForDoctorNotes(session);
-
-      const result = await Share.share({
-        message: exportText,
-        title: 'CareBow Session Summary',
-      });
-
-      if (result.action === Share.sharedAction) {
-        // Track the export
-        exportSession('text', 'share');
-      }
-    } catch (error) {
-      Alert.alert('Export Failed', 'Unable to export session. Please try again.');
-    }
-  };
-
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     const now = new Date();
@@ -174,7 +154,9 @@ export function SessionHistoryCard({
           {showExportButton && (
             <TouchableOpacity
               style={styles.exportButton}
-              onPress={() => handleExportSession(session)}
+              onPress={() => promptExport(session)}
+              disabled={exporting}
+              accessibilityLabel="Share with a doctor"
             >
               <Icon name="share-outline" size={16} color={colors.accent} />
             </TouchableOpacity>
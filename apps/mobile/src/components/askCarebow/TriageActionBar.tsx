@@ -32,6 +32,8 @@ import { useCartStore } from '../../store/useCartStore';
 interface TriageActionBarProps {
   triageLevel: TriageLevel;
   episodeId?: string;
+  /** Ask CareBow session carried into a booking so it can be shared with the provider */
+  sessionId?: string;
   /** Symptoms for home remedies recommendations */
   symptoms?: string[];
   /** Profile the remedies request is filtered for (pregnancy, diabetes, age, allergies) */
@@ -47,6 +49,7 @@ interface TriageActionBarProps {
 export function TriageActionBar({
   triageLevel,
   episodeId,
+  sessionId,
   symptoms = [],
   profileId,
   onAction,
@@ -73,6 +76,7 @@ export function TriageActionBar({
     setCareReferralContext({
       source: 'ask_carebow',
       episodeId,
+      sessionId,
       profileId,
       triageLevel,
       symptoms: symptoms.map((symptom) => symptom.trim()).filter(Boolean).slice(0, 8),
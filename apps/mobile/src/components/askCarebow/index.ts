@@ -41,3 +41,4 @@ export { FollowUpCheckIn } from './FollowUpCheckIn';
 export { StillNeedCard } from './StillNeedCard';
 export { FeedbackButtons } from './FeedbackButtons';
 export { HomeRemediesSheet } from './HomeRemediesSheet';
+export { InteractionWarnings } from './InteractionWarnings';
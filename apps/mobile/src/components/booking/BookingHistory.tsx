@@ -0,0 +1,72 @@
+/**
+ * BookingHistory Component
+ * Every status change and move on a booking, newest first
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { colors, spacing, typography } from '../../theme';
+import type { V1BookingEvent } from '../../services/api/endpoints/member';
+import { describeBookingEvent } from '../../lib/reschedule';
+
+interface BookingHistoryProps {
+  events: V1BookingEvent[];
+}
+
+export function BookingHistory({ events }: BookingHistoryProps) {
+  if (events.length === 0) return null;
+  const newestFirst = [...events].sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+
+  return (
+    <View style={styles.container}>
+      {newestFirst.map((event, index) => (
+        <View key={`${event.at}-${index}`} style={styles.row}>
+          <View style={[styles.dot, index === 0 && styles.dotLatest]} />
+          <View style={styles.copy}>
+            <Text style={styles.title}>{describeBookingEvent(event)}</Text>
+            <Text style={styles.meta}>{new Date(event.at).toLocaleString()}</Text>
+            {event.note ? <Text style={styles.note}>{event.note}</Text> : null}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+    backgroundColor: colors.border,
+  },
+  dotLatest: {
+    backgroundColor: colors.accent,
+  },
+  copy: {
+    flex: 1,
+  },
+  title: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  meta: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    marginTop: 2,
+  },
+  note: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.xxs,
+  },
+});
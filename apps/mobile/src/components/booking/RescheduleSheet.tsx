@@ -0,0 +1,303 @@
+/**
+ * RescheduleSheet Component
+ * Picks a new date and time for one booking, or one visit of a recurring
+ * series. When the service publishes slots the sheet offers open slots on the
+ * care team's clock and holds the chosen one; otherwise it offers preferred
+ * times on the phone's clock. The server decides whether the move is allowed
+ * and what it costs; the sheet shows its answer for the chosen time before
+ * confirming.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, radius, typography, shadows } from '../../theme';
+import { HorizontalDatePicker } from '../ui/HorizontalDatePicker';
+import { TimePicker } from '../ui/TimePicker';
+import { preferredTimeOptions } from '../../lib/liveServiceCatalog';
+import {
+  deviceTimeZone,
+  slotsForDate,
+  timeZoneLabel,
+  unavailableDates,
+  upcomingDates,
+  zonedParts,
+} from '../../lib/availability';
+import { useServiceAvailability } from '../../hooks/useServiceAvailability';
+import { useSlotHold } from '../../hooks/useSlotHold';
+
+interface RescheduleSheetProps {
+  visible: boolean;
+  title: string;
+  description: string;
+  /** The booking's current time, used as the starting selection. */
+  scheduledAt: string;
+  /** The booked service, to offer its published slots. */
+  serviceId?: string;
+  saving?: boolean;
+  /** Called with each newly chosen time (null when incomplete) to fetch a quote. */
+  onPreview?: (scheduledAt: string | null) => void;
+  /** The quote for the chosen time, in words. */
+  quoteSummary?: string | null;
+  /** The chosen time cannot be booked; confirm stays disabled. */
+  blocked?: boolean;
+  checking?: boolean;
+  /** e.g. "Pay ₹350 and move". */
+  confirmLabel?: string;
+  /** `slotHoldId` is set when the new time is a held published slot. */
+  onConfirm: (scheduledAt: string, slotHoldId?: string) => void;
+  onClose: () => void;
+}
+
+const DAYS_TO_SHOW = 30;
+
+export function RescheduleSheet({
+  visible,
+  title,
+  description,
+  scheduledAt,
+  serviceId,
+  saving = false,
+  onPreview,
+  quoteSummary,
+  blocked = false,
+  checking = false,
+  confirmLabel = 'Move to this time',
+  onConfirm,
+  onClose,
+}: RescheduleSheetProps) {
+  const insets = useSafeAreaInsets();
+  const [date, setDate] = useState<string | null>(null);
+  const [time, setTime] = useState<string | null>(null);
+
+  const availability = useServiceAvailability(visible ? serviceId : undefined, DAYS_TO_SHOW);
+  const liveSlots = availability.status === 'ready';
+  const timeZone = liveSlots ? availability.timeZone : deviceTimeZone();
+  const daySlots = useMemo(
+    () => (liveSlots && date ? slotsForDate(availability.slots, date, timeZone) : null),
+    [liveSlots, availability.slots, date, timeZone]
+  );
+  const fullDates = useMemo(
+    () =>
+      liveSlots
+        ? unavailableDates(availability.slots, upcomingDates(DAYS_TO_SHOW, timeZone), timeZone)
+        : [],
+    [liveSlots, availability.slots, timeZone]
+  );
+  const times = daySlots ? daySlots.times : preferredTimeOptions;
+
+  // Start from the current time each time the sheet opens, read on the clock
+  // the times are offered in.
+  useEffect(() => {
+    if (!visible) return;
+    const current = zonedParts(scheduledAt, timeZone);
+    setDate(current.date);
+    setTime(current.time);
+  }, [visible, scheduledAt, timeZone]);
+
+  const slotStartsAt =
+    daySlots && time && !daySlots.taken.includes(time) ? (daySlots.startsAt[time] ?? null) : null;
+  const next = daySlots
+    ? slotStartsAt
+    : date && time && times.includes(time)
+      ? new Date(`${date}T${time}:00`).toISOString()
+      : null;
+  const unchanged = next !== null && Date.parse(next) === Date.parse(scheduledAt);
+
+  // Hold a published slot while the customer reads the quote and pays.
+  const slotHold = useSlotHold(
+    visible && !unchanged && slotStartsAt ? serviceId : undefined,
+    unchanged ? null : slotStartsAt
+  );
+  const slotTaken = slotStartsAt !== null && slotHold.status === 'taken';
+  const ready = next !== null && !unchanged && !saving && !checking && !blocked && !slotTaken;
+
+  useEffect(() => {
+    if (visible) onPreview?.(unchanged ? null : next);
+  }, [visible, next, unchanged, onPreview]);
+
+  const handleSelectDate = (value: string) => {
+    setDate(value);
+    // Published times differ day to day, so a new date needs a new slot.
+    if (liveSlots) setTime(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!next) return;
+    if (!slotStartsAt) {
+      onConfirm(next);
+      return;
+    }
+    const held = await slotHold.ensureHeld();
+    if (!held.ok) return;
+    // The move owns the hold now: it becomes the booking's slot or lapses.
+    slotHold.consume();
+    onConfirm(next, held.holdId);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={saving ? undefined : onClose}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: insets.bottom + spacing.lg }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.handleContainer}>
+            <View style={styles.handle} />
+          </View>
+
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.description}>{description}</Text>
+
+          <Text style={styles.label}>New date</Text>
+          <HorizontalDatePicker
+            selectedDate={date}
+            onSelectDate={handleSelectDate}
+            daysToShow={DAYS_TO_SHOW}
+            timeZone={timeZone}
+            disabledDates={fullDates}
+          />
+
+          <Text style={styles.label}>{liveSlots ? 'Open times' : 'Preferred time'}</Text>
+          {availability.status === 'loading' ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : (
+            <TimePicker
+              availableSlots={times}
+              selectedTime={time}
+              onSelectTime={setTime}
+              disabledSlots={daySlots?.taken}
+              timeZoneLabel={
+                liveSlots && timeZone !== deviceTimeZone() ? timeZoneLabel(timeZone) : undefined
+              }
+            />
+          )}
+
+          {slotTaken ? (
+            <View style={[styles.quote, styles.quoteBlocked]}>
+              <Text style={[styles.quoteText, styles.quoteTextBlocked]}>
+                Someone else just booked this time. Please choose another.
+              </Text>
+            </View>
+          ) : next && !unchanged && (checking || quoteSummary) ? (
+            <View style={[styles.quote, blocked && styles.quoteBlocked]}>
+              {checking ? (
+                <ActivityIndicator size="small" color={colors.accent} />
+              ) : (
+                <Text style={[styles.quoteText, blocked && styles.quoteTextBlocked]}>
+                  {quoteSummary}
+                </Text>
+              )}
+            </View>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, !ready && styles.disabled]}
+            onPress={() => void handleConfirm()}
+            disabled={!ready}
+            activeOpacity={0.8}
+          >
+            {saving ? (
+              <ActivityIndicator color={colors.textInverse} />
+            ) : (
+              <Text style={styles.confirmText}>{confirmLabel}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+            <Text style={styles.cancelText}>Keep current time</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+  },
+  title: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  description: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  label: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  quote: {
+    marginTop: spacing.lg,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.accentSoft,
+  },
+  quoteBlocked: {
+    backgroundColor: colors.surface2,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  quoteText: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  quoteTextBlocked: {
+    color: colors.error,
+  },
+  confirmButton: {
+    marginTop: spacing.xl,
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    ...shadows.button,
+  },
+  confirmText: {
+    ...typography.labelLarge,
+    color: colors.textInverse,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+});
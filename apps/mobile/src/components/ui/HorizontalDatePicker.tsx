@@ -6,15 +6,21 @@
 import React, { useRef, useEffect } from 'react';
 import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { colors, spacing, radius, typography, shadows } from '../../theme';
+import { deviceTimeZone, upcomingDates } from '../../lib/availability';
 
 interface HorizontalDatePickerProps {
   selectedDate: string | null; // ISO date string (YYYY-MM-DD)
   onSelectDate: (date: string) => void;
   daysToShow?: number;
+  /** Zone whose calendar "today" is read from; defaults to the phone's. */
+  timeZone?: string;
+  /** Dates shown greyed out, e.g. fully booked days. */
+  disabledDates?: string[];
 }
 
-// Helper to format date parts
-const formatDate = (date: Date) => {
+// Helper to format date parts. Dates are calendar keys, so read them in UTC.
+const formatDate = (isoDate: string) => {
+  const date = new Date(`${isoDate}T00:00:00.000Z`);
   const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const months = [
     'Jan',
@@ -32,34 +38,26 @@ const formatDate = (date: Date) => {
   ];
 
   return {
-    dayName: days[date.getDay()],
-    dayNumber: date.getDate(),
-    monthName: months[date.getMonth()],
-    isoDate: date.toISOString().split('T')[0],
+    dayName: days[date.getUTCDay()],
+    dayNumber: date.getUTCDate(),
+    monthName: months[date.getUTCMonth()],
+    isoDate,
   };
 };
 
-// Generate array of dates starting from today
-const generateDates = (daysToShow: number): ReturnType<typeof formatDate>[] => {
-  const dates: ReturnType<typeof formatDate>[] = [];
-  const today = new Date();
-
-  for (let i = 0; i < daysToShow; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-    dates.push(formatDate(date));
-  }
-
-  return dates;
-};
+// Generate array of dates starting from today in the given zone
+const generateDates = (daysToShow: number, timeZone: string): ReturnType<typeof formatDate>[] =>
+  upcomingDates(daysToShow, timeZone).map(formatDate);
 
 export function HorizontalDatePicker({
   selectedDate,
   onSelectDate,
   daysToShow = 14,
+  timeZone = deviceTimeZone(),
+  disabledDates = [],
 }: HorizontalDatePickerProps) {
   const scrollViewRef = useRef<ScrollView>(null);
-  const dates = generateDates(daysToShow);
+  const dates = generateDates(daysToShow, timeZone);
 
   // Scroll to selected date on mount
   useEffect(() => {
@@ -86,18 +84,31 @@ export function HorizontalDatePicker({
       {dates.map((dateInfo, index) => {
         const isSelected = selectedDate === dateInfo.isoDate;
         const isToday = index === 0;
+        const isDisabled = disabledDates.includes(dateInfo.isoDate);
 
         return (
           <TouchableOpacity
             key={dateInfo.isoDate}
-            style={[styles.dateTile, isSelected && styles.dateTileSelected]}
-            onPress={() => onSelectDate(dateInfo.isoDate)}
-            activeOpacity={0.7}
+            style={[
+              styles.dateTile,
+              isSelected && styles.dateTileSelected,
+              isDisabled && styles.dateTileDisabled,
+            ]}
+            onPress={() => !isDisabled && onSelectDate(dateInfo.isoDate)}
+            activeOpacity={isDisabled ? 1 : 0.7}
+            disabled={isDisabled}
+            accessibilityState={{ selected: isSelected, disabled: isDisabled }}
           >
             <Text style={[styles.dayName, isSelected && styles.textSelected]}>
               {isToday ? 'Today' : dateInfo.dayName}
             </Text>
-            <Text style={[styles.dayNumber, isSelected && styles.textSelected]}>
+            <Text
+              style={[
+                styles.dayNumber,
+                isSelected && styles.textSelected,
+                isDisabled && styles.textDisabled,
+              ]}
+            >
               {dateInfo.dayNumber}
             </Text>
             <Text style={[styles.monthName, isSelected && styles.textSelected]}>
@@ -131,6 +142,10 @@ const styles = StyleSheet.create({
     borderColor: colors.accent,
     ...shadows.subtle,
   },
+  dateTileDisabled: {
+    borderColor: colors.borderLight,
+    opacity: 0.5,
+  },
   dayName: {
     ...typography.tiny,
     color: colors.textTertiary,
@@ -149,4 +164,7 @@ const styles = StyleSheet.create({
   textSelected: {
     color: colors.white,
   },
+  textDisabled: {
+    color: colors.textTertiary,
+  },
 });
@@ -0,0 +1,187 @@
+/**
+ * RecurrencePicker Component
+ * One visit or a repeating series: which days of the week, and for how long
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, spacing, radius, typography } from '../../theme';
+import { RecurrenceRule } from '../../data/types';
+import { QuantityStepper } from './QuantityStepper';
+import {
+  EVERY_DAY,
+  MAX_SERIES_WEEKS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  expandRecurrence,
+  weekdayOf,
+} from '../../lib/recurringCare';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  /** The first visit's date; the series counts its weeks from here. */
+  startDate: string | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const DEFAULT_WEEKS = 4;
+
+const PRESETS = [
+  { label: 'Every day', weekdays: EVERY_DAY },
+  { label: 'Weekdays', weekdays: WEEKDAYS },
+  { label: 'Mon · Wed · Fri', weekdays: [1, 3, 5] },
+];
+
+export function RecurrencePicker({ value, startDate, onChange }: RecurrencePickerProps) {
+  const visits = value && startDate ? expandRecurrence(startDate, value).length : 0;
+
+  const startRepeating = () => {
+    const startDay = startDate ? weekdayOf(startDate) : null;
+    onChange({ weekdays: startDay === null ? WEEKDAYS : [startDay], weeks: DEFAULT_WEEKS });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modeRow}>
+        <TouchableOpacity
+          style={[styles.chip, !value && styles.chipSelected]}
+          onPress={() => onChange(null)}
+          accessibilityRole="radio"
+          accessibilityState={{ selected: !value }}
+        >
+          <Text style={[styles.chipText, !value && styles.chipTextSelected]}>One visit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chip, !!value && styles.chipSelected]}
+          onPress={() => !value && startRepeating()}
+          accessibilityRole="radio"
+          accessibilityState={{ selected: !!value }}
+        >
+          <Text style={[styles.chipText, !!value && styles.chipTextSelected]}>Repeats</Text>
+        </TouchableOpacity>
+      </View>
+
+      {value && (
+        <>
+          <View style={styles.dayRow}>
+            {WEEKDAY_LABELS.map((label, day) => {
+              const selected = value.weekdays.includes(day);
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.day, selected && styles.chipSelected]}
+                  onPress={() => toggleDay(day)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: selected }}
+                  accessibilityLabel={label}
+                >
+                  <Text style={[styles.dayText, selected && styles.chipTextSelected]}>
+                    {label.charAt(0)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.presetRow}>
+            {PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.label}
+                onPress={() => onChange({ ...value, weekdays: preset.weekdays })}
+              >
+                <Text style={styles.presetText}>{preset.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <QuantityStepper
+            value={value.weeks}
+            onChange={(weeks) => onChange({ ...value, weeks })}
+            min={1}
+            max={MAX_SERIES_WEEKS}
+            unit="week"
+            showTotal={false}
+          />
+
+          <Text style={styles.summary}>
+            {value.weekdays.length === 0
+              ? 'Choose at least one day of the week'
+              : !startDate
+                ? describeRecurrence(value)
+                : `${visits} visit${visits === 1 ? '' : 's'} · ${describeRecurrence(value)}`}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: spacing.md,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  chipSelected: {
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    ...typography.label,
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  day: {
+    width: 40,
+    height: 40,
+    borderRadius: radius.full,
+    backgroundColor: colors.surface2,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayText: {
+    ...typography.label,
+    color: colors.textPrimary,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: spacing.lg,
+  },
+  presetText: {
+    ...typography.labelSmall,
+    color: colors.accent,
+  },
+  summary: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+});
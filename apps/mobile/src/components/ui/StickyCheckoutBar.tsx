@@ -18,6 +18,9 @@ interface StickyCheckoutBarProps {
   onPress: () => void;
   disabled?: boolean;
   isOnRequest?: boolean;
+  /** Optional outlined action beside the main button, e.g. "Add to cart". */
+  secondaryLabel?: string;
+  onSecondaryPress?: () => void;
 }
 
 export function StickyCheckoutBar({
@@ -27,6 +30,8 @@ export function StickyCheckoutBar({
   onPress,
   disabled = false,
   isOnRequest = false,
+  secondaryLabel,
+  onSecondaryPress,
 }: StickyCheckoutBarProps) {
   const insets = useSafeAreaInsets();
   const country = useProfileStore((state) => state.country);
@@ -54,16 +59,30 @@ export function StickyCheckoutBar({
         </View>
       </View>
 
-      <TouchableOpacity
-        style={[styles.actionButton, disabled && styles.actionButtonDisabled]}
-        onPress={onPress}
-        disabled={disabled}
-        activeOpacity={0.8}
-      >
-        <Text style={[styles.actionButtonText, disabled && styles.actionButtonTextDisabled]}>
-          {buttonLabel}
-        </Text>
-      </TouchableOpacity>
+      <View style={styles.actions}>
+        {secondaryLabel && onSecondaryPress && (
+          <TouchableOpacity
+            style={[styles.secondaryButton, disabled && styles.secondaryButtonDisabled]}
+            onPress={onSecondaryPress}
+            disabled={disabled}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.secondaryButtonText, disabled && styles.actionButtonTextDisabled]}>
+              {secondaryLabel}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, disabled && styles.actionButtonDisabled]}
+          onPress={onPress}
+          disabled={disabled}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.actionButtonText, disabled && styles.actionButtonTextDisabled]}>
+            {buttonLabel}
+          </Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 }
@@ -124,6 +143,27 @@ const styles = StyleSheet.create({
     ...typography.label,
     color: colors.textSecondary,
   },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm - 1,
+    paddingHorizontal: spacing.md,
+    alignItems: 'center',
+  },
+  secondaryButtonDisabled: {
+    borderColor: colors.border,
+  },
+  secondaryButtonText: {
+    ...typography.label,
+    fontWeight: '600',
+    color: colors.accent,
+  },
   actionButton: {
     backgroundColor: colors.accent,
     borderRadius: radius.md,
@@ -14,6 +14,8 @@ interface TimePickerProps {
   onSelectTime: (time: string) => void;
   label?: string;
   disabledSlots?: string[];
+  /** Shown under the slots when times are not on the phone's clock, e.g. "IST". */
+  timeZoneLabel?: string;
 }
 
 export function TimePicker({
@@ -22,6 +24,7 @@ export function TimePicker({
   onSelectTime,
   label,
   disabledSlots = [],
+  timeZoneLabel,
 }: TimePickerProps) {
   const scrollViewRef = useRef<ScrollView>(null);
 
@@ -64,6 +67,8 @@ export function TimePicker({
               onPress={() => !isDisabled && onSelectTime(time)}
               activeOpacity={isDisabled ? 1 : 0.7}
               disabled={isDisabled}
+              accessibilityLabel={isDisabled ? `${formatTime(time)}, taken` : formatTime(time)}
+              accessibilityState={{ selected: isSelected, disabled: isDisabled }}
             >
               <Text
                 style={[
@@ -78,6 +83,7 @@ export function TimePicker({
           );
         })}
       </ScrollView>
+      {timeZoneLabel && <Text style={styles.zone}>Times shown in {timeZoneLabel}</Text>}
     </View>
   );
 }
@@ -123,5 +129,11 @@ const styles = StyleSheet.create({
   },
   timeTextDisabled: {
     color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  zone: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
   },
 });
@@ -99,6 +99,7 @@ export { BadgeRow, Badge } from './BadgeRow';
 // Form Components
 export { HorizontalDatePicker } from './HorizontalDatePicker';
 export { TimePicker } from './TimePicker';
+export { RecurrencePicker } from './RecurrencePicker';
 export { QuantityStepper } from './QuantityStepper';
 export { MemberPicker } from './MemberPicker';
 export { RequestTextArea } from './RequestTextArea';
@@ -10,6 +10,8 @@ import type { Service, ServiceCategory } from './types';
 // ============================================
 // DEFAULT TIME SLOTS
 // ============================================
+// Preferred times only, offered when a service publishes no availability.
+// They are requests for the care team to confirm, never bookable slots.
 export const defaultTimeSlots = [
   '06:00',
   '06:30',
@@ -125,6 +127,7 @@ const companionshipService: Service = {
     availableTimeSlots: defaultTimeSlots,
     leadTimeHours: 2,
     maxDaysAhead: 30,
+    allowsRecurrence: true,
   },
   request: {
     enabled: true,
@@ -257,6 +260,7 @@ const expertNurseService: Service = {
     availableTimeSlots: ['06:00', '07:00', '08:00', '09:00', '18:00', '19:00', '20:00'],
     leadTimeHours: 24,
     maxDaysAhead: 60,
+    allowsRecurrence: true,
   },
   request: {
     enabled: true,
@@ -357,6 +361,7 @@ const gourmetFoodService: Service = {
     timeMode: 'start_only',
     leadTimeHours: 24,
     maxDaysAhead: 30,
+    allowsRecurrence: true,
   },
   request: {
     enabled: true,
@@ -520,6 +525,7 @@ const physiotherapyService: Service = {
     availableTimeSlots: defaultTimeSlots,
     leadTimeHours: 12,
     maxDaysAhead: 30,
+    allowsRecurrence: true,
   },
   request: {
     enabled: true,
@@ -673,6 +679,7 @@ const yogaService: Service = {
     availableTimeSlots: ['06:00', '07:00', '08:00', '17:00', '18:00', '19:00'],
     leadTimeHours: 12,
     maxDaysAhead: 30,
+    allowsRecurrence: true,
   },
   request: {
     enabled: true,
@@ -1294,10 +1301,45 @@ export function getDiscountPercentage(price: number, originalPrice?: number): nu
   return Math.round(((originalPrice - price) / originalPrice) * 100);
 }
 
+type PriceSelections = { packageId?: string; hours?: number; days?: number };
+type PriceResult = { subtotal: number; discount: number; total: number; label: string };
+
+/**
+ * Price a booking. `visits` prices a recurring series: the selection once per
+ * visit, with daily-priced services delivering one day per visit. A quote is
+ * still confirmed by CareBow, and its booking fee is charged once per series.
+ */
 export function calculatePrice(
   pricing: Service['pricing'],
-  selections: { packageId?: string; hours?: number; days?: number }
-): { subtotal: number; discount: number; total: number; label: string } {
+  selections: PriceSelections & { visits?: number }
+): PriceResult {
+  const visits = selections.visits ?? 1;
+  if (visits <= 1 || pricing.type === 'quote') return calculateVisitPrice(pricing, selections);
+
+  if (pricing.type === 'daily') {
+    const total = visits * pricing.dailyRate;
+    return {
+      subtotal: total,
+      discount: 0,
+      total,
+      label: `₹${pricing.dailyRate}/day × ${visits} days`,
+    };
+  }
+
+  const visit = calculateVisitPrice(pricing, selections);
+  if (visit.total === 0) return visit;
+  return {
+    subtotal: visit.subtotal * visits,
+    discount: visit.discount * visits,
+    total: visit.total * visits,
+    label: `${visit.label} × ${visits} visits`,
+  };
+}
+
+function calculateVisitPrice(
+  pricing: Service['pricing'],
+  selections: PriceSelections
+): PriceResult {
   switch (pricing.type) {
     case 'fixed': {
       const discount = pricing.originalPrice ? pricing.originalPrice - pricing.price : 0;
@@ -41,6 +41,16 @@ export type BookingConfig = {
   availableTimeSlots?: string[]; // ["09:00","10:00"...] optional; else free picker
   leadTimeHours?: number; // e.g. 2 hours minimum
   maxDaysAhead?: number; // e.g. 30
+  allowsRecurrence?: boolean; // nurse visits, physio, meals... can repeat as a series
+};
+
+/**
+ * A repeating booking, e.g. every weekday for 4 weeks or Mon/Wed/Fri. Every
+ * visit keeps the draft's start time; the first one is on or after its date.
+ */
+export type RecurrenceRule = {
+  weekdays: number[]; // 0 = Sunday, as Date#getDay
+  weeks: number; // how long the series runs, counted from the draft's date
 };
 
 export type FulfillmentConfig = {
@@ -103,6 +113,8 @@ export type ServiceItem = Service;
 export type CareReferralContext = {
   source: 'ask_carebow';
   episodeId?: string;
+  /** Local Ask CareBow session the customer may later share with the provider. */
+  sessionId?: string;
   profileId?: string;
   triageLevel: 'emergency' | 'urgent' | 'soon' | 'self_care';
   symptoms: string[];
@@ -114,6 +126,16 @@ export type CareReferralContext = {
 // BOOKING DRAFT / SELECTIONS
 // ============================================
 
+/**
+ * A published slot reserved for this customer while they pay. The server
+ * turns it into the booking, or frees it at `expiresAt`.
+ */
+export type SlotHold = {
+  id: string;
+  startsAt: string; // UTC instant
+  expiresAt: string;
+};
+
 export type BookingDraft = {
   serviceId: string;
   serviceTitle: string;
@@ -122,6 +144,8 @@ export type BookingDraft = {
   date: string | null; // ISO date string YYYY-MM-DD
   startTime: string | null; // HH:MM format
   endTime: string | null; // HH:MM format (for start_end mode)
+  slotStartsAt?: string | null; // UTC instant of a published slot; null = preferred time only
+  slotTimeZone?: string | null; // zone the care team publishes the slot in
   durationMinutes: number | null;
   selectedPackageId: string | null;
   selectedPackageLabel: string | null;
@@ -129,6 +153,7 @@ export type BookingDraft = {
   days: number | null; // for daily pricing
   requestNotes: string;
   referralContext?: CareReferralContext | null;
+  recurrence?: RecurrenceRule | null; // null = a single visit
 
   // Computed pricing
   subtotal: number;
@@ -149,6 +174,8 @@ export type CartItem = {
   memberName: string;
   date: string;
   startTime: string;
+  slotStartsAt?: string | null;
+  slotTimeZone?: string | null;
   endTime?: string;
   durationMinutes?: number;
   packageId?: string;
@@ -157,6 +184,7 @@ export type CartItem = {
   days?: number;
   requestNotes: string;
   referralContext?: CareReferralContext | null;
+  recurrence?: RecurrenceRule | null;
   subtotal: number;
   discount: number;
   total: number;
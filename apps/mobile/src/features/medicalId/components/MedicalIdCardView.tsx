@@ -0,0 +1,143 @@
+/**
+ * Medical ID Card View
+ * One member's emergency card as a first responder sees it, with its QR code
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, components } from '@/theme';
+import { MEDICAL_ID_FIELD_LABELS, MedicalIdCard } from '../types';
+import { formatMedicalIdField } from '../services/medicalIdCard';
+import { encodeMedicalIdPayload } from '../services/medicalIdPayload';
+import { QrCodeView } from './QrCodeView';
+
+const QR_SIZE = 240;
+
+interface MedicalIdCardViewProps {
+  card: MedicalIdCard;
+  /** Shown when the viewer may change the card (signed in). */
+  onEdit?: () => void;
+}
+
+export function MedicalIdCardView({ card, onEdit }: MedicalIdCardViewProps) {
+  const [showQr, setShowQr] = useState(false);
+  const payload = useMemo(() => encodeMedicalIdPayload(card), [card]);
+  const updated = new Date(card.updatedAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.headerIcon}>
+          <Icon name="medkit" size={20} color={colors.error} />
+        </View>
+        <View style={styles.headerInfo}>
+          <Text style={styles.name}>{card.name}</Text>
+          <Text style={styles.updated}>Medical ID · updated {updated}</Text>
+        </View>
+        {onEdit && (
+          <TouchableOpacity onPress={onEdit} hitSlop={8}>
+            <Text style={styles.editText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {card.fields.map((field) => {
+        const value = formatMedicalIdField(card, field);
+        if (value === null) return null;
+        return (
+          <View key={field} style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>{MEDICAL_ID_FIELD_LABELS[field]}</Text>
+            <Text style={styles.fieldValue}>{value}</Text>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.qrToggle} onPress={() => setShowQr((shown) => !shown)}>
+        <Icon name="qr-code-outline" size={18} color={colors.accent} />
+        <Text style={styles.qrToggleText}>{showQr ? 'Hide QR code' : 'Show QR code'}</Text>
+      </TouchableOpacity>
+
+      {showQr && (
+        <View style={styles.qrContainer}>
+          <QrCodeView value={payload} size={QR_SIZE} />
+          <Text style={styles.qrHint}>Scan with any phone camera to read this card</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    ...components.card,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  headerIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: radius.md,
+    backgroundColor: colors.errorSoft,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  name: {
+    ...typography.h3,
+  },
+  updated: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  editText: {
+    ...typography.label,
+    color: colors.accent,
+  },
+  fieldRow: {
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  fieldLabel: {
+    ...typography.labelSmall,
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  fieldValue: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  qrToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  qrToggleText: {
+    ...typography.label,
+    color: colors.accent,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  qrHint: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+});
@@ -0,0 +1,71 @@
+/**
+ * QR Code View
+ * Draws text as a QR code; black on white with the standard quiet zone so it
+ * scans on any theme
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { colors, spacing, typography } from '@/theme';
+import { QrCodeTooLongError, encodeQrCode } from '../services/qrCode';
+
+/** Light modules required around the symbol, per the specification. */
+const QUIET_ZONE = 4;
+
+interface QrCodeViewProps {
+  value: string;
+  size: number;
+}
+
+export function QrCodeView({ value, size }: QrCodeViewProps) {
+  const qr = useMemo(() => {
+    try {
+      return encodeQrCode(value);
+    } catch (error) {
+      if (error instanceof QrCodeTooLongError) return null;
+      throw error;
+    }
+  }, [value]);
+
+  const path = useMemo(() => {
+    if (!qr) return '';
+    let d = '';
+    qr.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return d;
+  }, [qr]);
+
+  if (!qr) {
+    return (
+      <View style={[styles.tooLong, { width: size, height: size }]}>
+        <Text style={styles.tooLongText}>Too much to fit in a QR code</Text>
+      </View>
+    );
+  }
+
+  const extent = qr.size + QUIET_ZONE * 2;
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`}>
+      <Rect x={0} y={0} width={extent} height={extent} fill="#FFFFFF" />
+      <Path d={path} fill="#000000" />
+    </Svg>
+  );
+}
+
+const styles = StyleSheet.create({
+  tooLong: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.md,
+    backgroundColor: colors.surface2,
+  },
+  tooLongText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,6 @@
+/**
+ * Medical ID Components Barrel Export
+ */
+
+export { MedicalIdCardView } from './MedicalIdCardView';
+export { QrCodeView } from './QrCodeView';
@@ -0,0 +1,19 @@
+/**
+ * Medical ID Feature Barrel Export
+ * Emergency medical cards that stay readable without signing in
+ */
+
+// Types
+export * from './types';
+
+// Store
+export * from './store';
+
+// Services
+export * from './services';
+
+// Components
+export * from './components';
+
+// Screens
+export * from './screens';
@@ -0,0 +1,367 @@
+/**
+ * Medical ID Editor Screen
+ * Pick a family member and choose, field by field, what their emergency card
+ * shows. Nothing is shared until the user ticks it.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, components } from '@/theme';
+import { useEmergencyContacts, useMembers } from '@/store/useProfileStore';
+import { MEDICAL_ID_FIELDS, MEDICAL_ID_FIELD_LABELS, MedicalIdField } from '../types';
+import { useMedicalIdStore, useMedicalIdCards } from '../store';
+import { buildMedicalIdCard, formatMedicalIdField } from '../services/medicalIdCard';
+import { encodeMedicalIdPayload } from '../services/medicalIdPayload';
+import { maxQrPayloadBytes, toUtf8Bytes } from '../services/qrCode';
+
+export function MedicalIdEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const members = useMembers();
+  const contacts = useEmergencyContacts();
+  const cards = useMedicalIdCards();
+  const saveCard = useMedicalIdStore((state) => state.saveCard);
+  const removeCard = useMedicalIdStore((state) => state.removeCard);
+
+  const [memberId, setMemberId] = useState<string | null>(
+    route.params?.memberId ?? members.find((m) => m.isDefault)?.id ?? members[0]?.id ?? null
+  );
+  const member = members.find((m) => m.id === memberId) ?? null;
+  const existing = cards.find((c) => c.memberId === memberId);
+  const [fields, setFields] = useState<MedicalIdField[]>(existing?.fields ?? []);
+
+  // Everything on the profile, so each toggle can show what it would share.
+  const preview = useMemo(
+    () => (member ? buildMedicalIdCard(member, contacts, [...MEDICAL_ID_FIELDS]) : null),
+    [member, contacts]
+  );
+  const payloadBytes = useMemo(
+    () =>
+      member
+        ? toUtf8Bytes(encodeMedicalIdPayload(buildMedicalIdCard(member, contacts, fields))).length
+        : 0,
+    [member, contacts, fields]
+  );
+  const tooLong = payloadBytes > maxQrPayloadBytes();
+
+  const handleSelectMember = useCallback(
+    (id: string) => {
+      setMemberId(id);
+      setFields(cards.find((c) => c.memberId === id)?.fields ?? []);
+    },
+    [cards]
+  );
+
+  const toggleField = useCallback((field: MedicalIdField) => {
+    setFields((current) =>
+      current.includes(field) ? current.filter((f) => f !== field) : [...current, field]
+    );
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!member || tooLong) return;
+    saveCard(member, contacts, fields);
+    navigation.goBack();
+  }, [member, contacts, fields, tooLong, saveCard, navigation]);
+
+  const handleRemove = useCallback(() => {
+    if (!member) return;
+    Alert.alert(
+      'Remove Medical ID?',
+      `${member.firstName}'s card will no longer be available from the emergency screen.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            removeCard(member.id);
+            setFields([]);
+          },
+        },
+      ]
+    );
+  }, [member, removeCard]);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Edit Medical ID</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+      >
+        {members.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="people-outline" size={40} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No family profiles yet</Text>
+            <Text style={styles.emptyText}>
+              Add a family member with their health information to create a Medical ID.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Member */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Who is this card for?</Text>
+              <View style={styles.memberChips}>
+                {members.map((m) => {
+                  const selected = m.id === memberId;
+                  return (
+                    <TouchableOpacity
+                      key={m.id}
+                      style={[styles.memberChip, selected && styles.memberChipSelected]}
+                      onPress={() => handleSelectMember(m.id)}
+                    >
+                      <Text
+                        style={[styles.memberChipText, selected && styles.memberChipTextSelected]}
+                      >
+                        {m.firstName}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Fields */}
+            {preview && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>What to show</Text>
+                <View style={styles.card}>
+                  <View style={styles.fieldRow}>
+                    <View style={styles.fieldInfo}>
+                      <Text style={styles.fieldLabel}>Name</Text>
+                      <Text style={styles.fieldValue}>{preview.name} · always shown</Text>
+                    </View>
+                  </View>
+                  {MEDICAL_ID_FIELDS.map((field) => {
+                    const selected = fields.includes(field);
+                    return (
+                      <View key={field} style={styles.fieldRow}>
+                        <View style={styles.fieldInfo}>
+                          <Text style={styles.fieldLabel}>{MEDICAL_ID_FIELD_LABELS[field]}</Text>
+                          <Text style={styles.fieldValue} numberOfLines={2}>
+                            {formatMedicalIdField(preview, field) ?? 'Not on profile'}
+                          </Text>
+                        </View>
+                        <Switch
+                          value={selected}
+                          onValueChange={() => toggleField(field)}
+                          trackColor={{ false: colors.border, true: colors.accentSoft }}
+                          thumbColor={selected ? colors.accent : colors.surface}
+                        />
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {tooLong && (
+              <View style={styles.warningBanner}>
+                <Icon name="warning" size={18} color={colors.warning} />
+                <Text style={styles.warningText}>
+                  This card has too much to fit in a QR code. Turn off a field, such as health notes
+                  or medications.
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.infoCard}>
+              <Icon name="lock-open-outline" size={18} color={colors.info} />
+              <Text style={styles.infoText}>
+                The card is saved on this phone and can be opened from the sign-in screen without
+                your password, so responders can read it. Changes to the profile appear here after
+                you save again.
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, (tooLong || !member) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={tooLong || !member}
+            >
+              <Text style={styles.saveButtonText}>{existing ? 'Update card' : 'Save card'}</Text>
+            </TouchableOpacity>
+
+            {existing && (
+              <TouchableOpacity style={styles.removeButton} onPress={handleRemove}>
+                <Text style={styles.removeButtonText}>Remove from this device</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+  },
+  memberChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  memberChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  memberChipSelected: {
+    borderColor: colors.accent,
+    backgroundColor: colors.accentMuted,
+  },
+  memberChipText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+  memberChipTextSelected: {
+    color: colors.accent,
+  },
+  card: {
+    ...components.card,
+    paddingVertical: spacing.xs,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  fieldInfo: {
+    flex: 1,
+  },
+  fieldLabel: {
+    ...typography.label,
+  },
+  fieldValue: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.warningSoft,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+  },
+  warningText: {
+    ...typography.bodySmall,
+    color: colors.warning,
+    flex: 1,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.xs,
+    backgroundColor: colors.infoSoft,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+  },
+  infoText: {
+    ...typography.bodySmall,
+    color: colors.info,
+    flex: 1,
+  },
+  saveButton: {
+    alignItems: 'center',
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  removeButtonText: {
+    ...typography.label,
+    color: colors.error,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    gap: spacing.xs,
+  },
+  emptyTitle: {
+    ...typography.h4,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
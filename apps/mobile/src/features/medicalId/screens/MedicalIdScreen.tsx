@@ -0,0 +1,173 @@
+/**
+ * Medical ID Screen
+ * Emergency cards saved on this device. Reachable from the SOS screen and,
+ * without signing in, from the welcome screen — so it reads only the Medical
+ * ID store, never the account's profile.
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography } from '@/theme';
+import { useAuthStore } from '@/store/useAuthStore';
+import { callEmergencyServices } from '@/features/safety/services/sosService';
+import { DEFAULT_EMERGENCY } from '@/features/safety/services/emergencyNumbers';
+import { useMedicalIdCards } from '../store';
+import { MedicalIdCardView } from '../components';
+
+export function MedicalIdScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const cards = useMedicalIdCards();
+  // Editing needs the profile; signed-out viewers only read.
+  const canEdit = useAuthStore((state) => state.isAuthenticated);
+
+  const handleCallEmergency = useCallback(() => {
+    void callEmergencyServices(DEFAULT_EMERGENCY.call);
+  }, []);
+
+  const handleEdit = useCallback(
+    (memberId?: string) => {
+      navigation.navigate('MedicalIdEditor', memberId ? { memberId } : undefined);
+    },
+    [navigation]
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Medical ID</Text>
+        {canEdit ? (
+          <TouchableOpacity style={styles.backButton} onPress={() => handleEdit()}>
+            <Icon name="add" size={24} color={colors.textPrimary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+      >
+        <TouchableOpacity style={styles.callButton} onPress={handleCallEmergency}>
+          <Icon name="call" size={20} color={colors.white} />
+          <Text style={styles.callButtonText}>Call emergency services</Text>
+        </TouchableOpacity>
+
+        {cards.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="medkit-outline" size={40} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No Medical ID on this device</Text>
+            <Text style={styles.emptyText}>
+              {canEdit
+                ? 'Choose what first responders should know about a family member, like allergies and blood type.'
+                : 'Sign in to CareBow to set up a Medical ID.'}
+            </Text>
+            {canEdit && (
+              <TouchableOpacity style={styles.setupButton} onPress={() => handleEdit()}>
+                <Text style={styles.setupButtonText}>Set up Medical ID</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          cards.map((card) => (
+            <MedicalIdCardView
+              key={card.memberId}
+              card={card}
+              onEdit={canEdit ? () => handleEdit(card.memberId) : undefined}
+            />
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.error,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  callButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    gap: spacing.xs,
+  },
+  emptyTitle: {
+    ...typography.h4,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  setupButton: {
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.full,
+    backgroundColor: colors.accent,
+  },
+  setupButtonText: {
+    ...typography.label,
+    color: colors.white,
+  },
+});
@@ -0,0 +1,6 @@
+/**
+ * Medical ID Screens Barrel Export
+ */
+
+export { MedicalIdScreen } from './MedicalIdScreen';
+export { MedicalIdEditorScreen } from './MedicalIdEditorScreen';
@@ -0,0 +1,7 @@
+/**
+ * Medical ID Services Barrel Export
+ */
+
+export * from './medicalIdCard';
+export * from './medicalIdPayload';
+export * from './qrCode';
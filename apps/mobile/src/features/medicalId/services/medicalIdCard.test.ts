@@ -0,0 +1,144 @@
+import {
+  createEmptyCarePreferences,
+  createEmptyMemberHealthInfo,
+  type EmergencyContact,
+  type FamilyMember,
+} from '@/types/profile';
+import { MEDICAL_ID_FIELDS } from '../types';
+import { buildMedicalIdCard, formatMedicalIdField, NONE_RECORDED } from './medicalIdCard';
+import { decodeMedicalIdPayload, encodeMedicalIdPayload } from './medicalIdPayload';
+
+const now = new Date('2026-03-05T10:00:00.000Z');
+
+function member(overrides: Partial<FamilyMember> = {}): FamilyMember {
+  return {
+    id: 'mom',
+    firstName: 'Asha',
+    lastName: 'Rao',
+    relationship: 'parent',
+    dateOfBirth: '1950-03-12T00:00:00.000Z',
+    isDefault: false,
+    healthInfo: {
+      ...createEmptyMemberHealthInfo(),
+      bloodType: 'O+',
+      allergies: [
+        { id: 'a1', name: 'Penicillin', severity: 'severe' },
+        { id: 'a2', name: 'Peanuts; tree nuts', severity: 'unknown' },
+      ],
+      conditions: [
+        { id: 'c1', name: 'Type 2 diabetes', status: 'managed' },
+        { id: 'c2', name: 'Broken wrist', status: 'resolved' },
+      ],
+      medications: [{ id: 'm1', name: 'Metformin', dosage: '500 mg', frequency: 'twice daily' }],
+      mobilityStatus: 'needs_assistance',
+      notes: 'Uses a hearing aid.\nSpeaks Kannada.',
+    },
+    carePreferences: createEmptyCarePreferences(),
+    profileCompleteness: 80,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const contacts: EmergencyContact[] = [
+  { id: 'e1', name: 'Meera', relationship: '', phone: '+1 (555) 010-2000', isDefault: false },
+  { id: 'e2', name: 'Ravi Rao', relationship: 'Son', phone: '+91 98123 45678', isDefault: true },
+];
+
+describe('medical ID card', () => {
+  it('includes only the fields the user chose', () => {
+    const card = buildMedicalIdCard(member(), contacts, ['bloodType', 'allergies'], now);
+
+    expect(card).toEqual({
+      memberId: 'mom',
+      name: 'Asha Rao',
+      fields: ['bloodType', 'allergies'],
+      bloodType: 'O+',
+      allergies: [{ name: 'Penicillin', severity: 'severe' }, { name: 'Peanuts; tree nuts' }],
+      updatedAt: now.toISOString(),
+    });
+  });
+
+  it('leaves out resolved conditions and lists the default contact first', () => {
+    const card = buildMedicalIdCard(member(), contacts, [...MEDICAL_ID_FIELDS], now);
+
+    expect(card.conditions).toEqual(['Type 2 diabetes']);
+    expect(card.medications).toEqual(['Metformin 500 mg, twice daily']);
+    expect(card.mobility).toBe('Needs Assistance');
+    expect(card.emergencyContacts?.map((c) => c.name)).toEqual(['Ravi Rao', 'Meera']);
+  });
+
+  it('says when a shared list is empty rather than hiding it', () => {
+    const card = buildMedicalIdCard(
+      member({ healthInfo: createEmptyMemberHealthInfo() }),
+      [],
+      ['allergies', 'bloodType'],
+      now
+    );
+
+    expect(formatMedicalIdField(card, 'allergies')).toBe(NONE_RECORDED);
+    expect(formatMedicalIdField(card, 'bloodType')).toBeNull();
+    expect(formatMedicalIdField(card, 'medications')).toBeNull();
+  });
+});
+
+describe('medical ID payload', () => {
+  it('writes readable, versioned lines', () => {
+    const card = buildMedicalIdCard(member(), contacts, [...MEDICAL_ID_FIELDS], now);
+
+    expect(encodeMedicalIdPayload(card).split('\n')).toEqual([
+      'CAREBOW MEDICAL ID v1',
+      'Name: Asha Rao',
+      'DOB: 1950-03-12',
+      'Blood: O+',
+      'Allergies: Penicillin (severe); Peanuts, tree nuts',
+      'Conditions: Type 2 diabetes',
+      'Meds: Metformin 500 mg, twice daily',
+      'Mobility: Needs Assistance',
+      'ICE: Ravi Rao (Son) +919812345678; Meera +15550102000',
+      'Notes: Uses a hearing aid. Speaks Kannada.',
+      'Updated: 2026-03-05',
+    ]);
+  });
+
+  it('reads back what it wrote', () => {
+    const card = buildMedicalIdCard(member(), contacts, [...MEDICAL_ID_FIELDS], now);
+    const decoded = decodeMedicalIdPayload(encodeMedicalIdPayload(card));
+
+    expect(decoded).toMatchObject({
+      name: 'Asha Rao',
+      fields: [...MEDICAL_ID_FIELDS],
+      bloodType: 'O+',
+      allergies: [{ name: 'Penicillin', severity: 'severe' }, { name: 'Peanuts, tree nuts' }],
+      emergencyContacts: [
+        { name: 'Ravi Rao', relationship: 'Son', phone: '+919812345678' },
+        { name: 'Meera', phone: '+15550102000' },
+      ],
+      updatedAt: '2026-03-05',
+    });
+  });
+
+  it('keeps an empty shared list distinct from an unshared one', () => {
+    const card = buildMedicalIdCard(
+      member({ healthInfo: createEmptyMemberHealthInfo() }),
+      [],
+      ['allergies'],
+      now
+    );
+    const payload = encodeMedicalIdPayload(card);
+
+    expect(payload).toContain('Allergies: -');
+    expect(decodeMedicalIdPayload(payload)).toMatchObject({ fields: ['allergies'], allergies: [] });
+  });
+
+  it('rejects other text and newer versions, and skips unknown lines', () => {
+    expect(decodeMedicalIdPayload('https://example.com')).toBeNull();
+    expect(decodeMedicalIdPayload('CAREBOW MEDICAL ID v2\nName: Asha')).toBeNull();
+    expect(decodeMedicalIdPayload('CAREBOW MEDICAL ID v1\nName: Asha\nOrgan donor: yes')).toEqual({
+      name: 'Asha',
+      fields: [],
+      updatedAt: '',
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Medical ID Card
+ * Builds a member's emergency card from their profile, keeping only the
+ * fields the user chose to share
+ */
+
+import { EmergencyContact, FamilyMember, MOBILITY_LABELS } from '@/types/profile';
+import { MEDICAL_ID_FIELDS, MedicalIdAllergy, MedicalIdCard, MedicalIdField } from '../types';
+
+export function buildMedicalIdCard(
+  member: FamilyMember,
+  contacts: EmergencyContact[],
+  selected: MedicalIdField[],
+  now: Date = new Date()
+): MedicalIdCard {
+  const { healthInfo } = member;
+  const fields = MEDICAL_ID_FIELDS.filter((field) => selected.includes(field));
+  const card: MedicalIdCard = {
+    memberId: member.id,
+    name: `${member.firstName} ${member.lastName}`.trim(),
+    fields,
+    updatedAt: now.toISOString(),
+  };
+
+  for (const field of fields) {
+    switch (field) {
+      case 'dateOfBirth':
+        if (member.dateOfBirth) card.dateOfBirth = member.dateOfBirth.slice(0, 10);
+        break;
+      case 'bloodType':
+        if (healthInfo.bloodType && healthInfo.bloodType !== 'unknown') {
+          card.bloodType = healthInfo.bloodType;
+        }
+        break;
+      case 'allergies':
+        card.allergies = healthInfo.allergies.map(
+          (allergy): MedicalIdAllergy =>
+            allergy.severity === 'unknown'
+              ? { name: allergy.name }
+              : { name: allergy.name, severity: allergy.severity }
+        );
+        break;
+      case 'conditions':
+        // Resolved conditions are history, not something a responder acts on.
+        card.conditions = healthInfo.conditions
+          .filter((condition) => condition.status !== 'resolved')
+          .map((condition) => condition.name);
+        break;
+      case 'medications':
+        card.medications = healthInfo.medications.map((medication) =>
+          [`${medication.name} ${medication.dosage}`.trim(), medication.frequency]
+            .filter(Boolean)
+            .join(', ')
+        );
+        break;
+      case 'mobility':
+        card.mobility = MOBILITY_LABELS[healthInfo.mobilityStatus];
+        break;
+      case 'emergencyContacts':
+        card.emergencyContacts = [...contacts]
+          .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+          .map((contact) => ({
+            name: contact.name,
+            relationship: contact.relationship || undefined,
+            phone: contact.phone,
+          }));
+        break;
+      case 'notes':
+        if (healthInfo.notes?.trim()) card.notes = healthInfo.notes.trim();
+        break;
+    }
+  }
+
+  return card;
+}
+
+/** Shown for a shared list that is empty on the profile. */
+export const NONE_RECORDED = 'None recorded';
+
+function formatList<T>(items: T[] | undefined, format: (item: T) => string, separator: string) {
+  if (!items) return null;
+  return items.length ? items.map(format).join(separator) : NONE_RECORDED;
+}
+
+/** Display text for one field of a card, or null when it is not on the card. */
+export function formatMedicalIdField(card: MedicalIdCard, field: MedicalIdField): string | null {
+  switch (field) {
+    case 'dateOfBirth':
+      return card.dateOfBirth ?? null;
+    case 'bloodType':
+      return card.bloodType ?? null;
+    case 'allergies':
+      return formatList(
+        card.allergies,
+        (allergy) => (allergy.severity ? `${allergy.name} (${allergy.severity})` : allergy.name),
+        ', '
+      );
+    case 'conditions':
+      return formatList(card.conditions, (condition) => condition, ', ');
+    case 'medications':
+      return formatList(card.medications, (medication) => medication, '\n');
+    case 'mobility':
+      return card.mobility ?? null;
+    case 'emergencyContacts':
+      return formatList(
+        card.emergencyContacts,
+        (contact) =>
+          contact.relationship
+            ? `${contact.name} (${contact.relationship}) ${contact.phone}`
+            : `${contact.name} ${contact.phone}`,
+        '\n'
+      );
+    case 'notes':
+      return card.notes ?? null;
+  }
+}
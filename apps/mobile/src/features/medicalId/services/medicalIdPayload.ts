@@ -0,0 +1,201 @@
+/**
+ * Medical ID Payload
+ * The text written into a Medical ID QR code.
+ *
+ * Plain, labelled lines so any phone camera shows something a responder can
+ * read without CareBow, with a versioned header so CareBow can parse it back:
+ *
+ *   CAREBOW MEDICAL ID v1
+ *   Name: Asha Rao
+ *   Blood: O+
+ *   Allergies: Penicillin (severe); Peanuts
+ *   ICE: Ravi Rao (Son) +919812345678
+ *
+ * Only fields on the card are written. List items are separated by "; ".
+ */
+
+import {
+  MEDICAL_ID_FIELDS,
+  MEDICAL_ID_PAYLOAD_VERSION,
+  MedicalIdAllergy,
+  MedicalIdCard,
+  MedicalIdContact,
+  MedicalIdField,
+} from '../types';
+
+/** A card read back from a payload; the member id never leaves the device. */
+export type DecodedMedicalId = Omit<MedicalIdCard, 'memberId'>;
+
+const HEADER = 'CAREBOW MEDICAL ID v';
+const ITEM_SEPARATOR = '; ';
+
+const FIELD_KEYS: Record<MedicalIdField, string> = {
+  dateOfBirth: 'DOB',
+  bloodType: 'Blood',
+  allergies: 'Allergies',
+  conditions: 'Conditions',
+  medications: 'Meds',
+  mobility: 'Mobility',
+  emergencyContacts: 'ICE',
+  notes: 'Notes',
+};
+
+const SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
+
+// ============================================
+// ENCODING
+// ============================================
+
+/** One line of text with no separators a reader could mistake for structure. */
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function cleanItem(value: string): string {
+  return clean(value.replace(/;/g, ','));
+}
+
+/** Names and relationships sit around the parentheses the decoder looks for. */
+function cleanContactPart(value: string): string {
+  return clean(value.replace(/[;()]/g, ' '));
+}
+
+function encodeField(card: MedicalIdCard, field: MedicalIdField): string | null {
+  switch (field) {
+    case 'dateOfBirth':
+      return card.dateOfBirth ?? null;
+    case 'bloodType':
+      return card.bloodType ?? null;
+    case 'allergies':
+      return card.allergies
+        ? card.allergies
+            .map((allergy) =>
+              allergy.severity
+                ? `${cleanItem(allergy.name)} (${allergy.severity})`
+                : cleanItem(allergy.name)
+            )
+            .join(ITEM_SEPARATOR)
+        : null;
+    case 'conditions':
+      return card.conditions ? card.conditions.map(cleanItem).join(ITEM_SEPARATOR) : null;
+    case 'medications':
+      return card.medications ? card.medications.map(cleanItem).join(ITEM_SEPARATOR) : null;
+    case 'mobility':
+      return card.mobility ? clean(card.mobility) : null;
+    case 'emergencyContacts':
+      return card.emergencyContacts
+        ? card.emergencyContacts
+            .map((contact) => {
+              const name = cleanContactPart(contact.name);
+              const phone = contact.phone.replace(/[^\d+]/g, '');
+              return contact.relationship
+                ? `${name} (${cleanContactPart(contact.relationship)}) ${phone}`
+                : `${name} ${phone}`;
+            })
+            .join(ITEM_SEPARATOR)
+        : null;
+    case 'notes':
+      return card.notes ? clean(card.notes) : null;
+  }
+}
+
+export function encodeMedicalIdPayload(card: MedicalIdCard): string {
+  const lines = [`${HEADER}${MEDICAL_ID_PAYLOAD_VERSION}`, `Name: ${clean(card.name)}`];
+  for (const field of MEDICAL_ID_FIELDS) {
+    if (!card.fields.includes(field)) continue;
+    const value = encodeField(card, field);
+    // An empty list is still worth saying: the user chose to share it.
+    if (value !== null) lines.push(`${FIELD_KEYS[field]}: ${value || '-'}`);
+  }
+  lines.push(`Updated: ${card.updatedAt.slice(0, 10)}`);
+  return lines.join('\n');
+}
+
+// ============================================
+// DECODING
+// ============================================
+
+function splitItems(value: string): string[] {
+  return value === '-' ? [] : value.split(ITEM_SEPARATOR).filter(Boolean);
+}
+
+function decodeAllergy(item: string): MedicalIdAllergy {
+  const match = item.match(/^(.*) \((mild|moderate|severe)\)$/);
+  const severity = SEVERITIES.find((s) => s === match?.[2]);
+  return match && severity ? { name: match[1], severity } : { name: item };
+}
+
+function decodeContact(item: string): MedicalIdContact | null {
+  const match = item.match(/^(.+?)(?: \(([^()]*)\))? (\+?\d+)$/);
+  if (!match) return null;
+  return match[2]
+    ? { name: match[1], relationship: match[2], phone: match[3] }
+    : { name: match[1], phone: match[3] };
+}
+
+/**
+ * Parse a payload. Returns null for text that is not a Medical ID or was
+ * written by a newer format than this build understands. Unknown lines are
+ * skipped so additive changes do not need a new version.
+ */
+export function decodeMedicalIdPayload(payload: string): DecodedMedicalId | null {
+  const [header, ...lines] = payload.split(/\r?\n/);
+  if (!header?.startsWith(HEADER)) return null;
+  const version = Number(header.slice(HEADER.length));
+  if (!Number.isInteger(version) || version < 1 || version > MEDICAL_ID_PAYLOAD_VERSION) {
+    return null;
+  }
+
+  const card: DecodedMedicalId = { name: '', fields: [], updatedAt: '' };
+  for (const line of lines) {
+    const separator = line.indexOf(': ');
+    if (separator < 0) continue;
+    const key = line.slice(0, separator);
+    const value = line.slice(separator + 2);
+
+    if (key === 'Name') {
+      card.name = value;
+      continue;
+    }
+    if (key === 'Updated') {
+      card.updatedAt = value;
+      continue;
+    }
+
+    const field = MEDICAL_ID_FIELDS.find((f) => FIELD_KEYS[f] === key);
+    if (!field) continue;
+    card.fields.push(field);
+
+    switch (field) {
+      case 'dateOfBirth':
+        card.dateOfBirth = value;
+        break;
+      case 'bloodType':
+        card.bloodType = BLOOD_TYPES.find((type) => type === value);
+        break;
+      case 'allergies':
+        card.allergies = splitItems(value).map(decodeAllergy);
+        break;
+      case 'conditions':
+        card.conditions = splitItems(value);
+        break;
+      case 'medications':
+        card.medications = splitItems(value);
+        break;
+      case 'mobility':
+        card.mobility = value;
+        break;
+      case 'emergencyContacts':
+        card.emergencyContacts = splitItems(value)
+          .map(decodeContact)
+          .filter((contact): contact is MedicalIdContact => contact !== null);
+        break;
+      case 'notes':
+        card.notes = value;
+        break;
+    }
+  }
+
+  return card.name ? card : null;
+}
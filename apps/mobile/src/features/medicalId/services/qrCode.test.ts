@@ -0,0 +1,57 @@
+import jsQR from 'jsqr';
+import { MAX_QR_VERSION, QrCodeTooLongError, encodeQrCode, toUtf8Bytes } from './qrCode';
+
+/** Pixels per module when rasterising a symbol for the reference decoder. */
+const SCALE = 4;
+const QUIET_ZONE = 4;
+
+/** Read a symbol back with jsQR, as a phone camera would see the rendered code. */
+function decode(modules: boolean[][]): string | null {
+  const extent = (modules.length + QUIET_ZONE * 2) * SCALE;
+  const pixels = new Uint8ClampedArray(extent * extent * 4).fill(255);
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < SCALE; dy++) {
+        for (let dx = 0; dx < SCALE; dx++) {
+          const px = (x + QUIET_ZONE) * SCALE + dx;
+          const py = (y + QUIET_ZONE) * SCALE + dy;
+          pixels.fill(0, (py * extent + px) * 4, (py * extent + px) * 4 + 3);
+        }
+      }
+    });
+  });
+  return jsQR(pixels, extent, extent)?.data ?? null;
+}
+
+describe('QR code encoder', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQrCode('a'.repeat(14)).version).toBe(1);
+    expect(encodeQrCode('a'.repeat(15)).version).toBe(2);
+    expect(encodeQrCode('a'.repeat(666)).version).toBe(MAX_QR_VERSION);
+    expect(() => encodeQrCode('a'.repeat(667))).toThrow(QrCodeTooLongError);
+  });
+
+  it('produces a symbol a reference decoder reads back', () => {
+    const text = 'CAREBOW MEDICAL ID v1\nName: Asha Rao\nBlood: O+';
+    const qr = encodeQrCode(text);
+
+    expect(qr.size).toBe(qr.version * 4 + 17);
+    expect(decode(qr.modules)).toBe(text);
+  });
+
+  it('round-trips non-ASCII text and large symbols', () => {
+    const accented = 'Allergies: pénicilline, 花粉 😀';
+    const long = 'Medication: Amlodipine 5mg daily; '.repeat(12);
+
+    expect(decode(encodeQrCode(accented).modules)).toBe(accented);
+    expect(encodeQrCode(long).version).toBeGreaterThanOrEqual(7);
+    expect(decode(encodeQrCode(long).modules)).toBe(long);
+  });
+
+  it('encodes text as UTF-8', () => {
+    expect(toUtf8Bytes('Aé€😀')).toEqual([
+      0x41, 0xc3, 0xa9, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80,
+    ]);
+  });
+});
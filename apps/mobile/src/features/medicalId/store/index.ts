@@ -0,0 +1,5 @@
+/**
+ * Medical ID Store Barrel Export
+ */
+
+export * from './useMedicalIdStore';
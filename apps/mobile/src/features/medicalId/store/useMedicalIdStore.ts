@@ -0,0 +1,81 @@
+/**
+ * Medical ID Store
+ * Saved emergency cards, one per family member
+ * Uses Zustand with AsyncStorage persistence
+ *
+ * Unlike the profile store this is not cleared on logout: the cards must be
+ * readable from the signed-out emergency screen. They stay until removed.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { EmergencyContact, FamilyMember } from '@/types/profile';
+import { MedicalIdCard, MedicalIdField } from '../types';
+import { buildMedicalIdCard } from '../services/medicalIdCard';
+
+// ============================================
+// STORE TYPES
+// ============================================
+
+type MedicalIdState = {
+  cards: MedicalIdCard[];
+};
+
+type MedicalIdActions = {
+  saveCard: (
+    member: FamilyMember,
+    contacts: EmergencyContact[],
+    fields: MedicalIdField[]
+  ) => MedicalIdCard;
+  removeCard: (memberId: string) => void;
+  getCard: (memberId: string) => MedicalIdCard | undefined;
+  resetStore: () => void;
+};
+
+const initialState: MedicalIdState = {
+  cards: [],
+};
+
+// ============================================
+// STORE IMPLEMENTATION
+// ============================================
+
+export const useMedicalIdStore = create<MedicalIdState & MedicalIdActions>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      saveCard: (member, contacts, fields) => {
+        const card = buildMedicalIdCard(member, contacts, fields);
+        set((state) => ({
+          cards: state.cards.some((c) => c.memberId === member.id)
+            ? state.cards.map((c) => (c.memberId === member.id ? card : c))
+            : [...state.cards, card],
+        }));
+        return card;
+      },
+
+      removeCard: (memberId) => {
+        set((state) => ({ cards: state.cards.filter((c) => c.memberId !== memberId) }));
+      },
+
+      getCard: (memberId) => get().cards.find((c) => c.memberId === memberId),
+
+      resetStore: () => set(initialState),
+    }),
+    {
+      name: 'carebow-medical-id-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        cards: state.cards,
+      }),
+    }
+  )
+);
+
+// ============================================
+// SELECTOR HOOKS
+// ============================================
+
+export const useMedicalIdCards = () => useMedicalIdStore((state) => state.cards);
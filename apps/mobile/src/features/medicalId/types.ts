@@ -0,0 +1,75 @@
+/**
+ * Medical ID Feature Types
+ * Emergency cards for family members that first responders can read without
+ * signing in, on screen or by scanning a QR code
+ */
+
+import type { Allergy, BloodType } from '@/types/profile';
+
+// ============================================
+// FIELDS
+// ============================================
+
+/** Optional parts of a card. The member's name is always on it. */
+export const MEDICAL_ID_FIELDS = [
+  'dateOfBirth',
+  'bloodType',
+  'allergies',
+  'conditions',
+  'medications',
+  'mobility',
+  'emergencyContacts',
+  'notes',
+] as const;
+export type MedicalIdField = (typeof MEDICAL_ID_FIELDS)[number];
+
+export const MEDICAL_ID_FIELD_LABELS: Record<MedicalIdField, string> = {
+  dateOfBirth: 'Date of birth',
+  bloodType: 'Blood type',
+  allergies: 'Allergies',
+  conditions: 'Conditions',
+  medications: 'Medications',
+  mobility: 'Mobility',
+  emergencyContacts: 'Emergency contacts',
+  notes: 'Health notes',
+};
+
+// ============================================
+// CARD
+// ============================================
+
+export type MedicalIdAllergy = {
+  name: string;
+  severity?: Exclude<Allergy['severity'], 'unknown'>;
+};
+
+export type MedicalIdContact = {
+  name: string;
+  relationship?: string;
+  phone: string;
+};
+
+/**
+ * A snapshot of the fields the user chose to share. It is stored on the
+ * device apart from the profile so it stays readable while signed out;
+ * editing the profile does not change it until the card is saved again.
+ */
+export type MedicalIdCard = {
+  memberId: string;
+  name: string;
+  /** Fields the user chose; the values below are set only for these. */
+  fields: MedicalIdField[];
+  dateOfBirth?: string; // YYYY-MM-DD
+  bloodType?: Exclude<BloodType, 'unknown'>;
+  allergies?: MedicalIdAllergy[];
+  conditions?: string[];
+  /** "Name dosage, frequency", one entry per medication. */
+  medications?: string[];
+  mobility?: string;
+  emergencyContacts?: MedicalIdContact[];
+  notes?: string;
+  updatedAt: string;
+};
+
+/** Payload format written into the QR code. Bump when the layout changes. */
+export const MEDICAL_ID_PAYLOAD_VERSION = 1;
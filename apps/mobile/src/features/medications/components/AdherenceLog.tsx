@@ -0,0 +1,199 @@
+/**
+ * Adherence Log
+ * A member's recent doses per scheduled medication, with missed-dose streaks
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography } from '@/theme';
+import { formatDisplayTime } from '@/features/safety/services/checkInService';
+import { useMemberAdherence, type ScheduleAdherence } from '../hooks/useAdherence';
+import { useMedicationStore } from '../store/useMedicationStore';
+import { DoseStatus, MISSED_DOSE_ALERT_THRESHOLD } from '../types';
+
+const LOG_DAYS = 7;
+const RECORDS_SHOWN = 6;
+
+const STATUS_DISPLAY: Record<DoseStatus, { label: string; icon: string; color: string }> = {
+  taken: { label: 'Taken', icon: 'checkmark-circle', color: colors.success },
+  skipped: { label: 'Skipped', icon: 'remove-circle', color: colors.textTertiary },
+  missed: { label: 'Missed', icon: 'close-circle', color: colors.error },
+  pending: { label: 'Due', icon: 'time', color: colors.warning },
+};
+
+function formatDoseTime(iso: string): string {
+  const date = new Date(iso);
+  const day = date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${day}, ${formatDisplayTime(date)}`;
+}
+
+interface AdherenceLogProps {
+  memberId: string;
+  memberName: string;
+}
+
+export function AdherenceLog({ memberId, memberName }: AdherenceLogProps) {
+  const adherence = useMemberAdherence(memberId, LOG_DAYS);
+
+  if (adherence.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <Text style={styles.emptyText}>
+          Set a dose schedule on a medication to start tracking doses.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.list}>
+      {adherence.map((item) => (
+        <ScheduleLog key={item.schedule.id} item={item} memberName={memberName} />
+      ))}
+    </View>
+  );
+}
+
+function ScheduleLog({ item, memberName }: { item: ScheduleAdherence; memberName: string }) {
+  const recordDose = useMedicationStore((state) => state.recordDose);
+  const { schedule, records, summary, streak } = item;
+  const isAsNeeded = schedule.frequency === 'as_needed';
+  const due = summary.taken + summary.skipped + summary.missed;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.medicationName}>{schedule.medicationName}</Text>
+        <Text style={styles.summary}>
+          {isAsNeeded
+            ? `${summary.taken} taken in ${LOG_DAYS} days`
+            : due > 0
+              ? `${summary.taken} of ${due} taken`
+              : 'No doses due yet'}
+        </Text>
+      </View>
+
+      {streak && streak.count >= MISSED_DOSE_ALERT_THRESHOLD && (
+        <View style={styles.streakBanner}>
+          <Icon name="alert-circle" size={16} color={colors.error} />
+          <Text style={styles.streakText}>
+            {memberName} has missed the last {streak.count} doses.
+          </Text>
+        </View>
+      )}
+
+      {records.slice(0, RECORDS_SHOWN).map((record) => {
+        const display = STATUS_DISPLAY[record.status];
+        const canMark = record.status === 'missed' || record.status === 'pending';
+        return (
+          <View key={record.scheduledFor} style={styles.recordRow}>
+            <Icon name={display.icon} size={18} color={display.color} />
+            <Text style={styles.recordTime}>{formatDoseTime(record.scheduledFor)}</Text>
+            {canMark ? (
+              <TouchableOpacity
+                onPress={() => recordDose(schedule.id, record.scheduledFor, 'taken')}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={styles.markTaken}>Mark taken</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={[styles.recordStatus, { color: display.color }]}>{display.label}</Text>
+            )}
+          </View>
+        );
+      })}
+
+      {isAsNeeded && (
+        <TouchableOpacity
+          style={styles.logButton}
+          onPress={() => recordDose(schedule.id, new Date().toISOString(), 'taken')}
+        >
+          <Icon name="add" size={16} color={colors.accent} />
+          <Text style={styles.logButtonText}>Log a dose now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: spacing.sm,
+  },
+  empty: {
+    paddingVertical: spacing.lg,
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  card: {
+    padding: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  medicationName: {
+    ...typography.label,
+    flex: 1,
+  },
+  summary: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  streakBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.errorSoft,
+    borderRadius: radius.sm,
+    padding: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  streakText: {
+    ...typography.caption,
+    color: colors.error,
+    flex: 1,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: 4,
+  },
+  recordTime: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  recordStatus: {
+    ...typography.caption,
+  },
+  markTaken: {
+    ...typography.labelSmall,
+    color: colors.accent,
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xxs,
+    marginTop: spacing.xs,
+  },
+  logButtonText: {
+    ...typography.labelSmall,
+    color: colors.accent,
+  },
+});
@@ -0,0 +1,378 @@
+/**
+ * Medication Schedule Sheet
+ * Set when a member takes a medication and whether to remind them
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, radius, typography, components } from '@/theme';
+import { initializeNotifications } from '@/services/notifications';
+import type { FamilyMember, Medication } from '@/types/profile';
+import { useMedicationStore } from '../store/useMedicationStore';
+import { isValidLocalDate, parseDoseTimes, toLocalDateString } from '../services/doseSchedule';
+import { DOSE_FREQUENCIES, DOSE_FREQUENCY_LABELS, DoseFrequency } from '../types';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface MedicationScheduleSheetProps {
+  visible: boolean;
+  member: FamilyMember;
+  medication: Medication | null;
+  onClose: () => void;
+}
+
+export function MedicationScheduleSheet({
+  visible,
+  member,
+  medication,
+  onClose,
+}: MedicationScheduleSheetProps) {
+  const insets = useSafeAreaInsets();
+  const saveSchedule = useMedicationStore((state) => state.saveSchedule);
+  const removeSchedule = useMedicationStore((state) => state.removeSchedule);
+  const existing = useMedicationStore((state) =>
+    medication ? state.getScheduleForMedication(member.id, medication.id) : undefined
+  );
+
+  const [frequency, setFrequency] = useState<DoseFrequency>('daily');
+  const [timesInput, setTimesInput] = useState('');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [remindersEnabled, setRemindersEnabled] = useState(true);
+
+  // Load the saved schedule (or defaults) each time the sheet opens.
+  useEffect(() => {
+    if (!visible) return;
+    setFrequency(existing?.frequency ?? 'daily');
+    setTimesInput(existing?.times.join(', ') ?? '');
+    setDaysOfWeek(existing?.daysOfWeek ?? []);
+    setStartDate(existing?.startDate ?? toLocalDateString(new Date()));
+    setEndDate(existing?.endDate ?? '');
+    setRemindersEnabled(existing?.remindersEnabled ?? true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  if (!medication) return null;
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()
+    );
+  };
+
+  const handleSave = async () => {
+    const times = frequency === 'as_needed' ? [] : parseDoseTimes(timesInput);
+    if (times === null || (frequency !== 'as_needed' && times.length === 0)) {
+      Alert.alert('Check dose times', 'Enter one or more 24-hour times, e.g. 08:00, 20:00.');
+      return;
+    }
+    if (frequency === 'specific_days' && daysOfWeek.length === 0) {
+      Alert.alert('Choose days', 'Pick the days this medication is taken.');
+      return;
+    }
+    if (!isValidLocalDate(startDate) || (endDate && !isValidLocalDate(endDate))) {
+      Alert.alert('Check dates', 'Enter dates as YYYY-MM-DD.');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      Alert.alert('Check dates', 'The end date is before the start date.');
+      return;
+    }
+
+    const wantsReminders = remindersEnabled && frequency !== 'as_needed';
+    if (wantsReminders) {
+      const granted = await initializeNotifications();
+      if (!granted) {
+        Alert.alert(
+          'Notifications are off',
+          'The schedule is saved, but reminders need notification permission in Settings.'
+        );
+      }
+    }
+
+    saveSchedule(
+      {
+        memberId: member.id,
+        medicationId: medication.id,
+        medicationName: medication.name,
+        dosage: medication.dosage,
+        frequency,
+        times,
+        daysOfWeek: frequency === 'specific_days' ? daysOfWeek : [],
+        startDate,
+        endDate: endDate || null,
+        remindersEnabled: wantsReminders,
+      },
+      member.relationship === 'self' ? undefined : member.firstName
+    );
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!existing) return;
+    Alert.alert(
+      'Remove schedule',
+      `Stop reminders for ${medication.name}? The adherence log for it is removed too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            removeSchedule(existing.id);
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancel}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Dose Schedule</Text>
+          <TouchableOpacity onPress={() => void handleSave()}>
+            <Text style={styles.save}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.medicationName}>{medication.name}</Text>
+          {!!medication.dosage && <Text style={styles.medicationMeta}>{medication.dosage}</Text>}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>How often</Text>
+            <View style={styles.chipRow}>
+              {DOSE_FREQUENCIES.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, frequency === option && styles.chipSelected]}
+                  onPress={() => setFrequency(option)}
+                >
+                  <Text style={[styles.chipText, frequency === option && styles.chipTextSelected]}>
+                    {DOSE_FREQUENCY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {frequency === 'specific_days' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Days</Text>
+              <View style={styles.chipRow}>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.dayChip, daysOfWeek.includes(day) && styles.chipSelected]}
+                    onPress={() => toggleDay(day)}
+                  >
+                    <Text
+                      style={[styles.chipText, daysOfWeek.includes(day) && styles.chipTextSelected]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {frequency !== 'as_needed' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Dose times (24-hour)</Text>
+              <TextInput
+                style={styles.input}
+                value={timesInput}
+                onChangeText={setTimesInput}
+                placeholder="e.g., 08:00, 20:00"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Start date</Text>
+            <TextInput
+              style={styles.input}
+              value={startDate}
+              onChangeText={setStartDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>End date (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="Leave blank for an ongoing medication"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+
+          {frequency !== 'as_needed' ? (
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>Remind at each dose</Text>
+                <Text style={styles.switchHint}>With Taken, Skip and Snooze on the reminder</Text>
+              </View>
+              <Switch
+                value={remindersEnabled}
+                onValueChange={setRemindersEnabled}
+                trackColor={{ false: colors.border, true: colors.accent }}
+              />
+            </View>
+          ) : (
+            <Text style={styles.note}>
+              As-needed medications get no reminders. Log each dose from the adherence log.
+            </Text>
+          )}
+
+          {existing && (
+            <TouchableOpacity style={styles.removeButton} onPress={handleRemove}>
+              <Text style={styles.removeText}>Remove schedule</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  cancel: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  title: {
+    ...typography.h4,
+  },
+  save: {
+    ...typography.label,
+    color: colors.accent,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  medicationName: {
+    ...typography.h3,
+  },
+  medicationMeta: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  inputGroup: {
+    marginTop: spacing.lg,
+  },
+  label: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...components.input,
+    color: colors.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  dayChip: {
+    minWidth: 44,
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.accent,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.lg,
+    padding: spacing.md,
+    borderRadius: radius.lg,
+    backgroundColor: colors.surface,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    ...typography.label,
+  },
+  switchHint: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  note: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    lineHeight: 18,
+    marginTop: spacing.lg,
+  },
+  removeButton: {
+    marginTop: spacing.xl,
+    alignItems: 'center',
+    padding: spacing.sm,
+  },
+  removeText: {
+    ...typography.label,
+    color: colors.error,
+  },
+});
@@ -0,0 +1,6 @@
+/**
+ * Medication Components Barrel Export
+ */
+
+export { MedicationScheduleSheet } from './MedicationScheduleSheet';
+export { AdherenceLog } from './AdherenceLog';
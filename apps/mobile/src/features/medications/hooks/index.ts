@@ -0,0 +1,6 @@
+/**
+ * Medication Hooks Index
+ */
+
+export { useMedicationReminders, handleMedicationReminderAction } from './useMedicationReminders';
+export { useMemberAdherence, useMissedDoseStreaks, type ScheduleAdherence } from './useAdherence';
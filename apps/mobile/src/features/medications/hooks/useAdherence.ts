@@ -0,0 +1,75 @@
+/**
+ * Adherence Hooks
+ * Derived adherence views over the medication store
+ */
+
+import { useMemo } from 'react';
+import { useDoseLog, useMedicationSchedules } from '../store/useMedicationStore';
+import {
+  buildDoseRecords,
+  getMissedDoseStreak,
+  summarizeAdherence,
+} from '../services/doseSchedule';
+import {
+  AdherenceSummary,
+  DoseRecord,
+  MISSED_DOSE_ALERT_THRESHOLD,
+  MedicationSchedule,
+  MissedDoseStreak,
+} from '../types';
+
+export type ScheduleAdherence = {
+  schedule: MedicationSchedule;
+  /** Most recent first. */
+  records: DoseRecord[];
+  summary: AdherenceSummary;
+  streak: MissedDoseStreak | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adherence over the last `days` days for each of a member's schedules.
+ * Recomputed when the schedules or the log change, not on a clock.
+ */
+export function useMemberAdherence(memberId: string, days: number = 7): ScheduleAdherence[] {
+  const schedules = useMedicationSchedules();
+  const doseLog = useDoseLog();
+
+  return useMemo(() => {
+    const now = new Date();
+    const from = new Date(now.getTime() - days * DAY_MS);
+    return schedules
+      .filter((schedule) => schedule.memberId === memberId)
+      .map((schedule) => {
+        const records = buildDoseRecords(schedule, doseLog, from, now, now);
+        return {
+          schedule,
+          records,
+          summary: summarizeAdherence(records),
+          streak: getMissedDoseStreak(schedule, doseLog, now),
+        };
+      });
+  }, [schedules, doseLog, memberId, days]);
+}
+
+/**
+ * Missed-dose streaks long enough to tell the caregiver about, longest first.
+ * Pass a member id to narrow to one member.
+ */
+export function useMissedDoseStreaks(memberId?: string): MissedDoseStreak[] {
+  const schedules = useMedicationSchedules();
+  const doseLog = useDoseLog();
+
+  return useMemo(() => {
+    const now = new Date();
+    return schedules
+      .filter((schedule) => !memberId || schedule.memberId === memberId)
+      .map((schedule) => getMissedDoseStreak(schedule, doseLog, now))
+      .filter(
+        (streak): streak is MissedDoseStreak =>
+          streak !== null && streak.count >= MISSED_DOSE_ALERT_THRESHOLD
+      )
+      .sort((a, b) => b.count - a.count);
+  }, [schedules, doseLog, memberId]);
+}
@@ -0,0 +1,112 @@
+/**
+ * Medication Reminders Hook
+ * Answers medication reminder actions and keeps reminders in step at launch
+ */
+
+import { useEffect } from 'react';
+import {
+  MEDICATION_REMINDER_ACTIONS,
+  NotificationService,
+  ScheduledNotification,
+  snoozeMedicationReminder,
+} from '@/services/notifications';
+import { useProfileStore } from '@/store/useProfileStore';
+import { createLogger } from '@/utils/logger';
+import { useMedicationStore } from '../store/useMedicationStore';
+import { resolveDoseTime } from '../services/doseSchedule';
+import { DOSE_SNOOZE_MINUTES } from '../types';
+
+const logger = createLogger('MedicationReminders');
+
+function memberNames(): Record<string, string> {
+  return Object.fromEntries(
+    useProfileStore
+      .getState()
+      // Reminders for your own medicines need no name on them.
+      .members.filter((member) => member.relationship !== 'self')
+      .map((member) => [member.id, member.firstName])
+  );
+}
+
+/**
+ * Record what a reminder action says about its dose. Returns false for
+ * actions that are not medication reminder actions.
+ */
+export function handleMedicationReminderAction(
+  actionId: string,
+  notification: ScheduledNotification,
+  now: Date = new Date()
+): boolean {
+  const data = notification.content.data;
+  if (data?.type !== 'medication_reminder') return false;
+
+  const store = useMedicationStore.getState();
+  const schedule = store.getSchedule(String(data.scheduleId));
+  if (!schedule) return false;
+
+  // A snoozed reminder carries its original dose time; a repeating one is for
+  // the latest dose at its time of day.
+  const scheduledFor =
+    typeof data.scheduledFor === 'string'
+      ? data.scheduledFor
+      : resolveDoseTime(schedule, String(data.time), now).toISOString();
+
+  switch (actionId) {
+    case MEDICATION_REMINDER_ACTIONS.taken:
+      store.recordDose(schedule.id, scheduledFor, 'taken');
+      return true;
+    case MEDICATION_REMINDER_ACTIONS.skipped:
+      store.recordDose(schedule.id, scheduledFor, 'skipped');
+      return true;
+    case MEDICATION_REMINDER_ACTIONS.snooze:
+      void snoozeMedicationReminder(
+        {
+          scheduleId: schedule.id,
+          memberId: schedule.memberId,
+          memberName: memberNames()[schedule.memberId],
+          medicationName: schedule.medicationName,
+          dosage: schedule.dosage,
+          time: String(data.time),
+        },
+        scheduledFor,
+        DOSE_SNOOZE_MINUTES
+      ).catch((error) => logger.warn('Could not snooze medication reminder', error));
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Mount once near the root. Listens for reminder actions for as long as the
+ * app is alive and reschedules every reminder at launch, which also retires
+ * the reminders of courses that have ended.
+ */
+export function useMedicationReminders() {
+  useEffect(() => {
+    const unsubscribe = NotificationService.onActionPressed((actionId, notification) => {
+      handleMedicationReminderAction(actionId, notification);
+    });
+
+    const resync = () => {
+      NotificationService.initialize()
+        .then(() => useMedicationStore.getState().resyncReminders(memberNames()))
+        .catch((error) => logger.warn('Medication reminder resync failed', error));
+    };
+
+    // Schedules load from storage asynchronously; resync what was persisted.
+    let unsubscribeHydration = () => {};
+    if (useMedicationStore.persist.hasHydrated()) {
+      resync();
+    } else {
+      unsubscribeHydration = useMedicationStore.persist.onFinishHydration(resync);
+    }
+
+    return () => {
+      unsubscribe();
+      unsubscribeHydration();
+    };
+  }, []);
+}
+
+export default useMedicationReminders;
@@ -0,0 +1,19 @@
+/**
+ * Medications Feature Barrel Export
+ * Dose schedules, reminders and adherence tracking for family members
+ */
+
+// Types
+export * from './types';
+
+// Store
+export * from './store';
+
+// Services
+export * from './services';
+
+// Hooks
+export * from './hooks';
+
+// Components
+export * from './components';
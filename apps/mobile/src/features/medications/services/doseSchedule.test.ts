@@ -0,0 +1,154 @@
+import {
+  buildDoseRecords,
+  describeSchedule,
+  getDoseTimes,
+  getFirstReminderTime,
+  getMissedDoseStreak,
+  isValidLocalDate,
+  parseDoseTimes,
+  resolveDoseTime,
+  summarizeAdherence,
+} from './doseSchedule';
+import { DoseLogEntry, MedicationSchedule } from '../types';
+
+function makeSchedule(overrides: Partial<MedicationSchedule> = {}): MedicationSchedule {
+  return {
+    id: 'sched-1',
+    memberId: 'member-1',
+    medicationId: 'med-1',
+    medicationName: 'Metformin',
+    dosage: '500mg',
+    frequency: 'daily',
+    times: ['08:00', '20:00'],
+    daysOfWeek: [],
+    startDate: '2026-03-02',
+    endDate: null,
+    remindersEnabled: true,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function logEntry(scheduledFor: Date, status: DoseLogEntry['status']): DoseLogEntry {
+  return {
+    id: `log-${scheduledFor.getTime()}`,
+    scheduleId: 'sched-1',
+    memberId: 'member-1',
+    scheduledFor: scheduledFor.toISOString(),
+    status,
+    recordedAt: scheduledFor.toISOString(),
+  };
+}
+
+// Local times, so the tests hold in any timezone. 2026-03-02 is a Monday.
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+
+describe('parseDoseTimes', () => {
+  it('normalizes, sorts and de-duplicates', () => {
+    expect(parseDoseTimes('20:30, 8:00 08:00')).toEqual(['08:00', '20:30']);
+  });
+
+  it('rejects anything that is not a 24-hour time', () => {
+    expect(parseDoseTimes('8am')).toBeNull();
+    expect(parseDoseTimes('24:00')).toBeNull();
+  });
+
+  it('validates calendar dates', () => {
+    expect(isValidLocalDate('2026-02-28')).toBe(true);
+    expect(isValidLocalDate('2026-02-30')).toBe(false);
+  });
+});
+
+describe('schedule expansion', () => {
+  it('lists daily doses inside the course only', () => {
+    const schedule = makeSchedule({ endDate: '2026-03-03' });
+
+    expect(getDoseTimes(schedule, at(1, 0), at(5, 0))).toEqual([
+      at(2, 8),
+      at(2, 20),
+      at(3, 8),
+      at(3, 20),
+    ]);
+  });
+
+  it('honours the weekday mask', () => {
+    const schedule = makeSchedule({
+      frequency: 'specific_days',
+      times: ['09:00'],
+      daysOfWeek: [1, 4], // Monday, Thursday
+    });
+
+    expect(getDoseTimes(schedule, at(2, 0), at(9, 0))).toEqual([at(2, 9), at(5, 9)]);
+  });
+
+  it('has no due doses for as-needed medication', () => {
+    expect(getDoseTimes(makeSchedule({ frequency: 'as_needed' }), at(2, 0), at(9, 0))).toEqual([]);
+  });
+
+  it('finds the first reminder after now, on a weekday when asked', () => {
+    const schedule = makeSchedule();
+
+    expect(getFirstReminderTime(schedule, '08:00', at(2, 9))).toEqual(at(3, 8));
+    expect(getFirstReminderTime(schedule, '20:00', at(1, 12))).toEqual(at(2, 20));
+    expect(getFirstReminderTime(schedule, '08:00', at(2, 9), 5)).toEqual(at(6, 8));
+    expect(
+      getFirstReminderTime(makeSchedule({ endDate: '2026-03-02' }), '08:00', at(2, 9))
+    ).toBeNull();
+  });
+
+  it('resolves a reminder to the dose it was for', () => {
+    const schedule = makeSchedule();
+
+    expect(resolveDoseTime(schedule, '20:00', at(2, 20, 5))).toEqual(at(2, 20));
+    // Answered after midnight: still yesterday evening's dose.
+    expect(resolveDoseTime(schedule, '20:00', at(3, 0, 30))).toEqual(at(2, 20));
+  });
+
+  it('describes the schedule', () => {
+    expect(describeSchedule(makeSchedule())).toBe('Every day at 08:00, 20:00');
+    expect(describeSchedule(makeSchedule({ frequency: 'specific_days', daysOfWeek: [1, 4] }))).toBe(
+      'Mon, Thu at 08:00, 20:00'
+    );
+  });
+});
+
+describe('adherence', () => {
+  const schedule = makeSchedule();
+
+  it('marks unanswered doses missed only after the grace period', () => {
+    const log = [logEntry(at(2, 8), 'taken')];
+    const records = buildDoseRecords(schedule, log, at(2, 0), at(3, 0), at(2, 21));
+
+    expect(records.map((r) => r.status)).toEqual(['pending', 'taken']);
+    expect(
+      buildDoseRecords(schedule, log, at(2, 0), at(3, 0), at(2, 23)).map((r) => r.status)
+    ).toEqual(['missed', 'taken']);
+  });
+
+  it('summarizes taken doses against due doses', () => {
+    const log = [logEntry(at(2, 8), 'taken'), logEntry(at(2, 20), 'skipped')];
+    const records = buildDoseRecords(schedule, log, at(2, 0), at(4, 0), at(3, 23));
+
+    expect(summarizeAdherence(records)).toEqual({ taken: 1, skipped: 1, missed: 2, rate: 0.25 });
+  });
+
+  it('counts the current missed-dose streak', () => {
+    const log = [logEntry(at(2, 8), 'taken')];
+    const streak = getMissedDoseStreak(schedule, log, at(3, 23));
+
+    expect(streak).toMatchObject({ count: 3, since: at(2, 20).toISOString() });
+  });
+
+  it('ends the streak at an answered dose, skipped included', () => {
+    const log = [logEntry(at(3, 8), 'skipped')];
+
+    expect(getMissedDoseStreak(schedule, log, at(3, 23))?.count).toBe(1);
+    expect(getMissedDoseStreak(schedule, [logEntry(at(3, 20), 'taken')], at(3, 23))).toBeNull();
+  });
+
+  it('ignores a dose that is still within its grace period', () => {
+    const log = [logEntry(at(3, 8), 'taken')];
+    expect(getMissedDoseStreak(schedule, log, at(3, 20, 30))).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Dose Schedule
+ * Pure date logic behind reminders, the adherence log and missed-dose streaks.
+ *
+ * Nothing here reads the clock or a store: `now` and the log are passed in,
+ * so the same answer comes back in tests, in the reminder action handler and
+ * on screen.
+ *
+ * Missed doses are never written down. A dose is missed when its time plus
+ * the grace period has passed and nothing was recorded for it, so a phone
+ * that was off for a day still shows those doses as missed once it is back.
+ */
+
+import {
+  DOSE_GRACE_PERIOD_MINUTES,
+  AdherenceSummary,
+  DoseLogEntry,
+  DoseRecord,
+  MedicationSchedule,
+  MissedDoseStreak,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far back a missed-dose streak is looked for. */
+const STREAK_LOOKBACK_DAYS = 30;
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+/** Local midnight of a YYYY-MM-DD date. */
+export function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 0, 0, 0, 0);
+}
+
+/** YYYY-MM-DD for a date in local time. */
+export function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
+}
+
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, 0, 0);
+}
+
+function addDays(day: Date, days: number): Date {
+  // Calendar arithmetic, not +24h, so DST changes do not shift dose times.
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days, 0, 0, 0, 0);
+}
+
+/**
+ * Parse dose times as typed ("8:00, 20:30"). Returns sorted, de-duplicated
+ * HH:mm times, or null when any entry is not a valid 24-hour time.
+ */
+export function parseDoseTimes(input: string): string[] | null {
+  const parts = input.split(/[,\s]+/).filter(Boolean);
+  const times = new Set<string>();
+  for (const part of parts) {
+    const match = part.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    if (!match) return null;
+    times.add(`${match[1].padStart(2, '0')}:${match[2]}`);
+  }
+  return [...times].sort();
+}
+
+/** Whether a string is a real YYYY-MM-DD calendar date. */
+export function isValidLocalDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  return toLocalDateString(parseLocalDate(date)) === date;
+}
+
+// ============================================
+// SCHEDULE EXPANSION
+// ============================================
+
+/** Whether doses fall on this local day: inside the course and on a chosen weekday. */
+export function isDoseDay(schedule: MedicationSchedule, day: Date): boolean {
+  if (schedule.frequency === 'as_needed') return false;
+
+  const dayStart = startOfLocalDay(day);
+  if (dayStart < parseLocalDate(schedule.startDate)) return false;
+  if (schedule.endDate && dayStart > parseLocalDate(schedule.endDate)) return false;
+
+  return schedule.frequency === 'daily' || schedule.daysOfWeek.includes(dayStart.getDay());
+}
+
+/** Scheduled dose times in [from, to), earliest first. */
+export function getDoseTimes(schedule: MedicationSchedule, from: Date, to: Date): Date[] {
+  if (schedule.frequency === 'as_needed' || schedule.times.length === 0) return [];
+
+  const times = [...schedule.times].sort();
+  const doses: Date[] = [];
+  for (let day = startOfLocalDay(from); day < to; day = addDays(day, 1)) {
+    if (!isDoseDay(schedule, day)) continue;
+    for (const time of times) {
+      const dose = atTime(day, time);
+      if (dose >= from && dose < to) doses.push(dose);
+    }
+  }
+  return doses;
+}
+
+/**
+ * First time a reminder for `time` should fire at or after `after`, on
+ * `weekday` when given. Null when the course ends before then.
+ */
+export function getFirstReminderTime(
+  schedule: MedicationSchedule,
+  time: string,
+  after: Date,
+  weekday?: number
+): Date | null {
+  const start = parseLocalDate(schedule.startDate);
+  let day = startOfLocalDay(after < start ? start : after);
+
+  // A week covers every weekday; one more day covers a time already past today.
+  for (let i = 0; i < 8; i++, day = addDays(day, 1)) {
+    if (!isDoseDay(schedule, day)) continue;
+    if (weekday !== undefined && day.getDay() !== weekday) continue;
+    const dose = atTime(day, time);
+    if (dose >= after) return dose;
+  }
+  return null;
+}
+
+/**
+ * The scheduled dose a reminder at `time` was for: the latest one at or
+ * before `now`, or the next one when the course has not started yet.
+ */
+export function resolveDoseTime(schedule: MedicationSchedule, time: string, now: Date): Date {
+  for (let i = 0; i < 8; i++) {
+    const day = addDays(startOfLocalDay(now), -i);
+    if (!isDoseDay(schedule, day)) continue;
+    const dose = atTime(day, time);
+    if (dose <= now) return dose;
+  }
+  return getFirstReminderTime(schedule, time, now) ?? atTime(now, time);
+}
+
+// ============================================
+// ADHERENCE
+// ============================================
+
+function isOverdue(dose: Date, now: Date): boolean {
+  return now.getTime() > dose.getTime() + DOSE_GRACE_PERIOD_MINUTES * 60 * 1000;
+}
+
+/**
+ * Every dose of a schedule in [from, to) with what became of it, most recent
+ * first. As-needed schedules have no due doses, so only what was taken shows.
+ */
+export function buildDoseRecords(
+  schedule: MedicationSchedule,
+  log: DoseLogEntry[],
+  from: Date,
+  to: Date,
+  now: Date
+): DoseRecord[] {
+  const entries = log.filter((entry) => entry.scheduleId === schedule.id);
+
+  if (schedule.frequency === 'as_needed') {
+    return entries
+      .filter((entry) => {
+        const at = new Date(entry.scheduledFor);
+        return at >= from && at < to;
+      })
+      .sort((a, b) => b.scheduledFor.localeCompare(a.scheduledFor))
+      .map((entry) => ({
+        scheduleId: schedule.id,
+        scheduledFor: entry.scheduledFor,
+        status: entry.status,
+        recordedAt: entry.recordedAt,
+      }));
+  }
+
+  const byTime = new Map<number, DoseLogEntry>();
+  for (const entry of entries) {
+    // The latest answer wins: "skipped" then "taken" after all is taken.
+    const key = new Date(entry.scheduledFor).getTime();
+    const existing = byTime.get(key);
+    if (!existing || existing.recordedAt < entry.recordedAt) byTime.set(key, entry);
+  }
+
+  return getDoseTimes(schedule, from, to > now ? now : to)
+    .reverse()
+    .map((dose) => {
+      const entry = byTime.get(dose.getTime());
+      return {
+        scheduleId: schedule.id,
+        scheduledFor: dose.toISOString(),
+        status: entry ? entry.status : isOverdue(dose, now) ? 'missed' : 'pending',
+        recordedAt: entry?.recordedAt,
+      };
+    });
+}
+
+export function summarizeAdherence(records: DoseRecord[]): AdherenceSummary {
+  const count = (status: DoseRecord['status']) =>
+    records.filter((record) => record.status === status).length;
+  const taken = count('taken');
+  const skipped = count('skipped');
+  const missed = count('missed');
+  const due = taken + skipped + missed;
+  return { taken, skipped, missed, rate: due > 0 ? taken / due : null };
+}
+
+/**
+ * Consecutive most-recent doses that were missed. A skipped dose was still
+ * answered, so it ends the streak just like a taken one. Null when the
+ * latest due dose was not missed.
+ */
+export function getMissedDoseStreak(
+  schedule: MedicationSchedule,
+  log: DoseLogEntry[],
+  now: Date
+): MissedDoseStreak | null {
+  const from = new Date(now.getTime() - STREAK_LOOKBACK_DAYS * DAY_MS);
+  const records = buildDoseRecords(schedule, log, from, now, now).filter(
+    (record) => record.status !== 'pending'
+  );
+
+  let count = 0;
+  while (count < records.length && records[count].status === 'missed') count++;
+  if (count === 0) return null;
+
+  return {
+    scheduleId: schedule.id,
+    memberId: schedule.memberId,
+    medicationName: schedule.medicationName,
+    count,
+    since: records[count - 1].scheduledFor,
+  };
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** One-line summary, e.g. "Mon, Thu at 08:00, 20:00". */
+export function describeSchedule(schedule: MedicationSchedule): string {
+  if (schedule.frequency === 'as_needed') return 'As needed';
+  const days =
+    schedule.frequency === 'daily'
+      ? 'Every day'
+      : schedule.daysOfWeek.map((day) => WEEKDAY_SHORT[day]).join(', ');
+  return `${days} at ${schedule.times.join(', ')}`;
+}
@@ -0,0 +1,6 @@
+/**
+ * Medication Services Barrel Export
+ */
+
+export * from './doseSchedule';
+export * from './medicationReminders';
@@ -0,0 +1,139 @@
+import {
+  MEDICATION_REMINDER_ACTIONS,
+  NotificationService,
+  type ScheduledNotification,
+} from '@/services/notifications';
+import { handleMedicationReminderAction } from '../hooks/useMedicationReminders';
+import { useMedicationStore } from '../store/useMedicationStore';
+import { MedicationScheduleInput } from '../types';
+import { syncMedicationReminders, wantsReminders } from './medicationReminders';
+
+const input: MedicationScheduleInput = {
+  memberId: 'member-1',
+  medicationId: 'med-1',
+  medicationName: 'Amlodipine',
+  dosage: '5mg',
+  frequency: 'specific_days',
+  times: ['08:00', '20:00'],
+  daysOfWeek: [1, 4],
+  startDate: '2026-03-02',
+  endDate: null,
+  remindersEnabled: true,
+};
+
+// The service itself is covered elsewhere; keep its bookkeeping in memory here.
+const pending = new Map<string, ScheduledNotification>();
+jest.spyOn(NotificationService, 'schedule').mockImplementation(async (notification) => {
+  pending.set(notification.id, { ...notification, createdAt: Date.now() });
+  return notification.id;
+});
+jest.spyOn(NotificationService, 'cancel').mockImplementation(async (id) => {
+  pending.delete(id);
+});
+jest
+  .spyOn(NotificationService, 'getScheduled')
+  .mockImplementation(async () => [...pending.values()]);
+
+async function scheduledFor(scheduleId: string): Promise<ScheduledNotification[]> {
+  return (await NotificationService.getScheduled()).filter(
+    (n) => n.content.data?.scheduleId === scheduleId
+  );
+}
+
+describe('medication reminders', () => {
+  beforeEach(async () => {
+    useMedicationStore.getState().resetStore();
+    pending.clear();
+  });
+
+  it('schedules one weekly reminder per dose time and weekday', async () => {
+    const schedule = useMedicationStore.getState().saveSchedule(input, 'Asha');
+
+    const count = await syncMedicationReminders(schedule, 'Asha', new Date(2026, 2, 2, 9, 0));
+    const reminders = await scheduledFor(schedule.id);
+
+    expect(count).toBe(4);
+    expect(reminders).toHaveLength(4);
+    expect(reminders.every((r) => r.trigger.repeatType === 'weekly')).toBe(true);
+    expect(reminders[0].content.title).toBe('Medication for Asha');
+    expect(reminders[0].content.actions?.map((a) => a.id)).toEqual([
+      MEDICATION_REMINDER_ACTIONS.taken,
+      MEDICATION_REMINDER_ACTIONS.skipped,
+      MEDICATION_REMINDER_ACTIONS.snooze,
+    ]);
+    // Monday 08:00 has passed, so that slot starts next Monday.
+    expect(
+      reminders.map((r) => new Date(r.trigger.timestamp ?? 0)).sort((a, b) => +a - +b)[0]
+    ).toEqual(new Date(2026, 2, 2, 20, 0));
+  });
+
+  it('drops reminders once the course has ended or reminders are off', async () => {
+    const schedule = useMedicationStore
+      .getState()
+      .saveSchedule({ ...input, endDate: '2026-03-05' });
+
+    expect(wantsReminders(schedule, new Date(2026, 2, 5, 23, 0))).toBe(true);
+    expect(wantsReminders(schedule, new Date(2026, 2, 6, 0, 1))).toBe(false);
+
+    await syncMedicationReminders(schedule, undefined, new Date(2026, 2, 6, 8, 0));
+    expect(await scheduledFor(schedule.id)).toHaveLength(0);
+
+    const off = useMedicationStore.getState().saveSchedule({ ...input, remindersEnabled: false });
+    await syncMedicationReminders(off);
+    expect(await scheduledFor(off.id)).toHaveLength(0);
+  });
+
+  it('records the dose a reminder action answers', async () => {
+    const schedule = useMedicationStore.getState().saveSchedule(input);
+    await syncMedicationReminders(schedule, undefined, new Date(2026, 2, 2, 7, 0));
+    const [reminder] = (await scheduledFor(schedule.id)).filter(
+      (r) => r.content.data?.time === '08:00'
+    );
+
+    // Answered at 08:10 on Thursday for the 08:00 Thursday dose. The clock is
+    // pinned too: the log drops entries older than its retention window.
+    jest.useFakeTimers().setSystemTime(new Date(2026, 2, 5, 8, 10));
+    let handled: boolean;
+    try {
+      handled = handleMedicationReminderAction(MEDICATION_REMINDER_ACTIONS.taken, reminder);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(handled).toBe(true);
+    expect(useMedicationStore.getState().doseLog).toEqual([
+      expect.objectContaining({
+        scheduleId: schedule.id,
+        status: 'taken',
+        scheduledFor: new Date(2026, 2, 5, 8, 0).toISOString(),
+      }),
+    ]);
+  });
+
+  it('snoozes without recording anything', async () => {
+    const schedule = useMedicationStore.getState().saveSchedule(input);
+    await syncMedicationReminders(schedule, undefined, new Date(2026, 2, 2, 7, 0));
+    const [reminder] = await scheduledFor(schedule.id);
+
+    handleMedicationReminderAction(
+      MEDICATION_REMINDER_ACTIONS.snooze,
+      reminder,
+      new Date(2026, 2, 5, 8, 10)
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(useMedicationStore.getState().doseLog).toEqual([]);
+    const snoozed = (await scheduledFor(schedule.id)).find((r) => r.id.endsWith('_snooze'));
+    expect(snoozed?.content.data?.scheduledFor).toBeDefined();
+  });
+
+  it('ignores actions on other notifications', () => {
+    const other = {
+      id: 'check_in_reminder_default',
+      content: { title: 'Check in', body: '', data: { type: 'check_in' } },
+      trigger: {},
+      createdAt: 0,
+    };
+    expect(handleMedicationReminderAction('check_in_now', other)).toBe(false);
+  });
+});
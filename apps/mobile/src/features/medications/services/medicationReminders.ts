@@ -0,0 +1,71 @@
+/**
+ * Medication Reminders
+ * Keeps the notifications for a medication schedule in step with the schedule.
+ *
+ * Each dose time becomes one repeating reminder (daily, or weekly per chosen
+ * weekday), scheduled from the first dose on or after the course start.
+ * Repeating triggers cannot stop on a date, so `syncMedicationReminders`
+ * runs again at launch and drops the reminders of a course that has ended.
+ */
+
+import { cancelMedicationReminders, scheduleMedicationReminder } from '@/services/notifications';
+import { createLogger } from '@/utils/logger';
+import { MedicationSchedule } from '../types';
+import { getFirstReminderTime, parseLocalDate } from './doseSchedule';
+
+const logger = createLogger('MedicationReminders');
+
+/** Whether a schedule should have reminders at `now`. */
+export function wantsReminders(schedule: MedicationSchedule, now: Date): boolean {
+  if (!schedule.remindersEnabled || schedule.frequency === 'as_needed') return false;
+  if (schedule.times.length === 0) return false;
+  if (schedule.frequency === 'specific_days' && schedule.daysOfWeek.length === 0) return false;
+  if (!schedule.endDate) return true;
+
+  const lastDay = parseLocalDate(schedule.endDate);
+  lastDay.setDate(lastDay.getDate() + 1);
+  return now < lastDay;
+}
+
+/**
+ * Replace the reminders for a schedule. Returns how many were scheduled.
+ * Never throws: a schedule without reminders still records doses.
+ */
+export async function syncMedicationReminders(
+  schedule: MedicationSchedule,
+  memberName?: string,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    await cancelMedicationReminders(schedule.id);
+    if (!wantsReminders(schedule, now)) return 0;
+
+    const base = {
+      scheduleId: schedule.id,
+      memberId: schedule.memberId,
+      memberName,
+      medicationName: schedule.medicationName,
+      dosage: schedule.dosage,
+    };
+    const weekdays = schedule.frequency === 'daily' ? [undefined] : schedule.daysOfWeek;
+
+    let count = 0;
+    for (const time of schedule.times) {
+      for (const weekday of weekdays) {
+        const firstAt = getFirstReminderTime(schedule, time, now, weekday);
+        if (!firstAt) continue;
+        await scheduleMedicationReminder({
+          ...base,
+          time,
+          firstAt,
+          repeat: weekday === undefined ? 'daily' : 'weekly',
+        });
+        count++;
+      }
+    }
+    return count;
+  } catch (error) {
+    logger.warn('Could not schedule medication reminders', error);
+    return 0;
+  }
+}
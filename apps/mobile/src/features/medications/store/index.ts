@@ -0,0 +1,5 @@
+/**
+ * Medication Store Barrel Export
+ */
+
+export * from './useMedicationStore';
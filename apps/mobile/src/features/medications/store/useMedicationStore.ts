@@ -0,0 +1,156 @@
+/**
+ * Medication Store
+ * Dose schedules and the adherence log, per family member
+ * Uses Zustand with AsyncStorage persistence
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DoseLogEntry,
+  DoseLogStatus,
+  MedicationSchedule,
+  MedicationScheduleInput,
+  createDoseLogEntry,
+  createMedicationSchedule,
+} from '../types';
+import { syncMedicationReminders } from '../services/medicationReminders';
+import { cancelMedicationReminders } from '@/services/notifications';
+
+// ============================================
+// STORE TYPES
+// ============================================
+
+type MedicationState = {
+  schedules: MedicationSchedule[];
+  doseLog: DoseLogEntry[];
+};
+
+type MedicationActions = {
+  // Schedules (one per medication)
+  saveSchedule: (input: MedicationScheduleInput, memberName?: string) => MedicationSchedule;
+  removeSchedule: (scheduleId: string) => void;
+  removeScheduleForMedication: (memberId: string, medicationId: string) => void;
+  resyncReminders: (memberNames?: Record<string, string>) => Promise<void>;
+
+  // Doses
+  recordDose: (scheduleId: string, scheduledFor: string, status: DoseLogStatus) => void;
+
+  // Getters
+  getSchedule: (scheduleId: string) => MedicationSchedule | undefined;
+  getScheduleForMedication: (
+    memberId: string,
+    medicationId: string
+  ) => MedicationSchedule | undefined;
+
+  resetStore: () => void;
+};
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Log entries older than this are dropped; the adherence log shows far less. */
+const DOSE_LOG_RETENTION_DAYS = 90;
+
+const initialState: MedicationState = {
+  schedules: [],
+  doseLog: [],
+};
+
+function pruneLog(log: DoseLogEntry[]): DoseLogEntry[] {
+  const cutoff = new Date(Date.now() - DOSE_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return log.filter((entry) => new Date(entry.scheduledFor) >= cutoff);
+}
+
+// ============================================
+// STORE IMPLEMENTATION
+// ============================================
+
+export const useMedicationStore = create<MedicationState & MedicationActions>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      // ========== SCHEDULES ==========
+      saveSchedule: (input, memberName) => {
+        const existing = get().getScheduleForMedication(input.memberId, input.medicationId);
+        const schedule: MedicationSchedule = existing
+          ? { ...existing, ...input, updatedAt: new Date().toISOString() }
+          : createMedicationSchedule(input);
+
+        set((state) => ({
+          schedules: existing
+            ? state.schedules.map((s) => (s.id === schedule.id ? schedule : s))
+            : [...state.schedules, schedule],
+        }));
+
+        void syncMedicationReminders(schedule, memberName);
+        return schedule;
+      },
+
+      removeSchedule: (scheduleId) => {
+        set((state) => ({
+          schedules: state.schedules.filter((s) => s.id !== scheduleId),
+          doseLog: state.doseLog.filter((entry) => entry.scheduleId !== scheduleId),
+        }));
+        void cancelMedicationReminders(scheduleId);
+      },
+
+      removeScheduleForMedication: (memberId, medicationId) => {
+        const schedule = get().getScheduleForMedication(memberId, medicationId);
+        if (schedule) get().removeSchedule(schedule.id);
+      },
+
+      resyncReminders: async (memberNames = {}) => {
+        for (const schedule of get().schedules) {
+          await syncMedicationReminders(schedule, memberNames[schedule.memberId]);
+        }
+      },
+
+      // ========== DOSES ==========
+      recordDose: (scheduleId, scheduledFor, status) => {
+        const schedule = get().getSchedule(scheduleId);
+        if (!schedule) return;
+
+        // Answering the same dose again replaces the earlier answer.
+        const at = new Date(scheduledFor).getTime();
+        set((state) => ({
+          doseLog: pruneLog([
+            ...state.doseLog.filter(
+              (entry) =>
+                !(entry.scheduleId === scheduleId && new Date(entry.scheduledFor).getTime() === at)
+            ),
+            createDoseLogEntry(schedule, new Date(at).toISOString(), status),
+          ]),
+        }));
+      },
+
+      // ========== GETTERS ==========
+      getSchedule: (scheduleId) => get().schedules.find((s) => s.id === scheduleId),
+
+      getScheduleForMedication: (memberId, medicationId) =>
+        get().schedules.find((s) => s.memberId === memberId && s.medicationId === medicationId),
+
+      resetStore: () => set(initialState),
+    }),
+    {
+      name: 'carebow-medication-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        schedules: state.schedules,
+        doseLog: state.doseLog,
+      }),
+    }
+  )
+);
+
+// ============================================
+// SELECTOR HOOKS
+// ============================================
+
+// Raw arrays: filter per member with useMemo in the consumer.
+export const useMedicationSchedules = () => useMedicationStore((state) => state.schedules);
+
+export const useDoseLog = () => useMedicationStore((state) => state.doseLog);
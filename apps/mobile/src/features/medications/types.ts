@@ -0,0 +1,130 @@
+/**
+ * Medication Feature Types
+ * Dose schedules and the adherence log for family members' medications
+ */
+
+import { generateId } from '@/types/profile';
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+export const DOSE_FREQUENCIES = ['daily', 'specific_days', 'as_needed'] as const;
+export type DoseFrequency = (typeof DOSE_FREQUENCIES)[number];
+
+export const DOSE_FREQUENCY_LABELS: Record<DoseFrequency, string> = {
+  daily: 'Every day',
+  specific_days: 'Specific days',
+  as_needed: 'As needed',
+};
+
+/**
+ * When a member takes one of their medications. The medication itself
+ * (name, dosage) stays on the member's server-backed health info; the
+ * schedule and its reminders live on this device.
+ */
+export type MedicationSchedule = {
+  id: string;
+  memberId: string;
+  /** `Medication.id` on the member's health info. */
+  medicationId: string;
+  /** Copied so reminders and the log still read well if the medication is renamed or removed. */
+  medicationName: string;
+  dosage: string;
+  frequency: DoseFrequency;
+  /** Local dose times, HH:mm. Empty for as-needed medications. */
+  times: string[];
+  /** Weekdays for `specific_days`, 0 = Sunday. */
+  daysOfWeek: number[];
+  /** First day of the course, YYYY-MM-DD. */
+  startDate: string;
+  /** Last day of the course, YYYY-MM-DD; open-ended when null. */
+  endDate: string | null;
+  remindersEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type MedicationScheduleInput = Omit<MedicationSchedule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// ============================================
+// ADHERENCE
+// ============================================
+
+/** What was recorded for a dose. Missed doses are derived, never recorded. */
+export type DoseLogStatus = 'taken' | 'skipped';
+
+export type DoseStatus = DoseLogStatus | 'missed' | 'pending';
+
+export type DoseLogEntry = {
+  id: string;
+  scheduleId: string;
+  memberId: string;
+  /** The scheduled dose this answers (ISO). As-needed doses use the time taken. */
+  scheduledFor: string;
+  status: DoseLogStatus;
+  recordedAt: string;
+};
+
+/** One scheduled (or as-needed) dose with what became of it. */
+export type DoseRecord = {
+  scheduleId: string;
+  scheduledFor: string;
+  status: DoseStatus;
+  recordedAt?: string;
+};
+
+export type AdherenceSummary = {
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Taken as a share of the doses that are due, 0–1; null when none are due yet. */
+  rate: number | null;
+};
+
+export type MissedDoseStreak = {
+  scheduleId: string;
+  memberId: string;
+  medicationName: string;
+  /** Consecutive most-recent due doses that were missed. */
+  count: number;
+  since: string;
+};
+
+/** How long after a dose time it still counts as pending rather than missed. */
+export const DOSE_GRACE_PERIOD_MINUTES = 120;
+
+/** Snooze length offered on the reminder. */
+export const DOSE_SNOOZE_MINUTES = 10;
+
+/** Streak at which the caregiver is told about missed doses. */
+export const MISSED_DOSE_ALERT_THRESHOLD = 2;
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+export function createMedicationSchedule(input: MedicationScheduleInput): MedicationSchedule {
+  const now = new Date().toISOString();
+  return {
+    ...input,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createDoseLogEntry(
+  schedule: Pick<MedicationSchedule, 'id' | 'memberId'>,
+  scheduledFor: string,
+  status: DoseLogStatus
+): DoseLogEntry {
+  return {
+    id: generateId(),
+    scheduleId: schedule.id,
+    memberId: schedule.memberId,
+    scheduledFor,
+    status,
+    recordedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Caregiver Event Item Component
+ * A monitored relative's check-in or SOS event, with its acknowledgements
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography } from '@/theme';
+import type { CaregiverSafetyEvent, CaregiverEventType } from '@/services/api/endpoints/safety';
+import { createGoogleMapsLink } from '../types';
+import { formatDisplayTime } from '../services/checkInService';
+import { needsAcknowledgement } from '../services/caregiverService';
+import { formatEventTime } from './SafetyEventItem';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CaregiverEventItemProps {
+  event: CaregiverSafetyEvent;
+  relativeName: string;
+  onAcknowledge: (event: CaregiverSafetyEvent) => void;
+}
+
+// ============================================
+// EVENT CONFIG
+// ============================================
+
+function getEventConfig(
+  type: CaregiverEventType,
+  relativeName: string,
+  wasLate?: boolean,
+  zoneName?: string | null
+) {
+  switch (type) {
+    case 'SOS_TRIGGERED':
+      return {
+        icon: 'alert-circle',
+        iconColor: colors.error,
+        bgColor: colors.errorSoft,
+        title: 'SOS Triggered',
+        description: `${relativeName} asked for help`,
+      };
+    case 'CHECKIN_MISSED':
+      return {
+        icon: 'time',
+        iconColor: colors.warning,
+        bgColor: colors.warningSoft,
+        title: 'Check-in Missed',
+        description: `${relativeName} did not check in before the deadline`,
+      };
+    case 'ZONE_EXITED':
+      return {
+        icon: 'exit',
+        iconColor: colors.warning,
+        bgColor: colors.warningSoft,
+        title: 'Left Safe Zone',
+        description: `${relativeName} left ${zoneName ?? 'a safe zone'}`,
+      };
+    case 'ZONE_ENTERED':
+      return {
+        icon: 'home',
+        iconColor: colors.success,
+        bgColor: colors.successSoft,
+        title: 'Back in Safe Zone',
+        description: `${relativeName} is back at ${zoneName ?? 'a safe zone'}`,
+      };
+    case 'CHECKIN_CONFIRMED':
+      return {
+        icon: 'checkmark-circle',
+        iconColor: colors.success,
+        bgColor: colors.successSoft,
+        title: 'Checked In',
+        description: wasLate
+          ? `${relativeName} checked in late`
+          : `${relativeName} confirmed they are OK`,
+      };
+    // An event type this build does not know yet must never read as "all
+    // clear"; surface it for attention until the app learns what it means.
+    default:
+      return {
+        icon: 'alert-circle-outline',
+        iconColor: colors.warning,
+        bgColor: colors.warningSoft,
+        title: 'Safety Event',
+        description: `${relativeName} has a new safety event`,
+      };
+  }
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function CaregiverEventItem({
+  event,
+  relativeName,
+  onAcknowledge,
+}: CaregiverEventItemProps) {
+  const config = getEventConfig(event.type, relativeName, event.wasLate, event.zoneName);
+  const { location } = event;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.iconContainer, { backgroundColor: config.bgColor }]}>
+        <Icon name={config.icon as any} size={18} color={config.iconColor} />
+      </View>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{config.title}</Text>
+          <Text style={styles.time}>{formatEventTime(event.occurredAt)}</Text>
+        </View>
+        <Text style={styles.description}>{config.description}</Text>
+
+        {location && (
+          <TouchableOpacity
+            style={styles.locationLink}
+            onPress={() => void Linking.openURL(createGoogleMapsLink(location.lat, location.lng))}
+          >
+            <Icon name="location-outline" size={14} color={colors.accent} />
+            <Text style={styles.locationText}>View location</Text>
+          </TouchableOpacity>
+        )}
+
+        {event.acknowledgements.map((ack) => (
+          <View key={`${ack.by}-${ack.at}`} style={styles.acknowledgement}>
+            <Icon name="checkmark-done" size={14} color={colors.success} />
+            <Text style={styles.acknowledgementText}>
+              {ack.by} at {formatDisplayTime(new Date(ack.at))}
+              {ack.note ? `: ${ack.note}` : ''}
+            </Text>
+          </View>
+        ))}
+
+        {needsAcknowledgement(event) && (
+          <TouchableOpacity style={styles.acknowledgeButton} onPress={() => onAcknowledge(event)}>
+            <Text style={styles.acknowledgeText}>Acknowledge</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: radius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    ...typography.label,
+  },
+  time: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  description: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  locationLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xxs,
+    marginTop: spacing.xs,
+  },
+  locationText: {
+    ...typography.labelSmall,
+    color: colors.accent,
+  },
+  acknowledgement: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.xxs,
+    marginTop: spacing.xs,
+  },
+  acknowledgementText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  acknowledgeButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xxs,
+    borderRadius: radius.full,
+    backgroundColor: colors.accent,
+  },
+  acknowledgeText: {
+    ...typography.labelSmall,
+    color: colors.white,
+  },
+});
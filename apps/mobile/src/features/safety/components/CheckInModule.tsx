@@ -15,7 +15,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { colors, spacing, radius, typography, shadows } from '@/theme';
 import { CheckInState, CheckInStatus } from '../types';
-import { getCheckInStatusMessage, formatDisplayTime } from '../services/checkInService';
+import { getCheckInStatusMessage, formatCheckInTime } from '../services/checkInService';
 import { triggerSuccessHaptic } from '../services/sosService';
 import { createLogger } from '../../../utils/logger';
 
@@ -197,9 +197,9 @@ export function CheckInModule({ state, enabled, onCheckIn, onEnableCheckIn }: Ch
       </Animated.View>
 
       {/* Scheduled Time Info */}
-      {state.status === 'NOT_DUE' && (
+      {state.status === 'NOT_DUE' && state.scheduledTime && (
         <Text style={styles.scheduleInfo}>
-          Next check-in at {formatDisplayTime(new Date(state.scheduledTime))}
+          Next check-in at {formatCheckInTime(state.scheduledTime)}
         </Text>
       )}
     </View>
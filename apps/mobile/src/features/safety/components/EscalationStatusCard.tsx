@@ -0,0 +1,209 @@
+/**
+ * Escalation Status Card Component
+ * Shows where the SOS escalation ladder is and who acknowledged it
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows } from '@/theme';
+import { SafetyContact, SOSEscalation, ESCALATION_STEP_LABELS } from '../types';
+import { getCurrentStep, getStepDeadline } from '../services/escalationLadder';
+import { formatDisplayTime } from '../services/checkInService';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface EscalationStatusCardProps {
+  escalation: SOSEscalation;
+  contacts: SafetyContact[];
+  onMarkSafe: () => void;
+  onDismiss: () => void;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function EscalationStatusCard({
+  escalation,
+  contacts,
+  onMarkSafe,
+  onDismiss,
+}: EscalationStatusCardProps) {
+  const step = getCurrentStep(escalation);
+  const deadline = getStepDeadline(escalation);
+  const isRunning = escalation.status === 'RUNNING';
+
+  const stepContacts = contacts
+    .filter((contact) => step?.contactIds.includes(contact.id))
+    .map((contact) => contact.name);
+
+  let icon = 'megaphone';
+  let iconColor = colors.error;
+  let bgColor = colors.errorSoft;
+  let title: string;
+  let subtitle: string;
+
+  switch (escalation.status) {
+    case 'ACKNOWLEDGED': {
+      const ack = escalation.acknowledgement;
+      icon = 'checkmark-done-circle';
+      iconColor = colors.success;
+      bgColor = colors.successSoft;
+      title = `${ack?.contactName ?? 'A contact'} acknowledged`;
+      subtitle = ack
+        ? `Acknowledged your SOS at ${formatDisplayTime(new Date(ack.acknowledgedAt))}`
+        : 'Your SOS was acknowledged';
+      break;
+    }
+    case 'EXHAUSTED':
+      icon = 'warning';
+      iconColor = colors.warning;
+      bgColor = colors.warningSoft;
+      title = 'No one has acknowledged';
+      subtitle = `Call ${escalation.emergencyNumber} if you still need help.`;
+      break;
+    case 'CANCELLED':
+      icon = 'shield-checkmark';
+      iconColor = colors.info;
+      bgColor = colors.infoSoft;
+      title = 'Escalation stopped';
+      subtitle = 'You marked yourself safe.';
+      break;
+    default:
+      if (step?.kind === 'EMERGENCY_SERVICES') {
+        title = 'Contacting emergency services';
+        subtitle = `No contact acknowledged. Call ${escalation.emergencyNumber} now.`;
+      } else {
+        title = `Alerting ${step ? ESCALATION_STEP_LABELS[step.kind].toLowerCase() : 'contacts'}`;
+        subtitle = stepContacts.length > 0 ? stepContacts.join(', ') : 'Waiting for a reply';
+        if (deadline && escalation.currentStepIndex < escalation.steps.length - 1) {
+          subtitle += ` · next step at ${formatDisplayTime(deadline)}`;
+        }
+      }
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={[styles.iconContainer, { backgroundColor: bgColor }]}>
+          <Icon name={icon} size={24} color={iconColor} />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.subtitle}>{subtitle}</Text>
+        </View>
+      </View>
+
+      <View style={styles.steps}>
+        {escalation.steps.map((s, index) => {
+          const done = index < escalation.currentStepIndex;
+          const current = index === escalation.currentStepIndex;
+          return (
+            <View key={s.kind} style={styles.stepRow}>
+              <Icon
+                name={done ? 'ellipse' : current ? 'radio-button-on' : 'ellipse-outline'}
+                size={12}
+                color={current && isRunning ? colors.error : colors.textTertiary}
+              />
+              <Text style={[styles.stepText, current && styles.stepTextCurrent]}>
+                {ESCALATION_STEP_LABELS[s.kind]}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {isRunning ? (
+        <TouchableOpacity style={styles.safeButton} onPress={onMarkSafe}>
+          <Icon name="shield-checkmark" size={18} color={colors.white} />
+          <Text style={styles.safeButtonText}>I'm safe, stop alerts</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+          <Text style={styles.dismissButtonText}>Dismiss</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.xl,
+    padding: spacing.md,
+    ...shadows.card,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: radius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    ...typography.h4,
+    marginBottom: 2,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+  },
+  steps: {
+    gap: spacing.xxs,
+    marginBottom: spacing.md,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  stepText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  stepTextCurrent: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  safeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.success,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    ...shadows.button,
+  },
+  safeButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+  dismissButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+  },
+  dismissButtonText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,176 @@
+/**
+ * Fall Detected Modal Component
+ * Cancellable countdown shown after a suspected fall. When nobody answers
+ * before it runs out, the SOS flow starts on the user's behalf.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows } from '@/theme';
+import { triggerSOSHaptic } from '../services/sosService';
+import { FALL_COUNTDOWN_SECONDS } from '../services/fallDetection';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface FallDetectedModalProps {
+  visible: boolean;
+  /** "I'm OK" — the fall was a false alarm or the user needs no help. */
+  onCancel: () => void;
+  /** Countdown ran out or the user asked for help. */
+  onEscalate: () => void;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function FallDetectedModal({ visible, onCancel, onEscalate }: FallDetectedModalProps) {
+  const insets = useSafeAreaInsets();
+  const [secondsLeft, setSecondsLeft] = useState(FALL_COUNTDOWN_SECONDS);
+
+  // Reset on hide so the next fall never starts from a finished countdown.
+  useEffect(() => {
+    if (visible) {
+      void triggerSOSHaptic();
+    } else {
+      setSecondsLeft(FALL_COUNTDOWN_SECONDS);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (secondsLeft <= 0) {
+      onEscalate();
+      return;
+    }
+    const id = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(id);
+  }, [visible, secondsLeft, onEscalate]);
+
+  return (
+    // Back button must not silently cancel: the user may not be able to answer.
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={() => {}}>
+      <View style={styles.overlay}>
+        <View style={[styles.modal, { marginBottom: insets.bottom }]}>
+          <View style={styles.iconContainer}>
+            <Icon name="body" size={40} color={colors.error} />
+          </View>
+
+          <Text style={styles.title}>Did you fall?</Text>
+          <Text style={styles.description}>
+            CareBow detected what looks like a fall. If you don't respond, we'll alert your
+            emergency contacts.
+          </Text>
+
+          <View style={styles.countdown}>
+            <Text style={styles.countdownValue}>{Math.max(secondsLeft, 0)}</Text>
+            <Text style={styles.countdownLabel}>seconds until SOS</Text>
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.imOKButton} onPress={onCancel}>
+              <Icon name="hand-right" size={18} color={colors.success} />
+              <Text style={styles.imOKButtonText}>I'm OK</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.helpButton} onPress={onEscalate}>
+              <Icon name="alert-circle" size={18} color={colors.white} />
+              <Text style={styles.helpButtonText}>Get help now</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modal: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.xxl,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 360,
+    alignItems: 'center',
+    ...shadows.cardElevated,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.errorSoft,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  title: {
+    ...typography.h2,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  description: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  countdown: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  countdownValue: {
+    ...typography.h1,
+    color: colors.error,
+  },
+  countdownLabel: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  actions: {
+    width: '100%',
+    gap: spacing.sm,
+  },
+  imOKButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.successSoft,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  imOKButtonText: {
+    ...typography.label,
+    color: colors.success,
+    fontWeight: '600',
+  },
+  helpButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.error,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  helpButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,119 @@
+/**
+ * Live Location Card Component
+ * Shows an SOS live-location session and lets the user stop sharing
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows } from '@/theme';
+import { LiveLocationSession } from '../types';
+import { formatDisplayTime } from '../services/checkInService';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface LiveLocationCardProps {
+  session: LiveLocationSession;
+  onStop: () => void;
+  onDismiss: () => void;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function LiveLocationCard({ session, onStop, onDismiss }: LiveLocationCardProps) {
+  const isActive = session.status === 'ACTIVE';
+
+  let subtitle: string;
+  if (isActive) {
+    subtitle = `Until ${formatDisplayTime(new Date(session.expiresAt))}`;
+    if (session.lastSentAt) {
+      subtitle += ` · last update ${formatDisplayTime(new Date(session.lastSentAt))}`;
+    }
+    if (session.currentIntervalSeconds > session.baseIntervalSeconds) {
+      subtitle += ' · updating less often while you are still';
+    }
+  } else {
+    subtitle =
+      session.status === 'EXPIRED'
+        ? 'Sharing ended when the session time ran out.'
+        : 'You stopped sharing your location.';
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View
+          style={[
+            styles.iconContainer,
+            { backgroundColor: isActive ? colors.accentMuted : colors.surface2 },
+          ]}
+        >
+          <Icon
+            name={isActive ? 'navigate' : 'navigate-outline'}
+            size={24}
+            color={isActive ? colors.accent : colors.textTertiary}
+          />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>
+            {isActive ? 'Sharing live location' : 'Live location ended'}
+          </Text>
+          <Text style={styles.subtitle}>{subtitle}</Text>
+        </View>
+        <TouchableOpacity style={styles.button} onPress={isActive ? onStop : onDismiss}>
+          <Text style={styles.buttonText}>{isActive ? 'Stop' : 'Dismiss'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.xl,
+    padding: spacing.md,
+    ...shadows.card,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: radius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    ...typography.h4,
+    marginBottom: 2,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+  },
+  button: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.sm,
+    backgroundColor: colors.surface2,
+  },
+  buttonText: {
+    ...typography.label,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+});
@@ -68,7 +68,7 @@ export function MissedCheckInModal({
 
           <Text style={styles.title}>Missed Check-in</Text>
           <Text style={styles.description}>
-            CareBow has marked today's check-in as missed and automatic safety alerts may already be
+            CareBow has marked this check-in as missed and automatic safety alerts may already be
             in progress. If you're safe, confirm now so CareBow records that you're OK.
           </Text>
 
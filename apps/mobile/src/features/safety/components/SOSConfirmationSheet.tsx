@@ -16,7 +16,12 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, spacing, radius, typography, shadows } from '@/theme';
-import { SafetyContact } from '../types';
+import {
+  SafetyContact,
+  SafetyEventMetadata,
+  SafetySettings,
+  ESCALATION_STEP_LABELS,
+} from '../types';
 import {
   callPrimaryContact,
   callEmergencyServices,
@@ -30,8 +35,13 @@ import {
   DEFAULT_EMERGENCY,
   getEmergencyNumbersForCoordinates,
 } from '../services/emergencyNumbers';
-import { safetyApi } from '../../../services/api/endpoints/safety';
+import { safetyApi, SosTrigger } from '../../../services/api/endpoints/safety';
 import { toServerSafetyContacts } from '../services/contactSync';
+import { buildEscalationLadder, createEscalation } from '../services/escalationLadder';
+import { startSOSEscalation, toEscalationPlan } from '../services/escalationService';
+import { startLiveLocation, stopLiveLocation } from '../services/liveLocationService';
+import { formatDisplayTime } from '../services/checkInService';
+import { useSafetyStore, useLiveLocationSession } from '../store/useSafetyStore';
 import { createLogger } from '../../../utils/logger';
 
 /** Seconds before the SOS auto-escalates to an emergency call (cancellable). */
@@ -42,15 +52,27 @@ const logger = createLogger('SOS');
 interface SOSConfirmationSheetProps {
   visible: boolean;
   onClose: () => void;
-  onSOSTriggered: (location: LocationData | null) => void;
+  /** Records the SOS in history; returns the new event's id. */
+  onSOSTriggered: (location: LocationData | null) => string;
   contacts: SafetyContact[];
   primaryContact?: SafetyContact;
   shareLocationDefault: boolean;
+  escalationSettings: Pick<
+    SafetySettings,
+    'escalationEnabled' | 'escalationOrder' | 'escalationStepTimeoutMinutes'
+  >;
+  liveLocationSettings: Pick<
+    SafetySettings,
+    'liveLocationIntervalSeconds' | 'liveLocationDurationMinutes'
+  >;
   userName: string;
+  /** A fall SOS skips confirmation; the fall countdown already gave the user a chance. */
+  trigger?: SosTrigger;
 }
 
 type SOSPhase = 'confirm' | 'actions';
 type ServerAlertStatus = 'idle' | 'pending' | 'accepted' | 'unconfirmed';
+type LiveLocationStartStatus = 'idle' | 'starting' | 'failed';
 
 export function SOSConfirmationSheet({
   visible,
@@ -59,7 +81,10 @@ export function SOSConfirmationSheet({
   contacts,
   primaryContact,
   shareLocationDefault,
+  escalationSettings,
+  liveLocationSettings,
   userName,
+  trigger = 'MANUAL',
 }: SOSConfirmationSheetProps) {
   const insets = useSafeAreaInsets();
   const mounted = useRef(true);
@@ -71,6 +96,14 @@ export function SOSConfirmationSheet({
   const [autoCallSeconds, setAutoCallSeconds] = useState<number | null>(null);
   const [serverAlertStatus, setServerAlertStatus] = useState<ServerAlertStatus>('idle');
   const [serverQueued, setServerQueued] = useState<number | null>(null);
+  const [firstEscalationStep, setFirstEscalationStep] = useState<string | null>(null);
+  // Read when the server accepts, which may be after regional numbers resolved.
+  const emergencyCallRef = useRef(DEFAULT_EMERGENCY.call);
+  const sosEventIdRef = useRef<string | null>(null);
+  const locationRef = useRef<LocationData | null>(null);
+  const liveLocation = useLiveLocationSession();
+  const [liveLocationStart, setLiveLocationStart] = useState<LiveLocationStartStatus>('idle');
+  const liveLocationUrl = liveLocation?.status === 'ACTIVE' ? liveLocation.shareUrl : null;
 
   const stopAutoCall = useCallback(() => {
     setAutoCallSeconds(null);
@@ -85,6 +118,11 @@ export function SOSConfirmationSheet({
     setEmergency(DEFAULT_EMERGENCY);
     setServerAlertStatus('idle');
     setServerQueued(null);
+    setFirstEscalationStep(null);
+    emergencyCallRef.current = DEFAULT_EMERGENCY.call;
+    sosEventIdRef.current = null;
+    locationRef.current = null;
+    setLiveLocationStart('idle');
   }, [shareLocationDefault, stopAutoCall]);
 
   useEffect(() => {
@@ -95,6 +133,22 @@ export function SOSConfirmationSheet({
     };
   }, [stopAutoCall]);
 
+  /** Live location keeps running after the sheet closes, until stopped or expired. */
+  const beginLiveLocation = useCallback(async () => {
+    if (mounted.current) setLiveLocationStart('starting');
+    const session = await startLiveLocation({
+      sosEventId: sosEventIdRef.current,
+      contacts,
+      settings: liveLocationSettings,
+      firstFix: locationRef.current,
+    });
+    if (mounted.current) setLiveLocationStart(session ? 'idle' : 'failed');
+  }, [contacts, liveLocationSettings]);
+
+  const handleStopLiveLocation = useCallback(() => {
+    void stopLiveLocation();
+  }, []);
+
   const handleClose = useCallback(() => {
     resetState();
     onClose();
@@ -106,30 +160,64 @@ export function SOSConfirmationSheet({
    */
   const handleSendSOS = useCallback(() => {
     const serverContacts = toServerSafetyContacts(contacts);
+    const ladder = buildEscalationLadder(escalationSettings, contacts);
 
     setPhase('actions');
     setAutoCallSeconds(AUTO_CALL_SECONDS);
     setServerAlertStatus('pending');
     setServerQueued(null);
 
+    // The history event and the server's answer arrive in either order; note
+    // the answer on the event once both exist, even if the sheet has closed.
+    let historyEventId: string | null = null;
+    let delivery: Partial<SafetyEventMetadata> | null = null;
+    const recordDelivery = (result: Partial<SafetyEventMetadata> | null) => {
+      delivery = delivery ?? result;
+      if (historyEventId && delivery) {
+        useSafetyStore.getState().updateEventMetadata(historyEventId, delivery);
+      }
+    };
+
     // Server acceptance is independent of GPS. The contact list visible on the
     // phone is included so old/local-only contact data cannot produce zero
     // durable recipients on the backend.
     void safetyApi
       .reportSosEvent({
         userName,
+        trigger,
         contacts: serverContacts,
+        escalation: ladder.length > 0 ? toEscalationPlan(ladder, contacts) : undefined,
       })
       .then((report) => {
+        // The ladder keeps running after the sheet closes.
+        if (report?.success && report.accepted && report.eventId) {
+          // With a ladder, each step's event names the contacts it alerted.
+          recordDelivery({
+            delivery: { status: 'SENT', serverEventId: report.eventId },
+            ...(ladder.length === 0 && {
+              contactsNotified: serverContacts.map((contact) => contact.name),
+            }),
+          });
+          sosEventIdRef.current = report.eventId;
+          if (ladder.length > 0) {
+            startSOSEscalation(createEscalation(report.eventId, ladder, emergencyCallRef.current));
+          }
+          // "Share my location" is consent to keep sharing for the session.
+          if (shareLocation) void beginLiveLocation();
+        } else {
+          recordDelivery({ delivery: { status: 'FAILED' } });
+        }
         if (!mounted.current) return;
         if (report?.success && report.accepted && report.eventId) {
           setServerAlertStatus('accepted');
+          setFirstEscalationStep(ladder.length > 0 ? ESCALATION_STEP_LABELS[ladder[0].kind] : null);
           setServerQueued(typeof report.queued === 'number' ? report.queued : null);
         } else {
           setServerAlertStatus('unconfirmed');
         }
       })
       .catch(() => {
+        recordDelivery({ delivery: { status: 'FAILED' } });
         if (mounted.current) setServerAlertStatus('unconfirmed');
       });
 
@@ -139,13 +227,17 @@ export function SOSConfirmationSheet({
       .then((result) => {
         if (!mounted.current) return;
 
+        locationRef.current = result.location;
         setLocation(result.location);
         setLocationError(result.locationError ?? null);
-        onSOSTriggered(result.location);
+        historyEventId = onSOSTriggered(result.location);
+        recordDelivery(null);
 
         if (result.location) {
           void getEmergencyNumbersForCoordinates(result.location.lat, result.location.lng)
             .then((numbers) => {
+              emergencyCallRef.current = numbers.call;
+              useSafetyStore.getState().setEscalationEmergencyNumber(numbers.call);
               if (mounted.current) setEmergency(numbers);
             })
             .catch(() => {
@@ -157,9 +249,22 @@ export function SOSConfirmationSheet({
         logger.error('SOS location enrichment failed', error);
         if (!mounted.current) return;
         setLocationError('Location unavailable');
-        onSOSTriggered(null);
+        historyEventId = onSOSTriggered(null);
+        recordDelivery(null);
       });
-  }, [contacts, userName, shareLocation, onSOSTriggered]);
+  }, [
+    contacts,
+    escalationSettings,
+    userName,
+    trigger,
+    shareLocation,
+    onSOSTriggered,
+    beginLiveLocation,
+  ]);
+
+  useEffect(() => {
+    if (visible && trigger === 'FALL_DETECTED' && phase === 'confirm') handleSendSOS();
+  }, [visible, trigger, phase, handleSendSOS]);
 
   // Starts the moment Send SOS is pressed — never after GPS/network work.
   useEffect(() => {
@@ -194,14 +299,14 @@ export function SOSConfirmationSheet({
   const handleSMSPrimary = useCallback(async () => {
     stopAutoCall();
     if (primaryContact) {
-      await sendSOSSMSToPrimary(primaryContact, userName, location, shareLocation);
+      await sendSOSSMSToPrimary(primaryContact, userName, location, shareLocation, liveLocationUrl);
     }
-  }, [primaryContact, userName, location, shareLocation, stopAutoCall]);
+  }, [primaryContact, userName, location, shareLocation, liveLocationUrl, stopAutoCall]);
 
   const handleSMSAll = useCallback(async () => {
     stopAutoCall();
-    await sendSOSSMSToAll(contacts, userName, location, shareLocation);
-  }, [contacts, userName, location, shareLocation, stopAutoCall]);
+    await sendSOSSMSToAll(contacts, userName, location, shareLocation, liveLocationUrl);
+  }, [contacts, userName, location, shareLocation, liveLocationUrl, stopAutoCall]);
 
   const hasContacts = contacts.length > 0;
   const smsContacts = contacts.filter((contact) => contact.canReceiveSMS);
@@ -289,6 +394,9 @@ export function SOSConfirmationSheet({
                     CareBow accepted the SOS
                     {serverQueued !== null ? ` and queued ${serverQueued} alert${serverQueued === 1 ? '' : 's'}` : ''}.
                     Delivery is still in progress.
+                    {firstEscalationStep
+                      ? ` ${firstEscalationStep} is alerted first; CareBow escalates if no one acknowledges.`
+                      : ''}
                   </Text>
                 </View>
               )}
@@ -312,6 +420,40 @@ export function SOSConfirmationSheet({
                 </View>
               )}
 
+              {liveLocation?.status === 'ACTIVE' ? (
+                <View style={styles.liveLocationBanner}>
+                  <View style={styles.countdownInfo}>
+                    <Icon name="navigate" size={18} color={colors.accent} />
+                    <Text style={styles.liveLocationText}>
+                      Sharing live location until{' '}
+                      {formatDisplayTime(new Date(liveLocation.expiresAt))}
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={styles.countdownCancel} onPress={handleStopLiveLocation}>
+                    <Text style={styles.countdownCancelText}>Stop</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                serverAlertStatus === 'accepted' && (
+                  <TouchableOpacity
+                    style={styles.liveLocationBanner}
+                    onPress={() => void beginLiveLocation()}
+                    disabled={liveLocationStart === 'starting'}
+                  >
+                    <View style={styles.countdownInfo}>
+                      <Icon name="navigate-outline" size={18} color={colors.accent} />
+                      <Text style={styles.liveLocationText}>
+                        {liveLocationStart === 'starting'
+                          ? 'Starting live location...'
+                          : liveLocationStart === 'failed'
+                            ? 'Live location could not start. Tap to try again.'
+                            : 'Share live location with your contacts'}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                )
+              )}
+
               {autoCallSeconds !== null && (
                 <View style={styles.countdownBanner}>
                   <View style={styles.countdownInfo}>
@@ -502,6 +644,22 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.md,
     marginBottom: spacing.md,
   },
+  liveLocationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    backgroundColor: colors.accentMuted,
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  liveLocationText: {
+    ...typography.label,
+    color: colors.accent,
+    flex: 1,
+  },
   countdownInfo: {
     flexDirection: 'row',
     alignItems: 'center',
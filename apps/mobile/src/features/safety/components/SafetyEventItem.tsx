@@ -7,7 +7,8 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, spacing, radius, typography } from '@/theme';
-import { SafetyEvent, SafetyEventType } from '../types';
+import { SafetyEvent, SafetyEventType, ESCALATION_STEP_LABELS } from '../types';
+import { formatDisplayTime } from '../services/checkInService';
 
 // ============================================
 // TYPES
@@ -29,6 +30,16 @@ type EventConfig = {
   description: (event: SafetyEvent) => string;
 };
 
+function describeEscalationStep(event: SafetyEvent, verb: string): string {
+  const { escalation, contactsNotified } = event.metadata;
+  if (!escalation) return 'SOS escalation step';
+  if (escalation.step === 'EMERGENCY_SERVICES') {
+    return `${verb} emergency services`;
+  }
+  const names = contactsNotified?.length ? contactsNotified.join(', ') : null;
+  return `${verb} ${names ?? ESCALATION_STEP_LABELS[escalation.step].toLowerCase()}`;
+}
+
 function getEventConfig(type: SafetyEventType): EventConfig {
   switch (type) {
     case 'SOS_TRIGGERED':
@@ -69,6 +80,100 @@ function getEventConfig(type: SafetyEventType): EventConfig {
         title: 'Test Alert',
         description: () => 'Test notification sent to contacts',
       };
+    case 'ESCALATION_STEP_STARTED':
+      return {
+        icon: 'megaphone',
+        iconColor: colors.error,
+        bgColor: colors.errorSoft,
+        title: 'SOS Escalated',
+        description: (event) => describeEscalationStep(event, 'Alerting'),
+      };
+    case 'ESCALATION_STEP_TIMED_OUT':
+      return {
+        icon: 'hourglass',
+        iconColor: colors.warning,
+        bgColor: colors.warningSoft,
+        title: 'No Response',
+        description: (event) => describeEscalationStep(event, 'No acknowledgement from'),
+      };
+    case 'ESCALATION_ACKNOWLEDGED':
+      return {
+        icon: 'checkmark-done-circle',
+        iconColor: colors.success,
+        bgColor: colors.successSoft,
+        title: 'SOS Acknowledged',
+        description: (event) => {
+          const { acknowledgedBy, acknowledgedAt } = event.metadata.escalation ?? {};
+          const at = acknowledgedAt ? ` at ${formatDisplayTime(new Date(acknowledgedAt))}` : '';
+          return `${acknowledgedBy ?? 'A contact'} acknowledged your SOS${at}`;
+        },
+      };
+    case 'ESCALATION_CANCELLED':
+      return {
+        icon: 'shield-checkmark',
+        iconColor: colors.info,
+        bgColor: colors.infoSoft,
+        title: 'Escalation Stopped',
+        description: () => 'You marked yourself safe',
+      };
+    case 'LIVE_LOCATION_STARTED':
+      return {
+        icon: 'navigate',
+        iconColor: colors.accent,
+        bgColor: colors.accentMuted,
+        title: 'Live Location Shared',
+        description: (event) =>
+          event.metadata.contactsNotified?.length
+            ? `Link sent to ${event.metadata.contactsNotified.join(', ')}`
+            : 'Live location link created',
+      };
+    case 'LIVE_LOCATION_ENDED':
+      return {
+        icon: 'navigate-outline',
+        iconColor: colors.textSecondary,
+        bgColor: colors.surface2,
+        title: 'Live Location Ended',
+        description: (event) => {
+          const { endReason, updatesSent = 0 } = event.metadata.liveLocation ?? {};
+          const reason = endReason === 'EXPIRED' ? 'Session time ran out' : 'Stopped by you';
+          return `${reason} · ${updatesSent} update${updatesSent === 1 ? '' : 's'} shared`;
+        },
+      };
+    case 'FALL_DETECTED':
+      return {
+        icon: 'body',
+        iconColor: colors.error,
+        bgColor: colors.errorSoft,
+        title: 'Fall Detected',
+        description: () => 'No response to the fall countdown, SOS started',
+      };
+    case 'ZONE_EXITED':
+      return {
+        icon: 'exit',
+        iconColor: colors.warning,
+        bgColor: colors.warningSoft,
+        title: 'Left Safe Zone',
+        description: (event) => {
+          const { zone, contactsNotified } = event.metadata;
+          const left = `${zone?.memberName ?? 'Member'} left ${zone?.zoneName ?? 'a safe zone'}`;
+          if (!zone?.alerted) return `${left} during allowed hours`;
+          return contactsNotified?.length
+            ? `${left} · alerted ${contactsNotified.join(', ')}`
+            : `${left} · no SMS contacts to alert`;
+        },
+      };
+    case 'ZONE_ENTERED':
+      return {
+        icon: 'home',
+        iconColor: colors.success,
+        bgColor: colors.successSoft,
+        title: 'Back in Safe Zone',
+        description: (event) => {
+          const { zone } = event.metadata;
+          const back = `${zone?.memberName ?? 'Member'} arrived at ${zone?.zoneName ?? 'a safe zone'}`;
+          return zone?.alerted ? `${back} · contacts told` : back;
+        },
+      };
     default:
       return {
         icon: 'information-circle',
@@ -80,7 +185,7 @@ function getEventConfig(type: SafetyEventType): EventConfig {
   }
 }
 
-function formatEventTime(timestamp: string): string {
+export function formatEventTime(timestamp: string): string {
   const date = new Date(timestamp);
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
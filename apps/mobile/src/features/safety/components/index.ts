@@ -8,3 +8,7 @@ export { SafetyContactCard, EmptyContactsState } from './SafetyContactCard';
 export { SafetyEventItem, EmptyEventsState } from './SafetyEventItem';
 export { SOSConfirmationSheet } from './SOSConfirmationSheet';
 export { MissedCheckInModal } from './MissedCheckInModal';
+export { EscalationStatusCard } from './EscalationStatusCard';
+export { LiveLocationCard } from './LiveLocationCard';
+export { CaregiverEventItem } from './CaregiverEventItem';
+export { FallDetectedModal } from './FallDetectedModal';
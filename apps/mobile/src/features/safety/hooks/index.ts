@@ -6,3 +6,9 @@ export {
   useCheckInNotifications,
   useCheckInMonitor,
 } from './useCheckInNotifications';
+
+export { useEscalationRunner } from './useEscalationRunner';
+export { useLiveLocationRunner } from './useLiveLocationRunner';
+export { useFallDetectionMonitor } from './useFallDetectionMonitor';
+export { useSafeZoneMonitor } from './useSafeZoneMonitor';
+export { useSafetyHistorySync } from './useSafetyHistorySync';
@@ -0,0 +1,39 @@
+/**
+ * Escalation Runner Hook
+ * Keeps this device's view of a running SOS escalation ladder current while
+ * the app is in use. The server keeps alerting contacts while it is not.
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { resumeSOSEscalation, stopSOSEscalationTimer } from '../services/escalationService';
+
+/**
+ * Resume the persisted ladder once the store has hydrated and whenever the
+ * app returns to the foreground; pause polling while it is backgrounded,
+ * when the scheduled reminder stands in for the emergency call.
+ */
+export function useEscalationRunner() {
+  useEffect(() => {
+    let unsubscribeHydration = () => {};
+    if (useSafetyStore.persist.hasHydrated()) {
+      resumeSOSEscalation();
+    } else {
+      unsubscribeHydration = useSafetyStore.persist.onFinishHydration(resumeSOSEscalation);
+    }
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        resumeSOSEscalation();
+      } else if (state === 'background') {
+        stopSOSEscalationTimer();
+      }
+    });
+
+    return () => {
+      unsubscribeHydration();
+      subscription.remove();
+    };
+  }, []);
+}
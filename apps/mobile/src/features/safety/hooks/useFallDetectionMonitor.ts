@@ -0,0 +1,38 @@
+/**
+ * Fall Detection Monitor Hook
+ * Keeps listening for falls app-wide while fall detection is switched on,
+ * including after the user leaves the app
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { sendFallDetectedAlert } from '@/services/notifications';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { FallDetection } from '../services/fallDetection';
+import { startFallDetection } from '../services/fallDetectionService';
+import { holdBackgroundLocation, releaseBackgroundLocation } from '../services/backgroundLocation';
+
+/** Hand the fall to the Safety hub's countdown; tell a user who is elsewhere. */
+function handleFall(fall: FallDetection): void {
+  if (useSafetyStore.getState().pendingFall) return;
+  useSafetyStore.getState().reportFall(fall);
+  if (AppState.currentState !== 'active') void sendFallDetectedAlert();
+}
+
+/**
+ * Run the accelerometer while fall detection is on, and hold background
+ * location so the app keeps running, and listening, in the background.
+ */
+export function useFallDetectionMonitor() {
+  const enabled = useSafetyStore((state) => state.settings.fallDetectionEnabled);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const stop = startFallDetection(handleFall);
+    holdBackgroundLocation('fallDetection');
+    return () => {
+      releaseBackgroundLocation('fallDetection');
+      stop();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,45 @@
+/**
+ * Live Location Runner Hook
+ * Keeps an active SOS live-location session updating app-wide, including
+ * after the user leaves the app
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { resumeLiveLocation } from '../services/liveLocationService';
+import { holdBackgroundLocation, releaseBackgroundLocation } from '../services/backgroundLocation';
+
+/**
+ * Resume the persisted session once the store has hydrated and whenever the
+ * app returns to the foreground, and hold background location while a
+ * session is active so its updates carry on, throttled, in the background.
+ */
+export function useLiveLocationRunner() {
+  const sharing = useSafetyStore((state) => state.liveLocation?.status === 'ACTIVE');
+
+  useEffect(() => {
+    let unsubscribeHydration = () => {};
+    if (useSafetyStore.persist.hasHydrated()) {
+      resumeLiveLocation();
+    } else {
+      unsubscribeHydration = useSafetyStore.persist.onFinishHydration(resumeLiveLocation);
+    }
+
+    // A suspended app may have missed updates; take one now if it is due.
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') resumeLiveLocation();
+    });
+
+    return () => {
+      unsubscribeHydration();
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!sharing) return;
+    holdBackgroundLocation('liveLocation');
+    return () => releaseBackgroundLocation('liveLocation');
+  }, [sharing]);
+}
@@ -0,0 +1,36 @@
+/**
+ * Safe Zone Monitor Hook
+ * Keeps the safe-zone location watch running app-wide while it is switched on,
+ * including after the user leaves the app
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { startSafeZoneMonitoring, stopSafeZoneMonitoring } from '../services/safeZoneService';
+import { watchedSafeZones } from '../services/geofence';
+import { holdBackgroundLocation, releaseBackgroundLocation } from '../services/backgroundLocation';
+
+/**
+ * Watch location only for a signed-in user who has turned safe zones on and
+ * defined at least one for the member carrying this device; alerts need the
+ * account's contacts and CareBow.
+ */
+export function useSafeZoneMonitor() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const enabled = useSafetyStore((state) => state.settings.safeZonesEnabled);
+  const hasZones = useSafetyStore(
+    (state) => watchedSafeZones(state.safeZones, state.settings.safeZoneMemberId).length > 0
+  );
+  const active = isAuthenticated && enabled && hasZones;
+
+  useEffect(() => {
+    if (!active) return;
+    startSafeZoneMonitoring();
+    holdBackgroundLocation('safeZones');
+    return () => {
+      releaseBackgroundLocation('safeZones');
+      stopSafeZoneMonitoring();
+    };
+  }, [active]);
+}
@@ -0,0 +1,47 @@
+/**
+ * Safety History Sync Hook
+ * Brings this device's safety events and the account's history together
+ * each time a user signs in
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { fetchRecentSafetyHistory, importSafetyHistory } from '../services/safetyHistory';
+
+/** As many events as the device keeps. */
+const RESTORE_LIMIT = 100;
+
+/**
+ * Take over events recorded while signed out, upload every event the
+ * account's history is missing, then pull the latest events back, so a
+ * reinstalled app shows its activity again.
+ */
+async function syncSafetyHistory(userId: string): Promise<void> {
+  useSafetyStore.getState().claimEvents(userId);
+
+  const unsynced = useSafetyStore.getState().events.filter((event) => !event.synced);
+  if (await importSafetyHistory(unsynced)) {
+    useSafetyStore.getState().markEventsSynced(unsynced);
+  }
+
+  const recent = await fetchRecentSafetyHistory(RESTORE_LIMIT);
+  // Whoever signed in since gets their own sync; never restore across accounts.
+  if (recent && recent.every((event) => event.userId === userId)) {
+    useSafetyStore.getState().restoreEvents(recent);
+  }
+}
+
+export function useSafetyHistorySync() {
+  const userId = useAuthStore((state) => (state.isAuthenticated ? state.user?.id : undefined));
+
+  useEffect(() => {
+    if (!userId) return;
+
+    if (useSafetyStore.persist.hasHydrated()) {
+      void syncSafetyHistory(userId);
+      return;
+    }
+    return useSafetyStore.persist.onFinishHydration(() => void syncSafetyHistory(userId));
+  }, [userId]);
+}
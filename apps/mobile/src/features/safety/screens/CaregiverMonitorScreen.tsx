@@ -0,0 +1,486 @@
+/**
+ * Caregiver Monitor Screen
+ * Check-in history, missed check-ins and SOS events of the people who list
+ * the signed-in user as a safety contact. Backed by `/v1/safety/caregiving`.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows, components } from '@/theme';
+import {
+  safetyApi,
+  CaregiverSafetyEvent,
+  MonitoredRelative,
+} from '@/services/api/endpoints/safety';
+
+import {
+  RelativeStatusTone,
+  describeRelativeStatus,
+  replaceCaregiverEvent,
+  sortRelativesByUrgency,
+} from '../services/caregiverService';
+import { CaregiverEventItem } from '../components';
+
+const HISTORY_LIMIT = 50;
+
+const TONE_COLORS: Record<RelativeStatusTone, string> = {
+  ok: colors.success,
+  warning: colors.warning,
+  alert: colors.error,
+  muted: colors.textTertiary,
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function CaregiverMonitorScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const initialRelativeId: string | undefined = route.params?.relativeId;
+
+  const [relatives, setRelatives] = useState<MonitoredRelative[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialRelativeId ?? null);
+  const [events, setEvents] = useState<CaregiverSafetyEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingEvents, setLoadingEvents] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const eventsRequestRef = useRef(0);
+
+  // Acknowledge sheet
+  const [acknowledging, setAcknowledging] = useState<CaregiverSafetyEvent | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const sortedRelatives = useMemo(() => sortRelativesByUrgency(relatives), [relatives]);
+  const selected = relatives.find((r) => r.id === selectedId) ?? null;
+
+  const loadRelatives = useCallback(async () => {
+    const response = await safetyApi.getMonitoredRelatives();
+    if (!response?.success) {
+      setError('Cannot reach CareBow servers. Pull to retry.');
+      return;
+    }
+
+    const list = response.relatives ?? [];
+    setError(null);
+    setRelatives(list);
+    setSelectedId((current) =>
+      current && list.some((r) => r.id === current)
+        ? current
+        : sortRelativesByUrgency(list)[0]?.id ?? null
+    );
+  }, []);
+
+  /** Ignores a response for a relative the caregiver has since switched away from. */
+  const loadEvents = useCallback(async (relativeId: string) => {
+    const requestId = ++eventsRequestRef.current;
+    setLoadingEvents(true);
+
+    const response = await safetyApi.getRelativeSafetyEvents(relativeId, {
+      limit: HISTORY_LIMIT,
+    });
+    if (requestId !== eventsRequestRef.current) return;
+
+    setLoadingEvents(false);
+    if (!response?.success) {
+      setEvents([]);
+      setError('Could not load safety history. Pull to retry.');
+      return;
+    }
+    setEvents(response.events ?? []);
+  }, []);
+
+  useEffect(() => {
+    void loadRelatives().finally(() => setLoading(false));
+  }, [loadRelatives]);
+
+  useEffect(() => {
+    setEvents([]);
+    if (selectedId) void loadEvents(selectedId);
+  }, [selectedId, loadEvents]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadRelatives();
+    if (selectedId) await loadEvents(selectedId);
+    setRefreshing(false);
+  }, [loadRelatives, loadEvents, selectedId]);
+
+  const openAcknowledge = useCallback((event: CaregiverSafetyEvent) => {
+    setNote('');
+    setAcknowledging(event);
+  }, []);
+
+  const closeAcknowledge = useCallback(() => {
+    if (submitting) return;
+    setAcknowledging(null);
+  }, [submitting]);
+
+  const handleSubmitAcknowledge = useCallback(async () => {
+    if (!acknowledging || !selected || submitting) return;
+    setSubmitting(true);
+
+    try {
+      const response = await safetyApi.acknowledgeRelativeAlert(
+        selected.id,
+        acknowledging.id,
+        note
+      );
+      if (!response?.success || !response.event) {
+        Alert.alert(
+          'Acknowledgement not sent',
+          response?.error ||
+            `CareBow could not confirm your acknowledgement. ${selected.name} and other contacts still see this alert as open.`
+        );
+        return;
+      }
+
+      setEvents((current) => replaceCaregiverEvent(current, response.event!));
+      setRelatives((current) =>
+        current.map((r) =>
+          r.id === selected.id ? { ...r, openAlerts: Math.max(0, r.openAlerts - 1) } : r
+        )
+      );
+      setAcknowledging(null);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [acknowledging, selected, submitting, note]);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>People You Look After</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {error && (
+          <View style={styles.errorBanner}>
+            <Icon name="cloud-offline-outline" size={18} color={colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} color={colors.accent} />
+        ) : relatives.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="people-outline" size={40} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No one has added you yet</Text>
+            <Text style={styles.emptyText}>
+              When a CareBow user adds your phone number as a safety contact, their check-ins and
+              alerts appear here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Relatives */}
+            <View style={styles.relativesList}>
+              {sortedRelatives.map((relative) => {
+                const status = describeRelativeStatus(relative);
+                const isSelected = relative.id === selectedId;
+                return (
+                  <TouchableOpacity
+                    key={relative.id}
+                    style={[styles.relativeCard, isSelected && styles.relativeCardSelected]}
+                    onPress={() => setSelectedId(relative.id)}
+                  >
+                    <View style={styles.relativeInfo}>
+                      <Text style={styles.relativeName}>{relative.name}</Text>
+                      <Text style={[styles.relativeStatus, { color: TONE_COLORS[status.tone] }]}>
+                        {status.label}
+                      </Text>
+                    </View>
+                    {relative.openAlerts > 0 && (
+                      <View style={styles.alertBadge}>
+                        <Text style={styles.alertBadgeText}>{relative.openAlerts}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* History */}
+            {selected && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{selected.name}'s Activity</Text>
+                <View style={styles.activityCard}>
+                  {loadingEvents && events.length === 0 ? (
+                    <ActivityIndicator style={styles.loader} color={colors.accent} />
+                  ) : events.length > 0 ? (
+                    events.map((event) => (
+                      <CaregiverEventItem
+                        key={event.id}
+                        event={event}
+                        relativeName={selected.name}
+                        onAcknowledge={openAcknowledge}
+                      />
+                    ))
+                  ) : (
+                    <Text style={styles.noEventsText}>No check-ins or alerts yet</Text>
+                  )}
+                </View>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Acknowledge Sheet */}
+      <Modal
+        visible={acknowledging !== null}
+        animationType="slide"
+        transparent
+        onRequestClose={closeAcknowledge}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.sheetOverlay}
+        >
+          <View style={[styles.sheet, { paddingBottom: insets.bottom + spacing.lg }]}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Acknowledge Alert</Text>
+              <TouchableOpacity onPress={closeAcknowledge}>
+                <Icon name="close" size={24} color={colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sheetDescription}>
+              {selected?.name ?? 'Your relative'} and their other contacts will see that you are
+              handling this.
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Add a note (optional), e.g. Called her, she is fine"
+              placeholderTextColor={colors.textTertiary}
+              multiline
+              maxLength={280}
+            />
+            <TouchableOpacity
+              style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+              onPress={handleSubmitAcknowledge}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color={colors.white} size="small" />
+              ) : (
+                <Text style={styles.submitButtonText}>Acknowledge</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  loader: {
+    marginVertical: spacing.xl,
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    backgroundColor: colors.errorSoft,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.error,
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    gap: spacing.xs,
+  },
+  emptyTitle: {
+    ...typography.h4,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  relativesList: {
+    gap: spacing.sm,
+    marginBottom: spacing.xl,
+  },
+  relativeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.surface,
+    ...shadows.card,
+  },
+  relativeCardSelected: {
+    borderColor: colors.accent,
+  },
+  relativeInfo: {
+    flex: 1,
+  },
+  relativeName: {
+    ...typography.label,
+  },
+  relativeStatus: {
+    ...typography.caption,
+    marginTop: 2,
+  },
+  alertBadge: {
+    minWidth: 24,
+    height: 24,
+    borderRadius: radius.full,
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xxs,
+  },
+  alertBadgeText: {
+    ...typography.labelSmall,
+    color: colors.white,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.sm,
+    marginLeft: spacing.xs,
+  },
+  activityCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.md,
+    ...shadows.card,
+  },
+  noEventsText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    paddingVertical: spacing.xl,
+  },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: spacing.lg,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  sheetTitle: {
+    ...typography.h4,
+  },
+  sheetDescription: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  noteInput: {
+    ...components.input,
+    color: colors.textPrimary,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: spacing.md,
+  },
+  submitButton: {
+    height: 48,
+    borderRadius: radius.md,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    ...typography.label,
+    color: colors.white,
+  },
+});
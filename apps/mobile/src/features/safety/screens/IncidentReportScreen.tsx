@@ -0,0 +1,508 @@
+/**
+ * Incident Report Screen
+ * Pick a period, preview what happened in it, and share the record as a PDF
+ * or JSON file
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors, spacing, radius, typography, shadows } from '@/theme';
+import { useAuthStore } from '@/store/useAuthStore';
+import { useProfileStore } from '@/store/useProfileStore';
+import { encodeBase64, encodeUtf8, shareFile } from '@/utils/fileShare';
+import { useSafetyEvents } from '../store';
+import { fetchSafetyHistory, mergeSafetyEvents } from '../services/safetyHistory';
+import {
+  IncidentReport,
+  INCIDENT_DELIVERY_LABELS,
+  buildIncidentReport,
+  incidentReportFilename,
+  renderIncidentReportPdf,
+  serializeIncidentReport,
+} from '../services/incidentReport';
+import { formatDisplayTime, getTodayEnd, getTodayStart } from '../services/checkInService';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('IncidentReport');
+
+type PeriodPreset = 'DAY' | 'WEEK' | 'MONTH' | 'CUSTOM';
+
+const PRESETS: { key: PeriodPreset; label: string; hours?: number }[] = [
+  { key: 'DAY', label: 'Last 24 hours', hours: 24 },
+  { key: 'WEEK', label: 'Last 7 days', hours: 24 * 7 },
+  { key: 'MONTH', label: 'Last 30 days', hours: 24 * 30 },
+  { key: 'CUSTOM', label: 'Custom' },
+];
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+export function IncidentReportScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const localEvents = useSafetyEvents();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const user = useProfileStore((state) => state.user);
+  const subjectName =
+    [user?.firstName, user?.lastName].filter(Boolean).join(' ') || 'CareBow member';
+
+  const [preset, setPreset] = useState<PeriodPreset>('WEEK');
+  const [customFrom, setCustomFrom] = useState(() => getTodayStart());
+  const [customTo, setCustomTo] = useState(() => getTodayEnd());
+  const [pickerField, setPickerField] = useState<'from' | 'to' | null>(null);
+  const [report, setReport] = useState<IncidentReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const range = useMemo(() => {
+    if (preset === 'CUSTOM') return { from: startOfDay(customFrom), to: endOfDay(customTo) };
+    const hours = PRESETS.find((p) => p.key === preset)?.hours ?? 24;
+    const to = new Date();
+    return { from: new Date(to.getTime() - hours * 60 * 60 * 1000), to };
+  }, [preset, customFrom, customTo]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    // Guests have no account history; their report is what this device kept.
+    const remote = isAuthenticated
+      ? fetchSafetyHistory(range.from, range.to)
+      : Promise.resolve(null);
+    void remote.then((events) => {
+      if (cancelled) return;
+      setReport(
+        buildIncidentReport({
+          events: mergeSafetyEvents(localEvents, events ?? []),
+          from: range.from,
+          to: range.to,
+          subjectName,
+          historyComplete: events !== null,
+        })
+      );
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, localEvents, isAuthenticated, subjectName]);
+
+  const handleDateChange = useCallback(
+    (_event: unknown, selectedDate?: Date) => {
+      const field = pickerField;
+      if (Platform.OS === 'android') {
+        setPickerField(null);
+      }
+      if (!selectedDate || !field) return;
+      if (field === 'from') {
+        setCustomFrom(selectedDate);
+        if (selectedDate > customTo) setCustomTo(selectedDate);
+      } else {
+        setCustomTo(selectedDate);
+        if (selectedDate < customFrom) setCustomFrom(selectedDate);
+      }
+    },
+    [pickerField, customFrom, customTo]
+  );
+
+  const handleShare = useCallback(
+    async (format: 'pdf' | 'json') => {
+      if (!report) return;
+      const filename = incidentReportFilename(report);
+      setIsSharing(true);
+      try {
+        if (format === 'pdf') {
+          await shareFile({
+            filename: `${filename}.pdf`,
+            mimeType: 'application/pdf',
+            base64: encodeBase64(renderIncidentReportPdf(report)),
+            title: 'Incident report',
+          });
+        } else {
+          const json = serializeIncidentReport(report);
+          await shareFile({
+            filename: `${filename}.json`,
+            mimeType: 'application/json',
+            base64: encodeBase64(encodeUtf8(json)),
+            title: 'Incident report',
+          });
+        }
+      } catch (error) {
+        logger.error('Incident report share failed', error);
+        Alert.alert(
+          'Could Not Share',
+          'Something went wrong preparing the report. Please try again.'
+        );
+      } finally {
+        setIsSharing(false);
+      }
+    },
+    [report]
+  );
+
+  const summary = report?.summary;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Incident Report</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+      >
+        {/* Period */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Period</Text>
+          <View style={styles.chips}>
+            {PRESETS.map((option) => {
+              const selected = option.key === preset;
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setPreset(option.key)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {preset === 'CUSTOM' && (
+            <View style={[styles.card, styles.customRange]}>
+              <TouchableOpacity style={styles.settingRow} onPress={() => setPickerField('from')}>
+                <Text style={styles.settingLabel}>From</Text>
+                <Text style={styles.settingValue}>{formatShortDate(customFrom)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.settingRow} onPress={() => setPickerField('to')}>
+                <Text style={styles.settingLabel}>To</Text>
+                <Text style={styles.settingValue}>{formatShortDate(customTo)}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {isLoading || !report || !summary ? (
+          <View style={styles.loading}>
+            <ActivityIndicator color={colors.accent} />
+          </View>
+        ) : (
+          <>
+            {!report.historyComplete && (
+              <View style={styles.warningCard}>
+                <Icon name="cloud-offline-outline" size={18} color={colors.warning} />
+                <Text style={styles.warningText}>
+                  {isAuthenticated
+                    ? "CareBow's copy of your history could not be reached, so this report only has what is still on this phone."
+                    : 'Sign in to include history saved to your account. This report only has what is still on this phone.'}
+                </Text>
+              </View>
+            )}
+
+            {/* Summary */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Summary</Text>
+              <View style={[styles.card, styles.summaryCard]}>
+                <View style={styles.summaryGrid}>
+                  <SummaryStat label="SOS alerts" value={summary.sosAlerts} />
+                  <SummaryStat label="Falls" value={summary.fallsDetected} />
+                  <SummaryStat label="Missed check-ins" value={summary.missedCheckIns} />
+                  <SummaryStat label="Zone alerts" value={summary.safeZoneAlerts} />
+                </View>
+                <Text style={styles.settingDescription}>
+                  {summary.contactsNotified.length > 0
+                    ? `Contacts alerted: ${summary.contactsNotified.join(', ')}`
+                    : 'No contacts were alerted in this period'}
+                </Text>
+              </View>
+            </View>
+
+            {/* Timeline */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Timeline</Text>
+              {report.entries.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                  <Icon name="document-text-outline" size={40} color={colors.textTertiary} />
+                  <Text style={styles.emptyText}>No safety events in this period.</Text>
+                </View>
+              ) : (
+                <View style={styles.card}>
+                  {report.entries.map((entry) => {
+                    const at = new Date(entry.occurredAt);
+                    return (
+                      <View key={entry.eventId} style={styles.entryRow}>
+                        <Text style={styles.entryTime}>
+                          {formatShortDate(at)} · {formatDisplayTime(at)}
+                        </Text>
+                        <Text style={styles.settingLabel}>{entry.title}</Text>
+                        <Text style={styles.settingDescription}>{entry.description}</Text>
+                        {entry.contactsNotified.length > 0 && (
+                          <Text style={styles.settingDescription}>
+                            Notified: {entry.contactsNotified.join(', ')}
+                          </Text>
+                        )}
+                        <Text style={styles.settingDescription}>
+                          {INCIDENT_DELIVERY_LABELS[entry.delivery.status]}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            {/* Share */}
+            <TouchableOpacity
+              style={[styles.shareButton, isSharing && styles.buttonDisabled]}
+              onPress={() => void handleShare('pdf')}
+              disabled={isSharing}
+            >
+              <Icon name="document-outline" size={18} color={colors.white} />
+              <Text style={styles.shareButtonText}>Share PDF</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => void handleShare('json')}
+              disabled={isSharing}
+            >
+              <Text style={styles.secondaryButtonText}>Share as JSON</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Date Picker */}
+      {pickerField && (
+        <DateTimePicker
+          value={pickerField === 'from' ? customFrom : customTo}
+          mode="date"
+          maximumDate={new Date()}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+        />
+      )}
+    </View>
+  );
+}
+
+function SummaryStat({ label, value }: { label: string; value: number }) {
+  return (
+    <View style={styles.summaryStat}>
+      <Text style={styles.summaryValue}>{value}</Text>
+      <Text style={styles.settingDescription}>{label}</Text>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.sm,
+    marginLeft: spacing.xs,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    ...shadows.card,
+    overflow: 'hidden',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.accent,
+  },
+  customRange: {
+    marginTop: spacing.sm,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  settingLabel: {
+    ...typography.label,
+    marginBottom: 2,
+  },
+  settingValue: {
+    ...typography.label,
+    color: colors.accent,
+  },
+  settingDescription: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  loading: {
+    paddingVertical: spacing.xl,
+    alignItems: 'center',
+  },
+  warningCard: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    backgroundColor: colors.warningSoft,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  warningText: {
+    ...typography.bodySmall,
+    color: colors.warning,
+    flex: 1,
+  },
+  summaryCard: {
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: spacing.sm,
+  },
+  summaryStat: {
+    width: '50%',
+  },
+  summaryValue: {
+    ...typography.h3,
+  },
+  entryRow: {
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  entryTime: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+    gap: spacing.xs,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  shareButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  secondaryButtonText: {
+    ...typography.label,
+    color: colors.accent,
+  },
+});
@@ -0,0 +1,521 @@
+/**
+ * Safe Zone Editor Screen
+ * Create or change one safe zone: whose it is, where it is, how big, and the
+ * hours the member may leave it without anyone being alerted
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors, spacing, radius, typography, shadows, components } from '@/theme';
+import { generateId } from '@/types/profile';
+import { useMembers } from '@/store/useProfileStore';
+import { useSafetyStore, useSafetySettings, useSafeZones } from '../store';
+import { getCurrentLocation, requestLocationPermission } from '../services/locationService';
+import { parseTimeToToday, formatScheduledTime } from '../services/checkInService';
+import { SAFE_ZONE_RADIUS_OPTIONS, describeSafeZoneRadius } from '../services/geofence';
+import { ALL_WEEKDAYS, SafeZoneHours, WEEKDAY_SHORT_LABELS } from '../types';
+
+type TimeField = { hoursId: string; field: 'start' | 'end' };
+
+export function SafeZoneEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const members = useMembers();
+  const zones = useSafeZones();
+  const settings = useSafetySettings();
+  const addSafeZone = useSafetyStore((state) => state.addSafeZone);
+  const updateSafeZone = useSafetyStore((state) => state.updateSafeZone);
+  const deleteSafeZone = useSafetyStore((state) => state.deleteSafeZone);
+
+  const existing = zones.find((zone) => zone.id === route.params?.zoneId);
+  const [name, setName] = useState(existing?.name ?? '');
+  const [memberId, setMemberId] = useState<string | null>(
+    existing?.memberId ??
+      settings.safeZoneMemberId ??
+      members.find((m) => m.isDefault)?.id ??
+      members[0]?.id ??
+      null
+  );
+  const [center, setCenter] = useState(existing?.center ?? null);
+  const [accuracy, setAccuracy] = useState<number | null>(null);
+  const [radiusMeters, setRadiusMeters] = useState(
+    existing?.radiusMeters ?? SAFE_ZONE_RADIUS_OPTIONS[1]
+  );
+  const [allowedHours, setAllowedHours] = useState<SafeZoneHours[]>(existing?.allowedHours ?? []);
+  const [locating, setLocating] = useState(false);
+  const [timeField, setTimeField] = useState<TimeField | null>(null);
+
+  const handleUseCurrentLocation = useCallback(async () => {
+    setLocating(true);
+    const permission = await requestLocationPermission();
+    const result = permission === 'granted' ? await getCurrentLocation(15000) : null;
+    setLocating(false);
+
+    if (!result?.success) {
+      Alert.alert(
+        'Location Unavailable',
+        'Stand inside the place, with location access allowed, and try again.'
+      );
+      return;
+    }
+    setCenter({ lat: result.data.lat, lng: result.data.lng });
+    setAccuracy(result.data.accuracy);
+  }, []);
+
+  const updateHours = useCallback((id: string, updates: Partial<Omit<SafeZoneHours, 'id'>>) => {
+    setAllowedHours((current) =>
+      current.map((hours) => (hours.id === id ? { ...hours, ...updates } : hours))
+    );
+  }, []);
+
+  const handleToggleDay = useCallback(
+    (hours: SafeZoneHours, day: number) => {
+      const daysOfWeek = hours.daysOfWeek.includes(day)
+        ? hours.daysOfWeek.filter((d) => d !== day)
+        : [...hours.daysOfWeek, day].sort((a, b) => a - b);
+      updateHours(hours.id, { daysOfWeek });
+    },
+    [updateHours]
+  );
+
+  const handleAddHours = useCallback(() => {
+    setAllowedHours((current) => [
+      ...current,
+      { id: generateId(), start: '09:00', end: '18:00', daysOfWeek: ALL_WEEKDAYS },
+    ]);
+  }, []);
+
+  const handleTimeChange = useCallback(
+    (_event: unknown, selectedDate?: Date) => {
+      const editing = timeField;
+      if (Platform.OS === 'android') {
+        setTimeField(null);
+      }
+      if (selectedDate && editing) {
+        const hours = selectedDate.getHours().toString().padStart(2, '0');
+        const minutes = selectedDate.getMinutes().toString().padStart(2, '0');
+        updateHours(editing.hoursId, { [editing.field]: `${hours}:${minutes}` });
+      }
+    },
+    [timeField, updateHours]
+  );
+
+  const handleSave = useCallback(() => {
+    const trimmedName = name.trim();
+    if (!trimmedName || !memberId || !center) {
+      Alert.alert('Almost There', 'Give the zone a name, pick who it is for and set its location.');
+      return;
+    }
+    if (allowedHours.some((hours) => hours.daysOfWeek.length === 0 || hours.start === hours.end)) {
+      Alert.alert(
+        'Check the Hours',
+        'Each set of allowed hours needs at least one day and a length.'
+      );
+      return;
+    }
+
+    const zone = { name: trimmedName, memberId, center, radiusMeters, allowedHours };
+    if (existing) {
+      updateSafeZone(existing.id, zone);
+    } else {
+      addSafeZone(zone);
+    }
+    navigation.goBack();
+  }, [
+    name,
+    memberId,
+    center,
+    radiusMeters,
+    allowedHours,
+    existing,
+    addSafeZone,
+    updateSafeZone,
+    navigation,
+  ]);
+
+  const handleDelete = useCallback(() => {
+    if (!existing) return;
+    Alert.alert('Delete Safe Zone?', `No more alerts will be sent for ${existing.name}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteSafeZone(existing.id);
+          navigation.goBack();
+        },
+      },
+    ]);
+  }, [existing, deleteSafeZone, navigation]);
+
+  const pickerHours = timeField && allowedHours.find((hours) => hours.id === timeField.hoursId);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{existing ? 'Edit Safe Zone' : 'New Safe Zone'}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Name */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g., Home, Day care"
+            placeholderTextColor={colors.textTertiary}
+          />
+        </View>
+
+        {/* Member */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Who is this zone for?</Text>
+          {members.length === 0 ? (
+            <Text style={styles.hintText}>Add a family profile first.</Text>
+          ) : (
+            <View style={styles.chips}>
+              {members.map((m) => {
+                const selected = m.id === memberId;
+                return (
+                  <TouchableOpacity
+                    key={m.id}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMemberId(m.id)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {m.firstName}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        {/* Location */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Location</Text>
+          <View style={styles.card}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={handleUseCurrentLocation}
+              disabled={locating}
+            >
+              <Icon name="locate" size={20} color={colors.accent} />
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>
+                  {center ? 'Centre set' : 'Use my current location'}
+                </Text>
+                <Text style={styles.settingDescription}>
+                  {center
+                    ? `${center.lat.toFixed(5)}, ${center.lng.toFixed(5)}${
+                        accuracy !== null ? ` (±${Math.round(accuracy)} m)` : ''
+                      } · tap to set again here`
+                    : 'Stand in the middle of the place'}
+                </Text>
+              </View>
+              {locating && <ActivityIndicator size="small" color={colors.accent} />}
+            </TouchableOpacity>
+            <View style={styles.radiusRow}>
+              <Text style={styles.settingLabel}>Radius</Text>
+              <View style={styles.chips}>
+                {SAFE_ZONE_RADIUS_OPTIONS.map((option) => {
+                  const selected = option === radiusMeters;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setRadiusMeters(option)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {describeSafeZoneRadius(option)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+        </View>
+
+        {/* Allowed Hours */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Allowed to leave</Text>
+          <View style={styles.card}>
+            {allowedHours.length === 0 && (
+              <View style={styles.settingRow}>
+                <Text style={styles.settingDescription}>
+                  No allowed hours: contacts are alerted every time the member leaves.
+                </Text>
+              </View>
+            )}
+            {allowedHours.map((hours) => (
+              <View key={hours.id} style={styles.hoursBlock}>
+                <View style={styles.hoursRow}>
+                  <TouchableOpacity
+                    style={styles.timeButton}
+                    onPress={() => setTimeField({ hoursId: hours.id, field: 'start' })}
+                  >
+                    <Text style={styles.timeText}>{formatScheduledTime(hours.start)}</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.settingDescription}>to</Text>
+                  <TouchableOpacity
+                    style={styles.timeButton}
+                    onPress={() => setTimeField({ hoursId: hours.id, field: 'end' })}
+                  >
+                    <Text style={styles.timeText}>{formatScheduledTime(hours.end)}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() =>
+                      setAllowedHours((current) => current.filter((h) => h.id !== hours.id))
+                    }
+                  >
+                    <Icon name="close-circle" size={20} color={colors.textTertiary} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.chips}>
+                  {ALL_WEEKDAYS.map((day) => {
+                    const selected = hours.daysOfWeek.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={day}
+                        style={[styles.dayChip, selected && styles.chipSelected]}
+                        onPress={() => handleToggleDay(hours, day)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {WEEKDAY_SHORT_LABELS[day]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity style={styles.settingRow} onPress={handleAddHours}>
+              <Icon name="add-circle-outline" size={20} color={colors.accent} />
+              <Text style={styles.addText}>Add allowed hours</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>{existing ? 'Save changes' : 'Add safe zone'}</Text>
+        </TouchableOpacity>
+
+        {existing && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>Delete safe zone</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {/* Time Picker */}
+      {timeField && pickerHours && (
+        <DateTimePicker
+          value={parseTimeToToday(pickerHours[timeField.field])}
+          mode="time"
+          is24Hour={false}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleTimeChange}
+        />
+      )}
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.sm,
+    marginLeft: spacing.xs,
+  },
+  input: {
+    ...components.input,
+    color: colors.textPrimary,
+  },
+  hintText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    ...shadows.card,
+    overflow: 'hidden',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  settingInfo: {
+    flex: 1,
+  },
+  settingLabel: {
+    ...typography.label,
+    marginBottom: 2,
+  },
+  settingDescription: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  radiusRow: {
+    padding: spacing.md,
+    gap: spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  dayChip: {
+    minWidth: 40,
+    alignItems: 'center',
+    paddingVertical: spacing.xxs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.accent,
+  },
+  hoursBlock: {
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  timeButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+  },
+  timeText: {
+    ...typography.label,
+  },
+  removeButton: {
+    marginLeft: 'auto',
+  },
+  addText: {
+    ...typography.label,
+    color: colors.accent,
+  },
+  saveButton: {
+    alignItems: 'center',
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+  },
+  saveButtonText: {
+    ...typography.label,
+    color: colors.white,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  deleteButtonText: {
+    ...typography.label,
+    color: colors.error,
+  },
+});
@@ -0,0 +1,352 @@
+/**
+ * Safe Zones Screen
+ * Places a family member is expected to be, like home or a day-care centre,
+ * the member who carries this phone, and the switch that watches its location
+ * against their zones
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography, shadows } from '@/theme';
+import { useMembers } from '@/store/useProfileStore';
+import { useSafetyStore, useSafetySettings, useSafeZones, useSafetyContacts } from '../store';
+import {
+  requestBackgroundLocationPermission,
+  requestLocationPermission,
+} from '../services/locationService';
+import { describeSafeZoneHours, describeSafeZoneRadius } from '../services/geofence';
+
+export function SafeZonesScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<any>();
+  const settings = useSafetySettings();
+  const zones = useSafeZones();
+  const contacts = useSafetyContacts();
+  const members = useMembers();
+  const updateSettings = useSafetyStore((state) => state.updateSettings);
+  const updatePermissions = useSafetyStore((state) => state.updatePermissions);
+
+  const hasSmsContact = contacts.some((contact) => contact.canReceiveSMS);
+  const deviceMemberId = settings.safeZoneMemberId ?? null;
+
+  const handleToggleMonitoring = useCallback(
+    async (enabled: boolean) => {
+      if (enabled) {
+        const status = await requestLocationPermission();
+        updatePermissions({ location: status });
+        if (status !== 'granted') {
+          Alert.alert(
+            'Location Needed',
+            'Safe zones watch where this phone is. Allow location access in Settings to turn them on.'
+          );
+          return;
+        }
+        if ((await requestBackgroundLocationPermission()) !== 'granted') {
+          Alert.alert(
+            'Only While CareBow Is Open',
+            'Without location access all the time, safe zones are only watched while the app is open.'
+          );
+        }
+      }
+      updateSettings({ safeZonesEnabled: enabled });
+    },
+    [updateSettings, updatePermissions]
+  );
+
+  const handleChooseMember = useCallback(
+    (memberId: string) => {
+      updateSettings({ safeZoneMemberId: memberId });
+    },
+    [updateSettings]
+  );
+
+  const handleOpenZone = useCallback(
+    (zoneId?: string) => {
+      navigation.navigate('SafeZoneEditor', zoneId ? { zoneId } : undefined);
+    },
+    [navigation]
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Safe Zones</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => handleOpenZone()}>
+          <Icon name="add" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+      >
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Watch safe zones on this phone</Text>
+                <Text style={styles.settingDescription}>
+                  Contacts are alerted when the person carrying it leaves a zone outside its allowed
+                  hours
+                </Text>
+              </View>
+              <Switch
+                value={settings.safeZonesEnabled ?? false}
+                onValueChange={handleToggleMonitoring}
+                trackColor={{ false: colors.border, true: colors.accentSoft }}
+                thumbColor={settings.safeZonesEnabled ? colors.accent : colors.surface}
+              />
+            </View>
+          </View>
+
+          {settings.safeZonesEnabled && !deviceMemberId && (
+            <View style={styles.warningCard}>
+              <Icon name="warning-outline" size={18} color={colors.warning} />
+              <Text style={styles.warningText}>
+                Choose who carries this phone to start watching their zones.
+              </Text>
+            </View>
+          )}
+
+          {settings.safeZonesEnabled && !hasSmsContact && (
+            <View style={styles.warningCard}>
+              <Icon name="warning-outline" size={18} color={colors.warning} />
+              <Text style={styles.warningText}>
+                Add a safety contact who can receive SMS, or zone alerts will only be logged here.
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Who carries this phone?</Text>
+          {members.length === 0 ? (
+            <Text style={styles.hintText}>Add a family profile first.</Text>
+          ) : (
+            <View style={styles.chips}>
+              {members.map((m) => {
+                const selected = m.id === deviceMemberId;
+                return (
+                  <TouchableOpacity
+                    key={m.id}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => handleChooseMember(m.id)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {m.firstName}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          <Text style={styles.hintText}>Only their zones are watched on this phone.</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Zones</Text>
+          {zones.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Icon name="map-outline" size={40} color={colors.textTertiary} />
+              <Text style={styles.emptyTitle}>No safe zones yet</Text>
+              <Text style={styles.emptyText}>
+                Add the places a family member spends their day, so you hear if they wander off.
+              </Text>
+              <TouchableOpacity style={styles.addButton} onPress={() => handleOpenZone()}>
+                <Text style={styles.addButtonText}>Add a safe zone</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              {zones.map((zone) => {
+                const member = members.find((m) => m.id === zone.memberId);
+                return (
+                  <TouchableOpacity
+                    key={zone.id}
+                    style={styles.settingRow}
+                    onPress={() => handleOpenZone(zone.id)}
+                  >
+                    <View style={styles.zoneIcon}>
+                      <Icon name="location" size={18} color={colors.accent} />
+                    </View>
+                    <View style={styles.settingInfo}>
+                      <Text style={styles.settingLabel}>{zone.name}</Text>
+                      <Text style={styles.settingDescription}>
+                        {member?.firstName ?? 'Unknown member'} ·{' '}
+                        {describeSafeZoneRadius(zone.radiusMeters)}
+                        {zone.memberId !== deviceMemberId ? ' · not watched on this phone' : ''}
+                      </Text>
+                      <Text style={styles.settingDescription}>
+                        {zone.allowedHours.length > 0
+                          ? `May leave ${zone.allowedHours.map(describeSafeZoneHours).join('; ')}`
+                          : 'Alerts on every exit'}
+                      </Text>
+                    </View>
+                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.sm,
+    marginLeft: spacing.xs,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    ...shadows.card,
+    overflow: 'hidden',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  settingInfo: {
+    flex: 1,
+  },
+  settingLabel: {
+    ...typography.label,
+    marginBottom: 2,
+  },
+  settingDescription: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.accent,
+  },
+  hintText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  zoneIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: radius.md,
+    backgroundColor: colors.accentMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  warningCard: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    backgroundColor: colors.warningSoft,
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  warningText: {
+    ...typography.bodySmall,
+    color: colors.warning,
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+    gap: spacing.xs,
+  },
+  emptyTitle: {
+    ...typography.h4,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  addButton: {
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.full,
+    backgroundColor: colors.accent,
+  },
+  addButtonText: {
+    ...typography.label,
+    color: colors.white,
+  },
+});
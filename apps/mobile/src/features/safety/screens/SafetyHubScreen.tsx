@@ -18,7 +18,7 @@ import { useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, space, radius, typography, shadows, layout } from '@/theme/tokens';
 import { useProfileStore } from '@/store/useProfileStore';
-import { safetyApi, getDeviceTimezone } from '@/services/api/endpoints/safety';
+import { safetyApi, getDeviceTimezone, SosTrigger } from '@/services/api/endpoints/safety';
 
 import {
   useSafetyStore,
@@ -26,6 +26,10 @@ import {
   useSafetyContacts,
   useSafetyEvents,
   usePrimaryContact,
+  usePendingSafetySync,
+  useSOSEscalation,
+  useLiveLocationSession,
+  useSafeZones,
 } from '../store';
 import {
   getCheckInState,
@@ -37,6 +41,9 @@ import {
   scheduleCheckInReminder,
 } from '../services/notificationService';
 import { LocationData } from '../services/locationService';
+import { cancelSOSEscalation } from '../services/escalationService';
+import { stopLiveLocation } from '../services/liveLocationService';
+import { useEscalationRunner } from '../hooks';
 
 import {
   SOSButton,
@@ -47,6 +54,9 @@ import {
   EmptyEventsState,
   SOSConfirmationSheet,
   MissedCheckInModal,
+  EscalationStatusCard,
+  LiveLocationCard,
+  FallDetectedModal,
 } from '../components';
 
 // ============================================
@@ -61,17 +71,27 @@ export function SafetyHubScreen() {
   const settings = useSafetySettings();
   const contacts = useSafetyContacts();
   const allEvents = useSafetyEvents();
+  const safeZoneCount = useSafeZones().length;
   const events = allEvents.slice(0, 10); // Get last 10 events
   const primaryContact = usePrimaryContact();
+  const pendingSyncCount = usePendingSafetySync();
+  const escalation = useSOSEscalation();
+  const liveLocation = useLiveLocationSession();
   const user = useProfileStore((state) => state.user);
   const userName = user?.firstName || 'You';
 
   // Store actions
   const recordCheckIn = useSafetyStore((state) => state.recordCheckIn);
   const triggerSOS = useSafetyStore((state) => state.triggerSOS);
+  const clearEscalation = useSafetyStore((state) => state.clearEscalation);
+  const clearLiveLocationSession = useSafetyStore((state) => state.clearLiveLocationSession);
+  const addEvent = useSafetyStore((state) => state.addEvent);
+  const detectedFall = useSafetyStore((state) => state.pendingFall);
+  const clearPendingFall = useSafetyStore((state) => state.clearPendingFall);
 
   // UI state
   const [showSOSSheet, setShowSOSSheet] = useState(false);
+  const [sosTrigger, setSOSTrigger] = useState<SosTrigger>('MANUAL');
   const [showMissedCheckInModal, setShowMissedCheckInModal] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -98,8 +118,7 @@ export function SafetyHubScreen() {
       settings: {
         ...state.settings,
         dailyCheckInEnabled: response.settings!.enabled,
-        dailyCheckInTime: response.settings!.time,
-        gracePeriodMinutes: response.settings!.gracePeriodMinutes,
+        checkInWindows: response.settings!.windows,
         ...(completedAt ? { lastCheckInAt: completedAt } : {}),
         ...(missedAt ? { lastMissedCheckInAt: missedAt } : {}),
       },
@@ -123,27 +142,59 @@ export function SafetyHubScreen() {
     }
   }, [settings]);
 
+  useEscalationRunner();
+
   // Derived state
   const checkInState = getCheckInState(settings);
 
   // Handlers
   const handleSOSPress = useCallback(() => {
+    setSOSTrigger('MANUAL');
     setShowSOSSheet(true);
   }, []);
 
+  const handleFallCancelled = useCallback(() => {
+    clearPendingFall();
+  }, [clearPendingFall]);
+
+  /** Countdown ran out or the user asked for help: run the SOS without confirmation. */
+  const handleFallEscalated = useCallback(() => {
+    if (!detectedFall) return;
+    addEvent('FALL_DETECTED', {
+      fall: { peakImpactG: detectedFall.peakImpactG, freeFallMs: detectedFall.freeFallMs },
+    });
+    clearPendingFall();
+    setSOSTrigger('FALL_DETECTED');
+    setShowSOSSheet(true);
+  }, [detectedFall, addEvent, clearPendingFall]);
+
   const handleSOSTriggered = useCallback(
-    (location: LocationData | null) => {
+    (location: LocationData | null) =>
       triggerSOS({
         location: location
           ? { lat: location.lat, lng: location.lng, accuracy: location.accuracy }
           : undefined,
-      });
-    },
+      }).id,
     [triggerSOS]
   );
 
+  const handleMarkSafe = useCallback(() => {
+    Alert.alert('Stop SOS alerts?', 'Your contacts will not be alerted any further.', [
+      { text: 'Keep alerting', style: 'cancel' },
+      { text: "I'm safe", onPress: () => void cancelSOSEscalation() },
+    ]);
+  }, []);
+
   const handleCheckIn = useCallback(async (): Promise<boolean> => {
-    const response = await safetyApi.completeDailyCheckIn();
+    const response = await safetyApi.completeDailyCheckIn(checkInState.windowId);
+    if (response?.queued) {
+      // Saved for replay, but the server could still escalate it as missed.
+      Alert.alert(
+        'Check-in saved on this device',
+        'CareBow will send it as soon as you are back online. Until it is confirmed, your contacts may still be alerted if the check-in window passes.'
+      );
+      return false;
+    }
     if (!response?.success) {
       Alert.alert(
         'Check-in not confirmed',
@@ -154,7 +205,7 @@ export function SafetyHubScreen() {
 
     recordCheckIn();
     return true;
-  }, [recordCheckIn]);
+  }, [recordCheckIn, checkInState.windowId]);
 
   const handleEnableCheckIn = useCallback(async () => {
     // Request notification permission for the local reminder. Server-side
@@ -163,8 +214,7 @@ export function SafetyHubScreen() {
 
     const response = await safetyApi.saveDailyCheckInSettings({
       enabled: true,
-      time: settings.dailyCheckInTime,
-      gracePeriodMinutes: settings.gracePeriodMinutes,
+      windows: settings.checkInWindows,
       timezone: getDeviceTimezone(),
     });
 
@@ -182,23 +232,35 @@ export function SafetyHubScreen() {
       settings: {
         ...state.settings,
         dailyCheckInEnabled: response.settings!.enabled,
-        dailyCheckInTime: response.settings!.time,
-        gracePeriodMinutes: response.settings!.gracePeriodMinutes,
+        checkInWindows: response.settings!.windows,
       },
     }));
 
     if (permission === 'granted') {
-      await scheduleCheckInReminder({
-        checkInTime: response.settings.time,
-        gracePeriodMinutes: response.settings.gracePeriodMinutes,
-      });
+      await scheduleCheckInReminder({ windows: response.settings.windows });
     }
-  }, [settings.dailyCheckInTime, settings.gracePeriodMinutes]);
+  }, [settings.checkInWindows]);
 
   const handleManageContacts = useCallback(() => {
     navigation.navigate('SafetyContacts');
   }, [navigation]);
 
+  const handleOpenCaregiving = useCallback(() => {
+    navigation.navigate('CaregiverMonitor');
+  }, [navigation]);
+
+  const handleOpenSafeZones = useCallback(() => {
+    navigation.navigate('SafeZones');
+  }, [navigation]);
+
+  const handleOpenMedicalId = useCallback(() => {
+    navigation.navigate('MedicalId');
+  }, [navigation]);
+
+  const handleOpenIncidentReport = useCallback(() => {
+    navigation.navigate('IncidentReport');
+  }, [navigation]);
+
   const handleOpenSettings = useCallback(() => {
     navigation.navigate('SafetySettings');
   }, [navigation]);
@@ -237,6 +299,29 @@ export function SafetyHubScreen() {
           <SOSButton onPress={handleSOSPress} />
         </View>
 
+        {/* SOS Escalation */}
+        {escalation && (
+          <View style={styles.section}>
+            <EscalationStatusCard
+              escalation={escalation}
+              contacts={contacts}
+              onMarkSafe={handleMarkSafe}
+              onDismiss={clearEscalation}
+            />
+          </View>
+        )}
+
+        {/* Live Location */}
+        {liveLocation && (
+          <View style={styles.section}>
+            <LiveLocationCard
+              session={liveLocation}
+              onStop={() => void stopLiveLocation()}
+              onDismiss={clearLiveLocationSession}
+            />
+          </View>
+        )}
+
         {/* Check-in Module */}
         <View style={styles.section}>
           <CheckInModule
@@ -245,6 +330,14 @@ export function SafetyHubScreen() {
             onCheckIn={handleCheckIn}
             onEnableCheckIn={handleEnableCheckIn}
           />
+          {pendingSyncCount > 0 && (
+            <View style={styles.pendingSync}>
+              <Icon name="cloud-upload-outline" size={16} color={colors.warning.default} />
+              <Text style={styles.pendingSyncText}>
+                Check-in waiting to sync. It is not confirmed until you are back online.
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Emergency Contacts */}
@@ -280,10 +373,55 @@ export function SafetyHubScreen() {
           )}
         </View>
 
+        {/* Caregiving */}
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.caregivingRow} onPress={handleOpenCaregiving}>
+            <Icon name="people-outline" size={22} color={colors.primary.default} />
+            <View style={styles.caregivingInfo}>
+              <Text style={styles.caregivingTitle}>People you look after</Text>
+              <Text style={styles.caregivingDescription}>
+                Check-ins and alerts from people who added you as a contact
+              </Text>
+            </View>
+            <Icon name="chevron-forward" size={18} color={colors.text.tertiary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.caregivingRow, styles.medicalIdRow]}
+            onPress={handleOpenSafeZones}
+          >
+            <Icon name="map-outline" size={22} color={colors.primary.default} />
+            <View style={styles.caregivingInfo}>
+              <Text style={styles.caregivingTitle}>Safe zones</Text>
+              <Text style={styles.caregivingDescription}>
+                {settings.safeZonesEnabled && safeZoneCount > 0
+                  ? `Watching ${safeZoneCount} zone${safeZoneCount === 1 ? '' : 's'}`
+                  : 'Get alerted if a family member wanders off'}
+              </Text>
+            </View>
+            <Icon name="chevron-forward" size={18} color={colors.text.tertiary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.caregivingRow, styles.medicalIdRow]}
+            onPress={handleOpenMedicalId}
+          >
+            <Icon name="medkit-outline" size={22} color={colors.primary.default} />
+            <View style={styles.caregivingInfo}>
+              <Text style={styles.caregivingTitle}>Medical ID</Text>
+              <Text style={styles.caregivingDescription}>
+                Allergies, medications and contacts responders can read without signing in
+              </Text>
+            </View>
+            <Icon name="chevron-forward" size={18} color={colors.text.tertiary} />
+          </TouchableOpacity>
+        </View>
+
         {/* Recent Activity */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Recent Activity</Text>
+            <TouchableOpacity onPress={handleOpenIncidentReport}>
+              <Text style={styles.sectionAction}>Report</Text>
+            </TouchableOpacity>
           </View>
 
           <View style={styles.activityCard}>
@@ -312,7 +450,17 @@ export function SafetyHubScreen() {
         contacts={contacts}
         primaryContact={primaryContact}
         shareLocationDefault={settings.shareLocationOnSOS}
+        escalationSettings={settings}
+        liveLocationSettings={settings}
         userName={userName}
+        trigger={sosTrigger}
+      />
+
+      {/* Fall Detection Countdown */}
+      <FallDetectedModal
+        visible={detectedFall !== null && !showSOSSheet}
+        onCancel={handleFallCancelled}
+        onEscalate={handleFallEscalated}
       />
 
       {/* Missed Check-In Modal */}
@@ -394,6 +542,20 @@ const styles = StyleSheet.create({
     ...typography.label,
     color: colors.primary.default,
   },
+  pendingSync: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: space.xs,
+    marginTop: space.sm,
+    padding: space.sm,
+    backgroundColor: colors.warning.muted,
+    borderRadius: radius.lg,
+  },
+  pendingSyncText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    flex: 1,
+  },
   contactsList: {
     gap: space.xs,
   },
@@ -410,6 +572,30 @@ const styles = StyleSheet.create({
     ...typography.label,
     color: colors.primary.default,
   },
+  caregivingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: space.sm,
+    padding: space.md,
+    backgroundColor: colors.surface,
+    borderRadius: radius.xl,
+    ...shadows.card,
+  },
+  medicalIdRow: {
+    marginTop: space.sm,
+  },
+  caregivingInfo: {
+    flex: 1,
+  },
+  caregivingTitle: {
+    ...typography.label,
+    color: colors.text.primary,
+  },
+  caregivingDescription: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
   activityCard: {
     backgroundColor: colors.surface,
     borderRadius: radius.xl,
@@ -27,10 +27,25 @@ import {
   cancelCheckInNotifications,
 } from '../services/notificationService';
 import { requestLocationPermission } from '../services/locationService';
-import { parseTimeToToday, formatScheduledTime } from '../services/checkInService';
+import { FALL_COUNTDOWN_SECONDS } from '../services/fallDetection';
+import { isFallDetectionAvailable } from '../services/fallDetectionService';
+import {
+  parseTimeToToday,
+  formatScheduledTime,
+  formatWindowDays,
+  isValidCheckInWindow,
+  hasOverlappingCheckInWindows,
+} from '../services/checkInService';
+import {
+  ALL_WEEKDAYS,
+  CheckInWindow,
+  DEFAULT_SAFETY_SETTINGS,
+  WEEKDAY_SHORT_LABELS,
+  createCheckInWindow,
+} from '../types';
 
 // ============================================
-// GRACE PERIOD OPTIONS
+// PICKER OPTIONS
 // ============================================
 
 const GRACE_PERIOD_OPTIONS = [
@@ -40,6 +55,34 @@ const GRACE_PERIOD_OPTIONS = [
   { label: '4 hours', value: 240 },
 ];
 
+const ESCALATION_TIMEOUT_OPTIONS = [
+  { label: '2 minutes', value: 2 },
+  { label: '5 minutes', value: 5 },
+  { label: '10 minutes', value: 10 },
+  { label: '15 minutes', value: 15 },
+];
+
+const LIVE_LOCATION_INTERVAL_OPTIONS = [
+  { label: 'Every 30 seconds', value: 30 },
+  { label: 'Every minute', value: 60 },
+  { label: 'Every 2 minutes', value: 120 },
+  { label: 'Every 5 minutes', value: 300 },
+];
+
+const LIVE_LOCATION_DURATION_OPTIONS = [
+  { label: '30 minutes', value: 30 },
+  { label: '1 hour', value: 60 },
+  { label: '2 hours', value: 120 },
+  { label: '4 hours', value: 240 },
+];
+
+function gracePeriodLabel(minutes: number): string {
+  return (
+    GRACE_PERIOD_OPTIONS.find((o) => o.value === minutes)?.label ??
+    (minutes % 60 === 0 ? `${minutes / 60} hours` : `${minutes} minutes`)
+  );
+}
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -56,8 +99,11 @@ export function SafetySettingsScreen() {
   const clearEvents = useSafetyStore((state) => state.clearEvents);
 
   // UI State
-  const [showTimePicker, setShowTimePicker] = useState(false);
-  const [showGracePeriodPicker, setShowGracePeriodPicker] = useState(false);
+  const [timePickerWindowId, setTimePickerWindowId] = useState<string | null>(null);
+  const [gracePickerWindowId, setGracePickerWindowId] = useState<string | null>(null);
+  const [showEscalationTimeoutPicker, setShowEscalationTimeoutPicker] = useState(false);
+  const [showLiveIntervalPicker, setShowLiveIntervalPicker] = useState(false);
+  const [showLiveDurationPicker, setShowLiveDurationPicker] = useState(false);
 
   // Handlers
   const handleToggleCheckIn = useCallback(
@@ -77,58 +123,99 @@ export function SafetySettingsScreen() {
 
         // Enable and schedule
         updateSettings({ dailyCheckInEnabled: true });
-        await scheduleCheckInReminder({
-          checkInTime: settings.dailyCheckInTime,
-          gracePeriodMinutes: settings.gracePeriodMinutes,
-        });
+        await scheduleCheckInReminder({ windows: settings.checkInWindows });
       } else {
         // Disable and cancel notifications
         updateSettings({ dailyCheckInEnabled: false });
         await cancelCheckInNotifications();
       }
     },
-    [updateSettings, updatePermissions, settings.dailyCheckInTime, settings.gracePeriodMinutes]
+    [updateSettings, updatePermissions, settings.checkInWindows]
+  );
+
+  const saveCheckInWindows = useCallback(
+    async (windows: CheckInWindow[]) => {
+      if (!windows.every(isValidCheckInWindow)) {
+        Alert.alert('Choose at least one day', 'Each check-in needs at least one day of the week.');
+        return;
+      }
+      if (hasOverlappingCheckInWindows(windows)) {
+        Alert.alert(
+          'Check-ins overlap',
+          "A check-in's grace period runs into the next check-in on the same day. Move one of them or shorten its grace period."
+        );
+        return;
+      }
+
+      updateSettings({ checkInWindows: windows });
+
+      // Reschedule if enabled
+      if (settings.dailyCheckInEnabled) {
+        await scheduleCheckInReminder({ windows });
+      }
+    },
+    [updateSettings, settings.dailyCheckInEnabled]
+  );
+
+  const updateCheckInWindow = useCallback(
+    (id: string, updates: Partial<Omit<CheckInWindow, 'id'>>) =>
+      saveCheckInWindows(
+        settings.checkInWindows.map((window) =>
+          window.id === id ? { ...window, ...updates } : window
+        )
+      ),
+    [saveCheckInWindows, settings.checkInWindows]
   );
 
   const handleTimeChange = useCallback(
     async (event: any, selectedDate?: Date) => {
+      const windowId = timePickerWindowId;
       if (Platform.OS === 'android') {
-        setShowTimePicker(false);
+        setTimePickerWindowId(null);
       }
 
-      if (selectedDate) {
+      if (selectedDate && windowId) {
         const hours = selectedDate.getHours().toString().padStart(2, '0');
         const minutes = selectedDate.getMinutes().toString().padStart(2, '0');
-        const timeString = `${hours}:${minutes}`;
-
-        updateSettings({ dailyCheckInTime: timeString });
-
-        // Reschedule if enabled
-        if (settings.dailyCheckInEnabled) {
-          await scheduleCheckInReminder({
-            checkInTime: timeString,
-            gracePeriodMinutes: settings.gracePeriodMinutes,
-          });
-        }
+        await updateCheckInWindow(windowId, { time: `${hours}:${minutes}` });
       }
     },
-    [updateSettings, settings.dailyCheckInEnabled, settings.gracePeriodMinutes]
+    [timePickerWindowId, updateCheckInWindow]
   );
 
   const handleGracePeriodChange = useCallback(
     async (minutes: number) => {
-      updateSettings({ gracePeriodMinutes: minutes });
-      setShowGracePeriodPicker(false);
-
-      // Reschedule if enabled
-      if (settings.dailyCheckInEnabled) {
-        await scheduleCheckInReminder({
-          checkInTime: settings.dailyCheckInTime,
-          gracePeriodMinutes: minutes,
-        });
+      const windowId = gracePickerWindowId;
+      setGracePickerWindowId(null);
+      if (windowId) {
+        await updateCheckInWindow(windowId, { gracePeriodMinutes: minutes });
       }
     },
-    [updateSettings, settings.dailyCheckInEnabled, settings.dailyCheckInTime]
+    [gracePickerWindowId, updateCheckInWindow]
+  );
+
+  const handleToggleWindowDay = useCallback(
+    (window: CheckInWindow, day: number) => {
+      const daysOfWeek = window.daysOfWeek.includes(day)
+        ? window.daysOfWeek.filter((d) => d !== day)
+        : [...window.daysOfWeek, day].sort((a, b) => a - b);
+      void updateCheckInWindow(window.id, { daysOfWeek });
+    },
+    [updateCheckInWindow]
+  );
+
+  const handleAddWindow = useCallback(() => {
+    void saveCheckInWindows([
+      ...settings.checkInWindows,
+      createCheckInWindow({ time: '20:00', gracePeriodMinutes: 60, daysOfWeek: ALL_WEEKDAYS }),
+    ]);
+  }, [saveCheckInWindows, settings.checkInWindows]);
+
+  const handleRemoveWindow = useCallback(
+    (id: string) => {
+      void saveCheckInWindows(settings.checkInWindows.filter((window) => window.id !== id));
+    },
+    [saveCheckInWindows, settings.checkInWindows]
   );
 
   const handleToggleShareLocationSOS = useCallback(
@@ -180,6 +267,55 @@ export function SafetySettingsScreen() {
     [updateSettings]
   );
 
+  const handleToggleFallDetection = useCallback(
+    async (enabled: boolean) => {
+      if (enabled && !(await isFallDetectionAvailable())) {
+        Alert.alert(
+          'Fall Detection Unavailable',
+          "This device doesn't provide the motion data fall detection needs.",
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+      updateSettings({ fallDetectionEnabled: enabled });
+    },
+    [updateSettings]
+  );
+
+  const handleEscalationTimeoutChange = useCallback(
+    (minutes: number) => {
+      updateSettings({ escalationStepTimeoutMinutes: minutes });
+      setShowEscalationTimeoutPicker(false);
+    },
+    [updateSettings]
+  );
+
+  const handleLiveIntervalChange = useCallback(
+    (seconds: number) => {
+      updateSettings({ liveLocationIntervalSeconds: seconds });
+      setShowLiveIntervalPicker(false);
+    },
+    [updateSettings]
+  );
+
+  const handleLiveDurationChange = useCallback(
+    (minutes: number) => {
+      updateSettings({ liveLocationDurationMinutes: minutes });
+      setShowLiveDurationPicker(false);
+    },
+    [updateSettings]
+  );
+
+  const handleToggleEmergencyServices = useCallback(
+    (enabled: boolean) => {
+      const contactSteps = settings.escalationOrder.filter((step) => step !== 'EMERGENCY_SERVICES');
+      updateSettings({
+        escalationOrder: enabled ? [...contactSteps, 'EMERGENCY_SERVICES'] : contactSteps,
+      });
+    },
+    [settings.escalationOrder, updateSettings]
+  );
+
   const handleClearHistory = useCallback(() => {
     Alert.alert(
       'Clear Safety History',
@@ -195,10 +331,25 @@ export function SafetySettingsScreen() {
     );
   }, [clearEvents]);
 
-  const currentTime = parseTimeToToday(settings.dailyCheckInTime);
-  const currentGracePeriod =
-    GRACE_PERIOD_OPTIONS.find((o) => o.value === settings.gracePeriodMinutes) ||
-    GRACE_PERIOD_OPTIONS[1];
+  const checkInWindows = [...settings.checkInWindows].sort((a, b) => a.time.localeCompare(b.time));
+  const timePickerWindow = checkInWindows.find((w) => w.id === timePickerWindowId);
+  const gracePickerWindow = checkInWindows.find((w) => w.id === gracePickerWindowId);
+  const escalationTimeout =
+    settings.escalationStepTimeoutMinutes ?? DEFAULT_SAFETY_SETTINGS.escalationStepTimeoutMinutes;
+  const currentEscalationTimeout =
+    ESCALATION_TIMEOUT_OPTIONS.find((o) => o.value === escalationTimeout) ||
+    ESCALATION_TIMEOUT_OPTIONS[1];
+  const liveLocationInterval =
+    settings.liveLocationIntervalSeconds ?? DEFAULT_SAFETY_SETTINGS.liveLocationIntervalSeconds;
+  const liveLocationDuration =
+    settings.liveLocationDurationMinutes ?? DEFAULT_SAFETY_SETTINGS.liveLocationDurationMinutes;
+  const currentLiveInterval =
+    LIVE_LOCATION_INTERVAL_OPTIONS.find((o) => o.value === liveLocationInterval) ||
+    LIVE_LOCATION_INTERVAL_OPTIONS[1];
+  const currentLiveDuration =
+    LIVE_LOCATION_DURATION_OPTIONS.find((o) => o.value === liveLocationDuration) ||
+    LIVE_LOCATION_DURATION_OPTIONS[1];
+  const escalatesToEmergencyServices = settings.escalationOrder.includes('EMERGENCY_SERVICES');
 
   return (
     <View style={styles.container}>
@@ -241,37 +392,77 @@ export function SafetySettingsScreen() {
 
             {settings.dailyCheckInEnabled && (
               <>
-                {/* Check-in Time */}
-                <TouchableOpacity style={styles.settingRow} onPress={() => setShowTimePicker(true)}>
-                  <View style={styles.settingInfo}>
-                    <Text style={styles.settingLabel}>Check-in time</Text>
-                    <Text style={styles.settingDescription}>
-                      When you'll be reminded to check in
-                    </Text>
-                  </View>
-                  <View style={styles.settingValue}>
-                    <Text style={styles.settingValueText}>
-                      {formatScheduledTime(settings.dailyCheckInTime)}
-                    </Text>
-                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
-                  </View>
-                </TouchableOpacity>
+                {checkInWindows.map((window) => (
+                  <View key={window.id} style={styles.windowBlock}>
+                    {/* Check-in Time */}
+                    <TouchableOpacity
+                      style={styles.windowRow}
+                      onPress={() => setTimePickerWindowId(window.id)}
+                    >
+                      <View style={styles.settingInfo}>
+                        <Text style={styles.settingLabel}>
+                          Check in at {formatScheduledTime(window.time)}
+                        </Text>
+                        <Text style={styles.settingDescription}>
+                          {formatWindowDays(window.daysOfWeek)}
+                        </Text>
+                      </View>
+                      <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                    </TouchableOpacity>
 
-                {/* Grace Period */}
-                <TouchableOpacity
-                  style={styles.settingRow}
-                  onPress={() => setShowGracePeriodPicker(true)}
-                >
-                  <View style={styles.settingInfo}>
-                    <Text style={styles.settingLabel}>Grace period</Text>
-                    <Text style={styles.settingDescription}>
-                      Time before marking check-in as missed
-                    </Text>
-                  </View>
-                  <View style={styles.settingValue}>
-                    <Text style={styles.settingValueText}>{currentGracePeriod.label}</Text>
-                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                    {/* Weekdays */}
+                    <View style={styles.dayChips}>
+                      {ALL_WEEKDAYS.map((day) => {
+                        const selected = window.daysOfWeek.includes(day);
+                        return (
+                          <TouchableOpacity
+                            key={day}
+                            style={[styles.dayChip, selected && styles.dayChipSelected]}
+                            onPress={() => handleToggleWindowDay(window, day)}
+                          >
+                            <Text
+                              style={[styles.dayChipText, selected && styles.dayChipTextSelected]}
+                            >
+                              {WEEKDAY_SHORT_LABELS[day]}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    {/* Grace Period */}
+                    <TouchableOpacity
+                      style={styles.windowRow}
+                      onPress={() => setGracePickerWindowId(window.id)}
+                    >
+                      <View style={styles.settingInfo}>
+                        <Text style={styles.settingLabel}>Grace period</Text>
+                        <Text style={styles.settingDescription}>
+                          Time before marking this check-in as missed
+                        </Text>
+                      </View>
+                      <View style={styles.settingValue}>
+                        <Text style={styles.settingValueText}>
+                          {gracePeriodLabel(window.gracePeriodMinutes)}
+                        </Text>
+                        <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                      </View>
+                    </TouchableOpacity>
+
+                    {checkInWindows.length > 1 && (
+                      <TouchableOpacity
+                        style={styles.removeWindowButton}
+                        onPress={() => handleRemoveWindow(window.id)}
+                      >
+                        <Text style={styles.removeWindowText}>Remove this check-in</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
+                ))}
+
+                <TouchableOpacity style={styles.settingRow} onPress={handleAddWindow}>
+                  <Icon name="add-circle-outline" size={20} color={colors.accent} />
+                  <Text style={styles.addWindowText}>Add another check-in</Text>
                 </TouchableOpacity>
               </>
             )}
@@ -298,6 +489,42 @@ export function SafetySettingsScreen() {
               />
             </View>
 
+            {settings.shareLocationOnSOS && (
+              <>
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => setShowLiveIntervalPicker(true)}
+                >
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Live location updates</Text>
+                    <Text style={styles.settingDescription}>
+                      Slows down automatically while you are not moving
+                    </Text>
+                  </View>
+                  <View style={styles.settingValue}>
+                    <Text style={styles.settingValueText}>{currentLiveInterval.label}</Text>
+                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                  </View>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => setShowLiveDurationPicker(true)}
+                >
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Share live location for</Text>
+                    <Text style={styles.settingDescription}>
+                      Sharing stops after this, or when you stop it
+                    </Text>
+                  </View>
+                  <View style={styles.settingValue}>
+                    <Text style={styles.settingValueText}>{currentLiveDuration.label}</Text>
+                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                  </View>
+                </TouchableOpacity>
+              </>
+            )}
+
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
                 <Text style={styles.settingLabel}>Share on missed check-in</Text>
@@ -317,8 +544,8 @@ export function SafetySettingsScreen() {
           <View style={styles.infoCard}>
             <Icon name="information-circle" size={18} color={colors.info} />
             <Text style={styles.infoText}>
-              We only request location during SOS or when sharing is enabled. Your location is never
-              tracked continuously.
+              We only request location during SOS or when sharing is enabled. Live location during
+              an SOS always ends after the time you choose.
             </Text>
           </View>
         </View>
@@ -342,6 +569,71 @@ export function SafetySettingsScreen() {
                 thumbColor={settings.escalationEnabled ? colors.accent : colors.surface}
               />
             </View>
+
+            {settings.escalationEnabled && (
+              <>
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => setShowEscalationTimeoutPicker(true)}
+                >
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Wait for a reply</Text>
+                    <Text style={styles.settingDescription}>
+                      Time each step waits for an acknowledgement
+                    </Text>
+                  </View>
+                  <View style={styles.settingValue}>
+                    <Text style={styles.settingValueText}>{currentEscalationTimeout.label}</Text>
+                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                  </View>
+                </TouchableOpacity>
+
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Then call emergency services</Text>
+                    <Text style={styles.settingDescription}>
+                      If no contact acknowledges, start a call to emergency services
+                    </Text>
+                  </View>
+                  <Switch
+                    value={escalatesToEmergencyServices}
+                    onValueChange={handleToggleEmergencyServices}
+                    trackColor={{ false: colors.border, true: colors.accentSoft }}
+                    thumbColor={escalatesToEmergencyServices ? colors.accent : colors.surface}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Fall Detection Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Fall Detection</Text>
+
+          <View style={styles.card}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Detect falls</Text>
+                <Text style={styles.settingDescription}>
+                  Start an SOS if you fall and don't respond within {FALL_COUNTDOWN_SECONDS} seconds
+                </Text>
+              </View>
+              <Switch
+                value={settings.fallDetectionEnabled}
+                onValueChange={handleToggleFallDetection}
+                trackColor={{ false: colors.border, true: colors.accentSoft }}
+                thumbColor={settings.fallDetectionEnabled ? colors.accent : colors.surface}
+              />
+            </View>
+          </View>
+
+          <View style={styles.infoCard}>
+            <Icon name="information-circle" size={18} color={colors.info} />
+            <Text style={styles.infoText}>
+              Fall detection uses your phone's motion sensor while CareBow is open. Motion data
+              stays on your device.
+            </Text>
           </View>
         </View>
 
@@ -441,9 +733,9 @@ export function SafetySettingsScreen() {
       </ScrollView>
 
       {/* Time Picker */}
-      {showTimePicker && (
+      {timePickerWindow && (
         <DateTimePicker
-          value={currentTime}
+          value={parseTimeToToday(timePickerWindow.time)}
           mode="time"
           is24Hour={false}
           display={Platform.OS === 'ios' ? 'spinner' : 'default'}
@@ -451,41 +743,101 @@ export function SafetySettingsScreen() {
         />
       )}
 
-      {/* Grace Period Picker Modal */}
-      {showGracePeriodPicker && (
-        <View style={styles.pickerOverlay}>
-          <View style={[styles.pickerSheet, { paddingBottom: insets.bottom + spacing.lg }]}>
-            <View style={styles.pickerHeader}>
-              <Text style={styles.pickerTitle}>Grace Period</Text>
-              <TouchableOpacity onPress={() => setShowGracePeriodPicker(false)}>
-                <Icon name="close" size={24} color={colors.textPrimary} />
-              </TouchableOpacity>
-            </View>
-            {GRACE_PERIOD_OPTIONS.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.pickerOption,
-                  option.value === settings.gracePeriodMinutes && styles.pickerOptionSelected,
-                ]}
-                onPress={() => handleGracePeriodChange(option.value)}
-              >
-                <Text
-                  style={[
-                    styles.pickerOptionText,
-                    option.value === settings.gracePeriodMinutes && styles.pickerOptionTextSelected,
-                  ]}
-                >
-                  {option.label}
-                </Text>
-                {option.value === settings.gracePeriodMinutes && (
-                  <Icon name="checkmark" size={20} color={colors.accent} />
-                )}
-              </TouchableOpacity>
-            ))}
-          </View>
+      <OptionPicker
+        visible={gracePickerWindow !== undefined}
+        title="Grace Period"
+        options={GRACE_PERIOD_OPTIONS}
+        selected={gracePickerWindow?.gracePeriodMinutes ?? 60}
+        onSelect={handleGracePeriodChange}
+        onClose={() => setGracePickerWindowId(null)}
+        bottomInset={insets.bottom}
+      />
+
+      <OptionPicker
+        visible={showEscalationTimeoutPicker}
+        title="Wait for a Reply"
+        options={ESCALATION_TIMEOUT_OPTIONS}
+        selected={escalationTimeout}
+        onSelect={handleEscalationTimeoutChange}
+        onClose={() => setShowEscalationTimeoutPicker(false)}
+        bottomInset={insets.bottom}
+      />
+
+      <OptionPicker
+        visible={showLiveIntervalPicker}
+        title="Live Location Updates"
+        options={LIVE_LOCATION_INTERVAL_OPTIONS}
+        selected={liveLocationInterval}
+        onSelect={handleLiveIntervalChange}
+        onClose={() => setShowLiveIntervalPicker(false)}
+        bottomInset={insets.bottom}
+      />
+
+      <OptionPicker
+        visible={showLiveDurationPicker}
+        title="Share Live Location For"
+        options={LIVE_LOCATION_DURATION_OPTIONS}
+        selected={liveLocationDuration}
+        onSelect={handleLiveDurationChange}
+        onClose={() => setShowLiveDurationPicker(false)}
+        bottomInset={insets.bottom}
+      />
+    </View>
+  );
+}
+
+// ============================================
+// OPTION PICKER
+// ============================================
+
+type PickerOption = { label: string; value: number };
+
+function OptionPicker({
+  visible,
+  title,
+  options,
+  selected,
+  onSelect,
+  onClose,
+  bottomInset,
+}: {
+  visible: boolean;
+  title: string;
+  options: PickerOption[];
+  selected: number;
+  onSelect: (value: number) => void;
+  onClose: () => void;
+  bottomInset: number;
+}) {
+  if (!visible) return null;
+
+  return (
+    <View style={styles.pickerOverlay}>
+      <View style={[styles.pickerSheet, { paddingBottom: bottomInset + spacing.lg }]}>
+        <View style={styles.pickerHeader}>
+          <Text style={styles.pickerTitle}>{title}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Icon name="close" size={24} color={colors.textPrimary} />
+          </TouchableOpacity>
         </View>
-      )}
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.pickerOption, option.value === selected && styles.pickerOptionSelected]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text
+              style={[
+                styles.pickerOptionText,
+                option.value === selected && styles.pickerOptionTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+            {option.value === selected && <Icon name="checkmark" size={20} color={colors.accent} />}
+          </TouchableOpacity>
+        ))}
+      </View>
     </View>
   );
 }
@@ -572,6 +924,56 @@ const styles = StyleSheet.create({
     ...typography.body,
     color: colors.textSecondary,
   },
+  windowBlock: {
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+    paddingBottom: spacing.sm,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  dayChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xxs,
+    paddingHorizontal: spacing.md,
+  },
+  dayChip: {
+    minWidth: 40,
+    alignItems: 'center',
+    paddingVertical: spacing.xxs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  dayChipSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.accent,
+  },
+  dayChipText: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  dayChipTextSelected: {
+    color: colors.accent,
+  },
+  removeWindowButton: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.xs,
+  },
+  removeWindowText: {
+    ...typography.labelSmall,
+    color: colors.error,
+  },
+  addWindowText: {
+    ...typography.label,
+    color: colors.accent,
+    marginLeft: spacing.xs,
+  },
   infoCard: {
     flexDirection: 'row',
     gap: spacing.xs,
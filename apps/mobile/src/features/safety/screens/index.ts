@@ -5,3 +5,7 @@
 export { SafetyHubScreen } from './SafetyHubScreen';
 export { SafetySettingsScreen } from './SafetySettingsScreen';
 export { SafetyContactsScreen } from './SafetyContactsScreen';
+export { CaregiverMonitorScreen } from './CaregiverMonitorScreen';
+export { SafeZonesScreen } from './SafeZonesScreen';
+export { SafeZoneEditorScreen } from './SafeZoneEditorScreen';
+export { IncidentReportScreen } from './IncidentReportScreen';
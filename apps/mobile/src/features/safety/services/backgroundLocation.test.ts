@@ -0,0 +1,94 @@
+import { Platform } from 'react-native';
+import notifee from '@notifee/react-native';
+import Geolocation from '@react-native-community/geolocation';
+import { holdBackgroundLocation, releaseBackgroundLocation } from './backgroundLocation';
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    registerForegroundService: jest.fn(),
+    createChannel: jest.fn().mockResolvedValue('safety_monitoring'),
+    displayNotification: jest.fn().mockResolvedValue('safety_monitoring'),
+    stopForegroundService: jest.fn().mockResolvedValue(undefined),
+  },
+  AndroidImportance: { LOW: 2 },
+  AndroidForegroundServiceType: { FOREGROUND_SERVICE_TYPE_LOCATION: 8 },
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('on Android', () => {
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+  });
+
+  it('runs a location foreground service while held', async () => {
+    holdBackgroundLocation('liveLocation');
+    holdBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+
+    expect(notifee.displayNotification).toHaveBeenCalledTimes(1);
+    expect(jest.mocked(notifee.displayNotification).mock.calls[0][0].android).toMatchObject({
+      asForegroundService: true,
+      foregroundServiceTypes: [8],
+    });
+
+    releaseBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+    expect(notifee.stopForegroundService).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps one service for every holder and says what is running', async () => {
+    const { calls } = jest.mocked(notifee.displayNotification).mock;
+    const bodies = () => calls.map(([notification]) => notification.body);
+
+    holdBackgroundLocation('fallDetection');
+    await new Promise(setImmediate);
+    holdBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+    releaseBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+
+    expect(bodies()).toEqual([
+      'Watching for falls so your contacts can be alerted.',
+      'Sharing your live location with your contacts.',
+      'Watching for falls so your contacts can be alerted.',
+    ]);
+    expect(notifee.stopForegroundService).not.toHaveBeenCalled();
+
+    releaseBackgroundLocation('fallDetection');
+    await new Promise(setImmediate);
+    expect(notifee.stopForegroundService).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('on iOS', () => {
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'ios');
+    jest.mocked(Geolocation.watchPosition).mockReturnValue(7);
+  });
+
+  it('keeps a background location watch open while held', async () => {
+    holdBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+
+    expect(Geolocation.setRNConfiguration).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authorizationLevel: 'always',
+        enableBackgroundLocationUpdates: true,
+      })
+    );
+    expect(Geolocation.watchPosition).toHaveBeenCalledTimes(1);
+
+    releaseBackgroundLocation('liveLocation');
+    await new Promise(setImmediate);
+    expect(Geolocation.clearWatch).toHaveBeenCalledWith(7);
+    expect(notifee.displayNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Background Location
+ * Keeps the app, and with it the safety timers and location watches, running
+ * after the user leaves it. Android runs a foreground service with an ongoing
+ * notification; iOS keeps an app in the location background mode alive while
+ * it has a location watch that allows background updates, and the motion
+ * sensors keep reporting for as long as the app runs.
+ *
+ * More than one safety feature can need this, so each holds it under its own
+ * name and it stops when the last one lets go.
+ */
+
+import { Platform } from 'react-native';
+import notifee, { AndroidForegroundServiceType, AndroidImportance } from '@notifee/react-native';
+import Geolocation from '@react-native-community/geolocation';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('BackgroundLocation');
+
+export type BackgroundLocationHolder = 'liveLocation' | 'safeZones' | 'fallDetection';
+
+const CHANNEL_ID = 'safety_monitoring';
+const NOTIFICATION_ID = 'safety_monitoring';
+
+/** iOS only needs the watch to stay open, not to deliver fixes often. */
+const KEEP_ALIVE_DISTANCE_FILTER_METERS = 100;
+
+const holders = new Set<BackgroundLocationHolder>();
+let keepAliveWatchId: number | null = null;
+/** Starts and stops run one after another, so a quick release cannot overtake a start. */
+let applying: Promise<void> = Promise.resolve();
+
+/**
+ * Give notifee the task behind the Android foreground service. It must be
+ * registered before the app component, so index.js calls this at startup.
+ * The task never settles; `stopForegroundService` ends it.
+ */
+export function registerBackgroundLocationService(): void {
+  notifee.registerForegroundService(() => new Promise<void>(() => {}));
+}
+
+export function holdBackgroundLocation(holder: BackgroundLocationHolder): void {
+  if (holders.has(holder)) return;
+  holders.add(holder);
+  applying = applying.then(applyBackgroundLocation);
+}
+
+export function releaseBackgroundLocation(holder: BackgroundLocationHolder): void {
+  if (!holders.delete(holder)) return;
+  applying = applying.then(applyBackgroundLocation);
+}
+
+// ============================================
+// PLATFORM
+// ============================================
+
+/** The ongoing notification says what is still running; sharing comes first. */
+function notificationBody(): string {
+  if (holders.has('liveLocation')) return 'Sharing your live location with your contacts.';
+  if (holders.has('safeZones')) return 'Watching your safe zones so your contacts can be alerted.';
+  return 'Watching for falls so your contacts can be alerted.';
+}
+
+async function applyBackgroundLocation(): Promise<void> {
+  try {
+    if (Platform.OS === 'android') {
+      await applyForegroundService();
+    } else {
+      applyKeepAliveWatch();
+    }
+  } catch (error) {
+    logger.warn('Background location not updated', { error: String(error) });
+  }
+}
+
+async function applyForegroundService(): Promise<void> {
+  if (holders.size === 0) {
+    await notifee.stopForegroundService();
+    return;
+  }
+
+  await notifee.createChannel({
+    id: CHANNEL_ID,
+    name: 'Safety Monitoring',
+    description: 'Shown while safety features run in the background',
+    importance: AndroidImportance.LOW,
+  });
+  // Displaying again under the same id updates the running service's text.
+  await notifee.displayNotification({
+    id: NOTIFICATION_ID,
+    title: 'CareBow Safety is on',
+    body: notificationBody(),
+    android: {
+      channelId: CHANNEL_ID,
+      asForegroundService: true,
+      foregroundServiceTypes: [AndroidForegroundServiceType.FOREGROUND_SERVICE_TYPE_LOCATION],
+      ongoing: true,
+      pressAction: { id: 'default' },
+    },
+  });
+}
+
+function applyKeepAliveWatch(): void {
+  if (holders.size === 0) {
+    if (keepAliveWatchId !== null) Geolocation.clearWatch(keepAliveWatchId);
+    keepAliveWatchId = null;
+    return;
+  }
+  if (keepAliveWatchId !== null) return;
+
+  Geolocation.setRNConfiguration({
+    skipPermissionRequests: false,
+    authorizationLevel: 'always',
+    enableBackgroundLocationUpdates: true,
+  });
+  keepAliveWatchId = Geolocation.watchPosition(
+    () => {},
+    (error) => {
+      logger.warn('Background location watch failed', { code: error.code });
+    },
+    { distanceFilter: KEEP_ALIVE_DISTANCE_FILTER_METERS }
+  );
+}
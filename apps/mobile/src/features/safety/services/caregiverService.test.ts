@@ -0,0 +1,92 @@
+import type { CaregiverSafetyEvent, MonitoredRelative } from '@/services/api/endpoints/safety';
+import {
+  describeRelativeStatus,
+  needsAcknowledgement,
+  replaceCaregiverEvent,
+  sortRelativesByUrgency,
+} from './caregiverService';
+
+const now = new Date(2026, 2, 5, 15, 0);
+
+function relative(overrides: Partial<MonitoredRelative> = {}): MonitoredRelative {
+  return {
+    id: 'rel-1',
+    name: 'Asha',
+    checkInEnabled: true,
+    lastCheckInAt: null,
+    lastMissedCheckInAt: null,
+    openAlerts: 0,
+    ...overrides,
+  };
+}
+
+function event(overrides: Partial<CaregiverSafetyEvent> = {}): CaregiverSafetyEvent {
+  return {
+    id: 'evt-1',
+    type: 'CHECKIN_MISSED',
+    occurredAt: new Date(2026, 2, 5, 10, 0).toISOString(),
+    acknowledgements: [],
+    ...overrides,
+  };
+}
+
+describe('caregiver service', () => {
+  it('keeps missed check-ins, SOS and zone exits open until acknowledged', () => {
+    expect(needsAcknowledgement(event())).toBe(true);
+    expect(needsAcknowledgement(event({ type: 'SOS_TRIGGERED' }))).toBe(true);
+    expect(needsAcknowledgement(event({ type: 'CHECKIN_CONFIRMED' }))).toBe(false);
+    expect(needsAcknowledgement(event({ type: 'ZONE_EXITED', zoneName: 'Home' }))).toBe(true);
+    expect(needsAcknowledgement(event({ type: 'ZONE_ENTERED', zoneName: 'Home' }))).toBe(false);
+    expect(
+      needsAcknowledgement(
+        event({ acknowledgements: [{ by: 'Ravi', at: now.toISOString(), note: 'Called her' }] })
+      )
+    ).toBe(false);
+  });
+
+  it('summarises how a relative is doing', () => {
+    expect(describeRelativeStatus(relative({ openAlerts: 2 }), now)).toEqual({
+      label: '2 alerts need attention',
+      tone: 'alert',
+    });
+    expect(
+      describeRelativeStatus(
+        relative({ lastMissedCheckInAt: new Date(2026, 2, 5, 10, 0).toISOString() }),
+        now
+      ).tone
+    ).toBe('warning');
+    expect(
+      describeRelativeStatus(
+        relative({
+          lastMissedCheckInAt: new Date(2026, 2, 5, 10, 0).toISOString(),
+          lastCheckInAt: new Date(2026, 2, 5, 10, 20).toISOString(),
+        }),
+        now
+      )
+    ).toEqual({ label: expect.stringMatching(/^Checked in at 10:20\s*AM$/), tone: 'ok' });
+    expect(describeRelativeStatus(relative({ checkInEnabled: false }), now).label).toBe(
+      'Daily check-in not enabled'
+    );
+    expect(describeRelativeStatus(relative(), now).label).toBe('No check-ins yet');
+  });
+
+  it('lists relatives with open alerts first', () => {
+    const sorted = sortRelativesByUrgency([
+      relative({ id: 'a', name: 'Zara' }),
+      relative({ id: 'b', name: 'Meera', openAlerts: 1 }),
+      relative({ id: 'c', name: 'Asha' }),
+    ]);
+
+    expect(sorted.map((r) => r.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('replaces an acknowledged event in place', () => {
+    const acknowledged = event({
+      acknowledgements: [{ by: 'Ravi', at: now.toISOString() }],
+    });
+    const events = replaceCaregiverEvent([event(), event({ id: 'evt-2' })], acknowledged);
+
+    expect(events[0]).toBe(acknowledged);
+    expect(events[1].id).toBe('evt-2');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Caregiver Service
+ * Logic for the caregiver view: how a monitored relative is doing and which
+ * of their events still need someone to acknowledge them
+ */
+
+import type { CaregiverSafetyEvent, MonitoredRelative } from '@/services/api/endpoints/safety';
+import { formatDisplayTime, isSameLocalDay } from './checkInService';
+
+export type RelativeStatusTone = 'ok' | 'warning' | 'alert' | 'muted';
+
+export type RelativeStatus = {
+  label: string;
+  tone: RelativeStatusTone;
+};
+
+/** Missed check-ins, SOS events and zone exits stay open until a caregiver acknowledges them. */
+export function needsAcknowledgement(event: CaregiverSafetyEvent): boolean {
+  return (
+    event.type !== 'CHECKIN_CONFIRMED' &&
+    event.type !== 'ZONE_ENTERED' &&
+    event.acknowledgements.length === 0
+  );
+}
+
+/** One-line summary of a relative for the caregiver's list. */
+export function describeRelativeStatus(
+  relative: MonitoredRelative,
+  now: Date = new Date()
+): RelativeStatus {
+  if (relative.openAlerts > 0) {
+    const plural = relative.openAlerts === 1 ? 'alert needs' : 'alerts need';
+    return { label: `${relative.openAlerts} ${plural} attention`, tone: 'alert' };
+  }
+
+  const lastCheckIn = relative.lastCheckInAt ? new Date(relative.lastCheckInAt) : null;
+  const lastMissed = relative.lastMissedCheckInAt ? new Date(relative.lastMissedCheckInAt) : null;
+
+  if (lastMissed && isSameLocalDay(lastMissed, now) && (!lastCheckIn || lastMissed > lastCheckIn)) {
+    return { label: 'Missed a check-in today', tone: 'warning' };
+  }
+  if (lastCheckIn && isSameLocalDay(lastCheckIn, now)) {
+    return { label: `Checked in at ${formatDisplayTime(lastCheckIn)}`, tone: 'ok' };
+  }
+  if (!relative.checkInEnabled) {
+    return { label: 'Daily check-in not enabled', tone: 'muted' };
+  }
+  if (lastCheckIn) {
+    const day = lastCheckIn.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return { label: `Last checked in ${day}`, tone: 'warning' };
+  }
+  return { label: 'No check-ins yet', tone: 'muted' };
+}
+
+/** Relatives with open alerts first, then by name. */
+export function sortRelativesByUrgency(relatives: MonitoredRelative[]): MonitoredRelative[] {
+  return [...relatives].sort((a, b) => b.openAlerts - a.openAlerts || a.name.localeCompare(b.name));
+}
+
+/** Swap in the server's copy of an acknowledged event. */
+export function replaceCaregiverEvent(
+  events: CaregiverSafetyEvent[],
+  updated: CaregiverSafetyEvent
+): CaregiverSafetyEvent[] {
+  return events.map((event) => (event.id === updated.id ? updated : event));
+}
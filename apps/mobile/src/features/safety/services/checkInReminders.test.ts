@@ -0,0 +1,65 @@
+import { NotificationService, type ScheduledNotification } from '@/services/notifications';
+import { CheckInWindow } from '../types';
+import { getCheckInReminderSlots, syncCheckInReminders } from './checkInReminders';
+
+const morning: CheckInWindow = {
+  id: 'morning',
+  time: '09:00',
+  gracePeriodMinutes: 60,
+  daysOfWeek: [1, 2, 3, 4, 5],
+};
+const evening: CheckInWindow = {
+  id: 'evening',
+  time: '20:00',
+  gracePeriodMinutes: 30,
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+};
+
+// The service itself is covered elsewhere; keep its bookkeeping in memory here.
+const pending = new Map<string, ScheduledNotification>();
+jest.spyOn(NotificationService, 'schedule').mockImplementation(async (notification) => {
+  pending.set(notification.id, { ...notification, createdAt: Date.now() });
+  return notification.id;
+});
+jest.spyOn(NotificationService, 'cancel').mockImplementation(async (id) => {
+  pending.delete(id);
+});
+jest
+  .spyOn(NotificationService, 'getScheduled')
+  .mockImplementation(async () => [...pending.values()]);
+
+describe('check-in reminders', () => {
+  beforeEach(() => {
+    pending.clear();
+  });
+
+  it('repeats an every-day window daily and others weekly per weekday', () => {
+    // Monday 2 March 2026, after the morning window.
+    const slots = getCheckInReminderSlots([morning, evening], new Date(2026, 2, 2, 10, 0));
+
+    expect(slots).toHaveLength(6);
+    expect(slots.filter((s) => s.repeat === 'daily').map((s) => s.windowId)).toEqual(['evening']);
+    expect(slots[0]).toMatchObject({ windowId: 'evening', firstAt: new Date(2026, 2, 2, 20, 0) });
+    // Monday 09:00 has passed, so that slot starts next Monday.
+    expect(slots[slots.length - 1].firstAt).toEqual(new Date(2026, 2, 9, 9, 0));
+  });
+
+  it('replaces earlier reminders and clears them when check-in is off', async () => {
+    const now = new Date(2026, 2, 2, 10, 0);
+
+    expect(
+      await syncCheckInReminders({ dailyCheckInEnabled: true, checkInWindows: [morning] }, now)
+    ).toBe(5);
+    expect(
+      await syncCheckInReminders({ dailyCheckInEnabled: true, checkInWindows: [evening] }, now)
+    ).toBe(1);
+
+    const reminders = await NotificationService.getScheduled();
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].content.data).toMatchObject({ type: 'check_in', windowId: 'evening' });
+    expect(reminders[0].trigger.repeatType).toBe('daily');
+
+    await syncCheckInReminders({ dailyCheckInEnabled: false, checkInWindows: [evening] }, now);
+    expect(await NotificationService.getScheduled()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Check-In Reminders
+ * Keeps the local check-in notifications in step with the check-in windows.
+ *
+ * A window on every day becomes one daily reminder; any other window becomes
+ * one weekly reminder per chosen weekday. Reminders only prompt the user: a
+ * missed window is escalated by the server, not by this device.
+ */
+
+import { cancelCheckInReminder, scheduleCheckInReminder } from '@/services/notifications';
+import { createLogger } from '@/utils/logger';
+import { ALL_WEEKDAYS, CheckInWindow, SafetySettings } from '../types';
+import { isValidCheckInWindow } from './checkInService';
+
+const logger = createLogger('CheckInReminders');
+
+export type CheckInReminderSlot = {
+  windowId: string;
+  time: string;
+  firstAt: Date;
+  repeat: 'daily' | 'weekly';
+};
+
+/**
+ * First time `time` falls at or after `after`, on `weekday` when given.
+ */
+function firstReminderTime(time: string, after: Date, weekday?: number): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+
+  // A week covers every weekday; one more day covers a time already past today.
+  for (let i = 0; i < 8; i++) {
+    const at = new Date(after.getFullYear(), after.getMonth(), after.getDate() + i, hours, minutes);
+    if (weekday !== undefined && at.getDay() !== weekday) continue;
+    if (at >= after) return at;
+  }
+  // Unreachable for a valid weekday; fall back to a week out.
+  return new Date(after.getFullYear(), after.getMonth(), after.getDate() + 7, hours, minutes);
+}
+
+/** The repeating reminders a set of windows needs, earliest first. */
+export function getCheckInReminderSlots(
+  windows: CheckInWindow[],
+  now: Date = new Date()
+): CheckInReminderSlot[] {
+  const slots: CheckInReminderSlot[] = [];
+
+  for (const window of windows.filter(isValidCheckInWindow)) {
+    const days = [...new Set(window.daysOfWeek)];
+    if (ALL_WEEKDAYS.every((day) => days.includes(day))) {
+      slots.push({
+        windowId: window.id,
+        time: window.time,
+        firstAt: firstReminderTime(window.time, now),
+        repeat: 'daily',
+      });
+      continue;
+    }
+
+    for (const weekday of days) {
+      slots.push({
+        windowId: window.id,
+        time: window.time,
+        firstAt: firstReminderTime(window.time, now, weekday),
+        repeat: 'weekly',
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.firstAt.getTime() - b.firstAt.getTime());
+}
+
+/**
+ * Replace the check-in reminders. Returns how many were scheduled.
+ * Never throws: check-ins still work without a reminder.
+ */
+export async function syncCheckInReminders(
+  settings: Pick<SafetySettings, 'dailyCheckInEnabled' | 'checkInWindows'>,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    await cancelCheckInReminder();
+    if (!settings.dailyCheckInEnabled) return 0;
+
+    const slots = getCheckInReminderSlots(settings.checkInWindows, now);
+    for (const slot of slots) {
+      await scheduleCheckInReminder(slot);
+    }
+    return slots.length;
+  } catch (error) {
+    logger.warn('Could not schedule check-in reminders', error);
+    return 0;
+  }
+}
@@ -1,9 +1,16 @@
 /**
  * Check-In Service
- * Core logic for daily safety check-ins
+ * Core logic for daily safety check-ins across one or more windows per day
  */
 
-import { SafetySettings, CheckInStatus, CheckInState } from '../types';
+import {
+  SafetySettings,
+  CheckInStatus,
+  CheckInState,
+  CheckInWindow,
+  ALL_WEEKDAYS,
+  WEEKDAY_SHORT_LABELS,
+} from '../types';
 
 // ============================================
 // DATE/TIME HELPERS
@@ -56,6 +63,30 @@ export function formatDisplayTime(date: Date): string {
   });
 }
 
+/**
+ * Format a scheduled check-in, naming the weekday when it is not today
+ * (e.g., "9:00 AM", "Mon 9:00 AM")
+ */
+export function formatCheckInTime(isoString: string, now: Date = new Date()): string {
+  const date = new Date(isoString);
+  const time = formatDisplayTime(date);
+  return isSameLocalDay(date, now) ? time : `${WEEKDAY_SHORT_LABELS[date.getDay()]} ${time}`;
+}
+
+/**
+ * Describe a weekday mask (e.g., "Every day", "Weekdays", "Mon, Thu")
+ */
+export function formatWindowDays(daysOfWeek: number[]): string {
+  const days = [...new Set(daysOfWeek)].sort((a, b) => a - b);
+  const key = days.join(',');
+
+  if (key === '0,1,2,3,4,5,6') return 'Every day';
+  if (key === '1,2,3,4,5') return 'Weekdays';
+  if (key === '0,6') return 'Weekends';
+  if (days.length === 0) return 'No days';
+  return days.map((day) => WEEKDAY_SHORT_LABELS[day]).join(', ');
+}
+
 /**
  * Format HH:mm time string to display format (e.g., "10:00" -> "10:00 AM")
  */
@@ -64,49 +95,175 @@ export function formatScheduledTime(timeString: string): string {
   return formatDisplayTime(date);
 }
 
+// ============================================
+// CHECK-IN WINDOWS
+// ============================================
+
+/**
+ * One window on one day. Each occurrence owns a period of the day: the first
+ * from midnight, later ones from their own scheduled time, each until the next
+ * one starts. A check-in counts for the occurrence whose period it falls in.
+ */
+export type CheckInOccurrence = {
+  window: CheckInWindow;
+  scheduledAt: Date;
+  deadlineAt: Date;
+  periodStart: Date;
+  periodEnd: Date;
+};
+
+function atLocalTime(day: Date, timeString: string): Date {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, 0, 0);
+}
+
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, 0, 0, 0, 0);
+}
+
+/** Windows that apply on the local day of `day`, earliest first. */
+export function getWindowsForDay(windows: CheckInWindow[], day: Date): CheckInWindow[] {
+  return windows
+    .filter((window) => window.daysOfWeek.includes(day.getDay()))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/** The check-in occurrences of one local day, earliest first. */
+export function getCheckInOccurrences(windows: CheckInWindow[], day: Date): CheckInOccurrence[] {
+  const dayStart = startOfLocalDay(day);
+  const dayWindows = getWindowsForDay(windows, dayStart);
+  const scheduled = dayWindows.map((window) => atLocalTime(dayStart, window.time));
+
+  return dayWindows.map((window, i) => ({
+    window,
+    scheduledAt: scheduled[i],
+    deadlineAt: new Date(scheduled[i].getTime() + window.gracePeriodMinutes * 60 * 1000),
+    periodStart: i === 0 ? dayStart : scheduled[i],
+    periodEnd: i + 1 < scheduled.length ? scheduled[i + 1] : addDays(dayStart, 1),
+  }));
+}
+
+/** The occurrence whose period contains `at`; null on a day without windows. */
+export function getOccurrenceAt(windows: CheckInWindow[], at: Date): CheckInOccurrence | null {
+  return (
+    getCheckInOccurrences(windows, at).find(
+      (occurrence) => at >= occurrence.periodStart && at < occurrence.periodEnd
+    ) ?? null
+  );
+}
+
+/** The next occurrence scheduled after `now`, looking a week ahead. */
+export function getNextOccurrence(windows: CheckInWindow[], now: Date): CheckInOccurrence | null {
+  for (let i = 0; i < 8; i++) {
+    const next = getCheckInOccurrences(windows, addDays(now, i)).find(
+      (occurrence) => occurrence.scheduledAt > now
+    );
+    if (next) return next;
+  }
+  return null;
+}
+
+/**
+ * Whether two instants fall in the same check-in period. Days without windows
+ * fall back to the calendar day.
+ */
+export function isSameCheckInPeriod(windows: CheckInWindow[], a: Date, b: Date): boolean {
+  const occurrence = getOccurrenceAt(windows, a);
+  if (!occurrence) return isSameLocalDay(a, b);
+  return b >= occurrence.periodStart && b < occurrence.periodEnd;
+}
+
+function checkedInDuring(settings: SafetySettings, occurrence: CheckInOccurrence): Date | null {
+  if (!settings.lastCheckInAt) return null;
+
+  const lastCheckIn = new Date(settings.lastCheckInAt);
+  return lastCheckIn >= occurrence.periodStart && lastCheckIn < occurrence.periodEnd
+    ? lastCheckIn
+    : null;
+}
+
 // ============================================
 // CHECK-IN LOGIC
 // ============================================
 
 /**
- * Determine if check-in is due today based on settings
+ * Determine if the current window's check-in is due based on settings
  */
-export function isCheckInDueToday(settings: SafetySettings): boolean {
+export function isCheckInDueToday(settings: SafetySettings, now: Date = new Date()): boolean {
   if (!settings.dailyCheckInEnabled) return false;
 
-  const now = new Date();
-  const scheduledTime = parseTimeToToday(settings.dailyCheckInTime);
+  const occurrence = getOccurrenceAt(settings.checkInWindows, now);
 
   // Check-in becomes due after the scheduled time
-  return now >= scheduledTime;
+  return occurrence !== null && now >= occurrence.scheduledAt;
 }
 
 /**
- * Calculate the deadline (end of grace period) for today's check-in
+ * Calculate the deadline (end of grace period) for the current window
  */
-export function getCheckInDeadline(settings: SafetySettings): Date {
-  const scheduledTime = parseTimeToToday(settings.dailyCheckInTime);
-  return new Date(scheduledTime.getTime() + settings.gracePeriodMinutes * 60 * 1000);
+export function getCheckInDeadline(settings: SafetySettings, now: Date = new Date()): Date | null {
+  return getOccurrenceAt(settings.checkInWindows, now)?.deadlineAt ?? null;
 }
 
 /**
- * Check if the user has missed the check-in deadline
+ * Check if the user has missed the current window's deadline
  */
-export function hasMissedDeadline(settings: SafetySettings): boolean {
+export function hasMissedDeadline(settings: SafetySettings, now: Date = new Date()): boolean {
   if (!settings.dailyCheckInEnabled) return false;
 
-  // If already checked in today, not missed
-  if (settings.lastCheckInAt) {
-    const lastCheckIn = new Date(settings.lastCheckInAt);
-    if (isSameLocalDay(lastCheckIn, new Date())) {
-      return false;
-    }
+  const occurrence = getOccurrenceAt(settings.checkInWindows, now);
+  if (!occurrence) return false;
+
+  // If already checked in for this window, not missed
+  if (checkedInDuring(settings, occurrence)) return false;
+
+  return now > occurrence.deadlineAt;
+}
+
+/** How far back a window missed while the app was not running still alerts. */
+const MISSED_CHECK_IN_LOOKBACK_DAYS = 7;
+
+/**
+ * Every window whose deadline passed without a check-in since the last
+ * check-in or recorded miss, oldest first. Without either only the current
+ * window counts, since nothing was expected before check-ins were set up.
+ */
+export function getMissedOccurrences(
+  settings: SafetySettings,
+  now: Date = new Date()
+): CheckInOccurrence[] {
+  if (!settings.dailyCheckInEnabled) return [];
+
+  const anchors = [settings.lastCheckInAt, settings.lastMissedCheckInAt]
+    .filter((value): value is string => value !== null)
+    .map((value) => new Date(value).getTime());
+  if (anchors.length === 0) {
+    const current = getOccurrenceAt(settings.checkInWindows, now);
+    return current && hasMissedDeadline(settings, now) ? [current] : [];
   }
 
-  const now = new Date();
-  const deadline = getCheckInDeadline(settings);
+  const lastMissed = settings.lastMissedCheckInAt ? new Date(settings.lastMissedCheckInAt) : null;
+  const since = new Date(
+    Math.max(...anchors, addDays(now, -MISSED_CHECK_IN_LOOKBACK_DAYS).getTime())
+  );
+  const missed: CheckInOccurrence[] = [];
+
+  for (let day = startOfLocalDay(since); day <= now; day = addDays(day, 1)) {
+    for (const occurrence of getCheckInOccurrences(settings.checkInWindows, day)) {
+      if (occurrence.periodEnd <= since || now <= occurrence.deadlineAt) continue;
+      if (checkedInDuring(settings, occurrence)) continue;
+      if (lastMissed && lastMissed >= occurrence.periodStart && lastMissed < occurrence.periodEnd) {
+        continue;
+      }
+      missed.push(occurrence);
+    }
+  }
 
-  return now > deadline;
+  return missed;
 }
 
 /**
@@ -120,55 +277,46 @@ export function hasCheckedInToday(settings: SafetySettings): boolean {
 }
 
 /**
- * Check if user checked in late (after the deadline but same day)
+ * Check if user checked in for the current window after its deadline
  */
-export function didCheckInLate(settings: SafetySettings): boolean {
-  if (!settings.lastCheckInAt) return false;
-
-  const lastCheckIn = new Date(settings.lastCheckInAt);
-  if (!isSameLocalDay(lastCheckIn, new Date())) return false;
+export function didCheckInLate(settings: SafetySettings, now: Date = new Date()): boolean {
+  const occurrence = getOccurrenceAt(settings.checkInWindows, now);
+  if (!occurrence) return false;
 
-  const deadline = getCheckInDeadline(settings);
-  return lastCheckIn > deadline;
+  const lastCheckIn = checkedInDuring(settings, occurrence);
+  return lastCheckIn !== null && lastCheckIn > occurrence.deadlineAt;
 }
 
 /**
  * Get the comprehensive check-in state for UI display
  */
-export function getCheckInState(settings: SafetySettings): CheckInState {
-  const now = new Date();
-  const scheduledTime = parseTimeToToday(settings.dailyCheckInTime);
-  const deadline = getCheckInDeadline(settings);
-  const checkedInToday = hasCheckedInToday(settings);
-  const missedDeadline = hasMissedDeadline(settings);
-  const isOverdue = now > scheduledTime && !checkedInToday;
+export function getCheckInState(settings: SafetySettings, now: Date = new Date()): CheckInState {
+  const current = getOccurrenceAt(settings.checkInWindows, now);
 
   let status: CheckInStatus;
   let checkInTime: string | null = null;
+  let shown = current;
 
-  if (!settings.dailyCheckInEnabled) {
-    status = 'NOT_DUE';
-  } else if (checkedInToday) {
+  if (settings.dailyCheckInEnabled && current && checkedInDuring(settings, current)) {
     checkInTime = settings.lastCheckInAt;
-    if (didCheckInLate(settings)) {
-      status = 'CHECKED_IN_LATE';
-    } else {
-      status = 'CHECKED_IN';
-    }
-  } else if (missedDeadline) {
+    status = didCheckInLate(settings, now) ? 'CHECKED_IN_LATE' : 'CHECKED_IN';
+  } else if (hasMissedDeadline(settings, now)) {
     status = 'MISSED';
-  } else if (now >= scheduledTime) {
+  } else if (settings.dailyCheckInEnabled && current && now >= current.scheduledAt) {
     status = 'DUE';
   } else {
+    // Before the current window opens, or on a day without one: show the next.
     status = 'NOT_DUE';
+    shown = getNextOccurrence(settings.checkInWindows, now);
   }
 
   return {
     status,
+    windowId: shown?.window.id ?? null,
     checkInTime,
-    scheduledTime: scheduledTime.toISOString(),
-    deadlineTime: deadline.toISOString(),
-    isOverdue,
+    scheduledTime: shown?.scheduledAt.toISOString() ?? null,
+    deadlineTime: shown?.deadlineAt.toISOString() ?? null,
+    isOverdue: status === 'DUE' || status === 'MISSED',
   };
 }
 
@@ -198,8 +346,8 @@ export function getCheckInStatusMessage(state: CheckInState): string {
       return 'Check-in due - tap below';
 
     case 'NOT_DUE': {
-      const scheduledTime = formatDisplayTime(new Date(state.scheduledTime));
-      return `Check-in scheduled for ${scheduledTime}`;
+      if (!state.scheduledTime) return 'No check-in scheduled';
+      return `Check-in scheduled for ${formatCheckInTime(state.scheduledTime)}`;
     }
 
     default:
@@ -226,6 +374,41 @@ export function isValidGracePeriod(minutes: number): boolean {
   return minutes > 0 && minutes <= 1440; // 1440 = 24 hours
 }
 
+/**
+ * Validate a check-in window: a valid time and grace period on at least one day
+ */
+export function isValidCheckInWindow(window: CheckInWindow): boolean {
+  return (
+    isValidTimeFormat(window.time) &&
+    isValidGracePeriod(window.gracePeriodMinutes) &&
+    window.daysOfWeek.length > 0 &&
+    window.daysOfWeek.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  );
+}
+
+/**
+ * Check whether any window's grace period runs into the next window on a
+ * shared day. A check-in then could not tell which window it answers.
+ */
+export function hasOverlappingCheckInWindows(windows: CheckInWindow[]): boolean {
+  return ALL_WEEKDAYS.some((day) => {
+    const dayWindows = windows
+      .filter((window) => window.daysOfWeek.includes(day))
+      .sort((a, b) => a.time.localeCompare(b.time));
+
+    return dayWindows.some((window, i) => {
+      const next = dayWindows[i + 1];
+      if (!next) return false;
+      return toMinutes(window.time) + window.gracePeriodMinutes > toMinutes(next.time);
+    });
+  });
+}
+
+function toMinutes(timeString: string): number {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
 // ============================================
 // MISSED CHECK-IN DETECTION (APP FOREGROUND)
 // ============================================
@@ -234,20 +417,25 @@ export function isValidGracePeriod(minutes: number): boolean {
  * Check if we should prompt user about missed check-in
  * Called when app comes to foreground
  */
-export function shouldPromptMissedCheckIn(settings: SafetySettings): boolean {
+export function shouldPromptMissedCheckIn(
+  settings: SafetySettings,
+  now: Date = new Date()
+): boolean {
   if (!settings.dailyCheckInEnabled) return false;
-  if (hasCheckedInToday(settings)) return false;
 
-  return hasMissedDeadline(settings);
+  return hasMissedDeadline(settings, now);
 }
 
 /**
- * Check if we already recorded this missed check-in
+ * Check if we already recorded this window's missed check-in
  * (to avoid duplicate events)
  */
-export function alreadyRecordedMissedCheckIn(settings: SafetySettings): boolean {
+export function alreadyRecordedMissedCheckIn(
+  settings: SafetySettings,
+  now: Date = new Date()
+): boolean {
   if (!settings.lastMissedCheckInAt) return false;
 
   const lastMissed = new Date(settings.lastMissedCheckInAt);
-  return isSameLocalDay(lastMissed, new Date());
+  return isSameCheckInPeriod(settings.checkInWindows, now, lastMissed);
 }
@@ -0,0 +1,152 @@
+import {
+  acknowledgeEscalation,
+  advanceEscalation,
+  buildEscalationLadder,
+  cancelEscalation,
+  createEscalation,
+  getEmergencyServicesTime,
+  getStepDeadline,
+  isStepExpired,
+  resolveAcknowledgement,
+} from './escalationLadder';
+import type { EscalationOrder, SafetyContact } from '../types';
+
+const base = {
+  countryCode: '+1',
+  canReceiveWhatsApp: false,
+  createdAt: '2026-08-20T00:00:00.000Z',
+  updatedAt: '2026-08-20T00:00:00.000Z',
+};
+
+const mom: SafetyContact = {
+  ...base,
+  id: 'mom',
+  name: 'Mom',
+  phoneNumber: '+1 555 123 4567',
+  isPrimary: true,
+  canReceiveSMS: true,
+};
+const brother: SafetyContact = {
+  ...base,
+  id: 'brother',
+  name: 'Brother',
+  phoneNumber: '555 222 3333',
+  isPrimary: false,
+  canReceiveSMS: true,
+};
+const neighbour: SafetyContact = {
+  ...base,
+  id: 'neighbour',
+  name: 'Neighbour',
+  phoneNumber: '+1 555 999 0000',
+  isPrimary: false,
+  canReceiveSMS: false,
+  canReceiveWhatsApp: true,
+};
+
+const ENABLED = {
+  escalationEnabled: true,
+  escalationOrder: ['PRIMARY_CONTACT', 'ALL_CONTACTS', 'EMERGENCY_SERVICES'] as EscalationOrder[],
+  escalationStepTimeoutMinutes: 5,
+};
+
+describe('buildEscalationLadder', () => {
+  it('alerts the primary contact, then the rest, then emergency services', () => {
+    const steps = buildEscalationLadder(ENABLED, [mom, brother, neighbour]);
+
+    expect(steps).toEqual([
+      { kind: 'PRIMARY_CONTACT', contactIds: ['mom'], timeoutSeconds: 300 },
+      { kind: 'ALL_CONTACTS', contactIds: ['brother'], timeoutSeconds: 300 },
+      { kind: 'EMERGENCY_SERVICES', contactIds: [], timeoutSeconds: null },
+    ]);
+  });
+
+  it('skips steps with nobody to alert', () => {
+    const steps = buildEscalationLadder(ENABLED, [brother]);
+
+    expect(steps.map((step) => step.kind)).toEqual(['ALL_CONTACTS', 'EMERGENCY_SERVICES']);
+  });
+
+  it('alerts every SMS contact at once when escalation is off', () => {
+    const steps = buildEscalationLadder({ ...ENABLED, escalationEnabled: false }, [
+      mom,
+      brother,
+      neighbour,
+    ]);
+
+    expect(steps).toEqual([
+      { kind: 'ALL_CONTACTS', contactIds: ['mom', 'brother'], timeoutSeconds: null },
+    ]);
+  });
+});
+
+describe('escalation transitions', () => {
+  const start = new Date('2026-10-19T10:00:00.000Z');
+  const steps = buildEscalationLadder(ENABLED, [mom, brother]);
+
+  it('times each step out from when it started and ends on emergency services', () => {
+    const escalation = createEscalation('sos-1', steps, '911', start);
+
+    expect(getStepDeadline(escalation)?.toISOString()).toBe('2026-10-19T10:05:00.000Z');
+    expect(isStepExpired(escalation, new Date('2026-10-19T10:04:59.000Z'))).toBe(false);
+    expect(isStepExpired(escalation, new Date('2026-10-19T10:05:00.000Z'))).toBe(true);
+
+    const second = advanceEscalation(escalation, new Date('2026-10-19T10:05:30.000Z'));
+    expect(second.currentStepIndex).toBe(1);
+    expect(getStepDeadline(second)?.toISOString()).toBe('2026-10-19T10:10:30.000Z');
+
+    const last = advanceEscalation(second, new Date('2026-10-19T10:11:00.000Z'));
+    expect(last.steps[last.currentStepIndex].kind).toBe('EMERGENCY_SERVICES');
+    expect(getStepDeadline(last)).toBeNull();
+    expect(advanceEscalation(last).status).toBe('EXHAUSTED');
+  });
+
+  it('knows ahead of time when the ladder reaches emergency services', () => {
+    const escalation = createEscalation('sos-1', steps, '911', start);
+    const last = advanceEscalation(advanceEscalation(escalation));
+
+    expect(getEmergencyServicesTime(escalation)?.toISOString()).toBe('2026-10-19T10:10:00.000Z');
+    expect(getEmergencyServicesTime(last)).toBeNull();
+    expect(getEmergencyServicesTime(cancelEscalation(escalation))).toBeNull();
+  });
+
+  it('stops escalating once a contact acknowledges', () => {
+    const acknowledged = acknowledgeEscalation(createEscalation('sos-1', steps, '911', start), {
+      contactId: 'mom',
+      contactName: 'Mom',
+      acknowledgedAt: '2026-10-19T10:02:00.000Z',
+    });
+
+    expect(acknowledged.status).toBe('ACKNOWLEDGED');
+    expect(getStepDeadline(acknowledged)).toBeNull();
+    expect(advanceEscalation(acknowledged)).toBe(acknowledged);
+  });
+});
+
+describe('resolveAcknowledgement', () => {
+  it('names the local contact whose number acknowledged', () => {
+    expect(
+      resolveAcknowledgement(
+        { contactName: 'B', contactPhone: '+15552223333', acknowledgedAt: '2026-10-19T10:02:00Z' },
+        [mom, brother]
+      )
+    ).toEqual({
+      contactId: 'brother',
+      contactName: 'Brother',
+      acknowledgedAt: '2026-10-19T10:02:00Z',
+    });
+  });
+
+  it('falls back to the server name for numbers not saved on this device', () => {
+    expect(
+      resolveAcknowledgement(
+        {
+          contactName: 'Aunt',
+          contactPhone: '+15550001111',
+          acknowledgedAt: '2026-10-19T10:02:00Z',
+        },
+        [mom]
+      ).contactName
+    ).toBe('Aunt');
+  });
+});
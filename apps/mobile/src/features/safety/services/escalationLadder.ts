@@ -0,0 +1,179 @@
+/**
+ * Escalation Ladder
+ * Pure step logic for SOS escalation: who is alerted at each step, when a step
+ * times out, and how acknowledgements end the ladder. Timers, API calls and
+ * persistence live in escalationService / useSafetyStore.
+ */
+
+import {
+  DEFAULT_SAFETY_SETTINGS,
+  EscalationAcknowledgement,
+  EscalationStep,
+  SafetyContact,
+  SafetySettings,
+  SOSEscalation,
+} from '../types';
+import { generateId } from '@/types/profile';
+import { normalizePhoneNumber } from './sosService';
+
+// ============================================
+// BUILDING THE LADDER
+// ============================================
+
+/**
+ * Turn the user's escalation order into concrete steps. Steps with nobody to
+ * alert are skipped (no SMS-capable primary contact, or no contacts left for
+ * "all contacts"). Emergency services, when in the order, ends the ladder; it
+ * is there by default and for upgraded installs, and only leaves when the user
+ * turns it off in settings.
+ *
+ * With escalation disabled every SMS contact is alerted at once and the
+ * ladder only waits for an acknowledgement.
+ */
+export function buildEscalationLadder(
+  settings: Pick<SafetySettings, 'escalationEnabled' | 'escalationOrder'> &
+    Partial<Pick<SafetySettings, 'escalationStepTimeoutMinutes'>>,
+  contacts: SafetyContact[]
+): EscalationStep[] {
+  const smsContacts = contacts.filter((contact) => contact.canReceiveSMS);
+
+  if (!settings.escalationEnabled) {
+    if (smsContacts.length === 0) return [];
+    return [
+      { kind: 'ALL_CONTACTS', contactIds: smsContacts.map((c) => c.id), timeoutSeconds: null },
+    ];
+  }
+
+  const timeoutSeconds =
+    (settings.escalationStepTimeoutMinutes ??
+      DEFAULT_SAFETY_SETTINGS.escalationStepTimeoutMinutes) * 60;
+  const alerted = new Set<string>();
+  const steps: EscalationStep[] = [];
+
+  for (const kind of settings.escalationOrder) {
+    if (steps.some((step) => step.kind === kind)) continue;
+
+    if (kind === 'EMERGENCY_SERVICES') {
+      steps.push({ kind, contactIds: [], timeoutSeconds: null });
+      break;
+    }
+
+    const recipients =
+      kind === 'PRIMARY_CONTACT'
+        ? smsContacts.filter((contact) => contact.isPrimary)
+        : smsContacts.filter((contact) => !alerted.has(contact.id));
+    if (recipients.length === 0) continue;
+
+    recipients.forEach((contact) => alerted.add(contact.id));
+    steps.push({ kind, contactIds: recipients.map((c) => c.id), timeoutSeconds });
+  }
+
+  return steps;
+}
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+export function createEscalation(
+  sosEventId: string,
+  steps: EscalationStep[],
+  emergencyNumber: string,
+  now: Date = new Date()
+): SOSEscalation {
+  const startedAt = now.toISOString();
+  return {
+    id: generateId(),
+    sosEventId,
+    startedAt,
+    steps,
+    currentStepIndex: 0,
+    stepStartedAt: startedAt,
+    status: 'RUNNING',
+    acknowledgement: null,
+    emergencyNumber,
+  };
+}
+
+export function getCurrentStep(escalation: SOSEscalation): EscalationStep | null {
+  return escalation.steps[escalation.currentStepIndex] ?? null;
+}
+
+/** When the current step gives up waiting, or null if it waits indefinitely. */
+export function getStepDeadline(escalation: SOSEscalation): Date | null {
+  const step = getCurrentStep(escalation);
+  if (escalation.status !== 'RUNNING' || !step || step.timeoutSeconds === null) return null;
+  return new Date(new Date(escalation.stepStartedAt).getTime() + step.timeoutSeconds * 1000);
+}
+
+/**
+ * When the ladder reaches emergency services if nobody acknowledges first, or
+ * null when it is already there, never will, or has ended.
+ */
+export function getEmergencyServicesTime(escalation: SOSEscalation): Date | null {
+  const target = escalation.steps.findIndex((step) => step.kind === 'EMERGENCY_SERVICES');
+  if (target <= escalation.currentStepIndex) return null;
+
+  let at = getStepDeadline(escalation);
+  for (let i = escalation.currentStepIndex + 1; at && i < target; i++) {
+    const timeout = escalation.steps[i].timeoutSeconds;
+    at = timeout === null ? null : new Date(at.getTime() + timeout * 1000);
+  }
+  return at;
+}
+
+export function isStepExpired(escalation: SOSEscalation, now: Date = new Date()): boolean {
+  const deadline = getStepDeadline(escalation);
+  return deadline !== null && now.getTime() >= deadline.getTime();
+}
+
+/** Move to the next step, or mark the ladder exhausted after the last one. */
+export function advanceEscalation(
+  escalation: SOSEscalation,
+  now: Date = new Date()
+): SOSEscalation {
+  if (escalation.status !== 'RUNNING') return escalation;
+
+  const nextIndex = escalation.currentStepIndex + 1;
+  if (nextIndex >= escalation.steps.length) {
+    return { ...escalation, status: 'EXHAUSTED' };
+  }
+  return { ...escalation, currentStepIndex: nextIndex, stepStartedAt: now.toISOString() };
+}
+
+export function acknowledgeEscalation(
+  escalation: SOSEscalation,
+  acknowledgement: EscalationAcknowledgement
+): SOSEscalation {
+  if (escalation.status !== 'RUNNING') return escalation;
+  return { ...escalation, status: 'ACKNOWLEDGED', acknowledgement };
+}
+
+export function cancelEscalation(escalation: SOSEscalation): SOSEscalation {
+  if (escalation.status !== 'RUNNING') return escalation;
+  return { ...escalation, status: 'CANCELLED' };
+}
+
+// ============================================
+// ACKNOWLEDGEMENTS
+// ============================================
+
+/**
+ * Match a server acknowledgement to a local contact by phone number, so the
+ * UI shows the name the user saved rather than whatever the server echoed.
+ */
+export function resolveAcknowledgement(
+  ack: { contactName?: string | null; contactPhone?: string | null; acknowledgedAt: string },
+  contacts: SafetyContact[]
+): EscalationAcknowledgement {
+  const phone = ack.contactPhone ? normalizePhoneNumber(ack.contactPhone) : null;
+  const contact = phone
+    ? contacts.find((c) => normalizePhoneNumber(c.phoneNumber, c.countryCode) === phone)
+    : undefined;
+
+  return {
+    contactId: contact?.id ?? null,
+    contactName: contact?.name ?? ack.contactName ?? 'A contact',
+    acknowledgedAt: ack.acknowledgedAt,
+  };
+}
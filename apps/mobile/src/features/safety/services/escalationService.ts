@@ -0,0 +1,191 @@
+/**
+ * Escalation Service
+ * Follows the SOS escalation ladder on this device: polls CareBow for contact
+ * acknowledgements, moves to the next step when one times out, and calls
+ * emergency services when the ladder gets there.
+ *
+ * The server alerts every contact step from the plan sent with the SOS, so
+ * contacts keep being alerted while the app is suspended or closed. Only the
+ * emergency call is the device's: it is scheduled as a local notification
+ * ahead of time, and timers here only run while the JS runtime does, so
+ * `resumeSOSEscalation` catches up on steps that timed out meanwhile.
+ */
+
+import { AppState } from 'react-native';
+import { safetyApi, SosEscalationPlan } from '@/services/api/endpoints/safety';
+import {
+  cancelSOSEmergencyCallReminder,
+  scheduleSOSEmergencyCallReminder,
+} from '@/services/notifications';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { SafetyContact, SOSEscalation, EscalationStep } from '../types';
+import {
+  getEmergencyServicesTime,
+  getStepDeadline,
+  isStepExpired,
+  resolveAcknowledgement,
+} from './escalationLadder';
+import { toServerSafetyContacts } from './contactSync';
+import { callEmergencyServices } from './sosService';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('SOSEscalation');
+
+/** How often to ask the server whether anyone acknowledged the SOS. */
+export const ESCALATION_POLL_INTERVAL_MS = 15000;
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let activeTick: Promise<void> | null = null;
+/** The emergency call reminder currently scheduled, to move or cancel it. */
+let scheduledReminder: { sosEventId: string; at: number } | null = null;
+
+// ============================================
+// PLAN
+// ============================================
+
+function stepContacts(step: EscalationStep, contacts: SafetyContact[]): SafetyContact[] {
+  return contacts.filter((contact) => step.contactIds.includes(contact.id));
+}
+
+/** The ladder as sent with the SOS report, so the server can run its step timeouts. */
+export function toEscalationPlan(
+  steps: EscalationStep[],
+  contacts: SafetyContact[]
+): SosEscalationPlan {
+  return {
+    steps: steps.map((step) => ({
+      step: step.kind,
+      contacts: toServerSafetyContacts(stepContacts(step, contacts)),
+      timeoutSeconds: step.timeoutSeconds,
+    })),
+  };
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Begin following a ladder the server started with the SOS report.
+ */
+export function startSOSEscalation(escalation: SOSEscalation): void {
+  useSafetyStore.getState().startEscalation(escalation);
+  resumeSOSEscalation();
+}
+
+/** Check the running ladder now and keep polling until it ends. */
+export function resumeSOSEscalation(): void {
+  const escalation = useSafetyStore.getState().escalation;
+  if (!escalation || escalation.status !== 'RUNNING') {
+    stopSOSEscalationTimer();
+    void syncEmergencyCallReminder();
+    return;
+  }
+  void runTick();
+}
+
+/** The user is safe: stop escalating and tell the server to stop alerting. */
+export async function cancelSOSEscalation(): Promise<void> {
+  const escalation = useSafetyStore.getState().escalation;
+  stopSOSEscalationTimer();
+  if (!escalation || escalation.status !== 'RUNNING') return;
+
+  useSafetyStore.getState().cancelEscalation();
+  void syncEmergencyCallReminder();
+  const resolved = await safetyApi.resolveSos(escalation.sosEventId);
+  if (!resolved) {
+    logger.warn('SOS resolve not confirmed by server', { eventId: escalation.sosEventId });
+  }
+}
+
+export function stopSOSEscalationTimer(): void {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
+
+function runTick(): Promise<void> {
+  if (activeTick) return activeTick;
+  stopSOSEscalationTimer();
+  activeTick = tick().finally(() => {
+    activeTick = null;
+    scheduleNextTick();
+    void syncEmergencyCallReminder();
+  });
+  return activeTick;
+}
+
+function scheduleNextTick(): void {
+  const escalation = useSafetyStore.getState().escalation;
+  if (!escalation || escalation.status !== 'RUNNING') return;
+
+  const deadline = getStepDeadline(escalation);
+  const untilDeadline = deadline ? deadline.getTime() - Date.now() : Infinity;
+  const delay = Math.max(0, Math.min(ESCALATION_POLL_INTERVAL_MS, untilDeadline));
+  pollTimer = setTimeout(() => void runTick(), delay);
+}
+
+async function tick(): Promise<void> {
+  const escalation = useSafetyStore.getState().escalation;
+  if (!escalation || escalation.status !== 'RUNNING') return;
+
+  const status = await safetyApi.getSosStatus(escalation.sosEventId);
+  const acknowledgement = status?.acknowledgements?.[0];
+  if (acknowledgement) {
+    useSafetyStore
+      .getState()
+      .acknowledgeEscalation(
+        resolveAcknowledgement(acknowledgement, useSafetyStore.getState().contacts)
+      );
+    return;
+  }
+  if (status?.status === 'RESOLVED') {
+    useSafetyStore.getState().cancelEscalation();
+    return;
+  }
+
+  // Catch up on every step that timed out, e.g. while the app was suspended.
+  let current = useSafetyStore.getState().escalation;
+  while (current && current.status === 'RUNNING' && isStepExpired(current)) {
+    const next = useSafetyStore.getState().advanceEscalation();
+    if (next?.status === 'RUNNING') {
+      await alertStep(next);
+    }
+    current = next;
+  }
+}
+
+/**
+ * Keep one reminder to call emergency services, due when the running ladder
+ * reaches that step, and none once it has ended.
+ */
+async function syncEmergencyCallReminder(): Promise<void> {
+  const escalation = useSafetyStore.getState().escalation;
+  const due = escalation && getEmergencyServicesTime(escalation);
+  const next = escalation && due ? { sosEventId: escalation.sosEventId, at: due.getTime() } : null;
+  const previous = scheduledReminder;
+  if (previous?.sosEventId === next?.sosEventId && previous?.at === next?.at) return;
+
+  scheduledReminder = next;
+  try {
+    if (previous) await cancelSOSEmergencyCallReminder(previous.sosEventId);
+    if (escalation && due) {
+      await scheduleSOSEmergencyCallReminder(
+        escalation.sosEventId,
+        escalation.emergencyNumber,
+        due
+      );
+    }
+  } catch (error) {
+    logger.warn('Could not schedule the emergency call reminder', error);
+  }
+}
+
+async function alertStep(escalation: SOSEscalation): Promise<void> {
+  const step = escalation.steps[escalation.currentStepIndex];
+  // The server alerts contact steps itself; in the background the scheduled
+  // reminder asks the user to make the call.
+  if (step.kind !== 'EMERGENCY_SERVICES' || AppState.currentState !== 'active') return;
+  await callEmergencyServices(escalation.emergencyNumber);
+}
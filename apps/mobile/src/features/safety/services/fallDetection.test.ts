@@ -0,0 +1,76 @@
+import { AccelerometerSample, createFallDetector, detectFallsInTrace } from './fallDetection';
+
+const SAMPLE_MS = 20;
+
+/** Build a 50Hz trace from [durationMs, magnitude in g] segments, all on the z axis. */
+function trace(
+  ...segments: Array<[number, number | ((t: number) => number)]>
+): AccelerometerSample[] {
+  const samples: AccelerometerSample[] = [];
+  let t = 0;
+  for (const [duration, magnitude] of segments) {
+    for (let elapsed = 0; elapsed < duration; elapsed += SAMPLE_MS) {
+      const z = typeof magnitude === 'function' ? magnitude(t) : magnitude;
+      samples.push({ x: 0, y: 0, z, timestamp: t });
+      t += SAMPLE_MS;
+    }
+  }
+  return samples;
+}
+
+const standing: [number, number] = [1000, 1];
+
+describe('fall detection', () => {
+  it('detects free fall, then impact, then lying still', () => {
+    const falls = detectFallsInTrace(trace(standing, [300, 0.1], [60, 3.4], [80, 1.8], [4000, 1]));
+
+    expect(falls).toHaveLength(1);
+    expect(falls[0]).toMatchObject({ freeFallStartedAt: 1000, freeFallMs: 300, impactAt: 1300 });
+    expect(falls[0].peakImpactG).toBeCloseTo(3.4);
+    // Settle, then two seconds of stillness.
+    expect(falls[0].detectedAt).toBeGreaterThanOrEqual(1300 + 1000 + 2000);
+  });
+
+  it('uses the combined magnitude of all three axes', () => {
+    const detector = createFallDetector();
+    const samples = trace(standing, [300, 0.1], [60, 0], [4000, 1]).map((sample, i) =>
+      i >= 65 && i < 68 ? { ...sample, x: 2, y: 2, z: 1 } : sample
+    );
+
+    expect(samples.map(detector.push).filter(Boolean)).toHaveLength(1);
+  });
+
+  it('ignores a dropped phone that is picked straight back up', () => {
+    const handling = (t: number) => (Math.floor(t / 100) % 2 === 0 ? 0.4 : 1.8);
+
+    expect(detectFallsInTrace(trace(standing, [300, 0.1], [60, 3], [7000, handling]))).toEqual([]);
+  });
+
+  it('ignores a hard sit-down with no free fall', () => {
+    expect(detectFallsInTrace(trace(standing, [100, 2.8], [4000, 1]))).toEqual([]);
+  });
+
+  it('ignores a jump that lands softly', () => {
+    expect(detectFallsInTrace(trace(standing, [300, 0.1], [200, 1.6], [4000, 1]))).toEqual([]);
+  });
+
+  it('ignores a brief jolt too short to be a fall', () => {
+    expect(detectFallsInTrace(trace(standing, [40, 0.1], [60, 3], [4000, 1]))).toEqual([]);
+  });
+
+  it('ignores walking', () => {
+    const walking = (t: number) => 1 + 0.6 * Math.sin((2 * Math.PI * t) / 500);
+
+    expect(detectFallsInTrace(trace([10000, walking]))).toEqual([]);
+  });
+
+  it('reports each fall in a longer trace once', () => {
+    const fall: Array<[number, number]> = [
+      [300, 0.1],
+      [60, 3],
+      [4000, 1],
+    ];
+
+    expect(detectFallsInTrace(trace(standing, ...fall, standing, ...fall))).toHaveLength(2);
+  });
+});
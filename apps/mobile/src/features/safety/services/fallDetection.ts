@@ -0,0 +1,190 @@
+/**
+ * Fall Detection
+ * Free-fall → impact → stillness heuristic over accelerometer samples.
+ *
+ * Pure: it knows nothing about sensors or timers, so recorded traces can be
+ * replayed through it in tests. `fallDetectionService` feeds it live data.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One accelerometer reading in g (1g at rest), timestamped in milliseconds. */
+export type AccelerometerSample = {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number;
+};
+
+export type FallDetectionConfig = {
+  /** Total acceleration below this counts as free fall. */
+  freeFallThresholdG: number;
+  /** Shorter dips are jolts, not falls. */
+  minFreeFallMs: number;
+  /** Total acceleration at or above this counts as an impact. */
+  impactThresholdG: number;
+  /** The impact must follow the end of the free fall within this time. */
+  impactWindowMs: number;
+  /** Bounces right after the impact are ignored. */
+  settleMs: number;
+  /** How long the device must stay near 1g to count as lying still. */
+  stillnessMs: number;
+  /** Allowed deviation from 1g while still. */
+  stillnessToleranceG: number;
+  /** Give up when stillness has not been reached this long after the impact. */
+  maxStillnessWaitMs: number;
+};
+
+export type FallDetection = {
+  freeFallStartedAt: number;
+  freeFallMs: number;
+  impactAt: number;
+  peakImpactG: number;
+  detectedAt: number;
+};
+
+export type FallDetector = {
+  /** Feed the next sample; returns the fall it completes, if any. */
+  push: (sample: AccelerometerSample) => FallDetection | null;
+  reset: () => void;
+};
+
+type DetectorPhase =
+  | { kind: 'IDLE' }
+  | { kind: 'FREE_FALL'; startedAt: number }
+  | { kind: 'AWAITING_IMPACT'; freeFallStartedAt: number; freeFallEndedAt: number }
+  | {
+      kind: 'AWAITING_STILLNESS';
+      freeFallStartedAt: number;
+      freeFallMs: number;
+      impactAt: number;
+      peakImpactG: number;
+      stillSince: number | null;
+    };
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Seconds the user has to say they are OK before a detected fall starts an SOS. */
+export const FALL_COUNTDOWN_SECONDS = 30;
+
+export const DEFAULT_FALL_DETECTION_CONFIG: FallDetectionConfig = {
+  freeFallThresholdG: 0.5,
+  minFreeFallMs: 60,
+  impactThresholdG: 2.5,
+  impactWindowMs: 500,
+  settleMs: 1000,
+  stillnessMs: 2000,
+  stillnessToleranceG: 0.3,
+  maxStillnessWaitMs: 6000,
+};
+
+// ============================================
+// DETECTOR
+// ============================================
+
+export function accelerationMagnitude(sample: AccelerometerSample): number {
+  return Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z);
+}
+
+export function createFallDetector(overrides: Partial<FallDetectionConfig> = {}): FallDetector {
+  const config = { ...DEFAULT_FALL_DETECTION_CONFIG, ...overrides };
+  let phase: DetectorPhase = { kind: 'IDLE' };
+
+  /** Returns true when the same sample should be looked at again in the new phase. */
+  const step = (g: number, t: number): FallDetection | boolean | null => {
+    switch (phase.kind) {
+      case 'IDLE':
+        if (g < config.freeFallThresholdG) phase = { kind: 'FREE_FALL', startedAt: t };
+        return null;
+
+      case 'FREE_FALL':
+        if (g < config.freeFallThresholdG) return null;
+        if (t - phase.startedAt < config.minFreeFallMs) {
+          phase = { kind: 'IDLE' };
+          return null;
+        }
+        // The sample that ends a free fall is often the impact itself.
+        phase = { kind: 'AWAITING_IMPACT', freeFallStartedAt: phase.startedAt, freeFallEndedAt: t };
+        return true;
+
+      case 'AWAITING_IMPACT':
+        if (g >= config.impactThresholdG) {
+          phase = {
+            kind: 'AWAITING_STILLNESS',
+            freeFallStartedAt: phase.freeFallStartedAt,
+            freeFallMs: phase.freeFallEndedAt - phase.freeFallStartedAt,
+            impactAt: t,
+            peakImpactG: g,
+            stillSince: null,
+          };
+          return null;
+        }
+        if (t - phase.freeFallEndedAt > config.impactWindowMs) {
+          phase = { kind: 'IDLE' };
+          return true;
+        }
+        return null;
+
+      case 'AWAITING_STILLNESS': {
+        const sinceImpact = t - phase.impactAt;
+        if (sinceImpact <= config.settleMs) {
+          phase.peakImpactG = Math.max(phase.peakImpactG, g);
+          return null;
+        }
+        if (sinceImpact > config.maxStillnessWaitMs) {
+          // Moving again: picked up, or the person got back up.
+          phase = { kind: 'IDLE' };
+          return true;
+        }
+        if (Math.abs(g - 1) > config.stillnessToleranceG) {
+          phase.stillSince = null;
+          return null;
+        }
+        phase.stillSince ??= t;
+        if (t - phase.stillSince < config.stillnessMs) return null;
+
+        const detection: FallDetection = {
+          freeFallStartedAt: phase.freeFallStartedAt,
+          freeFallMs: phase.freeFallMs,
+          impactAt: phase.impactAt,
+          peakImpactG: phase.peakImpactG,
+          detectedAt: t,
+        };
+        phase = { kind: 'IDLE' };
+        return detection;
+      }
+    }
+  };
+
+  return {
+    push: (sample) => {
+      const g = accelerationMagnitude(sample);
+      let result = step(g, sample.timestamp);
+      while (result === true) {
+        result = step(g, sample.timestamp);
+      }
+      return result || null;
+    },
+    reset: () => {
+      phase = { kind: 'IDLE' };
+    },
+  };
+}
+
+/** Replay a recorded trace and return every fall found in it. */
+export function detectFallsInTrace(
+  samples: AccelerometerSample[],
+  config: Partial<FallDetectionConfig> = {}
+): FallDetection[] {
+  const detector = createFallDetector(config);
+  const falls: FallDetection[] = [];
+  for (const sample of samples) {
+    const fall = detector.push(sample);
+    if (fall) falls.push(fall);
+  }
+  return falls;
+}
@@ -0,0 +1,62 @@
+import { Platform } from 'react-native';
+import { accelerometer } from 'react-native-sensors';
+import { Subject } from 'rxjs';
+import { startFallDetection } from './fallDetectionService';
+import type { AccelerometerSample } from './fallDetection';
+
+const readings = accelerometer as unknown as Subject<AccelerometerSample>;
+
+/** A 50Hz fall on the z axis: standing, free fall, impact, lying still. */
+function fallReadings(scale: number): AccelerometerSample[] {
+  const segments: Array<[number, number]> = [
+    [1000, 1],
+    [300, 0.1],
+    [60, 3.4],
+    [4000, 1],
+  ];
+  const samples: AccelerometerSample[] = [];
+  let t = 0;
+  for (const [duration, g] of segments) {
+    for (let elapsed = 0; elapsed < duration; elapsed += 20) {
+      samples.push({ x: 0, y: 0, z: g * scale, timestamp: t });
+      t += 20;
+    }
+  }
+  return samples;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('detects a fall from Android readings in m/s²', () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  const onFall = jest.fn();
+  const stop = startFallDetection(onFall);
+
+  fallReadings(9.80665).forEach((reading) => readings.next(reading));
+  stop();
+
+  expect(onFall).toHaveBeenCalledTimes(1);
+  expect(onFall.mock.calls[0][0].peakImpactG).toBeCloseTo(3.4);
+});
+
+it('detects a fall from iOS readings in g', () => {
+  jest.replaceProperty(Platform, 'OS', 'ios');
+  const onFall = jest.fn();
+  const stop = startFallDetection(onFall);
+
+  fallReadings(1).forEach((reading) => readings.next(reading));
+  stop();
+
+  expect(onFall).toHaveBeenCalledTimes(1);
+});
+
+it('stops listening once stopped', () => {
+  const onFall = jest.fn();
+  startFallDetection(onFall)();
+
+  fallReadings(1).forEach((reading) => readings.next(reading));
+
+  expect(onFall).not.toHaveBeenCalled();
+});
@@ -0,0 +1,61 @@
+/**
+ * Fall Detection Service
+ * Streams accelerometer samples from react-native-sensors into the fall
+ * detector while fall detection is switched on
+ */
+
+import { Platform } from 'react-native';
+import { accelerometer, SensorTypes, setUpdateIntervalForType } from 'react-native-sensors';
+import { firstValueFrom } from 'rxjs';
+import { AccelerometerSample, FallDetection, createFallDetector } from './fallDetection';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('FallDetection');
+
+/** 50Hz: fast enough to catch a free fall of a few tens of milliseconds. */
+const SAMPLE_INTERVAL_MS = 20;
+
+/** Android reports acceleration in m/s²; iOS already reports it in g. */
+const STANDARD_GRAVITY = 9.80665;
+
+function toSample(reading: AccelerometerSample): AccelerometerSample {
+  if (Platform.OS !== 'android') return reading;
+  return {
+    x: reading.x / STANDARD_GRAVITY,
+    y: reading.y / STANDARD_GRAVITY,
+    z: reading.z / STANDARD_GRAVITY,
+    timestamp: reading.timestamp,
+  };
+}
+
+/** False on devices without an accelerometer. */
+export function isFallDetectionAvailable(): Promise<boolean> {
+  return firstValueFrom(accelerometer).then(
+    () => true,
+    () => false
+  );
+}
+
+/** Start listening for falls. Returns a function that stops the sensor. */
+export function startFallDetection(onFall: (fall: FallDetection) => void): () => void {
+  const detector = createFallDetector();
+  setUpdateIntervalForType(SensorTypes.accelerometer, SAMPLE_INTERVAL_MS);
+
+  const subscription = accelerometer.subscribe({
+    next: (reading) => {
+      const fall = detector.push(toSample(reading));
+      if (fall) {
+        logger.info('Fall detected', {
+          peakImpactG: fall.peakImpactG,
+          freeFallMs: fall.freeFallMs,
+        });
+        onFall(fall);
+      }
+    },
+    error: (error) => {
+      logger.warn('Accelerometer unavailable; fall detection stopped', { error: String(error) });
+    },
+  });
+
+  return () => subscription.unsubscribe();
+}
@@ -0,0 +1,150 @@
+import {
+  MAX_FIX_ACCURACY_METERS,
+  evaluateGeofence,
+  isWithinAllowedHours,
+  locateInZone,
+  replayGeofence,
+  GeofenceFix,
+} from './geofence';
+import { ALL_WEEKDAYS, SafeZone } from '../types';
+
+const HOME = { lat: 40.7128, lng: -74.006 };
+
+const home: SafeZone = {
+  id: 'home',
+  memberId: 'member-1',
+  name: 'Home',
+  center: HOME,
+  radiusMeters: 100,
+  // Walks are fine during the day.
+  allowedHours: [{ id: 'day', start: '09:00', end: '18:00', daysOfWeek: ALL_WEEKDAYS }],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+/** A fix `metersNorth` of home at a local time on Monday 5 January 2026. */
+function fix(metersNorth: number, hour: number, minute = 0, accuracy = 10): GeofenceFix {
+  return {
+    lat: HOME.lat + metersNorth / 111195,
+    lng: HOME.lng,
+    accuracy,
+    timestamp: new Date(2026, 0, 5, hour, minute).getTime(),
+  };
+}
+
+describe('locateInZone', () => {
+  it('needs a clear margin past the radius before calling a fix outside', () => {
+    expect(locateInZone(home, fix(60, 12))).toBe('INSIDE');
+    expect(locateInZone(home, fix(115, 12), 'INSIDE')).toBe('INSIDE');
+    expect(locateInZone(home, fix(160, 12), 'INSIDE')).toBe('OUTSIDE');
+    // 160 m away but only good to 50 m: could still be at the edge.
+    expect(locateInZone(home, fix(160, 12, 0, 50), 'INSIDE')).toBe('INSIDE');
+  });
+
+  it('ignores fixes that are too vague to tell', () => {
+    expect(locateInZone(home, fix(500, 12, 0, MAX_FIX_ACCURACY_METERS + 1), 'INSIDE')).toBeNull();
+  });
+});
+
+describe('isWithinAllowedHours', () => {
+  it('checks the weekday and time of the allowed hours', () => {
+    const weekdays: SafeZone = {
+      ...home,
+      allowedHours: [{ id: 'w', start: '09:00', end: '17:00', daysOfWeek: [1, 2, 3, 4, 5] }],
+    };
+
+    expect(isWithinAllowedHours(weekdays, new Date(2026, 0, 5, 10, 0))).toBe(true); // Monday
+    expect(isWithinAllowedHours(weekdays, new Date(2026, 0, 5, 17, 0))).toBe(false);
+    expect(isWithinAllowedHours(weekdays, new Date(2026, 0, 4, 10, 0))).toBe(false); // Sunday
+  });
+
+  it('carries overnight hours into the next morning', () => {
+    const nights: SafeZone = {
+      ...home,
+      allowedHours: [{ id: 'n', start: '22:00', end: '02:00', daysOfWeek: [5] }], // Friday
+    };
+
+    expect(isWithinAllowedHours(nights, new Date(2026, 0, 9, 23, 0))).toBe(true);
+    expect(isWithinAllowedHours(nights, new Date(2026, 0, 10, 1, 30))).toBe(true);
+    expect(isWithinAllowedHours(nights, new Date(2026, 0, 10, 23, 0))).toBe(false);
+  });
+});
+
+describe('evaluateGeofence', () => {
+  it('sets the first status without reporting a transition', () => {
+    const result = evaluateGeofence([home], {}, fix(0, 2));
+
+    expect(result.transitions).toEqual([]);
+    expect(result.presence.home).toMatchObject({ status: 'INSIDE', alertOpen: false });
+  });
+
+  it('keeps the presence of zones the fix says nothing about', () => {
+    const { presence } = evaluateGeofence([home], {}, fix(0, 2));
+    const result = evaluateGeofence([home], presence, fix(400, 3, 0, 500));
+
+    expect(result.presence).toEqual(presence);
+    expect(result.transitions).toEqual([]);
+  });
+});
+
+describe('replayGeofence', () => {
+  it('alerts when the member wanders off at night and again when they are back', () => {
+    const transitions = replayGeofence(
+      [home],
+      [
+        fix(0, 2, 0),
+        fix(40, 2, 5),
+        fix(110, 2, 8),
+        fix(300, 2, 10),
+        fix(600, 2, 20),
+        fix(20, 2, 45),
+      ]
+    );
+
+    expect(transitions.map(({ kind, alert }) => ({ kind, alert }))).toEqual([
+      { kind: 'EXIT', alert: true },
+      { kind: 'ENTER', alert: true },
+    ]);
+    expect(transitions[0].at).toEqual(new Date(2026, 0, 5, 2, 10));
+  });
+
+  it('records but does not alert a daytime walk', () => {
+    const transitions = replayGeofence(
+      [home],
+      [fix(0, 10, 0), fix(300, 10, 5), fix(800, 10, 30), fix(0, 11, 0)]
+    );
+
+    expect(transitions.map(({ kind, alert }) => ({ kind, alert }))).toEqual([
+      { kind: 'EXIT', alert: false },
+      { kind: 'ENTER', alert: false },
+    ]);
+  });
+
+  it('does not flap on GPS noise around the edge', () => {
+    const track = [90, 110, 95, 120, 105, 99, 118].map((meters, i) => fix(meters, 3, i));
+
+    expect(replayGeofence([home], track)).toEqual([]);
+  });
+
+  it('evaluates each zone separately', () => {
+    const dayCare: SafeZone = {
+      ...home,
+      id: 'day-care',
+      name: 'Day care',
+      center: { lat: HOME.lat + 1000 / 111195, lng: HOME.lng },
+      radiusMeters: 150,
+      allowedHours: [],
+    };
+
+    // Walk from home to day care in the afternoon.
+    const transitions = replayGeofence(
+      [home, dayCare],
+      [fix(0, 13, 0), fix(500, 13, 10), fix(1000, 13, 20)]
+    );
+
+    expect(transitions.map(({ zoneId, kind, alert }) => ({ zoneId, kind, alert }))).toEqual([
+      { zoneId: 'home', kind: 'EXIT', alert: false },
+      { zoneId: 'day-care', kind: 'ENTER', alert: false },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Geofence
+ * Pure evaluation of location fixes against a member's safe zones. GPS
+ * wanders, so a fix only counts as leaving once it is clearly outside the
+ * zone — beyond the radius plus a buffer, even allowing for its accuracy —
+ * and fixes too vague to tell are ignored.
+ */
+
+import { distanceInMeters, SafeZone, SafeZoneHours, SafeZonePresence } from '../types';
+import { formatScheduledTime, formatWindowDays } from './checkInService';
+
+/** Extra distance past the radius before a fix counts as having left. */
+export const ZONE_EXIT_BUFFER_METERS = 25;
+
+/** Fixes less accurate than this say nothing about being in or out. */
+export const MAX_FIX_ACCURACY_METERS = 150;
+
+export const SAFE_ZONE_RADIUS_OPTIONS = [100, 250, 500, 1000];
+
+export type GeofenceFix = {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  timestamp: number;
+};
+
+export type ZoneTransition = {
+  zoneId: string;
+  kind: 'ENTER' | 'EXIT';
+  at: Date;
+  fix: GeofenceFix;
+  /**
+   * Exits alert outside the zone's allowed hours; an entry alerts when it
+   * follows an alerted exit, so contacts hear the member is back.
+   */
+  alert: boolean;
+};
+
+export type GeofenceResult = {
+  presence: Record<string, SafeZonePresence>;
+  transitions: ZoneTransition[];
+};
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function coversTime(hours: SafeZoneHours, at: Date): boolean {
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const today = at.getDay();
+  const yesterday = (today + 6) % 7;
+
+  if (start <= end) {
+    return hours.daysOfWeek.includes(today) && minute >= start && minute < end;
+  }
+  // Runs past midnight: the late part belongs to today, the early part to yesterday.
+  return (
+    (hours.daysOfWeek.includes(today) && minute >= start) ||
+    (hours.daysOfWeek.includes(yesterday) && minute < end)
+  );
+}
+
+/**
+ * The zones this device watches: those of the member who carries it. Another
+ * member's zones say nothing about where this phone is, and with nobody
+ * chosen there is nothing to watch.
+ */
+export function watchedSafeZones(zones: SafeZone[], deviceMemberId: string | null): SafeZone[] {
+  if (!deviceMemberId) return [];
+  return zones.filter((zone) => zone.memberId === deviceMemberId);
+}
+
+/** Whether the member may leave the zone at this time without an alert. */
+export function isWithinAllowedHours(zone: SafeZone, at: Date): boolean {
+  return zone.allowedHours.some((hours) => coversTime(hours, at));
+}
+
+/**
+ * Where a fix puts the member relative to one zone. Returns null when the fix
+ * cannot tell, in which case the previous status stands.
+ */
+export function locateInZone(
+  zone: SafeZone,
+  fix: GeofenceFix,
+  previous: SafeZonePresence['status'] | null = null
+): SafeZonePresence['status'] | null {
+  const accuracy = fix.accuracy ?? 0;
+  if (accuracy > MAX_FIX_ACCURACY_METERS) return null;
+
+  const distance = distanceInMeters(zone.center, fix);
+  if (distance <= zone.radiusMeters) return 'INSIDE';
+  if (distance - accuracy > zone.radiusMeters + ZONE_EXIT_BUFFER_METERS) return 'OUTSIDE';
+  // Between the edge and the buffer: keep what we had, or call it outside on a first fix.
+  return previous ?? 'OUTSIDE';
+}
+
+/**
+ * Apply one fix to every zone. The first decisive fix for a zone only sets
+ * its status; transitions are reported from then on.
+ */
+export function evaluateGeofence(
+  zones: SafeZone[],
+  presence: Record<string, SafeZonePresence>,
+  fix: GeofenceFix
+): GeofenceResult {
+  const at = new Date(fix.timestamp);
+  const next: Record<string, SafeZonePresence> = {};
+  const transitions: ZoneTransition[] = [];
+
+  for (const zone of zones) {
+    const current = presence[zone.id];
+    const status = locateInZone(zone, fix, current?.status ?? null);
+
+    if (!status || status === current?.status) {
+      if (current) next[zone.id] = current;
+      continue;
+    }
+    if (!current) {
+      next[zone.id] = { status, since: at.toISOString(), alertOpen: false };
+      continue;
+    }
+
+    const alert = status === 'OUTSIDE' ? !isWithinAllowedHours(zone, at) : current.alertOpen;
+    next[zone.id] = {
+      status,
+      since: at.toISOString(),
+      alertOpen: status === 'OUTSIDE' && alert,
+    };
+    transitions.push({
+      zoneId: zone.id,
+      kind: status === 'OUTSIDE' ? 'EXIT' : 'ENTER',
+      at,
+      fix,
+      alert,
+    });
+  }
+
+  return { presence: next, transitions };
+}
+
+/** Run a recorded track through the evaluator, oldest fix first. */
+export function replayGeofence(
+  zones: SafeZone[],
+  fixes: GeofenceFix[],
+  initialPresence: Record<string, SafeZonePresence> = {}
+): ZoneTransition[] {
+  let presence = initialPresence;
+  const transitions: ZoneTransition[] = [];
+  for (const fix of fixes) {
+    const result = evaluateGeofence(zones, presence, fix);
+    presence = result.presence;
+    transitions.push(...result.transitions);
+  }
+  return transitions;
+}
+
+/** "250 m" / "1 km" */
+export function describeSafeZoneRadius(radiusMeters: number): string {
+  return radiusMeters >= 1000 ? `${radiusMeters / 1000} km` : `${radiusMeters} m`;
+}
+
+/** "9:00 AM – 6:00 PM, Weekdays" */
+export function describeSafeZoneHours(hours: SafeZoneHours): string {
+  const time = `${formatScheduledTime(hours.start)} – ${formatScheduledTime(hours.end)}`;
+  return `${time}, ${formatWindowDays(hours.daysOfWeek)}`;
+}
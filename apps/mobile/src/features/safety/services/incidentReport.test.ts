@@ -0,0 +1,118 @@
+import {
+  buildIncidentReport,
+  formatIncidentReportText,
+  renderIncidentReportPdf,
+  serializeIncidentReport,
+} from './incidentReport';
+import { SafetyEvent, SafetyEventMetadata, SafetyEventType } from '../types';
+
+function event(
+  id: string,
+  type: SafetyEventType,
+  timestamp: string,
+  metadata: SafetyEventMetadata = {}
+): SafetyEvent {
+  return { id, type, userId: 'guest', timestamp, metadata };
+}
+
+const events: SafetyEvent[] = [
+  event('late', 'CHECKIN_CONFIRMED', '2026-03-09T10:00:00.000Z'),
+  event('escalated', 'ESCALATION_STEP_STARTED', '2026-03-02T08:01:00.000Z', {
+    contactsNotified: ['Priya'],
+    escalation: { escalationId: 'esc-1', step: 'PRIMARY_CONTACT' },
+  }),
+  event('sos', 'SOS_TRIGGERED', '2026-03-02T08:00:00.000Z', {
+    location: { lat: 40.7128, lng: -74.006, accuracy: 12 },
+    delivery: { status: 'SENT', serverEventId: 'srv-42' },
+  }),
+  event('test', 'TEST_ALERT_SENT', '2026-03-02T07:00:00.000Z'),
+  event('zone', 'ZONE_EXITED', '2026-03-03T02:10:00.000Z', {
+    contactsNotified: ['Priya', 'Sam'],
+    zone: { zoneId: 'home', zoneName: 'Home', memberName: 'Asha', alerted: true },
+    delivery: { status: 'QUEUED' },
+  }),
+  event('missed', 'CHECKIN_MISSED', '2026-03-04T10:30:00.000Z'),
+  event('before', 'SOS_TRIGGERED', '2026-02-20T08:00:00.000Z'),
+];
+
+const report = buildIncidentReport({
+  events,
+  from: new Date('2026-03-01T00:00:00.000Z'),
+  to: new Date('2026-03-08T00:00:00.000Z'),
+  subjectName: 'Asha',
+  historyComplete: true,
+  generatedAt: new Date('2026-03-08T12:00:00.000Z'),
+});
+
+describe('buildIncidentReport', () => {
+  it('keeps the period’s events, oldest first, without test alerts', () => {
+    expect(report.entries.map((entry) => entry.eventId)).toEqual([
+      'sos',
+      'escalated',
+      'zone',
+      'missed',
+    ]);
+  });
+
+  it('records who was alerted and what the server confirmed', () => {
+    const [sos, escalated, zone, missed] = report.entries;
+
+    expect(sos.delivery).toEqual({ status: 'SENT', serverEventId: 'srv-42' });
+    expect(sos.location?.mapsLink).toBe('https://maps.google.com/?q=40.7128,-74.006');
+    expect(escalated.contactsNotified).toEqual(['Priya']);
+    expect(zone.delivery).toEqual({ status: 'QUEUED', serverEventId: null });
+    expect(missed.delivery.status).toBe('NONE');
+  });
+
+  it('summarises the period', () => {
+    expect(report.summary).toEqual({
+      sosAlerts: 1,
+      fallsDetected: 0,
+      checkIns: 0,
+      missedCheckIns: 1,
+      safeZoneAlerts: 1,
+      contactsNotified: ['Priya', 'Sam'],
+    });
+  });
+
+  it('counts check-ins as confirmed by the server', () => {
+    const week = buildIncidentReport({
+      events,
+      from: new Date('2026-03-09T00:00:00.000Z'),
+      to: new Date('2026-03-10T00:00:00.000Z'),
+      subjectName: 'Asha',
+      historyComplete: true,
+    });
+
+    expect(week.entries[0].delivery.status).toBe('SENT');
+  });
+});
+
+describe('exports', () => {
+  it('serializes JSON with its format and every entry', () => {
+    const json = JSON.parse(serializeIncidentReport(report));
+
+    expect(json.format).toBe('carebow.incident-report');
+    expect(json.version).toBe(1);
+    expect(json.entries).toHaveLength(4);
+    expect(json.entries[0].delivery.serverEventId).toBe('srv-42');
+  });
+
+  it('says when only the device history was available', () => {
+    const partial = { ...report, historyComplete: false };
+
+    expect(formatIncidentReportText(partial)).toContain('could not be reached');
+    expect(formatIncidentReportText(report)).not.toContain('could not be reached');
+  });
+
+  it('renders the timeline into the PDF', () => {
+    const pdf = Array.from(renderIncidentReportPdf(report), (byte) =>
+      String.fromCharCode(byte)
+    ).join('');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Incident Report) Tj');
+    expect(pdf).toContain('(Delivery: Accepted by CareBow \\(ref srv-42\\)) Tj');
+    expect(pdf).toContain('(Notified: Priya, Sam) Tj');
+  });
+});
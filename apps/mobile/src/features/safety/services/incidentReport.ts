@@ -0,0 +1,364 @@
+/**
+ * Incident Report
+ * Turns safety history into a record a family can hand to a doctor, a care
+ * home or the police: what happened in a period, who was alerted, and
+ * whether CareBow's server confirmed each alert. Pure; the screen fetches
+ * the history and shares the files.
+ */
+
+import { PdfBlock, renderPdf } from '@/lib/pdf';
+import {
+  ESCALATION_STEP_LABELS,
+  SafetyEvent,
+  SafetyEventDelivery,
+  SafetyEventType,
+} from '../types';
+import { formatDisplayTime } from './checkInService';
+import { createMapsLink } from './locationService';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** NONE: the event sent nothing through CareBow, or this build did not track it. */
+export type IncidentDeliveryStatus = SafetyEventDelivery['status'] | 'NONE';
+
+export type IncidentReportEntry = {
+  eventId: string;
+  type: SafetyEventType;
+  occurredAt: string;
+  title: string;
+  description: string;
+  location: { lat: number; lng: number; accuracy: number | null; mapsLink: string } | null;
+  contactsNotified: string[];
+  delivery: { status: IncidentDeliveryStatus; serverEventId: string | null };
+};
+
+export type IncidentReport = {
+  subjectName: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  /**
+   * False when the account's history could not be fetched, so the report
+   * holds only what this device still has.
+   */
+  historyComplete: boolean;
+  summary: {
+    sosAlerts: number;
+    fallsDetected: number;
+    checkIns: number;
+    missedCheckIns: number;
+    safeZoneAlerts: number;
+    /** Everyone alerted in the period, in the order they were first alerted. */
+    contactsNotified: string[];
+  };
+  /** Oldest first. */
+  entries: IncidentReportEntry[];
+};
+
+export type IncidentReportInput = {
+  events: SafetyEvent[];
+  from: Date;
+  to: Date;
+  subjectName: string;
+  historyComplete: boolean;
+  generatedAt?: Date;
+};
+
+/** JSON exports carry this so other tools can tell what they are reading. */
+export const INCIDENT_REPORT_FORMAT = 'carebow.incident-report';
+export const INCIDENT_REPORT_VERSION = 1;
+
+// ============================================
+// EVENTS
+// ============================================
+
+/** Test alerts are practice, not part of an incident. */
+const EXCLUDED_TYPES: SafetyEventType[] = ['TEST_ALERT_SENT'];
+
+function describeEvent(event: SafetyEvent): { title: string; description: string } {
+  const { metadata } = event;
+  const names = metadata.contactsNotified?.length ? metadata.contactsNotified.join(', ') : null;
+  const step = metadata.escalation?.step;
+
+  switch (event.type) {
+    case 'SOS_TRIGGERED':
+      return {
+        title: 'SOS triggered',
+        description: metadata.location
+          ? 'Emergency alert sent with location'
+          : 'Emergency alert sent without location',
+      };
+    case 'CHECKIN_CONFIRMED':
+      return {
+        title: 'Checked in',
+        description: metadata.wasLate
+          ? 'Check-in completed after the deadline'
+          : 'Check-in completed',
+      };
+    case 'CHECKIN_MISSED':
+      return { title: 'Check-in missed', description: 'The check-in deadline passed' };
+    case 'TEST_ALERT_SENT':
+      return { title: 'Test alert', description: 'Test notification sent to contacts' };
+    case 'ESCALATION_STEP_STARTED':
+      return {
+        title: 'SOS escalated',
+        description:
+          step === 'EMERGENCY_SERVICES'
+            ? 'Emergency services prompted'
+            : `Alerting ${
+                names ?? (step ? ESCALATION_STEP_LABELS[step].toLowerCase() : 'contacts')
+              }`,
+      };
+    case 'ESCALATION_STEP_TIMED_OUT':
+      return {
+        title: 'No response',
+        description: `No acknowledgement from ${names ?? 'the contacts alerted'}`,
+      };
+    case 'ESCALATION_ACKNOWLEDGED':
+      return {
+        title: 'SOS acknowledged',
+        description: `${metadata.escalation?.acknowledgedBy ?? 'A contact'} acknowledged the SOS`,
+      };
+    case 'ESCALATION_CANCELLED':
+      return { title: 'Escalation stopped', description: 'Marked safe on the device' };
+    case 'LIVE_LOCATION_STARTED':
+      return {
+        title: 'Live location shared',
+        description: names ? `Link sent to ${names}` : 'Live location link created',
+      };
+    case 'LIVE_LOCATION_ENDED': {
+      const { endReason, updatesSent = 0 } = metadata.liveLocation ?? {};
+      const reason = endReason === 'EXPIRED' ? 'Session time ran out' : 'Stopped on the device';
+      return {
+        title: 'Live location ended',
+        description: `${reason}; ${updatesSent} update${updatesSent === 1 ? '' : 's'} shared`,
+      };
+    }
+    case 'FALL_DETECTED': {
+      const impact = metadata.fall ? `Impact of ${metadata.fall.peakImpactG.toFixed(1)} g; ` : '';
+      return {
+        title: 'Fall detected',
+        description: `${impact}no response to the countdown, SOS started`,
+      };
+    }
+    case 'ZONE_EXITED': {
+      const { zone } = metadata;
+      const left = `${zone?.memberName ?? 'Member'} left ${zone?.zoneName ?? 'a safe zone'}`;
+      return {
+        title: 'Left safe zone',
+        description: zone?.alerted
+          ? `${left} outside allowed hours`
+          : `${left} during allowed hours`,
+      };
+    }
+    case 'ZONE_ENTERED': {
+      const { zone } = metadata;
+      return {
+        title: 'Back in safe zone',
+        description: `${zone?.memberName ?? 'Member'} arrived at ${
+          zone?.zoneName ?? 'a safe zone'
+        }`,
+      };
+    }
+  }
+}
+
+function deliveryOf(event: SafetyEvent): IncidentReportEntry['delivery'] {
+  const { delivery } = event.metadata;
+  if (delivery) {
+    return { status: delivery.status, serverEventId: delivery.serverEventId ?? null };
+  }
+  // Check-ins are only recorded once the server has confirmed them.
+  if (event.type === 'CHECKIN_CONFIRMED') return { status: 'SENT', serverEventId: null };
+  return { status: 'NONE', serverEventId: null };
+}
+
+function toEntry(event: SafetyEvent): IncidentReportEntry {
+  const { location } = event.metadata;
+  return {
+    eventId: event.id,
+    type: event.type,
+    occurredAt: event.timestamp,
+    ...describeEvent(event),
+    location: location
+      ? { ...location, mapsLink: createMapsLink(location.lat, location.lng) }
+      : null,
+    contactsNotified: event.metadata.contactsNotified ?? [],
+    delivery: deliveryOf(event),
+  };
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+export function buildIncidentReport(input: IncidentReportInput): IncidentReport {
+  const from = input.from.getTime();
+  const to = input.to.getTime();
+  const events = input.events
+    .filter((event) => {
+      const at = new Date(event.timestamp).getTime();
+      return at >= from && at <= to && !EXCLUDED_TYPES.includes(event.type);
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const entries = events.map(toEntry);
+
+  const count = (type: SafetyEventType) => events.filter((event) => event.type === type).length;
+  const contactsNotified: string[] = [];
+  for (const entry of entries) {
+    for (const name of entry.contactsNotified) {
+      if (!contactsNotified.includes(name)) contactsNotified.push(name);
+    }
+  }
+
+  return {
+    subjectName: input.subjectName,
+    from: input.from.toISOString(),
+    to: input.to.toISOString(),
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    historyComplete: input.historyComplete,
+    summary: {
+      sosAlerts: count('SOS_TRIGGERED'),
+      fallsDetected: count('FALL_DETECTED'),
+      checkIns: count('CHECKIN_CONFIRMED'),
+      missedCheckIns: count('CHECKIN_MISSED'),
+      safeZoneAlerts: events.filter(
+        (event) => event.type === 'ZONE_EXITED' && event.metadata.zone?.alerted
+      ).length,
+      contactsNotified,
+    },
+    entries,
+  };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export const INCIDENT_DELIVERY_LABELS: Record<IncidentDeliveryStatus, string> = {
+  SENT: 'Accepted by CareBow',
+  QUEUED: 'Saved on the device, waiting to reach CareBow',
+  FAILED: 'Not confirmed by CareBow',
+  NONE: 'Recorded on the device',
+};
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  return `${formatDate(date)}, ${formatDisplayTime(date)}`;
+}
+
+function describeDelivery(delivery: IncidentReportEntry['delivery']): string {
+  const label = INCIDENT_DELIVERY_LABELS[delivery.status];
+  return delivery.serverEventId ? `${label} (ref ${delivery.serverEventId})` : label;
+}
+
+function describeLocation(location: NonNullable<IncidentReportEntry['location']>): string {
+  const accuracy = location.accuracy !== null ? ` (±${Math.round(location.accuracy)} m)` : '';
+  return `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}${accuracy} – ${location.mapsLink}`;
+}
+
+function summaryLines(report: IncidentReport): string[] {
+  const { summary } = report;
+  return [
+    `SOS alerts: ${summary.sosAlerts}`,
+    `Falls detected: ${summary.fallsDetected}`,
+    `Check-ins: ${summary.checkIns} completed, ${summary.missedCheckIns} missed`,
+    `Safe zone alerts: ${summary.safeZoneAlerts}`,
+    `Contacts alerted: ${
+      summary.contactsNotified.length > 0 ? summary.contactsNotified.join(', ') : 'none'
+    }`,
+  ];
+}
+
+function entryLines(entry: IncidentReportEntry): string[] {
+  return [
+    entry.description,
+    entry.location ? `Location: ${describeLocation(entry.location)}` : null,
+    entry.contactsNotified.length > 0 ? `Notified: ${entry.contactsNotified.join(', ')}` : null,
+    `Delivery: ${describeDelivery(entry.delivery)}`,
+  ].filter((line): line is string => line !== null);
+}
+
+function periodLine(report: IncidentReport): string {
+  return `${formatDateTime(report.from)} to ${formatDateTime(report.to)}`;
+}
+
+const INCOMPLETE_NOTE =
+  "CareBow's copy of the history could not be reached; this report holds only the events still on the device.";
+
+export function serializeIncidentReport(report: IncidentReport): string {
+  return JSON.stringify(
+    { format: INCIDENT_REPORT_FORMAT, version: INCIDENT_REPORT_VERSION, ...report },
+    null,
+    2
+  );
+}
+
+/** Plain text, for share targets that cannot take a file. */
+export function formatIncidentReportText(report: IncidentReport): string {
+  const lines = [
+    `CareBow incident report – ${report.subjectName}`,
+    periodLine(report),
+    ...(report.historyComplete ? [] : [INCOMPLETE_NOTE]),
+    '',
+    ...summaryLines(report),
+  ];
+  for (const entry of report.entries) {
+    lines.push('', `${formatDateTime(entry.occurredAt)} – ${entry.title}`, ...entryLines(entry));
+  }
+  return lines.join('\n');
+}
+
+export function renderIncidentReportPdf(report: IncidentReport): Uint8Array {
+  const blocks: PdfBlock[] = [
+    { kind: 'text', text: 'Incident Report', style: 'title' },
+    { kind: 'text', text: report.subjectName, style: 'heading' },
+    { kind: 'text', text: periodLine(report), style: 'muted' },
+    { kind: 'text', text: `Generated ${formatDateTime(report.generatedAt)}`, style: 'muted' },
+  ];
+  if (!report.historyComplete) {
+    blocks.push({ kind: 'spacer' }, { kind: 'text', text: INCOMPLETE_NOTE, style: 'bold' });
+  }
+
+  blocks.push({ kind: 'spacer', height: 12 }, { kind: 'text', text: 'Summary', style: 'heading' });
+  for (const line of summaryLines(report)) blocks.push({ kind: 'text', text: line });
+
+  blocks.push({ kind: 'spacer', height: 12 }, { kind: 'text', text: 'Timeline', style: 'heading' });
+  if (report.entries.length === 0) {
+    blocks.push({ kind: 'text', text: 'No safety events in this period.', style: 'muted' });
+  }
+  for (const entry of report.entries) {
+    blocks.push(
+      { kind: 'rule' },
+      { kind: 'text', text: `${formatDateTime(entry.occurredAt)} – ${entry.title}`, style: 'bold' },
+      ...entryLines(entry).map((text): PdfBlock => ({ kind: 'text', text }))
+    );
+  }
+
+  return renderPdf(blocks, {
+    title: `CareBow incident report – ${report.subjectName}`,
+    author: 'CareBow',
+    createdAt: new Date(report.generatedAt),
+  });
+}
+
+/** "carebow-incident-2026-03-01-to-2026-03-08" */
+export function incidentReportFilename(report: IncidentReport): string {
+  const day = (iso: string) => {
+    const date = new Date(iso);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  };
+  return `carebow-incident-${day(report.from)}-to-${day(report.to)}`;
+}
@@ -5,4 +5,17 @@
 export * from './notificationService';
 export * from './locationService';
 export * from './checkInService';
+export * from './checkInReminders';
 export * from './sosService';
+export * from './escalationLadder';
+export * from './escalationService';
+export * from './liveLocationPolicy';
+export * from './liveLocationService';
+export * from './backgroundLocation';
+export * from './caregiverService';
+export * from './fallDetection';
+export * from './fallDetectionService';
+export * from './geofence';
+export * from './safeZoneService';
+export * from './safetyHistory';
+export * from './incidentReport';
@@ -0,0 +1,132 @@
+import {
+  BACKGROUND_THROTTLE_FACTOR,
+  LOW_BATTERY_THROTTLE_FACTOR,
+  MAX_THROTTLE_FACTOR,
+  createLiveLocationSession,
+  isLiveLocationExpired,
+  nextLiveLocationCadence,
+  resolveLiveLocationSettings,
+} from './liveLocationPolicy';
+import type { LiveLocationPower } from './liveLocationPolicy';
+import type { LiveLocationFix } from '../types';
+
+const here: LiveLocationFix = { lat: 40.7128, lng: -74.006, accuracy: 10, timestamp: 0 };
+// About 11 meters north: within GPS noise.
+const nearby: LiveLocationFix = { ...here, lat: 40.7129, timestamp: 60000 };
+// About 220 meters north.
+const moved: LiveLocationFix = { ...here, lat: 40.7148, timestamp: 120000 };
+
+const charged: LiveLocationPower = { batteryLevel: 0.8, charging: false, lowPowerMode: false };
+const low: LiveLocationPower = { batteryLevel: 0.15, charging: false, lowPowerMode: false };
+
+const cadence = (overrides: Partial<Parameters<typeof nextLiveLocationCadence>[0]>) =>
+  nextLiveLocationCadence({
+    baseIntervalSeconds: 60,
+    currentIntervalSeconds: 60,
+    previousFix: here,
+    fix: nearby,
+    appActive: true,
+    power: charged,
+    ...overrides,
+  });
+
+describe('nextLiveLocationCadence', () => {
+  it('backs off with coarse fixes while the person stays put, up to a cap', () => {
+    expect(cadence({})).toEqual({ intervalSeconds: 120, highAccuracy: false });
+    expect(cadence({ currentIntervalSeconds: 480 })).toEqual({
+      intervalSeconds: 60 * MAX_THROTTLE_FACTOR,
+      highAccuracy: false,
+    });
+  });
+
+  it('snaps back to the configured interval with GPS once they move', () => {
+    expect(cadence({ currentIntervalSeconds: 480, fix: moved })).toEqual({
+      intervalSeconds: 60,
+      highAccuracy: true,
+    });
+  });
+
+  it('treats movement inside a poor fix accuracy as standing still', () => {
+    expect(cadence({ fix: { ...moved, accuracy: 500 } }).highAccuracy).toBe(false);
+  });
+
+  it('retries at the configured interval when no fix could be sent', () => {
+    expect(cadence({ currentIntervalSeconds: 240, fix: null })).toEqual({
+      intervalSeconds: 60,
+      highAccuracy: true,
+    });
+  });
+
+  it('keeps updating in the background, less often', () => {
+    expect(cadence({ fix: moved, appActive: false })).toEqual({
+      intervalSeconds: 60 * BACKGROUND_THROTTLE_FACTOR,
+      highAccuracy: true,
+    });
+    // Already slower than the background floor while standing still.
+    expect(cadence({ currentIntervalSeconds: 240, appActive: false }).intervalSeconds).toBe(480);
+  });
+
+  it('slows down on a low battery or in low power mode', () => {
+    expect(cadence({ fix: moved, power: low }).intervalSeconds).toBe(
+      60 * LOW_BATTERY_THROTTLE_FACTOR
+    );
+    const powerSaving = { ...charged, lowPowerMode: true };
+    expect(cadence({ fix: moved, power: powerSaving }).intervalSeconds).toBe(
+      60 * LOW_BATTERY_THROTTLE_FACTOR
+    );
+  });
+
+  it('caps a low battery in the background at the longest interval', () => {
+    expect(cadence({ fix: moved, power: low, appActive: false }).intervalSeconds).toBe(
+      60 * MAX_THROTTLE_FACTOR
+    );
+  });
+
+  it('does not throttle for the battery while charging or when it is unknown', () => {
+    const charging = { ...low, charging: true };
+    const unreported = { ...low, batteryLevel: null };
+    expect(cadence({ fix: moved, power: charging }).intervalSeconds).toBe(60);
+    expect(cadence({ fix: moved, power: unreported }).intervalSeconds).toBe(60);
+    expect(cadence({ fix: moved, power: null }).intervalSeconds).toBe(60);
+  });
+});
+
+describe('live location session', () => {
+  it('is time-boxed by the server expiry', () => {
+    const now = new Date('2026-10-19T10:00:00.000Z');
+    const session = createLiveLocationSession(
+      {
+        id: 'live-1',
+        shareUrl: 'https://carebow.com/live/t0k3n',
+        expiresAt: '2026-10-19T11:00:00.000Z',
+      },
+      { sosEventId: 'sos-1', intervalSeconds: 60, firstFix: here },
+      now
+    );
+
+    expect(session).toMatchObject({ status: 'ACTIVE', updatesSent: 1, lastFix: here });
+    expect(isLiveLocationExpired(session, new Date('2026-10-19T10:59:59.000Z'))).toBe(false);
+    expect(isLiveLocationExpired(session, new Date('2026-10-19T11:00:00.000Z'))).toBe(true);
+  });
+});
+
+describe('resolveLiveLocationSettings', () => {
+  it('uses the configured interval and duration', () => {
+    expect(
+      resolveLiveLocationSettings({
+        liveLocationIntervalSeconds: 30,
+        liveLocationDurationMinutes: 15,
+      })
+    ).toEqual({ intervalSeconds: 30, durationMinutes: 15 });
+  });
+
+  it('falls back to the defaults for settings saved before live location existed', () => {
+    expect(resolveLiveLocationSettings({})).toEqual({ intervalSeconds: 60, durationMinutes: 60 });
+    expect(
+      resolveLiveLocationSettings({
+        liveLocationIntervalSeconds: NaN,
+        liveLocationDurationMinutes: 0,
+      })
+    ).toEqual({ intervalSeconds: 60, durationMinutes: 60 });
+  });
+});
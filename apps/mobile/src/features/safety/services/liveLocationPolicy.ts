@@ -0,0 +1,146 @@
+/**
+ * Live Location Policy
+ * Pure rules for a live-location session: when it ends and how often to take
+ * a fix. GPS is the main battery cost, so a person standing still is sampled
+ * less often and with coarse accuracy until they move again, and a phone
+ * running out of charge is sampled less often so it lasts the session.
+ */
+
+import {
+  DEFAULT_SAFETY_SETTINGS,
+  distanceInMeters,
+  LiveLocationFix,
+  LiveLocationSession,
+  SafetySettings,
+} from '../types';
+
+/** Movement below this (or the fix's accuracy, if worse) counts as standing still. */
+export const STATIONARY_RADIUS_METERS = 30;
+
+/** Throttled intervals never exceed this multiple of the configured interval. */
+export const MAX_THROTTLE_FACTOR = 8;
+
+/** While the app is in the background, updates are at least this much slower. */
+export const BACKGROUND_THROTTLE_FACTOR = 2;
+
+/** Battery at or below this fraction counts as low, unless the phone is charging. */
+export const LOW_BATTERY_LEVEL = 0.2;
+
+/** On a low battery, or in low power mode, updates are at least this much slower. */
+export const LOW_BATTERY_THROTTLE_FACTOR = 4;
+
+export type LiveLocationCadence = {
+  intervalSeconds: number;
+  highAccuracy: boolean;
+};
+
+export type LiveLocationPower = {
+  /** 0–1, or null when the device does not report it. */
+  batteryLevel: number | null;
+  charging: boolean;
+  lowPowerMode: boolean;
+};
+
+export function isLowOnPower(power: LiveLocationPower): boolean {
+  if (power.charging) return false;
+  return (
+    power.lowPowerMode || (power.batteryLevel !== null && power.batteryLevel <= LOW_BATTERY_LEVEL)
+  );
+}
+
+/**
+ * The interval and duration a session starts with. Settings saved before live
+ * location existed have neither, and an undefined interval would schedule
+ * every update immediately, so anything unusable falls back to the defaults.
+ */
+export function resolveLiveLocationSettings(
+  settings: Partial<
+    Pick<SafetySettings, 'liveLocationIntervalSeconds' | 'liveLocationDurationMinutes'>
+  >
+): { intervalSeconds: number; durationMinutes: number } {
+  const usable = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+  return {
+    intervalSeconds: usable(
+      settings.liveLocationIntervalSeconds,
+      DEFAULT_SAFETY_SETTINGS.liveLocationIntervalSeconds
+    ),
+    durationMinutes: usable(
+      settings.liveLocationDurationMinutes,
+      DEFAULT_SAFETY_SETTINGS.liveLocationDurationMinutes
+    ),
+  };
+}
+
+export function createLiveLocationSession(
+  server: { id: string; shareUrl: string; expiresAt: string },
+  options: { sosEventId: string | null; intervalSeconds: number; firstFix: LiveLocationFix | null },
+  now: Date = new Date()
+): LiveLocationSession {
+  return {
+    id: server.id,
+    sosEventId: options.sosEventId,
+    shareUrl: server.shareUrl,
+    startedAt: now.toISOString(),
+    expiresAt: server.expiresAt,
+    baseIntervalSeconds: options.intervalSeconds,
+    currentIntervalSeconds: options.intervalSeconds,
+    highAccuracy: true,
+    lastFix: options.firstFix,
+    lastSentAt: options.firstFix ? now.toISOString() : null,
+    updatesSent: options.firstFix ? 1 : 0,
+    status: 'ACTIVE',
+  };
+}
+
+export function isLiveLocationExpired(
+  session: LiveLocationSession,
+  now: Date = new Date()
+): boolean {
+  return now.getTime() >= new Date(session.expiresAt).getTime();
+}
+
+/**
+ * How long to wait before the next fix, and whether it needs GPS accuracy.
+ * Each stationary fix doubles the interval (up to MAX_THROTTLE_FACTOR); any
+ * real movement, or a failed fix, snaps back to the configured interval.
+ * Being in the background and being low on power each set a slower floor,
+ * and together never more than MAX_THROTTLE_FACTOR.
+ */
+export function nextLiveLocationCadence(input: {
+  baseIntervalSeconds: number;
+  currentIntervalSeconds: number;
+  previousFix: LiveLocationFix | null;
+  fix: LiveLocationFix | null;
+  appActive: boolean;
+  /** Null when the power state could not be read. */
+  power: LiveLocationPower | null;
+}): LiveLocationCadence {
+  const { baseIntervalSeconds, currentIntervalSeconds, previousFix, fix, appActive, power } = input;
+
+  let cadence: LiveLocationCadence;
+  if (!fix || !previousFix) {
+    cadence = { intervalSeconds: baseIntervalSeconds, highAccuracy: true };
+  } else {
+    const stillRadius = Math.max(STATIONARY_RADIUS_METERS, fix.accuracy ?? 0);
+    const isStationary = distanceInMeters(previousFix, fix) < stillRadius;
+    cadence = isStationary
+      ? {
+          intervalSeconds: Math.min(
+            currentIntervalSeconds * 2,
+            baseIntervalSeconds * MAX_THROTTLE_FACTOR
+          ),
+          highAccuracy: false,
+        }
+      : { intervalSeconds: baseIntervalSeconds, highAccuracy: true };
+  }
+
+  let floorFactor = 1;
+  if (!appActive) floorFactor *= BACKGROUND_THROTTLE_FACTOR;
+  if (power && isLowOnPower(power)) floorFactor *= LOW_BATTERY_THROTTLE_FACTOR;
+  cadence.intervalSeconds = Math.max(
+    cadence.intervalSeconds,
+    baseIntervalSeconds * Math.min(floorFactor, MAX_THROTTLE_FACTOR)
+  );
+  return cadence;
+}
@@ -0,0 +1,206 @@
+/**
+ * Live Location Service
+ * Runs a time-boxed live-location session during an SOS: takes fixes at the
+ * throttled cadence from liveLocationPolicy and pushes them to CareBow, which
+ * serves them behind the session's share link.
+ *
+ * The session keeps updating after the user leaves the app: the runner holds
+ * background location (backgroundLocation.ts) while it is active. If the OS
+ * still suspends the app, `resumeLiveLocation` picks it back up on foreground.
+ */
+
+import { AppState } from 'react-native';
+import DeviceInfo from 'react-native-device-info';
+import { safetyApi } from '@/services/api/endpoints/safety';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { LiveLocationFix, LiveLocationSession, SafetyContact, SafetySettings } from '../types';
+import {
+  createLiveLocationSession,
+  isLiveLocationExpired,
+  LiveLocationPower,
+  nextLiveLocationCadence,
+  resolveLiveLocationSettings,
+} from './liveLocationPolicy';
+import { getCurrentLocation, getLastKnownLocation } from './locationService';
+import { toServerSafetyContacts } from './contactSync';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('LiveLocation');
+
+let updateTimer: ReturnType<typeof setTimeout> | null = null;
+let activeUpdate: Promise<void> | null = null;
+
+function toPoint(fix: LiveLocationFix) {
+  return {
+    lat: fix.lat,
+    lng: fix.lng,
+    accuracy: fix.accuracy,
+    recordedAt: new Date(fix.timestamp).toISOString(),
+  };
+}
+
+/** Null when the device cannot say; the cadence then ignores the battery. */
+async function readPower(): Promise<LiveLocationPower | null> {
+  try {
+    const { batteryLevel, batteryState, lowPowerMode } = await DeviceInfo.getPowerState();
+    return {
+      // Simulators and some devices report -1 for an unknown level.
+      batteryLevel: typeof batteryLevel === 'number' && batteryLevel >= 0 ? batteryLevel : null,
+      charging: batteryState === 'charging' || batteryState === 'full',
+      lowPowerMode: lowPowerMode === true,
+    };
+  } catch (error) {
+    logger.warn('Battery state unavailable', { error: String(error) });
+    return null;
+  }
+}
+
+// ============================================
+// SESSION
+// ============================================
+
+export type StartLiveLocationOptions = {
+  sosEventId: string | null;
+  contacts: SafetyContact[];
+  settings: Partial<
+    Pick<SafetySettings, 'liveLocationIntervalSeconds' | 'liveLocationDurationMinutes'>
+  >;
+  firstFix: LiveLocationFix | null;
+};
+
+/**
+ * Start sharing live location and send the link to SMS contacts. Only one
+ * session runs at a time; an active one is returned as-is. Resolves null when
+ * CareBow could not start the session.
+ */
+export async function startLiveLocation(
+  options: StartLiveLocationOptions
+): Promise<LiveLocationSession | null> {
+  const existing = useSafetyStore.getState().liveLocation;
+  if (existing?.status === 'ACTIVE' && !isLiveLocationExpired(existing)) {
+    return existing;
+  }
+
+  const recipients = options.contacts.filter((contact) => contact.canReceiveSMS);
+  const { intervalSeconds, durationMinutes } = resolveLiveLocationSettings(options.settings);
+  const response = await safetyApi.startLiveLocation({
+    sosEventId: options.sosEventId,
+    durationMinutes,
+    intervalSeconds,
+    contacts: toServerSafetyContacts(recipients),
+    location: options.firstFix ? toPoint(options.firstFix) : null,
+  });
+  if (!response?.success || !response.session) {
+    logger.warn('Live location session not started', { error: response?.error });
+    return null;
+  }
+
+  const session = createLiveLocationSession(response.session, {
+    sosEventId: options.sosEventId,
+    intervalSeconds,
+    firstFix: options.firstFix,
+  });
+  useSafetyStore.getState().startLiveLocationSession(
+    session,
+    recipients.map((contact) => contact.name)
+  );
+  if (options.firstFix) {
+    scheduleNextUpdate();
+  } else {
+    void runUpdate();
+  }
+  return session;
+}
+
+/** Stop sharing now. The share link stops showing a position. */
+export async function stopLiveLocation(): Promise<void> {
+  const session = useSafetyStore.getState().liveLocation;
+  pauseLiveLocation();
+  if (!session || session.status !== 'ACTIVE') return;
+
+  useSafetyStore.getState().endLiveLocationSession('STOPPED');
+  const stopped = await safetyApi.stopLiveLocation(session.id);
+  if (!stopped) {
+    logger.warn('Live location stop not confirmed by server', { sessionId: session.id });
+  }
+}
+
+/** Take a fix now if one is due, then keep updating until the session ends. */
+export function resumeLiveLocation(): void {
+  const session = useSafetyStore.getState().liveLocation;
+  if (!session || session.status !== 'ACTIVE') {
+    pauseLiveLocation();
+    return;
+  }
+  const lastSentAt = session.lastSentAt ? new Date(session.lastSentAt).getTime() : 0;
+  if (Date.now() - lastSentAt >= session.currentIntervalSeconds * 1000) {
+    void runUpdate();
+  } else {
+    scheduleNextUpdate();
+  }
+}
+
+export function pauseLiveLocation(): void {
+  if (updateTimer) {
+    clearTimeout(updateTimer);
+    updateTimer = null;
+  }
+}
+
+// ============================================
+// UPDATES
+// ============================================
+
+function scheduleNextUpdate(): void {
+  pauseLiveLocation();
+  const session = useSafetyStore.getState().liveLocation;
+  if (!session || session.status !== 'ACTIVE') return;
+
+  const untilExpiry = new Date(session.expiresAt).getTime() - Date.now();
+  const delay = Math.max(0, Math.min(session.currentIntervalSeconds * 1000, untilExpiry));
+  updateTimer = setTimeout(() => void runUpdate(), delay);
+}
+
+function runUpdate(): Promise<void> {
+  if (activeUpdate) return activeUpdate;
+  pauseLiveLocation();
+  activeUpdate = update().finally(() => {
+    activeUpdate = null;
+    scheduleNextUpdate();
+  });
+  return activeUpdate;
+}
+
+async function update(): Promise<void> {
+  const session = useSafetyStore.getState().liveLocation;
+  if (!session || session.status !== 'ACTIVE') return;
+
+  if (isLiveLocationExpired(session)) {
+    useSafetyStore.getState().endLiveLocationSession('EXPIRED');
+    return;
+  }
+
+  const result = session.highAccuracy
+    ? await getCurrentLocation(15000)
+    : await getLastKnownLocation();
+  let sent: LiveLocationFix | null = null;
+
+  if (result.success) {
+    const response = await safetyApi.sendLiveLocationPoint(session.id, toPoint(result.data));
+    if (response?.ended) {
+      useSafetyStore.getState().endLiveLocationSession('EXPIRED');
+      return;
+    }
+    if (response?.success) sent = result.data;
+  }
+
+  const cadence = nextLiveLocationCadence({
+    baseIntervalSeconds: session.baseIntervalSeconds,
+    currentIntervalSeconds: session.currentIntervalSeconds,
+    previousFix: session.lastFix,
+    fix: sent,
+    appActive: AppState.currentState === 'active',
+    power: await readPower(),
+  });
+  useSafetyStore.getState().recordLiveLocationUpdate(sent, cadence);
+}
@@ -60,6 +60,31 @@ export async function requestLocationPermission(): Promise<PermissionStatus> {
   }
 }
 
+/**
+ * Android 10 and later ask separately for location while the app is closed.
+ * Safe zones need it to keep watching; iOS asks for "Always" when the
+ * background watch starts.
+ */
+export async function requestBackgroundLocationPermission(): Promise<PermissionStatus> {
+  if (Platform.OS !== 'android' || Platform.Version < 29) return 'granted';
+  try {
+    const granted = await PermissionsAndroid.request(
+      PermissionsAndroid.PERMISSIONS.ACCESS_BACKGROUND_LOCATION,
+      {
+        title: 'Background Location',
+        message:
+          'Choose "Allow all the time" so CareBow can alert your contacts when this phone leaves a safe zone, even while the app is closed.',
+        buttonNegative: 'Not now',
+        buttonPositive: 'OK',
+      }
+    );
+    return granted === PermissionsAndroid.RESULTS.GRANTED ? 'granted' : 'denied';
+  } catch (error) {
+    logger.error('Error requesting background location permission', error);
+    return 'denied';
+  }
+}
+
 export async function getLocationPermissionStatus(): Promise<PermissionStatus> {
   try {
     if (Platform.OS === 'android') {
@@ -7,7 +7,7 @@
  */
 
 import { Platform, PermissionsAndroid, Alert } from 'react-native';
-import { PermissionStatus } from '../types';
+import { CheckInWindow, PermissionStatus } from '../types';
 
 // ============================================
 // PERMISSION HELPERS
@@ -48,15 +48,14 @@ export async function getNotificationPermissionStatus(): Promise<PermissionStatu
 // ============================================
 
 export type CheckInNotificationConfig = {
-  checkInTime: string; // HH:mm format
-  gracePeriodMinutes: number;
+  windows: CheckInWindow[];
 };
 
 // Storage for scheduled notification IDs
 const scheduledNotifications: Map<string, NodeJS.Timeout> = new Map();
 
 /**
- * Schedule the daily check-in reminder notification
+ * Schedule the reminder notifications for every check-in window
  * Fails closed until native background notification scheduling is connected.
  */
 export async function scheduleCheckInReminder(
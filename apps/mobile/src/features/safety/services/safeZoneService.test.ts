@@ -0,0 +1,60 @@
+import { safetyApi } from '@/services/api/endpoints/safety';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { handleSafeZoneFix } from './safeZoneService';
+import { DEFAULT_SAFETY_SETTINGS, SafeZone } from '../types';
+
+const HOME = { lat: 40.7128, lng: -74.006 };
+
+const zone = (id: string, memberId: string): SafeZone => ({
+  id,
+  memberId,
+  name: id,
+  center: HOME,
+  radiusMeters: 100,
+  allowedHours: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const inside = { status: 'INSIDE' as const, since: '2026-01-05T08:00:00.000Z', alertOpen: false };
+
+// Half a kilometre north of home.
+const away = { lat: HOME.lat + 500 / 111195, lng: HOME.lng, accuracy: 10, timestamp: Date.now() };
+
+function bindDeviceTo(memberId: string | null) {
+  useSafetyStore.setState({
+    settings: { ...DEFAULT_SAFETY_SETTINGS, safeZonesEnabled: true, safeZoneMemberId: memberId },
+    safeZones: [zone('grandma-home', 'grandma'), zone('leo-school', 'leo')],
+    zonePresence: { 'grandma-home': inside, 'leo-school': inside },
+    contacts: [],
+    events: [],
+  });
+}
+
+beforeEach(() => {
+  jest.spyOn(safetyApi, 'reportSafeZoneEvent').mockResolvedValue({ success: true });
+  jest.spyOn(safetyApi, 'saveHistoryEvent').mockResolvedValue(null);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('only checks the zones of the member carrying this device', () => {
+  bindDeviceTo('grandma');
+
+  const transitions = handleSafeZoneFix(away);
+
+  expect(transitions.map((transition) => transition.zoneId)).toEqual(['grandma-home']);
+  expect(Object.keys(useSafetyStore.getState().zonePresence)).toEqual(['grandma-home']);
+  expect(useSafetyStore.getState().events.map((event) => event.metadata.zone?.zoneId)).toEqual([
+    'grandma-home',
+  ]);
+});
+
+it('checks no zones until someone is chosen as carrying the device', () => {
+  bindDeviceTo(null);
+
+  expect(handleSafeZoneFix(away)).toEqual([]);
+  expect(useSafetyStore.getState().events).toEqual([]);
+});
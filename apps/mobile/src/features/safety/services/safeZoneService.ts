@@ -0,0 +1,111 @@
+/**
+ * Safe Zone Service
+ * Watches this device's location while safe zones are on and runs each fix
+ * through the geofence evaluator, against the zones of the member who carries
+ * the device. Every zone exit and entry is logged; the ones that alert go to
+ * the member's contacts through CareBow, the same server path that texts them
+ * about an SOS.
+ *
+ * The monitor holds background location (backgroundLocation.ts), so the watch
+ * keeps running after the user leaves the app.
+ */
+
+import Geolocation from '@react-native-community/geolocation';
+import { safetyApi } from '@/services/api/endpoints/safety';
+import { useProfileStore } from '@/store/useProfileStore';
+import { useSafetyStore } from '../store/useSafetyStore';
+import { SafeZone } from '../types';
+import { evaluateGeofence, GeofenceFix, watchedSafeZones, ZoneTransition } from './geofence';
+import { toServerSafetyContacts } from './contactSync';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('SafeZones');
+
+/** Ask for a new fix only after moving this far; zones are 100 m or more. */
+const WATCH_DISTANCE_FILTER_METERS = 20;
+
+let watchId: number | null = null;
+
+export function startSafeZoneMonitoring(): void {
+  if (watchId !== null) return;
+
+  watchId = Geolocation.watchPosition(
+    (position) => {
+      handleSafeZoneFix({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp,
+      });
+    },
+    (error) => {
+      logger.warn('Safe zone location unavailable', { code: error.code, message: error.message });
+    },
+    {
+      enableHighAccuracy: true,
+      distanceFilter: WATCH_DISTANCE_FILTER_METERS,
+      interval: 60000,
+      fastestInterval: 30000,
+    }
+  );
+}
+
+export function stopSafeZoneMonitoring(): void {
+  if (watchId === null) return;
+  Geolocation.clearWatch(watchId);
+  watchId = null;
+}
+
+/** Evaluate one fix against this device's member's zones and report what changed. */
+export function handleSafeZoneFix(fix: GeofenceFix): ZoneTransition[] {
+  const { safeZones, settings, zonePresence, setZonePresence } = useSafetyStore.getState();
+  const zones = watchedSafeZones(safeZones, settings.safeZoneMemberId);
+  const { presence, transitions } = evaluateGeofence(zones, zonePresence, fix);
+  setZonePresence(presence);
+
+  for (const transition of transitions) {
+    const zone = zones.find((z) => z.id === transition.zoneId);
+    if (zone) void reportTransition(zone, transition);
+  }
+  return transitions;
+}
+
+async function reportTransition(zone: SafeZone, transition: ZoneTransition): Promise<void> {
+  const { contacts, addEvent, updateEventMetadata } = useSafetyStore.getState();
+  const member = useProfileStore.getState().members.find((m) => m.id === zone.memberId);
+  const memberName = member?.firstName ?? 'Your family member';
+  const recipients = transition.alert ? contacts.filter((contact) => contact.canReceiveSMS) : [];
+  const type = transition.kind === 'EXIT' ? 'ZONE_EXITED' : 'ZONE_ENTERED';
+  const { lat, lng, accuracy } = transition.fix;
+
+  const event = addEvent(type, {
+    location: { lat, lng, accuracy },
+    contactsNotified: recipients.map((contact) => contact.name),
+    zone: { zoneId: zone.id, zoneName: zone.name, memberName, alerted: transition.alert },
+  });
+  if (!transition.alert) return;
+
+  const response = await safetyApi.reportSafeZoneEvent({
+    type,
+    zoneId: zone.id,
+    zoneName: zone.name,
+    memberName,
+    occurredAt: transition.at.toISOString(),
+    location: { lat, lng, accuracy, recordedAt: transition.at.toISOString() },
+    contacts: toServerSafetyContacts(recipients),
+    clientEventId: event.id,
+  });
+  if (!response?.success) {
+    logger.warn('Safe zone alert not accepted by CareBow', {
+      zoneId: zone.id,
+      error: response?.error,
+    });
+    updateEventMetadata(event.id, { delivery: { status: 'FAILED' } });
+    return;
+  }
+  updateEventMetadata(event.id, {
+    delivery: response.queued
+      ? { status: 'QUEUED' }
+      : { status: 'SENT', serverEventId: response.eventId },
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Safety History
+ * Keeps the account's copy of this device's safety events, so the history
+ * behind an incident report survives a reinstall or a new phone. The local
+ * store only keeps the latest 100 events; the server keeps them all. Each
+ * event belongs to the account signed in when it was recorded; events from
+ * while nobody was signed in join the next account to sign in.
+ */
+
+import { useAuthStore } from '@/store/useAuthStore';
+import { safetyApi, SafetyHistoryEvent } from '@/services/api/endpoints/safety';
+import { SafetyEvent, SafetyEventType } from '../types';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('SafetyHistory');
+
+/** Owner of events recorded while nobody is signed in. */
+export const GUEST_USER_ID = 'guest';
+
+/** Server history is fetched in pages of this size when building a report. */
+const HISTORY_PAGE_SIZE = 500;
+
+/** Typed as a record so a new event type cannot be left out. */
+const KNOWN_EVENT_TYPES: Record<SafetyEventType, true> = {
+  SOS_TRIGGERED: true,
+  CHECKIN_CONFIRMED: true,
+  CHECKIN_MISSED: true,
+  TEST_ALERT_SENT: true,
+  ESCALATION_STEP_STARTED: true,
+  ESCALATION_STEP_TIMED_OUT: true,
+  ESCALATION_ACKNOWLEDGED: true,
+  ESCALATION_CANCELLED: true,
+  LIVE_LOCATION_STARTED: true,
+  LIVE_LOCATION_ENDED: true,
+  FALL_DETECTED: true,
+  ZONE_EXITED: true,
+  ZONE_ENTERED: true,
+};
+
+function signedInUserId(): string | null {
+  const { isAuthenticated, user } = useAuthStore.getState();
+  return isAuthenticated ? (user?.id ?? null) : null;
+}
+
+/** The account a new event belongs to. */
+export function safetyEventUserId(): string {
+  return signedInUserId() ?? GUEST_USER_ID;
+}
+
+function toHistoryEvent(event: SafetyEvent): SafetyHistoryEvent {
+  return {
+    id: event.id,
+    type: event.type,
+    timestamp: event.timestamp,
+    metadata: event.metadata,
+  };
+}
+
+/** Null for events this build does not know how to show. */
+function fromHistoryEvent(event: SafetyHistoryEvent, userId: string): SafetyEvent | null {
+  if (!(event.type in KNOWN_EVENT_TYPES)) return null;
+  return {
+    id: event.id,
+    type: event.type as SafetyEventType,
+    userId,
+    timestamp: event.timestamp,
+    metadata: event.metadata,
+    synced: true,
+  };
+}
+
+/**
+ * Save a new or changed event to the account's history. Resolves true once
+ * the server has it. Events of a guest or of another account are left for the
+ * sign-in sync, and a save waiting in the outbox is not saved yet.
+ */
+export async function syncSafetyEvent(event: SafetyEvent): Promise<boolean> {
+  if (event.userId !== signedInUserId()) return false;
+  const response = await safetyApi.saveHistoryEvent(toHistoryEvent(event));
+  if (!response?.success) logger.warn('Safety event not saved to history', { id: event.id });
+  return Boolean(response?.success && !response.queued);
+}
+
+/** Upload events the account's history does not have yet. */
+export async function importSafetyHistory(events: SafetyEvent[]): Promise<boolean> {
+  if (events.length === 0) return true;
+  return safetyApi.importHistory(events.map(toHistoryEvent));
+}
+
+/**
+ * Every event the server has between two times, newest first. Returns null
+ * when the server could not be reached, so callers can say the history may
+ * be incomplete instead of quietly reporting only local events.
+ */
+export async function fetchSafetyHistory(from: Date, to: Date): Promise<SafetyEvent[] | null> {
+  const userId = safetyEventUserId();
+  const events: SafetyEvent[] = [];
+  let before = to.toISOString();
+
+  for (;;) {
+    const response = await safetyApi.getHistory({
+      from: from.toISOString(),
+      to: before,
+      limit: HISTORY_PAGE_SIZE,
+    });
+    if (!response?.success || !response.events) return null;
+
+    const seen = events.length;
+    for (const event of response.events) {
+      const parsed = fromHistoryEvent(event, userId);
+      if (parsed && !events.some((e) => e.id === parsed.id)) events.push(parsed);
+    }
+    // Pages overlap at their boundary timestamp; stop once one adds nothing new.
+    if (response.events.length < HISTORY_PAGE_SIZE || events.length === seen) return events;
+    before = response.events[response.events.length - 1].timestamp;
+  }
+}
+
+/** The account's latest events, newest first; null when unreachable. */
+export async function fetchRecentSafetyHistory(limit: number): Promise<SafetyEvent[] | null> {
+  const response = await safetyApi.getHistory({ limit });
+  if (!response?.success || !response.events) return null;
+  const userId = safetyEventUserId();
+  return response.events
+    .map((event) => fromHistoryEvent(event, userId))
+    .filter((event): event is SafetyEvent => event !== null);
+}
+
+/** Local and server events together, one copy of each, newest first. */
+export function mergeSafetyEvents(local: SafetyEvent[], remote: SafetyEvent[]): SafetyEvent[] {
+  const byId = new Map<string, SafetyEvent>();
+  for (const event of remote) byId.set(event.id, event);
+  // The device's copy wins: it may hold delivery updates still in the outbox.
+  for (const event of local) byId.set(event.id, event);
+  return [...byId.values()].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
@@ -158,14 +158,16 @@ export function generateSOSMessage(
   userName: string,
   location: LocationData | null,
   includeLocation: boolean,
-  address?: string | null
+  address?: string | null,
+  liveLocationUrl?: string | null
 ): string {
+  let message = SMS_TEMPLATES.SOS_WITHOUT_LOCATION(userName);
   if (includeLocation && location) {
     const mapsLink = createGoogleMapsLink(location.lat, location.lng);
-    const base = SMS_TEMPLATES.SOS_WITH_LOCATION(userName, mapsLink);
-    return address ? `${base}\nNear: ${address}` : base;
+    message = SMS_TEMPLATES.SOS_WITH_LOCATION(userName, mapsLink);
+    if (address) message += `\nNear: ${address}`;
   }
-  return SMS_TEMPLATES.SOS_WITHOUT_LOCATION(userName);
+  return liveLocationUrl ? `${message}\n${SMS_TEMPLATES.LIVE_LOCATION(liveLocationUrl)}` : message;
 }
 
 /**
@@ -204,10 +206,11 @@ export async function sendSOSSMSToPrimary(
   contact: SafetyContact,
   userName: string,
   location: LocationData | null,
-  includeLocation: boolean
+  includeLocation: boolean,
+  liveLocationUrl?: string | null
 ): Promise<boolean> {
   const address = await resolveAddress(location, includeLocation);
-  const message = generateSOSMessage(userName, location, includeLocation, address);
+  const message = generateSOSMessage(userName, location, includeLocation, address, liveLocationUrl);
   return openSMSComposer([contact.phoneNumber], message);
 }
 
@@ -218,14 +221,15 @@ export async function sendSOSSMSToAll(
   contacts: SafetyContact[],
   userName: string,
   location: LocationData | null,
-  includeLocation: boolean
+  includeLocation: boolean,
+  liveLocationUrl?: string | null
 ): Promise<boolean> {
   const smsContacts = contacts.filter((c) => c.canReceiveSMS);
   if (smsContacts.length === 0) return false;
 
   const phoneNumbers = smsContacts.map((c) => c.phoneNumber);
   const address = await resolveAddress(location, includeLocation);
-  const message = generateSOSMessage(userName, location, includeLocation, address);
+  const message = generateSOSMessage(userName, location, includeLocation, address, liveLocationUrl);
 
   return openSMSComposer(phoneNumbers, message);
 }
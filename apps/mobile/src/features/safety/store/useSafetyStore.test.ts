@@ -0,0 +1,153 @@
+import { migrateSafetyState, useSafetyStore } from './useSafetyStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { safetyApi } from '@/services/api/endpoints/safety';
+import { buildEscalationLadder } from '../services/escalationLadder';
+import { DEFAULT_SAFETY_SETTINGS } from '../types';
+import type { SafeZone, SafetyContact, SafetySettings } from '../types';
+
+const mom: SafetyContact = {
+  id: 'mom',
+  name: 'Mom',
+  phoneNumber: '+1 555 123 4567',
+  countryCode: '+1',
+  isPrimary: true,
+  canReceiveSMS: true,
+  canReceiveWhatsApp: false,
+  createdAt: '2026-08-20T00:00:00.000Z',
+  updatedAt: '2026-08-20T00:00:00.000Z',
+};
+
+const home: SafeZone = {
+  id: 'home',
+  memberId: 'grandma',
+  name: 'Home',
+  center: { lat: 40.7128, lng: -74.006 },
+  radiusMeters: 100,
+  allowedHours: [],
+  createdAt: '2026-08-20T00:00:00.000Z',
+  updatedAt: '2026-08-20T00:00:00.000Z',
+};
+
+describe('migrateSafetyState', () => {
+  it('turns the single daily check-in time into a window', () => {
+    const migrated = migrateSafetyState(
+      {
+        settings: { dailyCheckInEnabled: true, dailyCheckInTime: '08:30', gracePeriodMinutes: 30 },
+      },
+      0
+    ) as { settings: Record<string, unknown> };
+
+    expect(migrated.settings.checkInWindows).toEqual([
+      { ...DEFAULT_SAFETY_SETTINGS.checkInWindows[0], time: '08:30', gracePeriodMinutes: 30 },
+    ]);
+    expect(migrated.settings).not.toHaveProperty('dailyCheckInTime');
+    expect(migrated.settings.dailyCheckInEnabled).toBe(true);
+  });
+
+  it('backfills live-location settings an upgraded install never saved', () => {
+    const migrated = migrateSafetyState(
+      { settings: { dailyCheckInEnabled: true, checkInWindows: [] }, events: [] },
+      1
+    ) as { settings: Record<string, unknown>; events: unknown[] };
+
+    expect(migrated.settings).toMatchObject({
+      liveLocationIntervalSeconds: 60,
+      liveLocationDurationMinutes: 60,
+      dailyCheckInEnabled: true,
+      checkInWindows: [],
+    });
+    expect(migrated.events).toEqual([]);
+  });
+
+  it('ends a legacy escalation order on emergency services', () => {
+    const migrated = migrateSafetyState(
+      { settings: { escalationOrder: ['PRIMARY_CONTACT', 'ALL_CONTACTS'] } },
+      1
+    ) as { settings: SafetySettings };
+
+    expect(migrated.settings.escalationOrder).toEqual([
+      'PRIMARY_CONTACT',
+      'ALL_CONTACTS',
+      'EMERGENCY_SERVICES',
+    ]);
+    expect(buildEscalationLadder(migrated.settings, [mom]).at(-1)?.kind).toBe('EMERGENCY_SERVICES');
+  });
+
+  it('binds the device to the member its safe zones were all for', () => {
+    const zone = (memberId: string): SafeZone => ({ ...home, memberId });
+    const migrate = (safeZones: SafeZone[]) => {
+      const migrated = migrateSafetyState({ settings: {}, safeZones }, 2);
+      return (migrated as { settings: SafetySettings }).settings.safeZoneMemberId;
+    };
+
+    expect(migrate([zone('grandma'), zone('grandma')])).toBe('grandma');
+    expect(migrate([zone('grandma'), zone('leo')])).toBeNull();
+    expect(migrate([])).toBeNull();
+  });
+
+  it('leaves current state alone', () => {
+    const persisted = { settings: { liveLocationIntervalSeconds: 30 } };
+
+    expect(migrateSafetyState(persisted, 3)).toBe(persisted);
+  });
+});
+
+describe('account history', () => {
+  const signIn = (id: string) =>
+    useAuthStore.setState({ isAuthenticated: true, user: { id } as never });
+
+  beforeEach(() => {
+    useAuthStore.setState({ isAuthenticated: false, user: null });
+    useSafetyStore.setState({ events: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps events recorded while signed out for the next account to sign in', () => {
+    const guestEvent = useSafetyStore.getState().addEvent('TEST_ALERT_SENT');
+    signIn('user-a');
+    useSafetyStore.getState().claimEvents('user-a');
+
+    expect(guestEvent.userId).toBe('guest');
+    expect(useSafetyStore.getState().events).toEqual([
+      expect.objectContaining({ id: guestEvent.id, userId: 'user-a', synced: false }),
+    ]);
+  });
+
+  it("never hands one account's events to another", () => {
+    jest.spyOn(safetyApi, 'saveHistoryEvent').mockResolvedValue(null);
+    signIn('user-a');
+    useSafetyStore.getState().addEvent('SOS_TRIGGERED');
+    useSafetyStore.getState().forgetAccountEvents();
+    const afterSignOut = useSafetyStore.getState().events;
+
+    useSafetyStore.setState({
+      events: [{ id: 'a-1', type: 'SOS_TRIGGERED', userId: 'user-a', timestamp: '', metadata: {} }],
+    });
+    useSafetyStore.getState().claimEvents('user-b');
+
+    expect(afterSignOut).toEqual([]);
+    expect(useSafetyStore.getState().events).toEqual([]);
+  });
+
+  it('marks an event saved only while it still matches what was sent', async () => {
+    let respond: (value: { success: boolean }) => void = () => {};
+    jest
+      .spyOn(safetyApi, 'saveHistoryEvent')
+      .mockImplementationOnce(() => new Promise((resolve) => (respond = resolve)))
+      .mockResolvedValue({ success: true, queued: true });
+    signIn('user-a');
+
+    const event = useSafetyStore.getState().addEvent('ZONE_EXITED');
+    useSafetyStore.getState().updateEventMetadata(event.id, { delivery: { status: 'SENT' } });
+    respond({ success: true });
+    await new Promise(setImmediate);
+
+    expect(useSafetyStore.getState().events[0]).toMatchObject({ userId: 'user-a', synced: false });
+
+    useSafetyStore.getState().markEventsSynced([useSafetyStore.getState().events[0]]);
+    expect(useSafetyStore.getState().events[0].synced).toBe(true);
+  });
+});
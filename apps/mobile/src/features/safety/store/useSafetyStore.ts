@@ -8,6 +8,8 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { safetyApi, getDeviceTimezone } from '@/services/api/endpoints/safety';
+import { onOutboxEvent } from '@/services/api/outbox';
+import { subscribeToPendingSync } from '@/store/useOutboxStore';
 import {
   SafetyEvent,
   SafetySettings,
@@ -18,7 +20,30 @@ import {
   createSafetyContact,
   SafetyEventType,
   SafetyEventMetadata,
+  SOSEscalation,
+  EscalationAcknowledgement,
+  LiveLocationSession,
+  LiveLocationFix,
+  LiveLocationStatus,
+  SafeZone,
+  SafeZonePresence,
+  createSafeZone,
 } from '../types';
+import { LiveLocationCadence } from '../services/liveLocationPolicy';
+import { FallDetection } from '../services/fallDetection';
+import {
+  acknowledgeEscalation,
+  advanceEscalation,
+  cancelEscalation,
+  getCurrentStep,
+} from '../services/escalationLadder';
+import { isSameCheckInPeriod } from '../services/checkInService';
+import {
+  GUEST_USER_ID,
+  mergeSafetyEvents,
+  safetyEventUserId,
+  syncSafetyEvent,
+} from '../services/safetyHistory';
 
 // ============================================
 // STORE TYPES
@@ -40,6 +65,22 @@ type SafetyState = {
   // UI state
   isLoading: boolean;
   sosInProgress: boolean;
+
+  // Check-ins saved on this device but not yet confirmed by the server
+  pendingSyncCount: number;
+
+  // Latest SOS escalation ladder; kept after it ends so the hub can show the outcome
+  escalation: SOSEscalation | null;
+
+  // Live location session started from SOS; kept after it ends until dismissed
+  liveLocation: LiveLocationSession | null;
+
+  // Safe zones of the member carrying this device, and where they were last seen
+  safeZones: SafeZone[];
+  zonePresence: Record<string, SafeZonePresence>;
+
+  // Suspected fall waiting for the user's answer; not persisted
+  pendingFall: FallDetection | null;
 };
 
 type SafetyActions = {
@@ -49,6 +90,14 @@ type SafetyActions = {
 
   // Events
   addEvent: (type: SafetyEventType, metadata?: SafetyEventMetadata) => SafetyEvent;
+  updateEventMetadata: (id: string, updates: Partial<SafetyEventMetadata>) => void;
+  restoreEvents: (events: SafetyEvent[]) => void;
+  /** Only copies that still match what was saved; a later change is saved again. */
+  markEventsSynced: (saved: Array<Pick<SafetyEvent, 'id' | 'metadata'>>) => void;
+  /** Make guest events this account's and drop other accounts' events. */
+  claimEvents: (userId: string) => void;
+  /** On sign-out: keep only the events recorded while nobody was signed in. */
+  forgetAccountEvents: () => void;
   clearEvents: () => void;
   getRecentEvents: (limit?: number) => SafetyEvent[];
 
@@ -61,8 +110,9 @@ type SafetyActions = {
   getContactById: (id: string) => SafetyContact | undefined;
 
   // Check-in
-  recordCheckIn: () => SafetyEvent;
-  recordMissedCheckIn: () => SafetyEvent;
+  recordCheckIn: (at?: string) => SafetyEvent;
+  /** `at` places the miss in the period of the window it belongs to. */
+  recordMissedCheckIn: (at?: string) => SafetyEvent;
   hasCheckedInToday: () => boolean;
   getLastCheckInTime: () => Date | null;
 
@@ -70,6 +120,30 @@ type SafetyActions = {
   triggerSOS: (metadata?: SafetyEventMetadata) => SafetyEvent;
   setSOSInProgress: (inProgress: boolean) => void;
 
+  // Escalation
+  startEscalation: (escalation: SOSEscalation) => void;
+  advanceEscalation: (now?: Date) => SOSEscalation | null;
+  acknowledgeEscalation: (acknowledgement: EscalationAcknowledgement) => void;
+  cancelEscalation: () => void;
+  clearEscalation: () => void;
+  setEscalationEmergencyNumber: (emergencyNumber: string) => void;
+
+  // Live location
+  startLiveLocationSession: (session: LiveLocationSession, contactNames: string[]) => void;
+  recordLiveLocationUpdate: (fix: LiveLocationFix | null, cadence: LiveLocationCadence) => void;
+  endLiveLocationSession: (reason: Exclude<LiveLocationStatus, 'ACTIVE'>) => void;
+  clearLiveLocationSession: () => void;
+
+  // Safe zones
+  addSafeZone: (zone: Omit<SafeZone, 'id' | 'createdAt' | 'updatedAt'>) => SafeZone;
+  updateSafeZone: (id: string, updates: Partial<Omit<SafeZone, 'id' | 'createdAt'>>) => void;
+  deleteSafeZone: (id: string) => void;
+  setZonePresence: (presence: Record<string, SafeZonePresence>) => void;
+
+  // Fall detection
+  reportFall: (fall: FallDetection) => void;
+  clearPendingFall: () => void;
+
   // Permissions
   updatePermissions: (updates: Partial<SafetyPermissions>) => void;
 
@@ -92,12 +166,21 @@ const initialState: SafetyState = {
   },
   isLoading: false,
   sosInProgress: false,
+  pendingSyncCount: 0,
+  escalation: null,
+  liveLocation: null,
+  safeZones: [],
+  zonePresence: {},
+  pendingFall: null,
 };
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+// The device keeps the latest events; the account's history keeps them all.
+const MAX_LOCAL_EVENTS = 100;
+
 function isSameLocalDay(date1: Date, date2: Date): boolean {
   return (
     date1.getFullYear() === date2.getFullYear() &&
@@ -108,10 +191,83 @@ function isSameLocalDay(date1: Date, date2: Date): boolean {
 
 const SERVER_CHECKIN_SETTING_KEYS: Array<keyof SafetySettings> = [
   'dailyCheckInEnabled',
-  'dailyCheckInTime',
-  'gracePeriodMinutes',
+  'checkInWindows',
 ];
 
+type PersistedSafetyStateV0 = {
+  settings?: Partial<SafetySettings> & { dailyCheckInTime?: string; gracePeriodMinutes?: number };
+  safeZones?: SafeZone[];
+};
+
+/**
+ * Version 0 stored a single daily time; it becomes one every-day window.
+ * Versions before 3 predate later settings (escalation timeouts, live
+ * location, who carries the device), which are backfilled from the defaults
+ * so nothing reads undefined, and an escalation order that never reached
+ * emergency services now ends there. A device whose safe zones were all for
+ * one member stays bound to that member.
+ */
+export function migrateSafetyState(persisted: unknown, version: number): unknown {
+  if (version >= 3) return persisted;
+
+  const state = persisted as PersistedSafetyStateV0 | undefined;
+  if (!state?.settings) return persisted;
+
+  let settings: Partial<SafetySettings> = state.settings;
+  if (version < 1) {
+    const { dailyCheckInTime, gracePeriodMinutes, ...rest } = state.settings;
+    const [defaultWindow] = DEFAULT_SAFETY_SETTINGS.checkInWindows;
+    settings = {
+      ...rest,
+      checkInWindows: [
+        {
+          ...defaultWindow,
+          time: dailyCheckInTime ?? defaultWindow.time,
+          gracePeriodMinutes: gracePeriodMinutes ?? defaultWindow.gracePeriodMinutes,
+        },
+      ],
+    };
+  }
+
+  const escalationOrder = settings.escalationOrder ?? DEFAULT_SAFETY_SETTINGS.escalationOrder;
+  const zoneMemberIds = new Set((state.safeZones ?? []).map((zone) => zone.memberId));
+  return {
+    ...state,
+    settings: {
+      ...DEFAULT_SAFETY_SETTINGS,
+      safeZoneMemberId: zoneMemberIds.size === 1 ? [...zoneMemberIds][0] : null,
+      ...settings,
+      escalationOrder: escalationOrder.includes('EMERGENCY_SERVICES')
+        ? escalationOrder
+        : [...escalationOrder, 'EMERGENCY_SERVICES'],
+    },
+  };
+}
+
+/** Event metadata for the escalation's current step, naming who it alerts. */
+function escalationStepMetadata(
+  escalation: SOSEscalation,
+  contacts: SafetyContact[]
+): Required<Pick<SafetyEventMetadata, 'contactsNotified' | 'escalation'>> {
+  const step = getCurrentStep(escalation);
+  return {
+    contactsNotified: contacts
+      .filter((contact) => step?.contactIds.includes(contact.id))
+      .map((contact) => contact.name),
+    escalation: {
+      escalationId: escalation.id,
+      step: step?.kind ?? 'ALL_CONTACTS',
+    },
+  };
+}
+
+/** Save an event to its account's history and note when the server has it. */
+function saveToHistory(event: SafetyEvent): void {
+  void syncSafetyEvent(event).then((saved) => {
+    if (saved) useSafetyStore.getState().markEventsSynced([event]);
+  });
+}
+
 function changesServerCheckInSchedule(updates: Partial<SafetySettings>): boolean {
   return SERVER_CHECKIN_SETTING_KEYS.some((key) => Object.prototype.hasOwnProperty.call(updates, key));
 }
@@ -135,14 +291,13 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
         }
 
         // Daily check-in is a server-enforced safety promise, not just a local
-        // preference. Do not flip the local state to enabled/change its schedule
+        // preference. Do not flip the local state to enabled/change its windows
         // until the backend has persisted the exact schedule it will enforce.
         const next = { ...get().settings, ...updates };
         void safetyApi
           .saveDailyCheckInSettings({
             enabled: next.dailyCheckInEnabled,
-            time: next.dailyCheckInTime,
-            gracePeriodMinutes: next.gracePeriodMinutes,
+            windows: next.checkInWindows,
             timezone: getDeviceTimezone(),
           })
           .then((response) => {
@@ -157,8 +312,7 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
               settings: {
                 ...state.settings,
                 dailyCheckInEnabled: response.settings!.enabled,
-                dailyCheckInTime: response.settings!.time,
-                gracePeriodMinutes: response.settings!.gracePeriodMinutes,
+                checkInWindows: response.settings!.windows,
               },
             }));
           })
@@ -177,13 +331,56 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
 
       // ========== EVENTS ==========
       addEvent: (type, metadata = {}) => {
-        const event = createSafetyEvent(type, 'guest', metadata);
+        const event = createSafetyEvent(type, safetyEventUserId(), metadata);
         set((state) => ({
-          events: [event, ...state.events].slice(0, 100), // Keep last 100 events
+          events: [event, ...state.events].slice(0, MAX_LOCAL_EVENTS),
         }));
+        saveToHistory(event);
         return event;
       },
 
+      updateEventMetadata: (id, updates) => {
+        const event = get().events.find((e) => e.id === id);
+        if (!event) return;
+
+        const updated = { ...event, metadata: { ...event.metadata, ...updates }, synced: false };
+        set((state) => ({
+          events: state.events.map((e) => (e.id === id ? updated : e)),
+        }));
+        saveToHistory(updated);
+      },
+
+      restoreEvents: (events) => {
+        set((state) => ({
+          events: mergeSafetyEvents(state.events, events).slice(0, MAX_LOCAL_EVENTS),
+        }));
+      },
+
+      markEventsSynced: (saved) => {
+        const savedMetadata = new Map(saved.map((e) => [e.id, JSON.stringify(e.metadata)]));
+        set((state) => ({
+          events: state.events.map((e) =>
+            savedMetadata.get(e.id) === JSON.stringify(e.metadata) ? { ...e, synced: true } : e
+          ),
+        }));
+      },
+
+      claimEvents: (userId) => {
+        // Another account's unsaved events are dropped, as its outbox is:
+        // they must never be saved to this account's history.
+        set((state) => ({
+          events: state.events
+            .filter((e) => e.userId === userId || e.userId === GUEST_USER_ID)
+            .map((e) => (e.userId === userId ? e : { ...e, userId, synced: false })),
+        }));
+      },
+
+      forgetAccountEvents: () => {
+        set((state) => ({
+          events: state.events.filter((e) => e.userId === GUEST_USER_ID),
+        }));
+      },
+
       clearEvents: () => {
         set({ events: [] });
       },
@@ -256,38 +453,44 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
       },
 
       // ========== CHECK-IN ==========
-      recordCheckIn: () => {
-        const now = new Date().toISOString();
+      recordCheckIn: (at) => {
+        const now = at ?? new Date().toISOString();
         const state = get();
         const wasLate = Boolean(
           state.settings.lastMissedCheckInAt &&
-          isSameLocalDay(new Date(state.settings.lastMissedCheckInAt), new Date())
+          isSameCheckInPeriod(
+            state.settings.checkInWindows,
+            new Date(now),
+            new Date(state.settings.lastMissedCheckInAt)
+          )
         );
 
-        const event = createSafetyEvent('CHECKIN_CONFIRMED', 'guest', { wasLate });
+        const event = createSafetyEvent('CHECKIN_CONFIRMED', safetyEventUserId(), { wasLate });
 
         set((s) => ({
-          events: [event, ...s.events].slice(0, 100),
+          events: [event, ...s.events].slice(0, MAX_LOCAL_EVENTS),
           settings: {
             ...s.settings,
             lastCheckInAt: now,
           },
         }));
+        saveToHistory(event);
 
         return event;
       },
 
-      recordMissedCheckIn: () => {
-        const now = new Date().toISOString();
-        const event = createSafetyEvent('CHECKIN_MISSED', 'guest', {});
+      recordMissedCheckIn: (at) => {
+        const now = at ?? new Date().toISOString();
+        const event = createSafetyEvent('CHECKIN_MISSED', safetyEventUserId(), {});
 
         set((s) => ({
-          events: [event, ...s.events].slice(0, 100),
+          events: [event, ...s.events].slice(0, MAX_LOCAL_EVENTS),
           settings: {
             ...s.settings,
             lastMissedCheckInAt: now,
           },
         }));
+        saveToHistory(event);
 
         return event;
       },
@@ -310,12 +513,13 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
 
       // ========== SOS ==========
       triggerSOS: (metadata = {}) => {
-        const event = createSafetyEvent('SOS_TRIGGERED', 'guest', metadata);
+        const event = createSafetyEvent('SOS_TRIGGERED', safetyEventUserId(), metadata);
 
         set((s) => ({
-          events: [event, ...s.events].slice(0, 100),
+          events: [event, ...s.events].slice(0, MAX_LOCAL_EVENTS),
           sosInProgress: false,
         }));
+        saveToHistory(event);
 
         return event;
       },
@@ -324,6 +528,161 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
         set({ sosInProgress: inProgress });
       },
 
+      // ========== ESCALATION ==========
+      startEscalation: (escalation) => {
+        set({ escalation });
+        get().addEvent(
+          'ESCALATION_STEP_STARTED',
+          escalationStepMetadata(escalation, get().contacts)
+        );
+      },
+
+      advanceEscalation: (now = new Date()) => {
+        const current = get().escalation;
+        if (!current || current.status !== 'RUNNING') return null;
+
+        get().addEvent(
+          'ESCALATION_STEP_TIMED_OUT',
+          escalationStepMetadata(current, get().contacts)
+        );
+        const next = advanceEscalation(current, now);
+        set({ escalation: next });
+        if (next.status === 'RUNNING') {
+          get().addEvent('ESCALATION_STEP_STARTED', escalationStepMetadata(next, get().contacts));
+        }
+        return next;
+      },
+
+      acknowledgeEscalation: (acknowledgement) => {
+        const current = get().escalation;
+        if (!current || current.status !== 'RUNNING') return;
+
+        const next = acknowledgeEscalation(current, acknowledgement);
+        set({ escalation: next });
+        const metadata = escalationStepMetadata(next, get().contacts);
+        get().addEvent('ESCALATION_ACKNOWLEDGED', {
+          escalation: {
+            ...metadata.escalation,
+            acknowledgedBy: acknowledgement.contactName,
+            acknowledgedAt: acknowledgement.acknowledgedAt,
+          },
+        });
+      },
+
+      cancelEscalation: () => {
+        const current = get().escalation;
+        if (!current || current.status !== 'RUNNING') return;
+
+        const next = cancelEscalation(current);
+        set({ escalation: next });
+        get().addEvent('ESCALATION_CANCELLED', {
+          escalation: escalationStepMetadata(next, get().contacts).escalation,
+        });
+      },
+
+      clearEscalation: () => {
+        set({ escalation: null });
+      },
+
+      setEscalationEmergencyNumber: (emergencyNumber) => {
+        const current = get().escalation;
+        if (!current || current.status !== 'RUNNING') return;
+        set({ escalation: { ...current, emergencyNumber } });
+      },
+
+      // ========== LIVE LOCATION ==========
+      startLiveLocationSession: (session, contactNames) => {
+        set({ liveLocation: session });
+        get().addEvent('LIVE_LOCATION_STARTED', {
+          contactsNotified: contactNames,
+          liveLocation: { sessionId: session.id },
+        });
+      },
+
+      recordLiveLocationUpdate: (fix, cadence) => {
+        const current = get().liveLocation;
+        if (!current || current.status !== 'ACTIVE') return;
+
+        set({
+          liveLocation: {
+            ...current,
+            currentIntervalSeconds: cadence.intervalSeconds,
+            highAccuracy: cadence.highAccuracy,
+            ...(fix
+              ? {
+                  lastFix: fix,
+                  lastSentAt: new Date().toISOString(),
+                  updatesSent: current.updatesSent + 1,
+                }
+              : {}),
+          },
+        });
+      },
+
+      endLiveLocationSession: (reason) => {
+        const current = get().liveLocation;
+        if (!current || current.status !== 'ACTIVE') return;
+
+        set({ liveLocation: { ...current, status: reason } });
+        get().addEvent('LIVE_LOCATION_ENDED', {
+          liveLocation: {
+            sessionId: current.id,
+            endReason: reason,
+            updatesSent: current.updatesSent,
+          },
+        });
+      },
+
+      clearLiveLocationSession: () => {
+        set({ liveLocation: null });
+      },
+
+      // ========== SAFE ZONES ==========
+      addSafeZone: (zoneData) => {
+        const zone = createSafeZone(zoneData);
+        set((state) => ({ safeZones: [...state.safeZones, zone] }));
+        return zone;
+      },
+
+      updateSafeZone: (id, updates) => {
+        set((state) => {
+          // A moved or resized zone starts over from the next fix.
+          const { [id]: _, ...zonePresence } = state.zonePresence;
+          const reshaped = updates.center !== undefined || updates.radiusMeters !== undefined;
+          return {
+            safeZones: state.safeZones.map((zone) =>
+              zone.id === id ? { ...zone, ...updates, updatedAt: new Date().toISOString() } : zone
+            ),
+            zonePresence: reshaped ? zonePresence : state.zonePresence,
+          };
+        });
+      },
+
+      deleteSafeZone: (id) => {
+        set((state) => {
+          const { [id]: _, ...zonePresence } = state.zonePresence;
+          return {
+            safeZones: state.safeZones.filter((zone) => zone.id !== id),
+            zonePresence,
+          };
+        });
+      },
+
+      setZonePresence: (presence) => {
+        set({ zonePresence: presence });
+      },
+
+      // ========== FALL DETECTION ==========
+      reportFall: (fall) => {
+        // Further falls are ignored while one is being handled.
+        if (get().pendingFall) return;
+        set({ pendingFall: fall });
+      },
+
+      clearPendingFall: () => {
+        set({ pendingFall: null });
+      },
+
       // ========== PERMISSIONS ==========
       updatePermissions: (updates) => {
         set((state) => ({
@@ -337,22 +696,60 @@ export const useSafetyStore = create<SafetyState & SafetyActions>()(
       },
 
       resetStore: () => {
-        set(initialState);
+        // The outbox, not this store, owns what is waiting to sync.
+        set({ ...initialState, pendingSyncCount: get().pendingSyncCount });
       },
     }),
     {
       name: 'carebow-safety-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 3,
+      migrate: migrateSafetyState,
       partialize: (state) => ({
         settings: state.settings,
         events: state.events,
         contacts: state.contacts,
         permissions: state.permissions,
+        escalation: state.escalation,
+        liveLocation: state.liveLocation,
+        safeZones: state.safeZones,
+        zonePresence: state.zonePresence,
       }),
     }
   )
 );
 
+// ============================================
+// OFFLINE SYNC
+// ============================================
+
+subscribeToPendingSync('safety', (pending) => {
+  useSafetyStore.setState({ pendingSyncCount: pending });
+});
+
+// A queued check-in only counts once the server has it; a queued alert's
+// history event says whether it got there, and a queued history save marks
+// its event saved.
+onOutboxEvent(({ outcome, entry }) => {
+  if (entry.scope === 'safetyHistory') {
+    const event = entry.body as Pick<SafetyEvent, 'id' | 'metadata'> | undefined;
+    if (outcome === 'synced' && event?.id) useSafetyStore.getState().markEventsSynced([event]);
+    return;
+  }
+  if (entry.scope !== 'safety') return;
+  const body = entry.body as
+    | { action?: string; completedAt?: string; clientEventId?: string }
+    | undefined;
+  if (body?.clientEventId) {
+    useSafetyStore.getState().updateEventMetadata(body.clientEventId, {
+      delivery: { status: outcome === 'synced' ? 'SENT' : 'FAILED' },
+    });
+  }
+  if (outcome === 'synced' && body?.action === 'complete') {
+    useSafetyStore.getState().recordCheckIn(body.completedAt ?? entry.createdAt);
+  }
+});
+
 // ============================================
 // SELECTOR HOOKS
 // ============================================
@@ -368,6 +765,14 @@ export const useSafetyPermissions = () => useSafetyStore((state) => state.permis
 
 export const useSOSInProgress = () => useSafetyStore((state) => state.sosInProgress);
 
+export const usePendingSafetySync = () => useSafetyStore((state) => state.pendingSyncCount);
+
+export const useSOSEscalation = () => useSafetyStore((state) => state.escalation);
+
+export const useLiveLocationSession = () => useSafetyStore((state) => state.liveLocation);
+
+export const useSafeZones = () => useSafetyStore((state) => state.safeZones);
+
 export const usePrimaryContact = () =>
   useSafetyStore((state) => state.contacts.find((c) => c.isPrimary));
 
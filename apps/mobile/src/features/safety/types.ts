@@ -13,14 +13,26 @@ export type SafetyEventType =
   | 'SOS_TRIGGERED'
   | 'CHECKIN_CONFIRMED'
   | 'CHECKIN_MISSED'
-  | 'TEST_ALERT_SENT';
+  | 'TEST_ALERT_SENT'
+  | 'ESCALATION_STEP_STARTED'
+  | 'ESCALATION_STEP_TIMED_OUT'
+  | 'ESCALATION_ACKNOWLEDGED'
+  | 'ESCALATION_CANCELLED'
+  | 'LIVE_LOCATION_STARTED'
+  | 'LIVE_LOCATION_ENDED'
+  | 'FALL_DETECTED'
+  | 'ZONE_EXITED'
+  | 'ZONE_ENTERED';
 
 export type SafetyEvent = {
   id: string;
   type: SafetyEventType;
+  /** Account signed in when it was recorded, or 'guest' when nobody was. */
   userId: string;
   timestamp: string;
   metadata: SafetyEventMetadata;
+  /** The account's history has this copy of the event. */
+  synced?: boolean;
 };
 
 export type SafetyEventMetadata = {
@@ -32,28 +44,73 @@ export type SafetyEventMetadata = {
   note?: string;
   contactsNotified?: string[];
   wasLate?: boolean;
+  escalation?: {
+    escalationId: string;
+    step: EscalationOrder;
+    acknowledgedBy?: string;
+    acknowledgedAt?: string;
+  };
+  liveLocation?: {
+    sessionId: string;
+    endReason?: LiveLocationStatus;
+    updatesSent?: number;
+  };
+  fall?: {
+    peakImpactG: number;
+    freeFallMs: number;
+  };
+  zone?: {
+    zoneId: string;
+    zoneName: string;
+    memberName: string;
+    /** Whether contacts were alerted, i.e. the move happened outside allowed hours. */
+    alerted: boolean;
+  };
+  /** What CareBow's server said about the alert this event sent. */
+  delivery?: SafetyEventDelivery;
+};
+
+export type SafetyEventDelivery = {
+  /**
+   * SENT: the server accepted it. QUEUED: saved on the device and waiting to
+   * reach the server. FAILED: the server could not be reached or refused it.
+   */
+  status: 'SENT' | 'QUEUED' | 'FAILED';
+  /** The server's id for the alert, once it has one. */
+  serverEventId?: string;
 };
 
 // ============================================
 // SAFETY SETTINGS
 // ============================================
 
-export type EscalationOrder = 'PRIMARY_CONTACT' | 'ALL_CONTACTS';
+export type EscalationOrder = 'PRIMARY_CONTACT' | 'ALL_CONTACTS' | 'EMERGENCY_SERVICES';
 
 export type SafetySettings = {
   // Daily check-in
   dailyCheckInEnabled: boolean;
-  dailyCheckInTime: string; // HH:mm format, default "10:00"
-  gracePeriodMinutes: number; // default 60
+  checkInWindows: CheckInWindow[]; // default one 10:00 window every day
 
   // Escalation
   escalationEnabled: boolean;
   escalationOrder: EscalationOrder[];
+  escalationStepTimeoutMinutes: number; // default 5
+
+  // Live location during SOS
+  liveLocationIntervalSeconds: number; // default 60
+  liveLocationDurationMinutes: number; // default 60
 
   // Location sharing
   shareLocationOnSOS: boolean;
   shareLocationOnMissedCheckIn: boolean;
 
+  // Fall detection (opt-in, keeps running in the background)
+  fallDetectionEnabled: boolean;
+
+  // Safe zones (opt-in, watches this device's location)
+  safeZonesEnabled: boolean;
+  safeZoneMemberId: string | null; // Member carrying this device; only their zones are watched
+
   // Check-in tracking
   lastCheckInAt: string | null; // ISO timestamp
   lastMissedCheckInAt: string | null; // ISO timestamp
@@ -80,6 +137,22 @@ export type SafetyContact = {
   updatedAt: string;
 };
 
+// ============================================
+// CHECK-IN WINDOWS
+// ============================================
+
+export type CheckInWindow = {
+  id: string;
+  time: string; // HH:mm format
+  gracePeriodMinutes: number;
+  /** Weekdays the window applies on, 0 = Sunday. */
+  daysOfWeek: number[];
+};
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 // ============================================
 // CHECK-IN STATUS
 // ============================================
@@ -93,9 +166,10 @@ export type CheckInStatus =
 
 export type CheckInState = {
   status: CheckInStatus;
-  checkInTime: string | null; // When user checked in (if they did)
-  scheduledTime: string;      // When check-in was scheduled
-  deadlineTime: string;       // End of grace period
+  windowId: string | null;      // Window the state is for; null when none is scheduled
+  checkInTime: string | null;   // When user checked in (if they did)
+  scheduledTime: string | null; // When check-in was scheduled (next one when NOT_DUE)
+  deadlineTime: string | null;  // End of grace period
   isOverdue: boolean;
 };
 
@@ -114,6 +188,102 @@ export type SOSState = {
   contactsToNotify: SafetyContact[];
 };
 
+// ============================================
+// SOS ESCALATION
+// ============================================
+
+export type EscalationStep = {
+  kind: EscalationOrder;
+  contactIds: string[];
+  /** Seconds to wait for an acknowledgement; null when nothing follows this step. */
+  timeoutSeconds: number | null;
+};
+
+export type EscalationStatus = 'RUNNING' | 'ACKNOWLEDGED' | 'EXHAUSTED' | 'CANCELLED';
+
+export type EscalationAcknowledgement = {
+  contactId: string | null;
+  contactName: string;
+  acknowledgedAt: string;
+};
+
+export type SOSEscalation = {
+  id: string;
+  sosEventId: string; // Server SOS event the ladder escalates
+  startedAt: string;
+  steps: EscalationStep[];
+  currentStepIndex: number;
+  stepStartedAt: string;
+  status: EscalationStatus;
+  acknowledgement: EscalationAcknowledgement | null;
+  emergencyNumber: string;
+};
+
+export const ESCALATION_STEP_LABELS: Record<EscalationOrder, string> = {
+  PRIMARY_CONTACT: 'Primary contact',
+  ALL_CONTACTS: 'All contacts',
+  EMERGENCY_SERVICES: 'Emergency services',
+};
+
+// ============================================
+// LIVE LOCATION
+// ============================================
+
+export type LiveLocationStatus = 'ACTIVE' | 'STOPPED' | 'EXPIRED';
+
+export type LiveLocationFix = {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  timestamp: number;
+};
+
+export type LiveLocationSession = {
+  id: string; // Server session id
+  sosEventId: string | null;
+  shareUrl: string; // Tokenized link contacts can open without an account
+  startedAt: string;
+  expiresAt: string;
+  baseIntervalSeconds: number;
+  currentIntervalSeconds: number; // After battery throttling
+  highAccuracy: boolean;
+  lastFix: LiveLocationFix | null;
+  lastSentAt: string | null;
+  updatesSent: number;
+  status: LiveLocationStatus;
+};
+
+// ============================================
+// SAFE ZONES
+// ============================================
+
+/** Hours when the member may come and go without contacts being alerted. */
+export type SafeZoneHours = {
+  id: string;
+  start: string; // HH:mm
+  end: string; // HH:mm; earlier than start when the hours run past midnight
+  /** Weekdays the hours start on, 0 = Sunday. */
+  daysOfWeek: number[];
+};
+
+export type SafeZone = {
+  id: string;
+  memberId: string; // Family member the zone is for
+  name: string;
+  center: { lat: number; lng: number };
+  radiusMeters: number;
+  allowedHours: SafeZoneHours[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SafeZonePresence = {
+  status: 'INSIDE' | 'OUTSIDE';
+  since: string;
+  /** An exit alerted contacts and they have not yet heard the member is back. */
+  alertOpen: boolean;
+};
+
 // ============================================
 // PERMISSION STATE
 // ============================================
@@ -131,12 +301,19 @@ export type SafetyPermissions = {
 
 export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {
   dailyCheckInEnabled: false,
-  dailyCheckInTime: '10:00',
-  gracePeriodMinutes: 60,
+  checkInWindows: [
+    { id: 'default', time: '10:00', gracePeriodMinutes: 60, daysOfWeek: ALL_WEEKDAYS },
+  ],
   escalationEnabled: true,
-  escalationOrder: ['PRIMARY_CONTACT', 'ALL_CONTACTS'],
+  escalationOrder: ['PRIMARY_CONTACT', 'ALL_CONTACTS', 'EMERGENCY_SERVICES'],
+  escalationStepTimeoutMinutes: 5,
+  liveLocationIntervalSeconds: 60,
+  liveLocationDurationMinutes: 60,
   shareLocationOnSOS: true,
   shareLocationOnMissedCheckIn: false,
+  fallDetectionEnabled: false,
+  safeZonesEnabled: false,
+  safeZoneMemberId: null,
   lastCheckInAt: null,
   lastMissedCheckInAt: null,
   checkInNotificationId: null,
@@ -161,6 +338,25 @@ export function createSafetyEvent(
   };
 }
 
+export function createCheckInWindow(data: Omit<CheckInWindow, 'id'>): CheckInWindow {
+  return {
+    ...data,
+    id: generateId(),
+  };
+}
+
+export function createSafeZone(
+  data: Omit<SafeZone, 'id' | 'createdAt' | 'updatedAt'>
+): SafeZone {
+  const now = new Date().toISOString();
+  return {
+    ...data,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 export function createSafetyContact(
   data: Omit<SafetyContact, 'id' | 'createdAt' | 'updatedAt'>
 ): SafetyContact {
@@ -190,6 +386,8 @@ export const SMS_TEMPLATES = {
   MISSED_CHECKIN_WITHOUT_LOCATION: (name: string) =>
     `Alert: ${name} missed their daily check-in today. Please reach out.`,
 
+  LIVE_LOCATION: (shareUrl: string) => `Follow my live location: ${shareUrl}`,
+
   TEST_ALERT: (name: string) =>
     `This is a test alert from ${name}'s CareBow safety system. No action needed.`,
 } as const;
@@ -202,6 +400,21 @@ export function createGoogleMapsLink(lat: number, lng: number): string {
   return `https://maps.google.com/?q=${lat},${lng}`;
 }
 
+/** Great-circle distance between two coordinates, in meters. */
+export function distanceInMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const earthRadiusMeters = 6371000;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadiusMeters * Math.asin(Math.sqrt(h));
+}
+
 export function formatLocationForSMS(location: { lat: number; lng: number } | null): string {
   if (!location) return '';
   return createGoogleMapsLink(location.lat, location.lng);
@@ -13,6 +13,14 @@ import {
   isValidTimeFormat,
   isValidGracePeriod,
   getCheckInStatusMessage,
+  getCheckInState,
+  getCheckInOccurrences,
+  isSameCheckInPeriod,
+  isValidCheckInWindow,
+  hasOverlappingCheckInWindows,
+  formatWindowDays,
+  alreadyRecordedMissedCheckIn,
+  getMissedOccurrences,
 } from '../services/checkInService';
 
 import {
@@ -27,11 +35,19 @@ import {
   SMS_TEMPLATES,
   createGoogleMapsLink,
   formatLocationForSMS,
+  distanceInMeters,
   DEFAULT_SAFETY_SETTINGS,
   createSafetyEvent,
   createSafetyContact,
+  ALL_WEEKDAYS,
+  CheckInWindow,
+  SafetySettings,
 } from '../types';
 
+function window(time: string, overrides: Partial<CheckInWindow> = {}): CheckInWindow {
+  return { id: `w-${time}`, time, gracePeriodMinutes: 60, daysOfWeek: ALL_WEEKDAYS, ...overrides };
+}
+
 // ============================================
 // CHECK-IN SERVICE TESTS
 // ============================================
@@ -54,7 +70,7 @@ describe('Check-in Service', () => {
         const settings = {
           ...DEFAULT_SAFETY_SETTINGS,
           dailyCheckInEnabled: true,
-          dailyCheckInTime: '11:00', // one hour before the pinned now
+          checkInWindows: [window('11:00')], // one hour before the pinned now
         };
 
         expect(isCheckInDueToday(settings)).toBe(true);
@@ -68,7 +84,7 @@ describe('Check-in Service', () => {
       const settings = {
         ...DEFAULT_SAFETY_SETTINGS,
         dailyCheckInEnabled: true,
-        dailyCheckInTime: '23:59',
+        checkInWindows: [window('23:59')],
       };
 
       const now = new Date();
@@ -89,8 +105,7 @@ describe('Check-in Service', () => {
       const settings = {
         ...DEFAULT_SAFETY_SETTINGS,
         dailyCheckInEnabled: true,
-        dailyCheckInTime: '00:00',
-        gracePeriodMinutes: 60,
+        checkInWindows: [window('00:00')],
         lastCheckInAt: now.toISOString(),
       };
 
@@ -126,6 +141,141 @@ describe('Check-in Service', () => {
     });
   });
 
+  describe('check-in windows', () => {
+    // Thursday 15 January 2026; weekend windows cover Saturday and Sunday.
+    const morning = window('09:00', { id: 'morning', daysOfWeek: [1, 2, 3, 4, 5] });
+    const evening = window('20:00', { id: 'evening', gracePeriodMinutes: 30 });
+    const weekend = window('11:00', { id: 'weekend', daysOfWeek: [0, 6] });
+    const settings: SafetySettings = {
+      ...DEFAULT_SAFETY_SETTINGS,
+      dailyCheckInEnabled: true,
+      checkInWindows: [evening, morning, weekend],
+    };
+    const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+
+    it('splits a day into one period per window', () => {
+      const occurrences = getCheckInOccurrences(settings.checkInWindows, at(15, 12));
+
+      expect(occurrences.map((o) => o.window.id)).toEqual(['morning', 'evening']);
+      expect(occurrences[0].periodStart).toEqual(at(15, 0));
+      expect(occurrences[0].periodEnd).toEqual(at(15, 20));
+      expect(occurrences[1].deadlineAt).toEqual(at(15, 20, 30));
+      expect(
+        getCheckInOccurrences(settings.checkInWindows, at(17, 12)).map((o) => o.window.id)
+      ).toEqual(['weekend', 'evening']);
+    });
+
+    it('tracks each window separately', () => {
+      const checkedInMorning = { ...settings, lastCheckInAt: at(15, 9, 5).toISOString() };
+
+      expect(getCheckInState(checkedInMorning, at(15, 12)).status).toBe('CHECKED_IN');
+      expect(getCheckInState(checkedInMorning, at(15, 20, 10))).toMatchObject({
+        status: 'DUE',
+        windowId: 'evening',
+      });
+      expect(getCheckInState(checkedInMorning, at(15, 20, 31)).status).toBe('MISSED');
+    });
+
+    it('uses the grace period of each window', () => {
+      expect(getCheckInState(settings, at(15, 9, 45)).status).toBe('DUE');
+      expect(getCheckInState(settings, at(15, 10, 1)).status).toBe('MISSED');
+
+      const late = { ...settings, lastCheckInAt: at(15, 11).toISOString() };
+      expect(getCheckInState(late, at(15, 12)).status).toBe('CHECKED_IN_LATE');
+    });
+
+    it('shows the next window before one opens or on a day without one', () => {
+      expect(getCheckInState(settings, at(17, 8))).toMatchObject({
+        status: 'NOT_DUE',
+        windowId: 'weekend',
+        scheduledTime: at(17, 11).toISOString(),
+      });
+
+      const weekdaysOnly = { ...settings, checkInWindows: [morning] };
+      expect(getCheckInState(weekdaysOnly, at(17, 12))).toMatchObject({
+        status: 'NOT_DUE',
+        scheduledTime: at(19, 9).toISOString(),
+      });
+    });
+
+    it('reports nothing scheduled without windows', () => {
+      const state = getCheckInState({ ...settings, checkInWindows: [] }, at(15, 12));
+
+      expect(state).toMatchObject({ status: 'NOT_DUE', windowId: null, scheduledTime: null });
+      expect(getCheckInStatusMessage(state)).toBe('No check-in scheduled');
+    });
+
+    it('records a missed check-in once per window', () => {
+      const missedMorning = { ...settings, lastMissedCheckInAt: at(15, 10, 1).toISOString() };
+
+      expect(alreadyRecordedMissedCheckIn(missedMorning, at(15, 15))).toBe(true);
+      expect(alreadyRecordedMissedCheckIn(missedMorning, at(15, 20, 31))).toBe(false);
+      expect(isSameCheckInPeriod(settings.checkInWindows, at(15, 8), at(15, 19))).toBe(true);
+      expect(isSameCheckInPeriod(settings.checkInWindows, at(15, 19), at(15, 21))).toBe(false);
+    });
+
+    it('finds every window missed since the last check-in, not only the current one', () => {
+      // Checked in Wednesday evening, app closed until Thursday night
+      const closed = { ...settings, lastCheckInAt: at(14, 20, 5).toISOString() };
+      const missed = getMissedOccurrences(closed, at(15, 20, 31));
+
+      expect(missed.map((o) => [o.window.id, o.scheduledAt])).toEqual([
+        ['morning', at(15, 9)],
+        ['evening', at(15, 20)],
+      ]);
+    });
+
+    it('skips windows already recorded as missed or checked in', () => {
+      const recordedMorning = {
+        ...settings,
+        lastCheckInAt: at(14, 20, 5).toISOString(),
+        lastMissedCheckInAt: at(15, 9).toISOString(),
+      };
+      expect(getMissedOccurrences(recordedMorning, at(15, 20, 31)).map((o) => o.window.id)).toEqual(
+        ['evening']
+      );
+
+      const checkedInMorning = { ...settings, lastCheckInAt: at(15, 9, 5).toISOString() };
+      expect(getMissedOccurrences(checkedInMorning, at(15, 20, 10))).toEqual([]);
+    });
+
+    it('only counts the current window before any check-in', () => {
+      expect(getMissedOccurrences(settings, at(15, 20, 31)).map((o) => o.window.id)).toEqual([
+        'evening',
+      ]);
+      expect(getMissedOccurrences({ ...settings, dailyCheckInEnabled: false }, at(15, 21))).toEqual(
+        []
+      );
+    });
+
+    it('validates windows and rejects overlapping ones', () => {
+      expect(isValidCheckInWindow(morning)).toBe(true);
+      expect(isValidCheckInWindow({ ...morning, daysOfWeek: [] })).toBe(false);
+      expect(isValidCheckInWindow({ ...morning, time: '25:00' })).toBe(false);
+
+      expect(hasOverlappingCheckInWindows(settings.checkInWindows)).toBe(false);
+      expect(
+        hasOverlappingCheckInWindows([
+          window('09:00', { gracePeriodMinutes: 240, daysOfWeek: [1] }),
+          window('12:00', { daysOfWeek: [1, 2] }),
+        ])
+      ).toBe(true);
+      expect(
+        hasOverlappingCheckInWindows([
+          window('09:00', { gracePeriodMinutes: 240, daysOfWeek: [1] }),
+          window('12:00', { daysOfWeek: [2] }),
+        ])
+      ).toBe(false);
+    });
+
+    it('describes weekday masks', () => {
+      expect(formatWindowDays(ALL_WEEKDAYS)).toBe('Every day');
+      expect(formatWindowDays([1, 2, 3, 4, 5])).toBe('Weekdays');
+      expect(formatWindowDays([6, 0])).toBe('Weekends');
+      expect(formatWindowDays([4, 1])).toBe('Mon, Thu');
+    });
+  });
+
   describe('isSameLocalDay', () => {
     it('returns true for same day', () => {
       const date1 = new Date(2024, 0, 15, 10, 0);
@@ -200,6 +350,7 @@ describe('Check-in Service', () => {
     it('returns correct message for checked in status', () => {
       const state = {
         status: 'CHECKED_IN' as const,
+        windowId: 'default',
         checkInTime: new Date().toISOString(),
         scheduledTime: new Date().toISOString(),
         deadlineTime: new Date().toISOString(),
@@ -213,6 +364,7 @@ describe('Check-in Service', () => {
     it('returns correct message for missed status', () => {
       const state = {
         status: 'MISSED' as const,
+        windowId: 'default',
         checkInTime: null,
         scheduledTime: new Date().toISOString(),
         deadlineTime: new Date().toISOString(),
@@ -285,6 +437,18 @@ describe('SOS Service', () => {
       expect(message).toContain('John');
       expect(message).toContain('maps.google.com');
     });
+
+    it('appends the live location link when a session is sharing', () => {
+      const message = generateSOSMessage(
+        'John',
+        null,
+        false,
+        null,
+        'https://carebow.com/live/abc123'
+      );
+      expect(message).toContain('SOS');
+      expect(message).toContain('https://carebow.com/live/abc123');
+    });
   });
 
   describe('generateMissedCheckInMessage', () => {
@@ -357,6 +521,19 @@ describe('Safety Types', () => {
     });
   });
 
+  describe('distanceInMeters', () => {
+    const nyc = { lat: 40.7128, lng: -74.006 };
+
+    it('returns zero for the same point', () => {
+      expect(distanceInMeters(nyc, { ...nyc })).toBe(0);
+    });
+
+    it('measures short distances to within a meter', () => {
+      // 0.001 degrees of latitude is about 111 meters everywhere.
+      expect(distanceInMeters(nyc, { ...nyc, lat: 40.7138 })).toBeCloseTo(111.2, 0);
+    });
+  });
+
   describe('createSafetyEvent', () => {
     it('creates event with correct type', () => {
       const event = createSafetyEvent('SOS_TRIGGERED', 'user123', { note: 'test' });
@@ -395,8 +572,9 @@ describe('Safety Types', () => {
   describe('DEFAULT_SAFETY_SETTINGS', () => {
     it('has correct default values', () => {
       expect(DEFAULT_SAFETY_SETTINGS.dailyCheckInEnabled).toBe(false);
-      expect(DEFAULT_SAFETY_SETTINGS.dailyCheckInTime).toBe('10:00');
-      expect(DEFAULT_SAFETY_SETTINGS.gracePeriodMinutes).toBe(60);
+      expect(DEFAULT_SAFETY_SETTINGS.checkInWindows).toEqual([
+        { id: 'default', time: '10:00', gracePeriodMinutes: 60, daysOfWeek: ALL_WEEKDAYS },
+      ]);
       expect(DEFAULT_SAFETY_SETTINGS.shareLocationOnSOS).toBe(true);
       expect(DEFAULT_SAFETY_SETTINGS.shareLocationOnMissedCheckIn).toBe(false);
       expect(DEFAULT_SAFETY_SETTINGS.escalationEnabled).toBe(true);
@@ -0,0 +1,93 @@
+/**
+ * Abnormal Vital Alert
+ * Flags an out-of-range reading and offers to talk it through with Ask CareBow
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { colors, spacing, radius, typography } from '@/theme';
+import { useVitalUnitPreferences } from '../store/useVitalsStore';
+import { formatEntryValue } from '../services/vitalReadings';
+import { isCriticalStatus, statusLabel } from '../services/vitalRanges';
+import { AbnormalVitalEntry, VITAL_ENTRY_CONFIG } from '../types';
+
+interface AbnormalVitalAlertProps {
+  entry: AbnormalVitalEntry;
+  onAskCareBow: (entry: AbnormalVitalEntry) => void;
+}
+
+export function AbnormalVitalAlert({ entry, onAskCareBow }: AbnormalVitalAlertProps) {
+  const preferences = useVitalUnitPreferences();
+  const critical = isCriticalStatus(entry.status);
+  const tint = critical ? colors.error : colors.warning;
+
+  return (
+    <View
+      style={[styles.card, { backgroundColor: critical ? colors.errorSoft : colors.warningSoft }]}
+    >
+      <View style={styles.header}>
+        <Icon name={critical ? 'alert-circle' : 'warning-outline'} size={20} color={tint} />
+        <Text style={[styles.title, { color: tint }]}>
+          {statusLabel(entry.status)} {VITAL_ENTRY_CONFIG[entry.entryType].noun}
+        </Text>
+      </View>
+      <Text style={styles.value}>
+        {formatEntryValue(entry.entryType, entry.readings, preferences)}
+      </Text>
+      <Text style={styles.hint}>
+        {critical
+          ? 'This reading is well outside the normal range. If there are symptoms like chest pain, breathlessness or confusion, call emergency services.'
+          : 'This reading is outside the normal range for this age.'}
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, { borderColor: tint }]}
+        onPress={() => onAskCareBow(entry)}
+      >
+        <Icon name="chatbubble-ellipses-outline" size={16} color={tint} />
+        <Text style={[styles.buttonText, { color: tint }]}>Ask CareBow about this</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  title: {
+    ...typography.label,
+  },
+  value: {
+    ...typography.h4,
+    color: colors.textPrimary,
+    marginTop: spacing.xs,
+  },
+  hint: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: spacing.xxs,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  buttonText: {
+    ...typography.labelSmall,
+  },
+});
@@ -0,0 +1,232 @@
+/**
+ * Vital Trend Chart
+ * Readings for one entry type over 7, 30 or 90 days, with the normal range shaded
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Rect } from 'react-native-svg';
+import { colors, spacing, radius, typography } from '@/theme';
+import { useVitalUnitPreferences } from '../store/useVitalsStore';
+import { buildTrendSeries, summarizeTrend } from '../services/vitalTrends';
+import { displayUnitFor, formatVitalValue, toDisplayValue } from '../services/vitalReadings';
+import { assessVitalValue, getVitalRange } from '../services/vitalRanges';
+import {
+  TREND_WINDOWS,
+  TrendWindow,
+  VITAL_KIND_CONFIG,
+  VitalEntryType,
+  VitalReading,
+} from '../types';
+
+const CHART_HEIGHT = 160;
+const PADDING = 12;
+const SERIES_COLORS = [colors.accent, colors.info];
+
+interface VitalTrendChartProps {
+  readings: VitalReading[];
+  entryType: VitalEntryType;
+  /** Member age in years, for the shaded normal range. */
+  age?: number;
+}
+
+export function VitalTrendChart({ readings, entryType, age }: VitalTrendChartProps) {
+  const preferences = useVitalUnitPreferences();
+  const [days, setDays] = useState<TrendWindow>(30);
+  const [width, setWidth] = useState(0);
+
+  const unit = displayUnitFor(entryType, preferences);
+  const series = useMemo(
+    () => buildTrendSeries(readings, entryType, days, preferences),
+    [readings, entryType, days, preferences]
+  );
+
+  // Normal range of each series, in the display unit.
+  const bands = useMemo(
+    () =>
+      series.map(({ kind }) => {
+        const range = getVitalRange(kind, age);
+        if (!range || range.low === undefined || range.high === undefined) return null;
+        return {
+          low: toDisplayValue(kind, range.low, preferences),
+          high: toDisplayValue(kind, range.high, preferences),
+        };
+      }),
+    [series, age, preferences]
+  );
+
+  const hasPoints = series.some((s) => s.points.length > 0);
+  const to = Date.now();
+  const from = to - days * 24 * 60 * 60 * 1000;
+
+  // Y domain covers every point and the normal bands, with a little headroom.
+  const values = [
+    ...series.flatMap((s) => s.points.map((p) => p.value)),
+    ...bands.flatMap((b) => (b ? [b.low, b.high] : [])),
+  ];
+  const rawMin = Math.min(...values);
+  const rawMax = Math.max(...values);
+  const pad = Math.max((rawMax - rawMin) * 0.1, 1);
+  const yMin = rawMin - pad;
+  const yMax = rawMax + pad;
+
+  const x = (iso: string) =>
+    PADDING + ((Date.parse(iso) - from) / (to - from)) * (width - PADDING * 2);
+  const y = (value: number) =>
+    PADDING + (1 - (value - yMin) / (yMax - yMin)) * (CHART_HEIGHT - PADDING * 2);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.windowRow}>
+        {TREND_WINDOWS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.windowChip, days === option && styles.windowChipActive]}
+            onPress={() => setDays(option)}
+          >
+            <Text style={[styles.windowText, days === option && styles.windowTextActive]}>
+              {option} days
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View
+        style={styles.chart}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {!hasPoints ? (
+          <Text style={styles.emptyText}>No readings in the last {days} days</Text>
+        ) : (
+          width > 0 && (
+            <Svg width={width} height={CHART_HEIGHT}>
+              {bands.map((band, i) =>
+                band ? (
+                  <Rect
+                    key={`band-${series[i].kind}`}
+                    x={PADDING}
+                    y={y(band.high)}
+                    width={width - PADDING * 2}
+                    height={Math.max(y(band.low) - y(band.high), 1)}
+                    fill={SERIES_COLORS[i]}
+                    opacity={0.08}
+                  />
+                ) : null
+              )}
+              <Line
+                x1={PADDING}
+                y1={CHART_HEIGHT - PADDING}
+                x2={width - PADDING}
+                y2={CHART_HEIGHT - PADDING}
+                stroke={colors.border}
+                strokeWidth={1}
+              />
+              {series.map((s, i) => (
+                <React.Fragment key={s.kind}>
+                  {s.points.length > 1 && (
+                    <Polyline
+                      points={s.points.map((p) => `${x(p.recordedAt)},${y(p.value)}`).join(' ')}
+                      fill="none"
+                      stroke={SERIES_COLORS[i]}
+                      strokeWidth={2}
+                    />
+                  )}
+                  {s.points.map((p) => {
+                    const canonical = readings.find(
+                      (r) => r.kind === s.kind && r.recordedAt === p.recordedAt
+                    );
+                    const abnormal =
+                      canonical && assessVitalValue(s.kind, canonical.value, age) !== 'normal';
+                    return (
+                      <Circle
+                        key={`${s.kind}-${p.recordedAt}`}
+                        cx={x(p.recordedAt)}
+                        cy={y(p.value)}
+                        r={abnormal ? 4 : 3}
+                        fill={abnormal ? colors.error : SERIES_COLORS[i]}
+                      />
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </Svg>
+          )
+        )}
+      </View>
+
+      {series.map((s, i) => {
+        const summary = summarizeTrend(s.points);
+        if (!summary) return null;
+        return (
+          <View key={s.kind} style={styles.summaryRow}>
+            <View style={[styles.legendDot, { backgroundColor: SERIES_COLORS[i] }]} />
+            <Text style={styles.summaryLabel}>{VITAL_KIND_CONFIG[s.kind].label}</Text>
+            <Text style={styles.summaryText}>
+              {formatVitalValue(summary.min, unit)}–{formatVitalValue(summary.max, unit)} {unit}
+              {'  ·  '}avg {formatVitalValue(summary.average, unit)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  windowChip: {
+    paddingVertical: spacing.xxs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.full,
+    backgroundColor: colors.surface2,
+  },
+  windowChipActive: {
+    backgroundColor: colors.accentMuted,
+  },
+  windowText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  windowTextActive: {
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    justifyContent: 'center',
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  summaryLabel: {
+    ...typography.labelSmall,
+    color: colors.textSecondary,
+  },
+  summaryText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+});
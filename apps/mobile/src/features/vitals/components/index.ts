@@ -0,0 +1,6 @@
+/**
+ * Vitals Components Barrel Export
+ */
+
+export { VitalTrendChart } from './VitalTrendChart';
+export { AbnormalVitalAlert } from './AbnormalVitalAlert';
@@ -0,0 +1,16 @@
+/**
+ * Vitals Feature Barrel Export
+ * Typed vitals, unit conversion, age-aware ranges and trends
+ */
+
+// Types
+export * from './types';
+
+// Store
+export * from './store';
+
+// Services
+export * from './services';
+
+// Components
+export * from './components';
@@ -0,0 +1,7 @@
+/**
+ * Vitals Services Export
+ */
+
+export * from './vitalReadings';
+export * from './vitalRanges';
+export * from './vitalTrends';
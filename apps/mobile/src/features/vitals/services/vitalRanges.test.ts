@@ -0,0 +1,102 @@
+import {
+  assessVitalValue,
+  describeAbnormalEntry,
+  findAbnormalEntries,
+  getVitalRange,
+} from './vitalRanges';
+import { buildTrendSeries, summarizeTrend } from './vitalTrends';
+import { VitalKind, VitalReading } from '../types';
+
+function reading(kind: VitalKind, value: number, recordedAt: string): VitalReading {
+  return { id: `${kind}-${recordedAt}`, sourceId: recordedAt, kind, value, recordedAt };
+}
+
+describe('age-aware ranges', () => {
+  it('uses the range for the member age band', () => {
+    expect(assessVitalValue('heart_rate', 110, 6)).toBe('normal');
+    expect(assessVitalValue('heart_rate', 110, 40)).toBe('high');
+    expect(assessVitalValue('bp_systolic', 135, 72)).toBe('normal');
+    expect(assessVitalValue('bp_systolic', 135, 45)).toBe('high');
+  });
+
+  it('falls back to adult ranges without a usable age', () => {
+    expect(getVitalRange('heart_rate')).toEqual(getVitalRange('heart_rate', 30));
+  });
+
+  it('separates urgent readings from merely abnormal ones', () => {
+    expect(assessVitalValue('spo2', 93)).toBe('low');
+    expect(assessVitalValue('spo2', 88)).toBe('critical_low');
+    // Any fever in a baby is urgent; the same reading in an adult is not.
+    expect(assessVitalValue('temperature', 38.2, 0)).toBe('critical_high');
+    expect(assessVitalValue('temperature', 38.2, 30)).toBe('high');
+  });
+
+  it('does not range-check weight', () => {
+    expect(getVitalRange('weight', 40)).toBeNull();
+    expect(assessVitalValue('weight', 140, 40)).toBe('normal');
+  });
+});
+
+describe('findAbnormalEntries', () => {
+  it('flags only the latest entry of each type, worst first', () => {
+    const readings = [
+      reading('bp_systolic', 150, '2026-03-03T08:00:00.000Z'),
+      reading('bp_diastolic', 85, '2026-03-03T08:00:00.000Z'),
+      reading('heart_rate', 140, '2026-03-01T08:00:00.000Z'),
+      reading('heart_rate', 72, '2026-03-02T08:00:00.000Z'),
+      reading('spo2', 89, '2026-03-02T09:00:00.000Z'),
+    ];
+
+    const alerts = findAbnormalEntries(readings, 50);
+
+    expect(alerts.map((a) => [a.entryType, a.status])).toEqual([
+      ['spo2', 'critical_low'],
+      ['blood_pressure', 'high'],
+    ]);
+    expect(alerts[1].readings).toHaveLength(2);
+  });
+
+  it('describes the entry for an Ask CareBow session', () => {
+    const [alert] = findAbnormalEntries(
+      [
+        reading('bp_systolic', 165, '2026-03-03T08:00:00.000Z'),
+        reading('bp_diastolic', 102, '2026-03-03T08:00:00.000Z'),
+      ],
+      68
+    );
+
+    const prompt = describeAbnormalEntry(alert, {}, 'Asha');
+    expect(prompt).toMatch(/^Asha's blood pressure was 165\/102 mmHg on /);
+    expect(prompt).toContain('above the normal range');
+  });
+});
+
+describe('trends', () => {
+  const now = new Date('2026-03-31T12:00:00.000Z');
+  const readings = [
+    reading('weight', 70, '2026-03-30T08:00:00.000Z'),
+    reading('weight', 71, '2026-03-20T08:00:00.000Z'),
+    reading('weight', 72, '2026-02-15T08:00:00.000Z'),
+  ];
+
+  it('keeps the window, oldest first, in the display unit', () => {
+    const [series] = buildTrendSeries(readings, 'weight', 30, {}, now);
+    expect(series.points.map((p) => p.value)).toEqual([71, 70]);
+
+    const [inPounds] = buildTrendSeries(readings, 'weight', 90, { weight: 'lb' }, now);
+    expect(inPounds.points).toHaveLength(3);
+    expect(inPounds.points[2].value).toBeCloseTo(154.3, 1);
+  });
+
+  it('summarizes a series', () => {
+    const [series] = buildTrendSeries(readings, 'weight', 90, {}, now);
+    expect(summarizeTrend(series.points)).toEqual({
+      latest: 70,
+      min: 70,
+      max: 72,
+      average: 71,
+      change: -2,
+    });
+    expect(summarizeTrend([])).toBeNull();
+  });
+});
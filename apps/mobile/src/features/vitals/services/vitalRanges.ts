@@ -0,0 +1,185 @@
+/**
+ * Vital Ranges
+ * Age-aware normal ranges and the rules that flag readings outside them
+ *
+ * Ranges are resting values for home measurement, in canonical units. They
+ * are screening bounds for "worth a conversation", not diagnostic cut-offs.
+ */
+
+import type { AgeGroup } from '@/types/askCarebow';
+import { ageToAgeGroup } from '@/lib/askCarebow/patientContext';
+import { formatEntryValue, groupReadingsByEntry } from './vitalReadings';
+import {
+  AbnormalVitalEntry,
+  VITAL_ENTRY_CONFIG,
+  VitalEntryType,
+  VitalKind,
+  VitalRange,
+  VitalRangeTable,
+  VitalReading,
+  VitalStatus,
+  VitalUnitPreferences,
+} from '../types';
+
+// ============================================
+// RANGE TABLES
+// ============================================
+
+const sameForAllAges = (range: VitalRange): VitalRangeTable => ({
+  infant: range,
+  child: range,
+  teen: range,
+  adult: range,
+  senior: range,
+});
+
+const VITAL_RANGES: Record<VitalKind, VitalRangeTable | null> = {
+  bp_systolic: {
+    infant: { low: 70, high: 100, criticalLow: 60, criticalHigh: 130 },
+    child: { low: 90, high: 115, criticalLow: 70, criticalHigh: 140 },
+    teen: { low: 90, high: 125, criticalLow: 80, criticalHigh: 160 },
+    adult: { low: 90, high: 129, criticalLow: 80, criticalHigh: 180 },
+    senior: { low: 90, high: 139, criticalLow: 80, criticalHigh: 180 },
+  },
+  bp_diastolic: {
+    infant: { low: 35, high: 65, criticalHigh: 90 },
+    child: { low: 55, high: 75, criticalHigh: 100 },
+    teen: { low: 55, high: 80, criticalHigh: 110 },
+    adult: { low: 60, high: 79, criticalLow: 40, criticalHigh: 120 },
+    senior: { low: 60, high: 89, criticalLow: 40, criticalHigh: 120 },
+  },
+  glucose_fasting: sameForAllAges({ low: 70, high: 99, criticalLow: 54, criticalHigh: 250 }),
+  glucose_random: sameForAllAges({ low: 70, high: 139, criticalLow: 54, criticalHigh: 300 }),
+  spo2: sameForAllAges({ low: 95, criticalLow: 90 }),
+  temperature: {
+    // Any fever in a baby under one needs a clinician.
+    infant: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 38 },
+    child: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 39.5 },
+    teen: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 39.5 },
+    adult: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 39.5 },
+    senior: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 39.5 },
+  },
+  heart_rate: {
+    infant: { low: 100, high: 160, criticalLow: 60, criticalHigh: 220 },
+    child: { low: 70, high: 120, criticalLow: 50, criticalHigh: 180 },
+    teen: { low: 60, high: 100, criticalLow: 40, criticalHigh: 150 },
+    adult: { low: 60, high: 100, criticalLow: 40, criticalHigh: 130 },
+    senior: { low: 60, high: 100, criticalLow: 40, criticalHigh: 130 },
+  },
+  // Weight has no normal range on its own; it is only trended.
+  weight: null,
+};
+
+/**
+ * The normal range for a kind at an age. Without a usable age the adult
+ * range applies. Null for kinds that are not range-checked.
+ */
+export function getVitalRange(kind: VitalKind, age?: number): VitalRange | null {
+  const table = VITAL_RANGES[kind];
+  if (!table) return null;
+  const group: AgeGroup = (age !== undefined && ageToAgeGroup(age)) || 'adult';
+  return table[group];
+}
+
+// ============================================
+// ASSESSMENT
+// ============================================
+
+const STATUS_SEVERITY: Record<VitalStatus, number> = {
+  normal: 0,
+  low: 1,
+  high: 1,
+  critical_low: 2,
+  critical_high: 2,
+};
+
+export function assessVitalValue(kind: VitalKind, value: number, age?: number): VitalStatus {
+  const range = getVitalRange(kind, age);
+  if (!range) return 'normal';
+  if (range.criticalLow !== undefined && value < range.criticalLow) return 'critical_low';
+  if (range.criticalHigh !== undefined && value >= range.criticalHigh) return 'critical_high';
+  if (range.low !== undefined && value < range.low) return 'low';
+  if (range.high !== undefined && value > range.high) return 'high';
+  return 'normal';
+}
+
+export function isCriticalStatus(status: VitalStatus): boolean {
+  return status === 'critical_low' || status === 'critical_high';
+}
+
+/** Status of one entry's readings taken together (the worst of them). */
+export function assessEntry(readings: VitalReading[], age?: number): VitalStatus {
+  return readings.reduce<VitalStatus>((worst, reading) => {
+    const status = assessVitalValue(reading.kind, reading.value, age);
+    return STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst;
+  }, 'normal');
+}
+
+/**
+ * The most recent entry of each type, when it is out of range. Older
+ * abnormal readings are history, not alerts.
+ */
+export function findAbnormalEntries(readings: VitalReading[], age?: number): AbnormalVitalEntry[] {
+  const sorted = [...readings].sort((a, b) => Date.parse(b.recordedAt) - Date.parse(a.recordedAt));
+  const seen = new Set<VitalEntryType>();
+  const alerts: AbnormalVitalEntry[] = [];
+
+  for (const entry of groupReadingsByEntry(sorted)) {
+    if (seen.has(entry.entryType)) continue;
+    seen.add(entry.entryType);
+
+    const status = assessEntry(entry.readings, age);
+    if (status !== 'normal') alerts.push({ ...entry, status });
+  }
+
+  return alerts.sort((a, b) => STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status]);
+}
+
+// ============================================
+// ASK CAREBOW HAND-OFF
+// ============================================
+
+const STATUS_PHRASES: Record<AbnormalVitalEntry['status'], string> = {
+  low: 'below the normal range',
+  high: 'above the normal range',
+  critical_low: 'well below the normal range',
+  critical_high: 'well above the normal range',
+};
+
+/**
+ * The opening message for an Ask CareBow session about an abnormal entry,
+ * passed as `prefilledSymptom`. Pass `memberName` when the reading is for a
+ * family member rather than the user.
+ */
+export function describeAbnormalEntry(
+  entry: AbnormalVitalEntry,
+  preferences: VitalUnitPreferences,
+  memberName?: string
+): string {
+  const { noun } = VITAL_ENTRY_CONFIG[entry.entryType];
+  const value = formatEntryValue(entry.entryType, entry.readings, preferences);
+  const when = new Date(entry.recordedAt).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const whose = memberName ? `${memberName}'s` : 'My';
+  return `${whose} ${noun} was ${value} on ${when}, which is ${STATUS_PHRASES[entry.status]}. What should we do?`;
+}
+
+/** Short label for an entry's status, e.g. "High". */
+export function statusLabel(status: VitalStatus): string {
+  switch (status) {
+    case 'critical_low':
+      return 'Very low';
+    case 'critical_high':
+      return 'Very high';
+    case 'low':
+      return 'Low';
+    case 'high':
+      return 'High';
+    default:
+      return 'Normal';
+  }
+}
@@ -0,0 +1,112 @@
+import type { Vital } from '@/services/api/endpoints/vitals';
+import {
+  convertVitalValue,
+  formatEntryValue,
+  groupReadingsByEntry,
+  parseVital,
+  parseVitalEntry,
+  toVitalPayload,
+} from './vitalReadings';
+
+function vital(overrides: Partial<Vital>): Vital {
+  return {
+    id: 'v1',
+    profileId: 'profile-1',
+    type: 'heart_rate',
+    value: '72',
+    unit: 'bpm',
+    recordedAt: '2026-03-02T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('unit conversion', () => {
+  it('converts glucose, temperature and weight both ways', () => {
+    expect(convertVitalValue(5.5, 'mmol/L', 'mg/dL')).toBeCloseTo(99.1, 1);
+    expect(convertVitalValue(98.6, '°F', '°C')).toBeCloseTo(37, 5);
+    expect(convertVitalValue(37, '°C', '°F')).toBeCloseTo(98.6, 5);
+    expect(convertVitalValue(150, 'lb', 'kg')).toBeCloseTo(68.04, 2);
+  });
+
+  it('refuses to convert between different quantities', () => {
+    expect(convertVitalValue(120, 'mmHg', 'mg/dL')).toBeNull();
+    expect(convertVitalValue(72, 'bpm', 'bpm')).toBe(72);
+  });
+});
+
+describe('parseVitalEntry', () => {
+  it('splits blood pressure into systolic and diastolic', () => {
+    expect(parseVitalEntry('blood_pressure', '128/84', 'mmHg')).toEqual([
+      { kind: 'bp_systolic', value: 128 },
+      { kind: 'bp_diastolic', value: 84 },
+    ]);
+  });
+
+  it('stores entries in the canonical unit', () => {
+    expect(parseVitalEntry('temperature', '100.4', '°F')).toEqual([
+      { kind: 'temperature', value: 38 },
+    ]);
+    expect(parseVitalEntry('glucose_fasting', '6.1', 'mmol/L')).toEqual([
+      { kind: 'glucose_fasting', value: 110 },
+    ]);
+  });
+
+  it('rejects malformed, implausible and swapped readings', () => {
+    expect(parseVitalEntry('blood_pressure', '120', 'mmHg')).toBeNull();
+    expect(parseVitalEntry('blood_pressure', '80/120', 'mmHg')).toBeNull();
+    expect(parseVitalEntry('heart_rate', '7o', 'bpm')).toBeNull();
+    // 98.6 typed with Celsius selected.
+    expect(parseVitalEntry('temperature', '98.6', '°C')).toBeNull();
+    expect(parseVitalEntry('spo2', '101', '%')).toBeNull();
+  });
+});
+
+describe('parseVital', () => {
+  it('reads typed rows', () => {
+    expect(parseVital(vital({ type: 'spo2', value: '97', unit: '%' }))).toEqual([
+      expect.objectContaining({ kind: 'spo2', value: 97, sourceId: 'v1' }),
+    ]);
+  });
+
+  it('reads rows logged before vitals were typed', () => {
+    expect(parseVital(vital({ type: 'blood_pressure', value: '120/80', unit: 'mmHg' }))).toEqual([
+      expect.objectContaining({ id: 'v1:bp_systolic', kind: 'bp_systolic', value: 120 }),
+      expect.objectContaining({ id: 'v1:bp_diastolic', kind: 'bp_diastolic', value: 80 }),
+    ]);
+    expect(parseVital(vital({ type: 'temperature', value: '98.6', unit: '°F' }))).toEqual([
+      expect.objectContaining({ kind: 'temperature', value: 37 }),
+    ]);
+    expect(parseVital(vital({ type: 'blood_sugar', value: '95', unit: 'mg/dL' }))).toEqual([
+      expect.objectContaining({ kind: 'glucose_random', value: 95 }),
+    ]);
+  });
+
+  it('drops rows it cannot read', () => {
+    expect(parseVital(vital({ type: 'mood', value: 'good', unit: '' }))).toEqual([]);
+    expect(parseVital(vital({ type: 'weight', value: '68', unit: 'stone' }))).toEqual([]);
+  });
+});
+
+describe('display', () => {
+  it('formats an entry in the preferred unit', () => {
+    const readings = [
+      ...parseVital(vital({ id: 'sys', type: 'bp_systolic', value: '142', unit: 'mmHg' })),
+      ...parseVital(vital({ id: 'dia', type: 'bp_diastolic', value: '91', unit: 'mmHg' })),
+    ];
+    const [entry] = groupReadingsByEntry(readings);
+
+    expect(entry.entryType).toBe('blood_pressure');
+    expect(formatEntryValue('blood_pressure', entry.readings, {})).toBe('142/91 mmHg');
+
+    const temperature = parseVital(vital({ type: 'temperature', value: '38.0', unit: '°C' }));
+    expect(formatEntryValue('temperature', temperature, { temperature: '°F' })).toBe('100.4 °F');
+  });
+
+  it('writes the canonical unit to the server', () => {
+    expect(toVitalPayload('glucose_random', 99.1)).toEqual({
+      type: 'glucose_random',
+      value: '99',
+      unit: 'mg/dL',
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Vital Readings
+ * Unit conversion, entry parsing and typing of the raw `/v1/vitals` rows
+ */
+
+import type { Vital } from '@/services/api/endpoints/vitals';
+import {
+  VITAL_ENTRY_CONFIG,
+  VITAL_KINDS,
+  VITAL_KIND_CONFIG,
+  VITAL_UNITS,
+  VitalEntryType,
+  VitalKind,
+  VitalReading,
+  VitalUnit,
+  VitalUnitPreferences,
+} from '../types';
+
+// ============================================
+// UNIT CONVERSION
+// ============================================
+
+/** mg/dL per mmol/L of glucose. */
+const GLUCOSE_MGDL_PER_MMOLL = 18.016;
+const LB_PER_KG = 2.20462;
+
+const CONVERSIONS: Partial<Record<`${VitalUnit}>${VitalUnit}`, (value: number) => number>> = {
+  'mmol/L>mg/dL': (v) => v * GLUCOSE_MGDL_PER_MMOLL,
+  'mg/dL>mmol/L': (v) => v / GLUCOSE_MGDL_PER_MMOLL,
+  '°F>°C': (v) => ((v - 32) * 5) / 9,
+  '°C>°F': (v) => (v * 9) / 5 + 32,
+  'lb>kg': (v) => v / LB_PER_KG,
+  'kg>lb': (v) => v * LB_PER_KG,
+};
+
+/** Convert between two units of the same quantity; null when they are not. */
+export function convertVitalValue(value: number, from: VitalUnit, to: VitalUnit): number | null {
+  if (from === to) return value;
+  const convert = CONVERSIONS[`${from}>${to}`];
+  return convert ? convert(value) : null;
+}
+
+export function isVitalUnit(unit: string): unit is VitalUnit {
+  return (VITAL_UNITS as readonly string[]).includes(unit);
+}
+
+export function isVitalKind(type: string): type is VitalKind {
+  return (VITAL_KINDS as readonly string[]).includes(type);
+}
+
+/** Decimal places a value is shown with in a unit. */
+function decimalsFor(unit: VitalUnit): number {
+  switch (unit) {
+    case 'mmol/L':
+    case '°C':
+    case '°F':
+    case 'kg':
+    case 'lb':
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+export function roundForUnit(value: number, unit: VitalUnit): number {
+  const factor = 10 ** decimalsFor(unit);
+  return Math.round(value * factor) / factor;
+}
+
+export function formatVitalValue(value: number, unit: VitalUnit): string {
+  return roundForUnit(value, unit).toFixed(decimalsFor(unit));
+}
+
+// ============================================
+// ENTRY TYPES
+// ============================================
+
+export function entryTypeForKind(kind: VitalKind): VitalEntryType {
+  return kind === 'bp_systolic' || kind === 'bp_diastolic' ? 'blood_pressure' : kind;
+}
+
+/** Units an entry can be typed in; the first is the canonical unit. */
+export function unitsForEntry(entryType: VitalEntryType): VitalUnit[] {
+  return VITAL_KIND_CONFIG[VITAL_ENTRY_CONFIG[entryType].kinds[0]].units;
+}
+
+/** The unit the user wants an entry type shown in, falling back to canonical. */
+export function displayUnitFor(
+  entryType: VitalEntryType,
+  preferences: VitalUnitPreferences
+): VitalUnit {
+  const units = unitsForEntry(entryType);
+  const preferred = preferences[entryType];
+  return preferred && units.includes(preferred) ? preferred : units[0];
+}
+
+/** A canonical reading value in the entry type's display unit. */
+export function toDisplayValue(
+  kind: VitalKind,
+  value: number,
+  preferences: VitalUnitPreferences
+): number {
+  const unit = displayUnitFor(entryTypeForKind(kind), preferences);
+  return convertVitalValue(value, VITAL_KIND_CONFIG[kind].canonicalUnit, unit) ?? value;
+}
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) return null;
+  return Number(trimmed);
+}
+
+/**
+ * Parse what was typed for an entry into canonical values, one per kind.
+ * Returns null for malformed or implausible input.
+ */
+export function parseVitalEntry(
+  entryType: VitalEntryType,
+  input: string,
+  unit: VitalUnit
+): { kind: VitalKind; value: number }[] | null {
+  const { kinds } = VITAL_ENTRY_CONFIG[entryType];
+  const parts = input.split('/');
+  if (parts.length !== kinds.length) return null;
+
+  const values: { kind: VitalKind; value: number }[] = [];
+  for (let i = 0; i < kinds.length; i++) {
+    const kind = kinds[i];
+    const config = VITAL_KIND_CONFIG[kind];
+    const raw = parseNumber(parts[i]);
+    if (raw === null) return null;
+    const value = convertVitalValue(raw, unit, config.canonicalUnit);
+    if (value === null || value < config.plausible.min || value > config.plausible.max) {
+      return null;
+    }
+    values.push({ kind, value: roundForUnit(value, config.canonicalUnit) });
+  }
+
+  // Diastolic can't be above systolic; almost always the two were swapped.
+  if (entryType === 'blood_pressure' && values[1].value >= values[0].value) return null;
+
+  return values;
+}
+
+// ============================================
+// SERVER ROWS
+// ============================================
+
+/** Types written before vitals were typed, and what they map to now. */
+const LEGACY_KINDS: Record<string, VitalKind> = {
+  blood_sugar: 'glucose_random',
+};
+
+/**
+ * Turn one server row into typed readings in canonical units. Rows logged
+ * before vitals were typed ("blood_pressure" as "120/80", "blood_sugar",
+ * Fahrenheit temperatures) are read too; anything unreadable is dropped.
+ */
+export function parseVital(vital: Vital): VitalReading[] {
+  const base = { sourceId: vital.id, recordedAt: vital.recordedAt };
+
+  if (vital.type === 'blood_pressure') {
+    const values = parseVitalEntry('blood_pressure', vital.value, 'mmHg');
+    return (values ?? []).map(({ kind, value }) => ({
+      ...base,
+      id: `${vital.id}:${kind}`,
+      kind,
+      value,
+    }));
+  }
+
+  const kind = isVitalKind(vital.type) ? vital.type : LEGACY_KINDS[vital.type];
+  if (!kind) return [];
+
+  const config = VITAL_KIND_CONFIG[kind];
+  const raw = parseNumber(vital.value);
+  const unit = vital.unit ? vital.unit : config.canonicalUnit;
+  if (raw === null || !isVitalUnit(unit)) return [];
+
+  const value = convertVitalValue(raw, unit, config.canonicalUnit);
+  if (value === null) return [];
+
+  return [{ ...base, id: vital.id, kind, value: roundForUnit(value, config.canonicalUnit) }];
+}
+
+/** Typed readings for a list of server rows, most recent first. */
+export function parseVitals(vitals: Vital[]): VitalReading[] {
+  return vitals
+    .flatMap(parseVital)
+    .sort((a, b) => Date.parse(b.recordedAt) - Date.parse(a.recordedAt));
+}
+
+/** The server payload for one canonical reading. */
+export function toVitalPayload(
+  kind: VitalKind,
+  value: number
+): { type: VitalKind; value: string; unit: VitalUnit } {
+  const unit = VITAL_KIND_CONFIG[kind].canonicalUnit;
+  return { type: kind, value: formatVitalValue(value, unit), unit };
+}
+
+/**
+ * Readings logged together (one entry, one timestamp) in display form,
+ * e.g. "120/80 mmHg" or "99.5 °F".
+ */
+export function formatEntryValue(
+  entryType: VitalEntryType,
+  readings: VitalReading[],
+  preferences: VitalUnitPreferences
+): string {
+  const unit = displayUnitFor(entryType, preferences);
+  const values = VITAL_ENTRY_CONFIG[entryType].kinds
+    .map((kind) => readings.find((reading) => reading.kind === kind))
+    .filter((reading): reading is VitalReading => reading !== undefined)
+    .map((reading) =>
+      formatVitalValue(toDisplayValue(reading.kind, reading.value, preferences), unit)
+    );
+  return `${values.join('/')} ${unit}`;
+}
+
+/**
+ * Group readings into the entries they were logged as: both halves of a blood
+ * pressure share a timestamp. Keeps the incoming order (most recent first).
+ */
+export function groupReadingsByEntry(
+  readings: VitalReading[]
+): { entryType: VitalEntryType; recordedAt: string; readings: VitalReading[] }[] {
+  const groups = new Map<
+    string,
+    { entryType: VitalEntryType; recordedAt: string; readings: VitalReading[] }
+  >();
+  for (const reading of readings) {
+    const entryType = entryTypeForKind(reading.kind);
+    const key = `${entryType}@${reading.recordedAt}`;
+    const group = groups.get(key);
+    if (group) {
+      group.readings.push(reading);
+    } else {
+      groups.set(key, { entryType, recordedAt: reading.recordedAt, readings: [reading] });
+    }
+  }
+  return [...groups.values()];
+}
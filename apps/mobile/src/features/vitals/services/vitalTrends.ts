@@ -0,0 +1,62 @@
+/**
+ * Vital Trends
+ * Windowed series and summaries for the trend chart
+ */
+
+import { toDisplayValue } from './vitalReadings';
+import {
+  TrendPoint,
+  TrendSeries,
+  TrendSummary,
+  TrendWindow,
+  VITAL_ENTRY_CONFIG,
+  VitalEntryType,
+  VitalReading,
+  VitalUnitPreferences,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One series per kind of the entry type (two for blood pressure) over the
+ * last `days` days, oldest first, in the display unit.
+ */
+export function buildTrendSeries(
+  readings: VitalReading[],
+  entryType: VitalEntryType,
+  days: TrendWindow,
+  preferences: VitalUnitPreferences,
+  now: Date = new Date()
+): TrendSeries[] {
+  const from = now.getTime() - days * DAY_MS;
+  const to = now.getTime();
+
+  return VITAL_ENTRY_CONFIG[entryType].kinds.map((kind) => ({
+    kind,
+    points: readings
+      .filter((reading) => {
+        if (reading.kind !== kind) return false;
+        const at = Date.parse(reading.recordedAt);
+        return at >= from && at <= to;
+      })
+      .map((reading) => ({
+        recordedAt: reading.recordedAt,
+        value: toDisplayValue(kind, reading.value, preferences),
+      }))
+      .sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt)),
+  }));
+}
+
+/** Latest, min, max, mean and change over a series; null when it is empty. */
+export function summarizeTrend(points: TrendPoint[]): TrendSummary | null {
+  if (points.length === 0) return null;
+  const values = points.map((point) => point.value);
+  const latest = values[values.length - 1];
+  return {
+    latest,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: values.reduce((sum, value) => sum + value, 0) / values.length,
+    change: latest - values[0],
+  };
+}
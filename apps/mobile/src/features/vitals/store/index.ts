@@ -0,0 +1,5 @@
+/**
+ * Vitals Store Barrel Export
+ */
+
+export * from './useVitalsStore';
@@ -0,0 +1,59 @@
+/**
+ * Vitals Store
+ * Display unit preferences for vitals; the readings themselves live on the server
+ * Uses Zustand with AsyncStorage persistence
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VitalEntryType, VitalUnit, VitalUnitPreferences } from '../types';
+
+// ============================================
+// STORE TYPES
+// ============================================
+
+type VitalsState = {
+  unitPreferences: VitalUnitPreferences;
+};
+
+type VitalsActions = {
+  setUnitPreference: (entryType: VitalEntryType, unit: VitalUnit) => void;
+  resetStore: () => void;
+};
+
+const initialState: VitalsState = {
+  unitPreferences: {},
+};
+
+// ============================================
+// STORE
+// ============================================
+
+export const useVitalsStore = create<VitalsState & VitalsActions>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setUnitPreference: (entryType, unit) =>
+        set((state) => ({
+          unitPreferences: { ...state.unitPreferences, [entryType]: unit },
+        })),
+
+      resetStore: () => set(initialState),
+    }),
+    {
+      name: 'carebow-vitals-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        unitPreferences: state.unitPreferences,
+      }),
+    }
+  )
+);
+
+// ============================================
+// SELECTOR HOOKS
+// ============================================
+
+export const useVitalUnitPreferences = () => useVitalsStore((state) => state.unitPreferences);
@@ -0,0 +1,237 @@
+/**
+ * Vitals Feature Types
+ * Typed vital kinds, units, normal ranges and trend data
+ */
+
+import type { AgeGroup } from '@/types/askCarebow';
+
+// ============================================
+// KINDS AND UNITS
+// ============================================
+
+export const VITAL_KINDS = [
+  'bp_systolic',
+  'bp_diastolic',
+  'glucose_fasting',
+  'glucose_random',
+  'spo2',
+  'temperature',
+  'heart_rate',
+  'weight',
+] as const;
+export type VitalKind = (typeof VITAL_KINDS)[number];
+
+export const VITAL_UNITS = ['mmHg', 'mg/dL', 'mmol/L', '%', '°C', '°F', 'bpm', 'kg', 'lb'] as const;
+export type VitalUnit = (typeof VITAL_UNITS)[number];
+
+export type VitalKindConfig = {
+  label: string;
+  /** Unit readings are stored and compared in. */
+  canonicalUnit: VitalUnit;
+  /** Units a reading can be entered and shown in, canonical first. */
+  units: VitalUnit[];
+  /** Readings outside these bounds (canonical unit) are typos, not measurements. */
+  plausible: { min: number; max: number };
+};
+
+export const VITAL_KIND_CONFIG: Record<VitalKind, VitalKindConfig> = {
+  bp_systolic: {
+    label: 'Systolic',
+    canonicalUnit: 'mmHg',
+    units: ['mmHg'],
+    plausible: { min: 50, max: 300 },
+  },
+  bp_diastolic: {
+    label: 'Diastolic',
+    canonicalUnit: 'mmHg',
+    units: ['mmHg'],
+    plausible: { min: 20, max: 200 },
+  },
+  glucose_fasting: {
+    label: 'Fasting glucose',
+    canonicalUnit: 'mg/dL',
+    units: ['mg/dL', 'mmol/L'],
+    plausible: { min: 10, max: 1000 },
+  },
+  glucose_random: {
+    label: 'Random glucose',
+    canonicalUnit: 'mg/dL',
+    units: ['mg/dL', 'mmol/L'],
+    plausible: { min: 10, max: 1000 },
+  },
+  spo2: {
+    label: 'SpO2',
+    canonicalUnit: '%',
+    units: ['%'],
+    plausible: { min: 50, max: 100 },
+  },
+  temperature: {
+    label: 'Temperature',
+    canonicalUnit: '°C',
+    units: ['°C', '°F'],
+    plausible: { min: 30, max: 45 },
+  },
+  heart_rate: {
+    label: 'Heart rate',
+    canonicalUnit: 'bpm',
+    units: ['bpm'],
+    plausible: { min: 20, max: 250 },
+  },
+  weight: {
+    label: 'Weight',
+    canonicalUnit: 'kg',
+    units: ['kg', 'lb'],
+    plausible: { min: 0.5, max: 400 },
+  },
+};
+
+// ============================================
+// ENTRY TYPES
+// ============================================
+
+/**
+ * What the user logs in one go. Blood pressure is one entry ("120/80") that
+ * is stored as a systolic and a diastolic reading; everything else maps to a
+ * single kind.
+ */
+export const VITAL_ENTRY_TYPES = [
+  'blood_pressure',
+  'glucose_fasting',
+  'glucose_random',
+  'spo2',
+  'temperature',
+  'heart_rate',
+  'weight',
+] as const;
+export type VitalEntryType = (typeof VITAL_ENTRY_TYPES)[number];
+
+export type VitalEntryConfig = {
+  label: string;
+  /** How the entry reads mid-sentence, e.g. "blood pressure". */
+  noun: string;
+  /** Kinds recorded by one entry, in the order they are typed. */
+  kinds: VitalKind[];
+  placeholder: string;
+  keyboardType: 'default' | 'numeric' | 'decimal-pad';
+};
+
+export const VITAL_ENTRY_CONFIG: Record<VitalEntryType, VitalEntryConfig> = {
+  blood_pressure: {
+    label: 'Blood Pressure',
+    noun: 'blood pressure',
+    kinds: ['bp_systolic', 'bp_diastolic'],
+    placeholder: 'e.g., 120/80',
+    keyboardType: 'default',
+  },
+  glucose_fasting: {
+    label: 'Glucose (fasting)',
+    noun: 'fasting blood glucose',
+    kinds: ['glucose_fasting'],
+    placeholder: 'e.g., 95',
+    keyboardType: 'decimal-pad',
+  },
+  glucose_random: {
+    label: 'Glucose (random)',
+    noun: 'blood glucose',
+    kinds: ['glucose_random'],
+    placeholder: 'e.g., 120',
+    keyboardType: 'decimal-pad',
+  },
+  spo2: {
+    label: 'SpO2',
+    noun: 'oxygen saturation (SpO2)',
+    kinds: ['spo2'],
+    placeholder: 'e.g., 98',
+    keyboardType: 'numeric',
+  },
+  temperature: {
+    label: 'Temperature',
+    noun: 'temperature',
+    kinds: ['temperature'],
+    placeholder: 'e.g., 37.0',
+    keyboardType: 'decimal-pad',
+  },
+  heart_rate: {
+    label: 'Heart Rate',
+    noun: 'heart rate',
+    kinds: ['heart_rate'],
+    placeholder: 'e.g., 72',
+    keyboardType: 'numeric',
+  },
+  weight: {
+    label: 'Weight',
+    noun: 'weight',
+    kinds: ['weight'],
+    placeholder: 'e.g., 68',
+    keyboardType: 'decimal-pad',
+  },
+};
+
+/** Display unit per entry type. Blood pressure, SpO2 and heart rate have only one. */
+export type VitalUnitPreferences = Partial<Record<VitalEntryType, VitalUnit>>;
+
+// ============================================
+// READINGS
+// ============================================
+
+/** One typed reading, always in its kind's canonical unit. */
+export type VitalReading = {
+  id: string;
+  /** `Vital.id` of the server row it came from (shared by both halves of a legacy BP row). */
+  sourceId: string;
+  kind: VitalKind;
+  value: number;
+  recordedAt: string;
+};
+
+// ============================================
+// RANGES
+// ============================================
+
+/** Inclusive normal range plus the bounds past which a reading is urgent. Canonical units. */
+export type VitalRange = {
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+};
+
+export type VitalRangeTable = Record<AgeGroup, VitalRange>;
+
+export type VitalStatus = 'normal' | 'low' | 'high' | 'critical_low' | 'critical_high';
+
+/** One logged entry (one timestamp) with a reading outside its range. */
+export type AbnormalVitalEntry = {
+  entryType: VitalEntryType;
+  readings: VitalReading[];
+  /** The worst status among the readings. */
+  status: Exclude<VitalStatus, 'normal'>;
+  recordedAt: string;
+};
+
+// ============================================
+// TRENDS
+// ============================================
+
+export const TREND_WINDOWS = [7, 30, 90] as const;
+export type TrendWindow = (typeof TREND_WINDOWS)[number];
+
+export type TrendPoint = {
+  recordedAt: string;
+  value: number;
+};
+
+export type TrendSeries = {
+  kind: VitalKind;
+  /** Oldest first, in the display unit. */
+  points: TrendPoint[];
+};
+
+export type TrendSummary = {
+  latest: number;
+  min: number;
+  max: number;
+  average: number;
+  /** Latest minus earliest in the window. */
+  change: number;
+};
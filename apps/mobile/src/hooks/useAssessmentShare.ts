@@ -0,0 +1,59 @@
+/**
+ * Share an Ask CareBow assessment with a booking's provider.
+ *
+ * Sends the same redacted text the customer previewed, then records on the
+ * session who received it and when, as confirmed by the server.
+ */
+
+import { useCallback, useState } from 'react';
+import { useBookingsStore } from '../store/useBookingsStore';
+import { useAskCarebowStore } from '../store/askCarebowStore';
+import type { AskCarebowSession } from '../types/askCarebow';
+import type { V1Booking } from '../services/api/endpoints/member';
+import {
+  assessmentRecipient,
+  formatAssessmentForProvider,
+} from '../lib/askCarebow/assessmentShare';
+
+export type UseAssessmentShare = {
+  sharing: boolean;
+  /** `consentedAt` is when the customer agreed in the preview. */
+  share: (
+    bookingId: string,
+    session: AskCarebowSession,
+    consentedAt: string
+  ) => Promise<{ ok: true; booking: V1Booking } | { ok: false; error: string }>;
+};
+
+export function useAssessmentShare(): UseAssessmentShare {
+  const shareAssessment = useBookingsStore((state) => state.shareAssessment);
+  const markDoctorNotesSent = useAskCarebowStore((state) => state.markDoctorNotesSent);
+  const [sharing, setSharing] = useState(false);
+
+  const share = useCallback(
+    async (bookingId: string, session: AskCarebowSession, consentedAt: string) => {
+      setSharing(true);
+      try {
+        const result = await shareAssessment(bookingId, {
+          sessionId: session.id,
+          summary: formatAssessmentForProvider(session),
+          consentedAt,
+        });
+        if (result.ok) {
+          const shared = result.booking.sharedAssessment;
+          markDoctorNotesSent(
+            shared?.recipient ?? assessmentRecipient(result.booking),
+            session.id,
+            shared?.sharedAt
+          );
+        }
+        return result;
+      } finally {
+        setSharing(false);
+      }
+    },
+    [shareAssessment, markDoctorNotesSent]
+  );
+
+  return { sharing, share };
+}
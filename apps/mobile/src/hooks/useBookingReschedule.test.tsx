@@ -0,0 +1,85 @@
+/**
+ * Reschedule tests.
+ *
+ * A paid move is charged exactly what the customer accepted, and a held slot
+ * travels with the move so the server books the time that was shown.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useBookingReschedule } from './useBookingReschedule';
+import { paymentsApi } from '../services/api/endpoints/payments';
+import type { V1RescheduleQuote } from '../services/api/endpoints/member';
+
+const mockReschedule = jest.fn();
+const mockStart = jest.fn();
+
+jest.mock('../services/api/endpoints/payments', () => ({
+  paymentsApi: { createRescheduleOrder: jest.fn() },
+}));
+
+jest.mock('../store/useBookingsStore', () => ({
+  useBookingsStore: (selector: (state: { reschedule: jest.Mock }) => unknown) =>
+    selector({ reschedule: mockReschedule }),
+}));
+
+jest.mock('./useHostedCheckout', () => ({
+  useHostedCheckout: () => ({ start: mockStart, busy: false }),
+}));
+
+const createOrder = paymentsApi.createRescheduleOrder as jest.Mock;
+
+const quote = (overrides: Partial<V1RescheduleQuote> = {}): V1RescheduleQuote => ({
+  allowed: true,
+  feeMinor: 0,
+  fareDifferenceMinor: 0,
+  amountDueMinor: 0,
+  refundMinor: 0,
+  currency: 'INR',
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+test('a paid move asks the server to charge the accepted amount for the held slot', async () => {
+  createOrder.mockResolvedValue({
+    success: true,
+    orderId: 'order_1',
+    paymentUrl: 'https://rzp.io/i/x',
+  });
+  mockStart.mockResolvedValue({ status: 'paid' });
+  const { result } = renderHook(() => useBookingReschedule());
+
+  let outcome: unknown;
+  await act(async () => {
+    outcome = await result.current.move(
+      'bk_1',
+      '2026-08-05T04:00:00.000Z',
+      quote({ feeMinor: 5000, amountDueMinor: 35000 }),
+      'hold_1'
+    );
+  });
+
+  expect(outcome).toEqual({ status: 'paid' });
+  expect(createOrder).toHaveBeenCalledWith(
+    expect.objectContaining({
+      bookingId: 'bk_1',
+      scheduledAt: '2026-08-05T04:00:00.000Z',
+      slotHoldId: 'hold_1',
+      expectedAmount: 35000,
+    })
+  );
+});
+
+test('a free move goes straight to the server with the held slot', async () => {
+  mockReschedule.mockResolvedValue({ ok: true, booking: { id: 'bk_1' } });
+  const { result } = renderHook(() => useBookingReschedule());
+
+  await act(async () => {
+    await result.current.move('bk_1', '2026-08-05T04:00:00.000Z', quote(), 'hold_1');
+  });
+
+  expect(mockReschedule).toHaveBeenCalledWith('bk_1', '2026-08-05T04:00:00.000Z', 'hold_1');
+  expect(createOrder).not.toHaveBeenCalled();
+});
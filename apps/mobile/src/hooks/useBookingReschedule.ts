@@ -0,0 +1,126 @@
+/**
+ * Move a booking to a new time: quote it, then either move it straight away
+ * or, when the move costs money, take payment first and let the server move
+ * it once the payment lands.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useBookingsStore } from '../store/useBookingsStore';
+import {
+  memberApi,
+  type V1Booking,
+  type V1CancelResponse,
+  type V1RescheduleQuote,
+} from '../services/api/endpoints/member';
+import { paymentsApi } from '../services/api/endpoints/payments';
+import { useHostedCheckout } from './useHostedCheckout';
+
+export type RescheduleOutcome =
+  | { status: 'moved'; booking: V1Booking; refund?: V1CancelResponse['refund'] }
+  /** Paid; the booking moves when the server records the payment. */
+  | { status: 'paid' }
+  | { status: 'unconfirmed'; orderId: string }
+  | { status: 'payment_failed' }
+  | { status: 'error'; error: string };
+
+export type UseBookingReschedule = {
+  /** The quote for the time last passed to `requestQuote`. */
+  quote: V1RescheduleQuote | null;
+  quoting: boolean;
+  quoteError: string | null;
+  requestQuote: (bookingId: string, scheduledAt: string | null) => Promise<void>;
+  moving: boolean;
+  /** Charges exactly the accepted quote; the server refuses the order if its price moved. */
+  move: (
+    bookingId: string,
+    scheduledAt: string,
+    quote: V1RescheduleQuote,
+    slotHoldId?: string
+  ) => Promise<RescheduleOutcome>;
+};
+
+export function useBookingReschedule(): UseBookingReschedule {
+  const reschedule = useBookingsStore((state) => state.reschedule);
+  const checkout = useHostedCheckout();
+  const [quote, setQuote] = useState<V1RescheduleQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [moving, setMoving] = useState(false);
+  const latest = useRef(0);
+
+  const requestQuote = useCallback(async (bookingId: string, scheduledAt: string | null) => {
+    const request = ++latest.current;
+    setQuote(null);
+    setQuoteError(null);
+    if (!scheduledAt) {
+      setQuoting(false);
+      return;
+    }
+    setQuoting(true);
+    try {
+      const res = await memberApi.quoteReschedule(bookingId, { scheduledAt });
+      if (request !== latest.current) return;
+      if (!res.success || !res.quote) {
+        setQuoteError(res.error || 'Could not price this time.');
+        return;
+      }
+      setQuote(res.quote);
+    } catch {
+      if (request === latest.current) setQuoteError('No connection. Please try again.');
+    } finally {
+      if (request === latest.current) setQuoting(false);
+    }
+  }, []);
+
+  const move = useCallback(
+    async (
+      bookingId: string,
+      scheduledAt: string,
+      accepted: V1RescheduleQuote,
+      slotHoldId?: string
+    ): Promise<RescheduleOutcome> => {
+      setMoving(true);
+      try {
+        if (accepted.amountDueMinor <= 0) {
+          const result = await reschedule(bookingId, scheduledAt, slotHoldId);
+          return result.ok
+            ? { status: 'moved', booking: result.booking, refund: result.refund }
+            : { status: 'error', error: result.error };
+        }
+
+        const order = await paymentsApi.createRescheduleOrder({
+          bookingId,
+          scheduledAt,
+          hosted: true,
+          callbackUrl: 'carebow://checkout/return',
+          slotHoldId,
+          expectedAmount: accepted.amountDueMinor,
+        });
+        if (!order.success || !order.paymentUrl || !order.orderId) {
+          return { status: 'error', error: order.error || 'Could not start payment.' };
+        }
+        const outcome = await checkout.start({
+          orderId: order.orderId,
+          paymentUrl: order.paymentUrl,
+        });
+        if (outcome.status === 'paid') return { status: 'paid' };
+        if (outcome.status === 'failed') return { status: 'payment_failed' };
+        return { status: 'unconfirmed', orderId: order.orderId };
+      } catch {
+        return { status: 'error', error: 'No connection. Please try again.' };
+      } finally {
+        setMoving(false);
+      }
+    },
+    [reschedule, checkout]
+  );
+
+  return {
+    quote,
+    quoting,
+    quoteError,
+    requestQuote,
+    moving: moving || checkout.busy,
+    move,
+  };
+}
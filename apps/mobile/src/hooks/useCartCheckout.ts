@@ -0,0 +1,165 @@
+/**
+ * Pay for every cart item in one hosted payment.
+ *
+ * Each item is checked against the live catalog and its published slot is
+ * held before anything is sent, so a bad item is reported next to that item
+ * and nothing is created. The server then books the whole cart or none of it,
+ * and refunds any booking it cannot confirm once the payment lands.
+ */
+
+import { useCallback, useState } from 'react';
+import type { CartItem } from '../data/types';
+import { ensureBackendProfile } from '../lib/profileSync';
+import { toBookingService } from '../lib/liveServiceCatalog';
+import { cartItemSchedule, type CartItemProblem } from '../lib/cartOrder';
+import { servicesApi } from '../services/api/endpoints/services';
+import { availabilityApi } from '../services/api/endpoints/availability';
+import { ApiError } from '../services/api/types';
+import {
+  paymentsApi,
+  selectionFromDraft,
+  type CartOrderItem,
+} from '../services/api/endpoints/payments';
+import { useHostedCheckout } from './useHostedCheckout';
+
+export type CartCheckoutOutcome =
+  | { status: 'paid'; orderId: string }
+  | { status: 'unconfirmed'; orderId: string }
+  | { status: 'payment_failed' }
+  /** Nothing was created; fix or remove the listed items. */
+  | { status: 'rejected'; error: string; problems: CartItemProblem[] }
+  | { status: 'error'; error: string };
+
+export type UseCartCheckout = {
+  busy: boolean;
+  checkout: (items: CartItem[]) => Promise<CartCheckoutOutcome>;
+};
+
+const releaseAll = (holdIds: string[]) => {
+  for (const holdId of holdIds) {
+    void availabilityApi.releaseHold(holdId).catch(() => undefined);
+  }
+};
+
+async function prepareLine(item: CartItem): Promise<CartOrderItem | string> {
+  let profileId: string;
+  try {
+    profileId = await ensureBackendProfile(item.memberId);
+  } catch {
+    return `Could not prepare ${item.memberName || 'this person'}'s profile.`;
+  }
+
+  let pricingModel: string;
+  try {
+    const liveService = toBookingService(await servicesApi.getServiceDetails(item.serviceId));
+    pricingModel = liveService.pricing.type;
+  } catch {
+    return 'This service could not be verified with the live catalog.';
+  }
+
+  const selection = selectionFromDraft({
+    pricingModel,
+    selectedPackageId: item.packageId,
+    hours: item.hours,
+    days: item.days,
+  });
+  if (!selection) return 'This service changed. Remove it and add it again.';
+
+  const notes = [
+    `Requested: ${item.serviceTitle}`,
+    item.packageLabel ? `Package: ${item.packageLabel}` : null,
+    item.requestNotes ? item.requestNotes : null,
+  ].filter(Boolean) as string[];
+
+  return {
+    cartItemId: item.id,
+    serviceId: item.serviceId,
+    profileId,
+    ...cartItemSchedule(item),
+    notes: notes.join(' · ') || undefined,
+    selection,
+    careContext: item.referralContext ?? undefined,
+  };
+}
+
+export function useCartCheckout(): UseCartCheckout {
+  const hosted = useHostedCheckout();
+  const [preparing, setPreparing] = useState(false);
+
+  const checkout = useCallback(
+    async (items: CartItem[]): Promise<CartCheckoutOutcome> => {
+      setPreparing(true);
+      const holdIds: string[] = [];
+      try {
+        const problems: CartItemProblem[] = [];
+        const lines: CartOrderItem[] = [];
+        for (const item of items) {
+          const line = await prepareLine(item);
+          if (typeof line === 'string') problems.push({ cartItemId: item.id, error: line });
+          else lines.push(line);
+        }
+        if (problems.length > 0) {
+          return { status: 'rejected', error: 'Some items need attention.', problems };
+        }
+
+        for (const item of items) {
+          if (!item.slotStartsAt) continue;
+          const taken = { cartItemId: item.id, error: 'That time was just taken. Pick another.' };
+          try {
+            const res = await availabilityApi.holdSlot({
+              serviceId: item.serviceId,
+              startsAt: item.slotStartsAt,
+            });
+            if (!res.success || !res.hold) {
+              problems.push(taken);
+              continue;
+            }
+            holdIds.push(res.hold.id);
+            const line = lines.find((candidate) => candidate.cartItemId === item.id);
+            if (line) line.slotHoldId = res.hold.id;
+          } catch (error) {
+            if (!(error instanceof ApiError && error.status === 409)) throw error;
+            problems.push(taken);
+          }
+        }
+        if (problems.length > 0) {
+          releaseAll(holdIds);
+          return { status: 'rejected', error: 'Some times are no longer available.', problems };
+        }
+
+        const order = await paymentsApi.createCartOrder({
+          items: lines,
+          hosted: true,
+          callbackUrl: 'carebow://checkout/return',
+        });
+        if (!order.success || !order.paymentUrl || !order.orderId) {
+          releaseAll(holdIds);
+          return {
+            status: 'rejected',
+            error: order.error || 'Could not start payment.',
+            problems: order.rejected ?? [],
+          };
+        }
+        // The order owns the holds from here on.
+        holdIds.length = 0;
+
+        setPreparing(false);
+        const outcome = await hosted.start({
+          orderId: order.orderId,
+          paymentUrl: order.paymentUrl,
+        });
+        if (outcome.status === 'paid') return { status: 'paid', orderId: order.orderId };
+        if (outcome.status === 'failed') return { status: 'payment_failed' };
+        return { status: 'unconfirmed', orderId: order.orderId };
+      } catch {
+        releaseAll(holdIds);
+        return { status: 'error', error: 'No connection. Please try again.' };
+      } finally {
+        setPreparing(false);
+      }
+    },
+    [hosted]
+  );
+
+  return { busy: preparing || hosted.busy, checkout };
+}
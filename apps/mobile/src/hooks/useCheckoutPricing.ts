@@ -0,0 +1,220 @@
+/**
+ * Promo codes, account credit and the final server price for one checkout.
+ *
+ * Codes are validated by the server as they are entered and the running
+ * total is worked out with lib/bookingDraft, in the currency the customer is
+ * charged in. Before paying, `checkPrice` asks the server what it will
+ * actually charge and explains any difference from what the screen showed.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { BookingDraft } from '../data/types';
+import type { CountryCode } from '../data/countries';
+import { activeSettlementCurrency, convertFromUsd } from '../data/countries';
+import type {
+  CreditBalances,
+  PricingBreakdown,
+  PricingModelType,
+  Promotion,
+} from '../types/booking';
+import { money } from '../types/booking';
+import {
+  applyCredits,
+  applyPromotions,
+  pricingFromQuote,
+  promotionConflict,
+  reconcilePricing,
+  type PriceReconciliation,
+} from '../lib/bookingDraft';
+import {
+  paymentsApi,
+  selectionFromDraft,
+  type BookingPriceQuoteRequest,
+} from '../services/api/endpoints/payments';
+
+export type PromoCodeResult = { ok: true } | { ok: false; error: string };
+
+export type PriceCheck =
+  | {
+      ok: true;
+      /** What the server will charge, in minor units. */
+      amount: number;
+      server: PricingBreakdown;
+      reconciliation: PriceReconciliation;
+    }
+  | { ok: false; error: string };
+
+export type UseCheckoutPricing = {
+  /** The draft's price after codes and credit, or null without a draft. */
+  pricing: PricingBreakdown | null;
+  promotions: Promotion[];
+  applying: boolean;
+  applyCode: (code: string) => Promise<PromoCodeResult>;
+  removeCode: (code: string) => void;
+  /** Spendable credit, or null until loaded or when there is none. */
+  balances: CreditBalances | null;
+  useCredits: boolean;
+  setUseCredits: (value: boolean) => void;
+  checkPrice: (order: BookingPriceQuoteRequest) => Promise<PriceCheck>;
+};
+
+/**
+ * The draft records what was picked, not the service's pricing model. The
+ * server prices every code and quote against the live service regardless.
+ */
+function pricingModelOf(draft: BookingDraft): PricingModelType {
+  if (draft.selectedPackageId) return 'packages';
+  if (draft.hours) return 'hourly';
+  if (draft.days) return 'daily';
+  return 'fixed';
+}
+
+/** The draft's USD catalog price, converted to what this customer is charged in. */
+function draftPricing(draft: BookingDraft, country: CountryCode): PricingBreakdown {
+  const currency = activeSettlementCurrency(country);
+  const subtotal = convertFromUsd(draft.subtotal, country);
+  const total = convertFromUsd(draft.total, country);
+
+  return {
+    pricingModel: pricingModelOf(draft),
+    subtotal: money(subtotal, currency),
+    discount: money(Math.max(0, subtotal - total), currency),
+    fees: money(0, currency),
+    taxes: money(0, currency),
+    total: money(total, currency),
+  };
+}
+
+export function useCheckoutPricing(
+  draft: BookingDraft | null,
+  country: CountryCode
+): UseCheckoutPricing {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [balances, setBalances] = useState<CreditBalances | null>(null);
+  const [useCredits, setUseCredits] = useState(false);
+  const currency = activeSettlementCurrency(country);
+
+  useEffect(() => {
+    let active = true;
+    paymentsApi
+      .getWallet()
+      .then((res) => {
+        if (!active || !res.success || res.currency !== currency) return;
+        const referral = res.referralMinor ?? 0;
+        const wallet = res.walletMinor ?? 0;
+        if (referral + wallet <= 0) return;
+        setBalances({
+          referral: money(referral / 100, currency),
+          wallet: money(wallet / 100, currency),
+        });
+      })
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, [currency]);
+
+  const basePricing = useMemo(
+    () => (draft ? draftPricing(draft, country) : null),
+    [draft, country]
+  );
+
+  const pricing = useMemo(() => {
+    if (!basePricing) return null;
+    const discounted = applyPromotions(basePricing, promotions);
+    return useCredits && balances ? applyCredits(discounted, balances) : discounted;
+  }, [basePricing, promotions, useCredits, balances]);
+
+  const applyCode = useCallback(
+    async (input: string): Promise<PromoCodeResult> => {
+      const code = input.trim().toUpperCase();
+      if (!draft || !basePricing || !code) return { ok: false, error: 'Enter a code.' };
+      if (promotions.some((promotion) => promotion.code.toUpperCase() === code)) {
+        return { ok: false, error: `${code} is already applied.` };
+      }
+
+      const selection = selectionFromDraft({
+        pricingModel: basePricing.pricingModel,
+        selectedPackageId: draft.selectedPackageId,
+        hours: draft.hours,
+        days: draft.days,
+      });
+      if (!selection) return { ok: false, error: 'Choose an option before adding a code.' };
+
+      setApplying(true);
+      try {
+        const res = await paymentsApi.validatePromoCode({
+          code,
+          serviceId: draft.serviceId,
+          selection,
+          appliedCodes: promotions.map((promotion) => promotion.code),
+        });
+        if (!res.success || !res.promotion) {
+          return { ok: false, error: res.error || 'This code is not valid.' };
+        }
+        if (res.currency && res.currency !== currency) {
+          return { ok: false, error: `This code cannot be used for payments in ${currency}.` };
+        }
+        const promotion: Promotion = {
+          code: res.promotion.code,
+          label: res.promotion.label,
+          discount: money(res.promotion.discountMinor / 100, currency),
+          stacking: res.promotion.stacking,
+        };
+        const conflict = promotionConflict(promotions, promotion);
+        if (conflict) return { ok: false, error: conflict };
+
+        setPromotions((current) => [...current, promotion]);
+        return { ok: true };
+      } catch {
+        return { ok: false, error: 'No connection. Please try again.' };
+      } finally {
+        setApplying(false);
+      }
+    },
+    [draft, basePricing, promotions, currency]
+  );
+
+  const removeCode = useCallback((code: string) => {
+    setPromotions((current) => current.filter((promotion) => promotion.code !== code));
+  }, []);
+
+  const checkPrice = useCallback(
+    async (order: BookingPriceQuoteRequest): Promise<PriceCheck> => {
+      if (!pricing) return { ok: false, error: 'Booking not found.' };
+      try {
+        const res = await paymentsApi.quoteBookingOrder({
+          ...order,
+          promoCodes: promotions.map((promotion) => promotion.code),
+          useCredits: useCredits && !!balances,
+        });
+        if (!res.success || !res.quote) {
+          return { ok: false, error: res.error || 'Could not confirm the price.' };
+        }
+        const server = pricingFromQuote(res.quote, pricing.pricingModel);
+        return {
+          ok: true,
+          amount: res.quote.totalMinor,
+          server,
+          reconciliation: reconcilePricing(pricing, server, res.quote.rejectedCodes),
+        };
+      } catch {
+        return { ok: false, error: 'No connection. Please try again.' };
+      }
+    },
+    [pricing, promotions, useCredits, balances]
+  );
+
+  return {
+    pricing,
+    promotions,
+    applying,
+    applyCode,
+    removeCode,
+    balances,
+    useCredits,
+    setUseCredits,
+    checkPrice,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * useInteractionWarnings Hook
+ * Interaction warnings for suggested items against health memory.
+ *
+ * Returns warnings for the suggestions (remedies, OTC products) against the
+ * recorded medications, allergies and conditions, followed by warnings for
+ * recorded medications that interact with each other. Health memory is not
+ * split by patient here, so a family member's medication can raise a warning
+ * on your guidance — a false alarm we accept over a missed interaction.
+ */
+
+import { useMemo } from 'react';
+import { useHealthMemoryStore } from '../store/healthMemoryStore';
+import {
+  checkRecordedMedications,
+  checkSuggestions,
+  type InteractionWarning,
+} from '../lib/interactions';
+
+export function useInteractionWarnings(suggestions: string[]): InteractionWarning[] {
+  const items = useHealthMemoryStore((state) => state.items);
+  const suggestionsKey = suggestions.join('\n');
+
+  return useMemo(() => {
+    const valuesOf = (type: 'medication' | 'allergy' | 'condition') =>
+      items.filter((item) => item.type === type).map((item) => item.value);
+    const medications = valuesOf('medication');
+
+    const forSuggestions = checkSuggestions(suggestionsKey ? suggestionsKey.split('\n') : [], {
+      medications,
+      allergies: valuesOf('allergy'),
+      conditions: valuesOf('condition'),
+    });
+    return [...forSuggestions, ...checkRecordedMedications(medications)];
+    // suggestionsKey stands in for suggestions, which callers rebuild each render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, suggestionsKey]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Published slots for one service, refetched whenever the screen regains focus
+ * so a slot taken while the customer was in checkout shows as taken.
+ *
+ * `unavailable` means the service does not publish slots (or they could not be
+ * loaded); the screen then offers preferred times for the care team to confirm.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { availabilityApi, type V1Slot } from '../services/api/endpoints/availability';
+import { deviceTimeZone, upcomingDates } from '../lib/availability';
+
+export type UseServiceAvailability = {
+  status: 'idle' | 'loading' | 'ready' | 'unavailable';
+  /** The care team's zone; dates and times render on this clock. */
+  timeZone: string;
+  slots: V1Slot[];
+  refresh: () => Promise<void>;
+};
+
+export function useServiceAvailability(
+  serviceId: string | undefined,
+  days: number
+): UseServiceAvailability {
+  const [status, setStatus] = useState<UseServiceAvailability['status']>('idle');
+  const [timeZone, setTimeZone] = useState(deviceTimeZone);
+  const [slots, setSlots] = useState<V1Slot[]>([]);
+  const latest = useRef(0);
+  // Read, not depended on: learning the zone must not trigger another fetch.
+  const zoneRef = useRef(timeZone);
+
+  const refresh = useCallback(async () => {
+    if (!serviceId) {
+      setStatus('idle');
+      return;
+    }
+    const request = ++latest.current;
+    setStatus((current) => (current === 'ready' ? current : 'loading'));
+    try {
+      const res = await availabilityApi.getSlots(serviceId, {
+        from: upcomingDates(1, zoneRef.current)[0],
+        days,
+      });
+      if (request !== latest.current) return;
+      if (!res.success || !res.slots?.length) {
+        setStatus('unavailable');
+        return;
+      }
+      zoneRef.current = res.timeZone || deviceTimeZone();
+      setTimeZone(zoneRef.current);
+      setSlots(res.slots);
+      setStatus('ready');
+    } catch {
+      if (request === latest.current) setStatus('unavailable');
+    }
+  }, [serviceId, days]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void refresh();
+    }, [refresh])
+  );
+
+  return { status, timeZone, slots, refresh };
+}
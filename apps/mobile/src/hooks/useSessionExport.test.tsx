@@ -0,0 +1,112 @@
+/**
+ * Session export tests.
+ *
+ * The PDF and FHIR exports reach the share sheet as attached files, named so
+ * the clinician's app opens them, and only a completed share is recorded.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { Platform } from 'react-native';
+import RNShare from 'react-native-share';
+import { useSessionExport } from './useSessionExport';
+import { AskCarebowSession, createEmptyHealthContext } from '../types/askCarebow';
+
+const mockExportSession = jest.fn();
+
+jest.mock('react-native-share', () => ({
+  __esModule: true,
+  default: { open: jest.fn() },
+}));
+
+jest.mock('../store/askCarebowStore', () => ({
+  useAskCarebowStore: (selector: (state: { exportSession: jest.Mock }) => unknown) =>
+    selector({ exportSession: mockExportSession }),
+}));
+
+const open = RNShare.open as jest.Mock;
+
+const healthContext = { ...createEmptyHealthContext(), primarySymptom: 'headache' };
+
+const session: AskCarebowSession = {
+  id: 'ask_1772956800000_abc1234',
+  userId: 'user-1',
+  memberId: 'member-1',
+  memberName: 'Asha',
+  messages: [],
+  conversationState: {
+    phase: 'completed',
+    questionsAsked: [],
+    questionsRemaining: [],
+    healthContext,
+    hasProvidedGuidance: true,
+  },
+  healthContext,
+  urgencyLevel: 'self_care',
+  riskLevel: 'low',
+  recommendedServices: [],
+  createdAt: '2026-03-08T08:00:00.000Z',
+  updatedAt: '2026-03-08T08:05:00.000Z',
+  isActive: false,
+  detectedSymptoms: ['headache'],
+  suggestedActions: [],
+  triggeredEmergencyFlow: false,
+};
+
+const share = async (format: 'pdf' | 'fhir') => {
+  const { result } = renderHook(() => useSessionExport());
+  let shared: boolean | undefined;
+  await act(async () => {
+    shared = await result.current.shareSession(session, format);
+  });
+  return shared;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  open.mockResolvedValue({ success: true, message: '' });
+});
+
+describe('on Android', () => {
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('attaches the PDF as a file the share target can open', async () => {
+    expect(await share('pdf')).toBe(true);
+
+    const options = open.mock.calls[0][0];
+    expect(options.url).toMatch(/^data:application\/pdf;base64,JVBERi0/);
+    expect(options.type).toBe('application/pdf');
+    expect(options.filename).toBe('carebow-session-2026-03-08');
+    expect(mockExportSession).toHaveBeenCalledWith('pdf', 'share', session.id);
+  });
+
+  test('attaches the FHIR bundle as JSON so it keeps its .fhir.json name', async () => {
+    await share('fhir');
+
+    const options = open.mock.calls[0][0];
+    expect(options.type).toBe('application/json');
+    expect(options.filename).toBe('carebow-session-2026-03-08.fhir');
+    const json = Buffer.from(options.url.split(',')[1], 'base64').toString('utf8');
+    expect(JSON.parse(json).resourceType).toBe('Bundle');
+  });
+});
+
+test('on iOS the file keeps its full name and FHIR media type', async () => {
+  await share('fhir');
+
+  const options = open.mock.calls[0][0];
+  expect(options.type).toBe('application/fhir+json');
+  expect(options.filename).toBe('carebow-session-2026-03-08.fhir.json');
+});
+
+test('a dismissed share sheet is not recorded as an export', async () => {
+  open.mockResolvedValue({ success: false, dismissedAction: true, message: '' });
+
+  expect(await share('pdf')).toBe(false);
+  expect(mockExportSession).not.toHaveBeenCalled();
+});
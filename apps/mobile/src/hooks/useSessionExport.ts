@@ -0,0 +1,115 @@
+/**
+ * Ask CareBow session export.
+ *
+ * Offers the formats a clinician can use — a readable PDF, a FHIR bundle for
+ * their records system, or plain text — shares the chosen one and records the
+ * export on the session.
+ */
+
+import { useCallback, useState } from 'react';
+import { Alert, Share } from 'react-native';
+import { useAskCarebowStore } from '../store/askCarebowStore';
+import {
+  AskCarebowSession,
+  SessionExportFormat,
+  formatSessionForDoctorNotes,
+  formatSessionForExport,
+} from '../types/askCarebow';
+import {
+  FHIR_MIME_TYPE,
+  buildSessionFhirBundle,
+  renderSessionPdf,
+  serializeFhirBundle,
+  sessionExportFilename,
+} from '../lib/askCarebow/sessionExport';
+import { encodeBase64, encodeUtf8, shareFile } from '../utils/fileShare';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SessionExport');
+
+const SHARE_TITLE = 'CareBow Session Summary';
+
+export type UseSessionExport = {
+  exporting: boolean;
+  /** Share the session in one format. Resolves true when it was shared. */
+  shareSession: (session: AskCarebowSession, format: SessionExportFormat) => Promise<boolean>;
+  /** Ask which format to share, then share it. */
+  promptExport: (session: AskCarebowSession) => void;
+};
+
+async function share(session: AskCarebowSession, format: SessionExportFormat): Promise<boolean> {
+  const filename = sessionExportFilename(session);
+  const text = formatSessionForDoctorNotes(session);
+
+  switch (format) {
+    case 'pdf':
+      return shareFile({
+        filename: `${filename}.pdf`,
+        mimeType: 'application/pdf',
+        base64: encodeBase64(renderSessionPdf(session)),
+        title: SHARE_TITLE,
+      });
+    case 'fhir': {
+      const json = serializeFhirBundle(buildSessionFhirBundle(session));
+      return shareFile({
+        filename: `${filename}.fhir.json`,
+        mimeType: FHIR_MIME_TYPE,
+        base64: encodeBase64(encodeUtf8(json)),
+        title: SHARE_TITLE,
+      });
+    }
+    case 'json': {
+      const json = JSON.stringify(formatSessionForExport(session), null, 2);
+      return shareFile({
+        filename: `${filename}.json`,
+        mimeType: 'application/json',
+        base64: encodeBase64(encodeUtf8(json)),
+        title: SHARE_TITLE,
+      });
+    }
+    case 'text': {
+      const result = await Share.share({ message: text, title: SHARE_TITLE });
+      return result.action === Share.sharedAction;
+    }
+  }
+}
+
+export function useSessionExport(): UseSessionExport {
+  const exportSession = useAskCarebowStore((state) => state.exportSession);
+  const [exporting, setExporting] = useState(false);
+
+  const shareSession = useCallback(
+    async (session: AskCarebowSession, format: SessionExportFormat) => {
+      setExporting(true);
+      try {
+        const shared = await share(session, format);
+        if (shared) exportSession(format, 'share', session.id);
+        return shared;
+      } catch (error) {
+        logger.error(`Session export as ${format} failed`, error);
+        Alert.alert('Export Failed', 'Unable to export session. Please try again.');
+        return false;
+      } finally {
+        setExporting(false);
+      }
+    },
+    [exportSession]
+  );
+
+  const promptExport = useCallback(
+    (session: AskCarebowSession) => {
+      Alert.alert('Share with a Doctor', 'Choose a format for this conversation.', [
+        { text: 'PDF Summary', onPress: () => void shareSession(session, 'pdf') },
+        {
+          text: "For the Doctor's Records System (FHIR)",
+          onPress: () => void shareSession(session, 'fhir'),
+        },
+        { text: 'Plain Text', onPress: () => void shareSession(session, 'text') },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [shareSession]
+  );
+
+  return { exporting, shareSession, promptExport };
+}
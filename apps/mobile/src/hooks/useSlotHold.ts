@@ -0,0 +1,103 @@
+/**
+ * Hold a published slot while the customer reviews and pays.
+ *
+ * The hold is taken when checkout opens and released if the customer leaves
+ * without booking. Once a booking or payment order has been created with it,
+ * the server owns the hold — it becomes the booking, or lapses at `expiresAt`
+ * if payment never completes — so the app stops releasing it.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SlotHold } from '../data/types';
+import { availabilityApi } from '../services/api/endpoints/availability';
+import { ApiError } from '../services/api/types';
+import { secondsUntil } from '../lib/availability';
+
+export type SlotHoldStatus = 'idle' | 'holding' | 'held' | 'expired' | 'taken' | 'error';
+
+export type UseSlotHold = {
+  status: SlotHoldStatus;
+  hold: SlotHold | null;
+  secondsLeft: number;
+  /** The current hold, taking a fresh one if it has expired. */
+  ensureHeld: () => Promise<{ ok: true; holdId: string } | { ok: false; taken: boolean }>;
+  /** Hand the hold to the server; it is no longer released on unmount. */
+  consume: () => void;
+};
+
+export function useSlotHold(serviceId: string | undefined, startsAt: string | null): UseSlotHold {
+  const [status, setStatus] = useState<SlotHoldStatus>('idle');
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const holdRef = useRef<SlotHold | null>(null);
+  const consumed = useRef(false);
+  const mounted = useRef(true);
+
+  /** The new hold, or whether the slot was lost to someone else. */
+  const reserve = useCallback(async (): Promise<SlotHold | { taken: boolean }> => {
+    if (!serviceId || !startsAt) return { taken: false };
+    setStatus('holding');
+    try {
+      const res = await availabilityApi.holdSlot({ serviceId, startsAt });
+      if (!res.success || !res.hold) {
+        setStatus('taken');
+        return { taken: true };
+      }
+      if (!mounted.current) {
+        // Checkout closed while the request was in flight.
+        void availabilityApi.releaseHold(res.hold.id).catch(() => undefined);
+        return { taken: false };
+      }
+      holdRef.current = res.hold;
+      setHold(res.hold);
+      setStatus('held');
+      return res.hold;
+    } catch (error) {
+      const taken = error instanceof ApiError && error.status === 409;
+      setStatus(taken ? 'taken' : 'error');
+      return { taken };
+    }
+  }, [serviceId, startsAt]);
+
+  useEffect(() => {
+    mounted.current = true;
+    consumed.current = false;
+    void reserve();
+    return () => {
+      mounted.current = false;
+      const current = holdRef.current;
+      holdRef.current = null;
+      if (current && !consumed.current) {
+        void availabilityApi.releaseHold(current.id).catch(() => undefined);
+      }
+    };
+  }, [reserve]);
+
+  useEffect(() => {
+    if (!hold) return;
+    const tick = () => {
+      const left = secondsUntil(hold.expiresAt);
+      setSecondsLeft(left);
+      if (left === 0) setStatus((current) => (current === 'held' ? 'expired' : current));
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [hold]);
+
+  const ensureHeld = useCallback(async () => {
+    const current = holdRef.current;
+    if (current && secondsUntil(current.expiresAt) > 0) {
+      return { ok: true as const, holdId: current.id };
+    }
+    const fresh = await reserve();
+    if ('id' in fresh) return { ok: true as const, holdId: fresh.id };
+    return { ok: false as const, taken: fresh.taken };
+  }, [reserve]);
+
+  const consume = useCallback(() => {
+    consumed.current = true;
+  }, []);
+
+  return { status, hold, secondsLeft, ensureHeld, consume };
+}
@@ -14,6 +14,7 @@ import {
   HealthContext,
   UrgencyLevel,
 } from '@/types/askCarebow';
+import { useAskCarebowStore } from '@/store/askCarebowStore';
 
 // ============================================
 // ORDER TYPES
@@ -288,15 +289,14 @@ export function generateEmergencyDeepLink(): string {
 
 /**
  * Link an order to a conversation
- * Updates the session with the linked order ID
+ * Updates the session with the linked order ID, so the conversation can be
+ * offered for sharing with that booking's provider
  */
 export async function linkOrderToConversation(
   sessionId: string,
   orderId: string
 ): Promise<void> {
-  // In production, update the session in database
-  // await updateSession(sessionId, { linkedOrderId: orderId });
-  console.log(`Linked order ${orderId} to conversation ${sessionId}`);
+  useAskCarebowStore.getState().linkOrderToSession(orderId, sessionId);
 }
 
 /**
@@ -0,0 +1,105 @@
+import { AskCarebowSession, createEmptyHealthContext, createMessage } from '@/types/askCarebow';
+import {
+  assessmentRecipient,
+  findShareableSessions,
+  formatAssessmentForProvider,
+  redactContactDetails,
+} from './assessmentShare';
+
+const NOW = Date.parse('2026-08-01T09:00:00.000Z');
+
+function session(id: string, over: Partial<AskCarebowSession> = {}): AskCarebowSession {
+  const healthContext = { ...createEmptyHealthContext(), primarySymptom: 'headache' };
+  return {
+    id,
+    userId: 'user-1',
+    memberId: 'member-42',
+    memberName: 'Asha',
+    messages: [createMessage('user', 'Headache for two days, call me on +91 98765 43210', 'text')],
+    conversationState: {
+      phase: 'guidance',
+      questionsAsked: [],
+      questionsRemaining: [],
+      healthContext,
+      hasProvidedGuidance: true,
+    },
+    healthContext,
+    recommendedServices: [],
+    createdAt: '2026-07-31T08:00:00.000Z',
+    updatedAt: '2026-07-31T08:10:00.000Z',
+    isActive: false,
+    detectedSymptoms: [],
+    suggestedActions: [],
+    ...over,
+  };
+}
+
+describe('redactContactDetails', () => {
+  it('removes phone numbers and email addresses', () => {
+    expect(redactContactDetails('Call +91 98765 43210 or (555) 123-4567')).toBe(
+      'Call [phone removed] or [phone removed]'
+    );
+    expect(redactContactDetails('Mail asha.k@example.com')).toBe('Mail [email removed]');
+  });
+
+  it('keeps dates, times and scores', () => {
+    const text = 'Session Date: 08.03.2026, 9:00:00 AM · 3/8/2026 · Severity: 8/10';
+    expect(redactContactDetails(text)).toBe(text);
+  });
+
+  it('keeps ISO dates, including one next to a phone number', () => {
+    expect(redactContactDetails('Started 2026-03-08, seen 2026-03-08T09:30')).toBe(
+      'Started 2026-03-08, seen 2026-03-08T09:30'
+    );
+    expect(redactContactDetails('2026-03-08 call 555-123-4567')).toBe(
+      '2026-03-08 call [phone removed]'
+    );
+  });
+});
+
+describe('formatAssessmentForProvider', () => {
+  const text = formatAssessmentForProvider(session('ask_1'));
+
+  it('keeps the clinical summary', () => {
+    expect(text).toContain('CHIEF COMPLAINT');
+    expect(text).toContain('Name: Asha');
+    expect(text).toContain('AI TRIAGE ASSESSMENT');
+  });
+
+  it('drops CareBow ids and contact details', () => {
+    expect(text).not.toContain('member-42');
+    expect(text).not.toContain('ask_1');
+    expect(text).not.toContain('98765');
+    expect(text).toContain('call me on [phone removed]');
+  });
+});
+
+describe('assessmentRecipient', () => {
+  it('names the provider once one is assigned', () => {
+    expect(assessmentRecipient({ provider: { name: 'Dr. Rao' } })).toBe('Dr. Rao');
+    expect(assessmentRecipient({ provider: null })).toBe('CareBow care team');
+  });
+});
+
+describe('findShareableSessions', () => {
+  it('puts the conversation that led to the booking first', () => {
+    const sessions = [
+      session('recent', { updatedAt: '2026-07-31T12:00:00.000Z' }),
+      session('linked', { linkedOrderId: 'bk_1', updatedAt: '2026-07-01T00:00:00.000Z' }),
+    ];
+
+    expect(findShareableSessions(sessions, 'bk_1', NOW).map((s) => s.id)).toEqual([
+      'linked',
+      'recent',
+    ]);
+  });
+
+  it('skips old conversations and ones the user never spoke in', () => {
+    const sessions = [
+      session('old', { updatedAt: '2026-05-01T00:00:00.000Z' }),
+      session('greeting-only', { messages: [createMessage('assistant', 'Hello')] }),
+    ];
+
+    expect(findShareableSessions(sessions, 'bk_1', NOW)).toEqual([]);
+  });
+});
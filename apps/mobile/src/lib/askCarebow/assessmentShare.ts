@@ -0,0 +1,61 @@
+/**
+ * Assessment sharing
+ *
+ * What a provider receives when a customer agrees to share an Ask CareBow
+ * conversation with a booking: the doctor-notes summary, minus CareBow's
+ * internal identifiers and any contact details typed into the chat. The
+ * customer sees exactly this text before anything is sent.
+ */
+
+import type { V1Booking } from '../../services/api/endpoints/member';
+import { AskCarebowSession, formatSessionForDoctorNotes } from '../../types/askCarebow';
+
+/** Sessions older than this are unlikely to describe the booked visit. */
+const SHAREABLE_SESSION_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Internal ids mean nothing to a provider and identify the account. */
+const INTERNAL_ID_LINES = /^(Member ID|Session ID):.*\n?/gm;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+/**
+ * 7–15 digits joined by spaces, dashes or brackets: phone numbers, but not
+ * dates ("08.03.2026", "3/8/2026", "2026-03-08") or scores ("8/10").
+ */
+const PHONE_PATTERN =
+  /(?<![\w/.(-])(?!\d{4}-\d{2}-\d{2}(?!\d))[+(]?\d(?:[ ()-]*\d){6,14}(?![\w/.])/g;
+
+export function redactContactDetails(text: string): string {
+  return text.replace(EMAIL_PATTERN, '[email removed]').replace(PHONE_PATTERN, '[phone removed]');
+}
+
+/** The exact text a provider receives for this session. */
+export function formatAssessmentForProvider(session: AskCarebowSession): string {
+  return redactContactDetails(formatSessionForDoctorNotes(session).replace(INTERNAL_ID_LINES, ''));
+}
+
+/** Who reads a shared assessment before a provider is assigned, and after. */
+export function assessmentRecipient(booking: Pick<V1Booking, 'provider'> | null): string {
+  return booking?.provider?.name || 'CareBow care team';
+}
+
+/**
+ * Conversations a customer could share with a booking, best match first: the
+ * one that led to the booking, then recent ones that got past the greeting.
+ */
+export function findShareableSessions(
+  sessions: AskCarebowSession[],
+  bookingId: string,
+  now: number = Date.now()
+): AskCarebowSession[] {
+  const linked = sessions.filter((session) => session.linkedOrderId === bookingId);
+  const recent = sessions
+    .filter(
+      (session) =>
+        session.linkedOrderId !== bookingId &&
+        now - Date.parse(session.updatedAt) <= SHAREABLE_SESSION_AGE_MS &&
+        session.messages.some((message) => message.role === 'user')
+    )
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  return [...linked, ...recent].slice(0, 3);
+}
@@ -0,0 +1,49 @@
+import {
+  formatGoldenReport,
+  getGoldenCases,
+  runGoldenCase,
+  type GoldenCaseResult,
+} from './goldenCorpus';
+
+const cases = getGoldenCases();
+const results = new Map<string, GoldenCaseResult>();
+
+describe('Ask CareBow golden cases', () => {
+  beforeAll(async () => {
+    for (const { cohort, patient, case: testCase } of cases) {
+      results.set(testCase.id, await runGoldenCase(cohort, patient, testCase));
+    }
+  });
+
+  it('has a corpus covering every cohort', () => {
+    expect(cases.length).toBeGreaterThanOrEqual(300);
+    expect(new Set(cases.map((c) => c.cohort))).toEqual(
+      new Set(['adult', 'pediatric', 'pregnancy', 'senior', 'crisis'])
+    );
+    expect(new Set(cases.map((c) => c.case.id)).size).toBe(cases.length);
+  });
+
+  it('never accepts a missed emergency as a known gap', () => {
+    const acceptedMisses = cases
+      .filter(({ case: { knownGap, expect: e } }) => {
+        if (!knownGap) return false;
+        return !!(e.urgency || e.minUrgency || e.redFlags?.length || e.crisis);
+      })
+      .map((c) => c.case.id);
+
+    expect(acceptedMisses).toEqual([]);
+  });
+
+  it.each(cases.map((c) => [c.case.id, c.case.message] as const))('%s: %s', (id) => {
+    const result = results.get(id)!;
+    if (result.knownGap) return;
+    expect(result.failures).toEqual([]);
+  });
+
+  // Update with `jest -u` when a change is clinically intended; the diff is
+  // the review record of which vignettes moved.
+  it('matches the recorded report', () => {
+    const ordered = cases.map((c) => results.get(c.case.id)!);
+    expect(formatGoldenReport(ordered)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Ask CareBow Golden-Case Corpus - DEV/TEST ONLY
+ *
+ * Clinical vignettes with expected outcomes, run fully offline so a change to
+ * rules, parsers or the triage service that moves any case fails CI instead of
+ * reaching users. Unlike runAudit (ten hardcoded cases against the network
+ * orchestrator), everything here is deterministic on-device code.
+ *
+ * Vignettes live in ./golden/<cohort>.json. Each case is run twice:
+ *
+ *   first message ──► processSafeFallbackUserInput ──► question? ──► answer ──┐
+ *                          ▲                                                  │
+ *                          └──────────────────────────────────────────────────┘
+ *                     until it escalates or gives guidance (pipeline urgency)
+ *
+ *   conversation's final context ──► assessUrgency (assessed urgency, rule ids)
+ *
+ * Answers come from the case, falling back to DEFAULT_ANSWERS. Expectations:
+ * - urgency / minUrgency / maxUrgency: checked against the pipeline urgency,
+ *   i.e. what the user is actually shown
+ * - redFlags: rule ids assessUrgency must match
+ * - crisis: the crisis routing for the first message
+ * - required / forbidden: phrases in the assistant's replies (plus the global
+ *   FORBIDDEN_PHRASES for every case)
+ *
+ * A case with `knownGap` documents a miss we have accepted for now: its
+ * failures are reported but do not fail the suite. Remove the field once the
+ * gap is fixed so it is guarded from then on. Only over-triage and wording
+ * may be accepted this way: a case expecting an urgency floor, a red flag or
+ * crisis routing can never carry `knownGap`, so a missed emergency always
+ * fails the suite.
+ *
+ * goldenCorpus.test.ts asserts every case and snapshots formatGoldenReport(),
+ * one line per case, so review diffs show exactly which vignettes moved.
+ */
+
+import { compareUrgency } from '@carebow/shared';
+import {
+  createEmptyHealthContext,
+  type ConversationPhase,
+  type HealthContext,
+  type UrgencyLevel,
+} from '@/types/askCarebow';
+import { useAskCarebowStore } from '@/store/askCarebowStore';
+import { useProfileStore } from '@/store/useProfileStore';
+import { processSafeFallbackUserInput } from '../safeFallbackEngine';
+import { assessUrgency, detectCrisisType, type CrisisType } from '../safetyClassifier';
+import { ageToAgeGroup } from '../patientContext';
+import adultCorpus from './golden/adult.json';
+import pediatricCorpus from './golden/pediatric.json';
+import pregnancyCorpus from './golden/pregnancy.json';
+import seniorCorpus from './golden/senior.json';
+import crisisCorpus from './golden/crisis.json';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type GoldenCohort = 'adult' | 'pediatric' | 'pregnancy' | 'senior' | 'crisis';
+
+export type GoldenQuestion = 'duration' | 'severity' | 'associated_symptoms';
+
+export type GoldenPatient = {
+  /** Whole years; 0 for an infant. */
+  ageYears: number;
+  gender: 'female' | 'male';
+  conditions?: string[];
+};
+
+export type GoldenExpectation = {
+  /** Any of these. */
+  urgency?: UrgencyLevel[];
+  minUrgency?: UrgencyLevel;
+  maxUrgency?: UrgencyLevel;
+  redFlags?: string[];
+  crisis?: CrisisType;
+  required?: string[];
+  forbidden?: string[];
+};
+
+export type GoldenCase = {
+  id: string;
+  message: string;
+  /** Overrides the cohort's default patient. */
+  patient?: GoldenPatient;
+  answers?: Partial<Record<GoldenQuestion, string>>;
+  expect: GoldenExpectation;
+  knownGap?: string;
+};
+
+export type GoldenCorpusFile = {
+  cohort: GoldenCohort;
+  patient: GoldenPatient;
+  cases: GoldenCase[];
+};
+
+export type GoldenCaseResult = {
+  id: string;
+  cohort: GoldenCohort;
+  /** Urgency shown to the user, or null if the conversation never got there. */
+  urgency: UrgencyLevel | null;
+  assessedUrgency: UrgencyLevel;
+  redFlags: string[];
+  crisis: CrisisType;
+  turns: number;
+  failures: string[];
+  knownGap?: string;
+};
+
+// ============================================
+// CORPUS
+// ============================================
+
+export const GOLDEN_CORPUS = [
+  adultCorpus,
+  pediatricCorpus,
+  pregnancyCorpus,
+  seniorCorpus,
+  crisisCorpus,
+] as GoldenCorpusFile[];
+
+export const DEFAULT_ANSWERS: Record<GoldenQuestion, string> = {
+  duration: 'two days',
+  severity: '5',
+  associated_symptoms: 'none',
+};
+
+/** Diagnostic certainty the assistant must never express. */
+export const FORBIDDEN_PHRASES = [
+  'you are suffering from',
+  'the diagnosis is',
+  'you definitely have',
+  'this is definitely',
+  'this confirms',
+  'nothing to worry about',
+];
+
+const MAX_TURNS = 6;
+const GOLDEN_MEMBER_ID = 'golden-patient';
+
+export function getGoldenCases(): {
+  cohort: GoldenCohort;
+  patient: GoldenPatient;
+  case: GoldenCase;
+}[] {
+  return GOLDEN_CORPUS.flatMap((file) =>
+    file.cases.map((c) => ({ cohort: file.cohort, patient: c.patient ?? file.patient, case: c }))
+  );
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+function dateOfBirthFor(patient: GoldenPatient): string {
+  const now = new Date();
+  // Mid-year birthday so the age never flips with the run date.
+  const birth = new Date(
+    Date.UTC(now.getUTCFullYear() - patient.ageYears, now.getUTCMonth() - 6, 1)
+  );
+  return birth.toISOString();
+}
+
+/** Makes the patient the bound Ask CareBow profile, as the app would. */
+function bindPatient(patient: GoldenPatient) {
+  useProfileStore.setState({
+    members: [
+      {
+        id: GOLDEN_MEMBER_ID,
+        firstName: 'Golden',
+        lastName: 'Patient',
+        dateOfBirth: dateOfBirthFor(patient),
+        gender: patient.gender,
+        relationship: 'self',
+        healthInfo: {
+          conditions: (patient.conditions ?? []).map((name, i) => ({ id: `c${i}`, name })),
+          medications: [],
+          allergies: [],
+        },
+      },
+    ],
+  } as never);
+  useAskCarebowStore.setState({ currentSession: { memberId: GOLDEN_MEMBER_ID } } as never);
+}
+
+function urgencyFailures(urgency: UrgencyLevel | null, expect: GoldenExpectation): string[] {
+  if (!expect.urgency && !expect.minUrgency && !expect.maxUrgency) return [];
+  if (!urgency) return ['conversation never reached an urgency'];
+
+  const failures: string[] = [];
+  if (expect.urgency && !expect.urgency.includes(urgency)) {
+    failures.push(`urgency ${urgency}, expected ${expect.urgency.join(' | ')}`);
+  }
+  if (expect.minUrgency && compareUrgency(urgency, expect.minUrgency) > 0) {
+    failures.push(`urgency ${urgency} is below ${expect.minUrgency}`);
+  }
+  if (expect.maxUrgency && compareUrgency(urgency, expect.maxUrgency) < 0) {
+    failures.push(`urgency ${urgency} is above ${expect.maxUrgency}`);
+  }
+  return failures;
+}
+
+export async function runGoldenCase(
+  cohort: GoldenCohort,
+  patient: GoldenPatient,
+  testCase: GoldenCase
+): Promise<GoldenCaseResult> {
+  bindPatient(patient);
+
+  let context: HealthContext = createEmptyHealthContext();
+  let phase: ConversationPhase = 'initial';
+  let urgency: UrgencyLevel | null = null;
+  let text = testCase.message;
+  let turns = 0;
+  const asked: string[] = [];
+  const replies: string[] = [];
+
+  while (turns < MAX_TURNS) {
+    turns += 1;
+    const response = await processSafeFallbackUserInput(text, phase, context, asked);
+    replies.push(...response.messages.map((m) => m.text));
+    context = { ...context, ...response.healthContextUpdates };
+    if (response.phaseUpdate) phase = response.phaseUpdate;
+    if (response.urgencyLevel) urgency = response.urgencyLevel;
+
+    const question = response.questionAsked as GoldenQuestion | undefined;
+    if (urgency || !question || phase !== 'gathering') break;
+    asked.push(question);
+    text = testCase.answers?.[question] ?? DEFAULT_ANSWERS[question];
+  }
+
+  // The emergency path skips intake, so fill in what the profile would supply.
+  const assessment = assessUrgency({
+    ...context,
+    primarySymptom: context.primarySymptom || testCase.message,
+    ageGroup: context.ageGroup ?? ageToAgeGroup(patient.ageYears),
+    chronicConditions:
+      context.chronicConditions.length > 0 ? context.chronicConditions : (patient.conditions ?? []),
+  });
+  const redFlags = assessment.matchedRedFlagRules.map((r) => r.id);
+  const crisis = detectCrisisType(testCase.message);
+  const { expect } = testCase;
+  const reply = replies.join('\n').toLowerCase();
+
+  const failures = urgencyFailures(urgency, expect);
+  for (const id of expect.redFlags ?? []) {
+    if (!redFlags.includes(id)) failures.push(`red flag ${id} not matched`);
+  }
+  if (expect.crisis && crisis !== expect.crisis) {
+    failures.push(`crisis ${crisis}, expected ${expect.crisis}`);
+  }
+  for (const phrase of expect.required ?? []) {
+    if (!reply.includes(phrase.toLowerCase())) failures.push(`reply lacks "${phrase}"`);
+  }
+  for (const phrase of [...FORBIDDEN_PHRASES, ...(expect.forbidden ?? [])]) {
+    if (reply.includes(phrase.toLowerCase())) failures.push(`reply contains "${phrase}"`);
+  }
+
+  return {
+    id: testCase.id,
+    cohort,
+    urgency,
+    assessedUrgency: assessment.urgency,
+    redFlags,
+    crisis,
+    turns,
+    failures,
+    knownGap: testCase.knownGap,
+  };
+}
+
+export async function runGoldenCorpus(): Promise<GoldenCaseResult[]> {
+  const results: GoldenCaseResult[] = [];
+  for (const { cohort, patient, case: testCase } of getGoldenCases()) {
+    results.push(await runGoldenCase(cohort, patient, testCase));
+  }
+  return results;
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * One stable line per case. Sorted, fixed-width and free of timings so that
+ * the snapshot diff is exactly the set of cases whose outcome changed.
+ */
+export function formatGoldenReport(results: GoldenCaseResult[]): string {
+  const lines = results.map((r) => {
+    const status = r.failures.length === 0 ? 'PASS' : r.knownGap ? 'GAP ' : 'FAIL';
+    const flags = r.redFlags.length > 0 ? [...r.redFlags].sort().join(',') : '-';
+    const line = [
+      status,
+      r.id.padEnd(16),
+      (r.urgency ?? 'none').padEnd(10),
+      `assessed=${r.assessedUrgency.padEnd(10)}`,
+      `crisis=${r.crisis.padEnd(9)}`,
+      `flags=${flags}`,
+    ].join(' ');
+    return [line, ...r.failures.map((f) => `     ! ${f}`)].join('\n');
+  });
+
+  const failed = results.filter((r) => r.failures.length > 0 && !r.knownGap).length;
+  const gaps = results.filter((r) => r.failures.length > 0 && r.knownGap).length;
+  const summary = `${results.length} cases: ${results.length - failed - gaps} pass, ${gaps} known gaps, ${failed} fail`;
+
+  return [summary, ...lines].join('\n');
+}
@@ -18,8 +18,24 @@ export {
   TEST_CASES,
 } from './runAudit';
 
+export {
+  runGoldenCase,
+  runGoldenCorpus,
+  formatGoldenReport,
+  getGoldenCases,
+  GOLDEN_CORPUS,
+} from './goldenCorpus';
+
 export type {
   AuditCheckResult,
   AuditTestResult,
   AuditReport,
 } from './runAudit';
+
+export type {
+  GoldenCohort,
+  GoldenPatient,
+  GoldenExpectation,
+  GoldenCase,
+  GoldenCaseResult,
+} from './goldenCorpus';
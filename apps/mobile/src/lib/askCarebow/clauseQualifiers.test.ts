@@ -0,0 +1,144 @@
+import { annotateClauses, qualifySpan } from './clauseQualifiers';
+import { detectEmergency, detectEmergencyWithContext } from './safetyClassifier';
+
+function qualifierOf(text: string, phrase: string) {
+  const normalized = text.toLowerCase();
+  const start = normalized.indexOf(phrase);
+  return qualifySpan(annotateClauses(normalized), start, start + phrase.length);
+}
+
+describe('clause qualifiers', () => {
+  it('marks negated mentions', () => {
+    expect(qualifierOf('No chest pain', 'chest pain')).toBe('negated');
+    expect(qualifierOf("I don't have chest pain or fever", 'chest pain')).toBe('negated');
+    expect(qualifierOf('I don’t have chest pain', 'chest pain')).toBe('negated');
+    expect(qualifierOf('Denies shortness of breath', 'shortness of breath')).toBe('negated');
+  });
+
+  it('ends negation scope at clause boundaries', () => {
+    expect(qualifierOf('No fever but crushing chest pain', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf('No fever, chest pain since this morning', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf('No fever and chest pain', 'chest pain')).toBe('affirmed');
+  });
+
+  it('does not treat pseudo-negations as negation', () => {
+    expect(qualifierOf('No relief from the chest pain', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf('No idea why I have chest pain', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf("I've never had chest pain like this", 'chest pain')).toBe('affirmed');
+  });
+
+  it('marks historical mentions only for distant episodes', () => {
+    expect(qualifierOf('Had chest pain last year, fine now', 'chest pain')).toBe('historical');
+    expect(qualifierOf('History of seizures', 'seizures')).toBe('historical');
+    expect(qualifierOf('Chest pain started 2 days ago', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf('Had chest pain years ago and still get it', 'chest pain')).toBe('affirmed');
+    expect(qualifierOf('Chest pain years ago, worse again this week', 'chest pain')).toBe(
+      'affirmed'
+    );
+    expect(qualifierOf('Chest pain since last year, getting worse', 'chest pain')).toBe('affirmed');
+  });
+
+  it('keeps a past episode current when the sentence says it is happening now', () => {
+    expect(qualifierOf('My child had a seizure years ago and has one now', 'seizure')).toBe(
+      'affirmed'
+    );
+    expect(qualifierOf('I had a stroke in the past and now my face is drooping', 'stroke')).toBe(
+      'affirmed'
+    );
+  });
+
+  it('marks episodes that went away as resolved, not historical', () => {
+    expect(qualifierOf('Chest pain that went away an hour ago', 'chest pain')).toBe('resolved');
+    expect(qualifierOf('Had a rash, fine now', 'rash')).toBe('affirmed');
+    expect(qualifierOf('Rash is gone now', 'rash')).toBe('resolved');
+  });
+
+  it('marks hypothetical mentions', () => {
+    expect(qualifierOf('What if I get chest pain?', 'chest pain')).toBe('hypothetical');
+    expect(qualifierOf('What are the signs of a stroke', 'stroke')).toBe('hypothetical');
+    expect(qualifierOf('If my dad has chest pain what should I do', 'chest pain')).toBe(
+      'hypothetical'
+    );
+    expect(qualifierOf('What if this chest pain right now is serious', 'chest pain')).toBe(
+      'affirmed'
+    );
+  });
+});
+
+describe('detectEmergency with qualified mentions', () => {
+  it('does not count negated red flags toward isEmergency', () => {
+    const result = detectEmergency('no chest pain');
+
+    expect(result.isEmergency).toBe(false);
+    expect(result.matchedRules).toHaveLength(0);
+    expect(result.suppressedMatches.map((m) => m.qualifier)).toContain('negated');
+    expect(result.suppressedMatches.find((m) => m.rule)?.rule?.id).toBe('cardiac_chest_pain');
+  });
+
+  it('does not count historical red flags toward isEmergency', () => {
+    const result = detectEmergency('had chest pain last year, fine now');
+
+    expect(result.isEmergency).toBe(false);
+    expect(result.suppressedMatches.every((m) => m.qualifier === 'historical')).toBe(true);
+  });
+
+  it('flags a current emergency despite an earlier episode', () => {
+    expect(detectEmergency('My child had a seizure years ago and has one now').isEmergency).toBe(
+      true
+    );
+    expect(
+      detectEmergency('I had a stroke in the past and now my face is drooping').detectedSymptoms
+    ).toContain('stroke');
+  });
+
+  it('does not discount cardiac or neuro red flags that went away', () => {
+    const result = detectEmergency('chest pain that went away an hour ago');
+
+    expect(result.isEmergency).toBe(true);
+    expect(result.matchedRules.map((r) => r.id)).toContain('cardiac_chest_pain');
+    expect(result.suppressedMatches).toHaveLength(0);
+  });
+
+  it('still flags a current red flag', () => {
+    const result = detectEmergency('crushing chest pain right now');
+
+    expect(result.isEmergency).toBe(true);
+    expect(result.suppressedMatches).toHaveLength(0);
+  });
+
+  it('counts a red flag when any mention of it is affirmed', () => {
+    const result = detectEmergency('No chest pain yesterday. Now chest pain and sweating.');
+
+    expect(result.isEmergency).toBe(true);
+    expect(result.matchedRules.map((r) => r.id)).toContain('cardiac_chest_pain');
+    expect(result.suppressedMatches.find((m) => m.rule?.id === 'cardiac_chest_pain')).toBe(
+      undefined
+    );
+  });
+
+  it('keeps red flags whose own wording contains a negation word', () => {
+    const result = detectEmergencyWithContext('no wet diapers since morning', {
+      isPregnant: false,
+      isInfant: true,
+      isChild: false,
+      isSenior: false,
+    });
+
+    expect(result.matchedRules.map((r) => r.id)).toContain('peds_wet_diapers');
+  });
+
+  it('never discounts crisis mentions', () => {
+    const result = detectEmergency("I'm not having suicidal thoughts, I think");
+
+    expect(result.isEmergency).toBe(true);
+    expect(result.matchedRules.map((r) => r.id)).toContain('mental_suicidal');
+    expect(result.suppressedMatches).toHaveLength(0);
+  });
+
+  it('requires every clause of a cross-clause rule to be qualified', () => {
+    expect(detectEmergency('no fever and no stiff neck').isEmergency).toBe(false);
+    expect(
+      detectEmergency('no fever and a stiff neck with headache').matchedRules.map((r) => r.id)
+    ).toContain('neuro_neck_stiffness_fever');
+  });
+});
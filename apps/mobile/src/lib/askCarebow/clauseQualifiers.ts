@@ -0,0 +1,176 @@
+/**
+ * Clause-level qualifiers for red-flag matching
+ *
+ * "No chest pain", "had chest pain last year, fine now" and "what if I get
+ * chest pain?" all contain the words of a red flag without describing a
+ * current symptom. This pre-pass splits the text into clauses and marks the
+ * spans that are negated, historical or hypothetical, so the classifier can
+ * report those matches separately instead of raising the emergency banner.
+ *
+ * Deliberately conservative — a missed emergency is far worse than a false
+ * alarm, so anything ambiguous stays affirmed:
+ * - Clauses end at sentence punctuation, commas and contrastive or additive
+ *   conjunctions ("but", "and", "though"), so "no fever but crushing chest
+ *   pain" keeps the chest pain affirmed.
+ * - A negation cue only covers what follows it in the same clause, and never a
+ *   red flag whose own wording contains the cue ("no wet diapers"). "Never
+ *   had" is not a cue: "never had chest pain like this" is a current symptom.
+ * - Only distant time markers make a clause historical. Recent onset ("since
+ *   yesterday", "2 days ago") and anything ongoing in the same sentence
+ *   ("still", "has one now", "and now", "worse") keep it current. A bare
+ *   "now" only covers its own clause: "seizures as a child, now I have a
+ *   cold" is still history.
+ * - "Went away" and "fine now" mark a clause resolved rather than historical:
+ *   chest pain or stroke signs that passed an hour ago are still an emergency,
+ *   so the classifier decides per rule whether resolution discounts a match.
+ */
+
+export type ClauseQualifier = 'affirmed' | 'negated' | 'historical' | 'resolved' | 'hypothetical';
+
+export type Clause = {
+  start: number;
+  end: number;
+  text: string;
+  /** Whole-clause qualifier from temporal or conditional markers. */
+  qualifier: 'affirmed' | 'historical' | 'resolved' | 'hypothetical';
+  /** Negation cues in this clause; each covers the text after it. */
+  negationCues: { start: number; end: number }[];
+};
+
+// ============================================
+// CUE LEXICONS
+// ============================================
+
+const CLAUSE_BOUNDARY =
+  /[.!?;,\n]+|\s+(?:but|however|though|although|yet|except|and|whereas|while)\s+/gi;
+
+const SENTENCE_BOUNDARY = /[.!?;\n]+/g;
+
+const NEGATION_CUE =
+  /\b(?:no|denies|denied|without|free\s+of|negative\s+for|no\s+longer|(?:do|does|did)\s*(?:n['’]?t|not)\s+(?:have|feel|get|experience)|(?:have|has|had)\s*(?:n['’]?t|not)\s+(?:had|got|been\s+having|noticed)|not\s+(?:having|experiencing|feeling\s+any))\b/gi;
+
+// Phrases that start with a negation word but do not negate a symptom.
+const PSEUDO_NEGATION =
+  /^(?:no\s+(?:better|relief|change|improvement|increase|idea|one|way|matter)|without\s+(?:relief|improvement|warning|reason))\b/i;
+
+const HISTORICAL_MARKER =
+  /\b(?:last\s+(?:year|month|summer|winter|spring|fall|autumn)|(?:years?|months?|decades?)\s+ago|in\s+the\s+past|history\s+of|used\s+to|previously|as\s+a\s+(?:child|kid|teen(?:ager)?)|when\s+i\s+was\s+(?:young|little|a\s+(?:child|kid))|back\s+in\s+(?:19|20)\d\d|years\s+back)\b/i;
+
+const RESOLVED_MARKER =
+  /\b(?:resolved|went\s+away|gone\s+away|(?:gone|fine|better|okay|ok|normal|all\s+good)\s+now|recovered)\b/i;
+
+// "Fine now" says the symptom is over, so its "now" is not an ongoing marker.
+const RESOLVED_NOW = /\b(?:gone|fine|better|okay|ok|normal|good)\s+now\b/gi;
+
+// Anything in the sentence suggesting the symptom is happening now overrides a
+// historical, resolved or hypothetical marker.
+const ONGOING_MARKER =
+  /\b(?:right\s+now|(?:one|another|it|them)\s+now|(?:and|but)\s+now|currently|at\s+present|as\s+we\s+speak|still|again|today|tonight|this\s+(?:morning|afternoon|evening)|since|started|starting|worse|worsening|keeps?|ongoing|at\s+the\s+moment)\b/i;
+
+const NOW_MARKER = /\bnow\b/i;
+
+const HYPOTHETICAL_MARKER =
+  /\b(?:what\s+if|in\s+case|if\s+(?:i|he|she|they|we|you|my\s+\w+)\s+(?:ever\s+)?(?:get|gets|got|have|has|had|develop|develops|start|starts|feel|feels|experience|experiences)|how\s+(?:do|would|can|will)\s+i\s+know\s+if|what\s+(?:are|were)\s+(?:the\s+)?(?:signs|symptoms|warning\s+signs)\s+of|how\s+(?:do\s+i\s+|to\s+)(?:prevent|avoid))\b/i;
+
+// ============================================
+// ANNOTATION
+// ============================================
+
+function splitOn(text: string, boundaries: RegExp): { start: number; end: number }[] {
+  const clauses: { start: number; end: number }[] = [];
+  let cursor = 0;
+  for (const boundary of text.matchAll(boundaries)) {
+    const index = boundary.index ?? 0;
+    if (index > cursor) clauses.push({ start: cursor, end: index });
+    cursor = index + boundary[0].length;
+  }
+  if (cursor < text.length) clauses.push({ start: cursor, end: text.length });
+  return clauses;
+}
+
+function splitClauses(text: string): { start: number; end: number }[] {
+  return splitOn(text, CLAUSE_BOUNDARY);
+}
+
+function splitSentences(text: string): { start: number; end: number }[] {
+  return splitOn(text, SENTENCE_BOUNDARY);
+}
+
+function findNegationCues(clauseText: string, offset: number): { start: number; end: number }[] {
+  const cues: { start: number; end: number }[] = [];
+  for (const cue of clauseText.matchAll(NEGATION_CUE)) {
+    const index = cue.index ?? 0;
+    if (PSEUDO_NEGATION.test(clauseText.slice(index))) continue;
+    cues.push({ start: offset + index, end: offset + index + cue[0].length });
+  }
+  return cues;
+}
+
+/**
+ * Split text into clauses and mark each clause's qualifiers. Offsets refer to
+ * the text passed in, so callers can qualify regex matches by index.
+ */
+export function annotateClauses(text: string): Clause[] {
+  const sentences = splitSentences(text);
+
+  return splitClauses(text).map(({ start, end }) => {
+    const clauseText = text.slice(start, end);
+    const sentence = sentences.find((s) => start >= s.start && start < s.end);
+    const sentenceText = sentence ? text.slice(sentence.start, sentence.end) : clauseText;
+
+    // "Had chest pain years ago and still get it": the ongoing marker sits in
+    // the next clause, so it is checked across the whole sentence.
+    let qualifier: Clause['qualifier'] = 'affirmed';
+    const ongoing =
+      ONGOING_MARKER.test(sentenceText.replace(RESOLVED_NOW, '')) ||
+      NOW_MARKER.test(clauseText.replace(RESOLVED_NOW, ''));
+    if (!ongoing) {
+      if (HYPOTHETICAL_MARKER.test(clauseText)) {
+        qualifier = 'hypothetical';
+      } else if (HISTORICAL_MARKER.test(clauseText)) {
+        qualifier = 'historical';
+      } else if (RESOLVED_MARKER.test(clauseText)) {
+        qualifier = 'resolved';
+      }
+    }
+
+    return {
+      start,
+      end,
+      text: clauseText,
+      qualifier,
+      negationCues: findNegationCues(clauseText, start),
+    };
+  });
+}
+
+function qualifyPosition(clause: Clause, position: number): ClauseQualifier {
+  if (clause.qualifier !== 'affirmed') return clause.qualifier;
+  if (clause.negationCues.some((cue) => cue.end <= position)) return 'negated';
+  return 'affirmed';
+}
+
+/**
+ * Qualifier for a match at [start, end). A negation cue applies only when it
+ * ends before the match begins, so cue words inside the red flag's own
+ * wording never negate it.
+ *
+ * Some rules span clauses ("stiff neck ... fever"). Such a match is only
+ * qualified when every clause it touches is — "no fever and no stiff neck" is
+ * negated, "no fever and a stiff neck" is not.
+ */
+export function qualifySpan(clauses: Clause[], start: number, end: number): ClauseQualifier {
+  const touched = clauses.filter((c) => c.start < end && c.end > start);
+  const first = touched[0];
+  if (!first || start < first.start) return 'affirmed';
+
+  const qualifier = qualifyPosition(first, start);
+  if (qualifier === 'affirmed') return 'affirmed';
+
+  for (const clause of touched.slice(1)) {
+    if (qualifyPosition(clause, Math.min(end, clause.end) - 1) === 'affirmed') {
+      return 'affirmed';
+    }
+  }
+  return qualifier;
+}
@@ -24,6 +24,7 @@ import {
   shouldAskMoreQuestions,
   parseUserResponse,
 } from './followUpQuestions';
+import { answeredFields, extractSymptomDetails } from './symptomExtractor';
 import { getServiceRecommendations } from './serviceRouter';
 import { buildGuidanceResponse } from './guidanceBuilder';
 import { classifyIntent, ConversationIntent } from './intentClassifier';
@@ -107,8 +108,9 @@ function handleInitialInput(
   // Extract primary symptom from initial input
   const primarySymptom = extractPrimarySymptom(originalText);
 
-  // Parse any additional context from the initial message
-  const parsedContext = parseInitialInput(normalizedText);
+  // Pull onset, location, severity etc. out of the initial message; only
+  // confidently stated fields are kept, the rest are asked.
+  const parsedContext = answeredFields(extractSymptomDetails(normalizedText));
 
   // Update health context
   const healthContextUpdates: Partial<HealthContext> = {
@@ -118,10 +120,8 @@ function handleInitialInput(
 
   // P1-1 FIX: Determine first question based on what's already known
   // P1-3 FIX: Use correct priority order (onset -> location -> severity -> pattern)
-  let firstQuestionType: FollowUpQuestionType = 'duration'; // onset
-  if (parsedContext.duration) {
-    firstQuestionType = 'location';
-  }
+  const firstQuestionType: FollowUpQuestionType =
+    getNextQuestionType([], { ...healthContext, ...healthContextUpdates }) ?? 'associated_symptoms';
 
   const firstQuestion = getFollowUpQuestion(firstQuestionType, {
     ...healthContext,
@@ -478,32 +478,6 @@ function extractPrimarySymptom(text: string): string {
   return symptom.charAt(0).toUpperCase() + symptom.slice(1);
 }
 
-function parseInitialInput(text: string): Partial<HealthContext> {
-  const context: Partial<HealthContext> = {};
-
-  // Extract duration if mentioned
-  if (text.includes('for a few days') || text.includes('past few days')) {
-    context.duration = '3_7_days';
-  } else if (text.includes('since yesterday') || text.includes('since last night')) {
-    context.duration = '1_2_days';
-  } else if (text.includes('just started') || text.includes('started today')) {
-    context.duration = 'today';
-  } else if (text.includes('for weeks') || text.includes('few weeks')) {
-    context.duration = '1_2_weeks';
-  }
-
-  // Extract severity indicators
-  if (text.includes('severe') || text.includes('really bad') || text.includes('unbearable')) {
-    context.severity = 8;
-  } else if (text.includes('mild') || text.includes('slight') || text.includes('a little')) {
-    context.severity = 3;
-  } else if (text.includes('moderate')) {
-    context.severity = 5;
-  }
-
-  return context;
-}
-
 // ============================================
 // P1-1 FIX: FIRST-RESPONSE FORMAT
 // ============================================
@@ -599,6 +573,7 @@ function getNextQuestionType(
       if (questionType === 'duration' && context.duration) continue;
       if (questionType === 'severity' && context.severity) continue;
       if (questionType === 'frequency' && context.frequency) continue;
+      if (questionType === 'location' && context.location) continue;
       if (questionType === 'location' && context.additionalNotes?.includes('location')) continue;
       if (questionType === 'associated_symptoms' && context.associatedSymptoms.length > 0) continue;
       if (questionType === 'risk_factors' && context.riskFactors.length > 0) continue;
@@ -9,7 +9,10 @@
 export type { ConversationResponse } from './conversationEngine';
 export { processSafeFallbackUserInput as processUserInput } from './safeFallbackEngine';
 export * from './followUpQuestions';
+export * from './symptomExtractor';
 export * from './safetyClassifier';
+export * from './redFlagRulePack';
+export * from './clauseQualifiers';
 export * from './serviceRouter';
 export * from './guidanceBuilder';
 export * from './contextLoader';
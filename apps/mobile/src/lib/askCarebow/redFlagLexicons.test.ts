@@ -0,0 +1,96 @@
+import { checkSafety, detectInputLanguages, resolveLexiconLanguages } from '@carebow/shared';
+import { useLocalizationStore } from '@/localization';
+import { performTriage } from '@/utils/triageEngine';
+import { detectCrisisType, detectEmergency } from './safetyClassifier';
+
+describe('multilingual red flags', () => {
+  afterEach(() => {
+    useLocalizationStore.getState().setLanguage('en');
+  });
+
+  it('detects the input language from script and common words', () => {
+    expect(detectInputLanguages('मुझे सीने में दर्द है')).toEqual(['hi']);
+    expect(detectInputLanguages('mujhe seene mein dard ho raha hai')).toEqual(['hi']);
+    expect(detectInputLanguages('Tengo dolor de pecho')).toEqual(['es']);
+    expect(detectInputLanguages('pienso en quitarme la vida')).toEqual(['es']);
+    expect(detectInputLanguages('I have a headache')).toEqual([]);
+  });
+
+  it('always checks English alongside the detected and app languages', () => {
+    expect(resolveLexiconLanguages('I have a headache', 'es')).toEqual(['es', 'en']);
+    expect(resolveLexiconLanguages('Tengo dolor de pecho', 'hi')).toEqual(['es', 'hi', 'en']);
+  });
+
+  it('flags Hindi, Hinglish and Spanish chest pain as the cardiac rule', () => {
+    for (const text of [
+      'मुझे सीने में दर्द है',
+      'mujhe seene mein dard ho raha hai',
+      'Tengo un dolor de pecho muy fuerte',
+    ]) {
+      const result = detectEmergency(text);
+      expect(result.isEmergency).toBe(true);
+      expect(result.matchedRules.map((r) => r.id)).toContain('cardiac_chest_pain');
+    }
+  });
+
+  it('reports negated Spanish and Hindi red flags without escalating', () => {
+    for (const text of [
+      'No tengo dolor en el pecho',
+      'mujhe seene mein dard nahi hai',
+      'मुझे सीने में दर्द नहीं है',
+    ]) {
+      const result = detectEmergency(text);
+      expect(result.isEmergency).toBe(false);
+      expect(result.suppressedMatches).toEqual([
+        expect.objectContaining({
+          qualifier: 'negated',
+          rule: expect.objectContaining({ id: 'cardiac_chest_pain' }),
+        }),
+      ]);
+    }
+  });
+
+  it('keeps a Spanish or Hindi red flag when negation is in another clause or not negation', () => {
+    for (const text of [
+      'No tengo fiebre pero me duele el pecho',
+      'No se me quita el dolor de pecho',
+      'bukhar nahi hai lekin seene mein dard hai',
+      'no puedo respirar',
+    ]) {
+      expect(detectEmergency(text).isEmergency).toBe(true);
+    }
+  });
+
+  it('never discounts negated crisis language', () => {
+    expect(detectEmergency('no quiero suicidarme, creo').isEmergency).toBe(true);
+  });
+
+  it('uses the app language when the input gives no hint', () => {
+    expect(detectEmergency('se desmayo').matchedRules).toHaveLength(0);
+
+    useLocalizationStore.getState().setLanguage('es');
+
+    expect(detectEmergency('se desmayo').matchedRules.map((r) => r.id)).toContain(
+      'neuro_loss_consciousness'
+    );
+  });
+
+  it('recognises crisis language in Spanish and Hindi', () => {
+    expect(detectCrisisType('quiero suicidarme')).toBe('suicide');
+    expect(detectCrisisType('main khudkushi karna chahta hoon')).toBe('suicide');
+    expect(detectCrisisType('tengo fiebre')).toBe('none');
+  });
+
+  it('gates non-English emergencies in the shared safety check', () => {
+    const result = checkSafety('मुझे सांस नहीं आ रही', 'IN');
+
+    expect(result.isEmergency).toBe(true);
+    expect(result.level).toBe('P1');
+    expect(result.matchedKeywords).toContain("can't breathe");
+  });
+
+  it('flags lexicon hits in symptom entry triage', () => {
+    expect(performTriage('dolor de pecho desde anoche', 'hours', 'medium').isEmergency).toBe(true);
+    expect(performTriage('dolor de cabeza', 'hours', 'medium').isEmergency).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { askCareBowApi } from '@/services/api/endpoints/askCareBow';
+import { createEmptyHealthContext } from '@/types/askCarebow';
+import {
+  applyRulePack,
+  BUNDLED_RULE_PACK,
+  compareRulePackVersions,
+  computeRulePackChecksum,
+  getActiveRulePack,
+  hydrateRedFlagRulePack,
+  resetRulePack,
+  validateRulePack,
+  type RedFlagRulePackDocument,
+} from './redFlagRulePack';
+import { assessUrgency, detectEmergency } from './safetyClassifier';
+import bundledPackJson from './redFlagRules.default.json';
+
+jest.mock('@/services/api/endpoints/askCareBow', () => ({
+  askCareBowApi: { getRedFlagRulePack: jest.fn() },
+}));
+
+const mockedFetch = askCareBowApi.getRedFlagRulePack as jest.Mock;
+
+function makePack(overrides: Partial<RedFlagRulePackDocument> = {}): RedFlagRulePackDocument {
+  const pack: RedFlagRulePackDocument = {
+    schemaVersion: 1,
+    version: '9.0.0',
+    publishedAt: '2026-10-01T00:00:00.000Z',
+    checksum: '',
+    rules: [
+      {
+        id: 'test_purple_toes',
+        pattern: 'purple\\s*toes',
+        flags: 'i',
+        category: 'cardiac',
+        urgencyBoost: 50,
+        immediateAction: 'Call emergency services immediately',
+        description: 'Purple toes',
+      },
+    ],
+    ...overrides,
+  };
+  return { ...pack, checksum: overrides.checksum ?? computeRulePackChecksum(pack) };
+}
+
+describe('red-flag rule packs', () => {
+  beforeEach(async () => {
+    resetRulePack();
+    mockedFetch.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  it('ships a bundled default whose checksum matches its content', () => {
+    const document = bundledPackJson as RedFlagRulePackDocument;
+    // If this fails after editing the JSON, set "checksum" to the value shown.
+    expect(document.checksum).toBe(computeRulePackChecksum(document));
+    expect(validateRulePack(document, 'bundled').valid).toBe(true);
+    expect(BUNDLED_RULE_PACK.rules.length).toBeGreaterThan(40);
+  });
+
+  it('compiles patterns so the classifier behaves as before', () => {
+    const result = detectEmergency('I have crushing chest pain');
+    expect(result.isEmergency).toBe(true);
+    expect(result.matchedRules.map((r) => r.id)).toContain('cardiac_chest_pain');
+    expect(result.rulePackVersion).toBe(BUNDLED_RULE_PACK.version);
+  });
+
+  it('rejects a pack whose content does not match its checksum', () => {
+    const pack = makePack();
+    pack.rules[0].urgencyBoost = 10;
+
+    const result = validateRulePack(pack);
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors.join()).toContain('checksum mismatch');
+  });
+
+  it('reports every schema problem at once', () => {
+    const pack = makePack({
+      rules: [
+        {
+          id: 'broken',
+          pattern: '(unclosed',
+          category: 'cardiac',
+          urgencyBoost: 50,
+          immediateAction: 'Act',
+          description: 'Broken',
+        },
+        {
+          id: 'bad_fields',
+          pattern: 'x',
+          flags: 'g',
+          category: 'astrology' as never,
+          urgencyBoost: 500,
+          immediateAction: '',
+          description: 'Bad',
+        },
+      ],
+    });
+
+    const result = validateRulePack(pack);
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('broken: pattern does not compile'),
+          expect.stringContaining('bad_fields: flags'),
+          expect.stringContaining('bad_fields: unknown category'),
+          expect.stringContaining('bad_fields: urgencyBoost'),
+          expect.stringContaining('bad_fields: immediateAction'),
+        ])
+      );
+    }
+  });
+
+  it('rejects an unsupported schema version', () => {
+    const result = validateRulePack(makePack({ schemaVersion: 2 }));
+    expect(result.valid).toBe(false);
+  });
+
+  it('activates a valid override and records its version on assessments', () => {
+    expect(applyRulePack(makePack()).valid).toBe(true);
+
+    const context = { ...createEmptyHealthContext(), primarySymptom: 'my toes went purple toes' };
+    const assessment = assessUrgency(context);
+
+    expect(assessment.rulePackVersion).toBe('9.0.0');
+    expect(assessment.matchedRedFlagRules.map((r) => r.id)).toEqual(['test_purple_toes']);
+    // Rules absent from the override no longer fire.
+    expect(detectEmergency('chest pain').isEmergency).toBe(true); // legacy symptom list
+    expect(detectEmergency('chest pain').matchedRules).toHaveLength(0);
+  });
+
+  it('keeps the current pack when an override is refused', () => {
+    const result = applyRulePack(makePack({ checksum: 'deadbeef' }));
+
+    expect(result.valid).toBe(false);
+    expect(getActiveRulePack()).toBe(BUNDLED_RULE_PACK);
+  });
+
+  it('refuses a pack older than the bundled default', () => {
+    const result = applyRulePack(makePack({ version: '0.9.0' }));
+
+    expect(result.valid).toBe(false);
+    expect(getActiveRulePack().version).toBe(BUNDLED_RULE_PACK.version);
+  });
+
+  it('evaluates against an explicitly passed pack', () => {
+    const validated = validateRulePack(makePack());
+    if (!validated.valid) throw new Error('fixture should validate');
+
+    const context = { ...createEmptyHealthContext(), primarySymptom: 'purple toes' };
+
+    expect(assessUrgency(context, validated.pack).rulePackVersion).toBe('9.0.0');
+    expect(getActiveRulePack()).toBe(BUNDLED_RULE_PACK);
+  });
+
+  it('compares dotted versions numerically', () => {
+    expect(compareRulePackVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareRulePackVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareRulePackVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+
+  describe('hydrateRedFlagRulePack', () => {
+    it('applies and caches a valid server pack', async () => {
+      mockedFetch.mockResolvedValueOnce(makePack());
+
+      await expect(hydrateRedFlagRulePack()).resolves.toBe('server');
+      expect(getActiveRulePack().version).toBe('9.0.0');
+
+      // Next launch, offline: the cached copy is applied.
+      resetRulePack();
+      mockedFetch.mockRejectedValueOnce(new Error('offline'));
+      await expect(hydrateRedFlagRulePack()).resolves.toBe('cache');
+      expect(getActiveRulePack().version).toBe('9.0.0');
+    });
+
+    it('stays on the bundled pack when the server pack is invalid', async () => {
+      mockedFetch.mockResolvedValueOnce(makePack({ checksum: '00000000' }));
+
+      await expect(hydrateRedFlagRulePack()).resolves.toBe('bundled');
+      expect(getActiveRulePack()).toBe(BUNDLED_RULE_PACK);
+    });
+
+    it('stays on the bundled pack when the server has no override', async () => {
+      mockedFetch.mockResolvedValueOnce(null);
+
+      await expect(hydrateRedFlagRulePack()).resolves.toBe('bundled');
+    });
+  });
+});
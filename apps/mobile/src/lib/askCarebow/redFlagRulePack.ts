@@ -0,0 +1,363 @@
+/**
+ * Red-flag rule packs for the Ask CareBow safety classifier.
+ *
+ * The red-flag rules used to be a regex array compiled into the app, so a
+ * clinical reviewer changing one pattern meant a store release. They now live
+ * in a versioned JSON pack:
+ *
+ *   bundled default (redFlagRules.default.json) ──┐
+ *   cached server pack (AsyncStorage) ────────────┼─> validateRulePack() ─> active pack
+ *   GET /v1/ask-carebow/red-flag-rules ───────────┘
+ *
+ * A pack only becomes active after it passes schema validation, every pattern
+ * compiles, and its checksum matches its content. Anything else is rejected
+ * and the previous pack stays in force — a corrupt download must never leave
+ * the classifier with fewer rules than the bundled default.
+ *
+ * The checksum (utils/contentPack.ts) guards against truncation and
+ * corruption in transit or in the cache, nothing more. Server packs are only
+ * trusted because they arrive over the authenticated API client; signed out,
+ * the fetch fails and the cached or bundled pack stays in force.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { askCareBowApi } from '../../services/api/endpoints/askCareBow';
+import { createLogger } from '../../utils/logger';
+import { compareContentVersions, computeContentChecksum } from '../../utils/contentPack';
+import type { RedFlagCategory, RedFlagRule } from './safetyClassifier';
+import bundledPackJson from './redFlagRules.default.json';
+
+const logger = createLogger('RedFlagRulePack');
+
+const CACHE_KEY = '@carebow/red_flag_rule_pack';
+
+/** Pack format this build understands. Bumped only on breaking shape changes. */
+export const RULE_PACK_SCHEMA_VERSION = 1;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RuleContext = NonNullable<RedFlagRule['requiresContext']>[number];
+
+/** One rule as it appears in the JSON pack. Patterns are RegExp source strings. */
+export type RedFlagRuleDefinition = {
+  id: string;
+  pattern: string;
+  flags?: string;
+  category: RedFlagCategory;
+  urgencyBoost: number;
+  ageRestriction?: { min?: number; max?: number };
+  requiresContext?: RuleContext[];
+  immediateAction: string;
+  description: string;
+};
+
+/** The serialized pack, as bundled or delivered by the server. */
+export type RedFlagRulePackDocument = {
+  schemaVersion: number;
+  version: string;
+  publishedAt: string;
+  checksum: string;
+  rules: RedFlagRuleDefinition[];
+};
+
+export type RulePackSource = 'bundled' | 'cache' | 'server';
+
+/** A validated pack with compiled patterns, ready for the classifier. */
+export type RedFlagRulePack = {
+  schemaVersion: number;
+  version: string;
+  publishedAt: string;
+  checksum: string;
+  source: RulePackSource;
+  rules: RedFlagRule[];
+};
+
+export type RulePackValidationResult =
+  | { valid: true; pack: RedFlagRulePack }
+  | { valid: false; errors: string[] };
+
+const CATEGORIES: readonly RedFlagCategory[] = [
+  'cardiac',
+  'respiratory',
+  'neurological',
+  'bleeding',
+  'mental_health',
+  'allergic',
+  'trauma',
+  'pediatric',
+  'pregnancy',
+  'infection',
+  'dehydration',
+];
+
+const CONTEXTS: readonly RuleContext[] = ['pregnancy', 'infant', 'child', 'senior'];
+
+// 'g' and 'y' make RegExp.test() stateful across calls, which would make the
+// same sentence match on one call and miss on the next.
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+// ============================================
+// CHECKSUM
+// ============================================
+
+/**
+ * Checksum over schemaVersion, version and rules (see computeContentChecksum).
+ */
+export function computeRulePackChecksum(
+  pack: Pick<RedFlagRulePackDocument, 'schemaVersion' | 'version' | 'rules'>
+): string {
+  return computeContentChecksum({
+    schemaVersion: pack.schemaVersion,
+    version: pack.version,
+    rules: pack.rules,
+  });
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function validateRule(raw: unknown, index: number, errors: string[]): RedFlagRule | null {
+  const at = `rules[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${at} is not an object`);
+    return null;
+  }
+
+  const startErrors = errors.length;
+  const id = isNonEmptyString(raw.id) ? raw.id : `#${index}`;
+
+  if (!isNonEmptyString(raw.id)) errors.push(`${at}.id must be a non-empty string`);
+  if (!isNonEmptyString(raw.pattern)) errors.push(`${id}: pattern must be a non-empty string`);
+  if (
+    raw.flags !== undefined &&
+    (typeof raw.flags !== 'string' || !ALLOWED_FLAGS.test(raw.flags))
+  ) {
+    errors.push(`${id}: flags may only contain i, m, s or u`);
+  }
+  if (!CATEGORIES.includes(raw.category as RedFlagCategory)) {
+    errors.push(`${id}: unknown category "${String(raw.category)}"`);
+  }
+  if (
+    typeof raw.urgencyBoost !== 'number' ||
+    !Number.isFinite(raw.urgencyBoost) ||
+    raw.urgencyBoost < 0 ||
+    raw.urgencyBoost > 100
+  ) {
+    errors.push(`${id}: urgencyBoost must be a number between 0 and 100`);
+  }
+  if (!isNonEmptyString(raw.immediateAction)) {
+    errors.push(`${id}: immediateAction must be a non-empty string`);
+  }
+  if (!isNonEmptyString(raw.description)) {
+    errors.push(`${id}: description must be a non-empty string`);
+  }
+  if (raw.requiresContext !== undefined) {
+    if (
+      !Array.isArray(raw.requiresContext) ||
+      raw.requiresContext.some((ctx) => !CONTEXTS.includes(ctx as RuleContext))
+    ) {
+      errors.push(`${id}: requiresContext may only contain ${CONTEXTS.join(', ')}`);
+    }
+  }
+  if (raw.ageRestriction !== undefined) {
+    const age = raw.ageRestriction;
+    if (
+      !isRecord(age) ||
+      (age.min !== undefined && typeof age.min !== 'number') ||
+      (age.max !== undefined && typeof age.max !== 'number')
+    ) {
+      errors.push(`${id}: ageRestriction must be { min?: number, max?: number }`);
+    }
+  }
+
+  if (errors.length > startErrors) return null;
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(raw.pattern as string, (raw.flags as string | undefined) ?? 'i');
+  } catch (error) {
+    errors.push(`${id}: pattern does not compile (${(error as Error).message})`);
+    return null;
+  }
+
+  const rule: RedFlagRule = {
+    id: raw.id as string,
+    pattern,
+    category: raw.category as RedFlagCategory,
+    urgencyBoost: raw.urgencyBoost as number,
+    immediateAction: raw.immediateAction as string,
+    description: raw.description as string,
+  };
+  if (raw.ageRestriction !== undefined) {
+    rule.ageRestriction = raw.ageRestriction as RedFlagRule['ageRestriction'];
+  }
+  if (raw.requiresContext !== undefined) {
+    rule.requiresContext = raw.requiresContext as RuleContext[];
+  }
+  return rule;
+}
+
+/**
+ * Validate a pack document and compile its patterns. Collects every problem
+ * rather than stopping at the first, so a reviewer sees the whole list.
+ */
+export function validateRulePack(
+  input: unknown,
+  source: RulePackSource = 'server'
+): RulePackValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(input)) {
+    return { valid: false, errors: ['Rule pack is not an object'] };
+  }
+
+  if (input.schemaVersion !== RULE_PACK_SCHEMA_VERSION) {
+    errors.push(
+      `Unsupported schemaVersion ${String(input.schemaVersion)} (expected ${RULE_PACK_SCHEMA_VERSION})`
+    );
+  }
+  if (!isNonEmptyString(input.version)) errors.push('version must be a non-empty string');
+  if (!isNonEmptyString(input.publishedAt) || Number.isNaN(Date.parse(input.publishedAt))) {
+    errors.push('publishedAt must be an ISO date string');
+  }
+  if (!isNonEmptyString(input.checksum)) errors.push('checksum must be a non-empty string');
+  if (!Array.isArray(input.rules) || input.rules.length === 0) {
+    errors.push('rules must be a non-empty array');
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  const rules: RedFlagRule[] = [];
+  const seenIds = new Set<string>();
+  (input.rules as unknown[]).forEach((raw, index) => {
+    const rule = validateRule(raw, index, errors);
+    if (!rule) return;
+    if (seenIds.has(rule.id)) {
+      errors.push(`${rule.id}: duplicate rule id`);
+      return;
+    }
+    seenIds.add(rule.id);
+    rules.push(rule);
+  });
+
+  const expected = computeRulePackChecksum(input as unknown as RedFlagRulePackDocument);
+  if (input.checksum !== expected) {
+    errors.push(`checksum mismatch (pack says ${String(input.checksum)}, content is ${expected})`);
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  return {
+    valid: true,
+    pack: {
+      schemaVersion: input.schemaVersion as number,
+      version: input.version as string,
+      publishedAt: input.publishedAt as string,
+      checksum: input.checksum as string,
+      source,
+      rules,
+    },
+  };
+}
+
+export const compareRulePackVersions = compareContentVersions;
+
+// ============================================
+// ACTIVE PACK
+// ============================================
+
+function loadBundledPack(): RedFlagRulePack {
+  const result = validateRulePack(bundledPackJson, 'bundled');
+  if (!result.valid) {
+    // Caught by the rule pack tests long before a build ships.
+    throw new Error(`Bundled red-flag rule pack is invalid: ${result.errors.join('; ')}`);
+  }
+  return result.pack;
+}
+
+export const BUNDLED_RULE_PACK: RedFlagRulePack = loadBundledPack();
+
+let activePack: RedFlagRulePack = BUNDLED_RULE_PACK;
+
+/** The pack the classifier evaluates against right now. */
+export function getActiveRulePack(): RedFlagRulePack {
+  return activePack;
+}
+
+/**
+ * Validate and activate a pack. Returns the validation result so callers can
+ * log why a pack was refused; a refused pack leaves the current one in force.
+ *
+ * A pack older than the bundled default is refused too: after an app update
+ * ships newer rules, a stale cached override must not roll them back.
+ */
+export function applyRulePack(
+  input: unknown,
+  source: RulePackSource = 'server'
+): RulePackValidationResult {
+  const result = validateRulePack(input, source);
+  if (!result.valid) return result;
+
+  if (compareRulePackVersions(result.pack.version, BUNDLED_RULE_PACK.version) < 0) {
+    return {
+      valid: false,
+      errors: [`version ${result.pack.version} is older than bundled ${BUNDLED_RULE_PACK.version}`],
+    };
+  }
+
+  activePack = result.pack;
+  return result;
+}
+
+/** Drop any override and go back to the bundled default. */
+export function resetRulePack(): void {
+  activePack = BUNDLED_RULE_PACK;
+}
+
+/**
+ * Hydrate the rule pack at launch. Never throws and never blocks: until this
+ * lands, and whenever it fails, the classifier runs on the bundled default.
+ *
+ * Returns the source actually applied, for logging and tests.
+ */
+export async function hydrateRedFlagRulePack(): Promise<RulePackSource> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const cached = applyRulePack(JSON.parse(raw), 'cache');
+      if (!cached.valid) {
+        logger.warn('Cached red-flag rule pack rejected', cached.errors);
+        await AsyncStorage.removeItem(CACHE_KEY).catch(() => {});
+      }
+    }
+  } catch {
+    // Unreadable cache entry — treat as a miss.
+  }
+
+  try {
+    const document = await askCareBowApi.getRedFlagRulePack();
+    if (document) {
+      const result = applyRulePack(document, 'server');
+      if (result.valid) {
+        AsyncStorage.setItem(CACHE_KEY, JSON.stringify(document)).catch(() => {});
+        return 'server';
+      }
+      logger.warn('Server red-flag rule pack rejected', result.errors);
+    }
+  } catch (error) {
+    logger.warn('Red-flag rule pack fetch failed; keeping current pack', error);
+  }
+
+  return activePack.source;
+}
@@ -13,11 +13,14 @@ import {
   type ConversationResponse,
 } from './conversationEngine';
 import { classifyIntent } from './intentClassifier';
-import { detectEmergency, assessUrgency } from './safetyClassifier';
+import { assessUrgency } from './safetyClassifier';
+import { triageService, toTriageDuration } from './triageService';
 import { getFollowUpQuestion } from './followUpQuestions';
+import { answeredFields, extractSymptomDetails } from './symptomExtractor';
 import { getServiceRecommendations } from './serviceRouter';
 import { buildGuidanceResponse } from './guidanceBuilder';
 import { ageFromDateOfBirth, ageToAgeGroup } from './patientContext';
+import { triageMappers } from '@carebow/shared';
 import { useAskCarebowStore } from '@/store/askCarebowStore';
 import { useProfileStore } from '@/store/useProfileStore';
 
@@ -289,7 +292,18 @@ function formatClinicalGuidance(
 }
 
 function assessmentResponse(context: HealthContext): ConversationResponse {
-  const assessment = assessUrgency(context);
+  // The context-aware score can only raise the urgency the shared service
+  // gives the same symptom text, severity and duration on other screens.
+  const scored = assessUrgency(context);
+  const decision = triageService.triage({
+    text: [context.primarySymptom, ...context.associatedSymptoms, context.additionalNotes]
+      .filter(Boolean)
+      .join('. '),
+    severity: context.severity ? triageMappers.severityFromScore(context.severity) : undefined,
+    duration: context.duration ? toTriageDuration(context.duration) : undefined,
+    assessedUrgency: scored.urgency,
+  });
+  const assessment = { ...scored, urgency: decision.urgency };
   const recommendations = getServiceRecommendations(context, assessment.urgency);
   const guidance = buildGuidanceResponse(context, assessment, recommendations);
   const text = formatClinicalGuidance(assessment.urgency, recommendations, guidance);
@@ -325,7 +339,7 @@ export async function processSafeFallbackUserInput(
   const normalized = userText.trim();
 
   // Emergency detection stays available even when patient context is missing.
-  if (detectEmergency(normalized.toLowerCase()).isEmergency) {
+  if (triageService.triage({ text: normalized }).isEmergency) {
     return processLegacyUserInput(userText, currentPhase, healthContext, questionsAsked as any);
   }
 
@@ -339,8 +353,11 @@ export async function processSafeFallbackUserInput(
   }
 
   if (currentPhase === 'initial') {
-    const duration = parseDurationSafely(normalized);
-    const severity = parseSeveritySafely(normalized);
+    // Location, quality and triggers stated up front are kept so they are not
+    // lost; duration and severity still prefer the conservative parsers.
+    const extracted = answeredFields(extractSymptomDetails(normalized));
+    const duration = parseDurationSafely(normalized) ?? extracted.duration;
+    const severity = parseSeveritySafely(normalized) ?? extracted.severity;
     const profileUpdates: Partial<HealthContext> = {
       ageGroup: clinicalContext.ageGroup,
       chronicConditions: clinicalContext.chronicConditions,
@@ -352,6 +369,7 @@ export async function processSafeFallbackUserInput(
       return mainSymptomQuestion(
         {
           ...profileUpdates,
+          ...extracted,
           ...(duration ? { duration } : {}),
           ...(severity ? { severity } : {}),
         },
@@ -362,12 +380,14 @@ export async function processSafeFallbackUserInput(
     const primarySymptom = cleanPrimarySymptom(normalized);
     const updated: HealthContext = {
       ...clinicalContext,
+      ...extracted,
       primarySymptom,
       ...(duration ? { duration } : {}),
       ...(severity ? { severity } : {}),
     };
     const updates: Partial<HealthContext> = {
       ...profileUpdates,
+      ...extracted,
       primarySymptom,
       ...(duration ? { duration } : {}),
       ...(severity ? { severity } : {}),
@@ -17,6 +17,10 @@ import {
   Severity,
   AgeGroup,
 } from '@/types/askCarebow';
+import { BUNDLED_RULE_PACK, getActiveRulePack, RedFlagRulePack } from './redFlagRulePack';
+import { annotateClauses, qualifySpan, ClauseQualifier } from './clauseQualifiers';
+import { matchRedFlagLexicons, resolveLexiconLanguages } from '@carebow/shared';
+import { useLocalizationStore } from '@/localization';
 
 // ============================================
 // TYPES
@@ -46,11 +50,27 @@ export type RedFlagRule = {
   description: string;
 };
 
+export type SuppressedRedFlagMatch = {
+  description: string;
+  matchedText: string;
+  qualifier: Exclude<ClauseQualifier, 'affirmed'>;
+  /** Absent for matches from the legacy RED_FLAG_SYMPTOMS list. */
+  rule?: RedFlagRule;
+};
+
 export type EmergencyCheckResult = {
   isEmergency: boolean;
   detectedSymptoms: string[];
   confidence: number;
   matchedRules: RedFlagRule[];
+  /**
+   * Red flags mentioned only in negated, historical, resolved or hypothetical
+   * clauses ("no chest pain", "had a seizure years ago"). Not counted toward
+   * isEmergency; kept so callers can log them or ask a clarifying question.
+   */
+  suppressedMatches: SuppressedRedFlagMatch[];
+  /** Version of the red-flag rule pack this check ran against. */
+  rulePackVersion: string;
 };
 
 export type SafetyAssessment = {
@@ -61,6 +81,8 @@ export type SafetyAssessment = {
   recommendSeeProfessional: boolean;
   ageModifierApplied: number;
   matchedRedFlagRules: RedFlagRule[];
+  /** Version of the red-flag rule pack this assessment was evaluated with. */
+  rulePackVersion: string;
 };
 
 // ============================================
@@ -88,465 +110,11 @@ export function getAgeGroupFromAge(age: number): AgeGroup {
 // RED FLAG RULES - COMPREHENSIVE
 // ============================================
 
-export const RED_FLAG_RULES: RedFlagRule[] = [
-  // ============================================
-  // CARDIAC
-  // ============================================
-  {
-    id: 'cardiac_chest_pain',
-    pattern: /chest\s*(pain|tightness|pressure|discomfort)/i,
-    category: 'cardiac',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Chest pain or tightness',
-  },
-  {
-    id: 'cardiac_heart_attack',
-    pattern: /heart\s*(attack|racing|pounding|palpitation)/i,
-    category: 'cardiac',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Heart attack symptoms or severe palpitations',
-  },
-  {
-    id: 'cardiac_arm_pain',
-    pattern: /arm\s*(pain|numbness).*(left|chest)|left\s*arm.*(pain|numb)/i,
-    category: 'cardiac',
-    urgencyBoost: 45,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Left arm pain or numbness (cardiac warning)',
-  },
-
-  // ============================================
-  // RESPIRATORY
-  // ============================================
-  {
-    id: 'respiratory_cant_breathe',
-    pattern: /can('?t| not)\s*breathe|cannot\s*breathe/i,
-    category: 'respiratory',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Unable to breathe',
-  },
-  {
-    id: 'respiratory_severe_sob',
-    pattern: /(severe|sudden|extreme)\s*shortness\s*of\s*breath/i,
-    category: 'respiratory',
-    urgencyBoost: 45,
-    immediateAction: 'Seek immediate medical attention',
-    description: 'Severe shortness of breath',
-  },
-  {
-    id: 'respiratory_difficulty',
-    pattern: /breathing\s*(very\s*)?(hard|difficult)|difficulty\s*breathing/i,
-    category: 'respiratory',
-    urgencyBoost: 40,
-    immediateAction: 'Seek urgent medical attention',
-    description: 'Difficulty breathing',
-  },
-  {
-    id: 'respiratory_blue_lips',
-    pattern: /(blue|purple|gray)\s*(lips|fingernails|skin)|cyanosis/i,
-    category: 'respiratory',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Blue discoloration (oxygen deprivation)',
-  },
-
-  // ============================================
-  // NEUROLOGICAL
-  // ============================================
-  {
-    id: 'neuro_thunderclap_headache',
-    pattern: /worst\s*headache|thunderclap\s*headache|sudden\s*severe\s*headache/i,
-    category: 'neurological',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Worst headache of life (possible aneurysm)',
-  },
-  {
-    id: 'neuro_stroke_signs',
-    pattern: /face\s*(droop|drooping|numb)|slurred?\s*speech|speech\s*slur/i,
-    category: 'neurological',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately - possible stroke',
-    description: 'Stroke warning signs (FAST)',
-  },
-  {
-    id: 'neuro_sudden_weakness',
-    pattern: /sudden\s*(confusion|weakness|numbness|paralysis)/i,
-    category: 'neurological',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Sudden neurological changes',
-  },
-  {
-    id: 'neuro_loss_consciousness',
-    pattern: /loss\s*of\s*(vision|consciousness)|passed\s*out|fainted|unconscious/i,
-    category: 'neurological',
-    urgencyBoost: 45,
-    immediateAction: 'Seek immediate medical attention',
-    description: 'Loss of consciousness or vision',
-  },
-  {
-    id: 'neuro_seizure',
-    pattern: /seizure|convulsion|fitting/i,
-    category: 'neurological',
-    urgencyBoost: 45,
-    immediateAction: 'Ensure safety, call emergency services',
-    description: 'Seizure activity',
-  },
-  {
-    id: 'neuro_neck_stiffness_fever',
-    pattern:
-      /(stiff\s*neck|neck\s*stiff).*(fever|headache)|(fever|headache).*(stiff\s*neck|neck\s*stiff)/i,
-    category: 'neurological',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services - possible meningitis',
-    description: 'Stiff neck with fever (meningitis warning)',
-  },
-
-  // ============================================
-  // BLEEDING
-  // ============================================
-  {
-    id: 'bleeding_severe',
-    pattern: /(severe|heavy|uncontrolled|profuse)\s*bleeding/i,
-    category: 'bleeding',
-    urgencyBoost: 50,
-    immediateAction: 'Apply direct pressure, call emergency services',
-    description: 'Severe or uncontrolled bleeding',
-  },
-  {
-    id: 'bleeding_blood_vomit',
-    pattern: /blood\s*(in|from)\s*(vomit|stomach)|vomit(ing)?\s*blood|hematemesis/i,
-    category: 'bleeding',
-    urgencyBoost: 45,
-    immediateAction: 'Seek immediate medical attention',
-    description: 'Vomiting blood',
-  },
-  {
-    id: 'bleeding_blood_stool',
-    pattern: /blood\s*(in|from)\s*(stool|bowel)|bloody\s*(stool|diarrhea)|melena/i,
-    category: 'bleeding',
-    urgencyBoost: 40,
-    immediateAction: 'Seek urgent medical attention',
-    description: 'Blood in stool',
-  },
-  {
-    id: 'bleeding_coughing_blood',
-    pattern: /coughing\s*(up\s*)?blood|hemoptysis/i,
-    category: 'bleeding',
-    urgencyBoost: 45,
-    immediateAction: 'Seek immediate medical attention',
-    description: 'Coughing up blood',
-  },
-
-  // ============================================
-  // MENTAL HEALTH
-  // ============================================
-  {
-    id: 'mental_suicidal',
-    pattern:
-      /(want|going|plan(ning)?)\s*to\s*(kill|hurt|end)\s*(myself|my\s*life|self)|suicid(e|al)/i,
-    category: 'mental_health',
-    urgencyBoost: 50,
-    immediateAction:
-      'Please call or text 988 (Suicide & Crisis Lifeline) now, or go to your nearest emergency room. You are not alone, and help is available 24/7.',
-    description: 'Suicidal ideation',
-  },
-  {
-    id: 'mental_self_harm',
-    pattern: /self[- ]harm|cutting\s*(myself|self)|hurt(ing)?\s*myself/i,
-    category: 'mental_health',
-    urgencyBoost: 45,
-    immediateAction:
-      'Please call or text 988 (Suicide & Crisis Lifeline) now. You deserve support, and trained counselors are available 24/7 to help.',
-    description: 'Self-harm',
-  },
-  {
-    id: 'mental_overdose',
-    pattern: /overdos(e|ed|ing)|took\s*too\s*many\s*(pills|medication)/i,
-    category: 'mental_health',
-    urgencyBoost: 50,
-    immediateAction:
-      'Call 911 or Poison Control (1-800-222-1222) immediately. If this was intentional, also call or text 988 (Suicide & Crisis Lifeline). Do not wait — help is available now.',
-    description: 'Overdose',
-  },
-
-  // ============================================
-  // ALLERGIC REACTION
-  // ============================================
-  {
-    id: 'allergic_throat',
-    pattern: /throat\s*(closing|swelling|tight|swollen)|swollen\s*throat/i,
-    category: 'allergic',
-    urgencyBoost: 50,
-    immediateAction: 'Use epinephrine if available, call emergency services',
-    description: 'Throat swelling (anaphylaxis)',
-  },
-  {
-    id: 'allergic_cant_swallow',
-    pattern: /can('?t| not)\s*swallow|cannot\s*swallow/i,
-    category: 'allergic',
-    urgencyBoost: 50,
-    immediateAction: 'Call emergency services immediately',
-    description: 'Unable to swallow',
-  },
-  {
-    id: 'allergic_anaphylaxis',
-    pattern: /anaphyla(xis|ctic)|severe\s*allergic\s*reaction/i,
-    category: 'allergic',
-    urgencyBoost: 50,
-    immediateAction: 'Use epinephrine if available, call emergency services',
-    description: 'Anaphylaxis',
-  },
-
-  // ============================================
-  // TRAUMA
-  // ============================================
-  {
-    id: 'trauma_head_severe',
-    pattern: /(severe|serious)\s*head\s*(injury|trauma)|head\s*(injury|trauma)/i,
-    category: 'trauma',
-    urgencyBoost: 45,
-    immediateAction: 'Seek immediate medical attention',
-    description: 'Head injury',
-  },
-  {
-    id: 'trauma_hit_head',
-    pattern: /hit\s*(my\s*)?head\s*(hard|badly)|fell\s*(on|and\s*hit)\s*(my\s*)?head/i,
-    category: 'trauma',
-    urgencyBoost: 35,
-    immediateAction: 'Monitor for concussion symptoms, seek medical evaluation',
-    description: 'Hit head',
-  },
-  {
-    id: 'trauma_major',
-    pattern: /major\s*(accident|injury|trauma)|serious\s*accident/i,
-    category: 'trauma',
-    urgencyBoost: 45,
-    immediateAction: 'Call emergency services',
-    description: 'Major accident or injury',
-  },
-
-  // ============================================
-  // PEDIATRIC - INFANT SPECIFIC (age < 1)
-  // ============================================
-  {
-    id: 'peds_infant_fever_any',
-    pattern: /fever|temperature|hot/i,
-    category: 'pediatric',
-    urgencyBoost: 50,
-    requiresContext: ['infant'],
-    ageRestriction: { max: 0.25 }, // Under 3 months
-    immediateAction: 'Any fever in infant under 3 months requires immediate medical attention',
-    description: 'Fever in infant under 3 months',
-  },
-  {
-    id: 'peds_infant_fever_high',
-    pattern: /fever\s*(over|above|greater\s*than)?\s*(104|105|106)|high\s*fever|104\s*f|40\s*c/i,
-    category: 'pediatric',
-    urgencyBoost: 45,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'High fever in child requires urgent medical attention',
-    description: 'High fever (over 104°F) in child',
-  },
-  {
-    id: 'peds_not_feeding',
-    pattern: /(not|won'?t|refuse|refusing)\s*(eat|feed|drink|nursing|bottle)|not\s*feed(ing)?/i,
-    category: 'pediatric',
-    urgencyBoost: 40,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Refusing food/drink may indicate serious illness',
-    description: 'Not eating or drinking',
-  },
-  {
-    id: 'peds_wet_diapers',
-    pattern: /(no|few(er)?|less)\s*(wet\s*)?(diaper|nappy)|dry\s*diaper|not\s*(wet|urinating)/i,
-    category: 'dehydration',
-    urgencyBoost: 45,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Fewer than 3 wet diapers in 24 hours indicates dehydration',
-    description: 'Decreased wet diapers (dehydration)',
-  },
-  {
-    id: 'peds_inconsolable',
-    pattern:
-      /inconsolable|won'?t\s*stop\s*crying|constant\s*crying|screaming|high[- ]pitch(ed)?\s*cry/i,
-    category: 'pediatric',
-    urgencyBoost: 40,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Inconsolable crying may indicate pain or serious illness',
-    description: 'Inconsolable crying',
-  },
-  {
-    id: 'peds_lethargy',
-    pattern: /lethargi(c|y)|difficult\s*to\s*wake|hard\s*to\s*arouse|limp|floppy|unresponsive/i,
-    category: 'pediatric',
-    urgencyBoost: 50,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Lethargy in child requires immediate medical attention',
-    description: 'Lethargy or difficult to wake',
-  },
-  {
-    id: 'peds_blue_baby',
-    pattern: /(blue|purple|gray)\s*(lips|fingernails|skin|around\s*mouth)/i,
-    category: 'pediatric',
-    urgencyBoost: 50,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Blue discoloration indicates oxygen deprivation - call emergency',
-    description: 'Blue discoloration in child',
-  },
-  {
-    id: 'peds_fontanelle',
-    pattern: /(bulg|sunk)(ing|en)?\s*(soft\s*spot|fontanel)/i,
-    category: 'pediatric',
-    urgencyBoost: 50,
-    requiresContext: ['infant'],
-    immediateAction: 'Bulging fontanelle may indicate increased brain pressure',
-    description: 'Bulging or sunken fontanelle',
-  },
-  {
-    id: 'peds_rash_fever',
-    pattern: /rash.*(fever|petechial)|fever.*rash|purple\s*(spot|rash)|petechial/i,
-    category: 'pediatric',
-    urgencyBoost: 50,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Rash with fever may indicate serious infection - seek immediate care',
-    description: 'Rash with fever in child',
-  },
-  {
-    id: 'peds_breathing_fast',
-    pattern: /(rapid|fast|quick)\s*breath(ing)?|breath(ing)?\s*(fast|rapid)/i,
-    category: 'pediatric',
-    urgencyBoost: 40,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Rapid breathing in child requires medical evaluation',
-    description: 'Rapid breathing in child',
-  },
-  {
-    id: 'peds_rib_retractions',
-    pattern: /rib\s*retraction|chest\s*(retraction|indraw|caving)|sucking\s*in\s*(chest|ribs)/i,
-    category: 'pediatric',
-    urgencyBoost: 45,
-    requiresContext: ['infant', 'child'],
-    immediateAction: 'Chest retractions indicate breathing difficulty - seek immediate care',
-    description: 'Chest/rib retractions (breathing difficulty)',
-  },
-
-  // ============================================
-  // PREGNANCY SPECIFIC
-  // ============================================
-  {
-    id: 'preg_vaginal_bleeding',
-    pattern: /vaginal\s*bleed(ing)?|bleed(ing)?\s*(from\s*)?vagina|spotting.*pregnan/i,
-    category: 'pregnancy',
-    urgencyBoost: 50,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Vaginal bleeding during pregnancy requires immediate evaluation',
-    description: 'Vaginal bleeding in pregnancy',
-  },
-  {
-    id: 'preg_preeclampsia',
-    pattern:
-      /(severe\s*)?headache.*(vision|swelling|pregnant)|vision\s*change.*(pregnant|headache)|preeclampsia/i,
-    category: 'pregnancy',
-    urgencyBoost: 50,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Signs of preeclampsia - seek immediate medical attention',
-    description: 'Preeclampsia warning signs',
-  },
-  {
-    id: 'preg_decreased_movement',
-    pattern: /(decreas|less|no|reduced)\s*(fetal\s*)?movement|baby\s*(not|stop)\s*moving/i,
-    category: 'pregnancy',
-    urgencyBoost: 45,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Decreased fetal movement requires urgent evaluation',
-    description: 'Decreased fetal movement',
-  },
-  {
-    id: 'preg_leaking_fluid',
-    pattern: /(leaking|gush)\s*(amniotic\s*)?fluid|water\s*(broke|breaking|leak)/i,
-    category: 'pregnancy',
-    urgencyBoost: 40,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Possible rupture of membranes - contact healthcare provider',
-    description: 'Leaking fluid in pregnancy',
-  },
-  {
-    id: 'preg_severe_swelling',
-    pattern: /severe\s*swelling|sudden\s*swelling|face\s*swelling.*pregnant/i,
-    category: 'pregnancy',
-    urgencyBoost: 45,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Sudden or severe swelling may indicate preeclampsia',
-    description: 'Severe swelling in pregnancy',
-  },
-  {
-    id: 'preg_abdominal_pain',
-    pattern:
-      /severe\s*(abdominal|stomach|belly)\s*pain.*pregnan|pregnan.*severe\s*(abdominal|stomach|belly)\s*pain/i,
-    category: 'pregnancy',
-    urgencyBoost: 50,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Severe abdominal pain in pregnancy requires immediate evaluation',
-    description: 'Severe abdominal pain in pregnancy',
-  },
-  {
-    id: 'preg_contractions_early',
-    pattern: /(preterm|early)\s*contraction|contraction.*before\s*(37|due)/i,
-    category: 'pregnancy',
-    urgencyBoost: 45,
-    requiresContext: ['pregnancy'],
-    immediateAction: 'Preterm contractions require immediate evaluation',
-    description: 'Preterm contractions',
-  },
-
-  // ============================================
-  // SENIOR SPECIFIC
-  // ============================================
-  {
-    id: 'senior_fall',
-    pattern: /fall|fell\s*down/i,
-    category: 'trauma',
-    urgencyBoost: 35,
-    requiresContext: ['senior'],
-    immediateAction: 'Falls in seniors require evaluation for fractures and head injury',
-    description: 'Fall in elderly person',
-  },
-  {
-    id: 'senior_confusion_sudden',
-    pattern: /sudden\s*confusion|acute\s*confusion|delirium|not\s*making\s*sense/i,
-    category: 'neurological',
-    urgencyBoost: 45,
-    requiresContext: ['senior'],
-    immediateAction:
-      'Sudden confusion in elderly may indicate stroke, infection, or other emergency',
-    description: 'Sudden confusion in elderly',
-  },
-
-  // ============================================
-  // INFECTION
-  // ============================================
-  {
-    id: 'infection_sepsis',
-    pattern: /sepsis|septic|blood\s*poisoning/i,
-    category: 'infection',
-    urgencyBoost: 50,
-    immediateAction: 'Sepsis is life-threatening - call emergency services',
-    description: 'Sepsis',
-  },
-  {
-    id: 'infection_high_fever_adult',
-    pattern: /fever\s*(over|above)?\s*(103|104|105)|103\s*(degree|f)/i,
-    category: 'infection',
-    urgencyBoost: 35,
-    immediateAction: 'High fever requires medical evaluation',
-    description: 'High fever (over 103°F)',
-  },
-];
+// The rules themselves live in redFlagRules.default.json so clinical reviewers
+// can change them without touching code, and a server-delivered pack can
+// replace them at runtime (see redFlagRulePack.ts). This export is the bundled
+// default, kept for callers that list or inspect rules.
+export const RED_FLAG_RULES: RedFlagRule[] = BUNDLED_RULE_PACK.rules;
 
 // ============================================
 // HIGH RISK CONDITIONS
@@ -626,6 +194,50 @@ function shouldApplyRule(rule: RedFlagRule, patientContext: PatientContext): boo
   });
 }
 
+// Crisis mentions are never discounted: "I'm not suicidal, but..." still
+// warrants crisis resources, so negation and tense do not apply to them.
+const ALWAYS_AFFIRMED_CATEGORIES: RedFlagCategory[] = ['mental_health'];
+
+// Chest pain or stroke signs that have passed still need urgent care (unstable
+// angina, a TIA), so "went away" or "fine now" does not discount them.
+const TRANSIENT_EMERGENCY_CATEGORIES: RedFlagCategory[] = ['cardiac', 'neurological'];
+
+// Global copies of rule patterns, so every occurrence can be qualified and a
+// negated first mention does not hide an affirmed later one.
+const globalPatterns = new WeakMap<RegExp, RegExp>();
+
+function findPatternMatches(text: string, pattern: RegExp): { start: number; end: number }[] {
+  let global = globalPatterns.get(pattern);
+  if (!global) {
+    global = new RegExp(
+      pattern.source,
+      pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+    );
+    globalPatterns.set(pattern, global);
+  }
+  return [...text.matchAll(global)]
+    .filter((m) => m[0].length > 0)
+    .map((m) => ({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }));
+}
+
+function findSubstringMatches(text: string, needle: string): { start: number; end: number }[] {
+  const matches: { start: number; end: number }[] = [];
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    matches.push({ start: index, end: index + needle.length });
+    index = text.indexOf(needle, index + needle.length);
+  }
+  return matches;
+}
+
+/**
+ * Lexicon languages for this text: detected from the input, plus the app's
+ * display language, plus English
+ */
+function getRedFlagLanguages(text: string) {
+  return resolveLexiconLanguages(text, useLocalizationStore.getState().language);
+}
+
 // ============================================
 // EMERGENCY DETECTION
 // ============================================
@@ -634,54 +246,141 @@ function shouldApplyRule(rule: RedFlagRule, patientContext: PatientContext): boo
  * Basic emergency detection without patient context
  * Use detectEmergencyWithContext for full accuracy
  */
-export function detectEmergency(text: string): EmergencyCheckResult {
-  return detectEmergencyWithContext(text, {
-    isPregnant: false,
-    isInfant: false,
-    isChild: false,
-    isSenior: false,
-  });
+export function detectEmergency(
+  text: string,
+  rulePack: RedFlagRulePack = getActiveRulePack()
+): EmergencyCheckResult {
+  return detectEmergencyWithContext(
+    text,
+    {
+      isPregnant: false,
+      isInfant: false,
+      isChild: false,
+      isSenior: false,
+    },
+    rulePack
+  );
 }
 
 /**
  * Enhanced emergency detection with patient context
  * This enables pediatric, pregnancy, and senior-specific red flags
+ * Rules come from the active rule pack unless one is passed explicitly
  */
 export function detectEmergencyWithContext(
   text: string,
-  patientContext: PatientContext
+  patientContext: PatientContext,
+  rulePack: RedFlagRulePack = getActiveRulePack()
 ): EmergencyCheckResult {
   const normalizedText = text.toLowerCase();
   const detectedSymptoms: string[] = [];
   const matchedRules: RedFlagRule[] = [];
+  const suppressed = new Map<string, SuppressedRedFlagMatch>();
+
+  // Negated, historical and hypothetical mentions are reported but not counted,
+  // and resolved ones only where `discountResolved` allows. Returns null as
+  // soon as any mention counts.
+  const clauses = annotateClauses(normalizedText);
+  const qualifyMentions = (
+    matches: { start: number; end: number }[],
+    discountResolved: boolean
+  ) => {
+    let firstQualified: {
+      qualifier: SuppressedRedFlagMatch['qualifier'];
+      start: number;
+      end: number;
+    } | null = null;
+    for (const m of matches) {
+      const qualifier = qualifySpan(clauses, m.start, m.end);
+      if (qualifier === 'affirmed') return null;
+      if (qualifier === 'resolved' && !discountResolved) return null;
+      firstQualified = firstQualified ?? { qualifier, ...m };
+    }
+    return firstQualified;
+  };
 
-  // Check against RED_FLAG_SYMPTOMS array (legacy)
+  // Check against RED_FLAG_SYMPTOMS array (legacy). These carry no category,
+  // so a resolved mention is never discounted.
   for (const symptom of RED_FLAG_SYMPTOMS) {
-    if (normalizedText.includes(symptom.toLowerCase())) {
-      if (!detectedSymptoms.includes(symptom)) {
-        detectedSymptoms.push(symptom);
-      }
+    const needle = symptom.toLowerCase();
+    const matches = findSubstringMatches(normalizedText, needle);
+    if (matches.length === 0) continue;
+
+    const qualified = detectCrisisType(needle) === 'none' ? qualifyMentions(matches, false) : null;
+    if (qualified) {
+      suppressed.set(`symptom:${symptom}`, {
+        description: symptom,
+        matchedText: normalizedText.slice(qualified.start, qualified.end),
+        qualifier: qualified.qualifier,
+      });
+    } else if (!detectedSymptoms.includes(symptom)) {
+      detectedSymptoms.push(symptom);
     }
   }
 
-  // Check against enhanced RED_FLAG_RULES with context awareness
-  for (const rule of RED_FLAG_RULES) {
+  // Check against the rule pack's red flag rules with context awareness
+  for (const rule of rulePack.rules) {
     // Skip rules that don't apply to this patient's context
     if (!shouldApplyRule(rule, patientContext)) {
       continue;
     }
 
-    if (rule.pattern.test(normalizedText)) {
-      const match = normalizedText.match(rule.pattern);
-      if (match) {
-        const symptomDesc = rule.description;
-        if (!detectedSymptoms.includes(symptomDesc)) {
-          detectedSymptoms.push(symptomDesc);
-        }
-        if (!matchedRules.find((r) => r.id === rule.id)) {
-          matchedRules.push(rule);
-        }
+    const matches = findPatternMatches(normalizedText, rule.pattern);
+    if (matches.length === 0) continue;
+
+    const qualified = ALWAYS_AFFIRMED_CATEGORIES.includes(rule.category)
+      ? null
+      : qualifyMentions(matches, !TRANSIENT_EMERGENCY_CATEGORIES.includes(rule.category));
+    if (qualified) {
+      suppressed.set(`rule:${rule.id}`, {
+        description: rule.description,
+        matchedText: normalizedText.slice(qualified.start, qualified.end),
+        qualifier: qualified.qualifier,
+        rule,
+      });
+      continue;
+    }
+
+    const symptomDesc = rule.description;
+    if (!detectedSymptoms.includes(symptomDesc)) {
+      detectedSymptoms.push(symptomDesc);
+    }
+    if (!matchedRules.find((r) => r.id === rule.id)) {
+      matchedRules.push(rule);
+    }
+  }
+
+  // Spanish and Hindi/Hinglish phrasings of the same red flags. Urgent-only
+  // lexicon terms with no matching rule are left to the triage gates, as their
+  // English equivalents are. Negated phrasings are reported like negated
+  // English ones, except crisis phrasings, which are never discounted.
+  for (const match of matchRedFlagLexicons(text, getRedFlagLanguages(text))) {
+    const rule = match.ruleId ? rulePack.rules.find((r) => r.id === match.ruleId) : undefined;
+    if (rule && !shouldApplyRule(rule, patientContext)) continue;
+    if (!rule && match.level !== 'P1') continue;
+
+    const symptomDesc = rule?.description ?? match.term;
+    const key = rule ? `rule:${rule.id}` : `lexicon:${match.term}`;
+    const alwaysAffirmed =
+      !!match.crisis || (!!rule && ALWAYS_AFFIRMED_CATEGORIES.includes(rule.category));
+    if (match.negated && !alwaysAffirmed) {
+      if (!detectedSymptoms.includes(symptomDesc) && !suppressed.has(key)) {
+        suppressed.set(key, {
+          description: symptomDesc,
+          matchedText: match.matchedText,
+          qualifier: 'negated',
+          rule,
+        });
       }
+      continue;
+    }
+
+    suppressed.delete(key);
+    if (!detectedSymptoms.includes(symptomDesc)) {
+      detectedSymptoms.push(symptomDesc);
+    }
+    if (rule && !matchedRules.find((r) => r.id === rule.id)) {
+      matchedRules.push(rule);
     }
   }
 
@@ -701,6 +400,8 @@ export function detectEmergencyWithContext(
     detectedSymptoms,
     confidence,
     matchedRules,
+    suppressedMatches: [...suppressed.values()],
+    rulePackVersion: rulePack.version,
   };
 }
 
@@ -714,8 +415,14 @@ export function detectEmergencyWithContext(
  * - Age-based urgency modifiers
  * - Severity and duration factoring
  * - Risk factor analysis
+ *
+ * Every check in one assessment runs against the same rule pack, even if a
+ * new pack is activated mid-way, so the recorded version is the one applied.
  */
-export function assessUrgency(context: HealthContext): SafetyAssessment {
+export function assessUrgency(
+  context: HealthContext,
+  rulePack: RedFlagRulePack = getActiveRulePack()
+): SafetyAssessment {
   const reasoning: string[] = [];
   const redFlagsDetected: string[] = [];
   const riskFactors: string[] = [];
@@ -728,7 +435,11 @@ export function assessUrgency(context: HealthContext): SafetyAssessment {
   const patientContext = extractPatientContext(context);
 
   // Check primary symptom for red flags (with context awareness)
-  const emergencyCheck = detectEmergencyWithContext(context.primarySymptom, patientContext);
+  const emergencyCheck = detectEmergencyWithContext(
+    context.primarySymptom,
+    patientContext,
+    rulePack
+  );
   if (emergencyCheck.isEmergency) {
     redFlagsDetected.push(...emergencyCheck.detectedSymptoms);
     matchedRedFlagRules.push(...emergencyCheck.matchedRules);
@@ -744,7 +455,7 @@ export function assessUrgency(context: HealthContext): SafetyAssessment {
 
   // Check associated symptoms
   for (const symptom of context.associatedSymptoms) {
-    const check = detectEmergencyWithContext(symptom, patientContext);
+    const check = detectEmergencyWithContext(symptom, patientContext, rulePack);
     if (check.isEmergency) {
       // Add only new symptoms
       for (const s of check.detectedSymptoms) {
@@ -765,7 +476,11 @@ export function assessUrgency(context: HealthContext): SafetyAssessment {
 
   // Check additional notes for red flags
   if (context.additionalNotes) {
-    const notesCheck = detectEmergencyWithContext(context.additionalNotes, patientContext);
+    const notesCheck = detectEmergencyWithContext(
+      context.additionalNotes,
+      patientContext,
+      rulePack
+    );
     if (notesCheck.isEmergency) {
       for (const s of notesCheck.detectedSymptoms) {
         if (!redFlagsDetected.includes(s)) {
@@ -861,6 +576,7 @@ export function assessUrgency(context: HealthContext): SafetyAssessment {
     recommendSeeProfessional: urgencyScore >= 20,
     ageModifierApplied,
     matchedRedFlagRules,
+    rulePackVersion: rulePack.version,
   };
 }
 
@@ -950,7 +666,7 @@ export function detectCrisisType(text: string): CrisisType {
 
   // Check for suicide ideation
   if (
-    /(want|going|plan(ning)?)\s*to\s*(kill|hurt|end)\s*(myself|my\s*life|self)|suicid(e|al)/i.test(
+    /(want|going|plan(ning)?)\s*to\s*(kill|hurt|end)\s*(myself|my\s*life|self)|wants?\s*to\s*die|suicid(e|al)/i.test(
       normalizedText
     )
   ) {
@@ -967,6 +683,14 @@ export function detectCrisisType(text: string): CrisisType {
     return 'overdose';
   }
 
+  // Spanish and Hindi/Hinglish crisis phrasings, in the same priority order
+  const crisisKinds = new Set(
+    matchRedFlagLexicons(text, getRedFlagLanguages(text)).map((m) => m.crisis)
+  );
+  if (crisisKinds.has('suicide')) return 'suicide';
+  if (crisisKinds.has('self_harm')) return 'self_harm';
+  if (crisisKinds.has('overdose')) return 'overdose';
+
   return 'none';
 }
 
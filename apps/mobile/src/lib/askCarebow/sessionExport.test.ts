@@ -0,0 +1,167 @@
+import {
+  AskCarebowSession,
+  HealthContext,
+  createEmptyHealthContext,
+  createMessage,
+} from '@/types/askCarebow';
+import {
+  FhirResource,
+  MEMBER_IDENTIFIER_SYSTEM,
+  SESSION_IDENTIFIER_SYSTEM,
+  buildSessionFhirBundle,
+  renderSessionPdf,
+  sessionExportFilename,
+} from './sessionExport';
+
+const healthContext: HealthContext = {
+  ...createEmptyHealthContext(),
+  primarySymptom: 'chest pain',
+  duration: 'few_hours',
+  severity: 8,
+  associatedSymptoms: ['shortness of breath'],
+  chronicConditions: ['Hypertension'],
+  medications: ['Amlodipine'],
+};
+
+const session: AskCarebowSession = {
+  id: 'ask_1772956800000_abc1234',
+  userId: 'user-1',
+  memberId: 'member-1',
+  memberName: 'Asha',
+  messages: [
+    createMessage('user', 'Tight chest pain since this morning', 'text', {
+      timestamp: '2026-03-08T08:00:00.000Z',
+    }),
+    createMessage('assistant', 'Please call emergency services now.', 'emergency_alert', {
+      timestamp: '2026-03-08T08:01:00.000Z',
+      isEmergency: true,
+    }),
+  ],
+  conversationState: {
+    phase: 'completed',
+    questionsAsked: ['duration', 'severity'],
+    questionsRemaining: ['medications'],
+    healthContext,
+    hasProvidedGuidance: true,
+  },
+  healthContext,
+  urgencyLevel: 'emergency',
+  riskLevel: 'critical',
+  recommendedServices: [],
+  createdAt: '2026-03-08T08:00:00.000Z',
+  updatedAt: '2026-03-08T08:05:00.000Z',
+  isActive: false,
+  detectedSymptoms: ['chest pain', 'shortness of breath'],
+  suggestedActions: [],
+  triggeredEmergencyFlow: true,
+  memberProfileSnapshot: {
+    id: 'member-1',
+    name: 'Asha',
+    relationship: 'self',
+    age: 67,
+    gender: 'female',
+    conditions: ['hypertension', 'Type 2 diabetes'],
+    medications: [],
+    allergies: [],
+    profileCompleteness: 80,
+  },
+};
+
+const generatedAt = new Date('2026-03-08T09:00:00.000Z');
+
+function resourcesOf(type: string): FhirResource[] {
+  return buildSessionFhirBundle(session, generatedAt)
+    .entry.map((entry) => entry.resource)
+    .filter((resource) => resource.resourceType === type);
+}
+
+describe('renderSessionPdf', () => {
+  const pdf = Array.from(renderSessionPdf(session, generatedAt), (byte) =>
+    String.fromCharCode(byte)
+  ).join('');
+
+  it('leads with the triage outcome and red flags', () => {
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Triage Outcome) Tj');
+    expect(pdf).toContain('(Urgency: Emergency \x96 Please seek immediate medical attention.) Tj');
+    expect(pdf).toContain('(Safety check: Red flags detected) Tj');
+    expect(pdf).toContain('(\x95 shortness of breath) Tj');
+  });
+
+  it('includes the conversation timeline', () => {
+    expect(pdf).toContain('(Tight chest pain since this morning) Tj');
+    expect(pdf).toContain('CareBow \x96 emergency guidance) Tj');
+  });
+});
+
+describe('buildSessionFhirBundle', () => {
+  it('is a collection whose references all resolve inside the bundle', () => {
+    const bundle = buildSessionFhirBundle(session, generatedAt);
+    const fullUrls = new Set(bundle.entry.map((entry) => entry.fullUrl));
+    const references = JSON.stringify(bundle).match(/"reference":"[^"]+"/g) ?? [];
+
+    expect(bundle.type).toBe('collection');
+    expect(bundle.identifier).toEqual({ system: SESSION_IDENTIFIER_SYSTEM, value: session.id });
+    expect(references.length).toBeGreaterThan(0);
+    for (const reference of references) {
+      expect(fullUrls.has(reference.slice('"reference":"'.length, -1))).toBe(true);
+    }
+  });
+
+  it('identifies the patient by their CareBow member id', () => {
+    const [patient] = resourcesOf('Patient');
+
+    expect(patient.identifier).toEqual([{ system: MEMBER_IDENTIFIER_SYSTEM, value: 'member-1' }]);
+    expect(patient.gender).toBe('female');
+  });
+
+  it('records the answers as a completed QuestionnaireResponse', () => {
+    const [response] = resourcesOf('QuestionnaireResponse');
+    const items = response.item as Array<{ linkId: string; answer: unknown[] }>;
+
+    expect(response.status).toBe('completed');
+    expect(items.find((item) => item.linkId === 'severity')?.answer).toEqual([{ valueInteger: 8 }]);
+    expect(items.find((item) => item.linkId === 'duration')?.answer).toEqual([
+      { valueString: 'A few hours' },
+    ]);
+    expect(items.find((item) => item.linkId === 'medications')?.answer).toEqual([
+      { valueString: 'Amlodipine' },
+    ]);
+  });
+
+  it('marks the triage as a preliminary observation with its red flags', () => {
+    const triage = resourcesOf('Observation').find(
+      (resource) => resource.status === 'preliminary'
+    )!;
+    const components = triage.component as Array<{ code: { text: string }; valueString?: string }>;
+
+    expect(triage.valueCodeableConcept).toMatchObject({
+      coding: [expect.objectContaining({ code: 'emergency' })],
+    });
+    expect(components.filter((c) => c.code.text === 'Red flag').map((c) => c.valueString)).toEqual([
+      'chest pain',
+      'shortness of breath',
+    ]);
+  });
+
+  it('keeps every condition unconfirmed and lists known conditions once', () => {
+    const conditions = resourcesOf('Condition');
+
+    expect(conditions.map((condition) => (condition.code as { text: string }).text)).toEqual([
+      'chest pain',
+      'Hypertension',
+      'Type 2 diabetes',
+    ]);
+    for (const condition of conditions) {
+      expect(condition.verificationStatus).toMatchObject({
+        coding: [expect.objectContaining({ code: 'unconfirmed' })],
+      });
+    }
+  });
+});
+
+describe('sessionExportFilename', () => {
+  it('names the file after the conversation date', () => {
+    expect(sessionExportFilename(session)).toMatch(/^carebow-session-2026-03-0[78]$/);
+  });
+});
@@ -0,0 +1,513 @@
+/**
+ * Ask CareBow Session Export
+ *
+ * Turns a conversation into files a clinician can use: a PDF to read before
+ * the visit and a FHIR R4 bundle their EHR can import. Everything here is the
+ * patient's own report plus CareBow's preliminary triage — nothing is marked
+ * as confirmed. Pure; sharing lives in `hooks/useSessionExport`.
+ */
+
+import { PdfBlock, renderPdf } from '@/lib/pdf';
+import {
+  AskCarebowSession,
+  DISCLAIMER,
+  Gender,
+  GuidanceResponse,
+  SessionSummary,
+  Severity,
+  durationLabels,
+  frequencyLabels,
+  generateSessionSummary,
+  urgencyConfig,
+} from '@/types/askCarebow';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+const CAREBOW_FHIR_BASE = 'https://carebow.com/fhir';
+export const MEMBER_IDENTIFIER_SYSTEM = `${CAREBOW_FHIR_BASE}/member-id`;
+export const SESSION_IDENTIFIER_SYSTEM = `${CAREBOW_FHIR_BASE}/ask-session-id`;
+export const URGENCY_CODE_SYSTEM = `${CAREBOW_FHIR_BASE}/CodeSystem/triage-urgency`;
+
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const CONDITION_VERIFICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const US_CORE_CONDITION_CATEGORY_SYSTEM =
+  'http://hl7.org/fhir/us/core/CodeSystem/condition-category';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const RISK_LABELS: Record<NonNullable<AskCarebowSession['riskLevel']>, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+  critical: 'Critical',
+};
+
+const LIKELIHOOD_LABELS: Record<
+  SessionSummary['triageOutcome']['differentialPossibilities'][number]['likelihood'],
+  string
+> = {
+  likely: 'Likely',
+  possible: 'Possible',
+  less_likely: 'Less likely',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Only the parts of FHIR R4 this export writes. */
+type FhirCoding = { system: string; code: string; display?: string };
+type FhirCodeableConcept = { coding?: FhirCoding[]; text?: string };
+type FhirReference = { reference: string; display?: string };
+
+export type FhirResource = { resourceType: string } & Record<string, unknown>;
+
+export type FhirBundle = {
+  resourceType: 'Bundle';
+  identifier: { system: string; value: string };
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+};
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+function summaryOf(session: AskCarebowSession): SessionSummary {
+  return session.sessionSummary ?? generateSessionSummary(session);
+}
+
+/** The most recent guidance CareBow gave, if the conversation got that far. */
+function latestGuidance(session: AskCarebowSession): GuidanceResponse | null {
+  for (let i = session.messages.length - 1; i >= 0; i--) {
+    const guidance = session.messages[i].guidance;
+    if (guidance) return guidance;
+  }
+  return null;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function listOrNone(items: string[], none = 'None reported'): string {
+  return items.length > 0 ? items.join(', ') : none;
+}
+
+/** Chronic conditions from the conversation and the profile, without repeats. */
+function knownConditions(session: AskCarebowSession): string[] {
+  const seen = new Set<string>();
+  const conditions: string[] = [];
+  for (const condition of [
+    ...session.healthContext.chronicConditions,
+    ...(session.memberProfileSnapshot?.conditions ?? []),
+  ]) {
+    const key = condition.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    conditions.push(condition.trim());
+  }
+  return conditions;
+}
+
+/** "carebow-session-2026-03-08" */
+export function sessionExportFilename(session: AskCarebowSession): string {
+  const date = new Date(session.createdAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `carebow-session-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// ============================================
+// PDF
+// ============================================
+
+function heading(text: string): PdfBlock[] {
+  return [
+    { kind: 'spacer', height: 12 },
+    { kind: 'text', text, style: 'heading' },
+  ];
+}
+
+function bullets(items: string[], none: string): PdfBlock[] {
+  if (items.length === 0) return [{ kind: 'text', text: none, style: 'muted' }];
+  return items.map((item): PdfBlock => ({ kind: 'text', text: `• ${item}` }));
+}
+
+/**
+ * A clinician-facing summary: triage outcome and red flags first, then what
+ * the patient reported, then the conversation itself.
+ */
+export function renderSessionPdf(
+  session: AskCarebowSession,
+  generatedAt: Date = new Date()
+): Uint8Array {
+  const summary = summaryOf(session);
+  const { triageOutcome, collectedData } = summary;
+  const context = session.healthContext;
+  const urgency = urgencyConfig[triageOutcome.urgencyLevel];
+  const memberName = session.memberName || 'Not specified';
+
+  const blocks: PdfBlock[] = [
+    { kind: 'text', text: 'Ask CareBow Session Summary', style: 'title' },
+    { kind: 'text', text: memberName, style: 'heading' },
+    {
+      kind: 'text',
+      text: `Conversation ${formatDateTime(session.createdAt)} · Session ${session.id}`,
+      style: 'muted',
+    },
+    {
+      kind: 'text',
+      text: `Generated ${formatDateTime(generatedAt.toISOString())}`,
+      style: 'muted',
+    },
+  ];
+  if (session.triggeredEmergencyFlow) {
+    blocks.push(
+      { kind: 'spacer' },
+      {
+        kind: 'text',
+        text: 'Emergency guidance was shown during this conversation.',
+        style: 'bold',
+      }
+    );
+  }
+
+  blocks.push(
+    ...heading('Triage Outcome'),
+    { kind: 'text', text: `Urgency: ${urgency.label} – ${urgency.description}` },
+    { kind: 'text', text: `Risk level: ${RISK_LABELS[triageOutcome.riskLevel]}` },
+    { kind: 'text', text: `Recommended timeframe: ${triageOutcome.recommendedTimeframe}` },
+    {
+      kind: 'text',
+      text: `Safety check: ${triageOutcome.safetyCheckPassed ? 'Passed' : 'Red flags detected'}`,
+    },
+    { kind: 'text', text: `Assessment confidence: ${summary.assessmentConfidence}%` },
+    ...heading('Red Flags'),
+    ...bullets(triageOutcome.redFlagsDetected, 'None detected'),
+    ...heading('Chief Complaint'),
+    { kind: 'text', text: `“${summary.chiefComplaint}”` },
+    ...heading('Reported Details'),
+    { kind: 'text', text: `Primary symptom: ${collectedData.primarySymptom}` },
+    { kind: 'text', text: `Duration: ${collectedData.duration}` },
+    { kind: 'text', text: `Severity: ${collectedData.severity}` }
+  );
+  if (context.frequency) {
+    blocks.push({ kind: 'text', text: `Frequency: ${frequencyLabels[context.frequency]}` });
+  }
+  if (context.location) blocks.push({ kind: 'text', text: `Location: ${context.location}` });
+  if (context.painQuality) blocks.push({ kind: 'text', text: `Quality: ${context.painQuality}` });
+  if (context.triggers?.length) {
+    blocks.push({ kind: 'text', text: `Triggers: ${context.triggers.join(', ')}` });
+  }
+  blocks.push(
+    {
+      kind: 'text',
+      text: `Associated symptoms: ${listOrNone(collectedData.associatedSymptoms)}`,
+    },
+    { kind: 'text', text: `Relevant history: ${listOrNone(collectedData.relevantHistory)}` },
+    { kind: 'text', text: `Medications: ${listOrNone(collectedData.medications)}` },
+    { kind: 'text', text: `Allergies: ${listOrNone(collectedData.allergies)}` }
+  );
+
+  const differentials = triageOutcome.differentialPossibilities;
+  const causes = differentials.length
+    ? differentials.map(
+        (item) => `${item.condition} (${LIKELIHOOD_LABELS[item.likelihood]}) – ${item.reasoning}`
+      )
+    : latestGuidance(session)?.possibleCauses ?? [];
+  if (causes.length > 0) {
+    blocks.push(...heading('Possible Causes Discussed'), ...bullets(causes, ''));
+  }
+
+  blocks.push(
+    ...heading('Recommended Actions'),
+    ...bullets(summary.recommendedActions, 'None specified'),
+    ...heading('Unanswered Questions'),
+    ...bullets(summary.unansweredQuestions, 'All key questions answered'),
+    ...heading('Conversation')
+  );
+  for (const message of session.messages) {
+    if (message.role === 'system') continue;
+    const speaker = message.role === 'user' ? 'User' : 'CareBow';
+    const marker = message.isEmergency ? ' – emergency guidance' : '';
+    blocks.push(
+      { kind: 'rule' },
+      {
+        kind: 'text',
+        text: `${formatDateTime(message.timestamp)} – ${speaker}${marker}`,
+        style: 'bold',
+      },
+      { kind: 'text', text: message.text }
+    );
+  }
+
+  blocks.push(
+    { kind: 'spacer', height: 16 },
+    { kind: 'text', text: DISCLAIMER.full, style: 'muted' }
+  );
+
+  return renderPdf(blocks, {
+    title: `Ask CareBow session – ${memberName}`,
+    author: 'CareBow',
+    createdAt: generatedAt,
+  });
+}
+
+// ============================================
+// FHIR R4
+// ============================================
+
+/** Random v4 UUID for bundle-local `urn:uuid:` references. */
+function createUuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+function fhirGender(gender?: Gender): string | undefined {
+  if (!gender) return undefined;
+  return gender === 'prefer_not_to_say' ? 'unknown' : gender;
+}
+
+/** SNOMED CT severity for a 1–10 self-rating. */
+function conditionSeverity(severity: Severity): FhirCodeableConcept {
+  if (severity <= 3) {
+    return { coding: [{ system: SNOMED_SYSTEM, code: '255604002', display: 'Mild' }] };
+  }
+  if (severity <= 6) {
+    return { coding: [{ system: SNOMED_SYSTEM, code: '6736007', display: 'Moderate' }] };
+  }
+  return { coding: [{ system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' }] };
+}
+
+function codeable(system: string, code: string, display?: string): FhirCodeableConcept {
+  return { coding: [display ? { system, code, display } : { system, code }] };
+}
+
+type QuestionnaireItem = {
+  linkId: string;
+  text: string;
+  answer: Array<{ valueString: string } | { valueInteger: number }>;
+};
+
+function stringItem(linkId: string, text: string, values: Array<string | undefined>) {
+  const answer = values
+    .filter((value): value is string => !!value?.trim())
+    .map((valueString) => ({ valueString }));
+  return answer.length > 0 ? [{ linkId, text, answer }] : [];
+}
+
+function questionnaireItems(
+  session: AskCarebowSession,
+  summary: SessionSummary
+): QuestionnaireItem[] {
+  const context = session.healthContext;
+  const age = session.memberProfileSnapshot?.age;
+  return [
+    ...stringItem('chief-complaint', 'Chief complaint', [summary.chiefComplaint]),
+    ...stringItem('primary-symptom', 'Primary symptom', [context.primarySymptom]),
+    ...stringItem('duration', 'How long has this been going on?', [
+      context.duration && durationLabels[context.duration],
+    ]),
+    ...(context.severity
+      ? [
+          {
+            linkId: 'severity',
+            text: 'How severe is it on a scale of 1-10?',
+            answer: [{ valueInteger: context.severity }],
+          },
+        ]
+      : []),
+    ...stringItem('frequency', 'How often does this occur?', [
+      context.frequency && frequencyLabels[context.frequency],
+    ]),
+    ...stringItem('location', 'Where exactly is the symptom?', [context.location]),
+    ...stringItem('pain-quality', 'What does it feel like?', [context.painQuality]),
+    ...stringItem('triggers', 'What triggers it?', context.triggers ?? []),
+    ...stringItem('associated-symptoms', 'Any other symptoms?', context.associatedSymptoms),
+    ...stringItem(
+      'recent-events',
+      'Any recent events (injury, travel, etc.)?',
+      context.recentEvents
+    ),
+    ...stringItem('chronic-conditions', 'Any chronic conditions?', knownConditions(session)),
+    ...stringItem('medications', 'Current medications?', context.medications),
+    ...stringItem('allergies', 'Known allergies?', context.allergies),
+    ...(age ? [{ linkId: 'age', text: 'Patient age', answer: [{ valueInteger: age }] }] : []),
+  ];
+}
+
+/**
+ * A FHIR R4 collection bundle: the patient, their answers as a
+ * QuestionnaireResponse, CareBow's triage as a preliminary Observation (plus
+ * the self-rated severity), and the complaint, known conditions and any
+ * differentials as unconfirmed Conditions. Resources reference each other by
+ * `urn:uuid:` so the receiving system assigns its own ids on import.
+ */
+export function buildSessionFhirBundle(
+  session: AskCarebowSession,
+  generatedAt: Date = new Date()
+): FhirBundle {
+  const summary = summaryOf(session);
+  const { triageOutcome } = summary;
+  const context = session.healthContext;
+  const urgency = urgencyConfig[triageOutcome.urgencyLevel];
+  const entry: FhirBundle['entry'] = [];
+  const add = (resource: FhirResource): string => {
+    const fullUrl = `urn:uuid:${createUuid()}`;
+    entry.push({ fullUrl, resource });
+    return fullUrl;
+  };
+
+  const gender = fhirGender(session.memberProfileSnapshot?.gender);
+  const patientUrl = add({
+    resourceType: 'Patient',
+    ...(session.memberId
+      ? { identifier: [{ system: MEMBER_IDENTIFIER_SYSTEM, value: session.memberId }] }
+      : {}),
+    ...(session.memberName ? { name: [{ text: session.memberName }] } : {}),
+    ...(gender ? { gender } : {}),
+  });
+  const subject: FhirReference = session.memberName
+    ? { reference: patientUrl, display: session.memberName }
+    : { reference: patientUrl };
+
+  const responseUrl = add({
+    resourceType: 'QuestionnaireResponse',
+    identifier: { system: SESSION_IDENTIFIER_SYSTEM, value: session.id },
+    status: session.isActive ? 'in-progress' : 'completed',
+    subject,
+    authored: session.updatedAt,
+    source: { reference: patientUrl },
+    item: questionnaireItems(session, summary),
+  });
+  const derivedFrom: FhirReference[] = [{ reference: responseUrl }];
+
+  if (context.severity) {
+    add({
+      resourceType: 'Observation',
+      status: 'final',
+      category: [codeable(OBSERVATION_CATEGORY_SYSTEM, 'survey', 'Survey')],
+      code: { text: `Patient-reported severity of ${context.primarySymptom || 'symptoms'} (1-10)` },
+      subject,
+      effectiveDateTime: session.updatedAt,
+      valueInteger: context.severity,
+      derivedFrom,
+    });
+  }
+
+  add({
+    resourceType: 'Observation',
+    // Preliminary: an automated assessment nobody has reviewed.
+    status: 'preliminary',
+    category: [codeable(OBSERVATION_CATEGORY_SYSTEM, 'survey', 'Survey')],
+    code: { text: 'Ask CareBow triage assessment' },
+    subject,
+    effectiveDateTime: session.updatedAt,
+    issued: generatedAt.toISOString(),
+    valueCodeableConcept: {
+      ...codeable(URGENCY_CODE_SYSTEM, triageOutcome.urgencyLevel, urgency.label),
+      text: `${urgency.label}: ${urgency.description}`,
+    },
+    component: [
+      { code: { text: 'Risk level' }, valueString: RISK_LABELS[triageOutcome.riskLevel] },
+      { code: { text: 'Recommended timeframe' }, valueString: triageOutcome.recommendedTimeframe },
+      { code: { text: 'Safety check passed' }, valueBoolean: triageOutcome.safetyCheckPassed },
+      ...triageOutcome.redFlagsDetected.map((flag) => ({
+        code: { text: 'Red flag' },
+        valueString: flag,
+      })),
+      {
+        code: { text: 'Assessment confidence' },
+        valueQuantity: {
+          value: summary.assessmentConfidence,
+          unit: '%',
+          system: UCUM_SYSTEM,
+          code: '%',
+        },
+      },
+    ],
+    note: [{ text: DISCLAIMER.full }],
+    derivedFrom,
+  });
+
+  const evidence = [{ detail: derivedFrom }];
+  const unconfirmed = codeable(CONDITION_VERIFICATION_SYSTEM, 'unconfirmed');
+  const active = codeable(CONDITION_CLINICAL_SYSTEM, 'active');
+  const healthConcern = codeable(
+    US_CORE_CONDITION_CATEGORY_SYSTEM,
+    'health-concern',
+    'Health Concern'
+  );
+
+  const complaint = context.primarySymptom || summary.chiefComplaint;
+  if (complaint && complaint !== 'Not specified') {
+    add({
+      resourceType: 'Condition',
+      clinicalStatus: active,
+      verificationStatus: unconfirmed,
+      category: [healthConcern],
+      ...(context.severity ? { severity: conditionSeverity(context.severity) } : {}),
+      code: { text: complaint },
+      subject,
+      ...(context.duration ? { onsetString: durationLabels[context.duration] } : {}),
+      recordedDate: session.createdAt,
+      evidence,
+    });
+  }
+
+  for (const condition of knownConditions(session)) {
+    add({
+      resourceType: 'Condition',
+      clinicalStatus: active,
+      verificationStatus: unconfirmed,
+      category: [codeable(CONDITION_CATEGORY_SYSTEM, 'problem-list-item', 'Problem List Item')],
+      code: { text: condition },
+      subject,
+      note: [{ text: 'Reported by the patient or their family to CareBow.' }],
+    });
+  }
+
+  for (const differential of triageOutcome.differentialPossibilities) {
+    add({
+      resourceType: 'Condition',
+      verificationStatus: codeable(CONDITION_VERIFICATION_SYSTEM, 'differential'),
+      category: [healthConcern],
+      code: { text: differential.condition },
+      subject,
+      recordedDate: session.updatedAt,
+      evidence,
+      note: [
+        {
+          text: `${LIKELIHOOD_LABELS[differential.likelihood]}: ${differential.reasoning}`,
+        },
+      ],
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    identifier: { system: SESSION_IDENTIFIER_SYSTEM, value: session.id },
+    type: 'collection',
+    timestamp: generatedAt.toISOString(),
+    entry,
+  };
+}
+
+export function serializeFhirBundle(bundle: FhirBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
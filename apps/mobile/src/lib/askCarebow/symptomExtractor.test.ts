@@ -0,0 +1,125 @@
+jest.mock('@/store/askCarebowStore', () => ({
+  useAskCarebowStore: {
+    getState: () => ({ currentSession: { memberId: 'member-1' } }),
+  },
+}));
+
+jest.mock('@/store/useProfileStore', () => ({
+  useProfileStore: {
+    getState: () => ({
+      members: [
+        {
+          id: 'member-1',
+          backendId: 'profile-1',
+          firstName: 'Asha',
+          lastName: 'Kumar',
+          dateOfBirth: '1950-01-01T00:00:00.000Z',
+          gender: 'female',
+          relationship: 'mother',
+          healthInfo: { conditions: [], medications: [], allergies: [] },
+        },
+      ],
+    }),
+  },
+}));
+
+import { createEmptyHealthContext } from '@/types/askCarebow';
+import { processSafeFallbackUserInput } from './safeFallbackEngine';
+import { answeredFields, extractSymptomDetails } from './symptomExtractor';
+
+describe('extractSymptomDetails', () => {
+  it('reads every OPQRST field out of a detailed first message', () => {
+    const { fields, confidence } = extractSymptomDetails(
+      'Sharp pain in my lower right belly since yesterday, 7/10, worse when walking'
+    );
+
+    expect(fields).toEqual({
+      duration: '1_2_days',
+      severity: 7,
+      location: 'lower right belly',
+      triggers: ['walking'],
+      painQuality: 'sharp',
+    });
+    expect(confidence.severity).toBeGreaterThanOrEqual(0.9);
+    expect(confidence.frequency).toBeUndefined();
+  });
+
+  it('never defaults a field the text does not state', () => {
+    expect(extractSymptomDetails('I feel unwell').fields).toEqual({});
+    // A duration number is not a severity.
+    expect(extractSymptomDetails('headache for 2 days').fields.severity).toBeUndefined();
+  });
+
+  it.each([
+    ['cough for 3 days', '3_7_days'],
+    ['rash for a couple of weeks', '1_2_weeks'],
+    ['back pain for 2 months', 'more_than_2_weeks'],
+    ['knee pain for years', 'chronic'],
+    ['dizzy since this morning', 'today'],
+    ['it just started', 'just_now'],
+  ] as const)('%s → %s', (text, duration) => {
+    expect(extractSymptomDetails(text).fields.duration).toBe(duration);
+  });
+
+  it('keeps vague values below the answered threshold', () => {
+    const extraction = extractSymptomDetails('my stomach has hurt for a while');
+    expect(extraction.fields.duration).toBeDefined();
+    expect(answeredFields(extraction).duration).toBeUndefined();
+    expect(answeredFields(extraction).location).toBe('stomach');
+  });
+
+  it('ignores negated and historical mentions', () => {
+    const { fields } = extractSymptomDetails(
+      'headache, not severe, no pain when walking, had back pain years ago'
+    );
+    expect(fields.severity).toBeUndefined();
+    expect(fields.triggers).toBeUndefined();
+    expect(fields.location).toBe('head');
+  });
+
+  it('does not mistake "blood pressure" or "came back" for a pain description', () => {
+    const { fields } = extractSymptomDetails('the dizziness came back, my blood pressure is high');
+    expect(fields.painQuality).toBeUndefined();
+    expect(fields.location).toBeUndefined();
+  });
+
+  it('reads the pattern of the symptom', () => {
+    expect(extractSymptomDetails('chest tightness that comes and goes').fields).toMatchObject({
+      frequency: 'intermittent',
+      painQuality: 'pressure',
+      location: 'chest',
+    });
+  });
+});
+
+describe('first reply with an extracted first message', () => {
+  it('keeps every stated field and does not re-ask it in the first reply', async () => {
+    const response = await processSafeFallbackUserInput(
+      'Sharp pain in my lower right belly since yesterday, 7/10, worse when walking',
+      'initial',
+      createEmptyHealthContext(),
+      []
+    );
+
+    expect(response.questionAsked).toBe('associated_symptoms');
+    expect(response.healthContextUpdates).toMatchObject({
+      duration: '1_2_days',
+      severity: 7,
+      location: 'lower right belly',
+      painQuality: 'sharp',
+      triggers: ['walking'],
+    });
+  });
+
+  it('still asks for a field that was only vaguely stated', async () => {
+    const response = await processSafeFallbackUserInput(
+      'upset stomach for a while',
+      'initial',
+      createEmptyHealthContext(),
+      []
+    );
+
+    expect(response.questionAsked).toBe('duration');
+    expect(response.healthContextUpdates?.duration).toBeUndefined();
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Structured symptom extraction from free text
+ *
+ * "Sharp pain in my lower right belly since yesterday, 7/10, worse when
+ * walking" already answers onset, location, quality, severity and
+ * provocation. Previously only the symptom category was inferred from the
+ * first message, so the user was asked all of those again.
+ *
+ * extractSymptomDetails() pulls the OPQRST-relevant HealthContext fields out
+ * of a message, each with a confidence in [0, 1]:
+ *
+ *   explicit value ("7/10", "since yesterday", "in my lower right belly")  ~0.9
+ *   descriptive value ("severe", "a few days", "chest pain")              ~0.6–0.8
+ *   vague value ("for a while")                                           < 0.6
+ *
+ * Fields at or above ANSWERED_CONFIDENCE count as answered: answeredFields()
+ * writes them into HealthContext and conversationEngine skips their
+ * questions. Anything below is left out, so the user is asked. Unlike parseUserResponse, which is answering a
+ * specific question and falls back to a default, nothing here is ever
+ * defaulted — a field is only present when the text says it.
+ *
+ * Matches in negated, historical or hypothetical clauses ("no fever",
+ * "had back pain years ago") are ignored, using the same clause qualifiers as
+ * red-flag detection.
+ */
+
+import type { Duration, Frequency, HealthContext, Severity } from '@/types/askCarebow';
+import { annotateClauses, qualifySpan, type Clause } from './clauseQualifiers';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const EXTRACTED_FIELDS = [
+  'duration',
+  'severity',
+  'frequency',
+  'location',
+  'triggers',
+  'painQuality',
+] as const;
+
+export type ExtractedField = (typeof EXTRACTED_FIELDS)[number];
+
+export type FieldConfidence = Partial<Record<ExtractedField, number>>;
+
+export type SymptomExtraction = {
+  fields: Pick<Partial<HealthContext>, ExtractedField>;
+  confidence: FieldConfidence;
+};
+
+/** Confidence at which a field counts as answered and is not asked again. */
+export const ANSWERED_CONFIDENCE = 0.6;
+
+type Found<T> = { value: T; confidence: number };
+
+// ============================================
+// MATCHING HELPERS
+// ============================================
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  couple: 2,
+  'couple of': 2,
+  three: 3,
+  few: 3,
+  'a few': 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  several: 4,
+};
+
+const COUNT = String.raw`(\d+|a\s+few|a\s+couple(?:\s+of)?|couple(?:\s+of)?|several|few|an?|one|two|three|four|five|six|seven|eight|nine|ten)`;
+
+function toCount(word: string): number {
+  const normalized = word.replace(/\s+/g, ' ').replace(/^a couple/, 'couple');
+  return /^\d+$/.test(normalized) ? Number(normalized) : (NUMBER_WORDS[normalized] ?? 1);
+}
+
+/** First match of any pattern that describes a current symptom. */
+function firstCurrentMatch(
+  text: string,
+  clauses: Clause[],
+  pattern: RegExp
+): RegExpMatchArray | undefined {
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (qualifySpan(clauses, start, start + match[0].length) === 'affirmed') return match;
+  }
+  return undefined;
+}
+
+// "not that severe", "not too bad" describe the opposite of the word.
+const NEGATED_DESCRIPTOR = /\bnot\s+(?:that\s+|very\s+|too\s+|so\s+|really\s+)?$/;
+
+function precededBy(text: string, match: RegExpMatchArray, pattern: RegExp): boolean {
+  return pattern.test(text.slice(0, match.index ?? 0));
+}
+
+// ============================================
+// FIELD EXTRACTORS
+// ============================================
+
+function durationFromCount(count: number, unit: string): Duration {
+  if (unit.startsWith('min')) return 'just_now';
+  if (unit.startsWith('hour')) return 'few_hours';
+  if (unit.startsWith('day')) {
+    if (count <= 2) return '1_2_days';
+    if (count <= 7) return '3_7_days';
+    return count <= 14 ? '1_2_weeks' : 'more_than_2_weeks';
+  }
+  if (unit.startsWith('week')) {
+    if (count <= 1) return '3_7_days';
+    return count <= 2 ? '1_2_weeks' : 'more_than_2_weeks';
+  }
+  return count >= 12 && unit.startsWith('month') ? 'chronic' : 'more_than_2_weeks';
+}
+
+function extractDuration(text: string, clauses: Clause[]): Found<Duration> | undefined {
+  if (firstCurrentMatch(text, clauses, /\b(?:just\s+(?:now|started|began)|right\s+now)\b/g)) {
+    return { value: 'just_now', confidence: 0.9 };
+  }
+
+  const counted = firstCurrentMatch(
+    text,
+    clauses,
+    new RegExp(
+      String.raw`\b${COUNT}\s+(minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?)\b`,
+      'g'
+    )
+  );
+  if (counted) {
+    const vague = /few|several|couple/.test(counted[1]);
+    const value = counted[2].startsWith('y')
+      ? 'chronic'
+      : durationFromCount(toCount(counted[1]), counted[2]);
+    return { value, confidence: vague ? 0.75 : 0.9 };
+  }
+
+  if (
+    firstCurrentMatch(
+      text,
+      clauses,
+      /\b(?:since\s+)?(?:this\s+(?:morning|afternoon|evening)|today|tonight)\b/g
+    )
+  ) {
+    return { value: 'today', confidence: 0.9 };
+  }
+  if (firstCurrentMatch(text, clauses, /\b(?:since\s+)?(?:yesterday|last\s+night)\b/g)) {
+    return { value: '1_2_days', confidence: 0.9 };
+  }
+  if (firstCurrentMatch(text, clauses, /\b(?:since\s+)?last\s+week\b/g)) {
+    return { value: '1_2_weeks', confidence: 0.8 };
+  }
+  if (firstCurrentMatch(text, clauses, /\b(?:chronic|for\s+years|always\s+had)\b/g)) {
+    return { value: 'chronic', confidence: 0.8 };
+  }
+  if (firstCurrentMatch(text, clauses, /\b(?:for\s+(?:a\s+)?while|for\s+some\s+time)\b/g)) {
+    return { value: '3_7_days', confidence: 0.3 };
+  }
+  return undefined;
+}
+
+function extractSeverity(text: string, clauses: Clause[]): Found<Severity> | undefined {
+  const rated = firstCurrentMatch(
+    text,
+    clauses,
+    /\b(10|[0-9])\s*(?:\/|out\s+of|on\s+a\s+scale\s+of\s+(?:1|0)\s*(?:-|to)\s*)\s*10\b/g
+  );
+  if (rated) {
+    const score = Number(rated[1]);
+    // 0/10 is "no pain", which is not a severity the 1-10 scale can hold.
+    return score >= 1 ? { value: score as Severity, confidence: 0.95 } : undefined;
+  }
+
+  const descriptors: [RegExp, Severity, number][] = [
+    [
+      /\b(?:worst\s+(?:pain|ever|of\s+my\s+life)|unbearable|excruciating|very\s+severe)\b/g,
+      10,
+      0.7,
+    ],
+    [/\b(?:severe|really\s+bad|very\s+bad|terrible|intense)\b/g, 8, 0.6],
+    [/\bmoderate\b/g, 5, 0.6],
+    [/\b(?:mild|slight|a\s+little|minor)\b/g, 3, 0.6],
+  ];
+  for (const [pattern, value, confidence] of descriptors) {
+    const match = firstCurrentMatch(text, clauses, pattern);
+    if (match && !precededBy(text, match, NEGATED_DESCRIPTOR)) return { value, confidence };
+  }
+  return undefined;
+}
+
+function extractFrequency(text: string, clauses: Clause[]): Found<Frequency> | undefined {
+  const patterns: [RegExp, Frequency, number][] = [
+    [
+      /\b(?:constant(?:ly)?|all\s+the\s+time|continuous(?:ly)?|non-?stop|won'?t\s+go\s+away)\b/g,
+      'constant',
+      0.85,
+    ],
+    [
+      /\b(?:comes?\s+and\s+goes?|on\s+and\s+off|off\s+and\s+on|intermittent(?:ly)?|keeps?\s+coming\s+back)\b/g,
+      'intermittent',
+      0.85,
+    ],
+    [
+      /\b(?:occasional(?:ly)?|sometimes|now\s+and\s+then|once\s+in\s+a\s+while)\b/g,
+      'occasional',
+      0.75,
+    ],
+    [
+      /\b(?:first\s+time|never\s+had\s+(?:this|it|anything\s+like\s+this)\s+before)\b/g,
+      'first_time',
+      0.8,
+    ],
+  ];
+  for (const [pattern, value, confidence] of patterns) {
+    if (firstCurrentMatch(text, clauses, pattern)) return { value, confidence };
+  }
+  return undefined;
+}
+
+const BODY_PARTS =
+  'head|forehead|temples?|eyes?|ears?|jaw|teeth|tooth|mouth|throat|neck|shoulders?|arms?|elbows?|wrists?|hands?|fingers?|chest|ribs?|breasts?|belly|stomach|abdomen|tummy|pelvis|groin|hips?|legs?|thighs?|knees?|calf|calves|ankles?|feet|foot|toes?|skin';
+
+// "Back" and "side" are only places when qualified ("lower back", "in my
+// back", "back pain") — on their own they are "came back", "side effects".
+const QUALIFIED_BODY_PARTS = `${BODY_PARTS}|back|side`;
+
+const SIDE_MODIFIERS = '(?:(?:upper|lower|left|right|middle|center|central|mid)\\s+){1,3}';
+
+// "Headache", "sore throat" and friends name the place in the symptom itself.
+const COMPOUND_LOCATIONS: [RegExp, string][] = [
+  [/\bheadaches?\b/g, 'head'],
+  [/\b(?:stomach|tummy|belly)\s*aches?\b/g, 'stomach'],
+  [/\b(?:backaches?|back\s+pain)\b/g, 'back'],
+  [/\btoothaches?\b/g, 'tooth'],
+  [/\bearaches?\b/g, 'ear'],
+  [/\bsore\s+throat\b/g, 'throat'],
+];
+
+function extractLocation(text: string, clauses: Clause[]): Found<string> | undefined {
+  const sided = firstCurrentMatch(
+    text,
+    clauses,
+    new RegExp(`\\b${SIDE_MODIFIERS}(?:${QUALIFIED_BODY_PARTS})\\b`, 'g')
+  );
+  if (sided) return { value: sided[0].replace(/\s+/g, ' '), confidence: 0.9 };
+
+  const possessed = firstCurrentMatch(
+    text,
+    clauses,
+    new RegExp(
+      `\\b(?:in|on|around|behind)\\s+(?:my|his|her|their|the)\\s+(${QUALIFIED_BODY_PARTS})\\b`,
+      'g'
+    )
+  );
+  if (possessed) return { value: possessed[1], confidence: 0.9 };
+
+  for (const [pattern, value] of COMPOUND_LOCATIONS) {
+    if (firstCurrentMatch(text, clauses, pattern)) return { value, confidence: 0.8 };
+  }
+
+  const bare = firstCurrentMatch(text, clauses, new RegExp(`\\b(${BODY_PARTS})\\b`, 'g'));
+  if (bare) return { value: bare[1], confidence: 0.7 };
+  return undefined;
+}
+
+const TRIGGER_PATTERN =
+  /\b(?:(?:worse|hurts?(?:\s+more)?|painful|comes\s+on|flares?\s+up)\s+(?:when(?:ever)?|with|after|during|if)|triggered\s+by)\s+(?:i\s+|i'm\s+|i\s+am\s+)?([a-z][a-z' -]*?)(?=\s*(?:[,.;!?]|\s+(?:and|but|or|so|since|for)\b|$))/g;
+
+function extractTriggers(text: string, clauses: Clause[]): Found<string[]> | undefined {
+  const triggers: string[] = [];
+  for (const match of text.matchAll(TRIGGER_PATTERN)) {
+    const start = match.index ?? 0;
+    if (qualifySpan(clauses, start, start + match[0].length) !== 'affirmed') continue;
+    const trigger = match[1].trim();
+    if (trigger && !triggers.includes(trigger)) triggers.push(trigger);
+  }
+  return triggers.length > 0 ? { value: triggers, confidence: 0.85 } : undefined;
+}
+
+// Labels match the OPQRST quality quick options.
+const QUALITY_PATTERNS: [RegExp, string][] = [
+  [/\b(?:sharp|stabbing|knife-?like)\b/g, 'sharp'],
+  [/\b(?:shooting|electric)\b/g, 'shooting'],
+  [/\b(?:burning|burns)\b/g, 'burning'],
+  [/\b(?:throbbing|pulsing|pounding)\b/g, 'throbbing'],
+  [/\b(?:cramping|crampy|cramps?)\b/g, 'cramping'],
+  [/\b(?:squeezing|crushing|tightness|tight|pressure)\b/g, 'pressure'],
+  [/\b(?:dull|aching|achy)\b/g, 'dull'],
+];
+
+function extractPainQuality(text: string, clauses: Clause[]): Found<string> | undefined {
+  for (const [pattern, value] of QUALITY_PATTERNS) {
+    const match = firstCurrentMatch(text, clauses, pattern);
+    if (!match || precededBy(text, match, NEGATED_DESCRIPTOR)) continue;
+    if (value === 'pressure' && precededBy(text, match, /\bblood\s+$/)) continue;
+    return { value, confidence: 0.8 };
+  }
+  return undefined;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Extracts duration, severity, frequency, location, triggers and pain quality
+ * from a free-text symptom description. Only fields the text actually states
+ * are returned.
+ */
+export function extractSymptomDetails(text: string): SymptomExtraction {
+  const normalized = text.toLowerCase().replace(/[’]/g, "'");
+  const clauses = annotateClauses(normalized);
+
+  const found: { [K in ExtractedField]: Found<NonNullable<HealthContext[K]>> | undefined } = {
+    duration: extractDuration(normalized, clauses),
+    severity: extractSeverity(normalized, clauses),
+    frequency: extractFrequency(normalized, clauses),
+    location: extractLocation(normalized, clauses),
+    triggers: extractTriggers(normalized, clauses),
+    painQuality: extractPainQuality(normalized, clauses),
+  };
+
+  const extraction: SymptomExtraction = { fields: {}, confidence: {} };
+  for (const field of EXTRACTED_FIELDS) {
+    const result = found[field];
+    if (!result) continue;
+    (extraction.fields as Record<ExtractedField, unknown>)[field] = result.value;
+    extraction.confidence[field] = result.confidence;
+  }
+  return extraction;
+}
+
+export function isFieldAnswered(confidence: FieldConfidence, field: ExtractedField): boolean {
+  return (confidence[field] ?? 0) >= ANSWERED_CONFIDENCE;
+}
+
+/** The extracted fields confident enough to write into HealthContext. */
+export function answeredFields(extraction: SymptomExtraction): Partial<HealthContext> {
+  const fields: Partial<HealthContext> = {};
+  for (const field of EXTRACTED_FIELDS) {
+    if (isFieldAnswered(extraction.confidence, field)) {
+      (fields as Record<ExtractedField, unknown>)[field] = extraction.fields[field];
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,126 @@
+import {
+  createTriageService,
+  triageMappers,
+  triageService as keywordTriageService,
+} from '@carebow/shared';
+import { performTriage } from '@/utils/triageEngine';
+import { getTriageLevel } from '@/utils/triageCTAMapping';
+import { triageService, toTriageDuration } from './triageService';
+
+describe('TriageService', () => {
+  it('treats any red flag as an emergency regardless of severity', () => {
+    const decision = triageService.triage({
+      text: 'crushing chest pain',
+      severity: 'low',
+      duration: 'weeks',
+    });
+
+    expect(decision.urgency).toBe('emergency');
+    expect(decision.isEmergency).toBe(true);
+    expect(decision.redFlags.length).toBeGreaterThan(0);
+  });
+
+  it('discounts negated mentions the same way the classifier does', () => {
+    expect(triageService.triage({ text: 'no chest pain, just a cough' }).isEmergency).toBe(false);
+  });
+
+  it('never lets a caller assessment lower the urgency', () => {
+    const decision = triageService.triage({
+      text: 'headache',
+      severity: 'high',
+      duration: 'just_started',
+      assessedUrgency: 'self_care',
+    });
+    expect(decision.urgency).toBe('urgent');
+
+    expect(triageService.triage({ text: 'headache', assessedUrgency: 'soon' }).urgency).toBe(
+      'soon'
+    );
+  });
+
+  it('uses the keyword gate by default, with P2 keywords as urgent', () => {
+    expect(keywordTriageService.triage({ text: 'high fever since last night' }).urgency).toBe(
+      'urgent'
+    );
+    expect(keywordTriageService.triage({ text: 'chest pain' }).urgency).toBe('emergency');
+  });
+
+  it('accepts a custom red-flag detector', () => {
+    const service = createTriageService({
+      detectRedFlags: (text) =>
+        text.includes('purple') ? [{ description: 'Purple toes', urgency: 'urgent' }] : [],
+    });
+
+    expect(service.triage({ text: 'purple toes' }).urgency).toBe('urgent');
+    expect(service.triage({ text: 'chest pain' }).urgency).toBe('self_care');
+  });
+});
+
+describe('one urgency across screens', () => {
+  it.each([
+    ['severe chest pain', 'high', 'hours', 'few_hours'],
+    ['headache', 'high', 'just_started', 'just_now'],
+    ['sore throat', 'medium', 'days', '3_7_days'],
+    ['mild cough', 'low', 'hours', 'few_hours'],
+  ] as const)('%s (%s, %s)', (text, severity, duration, askDuration) => {
+    const entry = performTriage(text, duration, severity);
+    const ask = triageService.triage({
+      text,
+      severity: triageMappers.severityFromScore({ low: 2, medium: 5, high: 8 }[severity]),
+      duration: toTriageDuration(askDuration),
+    });
+
+    expect(entry.riskLevel).toBe(triageMappers.toRiskLevel(ask.urgency));
+    expect(entry.isEmergency).toBe(ask.isEmergency);
+  });
+
+  it('gives the CTA the same level as the conversation urgency', () => {
+    expect(getTriageLevel({ urgencyLevel: 'soon' })).toBe('soon');
+    expect(getTriageLevel({ urgencyLevel: 'monitor', hasRedFlags: true, severity: 9 })).toBe(
+      'self_care'
+    );
+    // Legacy shapes still go through the old heuristics.
+    expect(getTriageLevel({ riskLevel: 'high' })).toBe('urgent');
+  });
+});
+
+describe('triageMappers', () => {
+  it('keeps symptom-entry results as before', () => {
+    expect(performTriage('knee ache', 'just_started', 'medium')).toMatchObject({
+      riskLevel: 'medium',
+      careSuggestion: 'monitor',
+    });
+    expect(performTriage('knee ache', 'days', 'high')).toMatchObject({
+      riskLevel: 'high',
+      careSuggestion: 'doctor_visit',
+    });
+    expect(performTriage('knee ache', 'days', 'low')).toMatchObject({
+      riskLevel: 'low',
+      careSuggestion: 'monitor',
+    });
+  });
+
+  it.each([
+    ['low', 'just_started', 'low', 'monitor'],
+    ['low', 'weeks', 'low', 'monitor'],
+    ['low', 'ongoing', 'low', 'doctor_visit'],
+    ['medium', 'hours', 'medium', 'monitor'],
+    ['medium', 'ongoing', 'medium', 'doctor_visit'],
+    ['high', 'just_started', 'high', 'urgent_care'],
+    ['high', 'ongoing', 'high', 'doctor_visit'],
+  ] as const)('keeps the %s, %s entry at %s risk with %s', (severity, duration, risk, care) => {
+    expect(performTriage('knee ache', duration, severity)).toMatchObject({
+      riskLevel: risk,
+      careSuggestion: care,
+    });
+  });
+
+  it('maps between the canonical urgency and the legacy scales', () => {
+    expect(triageMappers.toPriority('emergency')).toBe('P1');
+    expect(triageMappers.fromPriority('P2')).toBe('urgent');
+    expect(triageMappers.toCareLevel('non_urgent')).toBe('self_care');
+    expect(triageMappers.fromRiskLevel('high')).toBe('urgent');
+    expect(triageMappers.toRiskLevel(triageMappers.fromRiskLevel('medium'))).toBe('medium');
+    expect(triageMappers.isUrgency('critical')).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * App triage service
+ *
+ * The shared TriageService with the rule-pack classifier as its red-flag
+ * detector. Symptom entries and Ask CareBow both triage through this instance,
+ * so a description that is an emergency on one screen is an emergency on the
+ * other — including negated and historical mentions being discounted the same
+ * way, and Spanish/Hindi input being recognised the same way.
+ */
+
+import { createTriageService, type TriageDuration } from '@carebow/shared';
+import type { Duration } from '@/types/askCarebow';
+import { detectEmergency } from './safetyClassifier';
+
+export const triageService = createTriageService({
+  detectRedFlags: (text) =>
+    detectEmergency(text).detectedSymptoms.map((description) => ({
+      description,
+      urgency: 'emergency' as const,
+    })),
+});
+
+/**
+ * Ask CareBow's duration buckets in the service's terms ("ongoing" is more
+ * than a month).
+ */
+export function toTriageDuration(duration: Duration): TriageDuration {
+  switch (duration) {
+    case 'just_now':
+      return 'just_started';
+    case 'few_hours':
+    case 'today':
+      return 'hours';
+    case '1_2_days':
+    case '3_7_days':
+      return 'days';
+    case '1_2_weeks':
+    case 'more_than_2_weeks':
+      return 'weeks';
+    case 'chronic':
+    default:
+      return 'ongoing';
+  }
+}
@@ -0,0 +1,98 @@
+import type { V1Slot } from '@/services/api/endpoints/availability';
+import {
+  formatCountdown,
+  secondsUntil,
+  slotsForDate,
+  unavailableDates,
+  upcomingDates,
+  zonedInstant,
+  zonedParts,
+} from './availability';
+
+const KOLKATA = 'Asia/Kolkata';
+
+// 2026-08-03 09:00 and 09:30 in Kolkata, then 2026-08-04 00:30 there —
+// still 2026-08-03 in UTC.
+const SLOTS: V1Slot[] = [
+  { startsAt: '2026-08-03T04:00:00.000Z', available: false },
+  { startsAt: '2026-08-03T03:30:00.000Z', available: true },
+  { startsAt: '2026-08-03T19:00:00.000Z', available: true },
+];
+
+describe('zonedParts', () => {
+  it('reads an instant on the given clock', () => {
+    expect(zonedParts('2026-08-03T19:00:00.000Z', KOLKATA)).toEqual({
+      date: '2026-08-04',
+      time: '00:30',
+    });
+    expect(zonedParts('2026-08-03T19:00:00.000Z', 'UTC')).toEqual({
+      date: '2026-08-03',
+      time: '19:00',
+    });
+  });
+});
+
+describe('zonedInstant', () => {
+  it('turns a clock reading in a zone back into an instant', () => {
+    expect(zonedInstant('2026-08-03', '09:30', KOLKATA)).toBe('2026-08-03T04:00:00.000Z');
+    // Either side of the US change back to standard time on 1 November.
+    expect(zonedInstant('2026-10-30', '09:00', 'America/New_York')).toBe(
+      '2026-10-30T13:00:00.000Z'
+    );
+    expect(zonedInstant('2026-11-02', '09:00', 'America/New_York')).toBe(
+      '2026-11-02T14:00:00.000Z'
+    );
+  });
+});
+
+describe('upcomingDates', () => {
+  it('starts from today in the care team zone, not the phone', () => {
+    // 20:00 UTC on the 3rd is already the 4th in Kolkata.
+    const now = new Date('2026-08-03T20:00:00.000Z');
+
+    expect(upcomingDates(3, KOLKATA, now)).toEqual(['2026-08-04', '2026-08-05', '2026-08-06']);
+    expect(upcomingDates(1, 'UTC', now)).toEqual(['2026-08-03']);
+  });
+
+  it('steps across month ends', () => {
+    const now = new Date('2026-08-31T06:00:00.000Z');
+
+    expect(upcomingDates(2, KOLKATA, now)).toEqual(['2026-08-31', '2026-09-01']);
+  });
+});
+
+describe('slotsForDate', () => {
+  it('lists times in order and marks taken ones', () => {
+    const day = slotsForDate(SLOTS, '2026-08-03', KOLKATA);
+
+    expect(day.times).toEqual(['09:00', '09:30']);
+    expect(day.taken).toEqual(['09:30']);
+    expect(day.startsAt['09:00']).toBe('2026-08-03T03:30:00.000Z');
+  });
+
+  it('puts a slot on the date its zone reads, not the UTC date', () => {
+    expect(slotsForDate(SLOTS, '2026-08-04', KOLKATA).times).toEqual(['00:30']);
+  });
+});
+
+describe('unavailableDates', () => {
+  it('greys out days with no open slot', () => {
+    const dates = ['2026-08-03', '2026-08-04', '2026-08-05'];
+
+    expect(unavailableDates(SLOTS, dates, KOLKATA)).toEqual(['2026-08-05']);
+    expect(
+      unavailableDates([{ startsAt: '2026-08-03T04:00:00.000Z', available: false }], dates, KOLKATA)
+    ).toEqual(dates);
+  });
+});
+
+describe('hold countdown', () => {
+  it('counts whole seconds down to zero', () => {
+    const now = Date.parse('2026-08-03T04:00:00.000Z');
+
+    expect(secondsUntil('2026-08-03T04:09:04.500Z', now)).toBe(545);
+    expect(secondsUntil('2026-08-03T03:59:00.000Z', now)).toBe(0);
+    expect(formatCountdown(545)).toBe('9:05');
+    expect(formatCountdown(0)).toBe('0:00');
+  });
+});
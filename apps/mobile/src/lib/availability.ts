@@ -0,0 +1,112 @@
+/**
+ * Availability
+ *
+ * The server publishes bookable slots as UTC instants plus the time zone the
+ * care team works in. Everything a customer sees — which day a slot falls on,
+ * what time it starts — is read on that zone's clock, not the phone's, so a
+ * family booking from abroad sees the visit time the nurse will arrive.
+ *
+ * Calendar dates are YYYY-MM-DD strings stepped in UTC, as in recurringCare.
+ */
+
+import type { V1Slot } from '@/services/api/endpoints/availability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The phone's zone; used when the server does not name one. */
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Calendar date and 24-hour time of an instant, as a clock in `timeZone` reads it. */
+export function zonedParts(
+  instant: string | Date,
+  timeZone: string
+): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(typeof instant === 'string' ? new Date(instant) : instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+/**
+ * The instant a clock in `timeZone` shows `time` on `date`. A time skipped by
+ * a daylight-saving change resolves to an instant next to the gap.
+ */
+export function zonedInstant(date: string, time: string, timeZone: string): string {
+  const wall = Date.parse(`${date}T${time}:00.000Z`);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.parse(`${parts.date}T${parts.time}:00.000Z`) - instant;
+  };
+  // The offset at a first guess can differ from the offset at the answer
+  // when a change falls between them; a second pass settles it.
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess)).toISOString();
+}
+
+/** The next `count` calendar dates in `timeZone`, starting with today there. */
+export function upcomingDates(count: number, timeZone: string, now: Date = new Date()): string[] {
+  const today = Date.parse(`${zonedParts(now, timeZone).date}T00:00:00.000Z`);
+  return Array.from({ length: count }, (_, offset) =>
+    new Date(today + offset * DAY_MS).toISOString().slice(0, 10)
+  );
+}
+
+export type DaySlots = {
+  /** Every published start time that day, HH:MM in the care team's zone. */
+  times: string[];
+  /** The subset already booked or held by someone else. */
+  taken: string[];
+  /** The instant to book for each time. */
+  startsAt: Record<string, string>;
+};
+
+export function slotsForDate(slots: V1Slot[], date: string, timeZone: string): DaySlots {
+  const day: DaySlots = { times: [], taken: [], startsAt: {} };
+  const sorted = [...slots].sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
+  for (const slot of sorted) {
+    const parts = zonedParts(slot.startsAt, timeZone);
+    if (parts.date !== date || day.startsAt[parts.time]) continue;
+    day.times.push(parts.time);
+    day.startsAt[parts.time] = slot.startsAt;
+    if (!slot.available) day.taken.push(parts.time);
+  }
+  return day;
+}
+
+/** Dates with nothing left to book: no published slots, or every one taken. */
+export function unavailableDates(slots: V1Slot[], dates: string[], timeZone: string): string[] {
+  const open = new Set(
+    slots.filter((slot) => slot.available).map((slot) => zonedParts(slot.startsAt, timeZone).date)
+  );
+  return dates.filter((date) => !open.has(date));
+}
+
+/** "IST", "GMT+5:30" — shown when the care team's zone is not the phone's. */
+export function timeZoneLabel(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(
+    now
+  );
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+export function secondsUntil(instant: string, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((Date.parse(instant) - now) / 1000));
+}
+
+/** "9:05" */
+export function formatCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
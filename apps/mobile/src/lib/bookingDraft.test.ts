@@ -0,0 +1,183 @@
+import type { BookingPriceQuote } from '@/services/api/endpoints/payments';
+import { money, type PricingBreakdown, type Promotion } from '@/types/booking';
+import {
+  applyCredits,
+  applyPromotions,
+  buildBookingCore,
+  pricingFromQuote,
+  promotionConflict,
+  reconcilePricing,
+} from './bookingDraft';
+
+const inr = (amount: number) => money(amount, 'INR');
+
+const pricing = (overrides: Partial<PricingBreakdown> = {}): PricingBreakdown => ({
+  pricingModel: 'fixed',
+  subtotal: inr(1200),
+  discount: inr(0),
+  fees: inr(0),
+  taxes: inr(0),
+  total: inr(1200),
+  ...overrides,
+});
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  code: 'WELCOME10',
+  label: '10% off your first booking',
+  discount: inr(120),
+  stacking: 'stackable',
+  ...overrides,
+});
+
+const quote = (overrides: Partial<BookingPriceQuote> = {}): BookingPriceQuote => ({
+  currency: 'INR',
+  subtotalMinor: 120000,
+  discountMinor: 0,
+  promotions: [],
+  credits: [],
+  feesMinor: 0,
+  taxesMinor: 0,
+  totalMinor: 120000,
+  ...overrides,
+});
+
+describe('promotionConflict', () => {
+  it('lets stackable codes combine', () => {
+    expect(promotionConflict([promotion()], { code: 'FRIEND50', stacking: 'stackable' })).toBe(
+      null
+    );
+  });
+
+  it('refuses the same code twice, whatever its case', () => {
+    expect(promotionConflict([promotion()], { code: 'welcome10', stacking: 'stackable' })).toBe(
+      'welcome10 is already applied.'
+    );
+  });
+
+  it('keeps an exclusive code on its own', () => {
+    expect(
+      promotionConflict([promotion({ code: 'MONSOON', stacking: 'exclusive' })], {
+        code: 'FRIEND50',
+        stacking: 'stackable',
+      })
+    ).toBe('MONSOON cannot be combined with other codes. Remove it to use FRIEND50.');
+    expect(promotionConflict([promotion()], { code: 'MONSOON', stacking: 'exclusive' })).toBe(
+      'MONSOON cannot be combined with other codes. Remove the others to use it.'
+    );
+  });
+});
+
+describe('applyPromotions', () => {
+  it('takes each code off what is still owed, never below zero', () => {
+    const result = applyPromotions(pricing(), [
+      promotion({ discount: inr(1000) }),
+      promotion({ code: 'FRIEND50', discount: inr(500) }),
+    ]);
+
+    expect(result.total).toEqual(inr(0));
+    expect(result.promotions?.map((applied) => applied.discount.amount)).toEqual([1000, 200]);
+  });
+});
+
+describe('applyCredits', () => {
+  it('spends referral credit before the wallet balance', () => {
+    const result = applyCredits(pricing({ total: inr(1000) }), {
+      referral: inr(300),
+      wallet: inr(2000),
+    });
+
+    expect(result.credits).toEqual([
+      { source: 'referral', amount: inr(300) },
+      { source: 'wallet', amount: inr(700) },
+    ]);
+    expect(result.total).toEqual(inr(0));
+  });
+
+  it('skips a source with nothing to spend', () => {
+    const result = applyCredits(pricing(), { referral: inr(0), wallet: inr(200) });
+
+    expect(result.credits).toEqual([{ source: 'wallet', amount: inr(200) }]);
+    expect(result.total).toEqual(inr(1000));
+  });
+});
+
+describe('buildBookingCore', () => {
+  it('applies promotions, then credit, to a priced booking', () => {
+    const core = buildBookingCore({
+      serviceId: 'svc_1',
+      serviceTitle: 'Companion visit',
+      memberId: 'member_1',
+      schedule: { date: '2026-08-03', startTime: '09:30' },
+      notes: '',
+      pricingSelections: { pricingModel: 'fixed', fixedPrice: 1200 },
+      currency: 'INR',
+      promotions: [promotion()],
+      credits: { referral: inr(80), wallet: inr(0) },
+    });
+
+    expect(core.pricing.total).toEqual(inr(1000));
+  });
+});
+
+describe('reconcilePricing', () => {
+  it('matches when the server charges what the app showed', () => {
+    const draft = applyPromotions(pricing(), [promotion()]);
+    const server = pricingFromQuote(
+      quote({
+        promotions: [
+          { code: 'WELCOME10', label: '10% off', discountMinor: 12000, stacking: 'stackable' },
+        ],
+        totalMinor: 108000,
+      }),
+      'fixed'
+    );
+
+    expect(reconcilePricing(draft, server)).toEqual({
+      matches: true,
+      difference: inr(0),
+      reasons: [],
+    });
+  });
+
+  it('explains a code the server no longer honours', () => {
+    const draft = applyPromotions(pricing(), [promotion()]);
+    const server = pricingFromQuote(quote(), 'fixed');
+
+    const result = reconcilePricing(draft, server, [
+      { code: 'WELCOME10', reason: 'it has expired.' },
+    ]);
+
+    expect(result.matches).toBe(false);
+    expect(result.difference).toEqual(inr(120));
+    expect(result.reasons).toEqual(['WELCOME10 no longer applies: it has expired.']);
+  });
+
+  it('explains a changed price, less credit and new taxes together', () => {
+    const draft = applyCredits(pricing(), { referral: inr(0), wallet: inr(200) });
+    const server = pricingFromQuote(
+      quote({
+        subtotalMinor: 130000,
+        credits: [{ source: 'wallet', amountMinor: 10000 }],
+        taxesMinor: 6500,
+        totalMinor: 126500,
+      }),
+      'fixed'
+    );
+
+    expect(reconcilePricing(draft, server).reasons).toEqual([
+      'The service now costs ₹1,300, not ₹1,200.',
+      '₹100 of your credit is used, not ₹200.',
+      'Fees and taxes come to ₹65.',
+    ]);
+  });
+
+  it('names the charged currency when it differs from the one shown', () => {
+    const result = reconcilePricing(
+      pricing(),
+      pricingFromQuote(quote({ currency: 'USD' }), 'fixed')
+    );
+
+    expect(result.matches).toBe(false);
+    expect(result.reasons[0]).toContain('You will be charged in USD');
+  });
+});
@@ -4,15 +4,24 @@
  */
 
 import {
+  AppliedCredit,
   BookingCore,
   BookingDraftInput,
+  CreditBalances,
+  Money,
   PricingBreakdown,
+  PricingModelType,
+  Promotion,
   Schedule,
   Currency,
   ValidationResult,
   money,
+  addMoney,
+  subtractMoney,
   generateBookingId,
 } from '@/types/booking';
+import type { BookingPriceQuote } from '@/services/api/endpoints/payments';
+import { formatMinor } from '@/data/countries';
 
 // ============================================
 // PRICING CALCULATION FUNCTIONS
@@ -136,6 +145,80 @@ function calculateQuotePricing(currency: Currency): PricingBreakdown {
   };
 }
 
+// ============================================
+// PROMOTIONS & CREDITS
+// ============================================
+
+/**
+ * Why `next` cannot be applied alongside the codes already applied, or null
+ * if it can. Mirrors the server's stacking rules so the customer hears why
+ * before the code is sent; the server still has the final say.
+ */
+export function promotionConflict(
+  applied: Promotion[],
+  next: Pick<Promotion, 'code' | 'stacking'>
+): string | null {
+  const code = next.code.toUpperCase();
+  if (applied.some((promotion) => promotion.code.toUpperCase() === code)) {
+    return `${next.code} is already applied.`;
+  }
+  const exclusive = applied.find((promotion) => promotion.stacking === 'exclusive');
+  if (exclusive) {
+    return `${exclusive.code} cannot be combined with other codes. Remove it to use ${next.code}.`;
+  }
+  if (next.stacking === 'exclusive' && applied.length > 0) {
+    return `${next.code} cannot be combined with other codes. Remove the others to use it.`;
+  }
+  return null;
+}
+
+/**
+ * Apply validated promo codes in order. Each discount is capped at what is
+ * still owed, so stacked codes never take the total below zero.
+ */
+export function applyPromotions(
+  pricing: PricingBreakdown,
+  promotions: Promotion[]
+): PricingBreakdown {
+  let total = pricing.total;
+  const applied = promotions.map((promotion) => {
+    const discount = money(Math.min(promotion.discount.amount, total.amount), total.currency);
+    total = subtractMoney(total, discount);
+    return { ...promotion, discount };
+  });
+
+  return {
+    ...pricing,
+    promotions: [...(pricing.promotions ?? []), ...applied],
+    total,
+  };
+}
+
+/**
+ * Spend account credit after promotions: referral credit first, because it
+ * can only be spent on bookings, then wallet balance. Never more than is
+ * still owed.
+ */
+export function applyCredits(
+  pricing: PricingBreakdown,
+  balances: CreditBalances
+): PricingBreakdown {
+  let total = pricing.total;
+  const credits: AppliedCredit[] = [];
+  for (const source of ['referral', 'wallet'] as const) {
+    const amount = money(Math.min(balances[source].amount, total.amount), total.currency);
+    if (amount.amount <= 0) continue;
+    total = subtractMoney(total, amount);
+    credits.push({ source, amount });
+  }
+
+  return {
+    ...pricing,
+    credits: [...(pricing.credits ?? []), ...credits],
+    total,
+  };
+}
+
 // ============================================
 // MAIN BUILDER FUNCTION
 // ============================================
@@ -214,6 +297,16 @@ export function buildBookingCore(input: BookingDraftInput): BookingCore {
     pricing.couponCode = input.couponCode;
   }
 
+  // Promotions and credit only reduce a price that is known today
+  if (pricing.pricingModel !== 'quote') {
+    if (input.promotions?.length) {
+      pricing = applyPromotions(pricing, input.promotions);
+    }
+    if (input.credits) {
+      pricing = applyCredits(pricing, input.credits);
+    }
+  }
+
   const schedule: Schedule = {
     dateISO: input.schedule.date,
     timeStart: input.schedule.startTime,
@@ -365,3 +458,118 @@ export function calculateEndTime(startTime: string, durationMinutes: number): st
   const endMinutes = totalMinutes % 60;
   return `${endHours.toString().padStart(2, '0')}:${endMinutes.toString().padStart(2, '0')}`;
 }
+
+// ============================================
+// SERVER RECONCILIATION
+// ============================================
+
+export type PriceReconciliation = {
+  matches: boolean;
+  /** Server total minus draft total; positive means the customer pays more. */
+  difference: Money;
+  /** One sentence per reason the prices differ, shown before payment. */
+  reasons: string[];
+};
+
+const toMinor = (value: Money) => Math.round(value.amount * 100);
+const show = (value: Money) => formatMinor(toMinor(value), value.currency);
+const sum = (values: Money[], currency: Currency) =>
+  values.reduce((total, value) => addMoney(total, value), money(0, currency));
+
+/**
+ * The server's price quote as a PricingBreakdown in major units, so it can be
+ * compared line by line with the draft.
+ */
+export function pricingFromQuote(
+  quote: BookingPriceQuote,
+  pricingModel: PricingModelType
+): PricingBreakdown {
+  const currency: Currency = quote.currency === 'INR' ? 'INR' : 'USD';
+  const major = (minor: number) => money(minor / 100, currency);
+
+  return {
+    pricingModel,
+    subtotal: major(quote.subtotalMinor),
+    discount: major(quote.discountMinor),
+    fees: major(quote.feesMinor),
+    taxes: major(quote.taxesMinor),
+    total: major(quote.totalMinor),
+    promotions: quote.promotions.map((promotion) => ({
+      code: promotion.code,
+      label: promotion.label,
+      discount: major(promotion.discountMinor),
+      stacking: promotion.stacking,
+    })),
+    credits: quote.credits.map((credit) => ({
+      source: credit.source,
+      amount: major(credit.amountMinor),
+    })),
+  };
+}
+
+/**
+ * Compare the price the app showed with the price the server will charge,
+ * and explain every difference. The server's price is the one that is
+ * charged; this only makes sure the customer sees it before paying.
+ */
+export function reconcilePricing(
+  draft: PricingBreakdown,
+  server: PricingBreakdown,
+  rejectedCodes: Array<{ code: string; reason: string }> = []
+): PriceReconciliation {
+  const currency = server.total.currency;
+  if (draft.total.currency !== currency) {
+    return {
+      matches: false,
+      difference: server.total,
+      reasons: [`You will be charged in ${currency}: ${show(server.total)}.`],
+    };
+  }
+
+  const reasons: string[] = [];
+  const draftPrice = subtractMoney(draft.subtotal, draft.discount);
+  const serverPrice = subtractMoney(server.subtotal, server.discount);
+  if (toMinor(draftPrice) !== toMinor(serverPrice)) {
+    reasons.push(`The service now costs ${show(serverPrice)}, not ${show(draftPrice)}.`);
+  }
+
+  const serverPromotions = server.promotions ?? [];
+  for (const promotion of draft.promotions ?? []) {
+    const code = promotion.code.toUpperCase();
+    const honoured = serverPromotions.find((candidate) => candidate.code.toUpperCase() === code);
+    if (!honoured) {
+      const rejected = rejectedCodes.find((candidate) => candidate.code.toUpperCase() === code);
+      reasons.push(
+        rejected
+          ? `${promotion.code} no longer applies: ${rejected.reason}`
+          : `${promotion.code} no longer applies.`
+      );
+    } else if (toMinor(honoured.discount) !== toMinor(promotion.discount)) {
+      const now = show(honoured.discount);
+      reasons.push(`${promotion.code} takes off ${now}, not ${show(promotion.discount)}.`);
+    }
+  }
+
+  const draftCredit = sum((draft.credits ?? []).map((credit) => credit.amount), currency);
+  const serverCredit = sum((server.credits ?? []).map((credit) => credit.amount), currency);
+  if (toMinor(draftCredit) !== toMinor(serverCredit)) {
+    reasons.push(`${show(serverCredit)} of your credit is used, not ${show(draftCredit)}.`);
+  }
+
+  const draftCharges = addMoney(draft.fees, draft.taxes);
+  const serverCharges = addMoney(server.fees, server.taxes);
+  if (toMinor(draftCharges) !== toMinor(serverCharges)) {
+    reasons.push(`Fees and taxes come to ${show(serverCharges)}.`);
+  }
+
+  const differenceMinor = toMinor(server.total) - toMinor(draft.total);
+  if (differenceMinor !== 0 && reasons.length === 0) {
+    reasons.push(`The final amount is ${show(server.total)} after rounding.`);
+  }
+
+  return {
+    matches: differenceMinor === 0,
+    difference: money(differenceMinor / 100, currency),
+    reasons,
+  };
+}
@@ -0,0 +1,136 @@
+import type { CartItem } from '@/data/types';
+import type { CartOrderLine, CartOrderStatusResponse } from '@/services/api/endpoints/payments';
+import {
+  cartItemSchedule,
+  describeCartLine,
+  problemsByItem,
+  summarizeCartOrder,
+} from './cartOrder';
+
+// 2026-08-03 is a Monday.
+const MONDAY = '2026-08-03';
+const SLOT = '2026-08-03T04:00:00.000Z';
+
+const item = (overrides: Partial<CartItem> = {}): CartItem => ({
+  id: 'cart_1',
+  serviceId: 'svc_1',
+  serviceTitle: 'Companion visit',
+  memberId: 'member_1',
+  memberName: 'Asha',
+  date: MONDAY,
+  startTime: '09:30',
+  requestNotes: '',
+  subtotal: 1200,
+  discount: 0,
+  total: 1200,
+  pricingLabel: '2 hours',
+  ...overrides,
+});
+
+const line = (overrides: Partial<CartOrderLine> = {}): CartOrderLine => ({
+  cartItemId: 'cart_1',
+  status: 'BOOKED',
+  serviceName: 'Companion visit',
+  amount: 120000,
+  booking: { id: 'bk_1', status: 'CONFIRMED', scheduledAt: SLOT },
+  ...overrides,
+});
+
+const order = (overrides: Partial<CartOrderStatusResponse> = {}): CartOrderStatusResponse => ({
+  success: true,
+  status: 'SUCCESS',
+  amount: 240000,
+  currency: 'INR',
+  lines: [line(), line({ cartItemId: 'cart_2', booking: { ...line().booking!, id: 'bk_2' } })],
+  ...overrides,
+});
+
+describe('cartItemSchedule', () => {
+  it('uses the published slot instant when one was picked', () => {
+    expect(cartItemSchedule(item({ slotStartsAt: SLOT }))).toEqual({ scheduledAt: SLOT });
+  });
+
+  it('falls back to the local date and time without a slot', () => {
+    const { scheduledAt } = cartItemSchedule(item());
+
+    expect(new Date(scheduledAt).getHours()).toBe(9);
+    expect(new Date(scheduledAt).getMinutes()).toBe(30);
+  });
+
+  it('sends every visit of a recurring item, starting with the first', () => {
+    const schedule = cartItemSchedule(
+      item({
+        slotStartsAt: SLOT,
+        slotTimeZone: 'Asia/Kolkata',
+        recurrence: { weekdays: [1, 3], weeks: 1 },
+      })
+    );
+
+    expect(schedule.scheduledAt).toBe(SLOT);
+    expect(schedule.recurrence?.scheduledAt).toEqual([SLOT, '2026-08-05T04:00:00.000Z']);
+  });
+});
+
+describe('problemsByItem', () => {
+  it('keys each problem by its cart item', () => {
+    expect(
+      problemsByItem([
+        { cartItemId: 'cart_1', error: 'Slot taken' },
+        { cartItemId: 'cart_2', error: 'Service changed' },
+      ])
+    ).toEqual({ cart_1: 'Slot taken', cart_2: 'Service changed' });
+  });
+});
+
+describe('summarizeCartOrder', () => {
+  it('counts every booking on a fully confirmed order', () => {
+    expect(summarizeCartOrder(order()).title).toBe('2 bookings confirmed');
+  });
+
+  it('explains which part of a partially confirmed order was refunded', () => {
+    const summary = summarizeCartOrder(
+      order({
+        status: 'PARTIAL',
+        lines: [
+          line(),
+          line({
+            cartItemId: 'cart_2',
+            status: 'REFUNDED',
+            booking: null,
+            refund: { status: 'ISSUED', amount: 120000 },
+          }),
+        ],
+      })
+    );
+
+    expect(summary.title).toBe('1 of 2 bookings confirmed');
+    expect(summary.body).toContain('One booking could not be confirmed and ₹1,200');
+  });
+
+  it('reports a full refund when nothing could be booked', () => {
+    const summary = summarizeCartOrder(
+      order({ status: 'REFUNDED', lines: [line({ status: 'REFUNDED', booking: null })] })
+    );
+
+    expect(summary.title).toBe('Order refunded');
+    expect(summary.body).toContain('₹1,200');
+  });
+
+  it('tells the customer not to pay again while the payment is confirming', () => {
+    expect(summarizeCartOrder(order({ status: 'PENDING', lines: [] })).body).toContain(
+      'Do not pay again'
+    );
+  });
+});
+
+describe('describeCartLine', () => {
+  it('describes booked, refunded and failed lines', () => {
+    expect(describeCartLine(line())).toBe('Booked');
+    expect(
+      describeCartLine(line({ status: 'REFUNDED', refund: { status: 'PENDING', amount: 50000 } }))
+    ).toBe('Refund of ₹500 on its way');
+    expect(describeCartLine(line({ status: 'FAILED', error: 'slot no longer available' }))).toBe(
+      'Not booked: slot no longer available'
+    );
+  });
+});
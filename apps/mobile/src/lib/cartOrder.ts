@@ -0,0 +1,101 @@
+/**
+ * Cart orders
+ *
+ * Turns cart items into the lines of one cart order and explains what came
+ * back. The server books the whole cart or nothing, takes one payment, and
+ * refunds any line it cannot confirm after payment; the app only reports it.
+ */
+
+import type { CartItem } from '@/data/types';
+import type { CartOrderLine, CartOrderStatusResponse } from '@/services/api/endpoints/payments';
+import { formatMinor } from '@/data/countries';
+import { seriesFromSlot, seriesScheduledAt } from './recurringCare';
+import { deviceTimeZone } from './availability';
+
+export type CartItemSchedule = {
+  scheduledAt: string;
+  recurrence?: { rule: NonNullable<CartItem['recurrence']>; scheduledAt: string[] };
+};
+
+/** When each visit of a cart item happens, as checkout computes it for one draft. */
+export function cartItemSchedule(item: CartItem): CartItemSchedule {
+  const slot = item.slotStartsAt ?? null;
+  if (item.recurrence) {
+    const scheduledAt = slot
+      ? seriesFromSlot(item.date, item.recurrence, slot, item.slotTimeZone ?? deviceTimeZone())
+      : seriesScheduledAt(item.date, item.recurrence, item.startTime);
+    return { scheduledAt: scheduledAt[0], recurrence: { rule: item.recurrence, scheduledAt } };
+  }
+  return { scheduledAt: slot ?? new Date(`${item.date}T${item.startTime}:00`).toISOString() };
+}
+
+export type CartItemProblem = { cartItemId: string; error: string };
+
+/** Problems keyed by cart item, for showing next to each item. */
+export function problemsByItem(problems: CartItemProblem[]): Record<string, string> {
+  return Object.fromEntries(problems.map((problem) => [problem.cartItemId, problem.error]));
+}
+
+export type CartOrderSummary = {
+  title: string;
+  body: string;
+};
+
+/** Headline and one-paragraph explanation of how a paid cart order turned out. */
+export function summarizeCartOrder(order: CartOrderStatusResponse): CartOrderSummary {
+  const lines = order.lines ?? [];
+  const booked = lines.filter((line) => line.status === 'BOOKED').length;
+  const refunded = lines.filter((line) => line.status === 'REFUNDED');
+  const refundTotal = refunded.reduce((sum, line) => sum + (line.refund?.amount ?? line.amount), 0);
+  const money = (amount: number) => formatMinor(amount, order.currency ?? 'INR');
+
+  if (order.status === 'PENDING') {
+    return {
+      title: 'Confirming your payment',
+      body: 'Your bookings appear here as soon as CareBow records the payment. Do not pay again.',
+    };
+  }
+  if (order.status === 'FAILED') {
+    return {
+      title: 'Payment not completed',
+      body: 'Nothing was charged and no bookings were made. Your cart is unchanged.',
+    };
+  }
+  if (order.status === 'REFUNDED' || (lines.length > 0 && booked === 0)) {
+    const amount = money(refundTotal || order.amount || 0);
+    return {
+      title: 'Order refunded',
+      body: `None of the bookings could be confirmed, so ${amount} is on its way back to you.`,
+    };
+  }
+  if (refunded.length > 0) {
+    const which = refunded.length === 1 ? 'One booking' : `${refunded.length} bookings`;
+    const amount = money(refundTotal);
+    return {
+      title: `${booked} of ${lines.length} bookings confirmed`,
+      body: `${which} could not be confirmed and ${amount} is on its way back to you. Everything else is booked.`,
+    };
+  }
+  return {
+    title: booked === 1 ? 'Booking confirmed' : `${booked} bookings confirmed`,
+    body: 'Paid in one payment. The care team will be in touch with provider details.',
+  };
+}
+
+/** "Booked", "Refunded ₹1,200", "Not booked: slot no longer available". */
+export function describeCartLine(line: CartOrderLine, currency: string = 'INR'): string {
+  switch (line.status) {
+    case 'BOOKED':
+      return 'Booked';
+    case 'PENDING':
+      return 'Confirming';
+    case 'REFUNDED': {
+      const amount = formatMinor(line.refund?.amount ?? line.amount, currency);
+      return line.refund?.status === 'PENDING'
+        ? `Refund of ${amount} on its way`
+        : `Refunded ${amount}`;
+    }
+    case 'FAILED':
+      return line.error ? `Not booked: ${line.error}` : 'Not booked';
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Drug interaction checking
+ * Bundled, updatable interaction dataset and the checks that run against it.
+ */
+
+export * from './interactionDataset';
+export * from './interactionChecker';
@@ -0,0 +1,95 @@
+import {
+  checkRecordedMedications,
+  checkSuggestions,
+  type InteractionRecord,
+} from './interactionChecker';
+
+const emptyRecord: InteractionRecord = { medications: [], allergies: [], conditions: [] };
+
+function check(suggestion: string, record: Partial<InteractionRecord>) {
+  return checkSuggestions([suggestion], { ...emptyRecord, ...record });
+}
+
+describe('checkSuggestions', () => {
+  it('warns about an NSAID for someone on warfarin', () => {
+    const [warning] = check('Take ibuprofen 400mg with food', { medications: ['Warfarin 5mg'] });
+
+    expect(warning).toMatchObject({
+      ruleId: 'nsaid-anticoagulant',
+      kind: 'drug_drug',
+      severity: 'major',
+      subject: 'ibuprofen',
+      conflictsWith: 'Warfarin 5mg',
+    });
+  });
+
+  it('warns about an NSAID for someone with kidney disease', () => {
+    const warnings = check('An NSAID such as naproxen can ease the swelling', {
+      conditions: ['Chronic kidney disease stage 3'],
+    });
+
+    expect(warnings.map((w) => w.ruleId)).toEqual(['nsaid-kidney']);
+    expect(warnings[0].kind).toBe('drug_condition');
+  });
+
+  it('warns about a recorded allergy, including cross-reactions', () => {
+    expect(check('amoxicillin as prescribed', { allergies: ['Penicillin'] })[0]).toMatchObject({
+      kind: 'drug_allergy',
+      severity: 'major',
+      conflictsWith: 'Penicillin',
+    });
+    // Aspirin allergy usually means NSAID sensitivity too.
+    expect(check('ibuprofen for the pain', { allergies: ['aspirin'] })).toHaveLength(1);
+  });
+
+  it('ignores products a suggestion only mentions to rule out', () => {
+    const record = { medications: ['warfarin'], allergies: ['penicillin'] };
+    expect(check('Avoid ibuprofen; use paracetamol instead', record)).toEqual([]);
+    expect(check("Don't take aspirin for this", record)).toEqual([]);
+  });
+
+  it('flags a duplicate of something already taken', () => {
+    const [warning] = check('Paracetamol 500mg every 6 hours', { medications: ['Crocin 650'] });
+
+    expect(warning).toMatchObject({ kind: 'duplicate', ruleId: 'duplicate-acetaminophen' });
+  });
+
+  it('does not treat an agent as interacting with itself', () => {
+    const warnings = check('A low-dose aspirin', { medications: ['Ecosprin 75'] });
+    expect(warnings.filter((w) => w.kind === 'drug_drug')).toEqual([]);
+  });
+
+  it('warns about home remedies too, major first', () => {
+    const warnings = checkSuggestions(
+      ['Ginger tea with honey', 'Turmeric milk at bedtime', 'Ibuprofen if needed'],
+      { ...emptyRecord, medications: ['apixaban'] }
+    );
+
+    expect(warnings.map((w) => w.ruleId)).toEqual([
+      'nsaid-anticoagulant',
+      'ginger-anticoagulant',
+      'turmeric-anticoagulant',
+    ]);
+  });
+
+  it('returns nothing without a health record', () => {
+    expect(check('ibuprofen, ginger tea and a hot toddy', {})).toEqual([]);
+  });
+});
+
+describe('checkRecordedMedications', () => {
+  it('warns when two recorded medications interact', () => {
+    const [warning] = checkRecordedMedications(['Sertraline 50mg', "St John's Wort"]);
+
+    expect(warning).toMatchObject({
+      ruleId: 'ssri-st_johns_wort',
+      severity: 'major',
+      subject: 'Sertraline 50mg',
+      conflictsWith: "St John's Wort",
+    });
+  });
+
+  it('does not flag two entries for the same medicine', () => {
+    expect(checkRecordedMedications(['Aspirin', 'Ecosprin 75'])).toEqual([]);
+  });
+});
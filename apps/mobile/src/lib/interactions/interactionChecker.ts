@@ -0,0 +1,269 @@
+/**
+ * Interaction checker
+ *
+ * Cross-checks what we suggest (home remedies, OTC products in guidance)
+ * against what is recorded in health memory, and recorded medications
+ * against each other:
+ *
+ *   suggestion text ──► agents mentioned ──┬─► recorded medications  (drug–drug, duplicates)
+ *                                          ├─► recorded allergies    (drug–allergy)
+ *                                          └─► recorded conditions   (contraindications)
+ *
+ *   recorded medication × recorded medication ──► drug–drug
+ *
+ * Agents expand to their classes before matching, so "aspirin" also counts
+ * as an NSAID. A suggestion that only mentions an agent to rule it out
+ * ("avoid ibuprofen", "no aspirin") is not a suggestion of it.
+ *
+ * Pure and synchronous: the dataset is passed in (defaulting to the active
+ * one), so the checks are cheap enough to run on every render and easy to
+ * test.
+ */
+
+import { annotateClauses, qualifySpan } from '../askCarebow/clauseQualifiers';
+import {
+  findTerms,
+  getActiveInteractionDataset,
+  type InteractionDataset,
+  type InteractionSeverity,
+} from './interactionDataset';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type InteractionWarningKind = 'drug_drug' | 'drug_allergy' | 'drug_condition' | 'duplicate';
+
+export type InteractionWarning = {
+  /** Stable across renders; unique within one check. */
+  key: string;
+  ruleId: string;
+  kind: InteractionWarningKind;
+  severity: InteractionSeverity;
+  /** The suggested (or first recorded) item, as written. */
+  subject: string;
+  /** The recorded medication, allergy or condition it conflicts with, as written. */
+  conflictsWith: string;
+  message: string;
+};
+
+/** The parts of a health record the checker reads. */
+export type InteractionRecord = {
+  medications: string[];
+  allergies: string[];
+  conditions: string[];
+};
+
+type AgentMention = {
+  term: string;
+  agentId: string;
+  /** The agent plus every class it belongs to. */
+  agentIds: Set<string>;
+};
+
+// ============================================
+// MATCHING
+// ============================================
+
+// Suggestions sometimes name a product only to steer away from it.
+const AVOID_CUE =
+  /\b(?:avoid|avoiding|don'?t\s+(?:take|use|give)|do\s+not\s+(?:take|use|give)|never|stop\s+(?:taking|using)|instead\s+of|rather\s+than)\b/i;
+
+function expand(agentId: string, dataset: InteractionDataset): Set<string> {
+  return new Set([agentId, ...(dataset.agents.get(agentId)?.classes ?? [])]);
+}
+
+function findMentions(
+  text: string,
+  dataset: InteractionDataset,
+  { skipAvoided }: { skipAvoided: boolean }
+): AgentMention[] {
+  const normalized = text.toLowerCase().replace(/[’]/g, "'");
+  const clauses = skipAvoided ? annotateClauses(normalized) : [];
+  const mentions: AgentMention[] = [];
+
+  for (const agent of dataset.agents.values()) {
+    for (const { term, start, end } of findTerms(agent.pattern, normalized)) {
+      if (skipAvoided) {
+        if (qualifySpan(clauses, start, end) !== 'affirmed') continue;
+        const clause = clauses.find((c) => start >= c.start && start < c.end);
+        if (clause && AVOID_CUE.test(normalized.slice(clause.start, start))) continue;
+      }
+      if (mentions.some((m) => m.agentId === agent.id)) continue;
+      mentions.push({ term, agentId: agent.id, agentIds: expand(agent.id, dataset) });
+    }
+  }
+  return mentions;
+}
+
+type RecordedItem = {
+  text: string;
+  /** Agents the item names. */
+  named: Set<string>;
+  /** Those agents plus their classes. */
+  agents: Set<string>;
+};
+
+function resolveRecorded(text: string, dataset: InteractionDataset): RecordedItem {
+  const item: RecordedItem = { text, named: new Set(), agents: new Set() };
+  for (const mention of findMentions(text, dataset, { skipAvoided: false })) {
+    item.named.add(mention.agentId);
+    mention.agentIds.forEach((id) => item.agents.add(id));
+  }
+  return item;
+}
+
+/** Agents an allergy rules out: the ones it names plus their cross-reactions. */
+function allergyAgents(allergy: string, dataset: InteractionDataset): Set<string> {
+  const ids = new Set<string>();
+  for (const { agentId } of findMentions(allergy, dataset, { skipAvoided: false })) {
+    ids.add(agentId);
+    dataset.agents.get(agentId)?.allergyCrossReacts?.forEach((id) => ids.add(id));
+  }
+  return ids;
+}
+
+function overlaps(a: Set<string>, b: Set<string>): string[] {
+  return [...a].filter((id) => b.has(id));
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+function interactionsBetween(
+  a: Set<string>,
+  b: Set<string>,
+  dataset: InteractionDataset
+): InteractionDataset['interactions'] {
+  return dataset.interactions.filter(
+    ({ between: [x, y] }) => (a.has(x) && b.has(y)) || (a.has(y) && b.has(x))
+  );
+}
+
+function finalize(warnings: InteractionWarning[]): InteractionWarning[] {
+  const seen = new Set<string>();
+  return warnings
+    .filter((warning) => {
+      if (seen.has(warning.key)) return false;
+      seen.add(warning.key);
+      return true;
+    })
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1));
+}
+
+/**
+ * Warnings for suggested items (free text, one suggestion per entry) against
+ * the recorded medications, allergies and conditions.
+ */
+export function checkSuggestions(
+  suggestions: string[],
+  record: InteractionRecord,
+  dataset: InteractionDataset = getActiveInteractionDataset()
+): InteractionWarning[] {
+  const medications = record.medications.map((text) => resolveRecorded(text, dataset));
+  const allergies = record.allergies.map((text) => ({
+    text,
+    agents: allergyAgents(text, dataset),
+  }));
+  const conditions = record.conditions.map((text) => ({ text, lower: text.toLowerCase() }));
+  const warnings: InteractionWarning[] = [];
+
+  for (const suggestion of suggestions) {
+    for (const mention of findMentions(suggestion, dataset, { skipAvoided: true })) {
+      const base = { subject: mention.term };
+
+      for (const allergy of allergies) {
+        if (overlaps(mention.agentIds, allergy.agents).length === 0) continue;
+        warnings.push({
+          ...base,
+          key: `allergy:${mention.agentId}:${allergy.text.toLowerCase()}`,
+          ruleId: `allergy-${mention.agentId}`,
+          kind: 'drug_allergy',
+          severity: 'major',
+          conflictsWith: allergy.text,
+          message: `There is a recorded allergy to ${allergy.text}. Do not use ${mention.term} without checking with a doctor or pharmacist.`,
+        });
+      }
+
+      for (const medication of medications) {
+        // Suggesting what is already taken is a duplicate, not an interaction
+        // with itself (aspirin is both an NSAID and an antiplatelet).
+        const interactions = medication.named.has(mention.agentId)
+          ? []
+          : interactionsBetween(mention.agentIds, medication.agents, dataset);
+        for (const interaction of interactions) {
+          warnings.push({
+            ...base,
+            key: `${interaction.id}:${mention.agentId}:${medication.text.toLowerCase()}`,
+            ruleId: interaction.id,
+            kind: 'drug_drug',
+            severity: interaction.severity,
+            conflictsWith: medication.text,
+            message: interaction.message,
+          });
+        }
+        for (const agentId of overlaps(mention.agentIds, medication.agents)) {
+          const duplicateWarning = dataset.agents.get(agentId)?.duplicateWarning;
+          if (!duplicateWarning) continue;
+          warnings.push({
+            ...base,
+            key: `duplicate:${agentId}:${medication.text.toLowerCase()}`,
+            ruleId: `duplicate-${agentId}`,
+            kind: 'duplicate',
+            severity: 'moderate',
+            conflictsWith: medication.text,
+            message: duplicateWarning,
+          });
+        }
+      }
+
+      for (const rule of dataset.contraindications) {
+        if (!mention.agentIds.has(rule.agent)) continue;
+        for (const condition of conditions) {
+          if (findTerms(rule.pattern, condition.lower).length === 0) continue;
+          warnings.push({
+            ...base,
+            key: `${rule.id}:${mention.agentId}:${condition.lower}`,
+            ruleId: rule.id,
+            kind: 'drug_condition',
+            severity: rule.severity,
+            conflictsWith: condition.text,
+            message: rule.message,
+          });
+        }
+      }
+    }
+  }
+
+  return finalize(warnings);
+}
+
+/** Warnings for pairs of recorded medications that interact with each other. */
+export function checkRecordedMedications(
+  medications: string[],
+  dataset: InteractionDataset = getActiveInteractionDataset()
+): InteractionWarning[] {
+  const resolved = medications.map((text) => resolveRecorded(text, dataset));
+  const warnings: InteractionWarning[] = [];
+
+  resolved.forEach((first, i) => {
+    for (const second of resolved.slice(i + 1)) {
+      // Two entries for the same medicine ("Aspirin", "Ecosprin 75") are not an interaction.
+      if (overlaps(first.named, second.named).length > 0) continue;
+      for (const interaction of interactionsBetween(first.agents, second.agents, dataset)) {
+        warnings.push({
+          key: `${interaction.id}:${first.text.toLowerCase()}:${second.text.toLowerCase()}`,
+          ruleId: interaction.id,
+          kind: 'drug_drug',
+          severity: interaction.severity,
+          subject: first.text,
+          conflictsWith: second.text,
+          message: interaction.message,
+        });
+      }
+    }
+  });
+
+  return finalize(warnings);
+}
@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { interactionsApi } from '@/services/api/endpoints/interactions';
+import {
+  applyInteractionDataset,
+  BUNDLED_INTERACTION_DATASET,
+  computeInteractionDatasetChecksum,
+  getActiveInteractionDataset,
+  hydrateInteractionDataset,
+  resetInteractionDataset,
+  validateInteractionDataset,
+  type InteractionDatasetDocument,
+} from './interactionDataset';
+import bundledDatasetJson from './interactions.default.json';
+
+jest.mock('@/services/api/endpoints/interactions', () => ({
+  interactionsApi: { getDataset: jest.fn() },
+}));
+
+const mockedFetch = interactionsApi.getDataset as jest.Mock;
+
+function makeDataset(
+  overrides: Partial<InteractionDatasetDocument> = {}
+): InteractionDatasetDocument {
+  const dataset: InteractionDatasetDocument = {
+    schemaVersion: 1,
+    version: '9999.1.0',
+    publishedAt: '2026-10-01T00:00:00.000Z',
+    checksum: '',
+    agents: [
+      { id: 'kava', name: 'Kava', terms: ['kava'] },
+      { id: 'benzodiazepine', name: 'Benzodiazepine', terms: ['alprazolam'] },
+    ],
+    interactions: [
+      {
+        id: 'kava-benzodiazepine',
+        between: ['kava', 'benzodiazepine'],
+        severity: 'major',
+        message: 'Kava adds to the sedation of benzodiazepines.',
+      },
+    ],
+    contraindications: [],
+    ...overrides,
+  };
+  return {
+    ...dataset,
+    checksum: overrides.checksum ?? computeInteractionDatasetChecksum(dataset),
+  };
+}
+
+describe('interaction datasets', () => {
+  beforeEach(async () => {
+    resetInteractionDataset();
+    mockedFetch.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  it('ships a bundled default whose checksum matches its content', () => {
+    const document = bundledDatasetJson as InteractionDatasetDocument;
+    // If this fails after editing the JSON, set "checksum" to the value shown.
+    expect(document.checksum).toBe(computeInteractionDatasetChecksum(document));
+    expect(validateInteractionDataset(document, 'bundled').valid).toBe(true);
+    expect(BUNDLED_INTERACTION_DATASET.interactions.length).toBeGreaterThan(20);
+  });
+
+  it('rejects a dataset whose content does not match its checksum', () => {
+    const dataset = makeDataset();
+    dataset.interactions[0].severity = 'moderate';
+
+    const result = validateInteractionDataset(dataset);
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors.join()).toContain('checksum mismatch');
+  });
+
+  it('rejects references to agents the dataset does not define', () => {
+    const result = validateInteractionDataset(
+      makeDataset({
+        interactions: [
+          { id: 'kava-x', between: ['kava', 'nonexistent'], severity: 'major', message: 'x' },
+        ],
+      })
+    );
+
+    expect(result.valid).toBe(false);
+    if (!result.valid)
+      expect(result.errors.join()).toContain('kava-x: between must name two known agents');
+  });
+
+  it('refuses a dataset older than the bundled one', () => {
+    const result = applyInteractionDataset(makeDataset({ version: '2020.1.0' }));
+
+    expect(result.valid).toBe(false);
+    expect(getActiveInteractionDataset()).toBe(BUNDLED_INTERACTION_DATASET);
+  });
+
+  it('activates and caches a valid server dataset', async () => {
+    mockedFetch.mockResolvedValue(makeDataset());
+
+    await expect(hydrateInteractionDataset()).resolves.toBe('server');
+
+    expect(getActiveInteractionDataset().agents.has('kava')).toBe(true);
+    expect(await AsyncStorage.getItem('@carebow/interaction_dataset')).toContain('9999.1.0');
+  });
+
+  it('keeps the bundled dataset when the fetch fails', async () => {
+    mockedFetch.mockRejectedValue(new Error('offline'));
+
+    await expect(hydrateInteractionDataset()).resolves.toBe('bundled');
+    expect(getActiveInteractionDataset()).toBe(BUNDLED_INTERACTION_DATASET);
+  });
+});
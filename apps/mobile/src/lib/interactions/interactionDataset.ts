@@ -0,0 +1,416 @@
+/**
+ * Drug interaction dataset
+ *
+ * What the interaction checker knows: agents (a drug, drug class, supplement
+ * or food, with the words people actually write for it), pairwise
+ * interactions between agents, and agent–condition contraindications. Like
+ * the red-flag rule pack, it ships bundled and can be replaced by a reviewed
+ * version without a store release:
+ *
+ *   bundled default (interactions.default.json) ──┐
+ *   cached server dataset (AsyncStorage) ─────────┼─> validateInteractionDataset() ─> active
+ *   GET /v1/interactions/dataset ─────────────────┘
+ *
+ * A dataset only becomes active after every entry validates, every agent it
+ * references exists and its checksum matches its content. A rejected one
+ * leaves the previous dataset in force, and one older than the bundled
+ * default is refused so a stale cache never rolls back an app update.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { interactionsApi } from '../../services/api/endpoints/interactions';
+import { createLogger } from '../../utils/logger';
+import { compareContentVersions, computeContentChecksum } from '../../utils/contentPack';
+import bundledDatasetJson from './interactions.default.json';
+
+const logger = createLogger('InteractionDataset');
+
+const CACHE_KEY = '@carebow/interaction_dataset';
+
+/** Dataset format this build understands. Bumped only on breaking shape changes. */
+export const INTERACTION_DATASET_SCHEMA_VERSION = 1;
+
+// ============================================
+// TYPES
+// ============================================
+
+export const INTERACTION_SEVERITIES = ['major', 'moderate'] as const;
+
+export type InteractionSeverity = (typeof INTERACTION_SEVERITIES)[number];
+
+export type InteractionAgentDefinition = {
+  id: string;
+  name: string;
+  /** Lowercase words or phrases that name this agent in free text. */
+  terms: string[];
+  /** Broader agents this one belongs to (aspirin is also an NSAID). */
+  classes?: string[];
+  /** Agents an allergy to this one also rules out. */
+  allergyCrossReacts?: string[];
+  /** Shown when a suggestion repeats something already taken. */
+  duplicateWarning?: string;
+};
+
+export type InteractionDefinition = {
+  id: string;
+  between: [string, string];
+  severity: InteractionSeverity;
+  message: string;
+};
+
+export type ContraindicationDefinition = {
+  id: string;
+  agent: string;
+  /** Lowercase words or phrases that name the condition in a health record. */
+  conditionTerms: string[];
+  severity: InteractionSeverity;
+  message: string;
+};
+
+/** The serialized dataset, as bundled or delivered by the server. */
+export type InteractionDatasetDocument = {
+  schemaVersion: number;
+  version: string;
+  publishedAt: string;
+  checksum: string;
+  agents: InteractionAgentDefinition[];
+  interactions: InteractionDefinition[];
+  contraindications: ContraindicationDefinition[];
+};
+
+export type InteractionDatasetSource = 'bundled' | 'cache' | 'server';
+
+/** An agent with its terms compiled into one matcher. */
+export type InteractionAgent = InteractionAgentDefinition & { pattern: RegExp };
+
+export type ConditionRule = ContraindicationDefinition & { pattern: RegExp };
+
+/** A validated dataset, ready for the checker. */
+export type InteractionDataset = {
+  version: string;
+  publishedAt: string;
+  source: InteractionDatasetSource;
+  agents: Map<string, InteractionAgent>;
+  interactions: InteractionDefinition[];
+  contraindications: ConditionRule[];
+};
+
+export type InteractionDatasetValidationResult =
+  | { valid: true; dataset: InteractionDataset }
+  | { valid: false; errors: string[] };
+
+// ============================================
+// CHECKSUM
+// ============================================
+
+/** Checksum over everything but publishedAt and the checksum itself. */
+export function computeInteractionDatasetChecksum(
+  document: Omit<InteractionDatasetDocument, 'publishedAt' | 'checksum'>
+): string {
+  return computeContentChecksum({
+    schemaVersion: document.schemaVersion,
+    version: document.version,
+    agents: document.agents,
+    interactions: document.interactions,
+    contraindications: document.contraindications,
+  });
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isTermList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((term) => isNonEmptyString(term) && term === term.toLowerCase())
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word matcher for a term list: group 1 is the character before the
+ * term (if any), group 2 the term. Longest terms first, so "st john's wort"
+ * wins over any shorter term it contains.
+ */
+export function compileTerms(terms: string[]): RegExp {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => escapeRegExp(term).replace(/\s+/g, '\\s+'));
+  return new RegExp(`(^|[^\\w'])(${alternatives.join('|')})(?![\\w'])`, 'gi');
+}
+
+/** Every whole-word occurrence of a compiled term list in the text. */
+export function findTerms(
+  pattern: RegExp,
+  text: string
+): { term: string; start: number; end: number }[] {
+  return [...text.matchAll(pattern)].map((match) => {
+    const start = (match.index ?? 0) + match[1].length;
+    return { term: match[2], start, end: start + match[2].length };
+  });
+}
+
+function validateAgents(raw: unknown[], errors: string[]): Map<string, InteractionAgent> {
+  const agents = new Map<string, InteractionAgent>();
+  raw.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      errors.push(`agents[${index}] is not an object`);
+      return;
+    }
+    const id = isNonEmptyString(entry.id) ? entry.id : `agents[${index}]`;
+    const startErrors = errors.length;
+    if (!isNonEmptyString(entry.id)) errors.push(`${id}.id must be a non-empty string`);
+    if (!isNonEmptyString(entry.name)) errors.push(`${id}: name must be a non-empty string`);
+    if (!isTermList(entry.terms)) errors.push(`${id}: terms must be non-empty lowercase strings`);
+    for (const key of ['classes', 'allergyCrossReacts'] as const) {
+      if (entry[key] !== undefined && !isTermList(entry[key])) {
+        errors.push(`${id}: ${key} must be a list of agent ids`);
+      }
+    }
+    if (entry.duplicateWarning !== undefined && !isNonEmptyString(entry.duplicateWarning)) {
+      errors.push(`${id}: duplicateWarning must be a non-empty string`);
+    }
+    if (agents.has(id)) errors.push(`${id}: duplicate agent id`);
+    if (errors.length > startErrors) return;
+
+    const definition = entry as unknown as InteractionAgentDefinition;
+    agents.set(id, { ...definition, pattern: compileTerms(definition.terms) });
+  });
+
+  // References are checked once every agent is known, so order does not matter.
+  for (const agent of agents.values()) {
+    for (const ref of [...(agent.classes ?? []), ...(agent.allergyCrossReacts ?? [])]) {
+      if (!agents.has(ref)) errors.push(`${agent.id}: unknown agent "${ref}"`);
+    }
+  }
+  return agents;
+}
+
+function validateSeverityAndMessage(
+  entry: Record<string, unknown>,
+  id: string,
+  errors: string[]
+): void {
+  if (!INTERACTION_SEVERITIES.includes(entry.severity as InteractionSeverity)) {
+    errors.push(`${id}: severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`);
+  }
+  if (!isNonEmptyString(entry.message)) errors.push(`${id}: message must be a non-empty string`);
+}
+
+function validateInteractions(
+  raw: unknown[],
+  agents: Map<string, InteractionAgent>,
+  errors: string[]
+): InteractionDefinition[] {
+  const seen = new Set<string>();
+  return raw.flatMap((entry, index) => {
+    if (!isRecord(entry)) {
+      errors.push(`interactions[${index}] is not an object`);
+      return [];
+    }
+    const id = isNonEmptyString(entry.id) ? entry.id : `interactions[${index}]`;
+    const startErrors = errors.length;
+    if (!isNonEmptyString(entry.id)) errors.push(`${id}.id must be a non-empty string`);
+    if (
+      !Array.isArray(entry.between) ||
+      entry.between.length !== 2 ||
+      entry.between.some((ref) => !agents.has(ref as string))
+    ) {
+      errors.push(`${id}: between must name two known agents`);
+    }
+    validateSeverityAndMessage(entry, id, errors);
+    if (seen.has(id)) errors.push(`${id}: duplicate interaction id`);
+    seen.add(id);
+    return errors.length > startErrors ? [] : [entry as unknown as InteractionDefinition];
+  });
+}
+
+function validateContraindications(
+  raw: unknown[],
+  agents: Map<string, InteractionAgent>,
+  errors: string[]
+): ConditionRule[] {
+  const seen = new Set<string>();
+  return raw.flatMap((entry, index) => {
+    if (!isRecord(entry)) {
+      errors.push(`contraindications[${index}] is not an object`);
+      return [];
+    }
+    const id = isNonEmptyString(entry.id) ? entry.id : `contraindications[${index}]`;
+    const startErrors = errors.length;
+    if (!isNonEmptyString(entry.id)) errors.push(`${id}.id must be a non-empty string`);
+    if (!agents.has(entry.agent as string)) errors.push(`${id}: unknown agent "${entry.agent}"`);
+    if (!isTermList(entry.conditionTerms)) {
+      errors.push(`${id}: conditionTerms must be non-empty lowercase strings`);
+    }
+    validateSeverityAndMessage(entry, id, errors);
+    if (seen.has(id)) errors.push(`${id}: duplicate contraindication id`);
+    seen.add(id);
+    if (errors.length > startErrors) return [];
+
+    const definition = entry as unknown as ContraindicationDefinition;
+    return [{ ...definition, pattern: compileTerms(definition.conditionTerms) }];
+  });
+}
+
+/**
+ * Validate a dataset document and compile its matchers. Collects every
+ * problem rather than stopping at the first, so a reviewer sees the whole list.
+ */
+export function validateInteractionDataset(
+  input: unknown,
+  source: InteractionDatasetSource = 'server'
+): InteractionDatasetValidationResult {
+  if (!isRecord(input)) {
+    return { valid: false, errors: ['Interaction dataset is not an object'] };
+  }
+
+  const errors: string[] = [];
+  if (input.schemaVersion !== INTERACTION_DATASET_SCHEMA_VERSION) {
+    errors.push(
+      `Unsupported schemaVersion ${String(input.schemaVersion)} (expected ${INTERACTION_DATASET_SCHEMA_VERSION})`
+    );
+  }
+  if (!isNonEmptyString(input.version)) errors.push('version must be a non-empty string');
+  if (!isNonEmptyString(input.publishedAt) || Number.isNaN(Date.parse(input.publishedAt))) {
+    errors.push('publishedAt must be an ISO date string');
+  }
+  if (!isNonEmptyString(input.checksum)) errors.push('checksum must be a non-empty string');
+  if (!Array.isArray(input.agents) || input.agents.length === 0) {
+    errors.push('agents must be a non-empty array');
+  }
+  if (!Array.isArray(input.interactions)) errors.push('interactions must be an array');
+  if (!Array.isArray(input.contraindications)) errors.push('contraindications must be an array');
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  const agents = validateAgents(input.agents as unknown[], errors);
+  const interactions = validateInteractions(input.interactions as unknown[], agents, errors);
+  const contraindications = validateContraindications(
+    input.contraindications as unknown[],
+    agents,
+    errors
+  );
+
+  const expected = computeInteractionDatasetChecksum(
+    input as unknown as InteractionDatasetDocument
+  );
+  if (input.checksum !== expected) {
+    errors.push(
+      `checksum mismatch (dataset says ${String(input.checksum)}, content is ${expected})`
+    );
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  return {
+    valid: true,
+    dataset: {
+      version: input.version as string,
+      publishedAt: input.publishedAt as string,
+      source,
+      agents,
+      interactions,
+      contraindications,
+    },
+  };
+}
+
+// ============================================
+// ACTIVE DATASET
+// ============================================
+
+function loadBundledDataset(): InteractionDataset {
+  const result = validateInteractionDataset(bundledDatasetJson, 'bundled');
+  if (!result.valid) {
+    // Caught by the dataset tests long before a build ships.
+    throw new Error(`Bundled interaction dataset is invalid: ${result.errors.join('; ')}`);
+  }
+  return result.dataset;
+}
+
+export const BUNDLED_INTERACTION_DATASET: InteractionDataset = loadBundledDataset();
+
+let activeDataset: InteractionDataset = BUNDLED_INTERACTION_DATASET;
+
+/** The dataset the checker evaluates against right now. */
+export function getActiveInteractionDataset(): InteractionDataset {
+  return activeDataset;
+}
+
+/**
+ * Validate and activate a dataset. A refused dataset leaves the current one
+ * in force; the result says why it was refused.
+ */
+export function applyInteractionDataset(
+  input: unknown,
+  source: InteractionDatasetSource = 'server'
+): InteractionDatasetValidationResult {
+  const result = validateInteractionDataset(input, source);
+  if (!result.valid) return result;
+
+  if (compareContentVersions(result.dataset.version, BUNDLED_INTERACTION_DATASET.version) < 0) {
+    return {
+      valid: false,
+      errors: [
+        `version ${result.dataset.version} is older than bundled ${BUNDLED_INTERACTION_DATASET.version}`,
+      ],
+    };
+  }
+
+  activeDataset = result.dataset;
+  return result;
+}
+
+/** Drop any override and go back to the bundled default. */
+export function resetInteractionDataset(): void {
+  activeDataset = BUNDLED_INTERACTION_DATASET;
+}
+
+/**
+ * Hydrate the dataset at launch. Never throws and never blocks: until this
+ * lands, and whenever it fails, checks run on the bundled default.
+ */
+export async function hydrateInteractionDataset(): Promise<InteractionDatasetSource> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const cached = applyInteractionDataset(JSON.parse(raw), 'cache');
+      if (!cached.valid) {
+        logger.warn('Cached interaction dataset rejected', cached.errors);
+        await AsyncStorage.removeItem(CACHE_KEY).catch(() => {});
+      }
+    }
+  } catch {
+    // Unreadable cache entry — treat as a miss.
+  }
+
+  try {
+    const document = await interactionsApi.getDataset();
+    if (document) {
+      const result = applyInteractionDataset(document, 'server');
+      if (result.valid) {
+        AsyncStorage.setItem(CACHE_KEY, JSON.stringify(document)).catch(() => {});
+        return 'server';
+      }
+      logger.warn('Server interaction dataset rejected', result.errors);
+    }
+  } catch (error) {
+    logger.warn('Interaction dataset fetch failed; keeping current dataset', error);
+  }
+
+  return activeDataset.source;
+}
@@ -0,0 +1,68 @@
+import { measureText, renderPdf, toWinAnsi, wrapText } from './pdf';
+
+function asText(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+describe('toWinAnsi', () => {
+  it('keeps Latin-1, maps typographic punctuation and replaces the rest', () => {
+    expect(toWinAnsi('Café – “ok”')).toBe('Caf\xe9 \x96 \x93ok\x94');
+    expect(toWinAnsi('SOS 🚨 发送')).toBe('SOS ? ??');
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks at spaces so no line is wider than allowed', () => {
+    const text = 'Contacts were notified by SMS and the live location link stayed open';
+    const lines = wrapText(text, 'F1', 10, 120);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(text);
+    for (const line of lines) {
+      expect(measureText(line, 'F1', 10)).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it('splits words too long for a line and keeps explicit line breaks', () => {
+    const lines = wrapText('https://maps.google.com/?q=40.712800,-74.006000\nnext', 'F1', 10, 80);
+
+    expect(lines.slice(0, -1).join('')).toBe('https://maps.google.com/?q=40.712800,-74.006000');
+    expect(lines[lines.length - 1]).toBe('next');
+  });
+});
+
+describe('renderPdf', () => {
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const pdf = asText(
+      renderPdf([{ kind: 'text', text: 'Incident (draft)', style: 'title' }], {
+        title: 'Report',
+        createdAt: new Date('2026-03-01T10:00:00Z'),
+      })
+    );
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Incident \\(draft\\)) Tj');
+    expect(pdf).toContain('/CreationDate (D:20260301100000Z)');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('starts new pages when the text runs long and numbers them', () => {
+    const blocks = Array.from({ length: 120 }, (_, i) => ({
+      kind: 'text' as const,
+      text: `Event ${i + 1}`,
+    }));
+    const pdf = asText(renderPdf(blocks, { title: 'Report' }));
+
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('(Page 3 of 3) Tj');
+    expect(pdf).toContain('(Event 120) Tj');
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * PDF Writer
+ *
+ * Lays out plain text documents — titles, headings, wrapped paragraphs and
+ * rules — on A4 pages and writes them as a PDF 1.4 file. It uses only the
+ * standard Helvetica fonts every PDF reader ships with, so nothing is
+ * embedded and the output stays small enough to share from the device.
+ *
+ * Text is encoded as WinAnsi: Latin-1 plus typographic quotes and dashes.
+ * Anything outside that set prints as "?". Pure: sharing lives in
+ * `utils/fileShare`.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfTextStyle = 'title' | 'heading' | 'body' | 'bold' | 'muted';
+
+export type PdfBlock =
+  | { kind: 'text'; text: string; style?: PdfTextStyle }
+  | { kind: 'spacer'; height?: number }
+  | { kind: 'rule' };
+
+export type PdfDocumentInfo = {
+  title: string;
+  author?: string;
+  createdAt?: Date;
+};
+
+// ============================================
+// LAYOUT
+// ============================================
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+const CONTENT_BOTTOM = MARGIN + FOOTER_SIZE * 3;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+type FontKey = 'F1' | 'F2';
+
+const STYLES: Record<PdfTextStyle, { font: FontKey; size: number; gray: number }> = {
+  title: { font: 'F2', size: 18, gray: 0 },
+  heading: { font: 'F2', size: 13, gray: 0 },
+  body: { font: 'F1', size: 10, gray: 0 },
+  bold: { font: 'F2', size: 10, gray: 0 },
+  muted: { font: 'F1', size: 9, gray: 0.4 },
+};
+
+const LINE_HEIGHT = 1.35;
+
+// Glyph widths for ASCII 32–126 in 1/1000 em, from the Adobe font metrics.
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Wide enough for any accented Latin-1 letter, so wrapped lines never overflow. */
+const FALLBACK_WIDTH = 722;
+
+/** Characters WinAnsi places in 0x80–0x9F instead of Latin-1's control codes. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+// ============================================
+// TEXT
+// ============================================
+
+/** Map text to WinAnsi codes, one character per byte. */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff))) {
+      out += char;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      out += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (char === '\t') {
+      out += ' ';
+    } else {
+      out += '?';
+    }
+  }
+  return out;
+}
+
+/** Width in points of WinAnsi-encoded text. */
+export function measureText(encoded: string, font: FontKey, size: number): number {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Break encoded text into lines no wider than `maxWidth`, at spaces where it
+ * can and mid-word for words that do not fit a line on their own.
+ */
+export function wrapText(encoded: string, font: FontKey, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of encoded.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function escapePdfString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// ============================================
+// PAGES
+// ============================================
+
+type PageOp = string;
+
+/** Place blocks top to bottom, starting a new page when one is full. */
+function layoutPages(blocks: PdfBlock[]): PageOp[][] {
+  const pages: PageOp[][] = [[]];
+  const ops = () => pages[pages.length - 1];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureRoom = (height: number) => {
+    if (y - height < CONTENT_BOTTOM && ops().length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'spacer') {
+      y -= block.height ?? 8;
+      continue;
+    }
+
+    if (block.kind === 'rule') {
+      ensureRoom(8);
+      y -= 4;
+      ops().push(
+        `0.8 G 0.5 w ${MARGIN} ${formatNumber(y)} m ${PAGE_WIDTH - MARGIN} ${formatNumber(y)} l S`
+      );
+      y -= 4;
+      continue;
+    }
+
+    const style = STYLES[block.style ?? 'body'];
+    const lineHeight = style.size * LINE_HEIGHT;
+    for (const line of wrapText(toWinAnsi(block.text), style.font, style.size, CONTENT_WIDTH)) {
+      ensureRoom(lineHeight);
+      y -= lineHeight;
+      ops().push(
+        `BT /${style.font} ${style.size} Tf ${style.gray} g ${MARGIN} ${formatNumber(
+          y
+        )} Td (${escapePdfString(line)}) Tj ET`
+      );
+    }
+  }
+
+  return pages;
+}
+
+function footerOps(title: string, pageNumber: number, pageCount: number): PageOp[] {
+  const y = MARGIN;
+  const label = toWinAnsi(`Page ${pageNumber} of ${pageCount}`);
+  const labelX = PAGE_WIDTH - MARGIN - measureText(label, 'F1', FOOTER_SIZE);
+  const heading = wrapText(toWinAnsi(title), 'F1', FOOTER_SIZE, CONTENT_WIDTH / 2)[0] ?? '';
+  return [
+    `BT /F1 ${FOOTER_SIZE} Tf 0.4 g ${MARGIN} ${y} Td (${escapePdfString(heading)}) Tj ET`,
+    `BT /F1 ${FOOTER_SIZE} Tf 0.4 g ${formatNumber(labelX)} ${y} Td (${escapePdfString(
+      label
+    )}) Tj ET`,
+  ];
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+// ============================================
+// FILE
+// ============================================
+
+/**
+ * Render blocks as a PDF file. Every page carries the document title and a
+ * page number in its footer.
+ */
+export function renderPdf(blocks: PdfBlock[], info: PdfDocumentInfo): Uint8Array {
+  const pages = layoutPages(blocks);
+  const objects: string[] = [];
+
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 document info, then a page and its content per page.
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+      pages.length
+    } >>`
+  );
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  );
+  const infoEntries = [
+    `/Title (${escapePdfString(toWinAnsi(info.title))})`,
+    info.author ? `/Author (${escapePdfString(toWinAnsi(info.author))})` : null,
+    `/Producer (CareBow)`,
+    info.createdAt ? `/CreationDate (${formatPdfDate(info.createdAt)})` : null,
+  ].filter(Boolean);
+  objects.push(`<< ${infoEntries.join(' ')} >>`);
+
+  pages.forEach((ops, index) => {
+    const content = [...ops, ...footerOps(info.title, index + 1, pages.length)].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is one byte, so string offsets are byte offsets.
+  let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(file.length);
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    file += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  file += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(file.length);
+  for (let i = 0; i < file.length; i++) {
+    bytes[i] = file.charCodeAt(i);
+  }
+  return bytes;
+}
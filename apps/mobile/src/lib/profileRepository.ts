@@ -8,6 +8,7 @@ import {
   type Relationship,
 } from '../types/profile';
 import { useProfileStore } from '../store/useProfileStore';
+import { hasPendingWrite } from '../store/useOutboxStore';
 import { profilesApi, type V1Profile } from '../services/api/endpoints/profiles';
 import { buildBackendProfilePayload } from './profileSync';
 
@@ -144,6 +145,8 @@ export async function persistMemberSnapshot(member: FamilyMember): Promise<strin
 
   if (member.backendId) {
     const response = await profilesApi.updateProfile(member.backendId, payload);
+    // Queued offline edits are saved on the device and replayed on reconnect.
+    if (response.queued) return member.backendId;
     if (!response.success || !response.profile) {
       throw new Error(response.error || 'CareBow could not save this patient profile.');
     }
@@ -173,6 +176,9 @@ export async function hydrateOwnedProfilesFromServer(userId: string): Promise<vo
     const existing = state.members.find(
       (member) => member.backendId === profile.id || member.id === profile.id
     );
+    // Don't overwrite an edit that is still waiting in the offline outbox.
+    if (existing && hasPendingWrite(`profile:${profile.id}`)) continue;
+
     const input = memberInputFromBackend(profile, existing);
 
     if (existing) {
@@ -9,6 +9,8 @@
  */
 
 import { useProfileStore } from '../store/useProfileStore';
+import { hasPendingWrite } from '../store/useOutboxStore';
+import { ApiClient } from '../services/api/ApiClient';
 import { profilesApi } from '../services/api/endpoints/profiles';
 import { FamilyMember, Gender, Relationship, RELATIONSHIP_LABELS } from '../types/profile';
 
@@ -135,7 +137,14 @@ export async function ensureBackendProfile(memberId: string): Promise<string> {
 
   if (member.backendId) {
     const response = await profilesApi.updateProfile(member.backendId, payload);
-    if (!response.success || !response.profile) {
+    if (response.queued) {
+      // Queued behind earlier offline writes; callers need the server copy
+      // current, so replay the queue now rather than later.
+      await ApiClient.flushOutbox();
+      if (hasPendingWrite(`profile:${member.backendId}`)) {
+        throw new Error('This patient profile has changes that have not synced yet.');
+      }
+    } else if (!response.success || !response.profile) {
       throw new Error(response.error || 'Unable to sync the patient profile.');
     }
     return member.backendId;
@@ -0,0 +1,144 @@
+import { calculatePrice } from '@/data/services';
+import type { V1Booking } from '@/services/api/endpoints/member';
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  expandRecurrence,
+  groupBookingsBySeries,
+  seriesFromSlot,
+  seriesScheduledAt,
+} from './recurringCare';
+
+// 2026-08-03 is a Monday.
+const MONDAY = '2026-08-03';
+
+describe('expandRecurrence', () => {
+  it('books every weekday for four weeks', () => {
+    const dates = expandRecurrence(MONDAY, { weekdays: WEEKDAYS, weeks: 4 });
+
+    expect(dates).toHaveLength(20);
+    expect(dates[0]).toBe('2026-08-03');
+    expect(dates[4]).toBe('2026-08-07');
+    expect(dates[5]).toBe('2026-08-10');
+    expect(dates[19]).toBe('2026-08-28');
+  });
+
+  it('starts on the first matching day and runs seven days per week', () => {
+    expect(expandRecurrence('2026-08-04', { weekdays: [1, 3, 5], weeks: 1 })).toEqual([
+      '2026-08-05',
+      '2026-08-07',
+      '2026-08-10',
+    ]);
+  });
+
+  it('does not skip or repeat days across a daylight-saving change', () => {
+    const dates = expandRecurrence('2026-10-19', { weekdays: [0, 1, 2, 3, 4, 5, 6], weeks: 2 });
+
+    expect(dates).toHaveLength(14);
+    expect(new Set(dates).size).toBe(14);
+    expect(dates).toContain('2026-10-25');
+  });
+
+  it('returns nothing for a rule with no days or an invalid date', () => {
+    expect(expandRecurrence(MONDAY, { weekdays: [], weeks: 4 })).toEqual([]);
+    expect(expandRecurrence('next monday', { weekdays: WEEKDAYS, weeks: 4 })).toEqual([]);
+  });
+});
+
+describe('seriesScheduledAt', () => {
+  it('keeps the same local time of day for every visit', () => {
+    const times = seriesScheduledAt(MONDAY, { weekdays: [1, 3, 5], weeks: 1 }, '09:00');
+
+    expect(times.map((time) => new Date(time).getHours())).toEqual([9, 9, 9]);
+  });
+});
+
+describe('seriesFromSlot', () => {
+  it('repeats the slot instant on each visit date', () => {
+    // 09:30 in Kolkata on the Monday.
+    const times = seriesFromSlot(
+      MONDAY,
+      { weekdays: [1, 3], weeks: 1 },
+      '2026-08-03T04:00:00.000Z',
+      'Asia/Kolkata'
+    );
+
+    expect(times).toEqual(['2026-08-03T04:00:00.000Z', '2026-08-05T04:00:00.000Z']);
+  });
+
+  it('keeps the care team time of day across a daylight-saving change', () => {
+    // 09:00 in New York on Friday 30 October; clocks go back on Sunday.
+    const times = seriesFromSlot(
+      '2026-10-30',
+      { weekdays: [1, 5], weeks: 1 },
+      '2026-10-30T13:00:00.000Z',
+      'America/New_York'
+    );
+
+    expect(times).toEqual(['2026-10-30T13:00:00.000Z', '2026-11-02T14:00:00.000Z']);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names common patterns', () => {
+    expect(describeRecurrence({ weekdays: WEEKDAYS, weeks: 4 })).toBe('Every weekday for 4 weeks');
+    expect(describeRecurrence({ weekdays: [5, 1, 3], weeks: 1 })).toBe(
+      'Every Mon, Wed, Fri for 1 week'
+    );
+  });
+});
+
+describe('series pricing', () => {
+  const packages = {
+    type: 'packages' as const,
+    packages: [{ id: 'p1', label: '1 Session', price: 40, originalPrice: 50 }],
+  };
+
+  it('charges the selection once per visit', () => {
+    expect(calculatePrice(packages, { packageId: 'p1', visits: 12 })).toEqual({
+      subtotal: 600,
+      discount: 120,
+      total: 480,
+      label: '1 Session × 12 visits',
+    });
+  });
+
+  it('prices a daily service one day per visit', () => {
+    const daily = { type: 'daily' as const, dailyRate: 25, minDays: 7 };
+
+    expect(calculatePrice(daily, { days: 7, visits: 20 }).total).toBe(500);
+  });
+
+  it('leaves a quote for CareBow to confirm', () => {
+    expect(calculatePrice({ type: 'quote' }, { visits: 12 }).label).toBe(
+      'Price confirmed by CareBow'
+    );
+  });
+});
+
+describe('groupBookingsBySeries', () => {
+  const rule = { weekdays: [1, 3, 5], weeks: 1 };
+  const visit = (id: string, seriesId?: string): V1Booking =>
+    ({
+      id,
+      scheduledAt: '2026-08-03T09:00:00Z',
+      status: 'CONFIRMED',
+      amount: 0,
+      series: seriesId ? { id: seriesId, rule, position: 1, visitCount: 3 } : null,
+    }) as V1Booking;
+
+  it('collapses each series where its first visit appears', () => {
+    const groups = groupBookingsBySeries([
+      visit('a', 'ser_1'),
+      visit('single'),
+      visit('b', 'ser_1'),
+      visit('c', 'ser_2'),
+    ]);
+
+    expect(
+      groups.map((group) =>
+        group.kind === 'series' ? group.bookings.map((b) => b.id) : group.booking.id
+      )
+    ).toEqual([['a', 'b'], 'single', ['c']]);
+  });
+});
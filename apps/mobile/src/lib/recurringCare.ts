@@ -0,0 +1,128 @@
+/**
+ * Recurring care
+ *
+ * A recurring booking is a series of ordinary bookings that share a rule:
+ * every weekday for 4 weeks, Mon/Wed/Fri at 09:00. The draft holds the rule;
+ * checkout expands it into one visit per day, and the server creates one
+ * booking per visit so each can be moved or cancelled on its own.
+ *
+ * Dates here are calendar dates (YYYY-MM-DD) and are stepped in UTC so a
+ * daylight-saving change can never skip or repeat a day.
+ */
+
+import type { RecurrenceRule } from '@/data/types';
+import type { V1Booking, V1BookingSeries } from '@/services/api/endpoints/member';
+import { zonedInstant, zonedParts } from './availability';
+
+export const MAX_SERIES_WEEKS = 12;
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const parsed = new Date(`${date}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function sameDays(a: number[], b: number[]): boolean {
+  return a.length === b.length && b.every((day) => a.includes(day));
+}
+
+/** Day of the week for a YYYY-MM-DD date, 0 = Sunday. */
+export function weekdayOf(date: string): number | null {
+  return parseDate(date)?.getUTCDay() ?? null;
+}
+
+/** Every visit date in the series, starting on or after `startDate`. */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  const start = parseDate(startDate);
+  if (!start || rule.weeks < 1) return [];
+
+  const weeks = Math.min(rule.weeks, MAX_SERIES_WEEKS);
+  const dates: string[] = [];
+  for (let offset = 0; offset < weeks * 7; offset++) {
+    const day = new Date(start.getTime() + offset * DAY_MS);
+    if (rule.weekdays.includes(day.getUTCDay())) {
+      dates.push(day.toISOString().slice(0, 10));
+    }
+  }
+  return dates;
+}
+
+/**
+ * The `scheduledAt` of every visit. Like a single booking, each visit is the
+ * customer's local date and time; `time` falls back to the same noon anchor
+ * checkout uses for date-only services.
+ */
+export function seriesScheduledAt(
+  startDate: string,
+  rule: RecurrenceRule,
+  time: string | null
+): string[] {
+  return expandRecurrence(startDate, rule).map((date) =>
+    new Date(`${date}T${time || '12:00'}:00`).toISOString()
+  );
+}
+
+/**
+ * The `scheduledAt` of every visit when the first is a published slot. Later
+ * visits keep the slot's time of day on the care team's clock in `timeZone`,
+ * across daylight-saving changes; the server checks each against its
+ * availability.
+ */
+export function seriesFromSlot(
+  startDate: string,
+  rule: RecurrenceRule,
+  startsAt: string,
+  timeZone: string
+): string[] {
+  const { time } = zonedParts(startsAt, timeZone);
+  return expandRecurrence(startDate, rule).map((date) => zonedInstant(date, time, timeZone));
+}
+
+/** "Every weekday", "Every Mon, Wed, Fri". */
+export function describeWeekdays(weekdays: number[]): string {
+  if (sameDays(weekdays, EVERY_DAY)) return 'Every day';
+  if (sameDays(weekdays, WEEKDAYS)) return 'Every weekday';
+  const days = [...weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]);
+  return `Every ${days.join(', ')}`;
+}
+
+/** "Every weekday for 4 weeks". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  return `${describeWeekdays(rule.weekdays)} for ${rule.weeks} week${rule.weeks === 1 ? '' : 's'}`;
+}
+
+export type BookingGroup =
+  | { kind: 'single'; booking: V1Booking }
+  | { kind: 'series'; series: V1BookingSeries; bookings: V1Booking[] };
+
+/**
+ * Collapse the visits of each series into one group, placed where its first
+ * visit appears. Visits keep the caller's order, so sort before grouping.
+ */
+export function groupBookingsBySeries(bookings: V1Booking[]): BookingGroup[] {
+  const groups: BookingGroup[] = [];
+  const seriesGroups = new Map<string, Extract<BookingGroup, { kind: 'series' }>>();
+
+  for (const booking of bookings) {
+    if (!booking.series) {
+      groups.push({ kind: 'single', booking });
+      continue;
+    }
+    const existing = seriesGroups.get(booking.series.id);
+    if (existing) {
+      existing.bookings.push(booking);
+      continue;
+    }
+    const group = { kind: 'series' as const, series: booking.series, bookings: [booking] };
+    seriesGroups.set(booking.series.id, group);
+    groups.push(group);
+  }
+  return groups;
+}
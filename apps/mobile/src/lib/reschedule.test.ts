@@ -0,0 +1,128 @@
+import type { V1Booking, V1RescheduleQuote } from '@/services/api/endpoints/member';
+import {
+  canReschedule,
+  describeBookingEvent,
+  describeReschedulePolicy,
+  describeRescheduleQuote,
+} from './reschedule';
+
+const VISIT = '2026-08-03T04:00:00.000Z';
+const HOUR_MS = 60 * 60 * 1000;
+
+const booking = (overrides: Partial<V1Booking> = {}): V1Booking => ({
+  id: 'bk_1',
+  scheduledAt: VISIT,
+  status: 'CONFIRMED',
+  amount: 120000,
+  currency: 'INR',
+  reschedulePolicy: { cutoffHours: 24, feeMinor: 0, movesLeft: null },
+  ...overrides,
+});
+
+const quote = (overrides: Partial<V1RescheduleQuote> = {}): V1RescheduleQuote => ({
+  allowed: true,
+  feeMinor: 0,
+  fareDifferenceMinor: 0,
+  amountDueMinor: 0,
+  refundMinor: 0,
+  currency: 'INR',
+  ...overrides,
+});
+
+describe('canReschedule', () => {
+  it('allows a move until the cutoff window opens', () => {
+    const dayAndAHalfBefore = Date.parse(VISIT) - 36 * HOUR_MS;
+
+    expect(canReschedule(booking(), dayAndAHalfBefore)).toEqual({
+      ok: true,
+      cutoffAt: '2026-08-02T04:00:00.000Z',
+    });
+  });
+
+  it('refuses inside the cutoff window', () => {
+    const result = canReschedule(booking(), Date.parse(VISIT) - 2 * HOUR_MS);
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? '' : result.reason).toContain('24 hours before the visit');
+  });
+
+  it('refuses when no moves are left or the booking is over', () => {
+    const early = Date.parse(VISIT) - 72 * HOUR_MS;
+
+    expect(
+      canReschedule(
+        booking({ reschedulePolicy: { cutoffHours: 24, feeMinor: 0, movesLeft: 0 } }),
+        early
+      ).ok
+    ).toBe(false);
+    expect(canReschedule(booking({ status: 'COMPLETED' }), early).ok).toBe(false);
+    expect(canReschedule(booking({ reschedulePolicy: null }), early).ok).toBe(false);
+  });
+
+  it('leaves the decision to the server when no policy is published', () => {
+    const early = Date.parse(VISIT) - 72 * HOUR_MS;
+
+    expect(canReschedule(booking({ reschedulePolicy: undefined }), early)).toEqual({
+      ok: true,
+      cutoffAt: null,
+    });
+  });
+});
+
+describe('describeReschedulePolicy', () => {
+  it('states the window, the fee and the moves left', () => {
+    expect(describeReschedulePolicy({ cutoffHours: 24, feeMinor: 0 })).toBe(
+      'Free to move until 24 hours before the visit.'
+    );
+    expect(
+      describeReschedulePolicy({ cutoffHours: 12, feeMinor: 20000, movesLeft: 1 }, 'INR')
+    ).toBe('Moving costs ₹200, until 12 hours before the visit. 1 move left.');
+  });
+});
+
+describe('describeRescheduleQuote', () => {
+  it('explains what is paid before the move', () => {
+    expect(
+      describeRescheduleQuote(
+        quote({ feeMinor: 20000, fareDifferenceMinor: 15000, amountDueMinor: 35000 })
+      )
+    ).toBe('You pay ₹350 before the move: a ₹200 fee and ₹150 more for this time.');
+  });
+
+  it('explains a refund for a cheaper time', () => {
+    expect(
+      describeRescheduleQuote(quote({ fareDifferenceMinor: -15000, refundMinor: 15000 }))
+    ).toBe('₹150 comes back to you because this time costs less.');
+  });
+
+  it('says when a move is free or refused', () => {
+    expect(describeRescheduleQuote(quote())).toBe('Moving to this time is free.');
+    expect(describeRescheduleQuote(quote({ allowed: false, reason: 'No nurse free then' }))).toBe(
+      'No nurse free then'
+    );
+  });
+});
+
+describe('describeBookingEvent', () => {
+  it('names who changed the booking', () => {
+    expect(describeBookingEvent({ status: 'PENDING', at: VISIT, actor: 'customer' })).toBe(
+      'Requested by you'
+    );
+    expect(describeBookingEvent({ status: 'CONFIRMED', at: VISIT, actor: 'provider' })).toBe(
+      'Confirmed by your provider'
+    );
+    expect(describeBookingEvent({ status: 'IN_PROGRESS', at: VISIT })).toBe('In progress');
+  });
+
+  it('describes a move', () => {
+    const text = describeBookingEvent({
+      status: 'CONFIRMED',
+      at: VISIT,
+      actor: 'care_team',
+      rescheduledFrom: VISIT,
+      rescheduledTo: '2026-08-04T04:00:00.000Z',
+    });
+
+    expect(text).toMatch(/^Moved by the care team from .+ to .+$/);
+  });
+});
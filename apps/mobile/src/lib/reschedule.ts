@@ -0,0 +1,116 @@
+/**
+ * Rescheduling
+ *
+ * The server owns the policy and prices every move (see
+ * memberApi.quoteReschedule). These helpers only explain it: whether the app
+ * should offer a move at all, what the policy is, what a quote means for the
+ * customer's money, and how each change reads in a booking's history.
+ */
+
+import { formatMinor } from '@/data/countries';
+import type {
+  V1Booking,
+  V1BookingEvent,
+  V1ReschedulePolicy,
+  V1RescheduleQuote,
+} from '@/services/api/endpoints/member';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type RescheduleCheck = { ok: true; cutoffAt: string | null } | { ok: false; reason: string };
+
+/**
+ * Whether to offer a move. A pass here is not a promise: the quote for the
+ * chosen time can still refuse it.
+ */
+export function canReschedule(booking: V1Booking, now: number = Date.now()): RescheduleCheck {
+  if (booking.status !== 'PENDING' && booking.status !== 'CONFIRMED') {
+    return { ok: false, reason: 'Only upcoming bookings can be moved.' };
+  }
+  const policy = booking.reschedulePolicy;
+  if (policy === null) {
+    return { ok: false, reason: 'This booking can only be changed by the care team.' };
+  }
+  if (!policy) return { ok: true, cutoffAt: null };
+  if (policy.movesLeft === 0) {
+    return { ok: false, reason: 'This booking has been moved as many times as allowed.' };
+  }
+  const cutoff = Date.parse(booking.scheduledAt) - policy.cutoffHours * HOUR_MS;
+  if (now >= cutoff) {
+    const window = hours(policy.cutoffHours);
+    return {
+      ok: false,
+      reason: `Bookings can be moved up to ${window} before the visit. Contact the care team to change it now.`,
+    };
+  }
+  return { ok: true, cutoffAt: new Date(cutoff).toISOString() };
+}
+
+/** "Free to move until 24 hours before the visit. 1 move left." */
+export function describeReschedulePolicy(
+  policy: V1ReschedulePolicy,
+  currency: string = 'INR'
+): string {
+  const window = `until ${hours(policy.cutoffHours)} before the visit`;
+  const base =
+    policy.feeMinor > 0
+      ? `Moving costs ${formatMinor(policy.feeMinor, currency)}, ${window}.`
+      : `Free to move ${window}.`;
+  if (policy.movesLeft == null) return base;
+  return `${base} ${policy.movesLeft} move${policy.movesLeft === 1 ? '' : 's'} left.`;
+}
+
+/** What the customer pays or gets back for this move, in one or two sentences. */
+export function describeRescheduleQuote(quote: V1RescheduleQuote): string {
+  const money = (amount: number) => formatMinor(amount, quote.currency ?? 'INR');
+  if (!quote.allowed) return quote.reason || 'This time cannot be booked.';
+
+  const parts: string[] = [];
+  if (quote.amountDueMinor > 0) {
+    const why = [
+      quote.feeMinor > 0 ? `a ${money(quote.feeMinor)} fee` : null,
+      quote.fareDifferenceMinor > 0
+        ? `${money(quote.fareDifferenceMinor)} more for this time`
+        : null,
+    ].filter(Boolean);
+    const reasons = why.length ? `: ${why.join(' and ')}` : '';
+    parts.push(`You pay ${money(quote.amountDueMinor)} before the move${reasons}.`);
+  }
+  if (quote.refundMinor > 0) {
+    parts.push(`${money(quote.refundMinor)} comes back to you because this time costs less.`);
+  }
+  return parts.length ? parts.join(' ') : 'Moving to this time is free.';
+}
+
+const ACTORS: Record<NonNullable<V1BookingEvent['actor']>, string> = {
+  customer: 'you',
+  provider: 'your provider',
+  care_team: 'the care team',
+  system: 'CareBow',
+};
+
+/** "Moved by you from 3 Aug, 9:00 am to 4 Aug, 9:00 am", "Confirmed by your provider". */
+export function describeBookingEvent(event: V1BookingEvent): string {
+  const by = event.actor ? ` by ${ACTORS[event.actor]}` : '';
+  if (event.rescheduledFrom && event.rescheduledTo) {
+    const from = formatWhen(event.rescheduledFrom);
+    return `Moved${by} from ${from} to ${formatWhen(event.rescheduledTo)}`;
+  }
+  const status = event.status.toLowerCase().replace(/_/g, ' ');
+  const label =
+    event.status === 'PENDING' ? 'Requested' : status.charAt(0).toUpperCase() + status.slice(1);
+  return `${label}${by}`;
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function hours(count: number): string {
+  return `${count} hour${count === 1 ? '' : 's'}`;
+}
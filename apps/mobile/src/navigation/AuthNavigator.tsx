@@ -16,6 +16,7 @@ import {
   ForgotPasswordScreen,
   ResetPasswordScreen,
 } from '@/screens/auth';
+import MedicalIdScreen from '@/screens/safety/MedicalIdScreen';
 
 const Stack = createNativeStackNavigator<AuthStackParamList>();
 
@@ -41,6 +42,7 @@ export default function AuthNavigator() {
       <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
       <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
       <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <Stack.Screen name="MedicalId" component={MedicalIdScreen} />
     </Stack.Navigator>
   );
 }
@@ -12,6 +12,12 @@ import { colors } from '../theme';
 import SafetyIndexScreen from '../screens/safety/SafetyIndexScreen';
 import SafetySettingsScreen from '../screens/safety/SafetySettingsScreen';
 import SafetyContactsScreen from '../screens/safety/SafetyContactsScreen';
+import CaregiverMonitorScreen from '../screens/safety/CaregiverMonitorScreen';
+import MedicalIdScreen from '../screens/safety/MedicalIdScreen';
+import MedicalIdEditorScreen from '../screens/safety/MedicalIdEditorScreen';
+import SafeZonesScreen from '../screens/safety/SafeZonesScreen';
+import SafeZoneEditorScreen from '../screens/safety/SafeZoneEditorScreen';
+import IncidentReportScreen from '../screens/safety/IncidentReportScreen';
 
 const Stack = createNativeStackNavigator<SafetyStackParamList>();
 
@@ -44,6 +50,48 @@ export default function SafetyStackNavigator() {
           animation: 'default',
         }}
       />
+      <Stack.Screen
+        name="CaregiverMonitor"
+        component={CaregiverMonitorScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
+      <Stack.Screen
+        name="MedicalId"
+        component={MedicalIdScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
+      <Stack.Screen
+        name="MedicalIdEditor"
+        component={MedicalIdEditorScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
+      <Stack.Screen
+        name="SafeZones"
+        component={SafeZonesScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
+      <Stack.Screen
+        name="SafeZoneEditor"
+        component={SafeZoneEditorScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
+      <Stack.Screen
+        name="IncidentReport"
+        component={IncidentReportScreen}
+        options={{
+          animation: 'default',
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -11,6 +11,7 @@ import { colors } from '@/theme';
 
 import { useAuthStore, isProviderUserType } from '@/store/useAuthStore';
 import { hydrateOwnedProfilesFromServer } from '@/lib/profileRepository';
+import { onOutboxEvent } from '@/services/api/outbox';
 
 import AuthNavigator from './AuthNavigator';
 import OnboardingNavigator from './OnboardingNavigator';
@@ -28,6 +29,7 @@ import ServiceDetailsScreen from '../screens/ServiceDetailsScreen';
 import CarePlansScreen from '../screens/CarePlansScreen';
 import PlanDetailsScreen from '../screens/PlanDetailsScreen';
 import CheckoutScreen from '../screens/CheckoutScreen';
+import CartScreen from '../screens/CartScreen';
 import OrderSuccessScreen from '../screens/OrderSuccessScreen';
 import OrdersScreen from '../screens/OrdersScreen';
 import OrderDetailsScreen from '../screens/OrderDetailsScreen';
@@ -80,6 +82,18 @@ export default function RootNavigator() {
     });
   }, [hasHydrated, isAuthenticated, userId, userType]);
 
+  // An offline profile edit lost to a newer server copy: show the server copy.
+  useEffect(() => {
+    if (!userId || isProviderUserType(userType)) return;
+
+    return onOutboxEvent(({ outcome, entry }) => {
+      if (entry.scope !== 'profiles' || outcome === 'synced') return;
+      void hydrateOwnedProfilesFromServer(userId).catch((error) => {
+        console.warn('[RootNavigator] Patient profile refresh failed', error);
+      });
+    });
+  }, [userId, userType]);
+
   if (!hasHydrated) {
     return <LoadingScreen />;
   }
@@ -176,6 +190,7 @@ export default function RootNavigator() {
             component={CheckoutScreen}
             options={{ animation: 'default' }}
           />
+          <Stack.Screen name="Cart" component={CartScreen} options={{ animation: 'default' }} />
           <Stack.Screen
             name="OrderSuccess"
             component={OrderSuccessScreen}
@@ -19,6 +19,7 @@ export type AuthStackParamList = {
   VerifyEmail: { email?: string; token?: string } | undefined;
   ForgotPassword: undefined;
   ResetPassword: { token: string };
+  MedicalId: undefined;
 };
 
 // ============================================
@@ -65,6 +66,7 @@ export type RootStackParamList = {
   CarePlans: undefined;
   PlanDetails: { id: string };
   Checkout: { serviceId?: string } | undefined;
+  Cart: undefined;
   OrderSuccess: { orderId?: string } | undefined;
   Orders: undefined;
   OrderDetails: { id: string };
@@ -81,7 +83,7 @@ export type RootStackParamList = {
 
 export type MainTabParamList = {
   Home: undefined;
-  Ask: undefined;
+  Ask: { prefilledSymptom?: string; memberId?: string } | undefined;
   Messages: undefined;
 };
 
@@ -109,6 +111,12 @@ export type SafetyStackParamList = {
   SafetyIndex: undefined;
   SafetySettings: undefined;
   SafetyContacts: undefined;
+  CaregiverMonitor: { relativeId?: string } | undefined;
+  MedicalId: undefined;
+  MedicalIdEditor: { memberId?: string } | undefined;
+  SafeZones: undefined;
+  SafeZoneEditor: { zoneId?: string } | undefined;
+  IncidentReport: undefined;
 };
 
 export type RootStackScreenProps<T extends keyof RootStackParamList> = NativeStackScreenProps<
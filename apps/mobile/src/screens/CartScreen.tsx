@@ -0,0 +1,351 @@
+/**
+ * Cart Screen
+ * Every booking waiting in the cart, paid for together in one payment
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { AppNavigationProp } from '../navigation/types';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { formatTime } from '../data/services';
+import type { CartItem } from '../data/types';
+import { useCartStore } from '../store/useCartStore';
+import { useProfileStore } from '../store/useProfileStore';
+import { useBookingsStore } from '../store';
+import { colors, spacing, radius, typography, shadows } from '../theme';
+import { formatMoney } from '../data/countries';
+import { paymentsApi } from '../services/api/endpoints/payments';
+import { useCartCheckout } from '../hooks/useCartCheckout';
+import { problemsByItem } from '../lib/cartOrder';
+import { describeRecurrence } from '../lib/recurringCare';
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export default function CartScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation() as AppNavigationProp;
+  const country = useProfileStore((state) => state.country);
+  const items = useCartStore((state) => state.items);
+  const removeItem = useCartStore((state) => state.removeItem);
+  const clearCart = useCartStore((state) => state.clearCart);
+  const total = useCartStore((state) => state.getTotalPrice());
+  const refreshBookings = useBookingsStore((state) => state.fetch);
+  const cart = useCartCheckout();
+  const [problems, setProblems] = useState<Record<string, string>>({});
+  const [unconfirmedOrderId, setUnconfirmedOrderId] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const busy = cart.busy || checking;
+
+  const finishPaidOrder = (orderId: string) => {
+    setUnconfirmedOrderId(null);
+    clearCart();
+    void refreshBookings({ force: true });
+    navigation.navigate('OrderSuccess', { orderId });
+  };
+
+  const recheckOrder = async (orderId: string) => {
+    setChecking(true);
+    try {
+      const order = await paymentsApi.getCartOrder(orderId);
+      if (!order.success) throw new Error(order.error);
+      if (order.status === 'SUCCESS' || order.status === 'PARTIAL' || order.status === 'REFUNDED') {
+        finishPaidOrder(orderId);
+      } else if (order.status === 'FAILED') {
+        setUnconfirmedOrderId(null);
+        Alert.alert(
+          'Payment not completed',
+          'Nothing was charged and no bookings were made. You can pay again.'
+        );
+      } else {
+        Alert.alert(
+          'Still confirming your payment',
+          'CareBow is still waiting for Razorpay confirmation. This cart is locked so you cannot accidentally pay twice.'
+        );
+      }
+    } catch {
+      Alert.alert(
+        'Could not confirm payment yet',
+        'Do not pay again. Check your connection, then use “Check payment status” again.'
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handlePay = async () => {
+    if (unconfirmedOrderId) {
+      await recheckOrder(unconfirmedOrderId);
+      return;
+    }
+
+    setProblems({});
+    const outcome = await cart.checkout(items);
+    switch (outcome.status) {
+      case 'paid':
+        finishPaidOrder(outcome.orderId);
+        return;
+      case 'payment_failed':
+        Alert.alert('Payment not completed', 'Nothing was charged and no bookings were made.');
+        return;
+      case 'unconfirmed':
+        setUnconfirmedOrderId(outcome.orderId);
+        Alert.alert(
+          'Still confirming your payment',
+          'If you completed payment your bookings will appear shortly. This cart will only recheck the same payment until CareBow knows the result.'
+        );
+        return;
+      case 'rejected':
+        setProblems(problemsByItem(outcome.problems));
+        Alert.alert(
+          'Nothing was booked',
+          outcome.problems.length > 0
+            ? `${outcome.error} Fix or remove the highlighted items and try again.`
+            : outcome.error
+        );
+        return;
+      case 'error':
+        Alert.alert('Could not start payment', outcome.error);
+    }
+  };
+
+  const confirmRemove = (item: CartItem) =>
+    Alert.alert('Remove from cart?', item.serviceTitle, [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => removeItem(item.id) },
+    ]);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + spacing.sm }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Icon name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Cart</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {items.length === 0 ? (
+        <View style={styles.empty}>
+          <Icon name="cart-outline" size={48} color={colors.textTertiary} />
+          <Text style={styles.emptyTitle}>Your cart is empty</Text>
+          <Text style={styles.emptyText}>
+            Add services from their details page to book several at once with one payment.
+          </Text>
+          <TouchableOpacity
+            style={styles.browseButton}
+            onPress={() => navigation.navigate('Services')}
+          >
+            <Text style={styles.browseButtonText}>Browse services</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: 160 + insets.bottom }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {items.map((item) => (
+            <View key={item.id} style={[styles.card, problems[item.id] && styles.cardProblem]}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{item.serviceTitle}</Text>
+                <TouchableOpacity
+                  onPress={() => confirmRemove(item)}
+                  disabled={busy || !!unconfirmedOrderId}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${item.serviceTitle}`}
+                >
+                  <Icon name="trash-outline" size={20} color={colors.textTertiary} />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.detail}>For {item.memberName || 'family member'}</Text>
+              <Text style={styles.detail}>
+                {formatDate(item.date)} · {formatTime(item.startTime)}
+              </Text>
+              {item.recurrence && (
+                <Text style={styles.detail}>{describeRecurrence(item.recurrence)}</Text>
+              )}
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{item.pricingLabel}</Text>
+                <Text style={styles.priceValue}>{formatMoney(item.total, country)}</Text>
+              </View>
+              {problems[item.id] && (
+                <View style={styles.problem}>
+                  <Icon name="alert-circle" size={16} color={colors.error} />
+                  <Text style={styles.problemText}>{problems[item.id]}</Text>
+                </View>
+              )}
+            </View>
+          ))}
+
+          <Text style={styles.note}>
+            All bookings are made together or not at all. If one cannot be confirmed after payment,
+            that booking is refunded and the rest stand.
+          </Text>
+        </ScrollView>
+      )}
+
+      {items.length > 0 && (
+        <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.footerPriceRow}>
+            <Text style={styles.footerPriceLabel}>
+              Total · {items.length} booking{items.length === 1 ? '' : 's'}
+            </Text>
+            <Text style={styles.footerPriceValue}>{formatMoney(total, country)}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.payButton, busy && styles.buttonDisabled]}
+            onPress={handlePay}
+            activeOpacity={0.8}
+            disabled={busy}
+          >
+            <Icon
+              name={unconfirmedOrderId ? 'refresh' : 'card-outline'}
+              size={18}
+              color={colors.white}
+            />
+            <Text style={styles.payButtonText}>
+              {busy
+                ? unconfirmedOrderId
+                  ? 'Checking payment…'
+                  : 'Opening payment…'
+                : unconfirmedOrderId
+                  ? 'Check payment status'
+                  : 'Pay and book all'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.surface2 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: { ...typography.h3 },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1 },
+  scrollContent: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.background,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: spacing.xxs,
+    ...shadows.card,
+  },
+  cardProblem: { borderColor: colors.error },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  cardTitle: { ...typography.h4, flex: 1 },
+  detail: { ...typography.bodySmall, color: colors.textSecondary },
+  priceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+    columnGap: spacing.sm,
+  },
+  priceLabel: { ...typography.body, color: colors.textSecondary },
+  priceValue: { ...typography.body, fontWeight: '600' },
+  problem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  problemText: { ...typography.bodySmall, color: colors.error, flex: 1 },
+  note: { ...typography.caption, color: colors.textTertiary, textAlign: 'center' },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.xxl,
+  },
+  emptyTitle: { ...typography.h3, textAlign: 'center' },
+  emptyText: { ...typography.body, color: colors.textSecondary, textAlign: 'center' },
+  browseButton: {
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.xl,
+    paddingVertical: spacing.md,
+  },
+  browseButtonText: { ...typography.labelLarge, color: colors.textInverse },
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+    backgroundColor: colors.background,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    ...shadows.card,
+  },
+  footerPriceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+    rowGap: spacing.xxs,
+    columnGap: spacing.sm,
+  },
+  footerPriceLabel: { ...typography.body, color: colors.textSecondary },
+  footerPriceValue: { ...typography.h3 },
+  payButton: {
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    ...shadows.button,
+  },
+  buttonDisabled: { opacity: 0.6 },
+  payButtonText: { ...typography.labelLarge, color: colors.white },
+});
@@ -4,7 +4,7 @@
  * create a real pending booking without pretending a payment is required.
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -13,6 +13,9 @@ import {
   TouchableOpacity,
   StatusBar,
   Alert,
+  Switch,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
@@ -22,13 +25,55 @@ import { formatTime, formatDuration } from '../data/services';
 import { useCartStore } from '../store/useCartStore';
 import { useProfileStore } from '../store/useProfileStore';
 import { useBookingsStore } from '../store';
+import { useAskCarebowStore } from '../store/askCarebowStore';
 import { colors, spacing, radius, typography, shadows } from '../theme';
-import { formatMoney } from '../data/countries';
+import { formatMinor, formatMoney } from '../data/countries';
 import { ensureBackendProfile } from '../lib/profileSync';
 import { paymentsApi, selectionFromDraft } from '../services/api/endpoints/payments';
 import { servicesApi } from '../services/api/endpoints/services';
 import { toBookingService } from '../lib/liveServiceCatalog';
 import { useHostedCheckout } from '../hooks/useHostedCheckout';
+import { useAssessmentShare } from '../hooks/useAssessmentShare';
+import { linkOrderToConversation } from '../lib/askCarebow/actionIntegration';
+import { AssessmentShareSheet } from '../components/askCarebow/AssessmentShareSheet';
+import {
+  describeRecurrence,
+  expandRecurrence,
+  seriesFromSlot,
+  seriesScheduledAt,
+} from '../lib/recurringCare';
+import { useSlotHold } from '../hooks/useSlotHold';
+import { deviceTimeZone, formatCountdown } from '../lib/availability';
+import { useCheckoutPricing, type PriceCheck } from '../hooks/useCheckoutPricing';
+import type { Money } from '../types/booking';
+
+const ASSESSMENT_RECIPIENT = 'Your provider and the CareBow care team';
+const ASSESSMENT_SHARED_NOTE = ' Your Ask CareBow assessment was shared with your provider.';
+const ASSESSMENT_FAILED_NOTE =
+  ' Your Ask CareBow assessment was not shared yet. You can share it from the booking details.';
+
+const showMoney = (value: Money) => formatMinor(Math.round(value.amount * 100), value.currency);
+
+/**
+ * Ask before paying a price other than the one on screen. The server's
+ * price is the one charged, so the customer sees it and why it differs.
+ */
+const confirmServerPrice = (
+  check: Extract<PriceCheck, { ok: true }>,
+  currency: string
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    const amount = formatMinor(check.amount, currency);
+    Alert.alert(
+      'The price has changed',
+      `${check.reconciliation.reasons.join('\n')}\n\nYou will pay ${amount}.`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: `Pay ${amount}`, onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
 
 export default function CheckoutScreen() {
   const insets = useSafeAreaInsets();
@@ -42,6 +87,36 @@ export default function CheckoutScreen() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [unconfirmedOrderId, setUnconfirmedOrderId] = useState<string | null>(null);
   const checkout = useHostedCheckout();
+  const slotHold = useSlotHold(bookingDraft?.serviceId, bookingDraft?.slotStartsAt ?? null);
+  const sessions = useAskCarebowStore((state) => state.sessions);
+  const assessmentShare = useAssessmentShare();
+  /** Set only after the customer has previewed the assessment and agreed. */
+  const [assessmentConsentedAt, setAssessmentConsentedAt] = useState<string | null>(null);
+  const [showAssessmentSheet, setShowAssessmentSheet] = useState(false);
+  const promo = useCheckoutPricing(bookingDraft, country);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+
+  // The Ask CareBow conversation that led here, if it is still on this device.
+  const referralSessionId = bookingDraft?.referralContext?.sessionId;
+  const referralSession = useMemo(
+    () =>
+      sessions.find(
+        (session) =>
+          session.id === referralSessionId &&
+          session.messages.some((message) => message.role === 'user')
+      ) ?? null,
+    [sessions, referralSessionId]
+  );
+
+  // Every visit date of a recurring booking, or null for a single visit.
+  const seriesDates = useMemo(
+    () =>
+      bookingDraft?.recurrence && bookingDraft.date
+        ? expandRecurrence(bookingDraft.date, bookingDraft.recurrence)
+        : null,
+    [bookingDraft?.recurrence, bookingDraft?.date]
+  );
 
   // calculatePrice uses this exact label only for a quote service with no
   // booking fee. The backend still makes the final eligibility decision.
@@ -58,22 +133,37 @@ export default function CheckoutScreen() {
     });
   };
 
-  const showPaidConfirmation = () => {
+  /**
+   * Link the conversation to the new booking and, if the customer agreed,
+   * share its assessment. Returns a sentence for the confirmation alert.
+   */
+  const shareConsentedAssessment = async (bookingId?: string | null): Promise<string> => {
+    if (!referralSession) return '';
+    if (!bookingId) return assessmentConsentedAt ? ASSESSMENT_FAILED_NOTE : '';
+
+    await linkOrderToConversation(referralSession.id, bookingId);
+    if (!assessmentConsentedAt) return '';
+
+    const result = await assessmentShare.share(bookingId, referralSession, assessmentConsentedAt);
+    return result.ok ? ASSESSMENT_SHARED_NOTE : ASSESSMENT_FAILED_NOTE;
+  };
+
+  const showPaidConfirmation = (assessmentNote = '') => {
     setUnconfirmedOrderId(null);
     clearBookingDraft();
     Alert.alert(
       'Payment received',
-      'Your booking is confirmed. The care team will be in touch with provider details.',
+      `Your booking is confirmed. The care team will be in touch with provider details.${assessmentNote}`,
       [{ text: 'View schedule', onPress: () => navigation.navigate('Schedule') }],
       { cancelable: false }
     );
   };
 
-  const showRequestConfirmation = (bookingId: string) => {
+  const showRequestConfirmation = (bookingId: string, assessmentNote = '') => {
     clearBookingDraft();
     Alert.alert(
       'Request submitted',
-      'CareBow received your request. The care team will review the details, confirm the price if needed, and assign a provider before the visit.',
+      `CareBow received your request. The care team will review the details, confirm the price if needed, and assign a provider before the visit.${assessmentNote}`,
       [
         {
           text: 'View booking',
@@ -84,13 +174,20 @@ export default function CheckoutScreen() {
     );
   };
 
+  const handleApplyCode = async () => {
+    setPromoError(null);
+    const result = await promo.applyCode(promoInput);
+    if (result.ok) setPromoInput('');
+    else setPromoError(result.error);
+  };
+
   const recheckUnconfirmedOrder = async (orderId: string) => {
     try {
       const status = await paymentsApi.getPaymentStatus(orderId);
       if (!status.success) throw new Error(status.error || 'Could not confirm payment status');
 
       if (status.status === 'SUCCESS') {
-        showPaidConfirmation();
+        showPaidConfirmation(await shareConsentedAssessment(status.booking?.id));
         return;
       }
 
@@ -169,7 +266,56 @@ export default function CheckoutScreen() {
       // customer-selected appointment time and provider confirmation still owns
       // the final timing.
       const bookingTime = bookingDraft.startTime || '12:00';
-      const scheduledAt = new Date(`${bookingDraft.date}T${bookingTime}:00`).toISOString();
+
+      // A published slot is already a UTC instant on the care team's clock.
+      const slotStartsAt = bookingDraft.slotStartsAt ?? null;
+
+      // A series books every visit at once, each with the same time of day.
+      const recurrence = bookingDraft.recurrence
+        ? {
+            rule: bookingDraft.recurrence,
+            scheduledAt: slotStartsAt
+              ? seriesFromSlot(
+                  bookingDraft.date,
+                  bookingDraft.recurrence,
+                  slotStartsAt,
+                  bookingDraft.slotTimeZone ?? deviceTimeZone()
+                )
+              : seriesScheduledAt(
+                  bookingDraft.date,
+                  bookingDraft.recurrence,
+                  bookingDraft.startTime
+                ),
+          }
+        : undefined;
+      if (recurrence && recurrence.scheduledAt.length === 0) {
+        Alert.alert('Choose repeat days', 'Pick at least one day of the week for this series.');
+        return;
+      }
+      const scheduledAt = recurrence
+        ? recurrence.scheduledAt[0]
+        : slotStartsAt ?? new Date(`${bookingDraft.date}T${bookingTime}:00`).toISOString();
+
+      let slotHoldId: string | undefined;
+      if (slotStartsAt) {
+        const held = await slotHold.ensureHeld();
+        if (!held.ok) {
+          if (held.taken) {
+            Alert.alert(
+              'That time was just taken',
+              'Someone else booked this slot while you were reviewing. Please choose another time.',
+              [{ text: 'Choose another time', onPress: () => navigation.goBack() }]
+            );
+          } else {
+            Alert.alert('Could not hold your slot', 'Check your connection and try again.');
+          }
+          return;
+        }
+        slotHoldId = held.holdId;
+      }
+      const seriesNote = recurrence
+        ? ` All ${recurrence.scheduledAt.length} visits are in your schedule, and each can be moved or cancelled on its own.`
+        : '';
 
       // A quote with no booking fee has nothing to charge today. Create the
       // real PENDING booking through the server's direct-booking gate instead
@@ -186,10 +332,16 @@ export default function CheckoutScreen() {
           scheduledAt,
           notes: noteParts.join(' · ') || undefined,
           careContext: bookingDraft.referralContext ?? undefined,
+          recurrence,
+          slotHoldId,
         });
 
         if (!result.ok) throw new Error(result.error);
-        showRequestConfirmation(result.booking.id);
+        slotHold.consume();
+        showRequestConfirmation(
+          result.booking.id,
+          seriesNote + (await shareConsentedAssessment(result.booking.id))
+        );
         return;
       }
 
@@ -208,24 +360,57 @@ export default function CheckoutScreen() {
         return;
       }
 
-      const order = await paymentsApi.createBookingOrder({
+      const orderBody = {
         serviceId: bookingDraft.serviceId,
         profileId: backendProfileId,
         scheduledAt,
         notes: noteParts.join(' · ') || undefined,
         selection,
+        recurrence,
+        slotHoldId,
+      };
+
+      // Promo codes, credit and live prices can all move between this screen
+      // rendering and the order being created. Charge only a confirmed price.
+      const price = await promo.checkPrice(orderBody);
+      if (!price.ok) {
+        Alert.alert('Could not confirm the price', price.error);
+        return;
+      }
+      const currency = price.server.total.currency;
+      if (!price.reconciliation.matches && !(await confirmServerPrice(price, currency))) {
+        return;
+      }
+
+      const order = await paymentsApi.createBookingOrder({
+        ...orderBody,
+        promoCodes: promo.promotions.map((promotion) => promotion.code),
+        useCredits: promo.useCredits && !!promo.balances,
+        expectedAmount: price.amount,
         hosted: true,
         callbackUrl: 'carebow://checkout/return',
       });
 
+      // Credit covered everything: the booking exists and there is nothing to pay.
+      if (order.success && order.bookingId && !order.paymentUrl) {
+        slotHold.consume();
+        showPaidConfirmation(seriesNote + (await shareConsentedAssessment(order.bookingId)));
+        return;
+      }
+
       if (!order.success || !order.paymentUrl || !order.orderId) {
         throw new Error(order.error || 'Could not start payment');
       }
+      // The order now owns the hold: it becomes the booking when payment
+      // lands, or the server lets it lapse.
+      slotHold.consume();
 
       const outcome = await checkout.start({ orderId: order.orderId, paymentUrl: order.paymentUrl });
 
       if (outcome.status === 'paid') {
-        showPaidConfirmation();
+        showPaidConfirmation(
+          seriesNote + (await shareConsentedAssessment(outcome.payment.booking?.id))
+        );
       } else if (outcome.status === 'failed') {
         Alert.alert('Payment not completed', 'Nothing was charged. You can try again.');
       } else {
@@ -265,6 +450,16 @@ export default function CheckoutScreen() {
     );
   }
 
+  const total = promo.pricing
+    ? showMoney(promo.pricing.total)
+    : formatMoney(bookingDraft.total, country);
+  const creditAvailable = promo.balances
+    ? formatMinor(
+        Math.round((promo.balances.referral.amount + promo.balances.wallet.amount) * 100),
+        promo.balances.wallet.currency
+      )
+    : '';
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="dark-content" />
@@ -321,6 +516,26 @@ export default function CheckoutScreen() {
             </View>
           )}
 
+          {bookingDraft.recurrence && seriesDates && (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Repeats</Text>
+                <Text style={styles.summaryValue}>
+                  {describeRecurrence(bookingDraft.recurrence)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Visits</Text>
+                <Text style={styles.summaryValue}>
+                  {seriesDates.length}
+                  {seriesDates.length > 1
+                    ? `, last on ${formatDate(seriesDates[seriesDates.length - 1])}`
+                    : ''}
+                </Text>
+              </View>
+            </>
+          )}
+
           {bookingDraft.selectedPackageLabel && (
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Package</Text>
@@ -356,6 +571,38 @@ export default function CheckoutScreen() {
           )}
         </View>
 
+        {bookingDraft.slotStartsAt && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={[styles.cardIconWrap, { backgroundColor: colors.warningSoft }]}>
+                <Icon name="time-outline" size={20} color={colors.warning} />
+              </View>
+              <Text style={styles.cardTitle}>Your slot</Text>
+            </View>
+            <Text style={styles.assessmentText}>
+              {slotHold.status === 'held'
+                ? `Held for ${formatCountdown(slotHold.secondsLeft)}. Book before it is released.`
+                : slotHold.status === 'expired'
+                  ? 'Your hold has ended. Hold the slot again to keep it while you pay.'
+                  : slotHold.status === 'taken'
+                    ? 'Someone else just booked this time. Please choose another.'
+                    : slotHold.status === 'error'
+                      ? 'Could not hold this slot. It will be checked again when you book.'
+                      : 'Holding this slot for you…'}
+            </Text>
+            {slotHold.status === 'expired' && (
+              <TouchableOpacity onPress={() => void slotHold.ensureHeld()} disabled={isSubmitting}>
+                <Text style={styles.assessmentLink}>Hold again</Text>
+              </TouchableOpacity>
+            )}
+            {slotHold.status === 'taken' && (
+              <TouchableOpacity onPress={() => navigation.goBack()}>
+                <Text style={styles.assessmentLink}>Choose another time</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {bookingDraft.requestNotes.trim() && (
           <View style={styles.card}>
             <View style={styles.cardHeader}>
@@ -368,6 +615,37 @@ export default function CheckoutScreen() {
           </View>
         )}
 
+        {referralSession && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={[styles.cardIconWrap, { backgroundColor: colors.accentSoft }]}>
+                <Icon name="chatbubble-ellipses-outline" size={20} color={colors.accent} />
+              </View>
+              <Text style={styles.cardTitle}>Ask CareBow assessment</Text>
+            </View>
+            <View style={styles.assessmentRow}>
+              <Text style={styles.assessmentText}>
+                {assessmentConsentedAt
+                  ? 'Will be shared with your provider once the booking is made.'
+                  : 'Share the summary of your conversation so your provider can prepare.'}
+              </Text>
+              <Switch
+                value={!!assessmentConsentedAt}
+                onValueChange={(value) =>
+                  value ? setShowAssessmentSheet(true) : setAssessmentConsentedAt(null)
+                }
+                disabled={isSubmitting}
+                trackColor={{ false: colors.border, true: colors.accentSoft }}
+                thumbColor={assessmentConsentedAt ? colors.accent : colors.surface}
+                accessibilityLabel="Share assessment with my provider"
+              />
+            </View>
+            <TouchableOpacity onPress={() => setShowAssessmentSheet(true)}>
+              <Text style={styles.assessmentLink}>Preview what will be shared</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <View style={[styles.cardIconWrap, { backgroundColor: colors.successSoft }]}>
@@ -392,17 +670,117 @@ export default function CheckoutScreen() {
             </View>
           )}
 
+          {!isQuoteOnlyRequest &&
+            promo.pricing?.promotions?.map((promotion) => (
+              <View key={promotion.code} style={styles.pricingRow}>
+                <Text style={[styles.pricingLabel, styles.discountLabel]}>
+                  {promotion.code} · {promotion.label}
+                </Text>
+                <Text style={[styles.pricingValue, styles.discountValue]}>
+                  -{showMoney(promotion.discount)}
+                </Text>
+              </View>
+            ))}
+
+          {!isQuoteOnlyRequest &&
+            promo.pricing?.credits?.map((credit) => (
+              <View key={credit.source} style={styles.pricingRow}>
+                <Text style={[styles.pricingLabel, styles.discountLabel]}>
+                  {credit.source === 'referral' ? 'Referral credit' : 'Wallet balance'}
+                </Text>
+                <Text style={[styles.pricingValue, styles.discountValue]}>
+                  -{showMoney(credit.amount)}
+                </Text>
+              </View>
+            ))}
+
           {!isQuoteOnlyRequest && (
             <>
               <View style={styles.divider} />
               <View style={styles.totalRow}>
                 <Text style={styles.totalLabel}>Total</Text>
-                <Text style={styles.totalValue}>{formatMoney(bookingDraft.total, country)}</Text>
+                <Text style={styles.totalValue}>{total}</Text>
               </View>
             </>
           )}
         </View>
 
+        {!isQuoteOnlyRequest && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={[styles.cardIconWrap, { backgroundColor: colors.successSoft }]}>
+                <Icon name="pricetag-outline" size={20} color={colors.success} />
+              </View>
+              <Text style={styles.cardTitle}>Promo code</Text>
+            </View>
+
+            <View style={styles.promoRow}>
+              <TextInput
+                style={styles.promoInput}
+                value={promoInput}
+                onChangeText={(value) => {
+                  setPromoInput(value);
+                  setPromoError(null);
+                }}
+                placeholder="Enter code"
+                placeholderTextColor={colors.textTertiary}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                returnKeyType="done"
+                onSubmitEditing={handleApplyCode}
+                editable={!promo.applying && !isSubmitting}
+                accessibilityLabel="Promo code"
+              />
+              <TouchableOpacity
+                style={[styles.promoButton, !promoInput.trim() && styles.buttonDisabled]}
+                onPress={handleApplyCode}
+                disabled={!promoInput.trim() || promo.applying || isSubmitting}
+              >
+                {promo.applying ? (
+                  <ActivityIndicator size="small" color={colors.white} />
+                ) : (
+                  <Text style={styles.promoButtonText}>Apply</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            {promoError && <Text style={styles.promoError}>{promoError}</Text>}
+
+            {promo.promotions.map((promotion) => (
+              <View key={promotion.code} style={styles.promoApplied}>
+                <Icon name="checkmark-circle" size={16} color={colors.success} />
+                <Text style={styles.promoAppliedText}>
+                  {promotion.code}
+                  {promotion.stacking === 'exclusive' ? ' · cannot be combined' : ''}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => promo.removeCode(promotion.code)}
+                  disabled={isSubmitting}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${promotion.code}`}
+                >
+                  <Icon name="close-circle-outline" size={18} color={colors.textTertiary} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {promo.balances && (
+              <View style={[styles.assessmentRow, styles.creditRow]}>
+                <Text style={styles.assessmentText}>
+                  Use CareBow credit ({creditAvailable} available)
+                </Text>
+                <Switch
+                  value={promo.useCredits}
+                  onValueChange={promo.setUseCredits}
+                  disabled={isSubmitting}
+                  trackColor={{ false: colors.border, true: colors.accentSoft }}
+                  thumbColor={promo.useCredits ? colors.accent : colors.surface}
+                  accessibilityLabel="Use CareBow credit"
+                />
+              </View>
+            )}
+          </View>
+        )}
+
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <View style={[styles.cardIconWrap, { backgroundColor: colors.accentSoft }]}>
@@ -466,9 +844,7 @@ export default function CheckoutScreen() {
           <Text style={styles.footerPriceLabel}>
             {isQuoteOnlyRequest ? 'Payment today' : 'Total'}
           </Text>
-          <Text style={styles.footerPriceValue}>
-            {isQuoteOnlyRequest ? 'None' : formatMoney(bookingDraft.total, country)}
-          </Text>
+          <Text style={styles.footerPriceValue}>{isQuoteOnlyRequest ? 'None' : total}</Text>
         </View>
         <TouchableOpacity
           style={[styles.payButton, (isSubmitting || checkout.busy) && styles.buttonDisabled]}
@@ -502,6 +878,18 @@ export default function CheckoutScreen() {
           </Text>
         </TouchableOpacity>
       </View>
+
+      <AssessmentShareSheet
+        visible={showAssessmentSheet}
+        sessions={referralSession ? [referralSession] : []}
+        recipient={ASSESSMENT_RECIPIENT}
+        confirmLabel={assessmentConsentedAt ? 'Keep sharing' : 'Share after booking'}
+        onConfirm={() => {
+          setAssessmentConsentedAt((current) => current ?? new Date().toISOString());
+          setShowAssessmentSheet(false);
+        }}
+        onClose={() => setShowAssessmentSheet(false)}
+      />
     </View>
   );
 }
@@ -598,6 +986,9 @@ const styles = StyleSheet.create({
   summaryLabel: { ...typography.bodySmall, color: colors.textSecondary },
   summaryValue: { ...typography.label, textAlign: 'right', flex: 1, marginLeft: spacing.md },
   notesText: { ...typography.body, color: colors.textSecondary, lineHeight: 22 },
+  assessmentRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+  assessmentText: { ...typography.body, color: colors.textSecondary, flex: 1 },
+  assessmentLink: { ...typography.label, color: colors.accent, marginTop: spacing.sm },
   pricingRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -610,6 +1001,35 @@ const styles = StyleSheet.create({
   pricingValue: { ...typography.body },
   discountLabel: { color: colors.success },
   discountValue: { color: colors.success, fontWeight: '600' },
+  promoRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+  promoInput: {
+    ...typography.body,
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    color: colors.textPrimary,
+  },
+  promoButton: {
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm + 2,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  promoButtonText: { ...typography.label, color: colors.white },
+  promoError: { ...typography.caption, color: colors.error, marginTop: spacing.xs },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  promoAppliedText: { ...typography.label, flex: 1 },
+  creditRow: { marginTop: spacing.md },
   divider: { height: 1, backgroundColor: colors.border, marginVertical: spacing.sm },
   totalRow: {
     flexDirection: 'row',
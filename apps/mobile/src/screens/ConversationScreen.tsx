@@ -24,10 +24,11 @@ import { useAskCarebowStore } from '../store/askCarebowStore';
 import { useHealthMemoryStore, usePendingCandidates } from '../store/healthMemoryStore';
 import { useAuthStore } from '../store/useAuthStore';
 import { useProfileStore } from '../store/useProfileStore';
-import { Message, QuickOption } from '../types/askCarebow';
+import { useCartStore } from '../store/useCartStore';
+import { Message, QuickOption, ServiceRecommendation } from '../types/askCarebow';
 import type { ImageAttachment } from '../components/askCarebow/ImageUploadBottomSheet';
 
-import { processUserInput } from '../lib/askCarebow';
+import { processUserInput, mapToExternalTriageLevel } from '../lib/askCarebow';
 import {
   detectEmergencyWithContext,
   extractPatientContext,
@@ -439,8 +440,28 @@ export default function ConversationScreen() {
 
   const handleDismissFollowUp = useCallback(() => {}, []);
 
-  const handleBookService = (serviceId: string) => {
-    navigation.navigate('Services' as never, { recommended: serviceId });
+  const setCareReferralContext = useCartStore((state) => state.setCareReferralContext);
+
+  const handleBookService = (recommendation: ServiceRecommendation) => {
+    // Carry the conversation into the booking so checkout can offer to share
+    // the assessment with the provider.
+    setCareReferralContext({
+      source: 'ask_carebow',
+      episodeId: currentEpisodeId || undefined,
+      sessionId: currentSession?.id,
+      profileId: currentSession?.memberId || undefined,
+      triageLevel: mapToExternalTriageLevel(recommendation.urgency),
+      symptoms: [
+        currentSession?.healthContext.primarySymptom,
+        ...(currentSession?.healthContext.associatedSymptoms ?? []),
+      ]
+        .map((symptom) => symptom?.trim())
+        .filter((symptom): symptom is string => Boolean(symptom))
+        .slice(0, 8),
+      careIntent: 'general_care',
+      createdAt: new Date().toISOString(),
+    });
+    navigation.navigate('Services' as never, { recommended: recommendation.serviceId });
   };
 
   const messages = currentSession?.messages ?? [];
@@ -530,6 +551,7 @@ export default function ConversationScreen() {
             <TriageActionBar
               triageLevel={triageLevel}
               episodeId={currentEpisodeId || undefined}
+              sessionId={currentSession?.id}
               symptoms={[
                 currentSession?.healthContext.primarySymptom,
                 ...(currentSession?.healthContext.associatedSymptoms ?? []),
@@ -585,7 +607,7 @@ export default function ConversationScreen() {
 
 interface MessageRendererProps {
   message: Message;
-  onBookService: (serviceId: string) => void;
+  onBookService: (recommendation: ServiceRecommendation) => void;
   urgencyLevel?: string;
   episodeId?: string;
 }
@@ -611,7 +633,7 @@ function MessageRenderer({
       return message.serviceRecommendation ? (
         <ServiceRecommendationCard
           recommendation={message.serviceRecommendation}
-          onBook={() => onBookService(message.serviceRecommendation!.serviceId)}
+          onBook={() => onBookService(message.serviceRecommendation!)}
         />
       ) : (
         <ChatBubble message={message} episodeId={episodeId} />
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -13,12 +13,34 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import { useBookingsStore, selectBookingById } from '../store';
 import { paymentsApi } from '../services/api/endpoints/payments';
 import { useHostedCheckout } from '../hooks/useHostedCheckout';
+import { useAssessmentShare } from '../hooks/useAssessmentShare';
+import { useAskCarebowStore } from '../store/askCarebowStore';
+import { assessmentRecipient, findShareableSessions } from '../lib/askCarebow/assessmentShare';
+import { AssessmentShareSheet } from '../components/askCarebow/AssessmentShareSheet';
+import { RescheduleSheet } from '../components/booking/RescheduleSheet';
+import { BookingHistory } from '../components/booking/BookingHistory';
+import { useBookingReschedule } from '../hooks/useBookingReschedule';
+import { describeWeekdays } from '../lib/recurringCare';
+import {
+  canReschedule,
+  describeReschedulePolicy,
+  describeRescheduleQuote,
+} from '../lib/reschedule';
+import type { V1CancelResponse } from '../services/api/endpoints/member';
+import type { AskCarebowSession } from '../types/askCarebow';
 import { formatMinor } from '../data/countries';
 import { colors, radius, spacing, typography } from '../theme';
 
 const money = (amountMinor: number, currency?: string) =>
   formatMinor(amountMinor, currency ?? 'INR');
 
+const moveRefundNote = (refund?: V1CancelResponse['refund']) =>
+  refund?.status === 'ISSUED'
+    ? ' The difference is on its way back and usually reaches your account within 5–7 working days.'
+    : refund?.status === 'PENDING'
+      ? ' The difference could not be refunded automatically. Our team has been alerted and will complete it.'
+      : '';
+
 export default function OrderDetailsScreen() {
   const navigation = useNavigation();
   const route = useRoute();
@@ -32,6 +54,22 @@ export default function OrderDetailsScreen() {
   const [paying, setPaying] = useState(false);
   const [unconfirmedOrderId, setUnconfirmedOrderId] = useState<string | null>(null);
   const checkout = useHostedCheckout();
+  const sessions = useAskCarebowStore((state) => state.sessions);
+  const assessmentShare = useAssessmentShare();
+  const [showAssessmentSheet, setShowAssessmentSheet] = useState(false);
+  const [showRescheduleSheet, setShowRescheduleSheet] = useState(false);
+  const rescheduler = useBookingReschedule();
+  const { requestQuote } = rescheduler;
+  const previewMove = useCallback(
+    (scheduledAt: string | null) => {
+      if (id) void requestQuote(id, scheduledAt);
+    },
+    [id, requestQuote]
+  );
+  const shareableSessions = useMemo(
+    () => (id ? findShareableSessions(sessions, id) : []),
+    [sessions, id]
+  );
 
   const load = useCallback(async () => {
     if (!id) {
@@ -71,6 +109,45 @@ export default function OrderDetailsScreen() {
     }
   };
 
+  const moveBooking = async (scheduledAt: string, slotHoldId?: string) => {
+    if (!id || !rescheduler.quote) return;
+    const inSeries = Boolean(booking?.series);
+    const outcome = await rescheduler.move(id, scheduledAt, rescheduler.quote, slotHoldId);
+    if (outcome.status === 'error') {
+      Alert.alert(
+        inSeries ? 'Could not move this visit' : 'Could not move this booking',
+        outcome.error
+      );
+      return;
+    }
+    if (outcome.status === 'payment_failed') {
+      Alert.alert('Payment not completed', 'Nothing was charged and the booking keeps its time.');
+      return;
+    }
+
+    setShowRescheduleSheet(false);
+    if (outcome.status === 'moved') {
+      const movedTo = new Date(outcome.booking.scheduledAt).toLocaleString();
+      const seriesNote = inSeries ? ' The rest of the series is unchanged.' : '';
+      Alert.alert(
+        inSeries ? 'Visit moved' : 'Booking moved',
+        `Now on ${movedTo}.${seriesNote}${moveRefundNote(outcome.refund)}`
+      );
+      return;
+    }
+
+    // Paid moves are applied by the server when it records the payment.
+    await fetchOne(id);
+    if (outcome.status === 'paid') {
+      Alert.alert('Payment received', 'Your booking moves to the new time in a moment.');
+    } else {
+      Alert.alert(
+        'Still confirming your payment',
+        'If you completed payment the booking moves to the new time shortly. Do not pay again.'
+      );
+    }
+  };
+
   const reconcileSettlementStatus = async (orderId: string) => {
     if (!id) return;
 
@@ -153,6 +230,21 @@ export default function OrderDetailsScreen() {
     }
   };
 
+  const shareAssessment = async (session: AskCarebowSession) => {
+    if (!id) return;
+    // Consent is the tap on the preview's share button, just now.
+    const result = await assessmentShare.share(id, session, new Date().toISOString());
+    setShowAssessmentSheet(false);
+    if (!result.ok) {
+      Alert.alert('Could not share your assessment', result.error);
+      return;
+    }
+    Alert.alert(
+      'Assessment shared',
+      `${assessmentRecipient(result.booking)} can now read your Ask CareBow summary.`
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.state}>
@@ -193,6 +285,17 @@ export default function OrderDetailsScreen() {
   const labTests =
     prescription && Array.isArray(prescription.labTests) ? prescription.labTests : [];
   const hasOutcome = Boolean(booking.consultationNote || prescription);
+  const series = booking.series ?? null;
+  const movable = canReschedule(booking);
+  const policyText = booking.reschedulePolicy
+    ? describeReschedulePolicy(booking.reschedulePolicy, booking.currency)
+    : 'Pick a new time; the care team confirms it as before.';
+  const quote = rescheduler.quote;
+  const sharedAssessment = booking.sharedAssessment ?? null;
+  const canShareAssessment =
+    !sharedAssessment &&
+    shareableSessions.length > 0 &&
+    ['PENDING', 'CONFIRMED', 'IN_PROGRESS'].includes(booking.status);
 
   return (
     <ScrollView
@@ -223,6 +326,73 @@ export default function OrderDetailsScreen() {
         <Text style={styles.value}>{booking.provider?.name || 'Not assigned yet'}</Text>
       </View>
 
+      {series ? (
+        <View style={styles.actionCard}>
+          <Icon name="repeat" size={18} color={colors.accent} />
+          <View style={styles.listCopy}>
+            <Text style={styles.value}>
+              Visit {series.position} of {series.visitCount}
+            </Text>
+            <Text style={styles.secondaryValue}>
+              {describeWeekdays(series.rule.weekdays)}. Moving or cancelling this visit leaves the
+              rest of the series as booked.
+            </Text>
+            {cancellable && !movable.ok ? (
+              <Text style={styles.secondaryValue}>{movable.reason}</Text>
+            ) : null}
+          </View>
+          {movable.ok && (
+            <TouchableOpacity
+              onPress={() => setShowRescheduleSheet(true)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.cardAction}>Move</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : cancellable ? (
+        <View style={styles.actionCard}>
+          <Icon name="calendar-outline" size={18} color={colors.accent} />
+          <View style={styles.listCopy}>
+            <Text style={styles.value}>Need a different time?</Text>
+            <Text style={styles.secondaryValue}>{movable.ok ? policyText : movable.reason}</Text>
+          </View>
+          {movable.ok && (
+            <TouchableOpacity
+              onPress={() => setShowRescheduleSheet(true)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.cardAction}>Reschedule</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : null}
+
+      {sharedAssessment ? (
+        <View style={styles.assessmentCard}>
+          <Icon name="checkmark-circle" size={18} color={colors.success} />
+          <Text style={styles.assessmentText}>
+            Ask CareBow assessment shared with {sharedAssessment.recipient} on{' '}
+            {new Date(sharedAssessment.sharedAt).toLocaleString()}
+          </Text>
+        </View>
+      ) : canShareAssessment ? (
+        <TouchableOpacity
+          style={styles.assessmentCard}
+          onPress={() => setShowAssessmentSheet(true)}
+          accessibilityRole="button"
+        >
+          <Icon name="chatbubble-ellipses-outline" size={18} color={colors.accent} />
+          <View style={styles.listCopy}>
+            <Text style={styles.value}>Share your Ask CareBow assessment</Text>
+            <Text style={styles.secondaryValue}>
+              Preview the summary and send it to {assessmentRecipient(booking)}.
+            </Text>
+          </View>
+          <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+        </TouchableOpacity>
+      ) : null}
+
       {hasOutcome && (
         <View style={styles.outcomeCard}>
           <View style={styles.sectionHeader}>
@@ -304,6 +474,16 @@ export default function OrderDetailsScreen() {
         </View>
       )}
 
+      {booking.statusHistory && booking.statusHistory.length > 0 && (
+        <View style={styles.historyCard}>
+          <View style={styles.sectionHeader}>
+            <Icon name="time-outline" size={20} color={colors.accent} />
+            <Text style={styles.sectionTitle}>History</Text>
+          </View>
+          <BookingHistory events={booking.statusHistory} />
+        </View>
+      )}
+
       {payable && (
         <TouchableOpacity
           style={[styles.payButton, busy && styles.disabled]}
@@ -331,15 +511,58 @@ export default function OrderDetailsScreen() {
         <TouchableOpacity
           style={styles.cancelButton}
           onPress={() =>
-            Alert.alert('Cancel booking?', 'This updates the real CareBow booking.', [
-              { text: 'Keep booking', style: 'cancel' },
-              { text: 'Cancel booking', style: 'destructive', onPress: cancel },
-            ])
+            series
+              ? Alert.alert(
+                  'Cancel this visit?',
+                  'Only this visit is cancelled. The rest of the series stays booked.',
+                  [
+                    { text: 'Keep visit', style: 'cancel' },
+                    { text: 'Cancel visit', style: 'destructive', onPress: cancel },
+                  ]
+                )
+              : Alert.alert('Cancel booking?', 'This updates the real CareBow booking.', [
+                  { text: 'Keep booking', style: 'cancel' },
+                  { text: 'Cancel booking', style: 'destructive', onPress: cancel },
+                ])
           }
         >
-          <Text style={styles.cancelText}>Cancel booking</Text>
+          <Text style={styles.cancelText}>{series ? 'Cancel this visit' : 'Cancel booking'}</Text>
         </TouchableOpacity>
       )}
+
+      <RescheduleSheet
+        visible={showRescheduleSheet}
+        title={series ? 'Move this visit' : 'Reschedule booking'}
+        description={
+          series
+            ? `Visit ${series.position} of ${series.visitCount}. Other visits keep their times.`
+            : policyText
+        }
+        scheduledAt={booking.scheduledAt}
+        saving={rescheduler.moving}
+        checking={rescheduler.quoting}
+        serviceId={booking.service?.id}
+        onPreview={previewMove}
+        quoteSummary={quote ? describeRescheduleQuote(quote) : rescheduler.quoteError}
+        blocked={quote ? !quote.allowed : !!rescheduler.quoteError}
+        confirmLabel={
+          quote && quote.amountDueMinor > 0
+            ? `Pay ${money(quote.amountDueMinor, quote.currency ?? booking.currency)} and move`
+            : 'Move to this time'
+        }
+        onConfirm={moveBooking}
+        onClose={() => setShowRescheduleSheet(false)}
+      />
+
+      <AssessmentShareSheet
+        visible={showAssessmentSheet}
+        sessions={shareableSessions}
+        recipient={assessmentRecipient(booking)}
+        confirmLabel="Share with provider"
+        sending={assessmentShare.sharing}
+        onConfirm={shareAssessment}
+        onClose={() => setShowAssessmentSheet(false)}
+      />
     </ScrollView>
   );
 }
@@ -392,6 +615,32 @@ const styles = StyleSheet.create({
   listRow: { flexDirection: 'row', alignItems: 'flex-start', gap: spacing.sm },
   listCopy: { flex: 1 },
   secondaryValue: { ...typography.bodySmall, color: colors.textSecondary, marginTop: 2 },
+  assessmentCard: {
+    marginTop: spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface,
+    padding: spacing.md,
+  },
+  actionCard: {
+    marginTop: spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface,
+    padding: spacing.md,
+  },
+  cardAction: { ...typography.labelLarge, color: colors.accent },
+  historyCard: {
+    marginTop: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+  },
+  assessmentText: { ...typography.bodySmall, color: colors.textSecondary, flex: 1 },
   pendingOutcome: {
     marginTop: spacing.md,
     flexDirection: 'row',
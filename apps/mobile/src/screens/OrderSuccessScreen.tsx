@@ -1,24 +1,156 @@
-import React from 'react';
-import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/Ionicons';
 import type { AppNavigationProp } from '../navigation/types';
 import { colors, radius, spacing, typography } from '../theme';
+import { paymentsApi, type CartOrderStatusResponse } from '../services/api/endpoints/payments';
+import { describeCartLine, summarizeCartOrder } from '../lib/cartOrder';
 
 export default function OrderSuccessScreen() {
   const navigation = useNavigation() as AppNavigationProp;
+  const route = useRoute();
+  const insets = useSafeAreaInsets();
+  const { orderId } = (route.params as { orderId?: string }) || {};
+  const [order, setOrder] = useState<CartOrderStatusResponse | null>(null);
+  const [loading, setLoading] = useState(!!orderId);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Cart orders list every booking they created, as recorded by the server
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const res = await paymentsApi.getCartOrder(orderId);
+      if (!res.success) throw new Error(res.error);
+      setOrder(res);
+    } catch {
+      setLoadError('Could not load this order. Your bookings are still in My Bookings.');
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    void loadOrder();
+  }, [loadOrder]);
+
+  if (!orderId) {
+    return (
+      <View style={styles.container}>
+        <Icon name="checkmark-circle-outline" size={64} color={colors.success} />
+        <Text style={styles.title}>Request received</Text>
+        <Text style={styles.body}>
+          Open My Bookings to see the status saved by CareBow. This screen does not invent a
+          confirmation number or payment result.
+        </Text>
+        <TouchableOpacity style={styles.button} onPress={() => navigation.navigate('Orders')}>
+          <Text style={styles.buttonText}>View My Bookings</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (loading && !order) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.accent} />
+        <Text style={styles.body}>Loading your bookings…</Text>
+      </View>
+    );
+  }
+
+  if (!order) {
+    return (
+      <View style={styles.container}>
+        <Icon name="cloud-offline-outline" size={64} color={colors.textTertiary} />
+        <Text style={styles.body}>{loadError}</Text>
+        <TouchableOpacity style={styles.button} onPress={loadOrder}>
+          <Text style={styles.buttonText}>Try again</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => navigation.navigate('Orders')}>
+          <Text style={styles.link}>View My Bookings</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const summary = summarizeCartOrder(order);
+  const lines = order.lines ?? [];
+  const allBooked = order.status === 'SUCCESS';
+
   return (
-    <View style={styles.container}>
-      <Icon name="checkmark-circle-outline" size={64} color={colors.success} />
-      <Text style={styles.title}>Request received</Text>
-      <Text style={styles.body}>
-        Open My Bookings to see the status saved by CareBow. This screen does not invent a
-        confirmation number or payment result.
-      </Text>
+    <ScrollView
+      style={styles.scroll}
+      contentContainerStyle={[
+        styles.scrollContent,
+        { paddingTop: insets.top + spacing.xl, paddingBottom: insets.bottom + spacing.xl },
+      ]}
+    >
+      <Icon
+        name={allBooked ? 'checkmark-circle-outline' : 'information-circle-outline'}
+        size={64}
+        color={allBooked ? colors.success : colors.warning}
+      />
+      <Text style={styles.title}>{summary.title}</Text>
+      <Text style={styles.body}>{summary.body}</Text>
+
+      <View style={styles.lines}>
+        {lines.map((line) => {
+          const booking = line.booking;
+          const content = (
+            <>
+              <View style={styles.lineCopy}>
+                <Text style={styles.lineTitle}>{line.serviceName || 'Booking'}</Text>
+                {booking && (
+                  <Text style={styles.lineMeta}>
+                    {new Date(booking.scheduledAt).toLocaleString()}
+                  </Text>
+                )}
+                <Text style={[styles.lineStatus, line.status === 'BOOKED' && styles.lineBooked]}>
+                  {describeCartLine(line, order.currency)}
+                </Text>
+              </View>
+              {line.status === 'BOOKED' && booking && (
+                <Icon name="chevron-forward" size={18} color={colors.textTertiary} />
+              )}
+            </>
+          );
+          return line.status === 'BOOKED' && booking ? (
+            <TouchableOpacity
+              key={line.cartItemId}
+              style={styles.line}
+              onPress={() => navigation.navigate('OrderDetails', { id: booking.id })}
+              accessibilityRole="button"
+            >
+              {content}
+            </TouchableOpacity>
+          ) : (
+            <View key={line.cartItemId} style={styles.line}>
+              {content}
+            </View>
+          );
+        })}
+      </View>
+
+      {order.status === 'PENDING' && (
+        <TouchableOpacity onPress={loadOrder} disabled={loading}>
+          <Text style={styles.link}>{loading ? 'Checking…' : 'Check again'}</Text>
+        </TouchableOpacity>
+      )}
       <TouchableOpacity style={styles.button} onPress={() => navigation.navigate('Orders')}>
         <Text style={styles.buttonText}>View My Bookings</Text>
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -31,8 +163,31 @@ const styles = StyleSheet.create({
     padding: spacing.xl,
     backgroundColor: colors.surface2,
   },
+  scroll: { flex: 1, backgroundColor: colors.surface2 },
+  scrollContent: {
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
   title: { ...typography.h2, textAlign: 'center' },
   body: { ...typography.body, color: colors.textSecondary, textAlign: 'center' },
+  lines: { alignSelf: 'stretch', gap: spacing.sm },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  lineCopy: { flex: 1, gap: 2 },
+  lineTitle: { ...typography.body, fontWeight: '600' },
+  lineMeta: { ...typography.caption, color: colors.textTertiary },
+  lineStatus: { ...typography.bodySmall, color: colors.textSecondary },
+  lineBooked: { color: colors.success },
+  link: { ...typography.label, color: colors.accent },
   button: {
     backgroundColor: colors.accent,
     borderRadius: radius.md,
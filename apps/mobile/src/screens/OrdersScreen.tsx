@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   RefreshControl,
@@ -13,6 +13,8 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useBookingsStore } from '../store';
+import { describeWeekdays, groupBookingsBySeries } from '../lib/recurringCare';
+import type { V1Booking } from '../services/api/endpoints/member';
 import type { AppNavigationProp } from '../navigation/types';
 import { colors, layout, radius, shadows, space, typography } from '../theme/tokens';
 
@@ -23,6 +25,23 @@ import { formatMinor } from '../data/countries';
 const formatMoney = (amountMinor: number, currency?: string) =>
   formatMinor(amountMinor, currency ?? 'INR');
 
+// Unpaid is an ordinary state here — a quote priced after assessment, a
+// booking raised for the customer — and until there was somewhere to pay it,
+// the list gave no hint money was owed.
+const isPaymentDue = (booking: V1Booking) =>
+  booking.amount > 0 &&
+  booking.paymentStatus !== 'PAID' &&
+  booking.paymentStatus !== 'REFUNDED' &&
+  booking.paymentStatus !== 'REFUND_PENDING' &&
+  ['PENDING', 'CONFIRMED', 'IN_PROGRESS'].includes(booking.status);
+
+const formatVisitDate = (scheduledAt: string) =>
+  new Date(scheduledAt).toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
 export default function OrdersScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation() as AppNavigationProp;
@@ -35,6 +54,23 @@ export default function OrdersScreen() {
   const fetchBookings = useBookingsStore((s) => s.fetch);
 
   const [refreshing, setRefreshing] = useState(false);
+  const [expandedSeries, setExpandedSeries] = useState<string[]>([]);
+
+  // One card per recurring series, with its visits in date order underneath.
+  const groups = useMemo(
+    () =>
+      groupBookingsBySeries(bookings).map((group) =>
+        group.kind === 'series'
+          ? {
+              ...group,
+              bookings: [...group.bookings].sort(
+                (a, b) => +new Date(a.scheduledAt) - +new Date(b.scheduledAt)
+              ),
+            }
+          : group
+      ),
+    [bookings]
+  );
 
   // Only a first load shows the full-screen spinner; a refetch behind existing
   // rows should not blank the list.
@@ -96,17 +132,108 @@ export default function OrdersScreen() {
             </Text>
           </View>
         ) : (
-          bookings.map((booking) => {
+          groups.map((group) => {
+            if (group.kind === 'series') {
+              const { series, bookings: visits } = group;
+              const [first] = visits;
+              const last = visits[visits.length - 1];
+              const expanded = expandedSeries.includes(series.id);
+              const active = visits.filter((visit) => visit.status !== 'CANCELLED');
+              const total = active.reduce((sum, visit) => sum + visit.amount, 0);
+              const due = visits.some(isPaymentDue);
+              return (
+                <View key={series.id} style={styles.card}>
+                  <TouchableOpacity
+                    activeOpacity={0.85}
+                    style={styles.seriesSummary}
+                    onPress={() =>
+                      setExpandedSeries((current) =>
+                        expanded
+                          ? current.filter((id) => id !== series.id)
+                          : [...current, series.id]
+                      )
+                    }
+                    accessibilityRole="button"
+                    accessibilityState={{ expanded }}
+                  >
+                    <View style={styles.cardHeader}>
+                      <View style={styles.cardTitleWrap}>
+                        <Text style={styles.serviceName}>
+                          {first.service?.name || 'Care service'}
+                        </Text>
+                        <Text style={styles.bookingId}>
+                          Series of {series.visitCount} visits
+                          {active.length < visits.length
+                            ? ` · ${visits.length - active.length} cancelled`
+                            : ''}
+                        </Text>
+                      </View>
+                      <Icon
+                        name={expanded ? 'chevron-up' : 'chevron-down'}
+                        size={20}
+                        color={colors.text.tertiary}
+                      />
+                    </View>
+                    <View style={styles.detailRow}>
+                      <Icon name="person-outline" size={17} color={colors.text.tertiary} />
+                      <Text style={styles.detailText}>
+                        {first.profile?.name || 'Care recipient'}
+                      </Text>
+                    </View>
+                    <View style={styles.detailRow}>
+                      <Icon name="repeat" size={17} color={colors.text.tertiary} />
+                      <Text style={styles.detailText}>
+                        {describeWeekdays(series.rule.weekdays)} at{' '}
+                        {new Date(first.scheduledAt).toLocaleTimeString([], {
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                        {' · '}
+                        {formatVisitDate(first.scheduledAt)} – {formatVisitDate(last.scheduledAt)}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  {expanded &&
+                    visits.map((visit) => (
+                      <TouchableOpacity
+                        key={visit.id}
+                        style={styles.visitRow}
+                        onPress={() => navigation.navigate('OrderDetails', { id: visit.id })}
+                      >
+                        <Text style={styles.detailText}>
+                          {formatVisitDate(visit.scheduledAt)}
+                          {' at '}
+                          {new Date(visit.scheduledAt).toLocaleTimeString([], {
+                            hour: 'numeric',
+                            minute: '2-digit',
+                          })}
+                        </Text>
+                        <Text style={styles.visitStatus}>
+                          {visit.status.toLowerCase().replace(/_/g, ' ')}
+                        </Text>
+                        <Icon name="chevron-forward" size={16} color={colors.text.tertiary} />
+                      </TouchableOpacity>
+                    ))}
+
+                  <View style={styles.cardFooter}>
+                    <Text style={styles.amount}>{formatMoney(total, first.currency)}</Text>
+                    {due ? (
+                      <View style={styles.payChip}>
+                        <Icon name="card-outline" size={14} color={colors.text.inverse} />
+                        <Text style={styles.payChipText}>Payment due</Text>
+                      </View>
+                    ) : (
+                      <Text style={styles.confirmation}>Open a visit to move or cancel it</Text>
+                    )}
+                  </View>
+                </View>
+              );
+            }
+
+            const booking = group.booking;
             const date = new Date(booking.scheduledAt);
-            // Unpaid is an ordinary state here — a quote priced after
-            // assessment, a booking raised for the customer — and until there
-            // was somewhere to pay it, the list gave no hint money was owed.
-            const due =
-              booking.amount > 0 &&
-              booking.paymentStatus !== 'PAID' &&
-              booking.paymentStatus !== 'REFUNDED' &&
-              booking.paymentStatus !== 'REFUND_PENDING' &&
-              ['PENDING', 'CONFIRMED', 'IN_PROGRESS'].includes(booking.status);
+            const due = isPaymentDue(booking);
             return (
               <TouchableOpacity
                 key={booking.id}
@@ -232,6 +359,16 @@ const styles = StyleSheet.create({
   },
   statusText: { ...typography.caption, color: colors.primary.default, textTransform: 'capitalize' },
   detailRow: { flexDirection: 'row', alignItems: 'center', gap: space.sm },
+  seriesSummary: { gap: space.sm },
+  visitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: space.sm,
+    paddingVertical: space.xs,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+  visitStatus: { ...typography.caption, color: colors.text.tertiary, textTransform: 'capitalize' },
   detailText: { ...typography.body, color: colors.text.secondary, flex: 1 },
   cardFooter: {
     marginTop: space.xs,
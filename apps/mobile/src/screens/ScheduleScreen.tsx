@@ -16,12 +16,14 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import { Colors } from '@/constants/Colors';
 import { Spacing, BorderRadius, Shadow } from '@/constants/Spacing';
 import { useBookingsStore } from '@/store';
+import { describeWeekdays, groupBookingsBySeries, type BookingGroup } from '@/lib/recurringCare';
 
 export default function ScheduleScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [activeTab, setActiveTab] = useState<'upcoming' | 'past'>('upcoming');
   const [refreshing, setRefreshing] = useState(false);
+  const [expandedSeries, setExpandedSeries] = useState<string[]>([]);
 
   // Schedule, Orders and Booking Details now read the same server-state cache.
   // A cancel/payment/provider update cannot live in three independent copies.
@@ -60,6 +62,95 @@ export default function ScheduleScreen() {
       });
   }, [activeTab, bookings]);
 
+  // Visits of a recurring series collapse into one card, placed at its
+  // earliest (upcoming) or latest (past) visit.
+  const appointmentGroups = useMemo(() => groupBookingsBySeries(appointments), [appointments]);
+
+  const toggleSeries = (seriesId: string) =>
+    setExpandedSeries((current) =>
+      current.includes(seriesId) ? current.filter((id) => id !== seriesId) : [...current, seriesId]
+    );
+
+  const renderSeries = (group: Extract<BookingGroup, { kind: 'series' }>) => {
+    const [first] = group.bookings;
+    const expanded = expandedSeries.includes(group.series.id);
+    const time = new Date(first.scheduledAt).toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+    const visitCount = group.bookings.length;
+
+    return (
+      <View key={group.series.id} style={styles.appointmentCard}>
+        <TouchableOpacity
+          activeOpacity={0.85}
+          onPress={() => toggleSeries(group.series.id)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded }}
+        >
+          <View style={styles.appointmentHeader}>
+            <View style={styles.doctorAvatar}>
+              <Icon name="repeat" size={24} color={Colors.primary[600]} />
+            </View>
+            <View style={styles.doctorInfo}>
+              <Text style={styles.doctorName}>{first.service?.name || 'Care series'}</Text>
+              <Text style={styles.doctorSpecialty}>
+                {describeWeekdays(group.series.rule.weekdays)} at {time}
+                {first.profile?.name ? ` · ${first.profile.name}` : ''}
+              </Text>
+            </View>
+            <View style={styles.statusBadge}>
+              <Text style={styles.statusBadgeText}>series</Text>
+            </View>
+          </View>
+
+          <View style={styles.cardFooter}>
+            <Text style={styles.cardFooterText}>
+              {visitCount} {activeTab} visit{visitCount === 1 ? '' : 's'} of{' '}
+              {group.series.visitCount}
+              {activeTab === 'upcoming'
+                ? ` · next ${new Date(first.scheduledAt).toLocaleDateString([], {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                  })}`
+                : ''}
+            </Text>
+            <Icon
+              name={expanded ? 'chevron-up' : 'chevron-down'}
+              size={18}
+              color={Colors.gray[400]}
+            />
+          </View>
+        </TouchableOpacity>
+
+        {expanded &&
+          group.bookings.map((visit) => (
+            <TouchableOpacity
+              key={visit.id}
+              style={styles.visitRow}
+              onPress={() => navigation.navigate('OrderDetails', { id: visit.id })}
+            >
+              <Icon name="calendar-outline" size={16} color={Colors.gray[500]} />
+              <Text style={styles.visitText}>
+                {new Date(visit.scheduledAt).toLocaleString([], {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </Text>
+              <Text style={styles.visitStatus}>
+                {visit.status.toLowerCase().replace(/_/g, ' ')}
+              </Text>
+              <Icon name="chevron-forward" size={16} color={Colors.gray[400]} />
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
   const loading = bookingStatus === 'loading' && bookings.length === 0;
   const loadError = bookingStatus === 'error' && bookings.length === 0;
 
@@ -134,7 +225,9 @@ export default function ScheduleScreen() {
           </View>
         ) : appointments.length > 0 ? (
           <View style={styles.appointmentsList}>
-            {appointments.map((appointment) => {
+            {appointmentGroups.map((group) => {
+              if (group.kind === 'series') return renderSeries(group);
+              const appointment = group.booking;
               const providerAssigned = Boolean(appointment.provider?.name);
               const scheduledAt = new Date(appointment.scheduledAt);
               const paymentDue =
@@ -409,6 +502,24 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: Colors.gray[600],
   },
+  visitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing[2],
+    paddingVertical: Spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray[100],
+  },
+  visitText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.gray[700],
+  },
+  visitStatus: {
+    fontSize: 12,
+    color: Colors.gray[500],
+    textTransform: 'capitalize',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: Spacing[12],
@@ -17,6 +17,7 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import type { AppNavigationProp } from '../navigation/types';
 import { colors, spacing, radius, typography, shadows, layout } from '../theme';
@@ -27,14 +28,24 @@ import { MemberPicker } from '../components/ui/MemberPicker';
 import { RequestTextArea } from '../components/ui/RequestTextArea';
 import { StickyCheckoutBar } from '../components/ui/StickyCheckoutBar';
 import { TimePicker } from '../components/ui/TimePicker';
+import { RecurrencePicker } from '../components/ui/RecurrencePicker';
 import { QuantityStepper } from '../components/ui/QuantityStepper';
 import { calculatePrice, getServiceById } from '../data/services';
-import { Member, PackageOption } from '../data/types';
+import { Member, PackageOption, RecurrenceRule } from '../data/types';
 import { useCartStore } from '../store/useCartStore';
 import { useProfileStore } from '../store/useProfileStore';
 import { profilesApi } from '../services/api/endpoints/profiles';
 import { servicesApi } from '../services/api/endpoints/services';
 import { preferredTimeOptions, toBookingService } from '../lib/liveServiceCatalog';
+import { expandRecurrence } from '../lib/recurringCare';
+import {
+  deviceTimeZone,
+  slotsForDate,
+  timeZoneLabel,
+  unavailableDates,
+  upcomingDates,
+} from '../lib/availability';
+import { useServiceAvailability } from '../hooks/useServiceAvailability';
 import { formatMoney } from '../data/countries';
 import type { Service } from '../data/types';
 
@@ -67,6 +78,8 @@ export default function ServiceDetailsScreen() {
 
   // Store hooks
   const { bookingDraft, initBookingDraft, updateBookingDraft, clearBookingDraft } = useCartStore();
+  const addItemFromDraft = useCartStore((state) => state.addItemFromDraft);
+  const cartCount = useCartStore((state) => state.items.length);
   const country = useProfileStore((state) => state.country);
   const [service, setService] = useState<Service | null>(null);
   const [bookingMembers, setBookingMembers] = useState<Member[]>([]);
@@ -154,6 +167,54 @@ export default function ServiceDetailsScreen() {
     };
   }, [service?.id]);
 
+  // Published slots, when the service has them. Otherwise the customer picks a
+  // preferred time and the care team confirms it after submission.
+  const daysAhead = service?.booking.maxDaysAhead || 14;
+  const availability = useServiceAvailability(
+    service?.booking.requiresTime ? service.id : undefined,
+    daysAhead
+  );
+  const liveSlots = availability.status === 'ready';
+  const daySlots = useMemo(
+    () =>
+      liveSlots && bookingDraft?.date
+        ? slotsForDate(availability.slots, bookingDraft.date, availability.timeZone)
+        : null,
+    [liveSlots, availability.slots, availability.timeZone, bookingDraft?.date]
+  );
+  const fullDates = useMemo(
+    () =>
+      liveSlots
+        ? unavailableDates(
+            availability.slots,
+            upcomingDates(daysAhead, availability.timeZone),
+            availability.timeZone
+          )
+        : [],
+    [liveSlots, availability.slots, availability.timeZone, daysAhead]
+  );
+
+  // A slot taken while the customer was away drops their selection.
+  const selectedTime = bookingDraft?.startTime;
+  const selectedSlot = bookingDraft?.slotStartsAt;
+  useEffect(() => {
+    if (!daySlots || !selectedTime || !selectedSlot) return;
+    if (!daySlots.startsAt[selectedTime] || daySlots.taken.includes(selectedTime)) {
+      updateBookingDraft({ startTime: null, slotStartsAt: null, slotTimeZone: null });
+    }
+  }, [daySlots, selectedTime, selectedSlot, updateBookingDraft]);
+
+  // A recurring series has no visits until its first date is chosen.
+  const seriesVisits = useMemo(
+    () =>
+      bookingDraft?.recurrence
+        ? bookingDraft.date
+          ? expandRecurrence(bookingDraft.date, bookingDraft.recurrence).length
+          : 0
+        : null,
+    [bookingDraft?.recurrence, bookingDraft?.date]
+  );
+
   // Calculate current pricing based on selections
   const pricing = useMemo(() => {
     if (!service || !bookingDraft) {
@@ -164,8 +225,9 @@ export default function ServiceDetailsScreen() {
       packageId: bookingDraft.selectedPackageId || undefined,
       hours: bookingDraft.hours || undefined,
       days: bookingDraft.days || undefined,
+      visits: seriesVisits || undefined,
     });
-  }, [service, bookingDraft?.selectedPackageId, bookingDraft?.hours, bookingDraft?.days]);
+  }, [service, bookingDraft, seriesVisits]);
 
   // Update draft pricing when it changes
   useEffect(() => {
@@ -205,15 +267,31 @@ export default function ServiceDetailsScreen() {
   // Handle date selection
   const handleSelectDate = useCallback(
     (date: string) => {
-      updateBookingDraft({ date });
+      // Published times differ day to day, so a new date needs a new slot.
+      updateBookingDraft(
+        liveSlots ? { date, startTime: null, slotStartsAt: null, slotTimeZone: null } : { date }
+      );
     },
-    [updateBookingDraft]
+    [updateBookingDraft, liveSlots]
   );
 
   // Handle time selection
   const handleSelectTime = useCallback(
     (time: string) => {
-      updateBookingDraft({ startTime: time });
+      const slotStartsAt = daySlots?.startsAt[time] ?? null;
+      updateBookingDraft({
+        startTime: time,
+        slotStartsAt,
+        slotTimeZone: slotStartsAt ? availability.timeZone : null,
+      });
+    },
+    [updateBookingDraft, daySlots, availability.timeZone]
+  );
+
+  // Handle repeat selection
+  const handleRecurrenceChange = useCallback(
+    (recurrence: RecurrenceRule | null) => {
+      updateBookingDraft({ recurrence });
     },
     [updateBookingDraft]
   );
@@ -248,12 +326,14 @@ export default function ServiceDetailsScreen() {
     if (service.booking.requiresMember && !bookingDraft.memberId) return false;
     if (service.booking.requiresDate && !bookingDraft.date) return false;
     if (service.booking.requiresTime && !bookingDraft.startTime) return false;
+    if (service.booking.requiresTime && liveSlots && !bookingDraft.slotStartsAt) return false;
     if (service.pricing.type === 'packages' && !bookingDraft.selectedPackageId) return false;
     if (service.pricing.type === 'hourly' && !bookingDraft.hours) return false;
     if (service.pricing.type === 'daily' && !bookingDraft.days) return false;
+    if (seriesVisits === 0) return false;
     if (service.request?.required && !bookingDraft.requestNotes.trim()) return false;
     return true;
-  }, [service, bookingDraft]);
+  }, [service, bookingDraft, seriesVisits, liveSlots]);
 
   // Handle checkout flow
   const handleCheckout = async () => {
@@ -265,6 +345,19 @@ export default function ServiceDetailsScreen() {
     navigation.navigate('Checkout' as never, { serviceId: service.id });
   };
 
+  // Park this booking in the cart so several can be paid for together
+  const handleAddToCart = () => {
+    if (!service || !bookingDraft || !isValid) {
+      Alert.alert('Missing Information', 'Please complete all required fields to continue.');
+      return;
+    }
+    if (!addItemFromDraft()) {
+      Alert.alert('Could not add to cart', 'Please choose who it is for, a date and a time.');
+      return;
+    }
+    navigation.navigate('Cart');
+  };
+
   if (isLoadingService) {
     return (
       <View style={[styles.container, styles.centeredState, { paddingTop: insets.top }]}>
@@ -290,11 +383,18 @@ export default function ServiceDetailsScreen() {
   }
 
   const icon = getServiceIcon(service.image);
-  const availableSlots = service.booking.availableTimeSlots || preferredTimeOptions;
+  const availableSlots = daySlots
+    ? daySlots.times
+    : service.booking.availableTimeSlots || preferredTimeOptions;
+  const zoneLabel =
+    liveSlots && availability.timeZone !== deviceTimeZone()
+      ? timeZoneLabel(availability.timeZone)
+      : undefined;
 
   const buttonLabel = 'Review booking';
-  const confirmationNote =
-    'Your preferred time is confirmed only after the care team accepts the booking';
+  const confirmationNote = liveSlots
+    ? 'Your slot is held for a few minutes while you review and pay'
+    : 'Your preferred time is confirmed only after the care team accepts the booking';
 
   return (
     <View style={styles.container}>
@@ -311,7 +411,19 @@ export default function ServiceDetailsScreen() {
           <AppIcon name="arrow-left" size={22} color={colors.textPrimary} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Service Details</Text>
-        <View style={styles.backButton} />
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.navigate('Cart')}
+          accessibilityRole="button"
+          accessibilityLabel={cartCount > 0 ? `Cart, ${cartCount} items` : 'Cart'}
+        >
+          <Icon name="cart-outline" size={22} color={colors.textPrimary} />
+          {cartCount > 0 && (
+            <View style={styles.cartBadge}>
+              <Text style={styles.cartBadgeText}>{cartCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
 
       <KeyboardAvoidingView
@@ -380,11 +492,17 @@ export default function ServiceDetailsScreen() {
           {service.booking.requiresDate && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Select date</Text>
-              <Text style={styles.sectionHint}>Choose your preferred appointment date</Text>
+              <Text style={styles.sectionHint}>
+                {liveSlots
+                  ? 'Greyed-out days are fully booked'
+                  : 'Choose your preferred appointment date'}
+              </Text>
               <HorizontalDatePicker
                 selectedDate={bookingDraft?.date || null}
                 onSelectDate={handleSelectDate}
-                daysToShow={service.booking.maxDaysAhead || 14}
+                daysToShow={daysAhead}
+                timeZone={liveSlots ? availability.timeZone : undefined}
+                disabledDates={fullDates}
               />
             </View>
           )}
@@ -394,12 +512,37 @@ export default function ServiceDetailsScreen() {
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Select time</Text>
               <Text style={styles.sectionHint}>
-                Choose a preferred time; availability is confirmed after submission
+                {liveSlots
+                  ? 'Open times on the care team calendar; taken times are greyed out'
+                  : 'Choose a preferred time; availability is confirmed after submission'}
               </Text>
-              <TimePicker
-                availableSlots={availableSlots}
-                selectedTime={bookingDraft?.startTime || null}
-                onSelectTime={handleSelectTime}
+              {availability.status === 'loading' ? (
+                <ActivityIndicator color={colors.accent} />
+              ) : liveSlots && !daySlots ? (
+                <Text style={styles.sectionHint}>Choose a date to see open times</Text>
+              ) : (
+                <TimePicker
+                  availableSlots={availableSlots}
+                  selectedTime={bookingDraft?.startTime || null}
+                  onSelectTime={handleSelectTime}
+                  disabledSlots={daySlots?.taken}
+                  timeZoneLabel={zoneLabel}
+                />
+              )}
+            </View>
+          )}
+
+          {/* Repeat Selection */}
+          {service.booking.allowsRecurrence && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Repeat</Text>
+              <Text style={styles.sectionHint}>
+                Book a series of visits at the same time; each one can be moved or cancelled later
+              </Text>
+              <RecurrencePicker
+                value={bookingDraft?.recurrence ?? null}
+                startDate={bookingDraft?.date || null}
+                onChange={handleRecurrenceChange}
               />
             </View>
           )}
@@ -434,8 +577,8 @@ export default function ServiceDetailsScreen() {
             </View>
           )}
 
-          {/* Daily Selection */}
-          {service.pricing.type === 'daily' && (
+          {/* Daily Selection (a series is priced one day per visit) */}
+          {service.pricing.type === 'daily' && !bookingDraft?.recurrence && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Choose duration</Text>
               <Text style={styles.sectionHint}>Select the number of days</Text>
@@ -545,6 +688,8 @@ export default function ServiceDetailsScreen() {
           buttonLabel={buttonLabel}
           onPress={handleCheckout}
           disabled={!isValid}
+          secondaryLabel={service.pricing.type !== 'quote' ? 'Add to cart' : undefined}
+          onSecondaryPress={handleAddToCart}
         />
       </KeyboardAvoidingView>
     </View>
@@ -583,6 +728,23 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...typography.h3,
   },
+  cartBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cartBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.white,
+  },
   shareButton: {
     width: 40,
     height: 40,
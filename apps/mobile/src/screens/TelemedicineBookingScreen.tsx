@@ -20,8 +20,8 @@ export default function TelemedicineBookingScreen() {
         </View>
         <Text style={styles.title}>Find a live consultation</Text>
         <Text style={styles.body}>
-          CareBow does not publish unverified doctors or appointment slots. Browse the live catalog
-          to see consultations currently offered by the care team.
+          CareBow does not publish unverified doctors. Open a consultation from the live catalog to
+          see the times its care team has published, or request a preferred time.
         </Text>
         <TouchableOpacity
           style={styles.button}
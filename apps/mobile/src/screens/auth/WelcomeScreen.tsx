@@ -23,11 +23,14 @@ import {
   shadows,
 } from '@/theme/tokens';
 import type { AuthStackParamList } from '@/navigation/types';
+import { useMedicalIdCards } from '@/features/medicalId/store';
 
 type WelcomeScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Welcome'>;
 
 export default function WelcomeScreen() {
   const navigation = useNavigation<WelcomeScreenNavigationProp>();
+  // Cards saved by a signed-in user stay readable here for first responders.
+  const hasMedicalId = useMedicalIdCards().length > 0;
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -85,6 +88,19 @@ export default function WelcomeScreen() {
               Already have an account? <Text style={styles.linkText}>Sign in</Text>
             </Text>
           </Pressable>
+
+          {hasMedicalId && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.medicalIdButton,
+                pressed && styles.buttonPressed,
+              ]}
+              onPress={() => navigation.navigate('MedicalId')}
+            >
+              <Icon name="medkit" size={18} color={colors.error.default} />
+              <Text style={styles.medicalIdText}>Emergency Medical ID</Text>
+            </Pressable>
+          )}
         </View>
       </View>
     </SafeAreaView>
@@ -204,6 +220,19 @@ const styles = StyleSheet.create({
     ...typography.body,
     color: colors.text.secondary,
   },
+  medicalIdButton: {
+    height: 44,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: space.xs,
+    borderRadius: radius.lg,
+    backgroundColor: colors.error.muted,
+  },
+  medicalIdText: {
+    ...typography.label,
+    color: colors.error.default,
+  },
   linkText: {
     color: colors.primary.default,
     fontWeight: '600',
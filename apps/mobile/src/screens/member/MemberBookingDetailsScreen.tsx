@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Linking,
   ScrollView,
   StyleSheet,
@@ -13,6 +14,11 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import type { AppNavigationProp } from '@/navigation/types';
 import { memberApi, type V1Booking } from '@/services/api/endpoints/member';
+import { RescheduleSheet } from '@/components/booking/RescheduleSheet';
+import { BookingHistory } from '@/components/booking/BookingHistory';
+import { useBookingReschedule } from '@/hooks/useBookingReschedule';
+import { canReschedule, describeRescheduleQuote } from '@/lib/reschedule';
+import { formatMinor } from '@/data/countries';
 import { colors, radius, spacing, typography, shadows } from '@/theme';
 
 export default function MemberBookingDetailsScreen() {
@@ -23,6 +29,15 @@ export default function MemberBookingDetailsScreen() {
   const [booking, setBooking] = useState<V1Booking | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showRescheduleSheet, setShowRescheduleSheet] = useState(false);
+  const rescheduler = useBookingReschedule();
+  const { requestQuote } = rescheduler;
+  const previewMove = useCallback(
+    (scheduledAt: string | null) => {
+      if (id) void requestQuote(id, scheduledAt);
+    },
+    [id, requestQuote]
+  );
 
   const load = useCallback(async () => {
     if (!id) {
@@ -53,6 +68,33 @@ export default function MemberBookingDetailsScreen() {
     void load();
   }, [load]);
 
+  const moveAppointment = async (scheduledAt: string, slotHoldId?: string) => {
+    if (!id || !rescheduler.quote) return;
+    const outcome = await rescheduler.move(id, scheduledAt, rescheduler.quote, slotHoldId);
+    if (outcome.status === 'error') {
+      Alert.alert('Could not move this appointment', outcome.error);
+      return;
+    }
+    if (outcome.status === 'payment_failed') {
+      Alert.alert(
+        'Payment not completed',
+        'Nothing was charged and the appointment keeps its time.'
+      );
+      return;
+    }
+    setShowRescheduleSheet(false);
+    if (outcome.status === 'moved') {
+      setBooking(outcome.booking);
+      const movedTo = new Date(outcome.booking.scheduledAt).toLocaleString();
+      Alert.alert(
+        'Appointment moved',
+        `Now on ${movedTo}. The family sees the new time in their app.`
+      );
+      return;
+    }
+    await load();
+  };
+
   const openContact = (value: string, kind: 'phone' | 'email') => {
     const href = kind === 'phone' ? `tel:${value}` : `mailto:${value}`;
     void Linking.openURL(href).catch(() => {});
@@ -86,6 +128,9 @@ export default function MemberBookingDetailsScreen() {
   const when = new Date(booking.scheduledAt);
   const phone = booking.user?.phoneNumber?.trim();
   const email = booking.user?.email?.trim();
+  const movable = canReschedule(booking);
+  const quote = rescheduler.quote;
+  const currency = quote?.currency ?? booking.currency ?? 'INR';
 
   return (
     <View style={styles.container}>
@@ -140,6 +185,19 @@ export default function MemberBookingDetailsScreen() {
           {booking.address ? (
             <DetailRow icon="location-outline" label="Address" value={booking.address} />
           ) : null}
+          {movable.ok ? (
+            <TouchableOpacity
+              style={styles.contactRow}
+              onPress={() => setShowRescheduleSheet(true)}
+              accessibilityRole="button"
+            >
+              <Icon name="swap-horizontal-outline" size={18} color={colors.accent} />
+              <Text style={[styles.contactValue, styles.actionText]}>Reschedule appointment</Text>
+              <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+            </TouchableOpacity>
+          ) : booking.status === 'PENDING' || booking.status === 'CONFIRMED' ? (
+            <Text style={styles.sectionHint}>{movable.reason}</Text>
+          ) : null}
         </View>
 
         {booking.notes?.trim() ? (
@@ -196,7 +254,34 @@ export default function MemberBookingDetailsScreen() {
             ) : null}
           </View>
         )}
+
+        {booking.statusHistory && booking.statusHistory.length > 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <BookingHistory events={booking.statusHistory} />
+          </View>
+        ) : null}
       </ScrollView>
+
+      <RescheduleSheet
+        visible={showRescheduleSheet}
+        title="Reschedule appointment"
+        description="Choose a new time for this visit. The family is shown the change."
+        scheduledAt={booking.scheduledAt}
+        saving={rescheduler.moving}
+        checking={rescheduler.quoting}
+        serviceId={booking.service?.id}
+        onPreview={previewMove}
+        quoteSummary={quote ? describeRescheduleQuote(quote) : rescheduler.quoteError}
+        blocked={quote ? !quote.allowed : !!rescheduler.quoteError}
+        confirmLabel={
+          quote && quote.amountDueMinor > 0
+            ? `Pay ${formatMinor(quote.amountDueMinor, currency)} and move`
+            : 'Move to this time'
+        }
+        onConfirm={moveAppointment}
+        onClose={() => setShowRescheduleSheet(false)}
+      />
     </View>
   );
 }
@@ -296,6 +381,7 @@ const styles = StyleSheet.create({
     paddingTop: spacing.sm,
   },
   contactValue: { ...typography.body, color: colors.textPrimary, flex: 1 },
+  actionText: { color: colors.accent },
   state: {
     flex: 1,
     alignItems: 'center',
@@ -14,6 +14,7 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, radius, spacing, typography, shadows } from '../../theme';
 import { useAskCarebowStore } from '../../store/askCarebowStore';
 import { useBookingsStore } from '../../store';
+import { useSessionExport } from '../../hooks/useSessionExport';
 
 type Tab = 'all' | 'bookings' | 'conversations';
 
@@ -22,6 +23,7 @@ export default function CareHistoryScreen() {
   const navigation = useNavigation<any>();
   const sessions = useAskCarebowStore((state) => state.sessions);
   const resumeSession = useAskCarebowStore((state) => state.resumeSession);
+  const { exporting, promptExport } = useSessionExport();
   const [tab, setTab] = useState<Tab>('all');
   const bookings = useBookingsStore((s) => s.bookings);
   const status = useBookingsStore((s) => s.status);
@@ -173,7 +175,22 @@ export default function CareHistoryScreen() {
                   </View>
                   <View style={styles.trailing}>
                     <Text style={styles.status}>{item.status}</Text>
-                    <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                    {item.kind === 'conversation' ? (
+                      <TouchableOpacity
+                        style={styles.shareButton}
+                        disabled={exporting}
+                        accessibilityLabel="Share with a doctor"
+                        hitSlop={8}
+                        onPress={() => {
+                          const session = sessions.find((s) => s.id === item.sessionId);
+                          if (session) promptExport(session);
+                        }}
+                      >
+                        <Icon name="share-outline" size={16} color={colors.accent} />
+                      </TouchableOpacity>
+                    ) : (
+                      <Icon name="chevron-forward" size={16} color={colors.textTertiary} />
+                    )}
                   </View>
                 </TouchableOpacity>
               ))
@@ -257,4 +274,5 @@ const styles = StyleSheet.create({
   cardDate: { ...typography.caption, color: colors.textTertiary, marginTop: spacing.xxs },
   trailing: { alignItems: 'flex-end', gap: spacing.xxs },
   status: { ...typography.caption, color: colors.accent, textTransform: 'capitalize' },
+  shareButton: { padding: spacing.xxs },
 });
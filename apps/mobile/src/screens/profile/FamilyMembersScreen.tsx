@@ -21,7 +21,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, spacing, radius, typography, shadows, components } from '../../theme';
-import { useProfileStore } from '../../store/useProfileStore';
+import { useProfileStore, usePendingProfileSync } from '../../store/useProfileStore';
 import { useAuthStore } from '../../store/useAuthStore';
 import { profilesApi } from '../../services/api/endpoints/profiles';
 import {
@@ -30,6 +30,7 @@ import {
   relationshipForBackend,
 } from '../../lib/profileSync';
 import { hydrateOwnedProfilesFromServer } from '../../lib/profileRepository';
+import { useMissedDoseStreaks } from '../../features/medications';
 import {
   FamilyMember,
   Gender,
@@ -67,6 +68,7 @@ export default function FamilyMembersScreen() {
   const addMember = useProfileStore((state) => state.addMember);
   const deleteMember = useProfileStore((state) => state.deleteMember);
   const setDefaultMember = useProfileStore((state) => state.setDefaultMember);
+  const pendingSyncCount = usePendingProfileSync();
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [newFirstName, setNewFirstName] = useState('');
@@ -77,6 +79,8 @@ export default function FamilyMembersScreen() {
   const [isSaving, setIsSaving] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
+  // Missed-dose streaks across everyone this account manages.
+  const missedDoseStreaks = useMissedDoseStreaks();
 
   const refreshProfiles = useCallback(
     async (showSpinner = false) => {
@@ -281,6 +285,17 @@ export default function FamilyMembersScreen() {
           </View>
         )}
 
+        {pendingSyncCount > 0 && (
+          <View style={styles.syncWarning}>
+            <Icon name="cloud-upload-outline" size={20} color={colors.warning} />
+            <Text style={styles.syncWarningText}>
+              {pendingSyncCount === 1
+                ? 'One profile change is saved on this device and will sync when you are back online.'
+                : `${pendingSyncCount} profile changes are saved on this device and will sync when you are back online.`}
+            </Text>
+          </View>
+        )}
+
         {/* Members List */}
         {members.length > 0 ? (
           <View style={styles.membersList}>
@@ -317,6 +332,19 @@ export default function FamilyMembersScreen() {
                   <Icon name="chevron-forward" size={20} color={colors.textTertiary} />
                 </View>
 
+                {/* Missed doses (streaks are sorted longest first) */}
+                {missedDoseStreaks
+                  .filter((streak) => streak.memberId === member.id)
+                  .slice(0, 1)
+                  .map((streak) => (
+                    <View key={streak.scheduleId} style={styles.missedDoseAlert}>
+                      <Icon name="alert-circle" size={16} color={colors.error} />
+                      <Text style={styles.missedDoseText}>
+                        Missed the last {streak.count} doses of {streak.medicationName}
+                      </Text>
+                    </View>
+                  ))}
+
                 {/* Profile Completeness */}
                 <View style={styles.completenessSection}>
                   <View style={styles.completenessHeader}>
@@ -633,6 +661,20 @@ const styles = StyleSheet.create({
     ...typography.bodySmall,
     color: colors.textSecondary,
   },
+  missedDoseAlert: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.errorSoft,
+    borderRadius: radius.sm,
+    padding: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  missedDoseText: {
+    ...typography.caption,
+    color: colors.error,
+    flex: 1,
+  },
   completenessSection: {
     marginBottom: spacing.md,
     paddingTop: spacing.md,
@@ -26,6 +26,13 @@ import {
   type MemberHealthInfo,
 } from '../../types/profile';
 import { persistMemberSnapshot } from '../../lib/profileRepository';
+import {
+  AdherenceLog,
+  MedicationScheduleSheet,
+  describeSchedule,
+  useMedicationSchedules,
+  useMedicationStore,
+} from '../../features/medications';
 
 type ModalType = 'allergy' | 'condition' | 'medication' | null;
 
@@ -44,6 +51,11 @@ export default function MemberDetailsScreen() {
   const [modalSecondInput, setModalSecondInput] = useState('');
   const [modalThirdInput, setModalThirdInput] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [scheduleMedicationId, setScheduleMedicationId] = useState<string | null>(null);
+  const schedules = useMedicationSchedules();
+  const removeScheduleForMedication = useMedicationStore(
+    (state) => state.removeScheduleForMedication
+  );
 
   if (!member) {
     return (
@@ -196,12 +208,14 @@ export default function MemberDetailsScreen() {
         text: 'Remove',
         style: 'destructive',
         onPress: async () => {
-          await persistHealthInfo({
+          const saved = await persistHealthInfo({
             ...member.healthInfo,
             medications: member.healthInfo.medications.filter(
               (medication) => medication.id !== medicationId
             ),
           });
+          // A schedule for a medication that is no longer recorded would keep reminding.
+          if (saved) removeScheduleForMedication(member.id, medicationId);
         },
       },
     ]);
@@ -362,6 +376,9 @@ export default function MemberDetailsScreen() {
                 const instructions = [medication.dosage, medication.frequency]
                   .filter(Boolean)
                   .join(' - ');
+                const schedule = schedules.find(
+                  (s) => s.memberId === member.id && s.medicationId === medication.id
+                );
                 return (
                   <View key={medication.id} style={styles.itemCard}>
                     <View style={[styles.itemIcon, { backgroundColor: colors.infoSoft }]}>
@@ -372,7 +389,20 @@ export default function MemberDetailsScreen() {
                       <Text style={styles.itemMeta}>
                         {instructions || 'Dose and frequency not specified'}
                       </Text>
+                      {schedule && (
+                        <Text style={styles.itemSchedule}>{describeSchedule(schedule)}</Text>
+                      )}
                     </View>
+                    <TouchableOpacity
+                      style={styles.itemAction}
+                      onPress={() => setScheduleMedicationId(medication.id)}
+                    >
+                      <Icon
+                        name={schedule?.remindersEnabled ? 'alarm' : 'alarm-outline'}
+                        size={22}
+                        color={schedule ? colors.accent : colors.textTertiary}
+                      />
+                    </TouchableOpacity>
                     <TouchableOpacity
                       onPress={() => handleRemoveMedication(medication.id, medication.name)}
                       disabled={isSaving}
@@ -390,11 +420,33 @@ export default function MemberDetailsScreen() {
           )}
         </View>
 
+        {/* Adherence Section */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <View>
+              <Text style={styles.sectionTitle}>Adherence</Text>
+              <Text style={styles.sectionDescription}>
+                Doses from the last 7 days. Schedules and this log are kept on this device.
+              </Text>
+            </View>
+          </View>
+          <AdherenceLog memberId={member.id} memberName={member.firstName} />
+        </View>
+
         {/* Mobility intentionally omitted for launch. The current Profile API
             has no mobility field; showing an editable control here would imply
             cloud persistence that does not exist. */}
       </ScrollView>
 
+      <MedicationScheduleSheet
+        visible={scheduleMedicationId !== null}
+        member={member}
+        medication={
+          member.healthInfo.medications.find((m) => m.id === scheduleMedicationId) ?? null
+        }
+        onClose={() => setScheduleMedicationId(null)}
+      />
+
       {/* Add Modal */}
       <Modal visible={activeModal !== null} animationType="slide" presentationStyle="pageSheet">
         <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
@@ -655,6 +707,13 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.textTertiary,
   },
+  itemSchedule: {
+    ...typography.caption,
+    color: colors.accent,
+  },
+  itemAction: {
+    paddingHorizontal: spacing.xxs,
+  },
   emptyList: {
     paddingVertical: spacing.lg,
     alignItems: 'center',
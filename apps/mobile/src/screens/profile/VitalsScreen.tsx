@@ -1,10 +1,11 @@
 /**
  * Vitals Screen
- * Log a new vital reading and review history for the active profile.
+ * Log a new vital reading, review trends and history for the active profile,
+ * and flag readings outside the member's age-appropriate range.
  * Backed by `/v1/vitals` via `vitalsApi`.
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -16,6 +17,7 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -23,52 +25,33 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import { colors, spacing, radius, typography, shadows } from '@/theme';
 import { vitalsApi, Vital } from '@/services/api/endpoints/vitals';
 import { useSelectedMember } from '@/store/useProfileStore';
+import { usePendingSyncCount } from '@/store/useOutboxStore';
 import { backendProfileIdForVitals } from '@/lib/vitalsPatientBinding';
+import { ageFromDateOfBirth } from '@/lib/askCarebow/patientContext';
+import type { AppNavigationProp } from '@/navigation/types';
+import {
+  AbnormalVitalAlert,
+  AbnormalVitalEntry,
+  VITAL_ENTRY_CONFIG,
+  VITAL_ENTRY_TYPES,
+  VitalEntryType,
+  VitalTrendChart,
+  assessEntry,
+  describeAbnormalEntry,
+  displayUnitFor,
+  findAbnormalEntries,
+  formatEntryValue,
+  groupReadingsByEntry,
+  parseVitalEntry,
+  parseVitals,
+  statusLabel,
+  toVitalPayload,
+  unitsForEntry,
+  useVitalUnitPreferences,
+  useVitalsStore,
+} from '@/features/vitals';
 
-type VitalTypeKey = 'blood_pressure' | 'heart_rate' | 'blood_sugar' | 'weight' | 'temperature';
-
-const VITAL_TYPES: Record<
-  VitalTypeKey,
-  {
-    label: string;
-    unit: string;
-    placeholder: string;
-    keyboardType: 'default' | 'numeric' | 'decimal-pad';
-  }
-> = {
-  blood_pressure: {
-    label: 'Blood Pressure',
-    unit: 'mmHg',
-    placeholder: 'e.g., 120/80',
-    keyboardType: 'default',
-  },
-  heart_rate: {
-    label: 'Heart Rate',
-    unit: 'bpm',
-    placeholder: 'e.g., 72',
-    keyboardType: 'numeric',
-  },
-  blood_sugar: {
-    label: 'Blood Sugar',
-    unit: 'mg/dL',
-    placeholder: 'e.g., 95',
-    keyboardType: 'numeric',
-  },
-  weight: {
-    label: 'Weight',
-    unit: 'kg',
-    placeholder: 'e.g., 68',
-    keyboardType: 'decimal-pad',
-  },
-  temperature: {
-    label: 'Temperature',
-    unit: '°F',
-    placeholder: 'e.g., 98.6',
-    keyboardType: 'decimal-pad',
-  },
-};
-
-const typeLabel = (type: string) => VITAL_TYPES[type as VitalTypeKey]?.label ?? type;
+const HISTORY_LIMIT = 200;
 
 const whenLabel = (iso: string) =>
   new Date(iso).toLocaleString([], {
@@ -80,14 +63,14 @@ const whenLabel = (iso: string) =>
 
 export default function VitalsScreen() {
   const insets = useSafeAreaInsets();
-  const navigation = useNavigation();
+  const navigation = useNavigation() as AppNavigationProp;
   const selectedMember = useSelectedMember();
   const profileId = backendProfileIdForVitals(selectedMember);
   const activeProfileIdRef = useRef(profileId);
   const loadRequestRef = useRef(0);
   activeProfileIdRef.current = profileId;
 
-  const [selectedType, setSelectedType] = useState<VitalTypeKey>('blood_pressure');
+  const [selectedType, setSelectedType] = useState<VitalEntryType>('blood_pressure');
   const [value, setValue] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
@@ -95,6 +78,17 @@ export default function VitalsScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const pendingReadings = usePendingSyncCount('vitals');
+  const pendingReadingsRef = useRef(pendingReadings);
+
+  const unitPreferences = useVitalUnitPreferences();
+  const setUnitPreference = useVitalsStore((state) => state.setUnitPreference);
+  const entryUnit = displayUnitFor(selectedType, unitPreferences);
+  const age = ageFromDateOfBirth(selectedMember?.dateOfBirth);
+
+  const readings = useMemo(() => parseVitals(vitals), [vitals]);
+  const entries = useMemo(() => groupReadingsByEntry(readings), [readings]);
+  const abnormalEntries = useMemo(() => findAbnormalEntries(readings, age), [readings, age]);
 
   /**
    * Read only the exact selected patient's backend profile. A previous version
@@ -115,7 +109,7 @@ export default function VitalsScreen() {
 
     try {
       setError(null);
-      const res = await vitalsApi.list({ profileId: requestedProfileId, limit: 30 });
+      const res = await vitalsApi.list({ profileId: requestedProfileId, limit: HISTORY_LIMIT });
       if (!res.success) throw new Error(res.error || 'Unable to load vitals');
       if (requestId !== loadRequestRef.current) return;
       setVitals(res.vitals ?? []);
@@ -142,24 +136,54 @@ export default function VitalsScreen() {
     };
   }, [profileId, loadHistory]);
 
+  // Readings logged offline show up in history once they have synced.
+  useEffect(() => {
+    const hadPending = pendingReadingsRef.current > 0;
+    pendingReadingsRef.current = pendingReadings;
+    if (hadPending && pendingReadings === 0) void loadHistory();
+  }, [pendingReadings, loadHistory]);
+
   const handleLog = async () => {
     if (!profileId || !value.trim() || submitting) return;
     const targetProfileId = profileId;
-    const cfg = VITAL_TYPES[selectedType];
+    const parsed = parseVitalEntry(selectedType, value, entryUnit);
+    if (!parsed) {
+      Alert.alert(
+        'Check the reading',
+        `That doesn't look like a valid ${VITAL_ENTRY_CONFIG[selectedType].noun} in ${entryUnit}.`
+      );
+      return;
+    }
+
     setSubmitting(true);
     try {
-      const res = await vitalsApi.record({
-        profileId: targetProfileId,
-        type: selectedType,
-        value: value.trim(),
-        unit: cfg.unit,
-      });
-      if (!res.success) throw new Error(res.error || 'Unable to save vital');
+      // Both halves of a blood pressure share a timestamp so they read back as one entry.
+      const recordedAt = new Date().toISOString();
+      let queued = false;
+      for (const { kind, value: canonical } of parsed) {
+        const res = await vitalsApi.record({
+          profileId: targetProfileId,
+          ...toVitalPayload(kind, canonical),
+          recordedAt,
+        });
+        if (res.queued) {
+          queued = true;
+          continue;
+        }
+        if (!res.success) throw new Error(res.error || 'Unable to save vital');
+      }
 
       // If the selected patient changed while the request was in flight, do not
       // let the old patient's response mutate the new patient's screen state.
       if (activeProfileIdRef.current !== targetProfileId) return;
       setValue('');
+      if (queued) {
+        Alert.alert(
+          'Saved on this device',
+          'This reading will sync to CareBow when you are back online.'
+        );
+        return;
+      }
       await loadHistory();
     } catch {
       if (activeProfileIdRef.current === targetProfileId) {
@@ -170,6 +194,21 @@ export default function VitalsScreen() {
     }
   };
 
+  const handleAskCareBow = (entry: AbnormalVitalEntry) => {
+    const forFamily = selectedMember && selectedMember.relationship !== 'self';
+    navigation.navigate('MainTabs', {
+      screen: 'Ask',
+      params: {
+        prefilledSymptom: describeAbnormalEntry(
+          entry,
+          unitPreferences,
+          forFamily ? selectedMember.firstName : undefined
+        ),
+        memberId: selectedMember?.id,
+      },
+    });
+  };
+
   const showFullScreenLoading = loading && !refreshing && vitals.length === 0 && !error;
 
   return (
@@ -202,8 +241,8 @@ export default function VitalsScreen() {
           keyboardVerticalOffset={insets.top}
         >
           <FlatList
-            data={vitals}
-            keyExtractor={(v) => v.id}
+            data={entries}
+            keyExtractor={(entry) => `${entry.entryType}@${entry.recordedAt}`}
             contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + spacing.xxl }]}
             refreshControl={
               <RefreshControl
@@ -216,71 +255,122 @@ export default function VitalsScreen() {
               />
             }
             ListHeaderComponent={
-              <View style={styles.formCard}>
-                <Text style={styles.formLabel}>Log a reading</Text>
-                <View style={styles.typeRow}>
-                  {(Object.keys(VITAL_TYPES) as VitalTypeKey[]).map((key) => (
-                    <TouchableOpacity
-                      key={key}
-                      style={[styles.typeChip, selectedType === key && styles.typeChipActive]}
-                      onPress={() => setSelectedType(key)}
-                    >
-                      <Text
-                        style={[
-                          styles.typeChipText,
-                          selectedType === key && styles.typeChipTextActive,
-                        ]}
+              <View>
+                {abnormalEntries.map((entry) => (
+                  <AbnormalVitalAlert
+                    key={`${entry.entryType}@${entry.recordedAt}`}
+                    entry={entry}
+                    onAskCareBow={handleAskCareBow}
+                  />
+                ))}
+
+                <View style={styles.formCard}>
+                  <Text style={styles.formLabel}>Log a reading</Text>
+                  <View style={styles.typeRow}>
+                    {VITAL_ENTRY_TYPES.map((key) => (
+                      <TouchableOpacity
+                        key={key}
+                        style={[styles.typeChip, selectedType === key && styles.typeChipActive]}
+                        onPress={() => setSelectedType(key)}
                       >
-                        {VITAL_TYPES[key].label}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
+                        <Text
+                          style={[
+                            styles.typeChipText,
+                            selectedType === key && styles.typeChipTextActive,
+                          ]}
+                        >
+                          {VITAL_ENTRY_CONFIG[key].label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
 
-                <View style={styles.inputRow}>
-                  <TextInput
-                    style={styles.input}
-                    value={value}
-                    onChangeText={setValue}
-                    placeholder={VITAL_TYPES[selectedType].placeholder}
-                    placeholderTextColor={colors.textTertiary}
-                    keyboardType={VITAL_TYPES[selectedType].keyboardType}
-                  />
-                  <Text style={styles.unitText}>{VITAL_TYPES[selectedType].unit}</Text>
+                  <View style={styles.inputRow}>
+                    <TextInput
+                      style={styles.input}
+                      value={value}
+                      onChangeText={setValue}
+                      placeholder={VITAL_ENTRY_CONFIG[selectedType].placeholder}
+                      placeholderTextColor={colors.textTertiary}
+                      keyboardType={VITAL_ENTRY_CONFIG[selectedType].keyboardType}
+                    />
+                    {unitsForEntry(selectedType).length > 1 ? (
+                      <View style={styles.unitToggle}>
+                        {unitsForEntry(selectedType).map((unit) => (
+                          <TouchableOpacity
+                            key={unit}
+                            style={[styles.unitChip, entryUnit === unit && styles.typeChipActive]}
+                            onPress={() => setUnitPreference(selectedType, unit)}
+                          >
+                            <Text
+                              style={[
+                                styles.typeChipText,
+                                entryUnit === unit && styles.typeChipTextActive,
+                              ]}
+                            >
+                              {unit}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    ) : (
+                      <Text style={styles.unitText}>{entryUnit}</Text>
+                    )}
+                  </View>
+
+                  <TouchableOpacity
+                    style={[
+                      styles.logButton,
+                      (!value.trim() || submitting) && styles.logButtonDisabled,
+                    ]}
+                    onPress={handleLog}
+                    disabled={!value.trim() || submitting}
+                  >
+                    {submitting ? (
+                      <ActivityIndicator size="small" color={colors.textInverse} />
+                    ) : (
+                      <Text style={styles.logButtonText}>Log</Text>
+                    )}
+                  </TouchableOpacity>
                 </View>
 
-                <TouchableOpacity
-                  style={[
-                    styles.logButton,
-                    (!value.trim() || submitting) && styles.logButtonDisabled,
-                  ]}
-                  onPress={handleLog}
-                  disabled={!value.trim() || submitting}
-                >
-                  {submitting ? (
-                    <ActivityIndicator size="small" color={colors.textInverse} />
-                  ) : (
-                    <Text style={styles.logButtonText}>Log</Text>
-                  )}
-                </TouchableOpacity>
+                <Text style={styles.sectionLabel}>
+                  {VITAL_ENTRY_CONFIG[selectedType].label} trend
+                </Text>
+                <VitalTrendChart readings={readings} entryType={selectedType} age={age} />
 
-                <Text style={styles.historyLabel}>History</Text>
+                <Text style={styles.sectionLabel}>History</Text>
+                {pendingReadings > 0 && (
+                  <Text style={styles.pendingText}>
+                    {pendingReadings === 1
+                      ? '1 reading waiting to sync'
+                      : `${pendingReadings} readings waiting to sync`}
+                  </Text>
+                )}
               </View>
             }
-            renderItem={({ item }) => (
-              <View style={styles.row}>
-                <View style={styles.rowIcon}>
-                  <Icon name="pulse-outline" size={18} color={colors.accent} />
-                </View>
-                <View style={styles.rowInfo}>
-                  <Text style={styles.rowTitle}>{typeLabel(item.type)}</Text>
-                  <Text style={styles.rowSubtitle}>{whenLabel(item.recordedAt)}</Text>
+            renderItem={({ item }) => {
+              const status = assessEntry(item.readings, age);
+              return (
+                <View style={styles.row}>
+                  <View style={styles.rowIcon}>
+                    <Icon name="pulse-outline" size={18} color={colors.accent} />
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{VITAL_ENTRY_CONFIG[item.entryType].label}</Text>
+                    <Text style={styles.rowSubtitle}>{whenLabel(item.recordedAt)}</Text>
+                  </View>
+                  <View style={styles.rowValueWrap}>
+                    <Text style={styles.rowValue}>
+                      {formatEntryValue(item.entryType, item.readings, unitPreferences)}
+                    </Text>
+                    {status !== 'normal' && (
+                      <Text style={styles.rowFlag}>{statusLabel(status)}</Text>
+                    )}
+                  </View>
                 </View>
-                <Text style={styles.rowValue}>
-                  {item.value} {item.unit}
-                </Text>
-              </View>
-            )}
+              );
+            }}
             ListEmptyComponent={
               <View style={styles.emptyWrap}>
                 <Icon name="pulse-outline" size={40} color={colors.textTertiary} />
@@ -394,10 +484,25 @@ const styles = StyleSheet.create({
     ...typography.label,
     color: colors.textInverse,
   },
-  historyLabel: {
+  unitToggle: {
+    flexDirection: 'row',
+    gap: spacing.xxs,
+  },
+  unitChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface2,
+  },
+  sectionLabel: {
     ...typography.label,
     color: colors.textPrimary,
-    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  pendingText: {
+    ...typography.caption,
+    color: colors.warning,
+    marginBottom: spacing.sm,
   },
   row: {
     flexDirection: 'row',
@@ -420,11 +525,17 @@ const styles = StyleSheet.create({
   rowInfo: { flex: 1 },
   rowTitle: { ...typography.label, color: colors.textPrimary },
   rowSubtitle: { ...typography.caption, color: colors.textSecondary },
+  rowValueWrap: { alignItems: 'flex-end' },
   rowValue: {
     ...typography.label,
     color: colors.textPrimary,
     fontWeight: '600',
   },
+  rowFlag: {
+    ...typography.caption,
+    color: colors.error,
+    fontWeight: '600',
+  },
   emptyWrap: {
     flex: 1,
     alignItems: 'center',
@@ -0,0 +1,8 @@
+/**
+ * Caregiver Monitor Route
+ * Safety check-ins and alerts of the people the user looks after
+ */
+
+import { CaregiverMonitorScreen } from '../../features/safety/screens';
+
+export default CaregiverMonitorScreen;
@@ -0,0 +1,8 @@
+/**
+ * Incident Report Route
+ * Safety history for a period, shared as a PDF or JSON file
+ */
+
+import { IncidentReportScreen } from '../../features/safety/screens';
+
+export default IncidentReportScreen;
@@ -0,0 +1,8 @@
+/**
+ * Medical ID Editor Route
+ * Choose what a family member's emergency card shows
+ */
+
+import { MedicalIdEditorScreen } from '../../features/medicalId/screens';
+
+export default MedicalIdEditorScreen;
@@ -0,0 +1,8 @@
+/**
+ * Medical ID Route
+ * Emergency medical cards saved on this device; also reachable signed out
+ */
+
+import { MedicalIdScreen } from '../../features/medicalId/screens';
+
+export default MedicalIdScreen;
@@ -0,0 +1,8 @@
+/**
+ * Safe Zone Editor Route
+ * Create or change one safe zone
+ */
+
+import { SafeZoneEditorScreen } from '../../features/safety/screens';
+
+export default SafeZoneEditorScreen;
@@ -0,0 +1,8 @@
+/**
+ * Safe Zones Route
+ * A family member's safe zones and the switch that watches them
+ */
+
+import { SafeZonesScreen } from '../../features/safety/screens';
+
+export default SafeZonesScreen;
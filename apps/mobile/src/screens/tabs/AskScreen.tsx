@@ -4,7 +4,7 @@
  */
 
 import Voice from '@react-native-voice/voice';
-import { useNavigation } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
@@ -31,7 +31,7 @@ import {
   getSavedFamilyMembers,
   selectionForSavedFamilyMember,
 } from '../../lib/askCarebow/familyProfileSelection';
-import type { AppNavigationProp } from '../../navigation/types';
+import type { AppNavigationProp, MainTabParamList } from '../../navigation/types';
 import { useAskCarebowStore } from '../../store/askCarebowStore';
 import { useMemoryCount } from '../../store/healthMemoryStore';
 import { useProfileStore } from '../../store/useProfileStore';
@@ -58,6 +58,7 @@ const STARTER_PROMPTS = [
 export default function AskCareBowScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation() as AppNavigationProp;
+  const route = useRoute<RouteProp<MainTabParamList, 'Ask'>>();
   const [contextType, setContextType] = useState<'me' | 'family'>('me');
   const [selectedFamilyMemberId, setSelectedFamilyMemberId] = useState('');
   const [familyRelation, setFamilyRelation] = useState('');
@@ -84,6 +85,24 @@ export default function AskCareBowScreen() {
     [selectedFamilyMember]
   );
 
+  // Opened from elsewhere with a symptom to talk about (e.g. an abnormal vital):
+  // seed the input and the patient, but let the user review before starting.
+  const prefilledSymptom = route.params?.prefilledSymptom;
+  const prefilledMemberId = route.params?.memberId;
+  useEffect(() => {
+    if (!prefilledSymptom) return;
+    const member = members.find((item) => item.id === prefilledMemberId);
+    if (member && member.relationship !== 'self') {
+      setContextType('family');
+      setSelectedFamilyMemberId(member.id);
+    } else {
+      setContextType('me');
+    }
+    setInputMode('text');
+    setSymptomInput(prefilledSymptom);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prefilledSymptom, prefilledMemberId]);
+
   useEffect(() => {
     symptomInputRef.current = symptomInput;
     inputModeRef.current = inputMode;
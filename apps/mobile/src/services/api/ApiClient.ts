@@ -6,7 +6,22 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { API_BASE_URL, API_TIMEOUT } from '@env';
 import { SecureStorage } from '@/services/storage/SecureStorage';
-import { HttpMethod, RequestConfig, ApiResponse, ApiError, AuthTokens } from './types';
+import { useOutboxStore } from '@/store/useOutboxStore';
+import {
+  HttpMethod,
+  RequestConfig,
+  ApiResponse,
+  ApiError,
+  AuthTokens,
+  OutboxOptions,
+} from './types';
+import {
+  createOutboxEntry,
+  isQueueableError,
+  outboxHeaders,
+  queuedResponse,
+  replayOutbox,
+} from './outbox';
 
 const API_CONFIG = {
   baseUrl: API_BASE_URL || 'https://www.carebow.com/api',
@@ -276,12 +291,66 @@ class ApiClientImpl {
     return this.request<T>('DELETE', endpoint, undefined, config);
   }
 
+  /**
+   * Replay writes queued while offline, oldest first within each scope. Safe
+   * to call at any time: a call made while a replay is running waits for that
+   * replay, and writes still backing off wait for their retry.
+   */
+  async flushOutbox(): Promise<number> {
+    if (!this.accessToken) return 0;
+    return replayOutbox((entry) =>
+      this.request(entry.method, entry.endpoint, entry.body, {
+        headers: outboxHeaders(entry, true),
+        retries: 0,
+      })
+    );
+  }
+
+  /**
+   * Send a write that may be queued. Later writes never overtake queued ones
+   * in the same scope, so while its scope has anything queued a new write
+   * joins the queue instead of going straight to the server.
+   */
+  private async requestWithOutbox<T>(
+    method: Exclude<HttpMethod, 'GET'>,
+    endpoint: string,
+    data: unknown,
+    config: RequestConfig & { outbox: OutboxOptions }
+  ): Promise<ApiResponse<T>> {
+    const { outbox, ...rest } = config;
+    const entry = createOutboxEntry(method, endpoint, data, outbox);
+
+    if (useOutboxStore.getState().entries.some((queued) => queued.scope === entry.scope)) {
+      useOutboxStore.getState().enqueue(entry);
+      void this.flushOutbox();
+      return queuedResponse<T>();
+    }
+
+    try {
+      return await this.request<T>(method, endpoint, data, {
+        ...rest,
+        headers: { ...rest.headers, ...outboxHeaders(entry, false) },
+      });
+    } catch (error) {
+      if (!isQueueableError(error)) throw error;
+      useOutboxStore.getState().enqueue(entry);
+      return queuedResponse<T>();
+    }
+  }
+
   private async request<T>(
     method: HttpMethod,
     endpoint: string,
     data?: unknown,
     config?: RequestConfig
   ): Promise<ApiResponse<T>> {
+    if (config?.outbox && method !== 'GET') {
+      return this.requestWithOutbox<T>(method, endpoint, data, {
+        ...config,
+        outbox: config.outbox,
+      });
+    }
+
     const { headers = {}, params, timeout, skipAuth, retries = this.defaultRetries } = config || {};
 
     let url = `${this.baseUrl}${endpoint}`;
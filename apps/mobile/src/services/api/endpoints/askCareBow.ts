@@ -1,5 +1,6 @@
 import { ApiClient } from '../ApiClient';
 import type { AskCarebowEntitlement } from './askCarebowEntitlement';
+import type { RedFlagRulePackDocument } from '../../../lib/askCarebow/redFlagRulePack';
 
 export interface AskCareBowRewriteResponse {
   success: boolean;
@@ -10,6 +11,12 @@ export interface AskCareBowRewriteResponse {
   error?: string;
 }
 
+export interface RedFlagRulePackResponse {
+  success: boolean;
+  pack?: RedFlagRulePackDocument;
+  error?: string;
+}
+
 export const askCareBowApi = {
   rewrite: async (data: {
     messageText: string;
@@ -20,4 +27,17 @@ export const askCareBowApi = {
     const response = await ApiClient.post<AskCareBowRewriteResponse>('/ask-carebow/message', data);
     return response.data;
   },
+
+  /**
+   * The clinically reviewed red-flag rule pack currently published. Returns
+   * null when the server has no override, in which case the bundled default
+   * stays in force. Validation happens in redFlagRulePack.ts, never here.
+   *
+   * Sent with the session token like any other call: the authenticated channel
+   * is what vouches for the pack, so it is never fetched anonymously.
+   */
+  getRedFlagRulePack: async (): Promise<RedFlagRulePackDocument | null> => {
+    const response = await ApiClient.get<RedFlagRulePackResponse>('/v1/ask-carebow/red-flag-rules');
+    return response.data.success ? (response.data.pack ?? null) : null;
+  },
 };
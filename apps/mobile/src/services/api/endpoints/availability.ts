@@ -0,0 +1,58 @@
+/**
+ * Availability API — published booking slots and short-lived holds on them.
+ *
+ * A service either publishes slots or it does not. When it does not (or this
+ * call fails), the booking flow falls back to preferred times that the care
+ * team confirms after submission; it never invents availability.
+ */
+
+import type { SlotHold } from '@/data/types';
+import { ApiClient } from '../ApiClient';
+
+export interface V1Slot {
+  /** UTC instant the visit starts. */
+  startsAt: string;
+  /** False once booked or held by another customer. */
+  available: boolean;
+}
+
+export interface V1AvailabilityResponse {
+  success: boolean;
+  error?: string;
+  /** IANA zone the care team works in, e.g. "Asia/Kolkata". */
+  timeZone?: string;
+  slots?: V1Slot[];
+}
+
+export interface V1SlotHoldResponse {
+  success: boolean;
+  error?: string;
+  hold?: SlotHold;
+}
+
+export const availabilityApi = {
+  /** Slots for the next `days` days, starting on `from` (YYYY-MM-DD in the care team's zone). */
+  getSlots: async (
+    serviceId: string,
+    range: { from: string; days: number }
+  ): Promise<V1AvailabilityResponse> => {
+    const response = await ApiClient.get<V1AvailabilityResponse>(
+      `/v1/services/${serviceId}/availability`,
+      { params: range }
+    );
+    return response.data;
+  },
+
+  /** Reserve a slot while the customer reviews and pays. 409 when it was just taken. */
+  holdSlot: async (data: { serviceId: string; startsAt: string }): Promise<V1SlotHoldResponse> => {
+    const response = await ApiClient.post<V1SlotHoldResponse>('/v1/availability/holds', data);
+    return response.data;
+  },
+
+  releaseHold: async (holdId: string): Promise<{ success: boolean; error?: string }> => {
+    const response = await ApiClient.delete<{ success: boolean; error?: string }>(
+      `/v1/availability/holds/${holdId}`
+    );
+    return response.data;
+  },
+};
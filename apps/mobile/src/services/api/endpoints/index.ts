@@ -15,18 +15,32 @@ export { paymentsApi, selectionFromDraft } from './payments';
 export { preferencesApi } from './preferences';
 export { deviceTokenApi } from './deviceToken';
 export { remediesApi } from './remedies';
+export { interactionsApi } from './interactions';
+export { availabilityApi } from './availability';
 
 export type {
   MemberOverview,
   MemberOverviewResponse,
   V1Booking,
+  V1BookingEvent,
   V1BookingsResponse,
+  V1ReschedulePolicy,
+  V1RescheduleQuote,
+  V1RescheduleQuoteResponse,
+  V1RescheduleResponse,
   V1ProviderProfile,
   V1ProviderProfileResponse,
   BookingStatus,
 } from './member';
 export type { V1Profile, V1ProfileResponse, V1ProfileShareResponse } from './profiles';
-export type { SosReportPayload, SosReportResponse } from './safety';
+export type {
+  SosReportPayload,
+  SosReportResponse,
+  SosEscalationPlan,
+  SosStatusResponse,
+  MonitoredRelative,
+  CaregiverSafetyEvent,
+} from './safety';
 export type {
   InventoryItem,
   InventoryListResponse,
@@ -44,7 +58,22 @@ export type {
   CreateBookingOrderRequest,
   CreateBookingOrderResponse,
   PaymentStatusResponse,
+  RescheduleOrderRequest,
+  CartOrderItem,
+  CartOrderRequest,
+  CartOrderResponse,
+  CartOrderLine,
+  CartOrderStatusResponse,
+  PromotionQuote,
+  ValidatePromoRequest,
+  ValidatePromoResponse,
+  WalletResponse,
+  BookingPriceQuoteRequest,
+  BookingPriceQuote,
+  BookingPriceQuoteResponse,
 } from './payments';
 export type { AppPreferences, PreferencesResponse } from './preferences';
 export type { DeviceTokenResponse } from './deviceToken';
 export type { Remedy, RemediesResponse } from './remedies';
+export type { InteractionDatasetResponse } from './interactions';
+export type { V1Slot, V1AvailabilityResponse, V1SlotHoldResponse } from './availability';
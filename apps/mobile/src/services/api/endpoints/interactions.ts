@@ -0,0 +1,28 @@
+/**
+ * Drug interaction dataset API.
+ *
+ * Serves the clinically reviewed interaction dataset currently published.
+ * Validation happens in lib/interactions/interactionDataset.ts, never here.
+ */
+
+import { ApiClient } from '../ApiClient';
+import type { InteractionDatasetDocument } from '../../../lib/interactions/interactionDataset';
+
+export interface InteractionDatasetResponse {
+  success: boolean;
+  dataset?: InteractionDatasetDocument;
+  error?: string;
+}
+
+export const interactionsApi = {
+  /**
+   * Returns null when the server has no override, in which case the bundled
+   * default stays in force. Authenticated, like the red-flag rule pack.
+   */
+  getDataset: async (): Promise<InteractionDatasetDocument | null> => {
+    const response = await ApiClient.get<InteractionDatasetResponse>('/v1/interactions/dataset');
+    return response.data.success ? (response.data.dataset ?? null) : null;
+  },
+};
+
+export default interactionsApi;
@@ -2,7 +2,7 @@
  * Member / Provider API (mobile, JWT-authenticated v1 endpoints only)
  */
 
-import type { CareReferralContext } from '@/data/types';
+import type { CareReferralContext, RecurrenceRule } from '@/data/types';
 import { ApiClient } from '../ApiClient';
 
 export type BookingStatus = 'PENDING' | 'CONFIRMED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
@@ -45,12 +45,83 @@ export interface V1Booking {
   /** Provider/customer booking handoff. Includes sanitized Ask CareBow referral when present. */
   notes?: string | null;
   address?: string | null;
-  service?: { name: string; category: string } | null;
+  service?: { id?: string; name: string; category: string } | null;
   profile?: { name: string } | null;
   provider?: { name: string; image?: string | null } | null;
   user?: { name?: string; email?: string; phoneNumber?: string | null } | null;
   consultationNote?: V1ConsultationNote | null;
   prescription?: V1Prescription | null;
+  /** Ask CareBow assessment the customer agreed to share with this booking's provider. */
+  sharedAssessment?: V1SharedAssessment | null;
+  /** Set when this booking is one visit of a recurring series. */
+  series?: V1BookingSeries | null;
+  /** Every change to this booking, oldest first. */
+  statusHistory?: V1BookingEvent[];
+  /** Null when this booking cannot be moved in the app at all. */
+  reschedulePolicy?: V1ReschedulePolicy | null;
+}
+
+export interface V1BookingEvent {
+  /** The booking's status after this change. */
+  status: BookingStatus;
+  at: string;
+  actor?: 'customer' | 'provider' | 'care_team' | 'system' | null;
+  /** Both set when the change moved the visit. */
+  rescheduledFrom?: string | null;
+  rescheduledTo?: string | null;
+  note?: string | null;
+}
+
+export interface V1ReschedulePolicy {
+  /** Moves close this many hours before the visit. */
+  cutoffHours: number;
+  /** Charged per move, in minor units of the booking's currency; 0 when free. */
+  feeMinor: number;
+  /** Moves left on this booking; null when unlimited. */
+  movesLeft?: number | null;
+}
+
+/** What moving a booking to one specific time would cost, priced by the server. */
+export interface V1RescheduleQuote {
+  allowed: boolean;
+  /** Why the move is refused, written for the customer. */
+  reason?: string | null;
+  feeMinor: number;
+  /** New price minus the price of the current time; negative when cheaper. */
+  fareDifferenceMinor: number;
+  /** Paid before the move happens: the fee plus any increase. */
+  amountDueMinor: number;
+  /** Returned after the move when the new time costs less. */
+  refundMinor: number;
+  currency?: 'INR' | 'USD';
+}
+
+export interface V1RescheduleQuoteResponse {
+  success: boolean;
+  error?: string;
+  quote?: V1RescheduleQuote;
+}
+
+export interface V1RescheduleResponse {
+  success: boolean;
+  error?: string;
+  booking?: V1Booking;
+  refund?: V1CancelResponse['refund'];
+}
+
+export interface V1BookingSeries {
+  id: string;
+  rule: RecurrenceRule;
+  /** 1-based position of this visit in the series. */
+  position: number;
+  visitCount: number;
+}
+
+export interface V1SharedAssessment {
+  sessionId: string;
+  sharedAt: string;
+  /** The assigned provider, or the care team until one is assigned. */
+  recipient: string;
 }
 
 export interface V1CancelResponse {
@@ -118,7 +189,13 @@ export const memberApi = {
     return response.data;
   },
 
-  /** Submit a real pending booking for a service that is free to request now. */
+  /**
+   * Submit a real pending booking for a service that is free to request now.
+   * With `recurrence`, the server creates one booking per visit in
+   * `recurrence.scheduledAt` and returns them all in `bookings`; `booking` is
+   * the first visit. `slotHoldId` books a held published slot; the server
+   * rejects it with 409 if the hold has lapsed and the slot was taken.
+   */
   createBooking: async (data: {
     serviceId: string;
     profileId: string;
@@ -126,11 +203,19 @@ export const memberApi = {
     notes?: string;
     address?: string;
     careContext?: CareReferralContext;
-  }): Promise<{ success: boolean; error?: string; booking?: V1Booking }> => {
+    recurrence?: { rule: RecurrenceRule; scheduledAt: string[] };
+    slotHoldId?: string;
+  }): Promise<{
+    success: boolean;
+    error?: string;
+    booking?: V1Booking;
+    bookings?: V1Booking[];
+  }> => {
     const response = await ApiClient.post<{
       success: boolean;
       error?: string;
       booking?: V1Booking;
+      bookings?: V1Booking[];
     }>('/v1/bookings', data);
     return response.data;
   },
@@ -145,6 +230,53 @@ export const memberApi = {
     return response.data;
   },
 
+  /**
+   * Attach an Ask CareBow assessment the customer has previewed and agreed to
+   * share. The summary is already redacted; the server stores it as sent.
+   */
+  shareAssessment: async (
+    bookingId: string,
+    data: { sessionId: string; summary: string; consentedAt: string }
+  ): Promise<{ success: boolean; error?: string; booking?: V1Booking }> => {
+    const response = await ApiClient.post<{
+      success: boolean;
+      error?: string;
+      booking?: V1Booking;
+    }>(`/v1/bookings/${bookingId}/assessment`, data);
+    return response.data;
+  },
+
+  /** Price a move before the customer commits; the server applies the policy. */
+  quoteReschedule: async (
+    bookingId: string,
+    data: { scheduledAt: string }
+  ): Promise<V1RescheduleQuoteResponse> => {
+    const response = await ApiClient.get<V1RescheduleQuoteResponse>(
+      `/v1/bookings/${bookingId}/reschedule/quote`,
+      { params: data }
+    );
+    return response.data;
+  },
+
+  /**
+   * Move one booking, or one visit of a series, to a new time. Only for moves
+   * with nothing to pay; the server refuses a move whose quote has an amount
+   * due, which goes through `paymentsApi.createRescheduleOrder` instead. A
+   * cheaper time is refunded as part of the move. `slotHoldId` moves it into a
+   * held published slot.
+   */
+  rescheduleBooking: async (
+    bookingId: string,
+    data: { scheduledAt: string; slotHoldId?: string }
+  ): Promise<V1RescheduleResponse> => {
+    const response = await ApiClient.post<V1RescheduleResponse>(
+      `/v1/bookings/${bookingId}/reschedule`,
+      data
+    );
+    return response.data;
+  },
+
+  /** Cancels this booking only; other visits in its series are unaffected. */
   cancelBooking: async (bookingId: string): Promise<V1CancelResponse> => {
     const response = await ApiClient.post<V1CancelResponse>(`/v1/bookings/${bookingId}/cancel`, {});
     return response.data;
@@ -64,6 +64,29 @@ describe('paymentsApi order single-flight', () => {
 
     expect(post).toHaveBeenCalledTimes(2);
   });
+
+  it('sends a whole cart as one order', async () => {
+    post.mockResolvedValueOnce({ data: { success: true, orderId: 'order_cart' } });
+
+    const body = {
+      items: [
+        {
+          cartItemId: 'cart_1',
+          serviceId: 'svc_1',
+          profileId: 'profile_1',
+          scheduledAt: '2026-08-21T15:00:00.000Z',
+          selection: { kind: 'fixed' as const },
+        },
+      ],
+      hosted: true,
+      callbackUrl: 'carebow://checkout/return',
+    };
+
+    await expect(paymentsApi.createCartOrder(body)).resolves.toMatchObject({
+      orderId: 'order_cart',
+    });
+    expect(post).toHaveBeenCalledWith('/v1/payments/cart-order', body);
+  });
 });
 
 describe('selectionFromDraft', () => {
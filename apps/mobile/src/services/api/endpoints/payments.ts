@@ -5,7 +5,7 @@
  * checkout and later asks the server whether the webhook confirmed payment.
  */
 
-import type { CareReferralContext } from '@/data/types';
+import type { CareReferralContext, RecurrenceRule } from '@/data/types';
 import { useCartStore } from '@/store/useCartStore';
 import ApiClient from '../ApiClient';
 
@@ -27,6 +27,19 @@ export type CreateBookingOrderRequest = {
   callbackUrl?: string;
   /** Ask CareBow assessment handoff. Server sanitizes and snapshots this. */
   careContext?: CareReferralContext;
+  /**
+   * A recurring series: one booking per `scheduledAt`, each charged the
+   * selection's price. `scheduledAt` above is the first visit.
+   */
+  recurrence?: { rule: RecurrenceRule; scheduledAt: string[] };
+  /** A held published slot; the server keeps it held until payment settles. */
+  slotHoldId?: string;
+  /** Promo codes in the order the customer applied them; the server re-validates each. */
+  promoCodes?: string[];
+  /** Spend referral credit, then wallet balance, before charging the rest. */
+  useCredits?: boolean;
+  /** Minor units the customer agreed to pay. The server refuses the order if its price differs. */
+  expectedAmount?: number;
 };
 
 export type CreateBookingOrderResponse = {
@@ -38,13 +51,73 @@ export type CreateBookingOrderResponse = {
   serviceName?: string;
   selectionDescription?: string;
   paymentUrl?: string;
+  /** Set when credit covered the whole price: the booking exists and nothing is charged. */
+  bookingId?: string;
+};
+
+/** A promo code as the server prices it for one selection, in minor units. */
+export type PromotionQuote = {
+  code: string;
+  label: string;
+  discountMinor: number;
+  stacking: 'exclusive' | 'stackable';
+};
+
+export type ValidatePromoRequest = {
+  code: string;
+  serviceId: string;
+  selection: PaymentSelection;
+  /** Codes already applied, so the server can apply its stacking rules. */
+  appliedCodes: string[];
+};
+
+export type ValidatePromoResponse = {
+  success: boolean;
+  error?: string;
+  currency?: string;
+  promotion?: PromotionQuote;
+};
+
+export type WalletResponse = {
+  success: boolean;
+  error?: string;
+  currency?: string;
+  walletMinor?: number;
+  /** Earned by referring others; spent before the wallet balance. */
+  referralMinor?: number;
+};
+
+export type BookingPriceQuoteRequest = Omit<
+  CreateBookingOrderRequest,
+  'hosted' | 'callbackUrl' | 'expectedAmount'
+>;
+
+/** What a booking order would charge right now. Nothing is created or reserved. */
+export type BookingPriceQuote = {
+  currency: string;
+  subtotalMinor: number;
+  /** The catalog sale discount, before promo codes. */
+  discountMinor: number;
+  promotions: PromotionQuote[];
+  /** Codes that were sent but no longer apply, with the server's reason. */
+  rejectedCodes?: Array<{ code: string; reason: string }>;
+  credits: Array<{ source: 'referral' | 'wallet'; amountMinor: number }>;
+  feesMinor: number;
+  taxesMinor: number;
+  totalMinor: number;
+};
+
+export type BookingPriceQuoteResponse = {
+  success: boolean;
+  error?: string;
+  quote?: BookingPriceQuote;
 };
 
 export type PaymentStatusResponse = {
   success: boolean;
   error?: string;
   status?: 'PENDING' | 'SUCCESS' | 'FAILED' | 'REFUNDED';
-  kind?: 'booking' | 'plan';
+  kind?: 'booking' | 'plan' | 'cart';
   planSlug?: string | null;
   amount?: number;
   currency?: string;
@@ -57,6 +130,64 @@ export type SettleBookingRequest = {
   callbackUrl?: string;
 };
 
+/** One cart item as a line of a cart order; `cartItemId` ties results back to it. */
+export type CartOrderItem = Omit<CreateBookingOrderRequest, 'hosted' | 'callbackUrl'> & {
+  cartItemId: string;
+};
+
+/**
+ * Every booking in the cart, paid for with one hosted payment. The server
+ * validates all items before creating any booking: one bad item rejects the
+ * whole order and nothing is created.
+ */
+export type CartOrderRequest = {
+  items: CartOrderItem[];
+  hosted?: boolean;
+  callbackUrl?: string;
+};
+
+export type CartOrderResponse = CreateBookingOrderResponse & {
+  /** Items that stopped the order, when `success` is false. */
+  rejected?: Array<{ cartItemId: string; error: string }>;
+};
+
+/**
+ * How one item of a paid cart order turned out. A booking that cannot be
+ * confirmed after payment (its slot was lost, the provider withdrew) is
+ * refunded on its own while the rest of the order stands.
+ */
+export type CartOrderLine = {
+  cartItemId: string;
+  status: 'PENDING' | 'BOOKED' | 'REFUNDED' | 'FAILED';
+  serviceName?: string | null;
+  amount: number;
+  booking?: { id: string; status: string; scheduledAt: string } | null;
+  refund?: { status: 'ISSUED' | 'PENDING'; amount?: number } | null;
+  error?: string | null;
+};
+
+export type CartOrderStatusResponse = {
+  success: boolean;
+  error?: string;
+  /** PARTIAL: paid, but at least one line was refunded. */
+  status?: 'PENDING' | 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'REFUNDED';
+  amount?: number;
+  currency?: string;
+  lines?: CartOrderLine[];
+};
+
+/** Pay what a move costs; the server moves the booking once payment lands. */
+export type RescheduleOrderRequest = {
+  bookingId: string;
+  scheduledAt: string;
+  hosted?: boolean;
+  callbackUrl?: string;
+  /** A held published slot; the server keeps it held until payment settles. */
+  slotHoldId?: string;
+  /** Minor units the customer agreed to pay. The server refuses the order if its quote differs. */
+  expectedAmount?: number;
+};
+
 export type PlanOrderRequest = {
   planSlug: string;
   hosted?: boolean;
@@ -170,6 +301,28 @@ export const paymentsApi = {
     });
   },
 
+  /** The final server price for this order, to reconcile with the app's before paying. */
+  quoteBookingOrder: async (body: BookingPriceQuoteRequest): Promise<BookingPriceQuoteResponse> => {
+    const response = await ApiClient.post<BookingPriceQuoteResponse>(
+      '/v1/payments/booking-order/quote',
+      body
+    );
+    return response.data;
+  },
+
+  validatePromoCode: async (body: ValidatePromoRequest): Promise<ValidatePromoResponse> => {
+    const response = await ApiClient.post<ValidatePromoResponse>(
+      '/v1/payments/promotions/validate',
+      body
+    );
+    return response.data;
+  },
+
+  getWallet: async (): Promise<WalletResponse> => {
+    const response = await ApiClient.get<WalletResponse>('/v1/payments/wallet');
+    return response.data;
+  },
+
   createSettleOrder: (body: SettleBookingRequest): Promise<CreateBookingOrderResponse> =>
     singleFlight(`settle:${stableSerialize(body)}`, async () => {
       const response = await ApiClient.post<CreateBookingOrderResponse>(
@@ -179,6 +332,29 @@ export const paymentsApi = {
       return response.data;
     }),
 
+  createRescheduleOrder: (body: RescheduleOrderRequest): Promise<CreateBookingOrderResponse> =>
+    singleFlight(`reschedule:${stableSerialize(body)}`, async () => {
+      const response = await ApiClient.post<CreateBookingOrderResponse>(
+        '/v1/payments/reschedule-order',
+        body
+      );
+      return response.data;
+    }),
+
+  createCartOrder: (body: CartOrderRequest): Promise<CartOrderResponse> =>
+    singleFlight(`cart:${stableSerialize(body)}`, async () => {
+      const response = await ApiClient.post<CartOrderResponse>('/v1/payments/cart-order', body);
+      return response.data;
+    }),
+
+  /** Per-booking outcome of a cart order, for the success screen and rechecks. */
+  getCartOrder: async (orderId: string): Promise<CartOrderStatusResponse> => {
+    const response = await ApiClient.get<CartOrderStatusResponse>(
+      `/v1/payments/cart-order/${orderId}`
+    );
+    return response.data;
+  },
+
   createPlanOrder: (body: PlanOrderRequest): Promise<PlanOrderResponse> =>
     singleFlight(`plan:${stableSerialize(body)}`, async () => {
       const response = await ApiClient.post<PlanOrderResponse>('/v1/payments/plan-order', body);
@@ -16,6 +16,8 @@ export interface PreferencesResponse {
   success: boolean;
   error?: string;
   preferences?: AppPreferences;
+  /** Saved on the device and waiting in the offline outbox; not yet on the server. */
+  queued?: boolean;
 }
 
 export const preferencesApi = {
@@ -25,7 +27,9 @@ export const preferencesApi = {
   },
 
   update: async (data: Partial<AppPreferences>): Promise<PreferencesResponse> => {
-    const response = await ApiClient.patch<PreferencesResponse>('/v1/auth/preferences', data);
+    const response = await ApiClient.patch<PreferencesResponse>('/v1/auth/preferences', data, {
+      outbox: { scope: 'preferences', policy: 'client_wins', resourceKey: 'preferences' },
+    });
     return response.data;
   },
 };
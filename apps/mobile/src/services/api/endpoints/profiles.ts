@@ -29,6 +29,8 @@ export interface V1ProfileResponse {
   success: boolean;
   error?: string;
   profile?: V1Profile;
+  /** Saved on the device and waiting in the offline outbox; not yet on the server. */
+  queued?: boolean;
 }
 
 export interface V1ProfileShareResponse {
@@ -83,7 +85,11 @@ export const profilesApi = {
       }
     >
   ): Promise<V1ProfileResponse> => {
-    const response = await ApiClient.put<V1ProfileResponse>(`/v1/profiles/${profileId}`, data);
+    // Offline edits are dropped if the profile changed on the server meanwhile
+    // (e.g. a caregiver edited it from another device).
+    const response = await ApiClient.put<V1ProfileResponse>(`/v1/profiles/${profileId}`, data, {
+      outbox: { scope: 'profiles', policy: 'server_wins', resourceKey: `profile:${profileId}` },
+    });
     return response.data;
   },
 
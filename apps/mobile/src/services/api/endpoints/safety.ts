@@ -16,6 +16,9 @@ export interface SafetyApiContact {
   isPrimary?: boolean;
 }
 
+/** What started the SOS: the SOS button, or an unanswered fall countdown. */
+export type SosTrigger = 'MANUAL' | 'FALL_DETECTED';
+
 export interface SosReportPayload {
   lat?: number | null;
   lng?: number | null;
@@ -24,12 +27,43 @@ export interface SosReportPayload {
   phone?: string | null;
   triageLevel?: string | null;
   note?: string | null;
+  trigger?: SosTrigger;
   /**
    * Current SMS-capable contacts visible on this device. Old builds stored
    * these only locally, so the SOS request itself carries them as a safety net
    * against a stale/empty server contact table.
    */
   contacts?: SafetyApiContact[];
+  /**
+   * Escalation ladder. When present the server alerts the first step's
+   * contacts, then each later contact step once the one before it times out
+   * unacknowledged, whether or not the app is still running.
+   */
+  escalation?: SosEscalationPlan;
+}
+
+export type SosEscalationStepKind = 'PRIMARY_CONTACT' | 'ALL_CONTACTS' | 'EMERGENCY_SERVICES';
+
+export interface SosEscalationPlan {
+  steps: Array<{
+    step: SosEscalationStepKind;
+    contacts: SafetyApiContact[];
+    timeoutSeconds: number | null;
+  }>;
+}
+
+export interface SosAcknowledgement {
+  contactName?: string | null;
+  contactPhone?: string | null;
+  acknowledgedAt: string;
+}
+
+export interface SosStatusResponse {
+  success: boolean;
+  status?: 'OPEN' | 'RESOLVED';
+  /** Contacts who replied to or opened the alert, earliest first. */
+  acknowledgements?: SosAcknowledgement[];
+  error?: string;
 }
 
 export interface SosReportResponse {
@@ -42,6 +76,35 @@ export interface SosReportResponse {
   error?: string;
 }
 
+export interface LiveLocationPoint {
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  recordedAt: string;
+}
+
+export interface LiveLocationStartPayload {
+  sosEventId?: string | null;
+  durationMinutes: number;
+  intervalSeconds: number;
+  /** Recipients of the share link; the server texts it to them. */
+  contacts: SafetyApiContact[];
+  location?: LiveLocationPoint | null;
+}
+
+export interface LiveLocationSessionResponse {
+  success: boolean;
+  session?: {
+    id: string;
+    /** Tokenized, view-only link that works without a CareBow account. */
+    shareUrl: string;
+    expiresAt: string;
+  };
+  /** True once the session has ended server-side (expired or stopped). */
+  ended?: boolean;
+  error?: string;
+}
+
 export interface SafetyContactsResponse {
   success: boolean;
   contacts?: Array<{
@@ -55,15 +118,26 @@ export interface SafetyContactsResponse {
   error?: string;
 }
 
-export interface DailyCheckInSettingsPayload {
-  enabled: boolean;
+export interface CheckInWindowPayload {
+  id: string;
+  /** Local time in `timezone`, HH:mm. */
   time: string;
   gracePeriodMinutes: number;
+  /** Weekdays the window applies on, 0 = Sunday. */
+  daysOfWeek: number[];
+}
+
+export interface DailyCheckInSettingsPayload {
+  enabled: boolean;
+  /** Every window the server should enforce; a missed one escalates on its own. */
+  windows: CheckInWindowPayload[];
   timezone: string;
 }
 
 export interface ServerDailyCheckIn {
   id: string;
+  /** Window this check-in belongs to. */
+  windowId?: string | null;
   status?: string;
   scheduledAt?: string | null;
   checkedInAt?: string | null;
@@ -74,9 +148,115 @@ export interface ServerDailyCheckIn {
 export interface DailyCheckInResponse {
   success: boolean;
   settings?: DailyCheckInSettingsPayload;
+  /** The current window's check-in. */
   checkIn?: ServerDailyCheckIn | null;
   deadlineAt?: string | null;
   error?: string;
+  /** Saved on the device and waiting in the offline outbox; not yet on the server. */
+  queued?: boolean;
+}
+
+export interface SafeZoneEventPayload {
+  type: 'ZONE_EXITED' | 'ZONE_ENTERED';
+  zoneId: string;
+  zoneName: string;
+  memberName: string;
+  occurredAt: string;
+  location: LiveLocationPoint;
+  /** SMS-capable contacts to text; the server also tells caregivers in the app. */
+  contacts: SafetyApiContact[];
+  /** The alert's event in the device's safety history, to mark it delivered. */
+  clientEventId?: string;
+}
+
+export interface SafeZoneEventResponse {
+  success: boolean;
+  eventId?: string;
+  /** Queued for delivery; not proof that a recipient has read it. */
+  notified?: boolean;
+  /** Saved on this device for replay; the server has not seen it yet. */
+  queued?: boolean;
+  error?: string;
+}
+
+/** A safety event from this device, as kept in the account's history. */
+export interface SafetyHistoryEvent {
+  id: string;
+  type: string;
+  timestamp: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface SafetyHistorySaveResponse {
+  success: boolean;
+  /** Waiting in the offline outbox; the history does not have it yet. */
+  queued?: boolean;
+}
+
+export interface SafetyHistoryResponse {
+  success: boolean;
+  /** Newest first. */
+  events?: SafetyHistoryEvent[];
+  error?: string;
+}
+
+export type CaregiverEventType =
+  | 'CHECKIN_CONFIRMED'
+  | 'CHECKIN_MISSED'
+  | 'SOS_TRIGGERED'
+  | 'ZONE_EXITED'
+  | 'ZONE_ENTERED';
+
+export interface CaregiverAcknowledgement {
+  /** Name of the caregiver who acknowledged. */
+  by: string;
+  at: string;
+  note?: string | null;
+}
+
+/** A safety event of someone who lists the signed-in user as a contact. */
+export interface CaregiverSafetyEvent {
+  id: string;
+  type: CaregiverEventType;
+  occurredAt: string;
+  windowId?: string | null;
+  wasLate?: boolean;
+  location?: { lat: number; lng: number; accuracy: number | null } | null;
+  /** Safe zone the relative left or came back to. */
+  zoneName?: string | null;
+  /** Every caregiver's acknowledgement, earliest first. */
+  acknowledgements: CaregiverAcknowledgement[];
+}
+
+export interface MonitoredRelative {
+  /** The relative's CareBow user id. */
+  id: string;
+  name: string;
+  /** How the relative described the caregiver when adding them as a contact. */
+  relationship?: string | null;
+  checkInEnabled: boolean;
+  lastCheckInAt: string | null;
+  lastMissedCheckInAt: string | null;
+  /** Missed check-ins and SOS events no caregiver has acknowledged yet. */
+  openAlerts: number;
+}
+
+export interface MonitoredRelativesResponse {
+  success: boolean;
+  relatives?: MonitoredRelative[];
+  error?: string;
+}
+
+export interface RelativeSafetyEventsResponse {
+  success: boolean;
+  events?: CaregiverSafetyEvent[];
+  error?: string;
+}
+
+export interface CaregiverAcknowledgeResponse {
+  success: boolean;
+  event?: CaregiverSafetyEvent;
+  error?: string;
 }
 
 export function getDeviceTimezone(): string {
@@ -102,6 +282,85 @@ export const safetyApi = {
     }
   },
 
+  /**
+   * Poll an SOS event for contact acknowledgements. `notified` on the report
+   * only means queued; an acknowledgement is the first proof a person saw it.
+   */
+  getSosStatus: async (eventId: string): Promise<SosStatusResponse | null> => {
+    try {
+      const response = await ApiClient.get<SosStatusResponse>(
+        `/v1/safety/sos/${encodeURIComponent(eventId)}`
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /** Close an SOS event so the server stops any pending contact alerts. */
+  resolveSos: async (eventId: string): Promise<boolean> => {
+    try {
+      const response = await ApiClient.post<{ success: boolean }>(
+        `/v1/safety/sos/${encodeURIComponent(eventId)}/resolve`,
+        {}
+      );
+      return response.data.success;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Start a live-location session and text its share link to `contacts`.
+   * Resolves null on error: the single SOS location fix still stands.
+   */
+  startLiveLocation: async (
+    payload: LiveLocationStartPayload
+  ): Promise<LiveLocationSessionResponse | null> => {
+    try {
+      const response = await ApiClient.post<LiveLocationSessionResponse>(
+        '/v1/safety/live-location',
+        payload
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Push one position to a live-location session. Not queued offline: a stale
+   * position replayed later would mislead whoever is following the link.
+   */
+  sendLiveLocationPoint: async (
+    sessionId: string,
+    point: LiveLocationPoint
+  ): Promise<LiveLocationSessionResponse | null> => {
+    try {
+      const response = await ApiClient.post<LiveLocationSessionResponse>(
+        `/v1/safety/live-location/${encodeURIComponent(sessionId)}/points`,
+        point,
+        { retries: 0 }
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /** End a live-location session; the share link stops showing a position. */
+  stopLiveLocation: async (sessionId: string): Promise<boolean> => {
+    try {
+      const response = await ApiClient.post<{ success: boolean }>(
+        `/v1/safety/live-location/${encodeURIComponent(sessionId)}/stop`,
+        {}
+      );
+      return response.data.success;
+    } catch {
+      return false;
+    }
+  },
+
   /**
    * Replace the authenticated user's server-side SMS emergency contact list.
    * The mobile store keeps richer local preferences (e.g. WhatsApp); only the
@@ -150,15 +409,153 @@ export const safetyApi = {
   },
 
   /**
-   * Confirm today's "I'm OK" on the server. Local state must not claim success
-   * before this returns success, otherwise the backend may still escalate the
-   * same check-in as MISSED.
+   * Confirm the current window's "I'm OK" on the server. Local state must not
+   * claim success before this returns success, otherwise the backend may still
+   * escalate the same check-in as MISSED. When the server is unreachable the
+   * check-in is queued and the response has `queued: true`: it will be
+   * replayed, but is not confirmed, so escalation may still happen meanwhile.
    */
-  completeDailyCheckIn: async (): Promise<DailyCheckInResponse | null> => {
+  completeDailyCheckIn: async (windowId?: string | null): Promise<DailyCheckInResponse | null> => {
     try {
-      const response = await ApiClient.post<DailyCheckInResponse>('/v1/safety/check-ins', {
-        action: 'complete',
+      const response = await ApiClient.post<DailyCheckInResponse>(
+        '/v1/safety/check-ins',
+        // The device time, so a replayed check-in counts for when it was made.
+        { action: 'complete', completedAt: new Date().toISOString(), windowId: windowId ?? null },
+        { outbox: { scope: 'safety', policy: 'append' } }
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Alert contacts that the member left a safe zone outside its allowed hours,
+   * or came back after such an alert. Nobody may be looking at the phone, so
+   * an offline alert is queued and replayed rather than dropped.
+   */
+  reportSafeZoneEvent: async (
+    payload: SafeZoneEventPayload
+  ): Promise<SafeZoneEventResponse | null> => {
+    try {
+      const response = await ApiClient.post<SafeZoneEventResponse>(
+        '/v1/safety/zones/events',
+        payload,
+        { outbox: { scope: 'safety', policy: 'append' } }
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Save one event to the account's safety history. Keyed by the event's id,
+   * so later changes to it (like delivery status) replace the earlier write,
+   * offline ones included. Queued under its own scope: history catching up
+   * is not a check-in waiting to sync.
+   */
+  saveHistoryEvent: async (
+    event: SafetyHistoryEvent
+  ): Promise<SafetyHistorySaveResponse | null> => {
+    try {
+      const response = await ApiClient.put<SafetyHistorySaveResponse>(
+        `/v1/safety/history/${encodeURIComponent(event.id)}`,
+        event,
+        {
+          outbox: {
+            scope: 'safetyHistory',
+            policy: 'client_wins',
+            resourceKey: `safety-event:${event.id}`,
+          },
+        }
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Upload events the history does not have yet, such as ones recorded while
+   * signed out. The server skips ids it already has; on failure the caller
+   * tries again at the next sign-in or launch.
+   */
+  importHistory: async (events: SafetyHistoryEvent[]): Promise<boolean> => {
+    try {
+      const response = await ApiClient.post<{ success: boolean }>('/v1/safety/history/import', {
+        events,
       });
+      return response.data?.success ?? false;
+    } catch {
+      return false;
+    }
+  },
+
+  /** The account's safety history between two times, newest first. */
+  getHistory: async (
+    params: { from?: string; to?: string; limit?: number } = {}
+  ): Promise<SafetyHistoryResponse | null> => {
+    try {
+      const response = await ApiClient.get<SafetyHistoryResponse>('/v1/safety/history', {
+        params,
+      });
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * People who list the signed-in user as a safety contact. The server matches
+   * them by the caregiver's verified phone number, so the list may be empty
+   * for a user who has only ever received SMS alerts.
+   */
+  getMonitoredRelatives: async (): Promise<MonitoredRelativesResponse | null> => {
+    try {
+      const response = await ApiClient.get<MonitoredRelativesResponse>(
+        '/v1/safety/caregiving/relatives'
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /** Check-in and SOS history of one relative, newest first. */
+  getRelativeSafetyEvents: async (
+    relativeId: string,
+    params: { limit?: number } = {}
+  ): Promise<RelativeSafetyEventsResponse | null> => {
+    try {
+      const response = await ApiClient.get<RelativeSafetyEventsResponse>(
+        `/v1/safety/caregiving/relatives/${encodeURIComponent(relativeId)}/events`,
+        { params: { limit: params.limit } }
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Tell the relative and the other caregivers that this alert is being
+   * handled. For an SOS this counts as an escalation acknowledgement, so it is
+   * never queued offline: the relative's ladder must keep going until the
+   * server actually has it.
+   */
+  acknowledgeRelativeAlert: async (
+    relativeId: string,
+    eventId: string,
+    note?: string | null
+  ): Promise<CaregiverAcknowledgeResponse | null> => {
+    try {
+      const response = await ApiClient.post<CaregiverAcknowledgeResponse>(
+        `/v1/safety/caregiving/relatives/${encodeURIComponent(
+          relativeId
+        )}/events/${encodeURIComponent(eventId)}/acknowledge`,
+        { note: note?.trim() || null }
+      );
       return response.data;
     } catch {
       return null;
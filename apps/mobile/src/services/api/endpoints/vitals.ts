@@ -26,6 +26,8 @@ export interface VitalResponse {
   success: boolean;
   error?: string;
   vital?: Vital;
+  /** Saved on the device and waiting in the offline outbox; not yet on the server. */
+  queued?: boolean;
 }
 
 export const vitalsApi = {
@@ -51,7 +53,9 @@ export const vitalsApi = {
     unit: string;
     recordedAt?: string;
   }): Promise<VitalResponse> => {
-    const response = await ApiClient.post<VitalResponse>('/v1/vitals', data);
+    const response = await ApiClient.post<VitalResponse>('/v1/vitals', data, {
+      outbox: { scope: 'vitals', policy: 'append' },
+    });
     return response.data;
   },
 };
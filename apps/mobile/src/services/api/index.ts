@@ -4,6 +4,7 @@
 
 // Core client
 export { ApiClient } from './ApiClient';
+export { onOutboxEvent } from './outbox';
 
 // Types
 export * from './types';
@@ -34,6 +35,8 @@ export type {
   V1ProfileShareResponse,
   SosReportPayload,
   SosReportResponse,
+  SosEscalationPlan,
+  SosStatusResponse,
   InventoryItem,
   InventoryListResponse,
   InventoryItemResponse,
@@ -0,0 +1,282 @@
+import { ApiClient } from './ApiClient';
+import {
+  MAX_REPLAY_ATTEMPTS,
+  createOutboxEntry,
+  onOutboxEvent,
+  replayBackoffMs,
+  replayOutbox,
+} from './outbox';
+import { ApiError, OutboxEntry, OutboxEvent } from './types';
+import { addToOutbox, useOutboxStore } from '@/store/useOutboxStore';
+import { SecureStorage } from '@/services/storage/SecureStorage';
+
+const secureStorageMock = SecureStorage as jest.Mocked<typeof SecureStorage>;
+
+const VITALS = { scope: 'vitals', policy: 'append' } as const;
+const CHECK_IN = { scope: 'safety', policy: 'append' } as const;
+const PROFILE = { scope: 'profiles', policy: 'server_wins', resourceKey: 'profile:p1' } as const;
+const PREFERENCES = {
+  scope: 'preferences',
+  policy: 'client_wins',
+  resourceKey: 'preferences',
+} as const;
+
+function okResponse(body: unknown = { success: true }) {
+  return {
+    ok: true,
+    status: 200,
+    headers: { forEach: jest.fn() },
+    text: jest.fn().mockResolvedValue(JSON.stringify(body)),
+  };
+}
+
+function queue(...entries: OutboxEntry[]) {
+  useOutboxStore.setState({ entries, isReplaying: false });
+}
+
+function endpoints() {
+  return useOutboxStore.getState().entries.map((entry) => entry.endpoint);
+}
+
+beforeEach(() => {
+  useOutboxStore.getState().resetStore();
+});
+
+describe('addToOutbox', () => {
+  it('never collapses creates', () => {
+    const first = createOutboxEntry('POST', '/v1/vitals', { value: '72' }, VITALS);
+    const second = createOutboxEntry('POST', '/v1/vitals', { value: '75' }, VITALS);
+
+    expect(addToOutbox(addToOutbox([], first), second)).toHaveLength(2);
+  });
+
+  it('collapses updates to one resource in place, merging PATCH bodies', () => {
+    const first = createOutboxEntry(
+      'PATCH',
+      '/v1/auth/preferences',
+      { appLockEnabled: true },
+      PREFERENCES
+    );
+    const vital = createOutboxEntry('POST', '/v1/vitals', {}, VITALS);
+    const second = createOutboxEntry(
+      'PATCH',
+      '/v1/auth/preferences',
+      { biometricEnabled: false },
+      PREFERENCES
+    );
+
+    const entries = [first, vital].reduce(addToOutbox, [] as OutboxEntry[]);
+    const collapsed = addToOutbox(entries, second);
+
+    expect(collapsed.map((entry) => entry.endpoint)).toEqual([
+      '/v1/auth/preferences',
+      '/v1/vitals',
+    ]);
+    expect(collapsed[0]).toMatchObject({
+      id: first.id,
+      createdAt: first.createdAt,
+      idempotencyKey: second.idempotencyKey,
+      body: { appLockEnabled: true, biometricEnabled: false },
+    });
+  });
+});
+
+describe('replayOutbox', () => {
+  it('replays oldest first and holds a scope at its first write that cannot get through', async () => {
+    queue(
+      createOutboxEntry('POST', '/first', {}, VITALS),
+      createOutboxEntry('POST', '/second', {}, VITALS),
+      createOutboxEntry('POST', '/third', {}, VITALS)
+    );
+    const sent: string[] = [];
+    const send = jest.fn(async (entry: OutboxEntry) => {
+      sent.push(entry.endpoint);
+      if (entry.endpoint === '/second') throw ApiError.networkError();
+    });
+
+    await expect(replayOutbox(send)).resolves.toBe(1);
+
+    expect(sent).toEqual(['/first', '/second']);
+    expect(endpoints()).toEqual(['/second', '/third']);
+    expect(useOutboxStore.getState().entries[0]).toMatchObject({
+      attempts: 1,
+      lastError: 'Network error',
+    });
+  });
+
+  it('lets other scopes carry on past a write that is stuck', async () => {
+    queue(
+      createOutboxEntry('POST', '/v1/vitals', {}, VITALS),
+      createOutboxEntry('POST', '/v1/safety/check-ins', {}, CHECK_IN),
+      createOutboxEntry('POST', '/v1/vitals/2', {}, VITALS)
+    );
+
+    await replayOutbox(async (entry) => {
+      if (entry.scope === 'vitals') throw ApiError.fromResponse(503, {});
+    });
+
+    expect(endpoints()).toEqual(['/v1/vitals', '/v1/vitals/2']);
+  });
+
+  it('retries a failed write on a timer, backing off after each failure', async () => {
+    jest.useFakeTimers({ now: new Date('2026-09-01T08:00:00.000Z') });
+    try {
+      queue(createOutboxEntry('POST', '/v1/vitals', {}, VITALS));
+      const send = jest.fn().mockRejectedValue(ApiError.networkError());
+
+      await replayOutbox(send);
+      expect(useOutboxStore.getState().entries[0].nextAttemptAt).toBe('2026-09-01T08:00:05.000Z');
+
+      // Not due yet: an early replay leaves it alone.
+      await replayOutbox(send);
+      expect(send).toHaveBeenCalledTimes(1);
+
+      send.mockResolvedValue(undefined);
+      await jest.advanceTimersByTimeAsync(replayBackoffMs(1));
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(useOutboxStore.getState().entries).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('doubles the backoff up to a ceiling', () => {
+    expect([1, 2, 3].map(replayBackoffMs)).toEqual([5_000, 10_000, 20_000]);
+    expect(replayBackoffMs(20)).toBe(30 * 60_000);
+  });
+
+  it('resolves conflicts according to each write policy', async () => {
+    queue(
+      createOutboxEntry('POST', '/v1/safety/check-ins', {}, CHECK_IN),
+      createOutboxEntry('PUT', '/v1/profiles/p1', {}, PROFILE),
+      createOutboxEntry('PATCH', '/v1/auth/preferences', {}, PREFERENCES)
+    );
+    const events: OutboxEvent[] = [];
+    const unsubscribe = onOutboxEvent((event) => events.push(event));
+
+    await replayOutbox(async (entry) => {
+      throw entry.policy === 'server_wins'
+        ? ApiError.fromResponse(412, {})
+        : ApiError.fromResponse(409, {});
+    });
+    unsubscribe();
+
+    expect(events.map((event) => [event.entry.scope, event.outcome])).toEqual([
+      // Already applied under the same idempotency key.
+      ['safety', 'synced'],
+      ['profiles', 'conflict'],
+      ['preferences', 'rejected'],
+    ]);
+    expect(useOutboxStore.getState().entries).toEqual([]);
+    expect(useOutboxStore.getState().lastSyncedAt).not.toBeNull();
+  });
+
+  it('keeps writes through a signed-out session and gives up after repeated failures', async () => {
+    const entry = createOutboxEntry('POST', '/v1/vitals', {}, VITALS);
+    queue(entry);
+
+    await replayOutbox(async () => {
+      throw ApiError.fromResponse(401, {});
+    });
+    expect(useOutboxStore.getState().entries[0].attempts).toBe(0);
+
+    queue({ ...entry, attempts: MAX_REPLAY_ATTEMPTS - 1 });
+    await replayOutbox(async () => {
+      throw ApiError.timeout();
+    });
+    expect(useOutboxStore.getState().entries).toEqual([]);
+  });
+});
+
+describe('ApiClient outbox', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    secureStorageMock.setAuthTokens.mockResolvedValue(true);
+    await ApiClient.setTokens({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiresAt: Math.floor(Date.now() / 1000) + 900,
+    });
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    secureStorageMock.clearAuthTokens.mockResolvedValue(true);
+    await ApiClient.clearTokens({ revokeRemote: false });
+  });
+
+  it('queues a write the server cannot be reached for and replays it with the same key', async () => {
+    const fetchMock = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+    global.fetch = fetchMock as typeof fetch;
+
+    const response = await ApiClient.post(
+      '/v1/vitals',
+      { value: '72' },
+      { retries: 0, outbox: VITALS }
+    );
+
+    expect(response).toMatchObject({ status: 202, queued: true, data: { queued: true } });
+    const [queued] = useOutboxStore.getState().entries;
+    const firstHeaders = fetchMock.mock.calls[0][1].headers;
+    expect(firstHeaders['Idempotency-Key']).toBe(queued.idempotencyKey);
+
+    fetchMock.mockResolvedValue(okResponse());
+    await expect(ApiClient.flushOutbox()).resolves.toBe(1);
+
+    expect(fetchMock.mock.calls[1][1].headers['Idempotency-Key']).toBe(queued.idempotencyKey);
+    expect(useOutboxStore.getState().entries).toEqual([]);
+  });
+
+  it('queues new writes behind earlier ones in their scope instead of letting them overtake', async () => {
+    queue(createOutboxEntry('POST', '/v1/vitals', {}, VITALS));
+    const fetchMock = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+    global.fetch = fetchMock as typeof fetch;
+
+    const response = await ApiClient.post('/v1/vitals', { value: '75' }, { outbox: VITALS });
+    await ApiClient.flushOutbox();
+
+    expect(response.queued).toBe(true);
+    // Only the replay of the oldest write was attempted.
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(endpoints()).toEqual(['/v1/vitals', '/v1/vitals']);
+  });
+
+  it('sends a write straight to the server while only other scopes are queued', async () => {
+    queue(createOutboxEntry('POST', '/v1/vitals', {}, VITALS));
+    const fetchMock = jest.fn().mockResolvedValue(okResponse());
+    global.fetch = fetchMock as typeof fetch;
+
+    const response = await ApiClient.put('/v1/profiles/p1', { name: 'Maya' }, { outbox: PROFILE });
+
+    expect(response.queued).toBeUndefined();
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/v1\/profiles\/p1$/);
+  });
+
+  it('replays server-wins updates conditionally on when the edit was made', async () => {
+    const entry = createOutboxEntry('PUT', '/v1/profiles/p1', { name: 'Maya' }, PROFILE);
+    queue(entry);
+    const fetchMock = jest.fn().mockResolvedValue(okResponse());
+    global.fetch = fetchMock as typeof fetch;
+
+    await ApiClient.flushOutbox();
+
+    expect(fetchMock.mock.calls[0][1].headers['If-Unmodified-Since']).toBe(
+      new Date(entry.createdAt).toUTCString()
+    );
+  });
+
+  it('surfaces errors the server returned instead of queueing them', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      headers: { forEach: jest.fn() },
+      text: jest.fn().mockResolvedValue(JSON.stringify({ error: 'Invalid value' })),
+    }) as typeof fetch;
+
+    await expect(ApiClient.post('/v1/vitals', {}, { outbox: VITALS })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    expect(useOutboxStore.getState().entries).toEqual([]);
+  });
+});
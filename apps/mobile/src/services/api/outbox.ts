@@ -0,0 +1,259 @@
+/**
+ * Offline Outbox
+ * Queues writes that could not reach the server and replays them in order
+ * within each scope, retrying with backoff until they get through.
+ *
+ * Endpoints opt in by passing `outbox: { scope, policy }` to ApiClient. A
+ * queued write resolves with a `QueuedResponseBody` (status 202) instead of
+ * throwing, so callers must check `queued` before treating a response as
+ * server-confirmed.
+ */
+
+import { useOutboxStore } from '@/store/useOutboxStore';
+import { createLogger } from '@/utils/logger';
+import {
+  ApiError,
+  ApiResponse,
+  HttpMethod,
+  OutboxEntry,
+  OutboxEvent,
+  OutboxOptions,
+  OutboxScope,
+  QueuedResponseBody,
+} from './types';
+
+const logger = createLogger('Outbox');
+
+/** Retryable replay failures after which a write is given up on. */
+export const MAX_REPLAY_ATTEMPTS = 10;
+
+/** Wait before the first retry of a write; doubles with each failure after. */
+const REPLAY_BACKOFF_BASE_MS = 5_000;
+const REPLAY_BACKOFF_MAX_MS = 30 * 60_000;
+
+/** Errors that mean "the server could not be reached", not "the server said no". */
+const QUEUEABLE_ERROR_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'];
+
+// ============================================
+// ENTRIES
+// ============================================
+
+export function createIdempotencyKey(): string {
+  const random = () => Math.random().toString(36).substring(2, 10);
+  return `${Date.now().toString(36)}-${random()}-${random()}`;
+}
+
+export function createOutboxEntry(
+  method: Exclude<HttpMethod, 'GET'>,
+  endpoint: string,
+  body: unknown,
+  options: OutboxOptions,
+  idempotencyKey: string = createIdempotencyKey()
+): OutboxEntry {
+  return {
+    id: idempotencyKey,
+    idempotencyKey,
+    method,
+    endpoint,
+    body,
+    scope: options.scope,
+    policy: options.policy,
+    resourceKey: options.resourceKey,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+}
+
+/** Whether a failed write should be queued rather than surfaced to the caller. */
+export function isQueueableError(error: unknown): boolean {
+  return error instanceof ApiError && QUEUEABLE_ERROR_CODES.includes(error.code);
+}
+
+export function queuedResponse<T>(): ApiResponse<T> {
+  const body: QueuedResponseBody = { success: true, queued: true };
+  return { data: body as T, status: 202, headers: {}, queued: true };
+}
+
+/** Headers for one attempt at an entry; replays of `server_wins` writes are conditional. */
+export function outboxHeaders(entry: OutboxEntry, isReplay: boolean): Record<string, string> {
+  const headers: Record<string, string> = { 'Idempotency-Key': entry.idempotencyKey };
+  if (isReplay && entry.policy === 'server_wins') {
+    headers['If-Unmodified-Since'] = new Date(entry.createdAt).toUTCString();
+  }
+  return headers;
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Be told when a queued write leaves the outbox: synced, dropped because the
+ * server's copy won, or rejected. Returns an unsubscribe function.
+ */
+export function onOutboxEvent(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function emit(event: OutboxEvent): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error('Outbox listener failed', error);
+    }
+  });
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+type ReplayDecision = 'synced' | 'conflict' | 'rejected' | 'retry' | 'stop';
+
+/** What a replay failure means for an entry, per its conflict policy. */
+export function classifyReplayError(entry: OutboxEntry, error: unknown): ReplayDecision {
+  if (!(error instanceof ApiError)) return 'retry';
+
+  const isConflict = error.code === 'CONFLICT' || error.status === 412;
+  if (isConflict) {
+    if (entry.policy === 'append') return 'synced';
+    if (entry.policy === 'server_wins') return 'conflict';
+    return 'rejected';
+  }
+
+  switch (error.code) {
+    case 'NETWORK_ERROR':
+    case 'TIMEOUT':
+    case 'SERVER_ERROR':
+    case 'RATE_LIMITED':
+      return 'retry';
+    case 'UNAUTHORIZED':
+      // Wait for the user to sign in again; the write is still wanted.
+      return 'stop';
+    default:
+      return 'rejected';
+  }
+}
+
+/** How long to wait before retrying a write that has failed this many times. */
+export function replayBackoffMs(attempts: number): number {
+  return Math.min(REPLAY_BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), REPLAY_BACKOFF_MAX_MS);
+}
+
+export type ReplaySender = (entry: OutboxEntry) => Promise<unknown>;
+
+let activeReplay: Promise<number> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Replay queued writes oldest first. A write that still cannot get through
+ * holds back the later writes in its scope, so they never overtake it, but
+ * other scopes carry on; it is retried with backoff on a timer. Returns the
+ * number of writes that left the queue; a call made during a replay joins it.
+ */
+export function replayOutbox(send: ReplaySender): Promise<number> {
+  if (activeReplay) return activeReplay;
+  if (useOutboxStore.getState().entries.length === 0) return Promise.resolve(0);
+
+  activeReplay = drainOutbox(send).finally(() => {
+    activeReplay = null;
+  });
+  return activeReplay;
+}
+
+/**
+ * The oldest write whose scope is not held back and whose retry is due. A
+ * write still backing off holds back its scope.
+ */
+function nextDueEntry(held: Set<OutboxScope>, now: number): OutboxEntry | undefined {
+  for (const entry of useOutboxStore.getState().entries) {
+    if (held.has(entry.scope)) continue;
+    if (entry.nextAttemptAt && Date.parse(entry.nextAttemptAt) > now) {
+      held.add(entry.scope);
+      continue;
+    }
+    return entry;
+  }
+  return undefined;
+}
+
+async function drainOutbox(send: ReplaySender): Promise<number> {
+  useOutboxStore.getState().setReplaying(true);
+  let settled = 0;
+  const held = new Set<OutboxScope>();
+  try {
+    for (;;) {
+      const entry = nextDueEntry(held, Date.now());
+      if (!entry) break;
+
+      let decision: ReplayDecision;
+      let failure: unknown;
+      try {
+        await send(entry);
+        decision = 'synced';
+      } catch (error) {
+        failure = error;
+        decision = classifyReplayError(entry, error);
+      }
+
+      if (decision === 'stop') break;
+      if (decision === 'retry') {
+        const message = (failure as Error)?.message ?? 'Unknown error';
+        if (entry.attempts + 1 < MAX_REPLAY_ATTEMPTS) {
+          const retryAt = Date.now() + replayBackoffMs(entry.attempts + 1);
+          useOutboxStore
+            .getState()
+            .recordFailedAttempt(entry.id, message, new Date(retryAt).toISOString());
+          held.add(entry.scope);
+          continue;
+        }
+        decision = 'rejected';
+      }
+
+      useOutboxStore.getState().removeEntry(entry.id);
+      settled += 1;
+      if (decision !== 'synced') {
+        logger.warn('Dropped queued write', {
+          endpoint: entry.endpoint,
+          outcome: decision,
+          message: (failure as Error)?.message,
+        });
+      }
+      emit({ outcome: decision, entry });
+    }
+  } finally {
+    useOutboxStore.getState().setReplaying(false);
+  }
+
+  if (useOutboxStore.getState().entries.length === 0) {
+    useOutboxStore.getState().markSynced();
+  }
+  scheduleRetry(send);
+  return settled;
+}
+
+/** Replay again when the earliest backed-off write is due. */
+function scheduleRetry(send: ReplaySender): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const due = useOutboxStore
+    .getState()
+    .entries.filter((entry) => entry.nextAttemptAt)
+    .map((entry) => Date.parse(entry.nextAttemptAt!));
+  if (due.length === 0) return;
+
+  const delay = Math.max(Math.min(...due) - Date.now(), 0);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void replayOutbox(send);
+  }, delay);
+}
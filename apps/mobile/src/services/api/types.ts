@@ -20,12 +20,75 @@ export interface RequestConfig {
   skipAuth?: boolean;
   /** Retry count on failure */
   retries?: number;
+  /** Queue the write in the offline outbox when it cannot reach the server */
+  outbox?: OutboxOptions;
 }
 
 export interface ApiResponse<T> {
   data: T;
   status: number;
   headers: Record<string, string>;
+  /** The write was queued in the offline outbox; `data` is a `QueuedResponseBody`. */
+  queued?: boolean;
+}
+
+// ============================================
+// OFFLINE OUTBOX TYPES
+// ============================================
+
+/**
+ * How a queued write is reconciled with the server on replay.
+ * - `append`: an independent create. Never collapsed; a 409 on replay means the
+ *   server already applied it under the same idempotency key.
+ * - `client_wins`: an update. Queued writes to the same resource collapse to
+ *   the newest and replay unconditionally.
+ * - `server_wins`: an update. Queued writes collapse too, but replay is
+ *   conditional on the resource not having changed since the write was made;
+ *   if it has (409/412), the local write is dropped and subscribers refetch.
+ */
+export type ConflictPolicy = 'append' | 'client_wins' | 'server_wins';
+
+/** The store a queued write belongs to, for pending-sync state. */
+export type OutboxScope = 'profiles' | 'safety' | 'safetyHistory' | 'vitals' | 'preferences';
+
+export interface OutboxOptions {
+  scope: OutboxScope;
+  policy: ConflictPolicy;
+  /** Resource the write targets, e.g. `profile:<id>`. Required to collapse updates. */
+  resourceKey?: string;
+}
+
+/** Body returned in place of the server's response when a write is queued. */
+export interface QueuedResponseBody {
+  success: true;
+  queued: true;
+}
+
+export interface OutboxEntry {
+  id: string;
+  /** Sent as `Idempotency-Key` on every attempt so replays are never applied twice. */
+  idempotencyKey: string;
+  method: Exclude<HttpMethod, 'GET'>;
+  endpoint: string;
+  body?: unknown;
+  scope: OutboxScope;
+  policy: ConflictPolicy;
+  resourceKey?: string;
+  /** When the write was made on the device (ISO). */
+  createdAt: string;
+  /** Replay attempts that failed for a retryable reason. */
+  attempts: number;
+  lastError?: string;
+  /** Not retried before this time (ISO); backs off with each failed attempt. */
+  nextAttemptAt?: string;
+}
+
+/** How a queued write left the outbox. */
+export type OutboxOutcome = 'synced' | 'conflict' | 'rejected';
+
+export interface OutboxEvent {
+  outcome: OutboxOutcome;
+  entry: OutboxEntry;
 }
 
 // ============================================
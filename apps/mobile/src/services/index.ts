@@ -65,7 +65,8 @@ export {
   scheduleAppointmentReminder,
   cancelAppointmentReminder,
   scheduleMedicationReminder,
-  cancelMedicationReminder,
+  snoozeMedicationReminder,
+  cancelMedicationReminders,
   scheduleFollowUpReminder,
   cancelFollowUpReminder,
   sendSOSConfirmation,
@@ -457,6 +457,17 @@ class NotificationServiceImpl implements INotificationService {
         console.log('[NotificationService] Background event:', type, notification.id);
       }
     }
+
+    // Answering a reminder from the lock screen ("Taken", "Skip") needs no UI.
+    // Listeners only exist while the JS app is alive; in a headless start
+    // nothing is registered and the action is dropped.
+    if (type === EventType.ACTION_PRESS) {
+      const actionId = detail.pressAction?.id;
+      const scheduledNotification = this.scheduledNotifications.get(notification.id || '');
+      if (actionId && scheduledNotification) {
+        this.actionCallbacks.forEach((callback) => callback(actionId, scheduledNotification));
+      }
+    }
   }
 
   onNotificationPressed(callback: (notification: ScheduledNotification) => void): () => void {
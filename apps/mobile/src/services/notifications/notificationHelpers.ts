@@ -11,38 +11,53 @@ import { NotificationContent, NotificationTrigger } from './types';
 // ============================================
 
 export const NotificationIds = {
-  checkInReminder: (memberId?: string) => `check_in_reminder_${memberId || 'default'}`,
+  checkInReminder: (memberId: string | undefined, slot: string) =>
+    `check_in_reminder_${memberId || 'default'}_${slot}`,
   appointmentReminder: (appointmentId: string) => `appointment_${appointmentId}`,
-  medicationReminder: (medicationId: string, time: string) => `medication_${medicationId}_${time}`,
+  medicationReminder: (scheduleId: string, slot: string) => `medication_${scheduleId}_${slot}`,
+  medicationSnooze: (scheduleId: string) => `medication_${scheduleId}_snooze`,
   followUpReminder: (episodeId: string) => `follow_up_${episodeId}`,
   sosConfirmation: () => `sos_confirmation_${Date.now()}`,
+  sosEmergencyCall: (sosEventId: string) => `sos_emergency_call_${sosEventId}`,
 };
 
 // ============================================
 // CHECK-IN REMINDERS
 // ============================================
 
+export type CheckInReminderParams = {
+  windowId: string;
+  /** Window time, HH:mm. */
+  time: string;
+  /** First time the reminder fires; it then repeats daily or weekly. */
+  firstAt: Date;
+  repeat: 'daily' | 'weekly';
+  memberId?: string;
+};
+
 /**
- * Schedule daily check-in reminder
+ * Schedule a repeating reminder for one check-in window. Like medication
+ * reminders, weekly ones are keyed by the weekday of `firstAt`, so a window
+ * on weekdays holds five of them.
  */
-export async function scheduleCheckInReminder(
-  hour: number,
-  minute: number,
-  memberId?: string
-): Promise<string> {
-  const notificationId = NotificationIds.checkInReminder(memberId);
+export async function scheduleCheckInReminder(params: CheckInReminderParams): Promise<string> {
+  const { windowId, time, firstAt, repeat, memberId } = params;
+  const slot = repeat === 'weekly' ? `${windowId}_d${firstAt.getDay()}` : windowId;
+  const notificationId = NotificationIds.checkInReminder(memberId, slot);
 
-  // Cancel any existing check-in reminder
+  // Cancel any existing reminder for this slot
   await NotificationService.cancel(notificationId);
 
   const content: NotificationContent = {
-    title: 'Time for your daily check-in',
+    title: 'Time for your check-in',
     body: "Tap to let your family know you're okay",
     channelId: 'check_in_reminder',
     priority: 'high',
     data: {
       type: 'check_in',
       memberId,
+      windowId,
+      time,
     },
     actions: [
       {
@@ -59,9 +74,8 @@ export async function scheduleCheckInReminder(
   };
 
   const trigger: NotificationTrigger = {
-    repeatType: 'daily',
-    repeatHour: hour,
-    repeatMinute: minute,
+    timestamp: firstAt.getTime(),
+    repeatType: repeat,
   };
 
   return NotificationService.schedule({
@@ -72,10 +86,19 @@ export async function scheduleCheckInReminder(
 }
 
 /**
- * Cancel check-in reminder
+ * Cancel every check-in reminder for a member
  */
 export async function cancelCheckInReminder(memberId?: string): Promise<void> {
-  await NotificationService.cancel(NotificationIds.checkInReminder(memberId));
+  const scheduled = await NotificationService.getScheduled();
+  await Promise.all(
+    scheduled
+      .filter(
+        (notification) =>
+          notification.content.data?.type === 'check_in' &&
+          notification.content.data?.memberId === memberId
+      )
+      .map((notification) => NotificationService.cancel(notification.id))
+  );
 }
 
 // ============================================
@@ -140,62 +163,119 @@ export async function cancelAppointmentReminder(appointmentId: string): Promise<
 // MEDICATION REMINDERS
 // ============================================
 
-/**
- * Schedule medication reminder
- */
-export async function scheduleMedicationReminder(
-  medicationId: string,
-  medicationName: string,
-  dosage: string,
-  hour: number,
-  minute: number
-): Promise<string> {
-  const timeKey = `${hour}:${minute}`;
-  const notificationId = NotificationIds.medicationReminder(medicationId, timeKey);
+/** Action ids on a medication reminder, as passed to `onActionPressed`. */
+export const MEDICATION_REMINDER_ACTIONS = {
+  taken: 'medication_taken',
+  skipped: 'medication_skipped',
+  snooze: 'medication_snooze',
+} as const;
+
+export type MedicationReminderParams = {
+  scheduleId: string;
+  memberId: string;
+  /** Shown when the dose is for someone other than the account holder. */
+  memberName?: string;
+  medicationName: string;
+  dosage: string;
+  /** Dose time, HH:mm. */
+  time: string;
+  /** First time the reminder fires; it then repeats daily or weekly. */
+  firstAt: Date;
+  repeat: 'daily' | 'weekly';
+};
 
-  const content: NotificationContent = {
-    title: 'Medication Reminder',
-    body: `Time to take ${medicationName} - ${dosage}`,
+function medicationReminderContent(
+  params: Omit<MedicationReminderParams, 'firstAt' | 'repeat'>
+): NotificationContent {
+  const { scheduleId, memberId, memberName, medicationName, dosage, time } = params;
+  const what = [medicationName, dosage].filter(Boolean).join(' - ');
+
+  return {
+    title: memberName ? `Medication for ${memberName}` : 'Medication Reminder',
+    body: `Time to take ${what}`,
     channelId: 'medication_reminder',
     priority: 'high',
     data: {
       type: 'medication_reminder',
-      medicationId,
+      scheduleId,
+      memberId,
       medicationName,
       dosage,
+      time,
     },
     actions: [
       {
-        id: 'taken',
-        title: 'Mark as taken',
-        pressAction: { id: 'medication_taken' },
+        id: MEDICATION_REMINDER_ACTIONS.taken,
+        title: 'Taken',
+        pressAction: { id: MEDICATION_REMINDER_ACTIONS.taken },
       },
       {
-        id: 'snooze',
+        id: MEDICATION_REMINDER_ACTIONS.skipped,
+        title: 'Skip',
+        pressAction: { id: MEDICATION_REMINDER_ACTIONS.skipped },
+      },
+      {
+        id: MEDICATION_REMINDER_ACTIONS.snooze,
         title: 'Snooze 10 min',
-        pressAction: { id: 'medication_snooze' },
+        pressAction: { id: MEDICATION_REMINDER_ACTIONS.snooze },
       },
     ],
   };
+}
+
+/**
+ * Schedule a repeating reminder for one dose time of a medication schedule.
+ * Weekly reminders are keyed by the weekday of `firstAt`, so a schedule on
+ * Monday and Thursday at 08:00 holds two of them.
+ */
+export async function scheduleMedicationReminder(
+  params: MedicationReminderParams
+): Promise<string> {
+  const slot =
+    params.repeat === 'weekly' ? `${params.time}_d${params.firstAt.getDay()}` : params.time;
+  const notificationId = NotificationIds.medicationReminder(params.scheduleId, slot);
 
   const trigger: NotificationTrigger = {
-    repeatType: 'daily',
-    repeatHour: hour,
-    repeatMinute: minute,
+    timestamp: params.firstAt.getTime(),
+    repeatType: params.repeat,
   };
 
   return NotificationService.schedule({
     id: notificationId,
-    content,
+    content: medicationReminderContent(params),
     trigger,
   });
 }
 
 /**
- * Cancel medication reminder
+ * Remind again about one dose in `minutes`. The dose time stays in the data,
+ * so answering the snoozed reminder still records the original dose.
+ */
+export async function snoozeMedicationReminder(
+  params: Omit<MedicationReminderParams, 'firstAt' | 'repeat'>,
+  scheduledFor: string,
+  minutes: number
+): Promise<string> {
+  const notificationId = NotificationIds.medicationSnooze(params.scheduleId);
+  const content = medicationReminderContent(params);
+
+  return NotificationService.schedule({
+    id: notificationId,
+    content: { ...content, data: { ...content.data, scheduledFor } },
+    trigger: { timestamp: Date.now() + minutes * 60 * 1000, repeatType: 'none' },
+  });
+}
+
+/**
+ * Cancel every reminder (and any snooze) for a medication schedule
  */
-export async function cancelMedicationReminder(medicationId: string, time: string): Promise<void> {
-  await NotificationService.cancel(NotificationIds.medicationReminder(medicationId, time));
+export async function cancelMedicationReminders(scheduleId: string): Promise<void> {
+  const scheduled = await NotificationService.getScheduled();
+  await Promise.all(
+    scheduled
+      .filter((notification) => notification.content.data?.scheduleId === scheduleId)
+      .map((notification) => NotificationService.cancel(notification.id))
+  );
 }
 
 // ============================================
@@ -294,6 +374,60 @@ export async function sendSOSConfirmation(
   return NotificationService.displayNow(content);
 }
 
+/**
+ * Ask a user who left the app whether they fell. Opening it shows the
+ * countdown that starts an SOS when nobody answers.
+ */
+export async function sendFallDetectedAlert(): Promise<string> {
+  const content: NotificationContent = {
+    title: 'Did you fall?',
+    body: "Open CareBow to tell us you're OK, or your emergency contacts will be alerted.",
+    channelId: 'sos_alert',
+    priority: 'max',
+    data: {
+      type: 'fall_detected',
+    },
+  };
+
+  return NotificationService.displayNow(content);
+}
+
+/**
+ * Tell the user to call emergency services at `at`, when their SOS ladder
+ * reaches that step. Scheduled ahead so it fires while the app is suspended.
+ */
+export async function scheduleSOSEmergencyCallReminder(
+  sosEventId: string,
+  emergencyNumber: string,
+  at: Date
+): Promise<string> {
+  const notificationId = NotificationIds.sosEmergencyCall(sosEventId);
+  await NotificationService.cancel(notificationId);
+
+  return NotificationService.schedule({
+    id: notificationId,
+    content: {
+      title: 'No one has responded to your SOS',
+      body: `Call emergency services on ${emergencyNumber} now.`,
+      channelId: 'sos_alert',
+      priority: 'max',
+      data: {
+        type: 'sos_emergency_call',
+        sosEventId,
+        emergencyNumber,
+      },
+    },
+    trigger: { timestamp: at.getTime() },
+  });
+}
+
+/**
+ * Cancel the emergency call reminder for an SOS
+ */
+export async function cancelSOSEmergencyCallReminder(sosEventId: string): Promise<void> {
+  await NotificationService.cancel(NotificationIds.sosEmergencyCall(sosEventId));
+}
+
 /**
  * Send missed check-in alert
  */
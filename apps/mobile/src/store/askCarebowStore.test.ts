@@ -740,6 +740,27 @@ describe('askCarebowStore', () => {
       expect(result.current.currentSession?.doctorNotesSent).toBe(true);
       expect(result.current.currentSession?.doctorNotesRecipient).toBe('dr.smith@example.com');
     });
+
+    it('markDoctorNotesSent records the server time on the shared session', () => {
+      const { result } = renderHook(() => useAskCarebowStore());
+
+      act(() => {
+        result.current.startNewSession('user-1', 'member-1');
+      });
+      const sharedId = result.current.currentSession!.id;
+      act(() => {
+        result.current.startNewSession('user-1', 'member-2');
+      });
+
+      act(() => {
+        result.current.markDoctorNotesSent('Dr. Rao', sharedId, '2026-08-01T09:00:01.000Z');
+      });
+
+      const shared = result.current.sessions.find((s) => s.id === sharedId);
+      expect(shared?.doctorNotesRecipient).toBe('Dr. Rao');
+      expect(shared?.doctorNotesSentAt).toBe('2026-08-01T09:00:01.000Z');
+      expect(result.current.currentSession?.doctorNotesSent).toBeUndefined();
+    });
   });
 
   describe('Export', () => {
@@ -759,6 +780,26 @@ describe('askCarebowStore', () => {
       expect(result.current.currentSession?.exportHistory?.[0].exportedTo).toBe('email');
     });
 
+    it('exportSession records on the session that was exported', () => {
+      const { result } = renderHook(() => useAskCarebowStore());
+
+      act(() => {
+        result.current.startNewSession('user-1', 'member-1');
+      });
+      const earlierId = result.current.currentSession!.id;
+      act(() => {
+        result.current.startNewSession('user-1', 'member-2');
+      });
+
+      act(() => {
+        result.current.exportSession('fhir', 'share', earlierId);
+      });
+
+      const earlier = result.current.sessions.find((s) => s.id === earlierId);
+      expect(earlier?.exportHistory?.[0].exportFormat).toBe('fhir');
+      expect(result.current.currentSession?.exportHistory).toBeUndefined();
+    });
+
     it('getSessionExportText returns null without session', () => {
       const { result } = renderHook(() => useAskCarebowStore());
       expect(result.current.getSessionExportText()).toBeNull();
@@ -16,6 +16,8 @@ import {
   ServiceRecommendation,
   FollowUpQuestionType,
   SessionFeedback,
+  SessionExportDestination,
+  SessionExportFormat,
   generateSessionId,
   createEmptyHealthContext,
   createMessage,
@@ -105,14 +107,18 @@ type AskCarebowActions = {
   // Enhanced session logging
   finalizeSession: () => void;
   provideDetailedFeedback: (feedback: Omit<SessionFeedback, 'feedbackTimestamp'>) => void;
-  linkOrderToSession: (orderId: string) => void;
+  /** Links to the given session, or the current one. */
+  linkOrderToSession: (orderId: string, sessionId?: string) => void;
   linkRequestToSession: (requestId: string) => void;
   scheduleFollowUp: (scheduledFor: string, reminderId?: string) => void;
   cancelFollowUp: () => void;
-  markDoctorNotesSent: (recipient: string) => void;
+  /** Records on the given session, or the current one. */
+  markDoctorNotesSent: (recipient: string, sessionId?: string, sentAt?: string) => void;
+  /** Records an export on the given session, or the current one. */
   exportSession: (
-    format: 'pdf' | 'text' | 'json',
-    destination: 'email' | 'share' | 'download'
+    format: SessionExportFormat,
+    destination: SessionExportDestination,
+    sessionId?: string
   ) => void;
   getSessionExportText: (sessionId?: string) => string | null;
   getSessionExportJson: (sessionId?: string) => object | null;
@@ -629,12 +635,15 @@ export const useAskCarebowStore = create<AskCarebowState & AskCarebowActions>()(
         });
       },
 
-      linkOrderToSession: (orderId) => {
+      linkOrderToSession: (orderId, sessionId) => {
         set((state) => {
-          if (!state.currentSession) return state;
+          const session = sessionId
+            ? state.sessions.find((s) => s.id === sessionId)
+            : state.currentSession;
+          if (!session) return state;
 
           const updatedSession = {
-            ...state.currentSession,
+            ...session,
             linkedOrderId: orderId,
             updatedAt: new Date().toISOString(),
           };
@@ -648,7 +657,10 @@ export const useAskCarebowStore = create<AskCarebowState & AskCarebowActions>()(
           }
 
           return {
-            currentSession: updatedSession,
+            currentSession:
+              state.currentSession?.id === updatedSession.id
+                ? updatedSession
+                : state.currentSession,
             sessions: state.sessions.map((s) => (s.id === updatedSession.id ? updatedSession : s)),
           };
         });
@@ -717,28 +729,37 @@ export const useAskCarebowStore = create<AskCarebowState & AskCarebowActions>()(
         });
       },
 
-      markDoctorNotesSent: (recipient) => {
+      markDoctorNotesSent: (recipient, sessionId, sentAt) => {
         set((state) => {
-          if (!state.currentSession) return state;
+          const session = sessionId
+            ? state.sessions.find((s) => s.id === sessionId)
+            : state.currentSession;
+          if (!session) return state;
 
           const updatedSession = {
-            ...state.currentSession,
+            ...session,
             doctorNotesSent: true,
-            doctorNotesSentAt: new Date().toISOString(),
+            doctorNotesSentAt: sentAt ?? new Date().toISOString(),
             doctorNotesRecipient: recipient,
             updatedAt: new Date().toISOString(),
           };
 
           return {
-            currentSession: updatedSession,
+            currentSession:
+              state.currentSession?.id === updatedSession.id
+                ? updatedSession
+                : state.currentSession,
             sessions: state.sessions.map((s) => (s.id === updatedSession.id ? updatedSession : s)),
           };
         });
       },
 
-      exportSession: (format, destination) => {
+      exportSession: (format, destination, sessionId) => {
         set((state) => {
-          if (!state.currentSession) return state;
+          const session = sessionId
+            ? state.sessions.find((s) => s.id === sessionId)
+            : state.currentSession;
+          if (!session) return state;
 
           const exportEntry = {
             exportedAt: new Date().toISOString(),
@@ -747,13 +768,16 @@ export const useAskCarebowStore = create<AskCarebowState & AskCarebowActions>()(
           };
 
           const updatedSession = {
-            ...state.currentSession,
-            exportHistory: [...(state.currentSession.exportHistory || []), exportEntry],
+            ...session,
+            exportHistory: [...(session.exportHistory || []), exportEntry],
             updatedAt: new Date().toISOString(),
           };
 
           return {
-            currentSession: updatedSession,
+            currentSession:
+              state.currentSession?.id === updatedSession.id
+                ? updatedSession
+                : state.currentSession,
             sessions: state.sessions.map((s) => (s.id === updatedSession.id ? updatedSession : s)),
           };
         });
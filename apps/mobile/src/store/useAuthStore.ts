@@ -10,6 +10,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SecureStorage } from '@/services/storage/SecureStorage';
 import { authApi, extractTokens, extractUser } from '@/services/api/endpoints/auth';
 import { ApiClient } from '@/services/api/ApiClient';
+import { useOutboxStore } from '@/store/useOutboxStore';
 import { AccessProfileSummary, ApiError, UserTypeSlug } from '@/services/api/types';
 
 // ============================================
@@ -413,6 +414,9 @@ export const useAuthStore = create<AuthStore>()(
         // SECURITY: Clear tokens from secure storage and the API client
         await Promise.all([SecureStorage.clearAuthTokens(), ApiClient.clearTokens()]);
 
+        // Queued offline writes belong to this account; never replay them as the next one.
+        useOutboxStore.getState().resetStore();
+
         // Also clear the local profile store so no account data lingers.
         try {
           // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -422,6 +426,15 @@ export const useAuthStore = create<AuthStore>()(
           // profile store unavailable — non-fatal
         }
 
+        // Safety history belongs to the account too; the server keeps its copy.
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-var-requires
+          const { useSafetyStore } = require('@/features/safety/store/useSafetyStore');
+          useSafetyStore.getState().forgetAccountEvents();
+        } catch {
+          // safety store unavailable — non-fatal
+        }
+
         set({
           ...initialState,
           _hasHydrated: true, // Keep hydration state
@@ -765,6 +778,8 @@ export const useAuthStore = create<AuthStore>()(
             });
             // Overwrite any stale local profile data with the real account.
             if (hydratedUser) syncProfileStore(hydratedUser);
+            // Writes queued before the app was last closed can go out now.
+            void ApiClient.flushOutbox();
 
             if (__DEV__) {
               console.log('[AuthStore] Tokens hydrated from secure storage');
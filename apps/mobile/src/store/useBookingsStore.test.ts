@@ -20,6 +20,8 @@ jest.mock('../services/api/endpoints/member', () => ({
     getBooking: jest.fn(),
     createBooking: jest.fn(),
     cancelBooking: jest.fn(),
+    rescheduleBooking: jest.fn(),
+    shareAssessment: jest.fn(),
   },
 }));
 
@@ -109,6 +111,71 @@ describe('create', () => {
     expect(result).toEqual({ ok: false, error: 'Service unavailable' });
     expect(useBookingsStore.getState().bookings).toHaveLength(0);
   });
+
+  it('stores every visit of a recurring series', async () => {
+    const series = { id: 'ser_1', rule: { weekdays: [1, 3, 5], weeks: 1 }, visitCount: 3 };
+    const visits = [1, 2, 3].map((position) =>
+      booking({ id: `bk_${position}`, series: { ...series, position } })
+    );
+    api.createBooking.mockResolvedValue({ success: true, booking: visits[0], bookings: visits });
+
+    const result = await useBookingsStore.getState().create({} as never);
+
+    expect(result).toEqual({ ok: true, booking: visits[0] });
+    expect(useBookingsStore.getState().bookings.map((b) => b.id).sort()).toEqual([
+      'bk_1',
+      'bk_2',
+      'bk_3',
+    ]);
+  });
+});
+
+describe('reschedule', () => {
+  it('moves only the visit the server moved', async () => {
+    api.getBookings.mockResolvedValue({
+      success: true,
+      bookings: [booking({ id: 'bk_1' }), booking({ id: 'bk_2' })],
+    });
+    await useBookingsStore.getState().fetch();
+
+    api.rescheduleBooking.mockResolvedValue({
+      success: true,
+      booking: booking({ id: 'bk_2', scheduledAt: '2026-08-02T10:00:00Z' }),
+    });
+    const result = await useBookingsStore.getState().reschedule('bk_2', '2026-08-02T10:00:00Z');
+
+    expect(result.ok).toBe(true);
+    expect(api.rescheduleBooking).toHaveBeenCalledWith('bk_2', {
+      scheduledAt: '2026-08-02T10:00:00Z',
+    });
+    const scheduled = useBookingsStore.getState().bookings.map((b) => [b.id, b.scheduledAt]);
+    expect(scheduled).toEqual([
+      ['bk_1', '2026-08-01T10:00:00Z'],
+      ['bk_2', '2026-08-02T10:00:00Z'],
+    ]);
+  });
+
+  it('keeps the original time when the server refuses', async () => {
+    api.getBookings.mockResolvedValue({ success: true, bookings: [booking()] });
+    await useBookingsStore.getState().fetch();
+
+    api.rescheduleBooking.mockResolvedValue({ success: false, error: 'Too close to the visit' });
+    const result = await useBookingsStore.getState().reschedule('bk_1', '2026-08-02T10:00:00Z');
+
+    expect(result).toEqual({ ok: false, error: 'Too close to the visit' });
+    expect(useBookingsStore.getState().bookings[0].scheduledAt).toBe('2026-08-01T10:00:00Z');
+  });
+
+  it('reports the refund for a cheaper time', async () => {
+    api.rescheduleBooking.mockResolvedValue({
+      success: true,
+      booking: booking({ scheduledAt: '2026-08-02T10:00:00Z' }),
+      refund: { status: 'ISSUED', amount: 15000 },
+    });
+    const result = await useBookingsStore.getState().reschedule('bk_1', '2026-08-02T10:00:00Z');
+
+    expect(result).toMatchObject({ ok: true, refund: { status: 'ISSUED', amount: 15000 } });
+  });
 });
 
 describe('cancel', () => {
@@ -138,6 +205,45 @@ describe('cancel', () => {
   });
 });
 
+describe('shareAssessment', () => {
+  const input = {
+    sessionId: 'ask_1',
+    summary: 'CHIEF COMPLAINT',
+    consentedAt: '2026-08-01T09:00:00Z',
+  };
+
+  it('records what the server says was shared', async () => {
+    api.getBookings.mockResolvedValue({ success: true, bookings: [booking()] });
+    await useBookingsStore.getState().fetch();
+
+    const sharedAssessment = {
+      sessionId: 'ask_1',
+      sharedAt: '2026-08-01T09:00:01Z',
+      recipient: 'Dr. Rao',
+    };
+    api.shareAssessment.mockResolvedValue({
+      success: true,
+      booking: booking({ sharedAssessment }),
+    });
+    const result = await useBookingsStore.getState().shareAssessment('bk_1', input);
+
+    expect(api.shareAssessment).toHaveBeenCalledWith('bk_1', input);
+    expect(result.ok).toBe(true);
+    expect(useBookingsStore.getState().bookings[0].sharedAssessment).toEqual(sharedAssessment);
+  });
+
+  it('reports a refusal without marking the booking shared', async () => {
+    api.getBookings.mockResolvedValue({ success: true, bookings: [booking()] });
+    await useBookingsStore.getState().fetch();
+
+    api.shareAssessment.mockResolvedValue({ success: false, error: 'Booking is closed' });
+    const result = await useBookingsStore.getState().shareAssessment('bk_1', input);
+
+    expect(result).toEqual({ ok: false, error: 'Booking is closed' });
+    expect(useBookingsStore.getState().bookings[0].sharedAssessment).toBeUndefined();
+  });
+});
+
 describe('upsert', () => {
   it('replaces by id instead of duplicating', async () => {
     api.getBookings.mockResolvedValue({ success: true, bookings: [booking()] });
@@ -50,9 +50,21 @@ export interface BookingsState {
   fetch: (opts?: { force?: boolean; status?: BookingStatus }) => Promise<void>;
   /** Fetch one booking and merge it in. Used by the details screen. */
   fetchOne: (bookingId: string) => Promise<V1Booking | null>;
+  /** For a recurring series, merges every visit and resolves with the first. */
   create: (
     input: Parameters<typeof memberApi.createBooking>[0]
   ) => Promise<{ ok: true; booking: V1Booking } | { ok: false; error: string }>;
+  /**
+   * Move one booking, or one visit of a series, leaving the rest in place.
+   * Reports any refund for a cheaper time, as `cancel` does.
+   */
+  reschedule: (
+    bookingId: string,
+    scheduledAt: string,
+    slotHoldId?: string
+  ) => Promise<
+    { ok: true; booking: V1Booking; refund?: RefundOutcome } | { ok: false; error: string }
+  >;
   /**
    * No reason parameter: the v1 cancel endpoint does not accept one today.
    * Reports the refund the server issued, so the screen can say what happened
@@ -61,6 +73,11 @@ export interface BookingsState {
   cancel: (
     bookingId: string
   ) => Promise<{ ok: true; refund?: RefundOutcome } | { ok: false; error: string }>;
+  /** Attach a previewed, consented Ask CareBow assessment to a booking. */
+  shareAssessment: (
+    bookingId: string,
+    input: Parameters<typeof memberApi.shareAssessment>[1]
+  ) => Promise<{ ok: true; booking: V1Booking } | { ok: false; error: string }>;
   reset: () => void;
 }
 
@@ -125,14 +142,28 @@ export const useBookingsStore = create<BookingsState>((set, get) => ({
       if (!res.success || !res.booking) {
         return { ok: false as const, error: res.error || 'Could not create the booking.' };
       }
-      // Merge the server's booking — its id, price and status, not ours.
-      set((s) => ({ bookings: upsert(s.bookings, res.booking!), lastFetchedAt: Date.now() }));
+      // Merge the server's bookings — their ids, prices and status, not ours.
+      const created = res.bookings?.length ? res.bookings : [res.booking];
+      set((s) => ({ bookings: created.reduce(upsert, s.bookings), lastFetchedAt: Date.now() }));
       return { ok: true as const, booking: res.booking };
     } catch {
       return { ok: false as const, error: 'No connection. Please try again.' };
     }
   },
 
+  reschedule: async (bookingId, scheduledAt, slotHoldId) => {
+    try {
+      const res = await memberApi.rescheduleBooking(bookingId, { scheduledAt, slotHoldId });
+      if (!res.success || !res.booking) {
+        return { ok: false as const, error: res.error || 'Could not move the booking.' };
+      }
+      set((s) => ({ bookings: upsert(s.bookings, res.booking!) }));
+      return { ok: true as const, booking: res.booking, refund: res.refund };
+    } catch {
+      return { ok: false as const, error: 'No connection. Please try again.' };
+    }
+  },
+
   cancel: async (bookingId) => {
     try {
       const res = await memberApi.cancelBooking(bookingId);
@@ -152,6 +183,19 @@ export const useBookingsStore = create<BookingsState>((set, get) => ({
     }
   },
 
+  shareAssessment: async (bookingId, input) => {
+    try {
+      const res = await memberApi.shareAssessment(bookingId, input);
+      if (!res.success || !res.booking) {
+        return { ok: false as const, error: res.error || 'Could not share your assessment.' };
+      }
+      set((s) => ({ bookings: upsert(s.bookings, res.booking!) }));
+      return { ok: true as const, booking: res.booking };
+    } catch {
+      return { ok: false as const, error: 'No connection. Please try again.' };
+    }
+  },
+
   reset: () => set({ bookings: [], status: 'idle', error: null, lastFetchedAt: null }),
 }));
 
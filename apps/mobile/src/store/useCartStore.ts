@@ -87,6 +87,8 @@ const createInitialDraft = (
     memberName: null,
     date: null,
     startTime: null,
+    slotStartsAt: null,
+    slotTimeZone: null,
     endTime: null,
     durationMinutes: service.booking.defaultDurationMinutes || null,
     selectedPackageId: initialPackageId,
@@ -97,6 +99,7 @@ const createInitialDraft = (
     // provider-facing assessment handoff from referralContext separately.
     requestNotes: '',
     referralContext,
+    recurrence: null,
     subtotal: priceCalc.subtotal,
     discount: priceCalc.discount,
     total: priceCalc.total,
@@ -176,6 +179,8 @@ export const useCartStore = create<CartStore>()(
           memberName: draft.memberName || '',
           date: draft.date,
           startTime: draft.startTime,
+          slotStartsAt: draft.slotStartsAt ?? null,
+          slotTimeZone: draft.slotTimeZone ?? null,
           endTime: draft.endTime || undefined,
           durationMinutes: draft.durationMinutes || undefined,
           packageId: draft.selectedPackageId || undefined,
@@ -184,6 +189,7 @@ export const useCartStore = create<CartStore>()(
           days: draft.days || undefined,
           requestNotes: draft.requestNotes,
           referralContext: draft.referralContext,
+          recurrence: draft.recurrence,
           subtotal: draft.subtotal,
           discount: draft.discount,
           total: draft.total,
@@ -0,0 +1,143 @@
+/**
+ * Outbox Store
+ * Writes made while CareBow's servers were unreachable, waiting to be replayed
+ * in order within each scope. Persisted so queued writes survive an app restart.
+ *
+ * Replay itself lives in `services/api/outbox.ts`; this store only holds the
+ * queue and answers "is anything waiting to sync?".
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { OutboxEntry, OutboxScope } from '@/services/api/types';
+
+type OutboxState = {
+  /** Oldest first; replayed in this order. */
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  lastSyncedAt: string | null;
+};
+
+type OutboxActions = {
+  enqueue: (entry: OutboxEntry) => void;
+  removeEntry: (id: string) => void;
+  recordFailedAttempt: (id: string, error: string, nextAttemptAt: string) => void;
+  setReplaying: (replaying: boolean) => void;
+  markSynced: () => void;
+  resetStore: () => void;
+};
+
+const initialState: OutboxState = {
+  entries: [],
+  isReplaying: false,
+  lastSyncedAt: null,
+};
+
+/**
+ * Add a write to the queue. An update to a resource that already has a queued
+ * update replaces it in place (keeping its position, so ordering relative to
+ * other resources holds); PATCH bodies merge, since each carries only the
+ * fields it changed. Creates are never collapsed.
+ */
+export function addToOutbox(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  if (entry.policy === 'append' || !entry.resourceKey) return [...entries, entry];
+
+  const index = entries.findIndex(
+    (queued) =>
+      queued.policy === entry.policy &&
+      queued.resourceKey === entry.resourceKey &&
+      queued.method === entry.method
+  );
+  if (index === -1) return [...entries, entry];
+
+  const queued = entries[index];
+  const merged: OutboxEntry = {
+    ...entry,
+    id: queued.id,
+    // Keep the original write time: server_wins replays are conditional on
+    // the resource not changing since the first queued edit.
+    createdAt: queued.createdAt,
+    body:
+      entry.method === 'PATCH' && isPlainObject(queued.body) && isPlainObject(entry.body)
+        ? { ...queued.body, ...entry.body }
+        : entry.body,
+  };
+  return entries.map((e, i) => (i === index ? merged : e));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const useOutboxStore = create<OutboxState & OutboxActions>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      enqueue: (entry) => set((state) => ({ entries: addToOutbox(state.entries, entry) })),
+
+      removeEntry: (id) =>
+        set((state) => ({ entries: state.entries.filter((entry) => entry.id !== id) })),
+
+      recordFailedAttempt: (id, error, nextAttemptAt) =>
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id
+              ? { ...entry, attempts: entry.attempts + 1, lastError: error, nextAttemptAt }
+              : entry
+          ),
+        })),
+
+      setReplaying: (replaying) => set({ isReplaying: replaying }),
+
+      markSynced: () => set({ lastSyncedAt: new Date().toISOString() }),
+
+      resetStore: () => set(initialState),
+    }),
+    {
+      name: '@carebow/outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        entries: state.entries,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
+
+// ============================================
+// PENDING SYNC
+// ============================================
+
+export function countPending(entries: OutboxEntry[], scope?: OutboxScope): number {
+  return scope ? entries.filter((entry) => entry.scope === scope).length : entries.length;
+}
+
+/** Number of writes waiting to sync, optionally for one store's scope. */
+export const usePendingSyncCount = (scope?: OutboxScope) =>
+  useOutboxStore((state) => countPending(state.entries, scope));
+
+/** Whether a write to a resource (e.g. `profile:<id>`) is still waiting to sync. */
+export function hasPendingWrite(resourceKey: string): boolean {
+  return useOutboxStore.getState().entries.some((entry) => entry.resourceKey === resourceKey);
+}
+
+/**
+ * Call `listener` with the pending count for a scope whenever it changes, and
+ * once immediately. For stores that mirror pending-sync state into their own
+ * state. Returns an unsubscribe function.
+ */
+export function subscribeToPendingSync(
+  scope: OutboxScope,
+  listener: (pending: number) => void
+): () => void {
+  let last = countPending(useOutboxStore.getState().entries, scope);
+  listener(last);
+  return useOutboxStore.subscribe((state) => {
+    const pending = countPending(state.entries, scope);
+    if (pending === last) return;
+    last = pending;
+    listener(pending);
+  });
+}
@@ -10,6 +10,7 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CountryCode, DEFAULT_COUNTRY, setServerCurrency } from '../data/countries';
 import { regionApi } from '../services/api/endpoints/region';
+import { subscribeToPendingSync } from './useOutboxStore';
 import {
   UserProfile,
   FamilyMember,
@@ -64,6 +65,9 @@ type ProfileState = {
   // UI state
   isLoading: boolean;
   hasCompletedOnboarding: boolean;
+
+  // Profile edits saved on this device but not yet on the server
+  pendingSyncCount: number;
 };
 
 type ProfileActions = {
@@ -155,6 +159,7 @@ const initialState: ProfileState = {
   country: DEFAULT_COUNTRY,
   isLoading: false,
   hasCompletedOnboarding: false,
+  pendingSyncCount: 0,
 };
 
 // ============================================
@@ -184,6 +189,7 @@ export const useProfileStore = create<ProfileState & ProfileActions>()(
           ...initialState,
           // Keep app settings
           appSettings: get().appSettings,
+          pendingSyncCount: get().pendingSyncCount,
         });
       },
 
@@ -647,7 +653,8 @@ export const useProfileStore = create<ProfileState & ProfileActions>()(
       },
 
       resetProfile: () => {
-        set(initialState);
+        // The outbox, not this store, owns what is waiting to sync.
+        set({ ...initialState, pendingSyncCount: get().pendingSyncCount });
       },
     }),
     {
@@ -672,6 +679,10 @@ export const useProfileStore = create<ProfileState & ProfileActions>()(
   )
 );
 
+subscribeToPendingSync('profiles', (pending) => {
+  useProfileStore.setState({ pendingSyncCount: pending });
+});
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -720,6 +731,8 @@ export const useUser = () => useProfileStore((state) => state.user);
 
 export const useMembers = () => useProfileStore((state) => state.members);
 
+export const usePendingProfileSync = () => useProfileStore((state) => state.pendingSyncCount);
+
 export const useSelectedMember = () =>
   useProfileStore((state) => {
     if (!state.selectedMemberId) return state.members[0];
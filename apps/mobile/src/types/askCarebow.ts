@@ -215,6 +215,9 @@ export type HealthContext = {
   duration?: Duration;
   severity?: Severity;
   frequency?: Frequency;
+  location?: string; // "lower right belly"
+  triggers?: string[]; // what makes it worse
+  painQuality?: string; // sharp, dull, burning, ...
   associatedSymptoms: string[];
   riskFactors: string[];
   ageGroup?: AgeGroup;
@@ -435,6 +438,11 @@ export type SessionFeedback = {
 // SESSION TYPES
 // ============================================
 
+/** `fhir` is a FHIR R4 bundle for a provider's EHR. */
+export type SessionExportFormat = 'pdf' | 'text' | 'json' | 'fhir';
+
+export type SessionExportDestination = 'email' | 'share' | 'download';
+
 /**
  * Session with full traceability for auditability and clinical safety
  */
@@ -501,8 +509,8 @@ export type AskCarebowSession = {
   // Session export history
   exportHistory?: Array<{
     exportedAt: string;
-    exportFormat: 'pdf' | 'text' | 'json';
-    exportedTo: 'email' | 'share' | 'download';
+    exportFormat: SessionExportFormat;
+    exportedTo: SessionExportDestination;
   }>;
 };
 
@@ -541,6 +549,14 @@ export const RED_FLAG_SYMPTOMS = [
   'drowning',
   'heart attack',
   'cardiac arrest',
+  // Symptom-entry emergency keywords, so both flows share one red-flag list
+  'not breathing',
+  'collapsed',
+  'unresponsive',
+  'want to die',
+  'severe abdominal pain',
+  'high fever infant',
+  'newborn fever',
 ];
 
 // ============================================
@@ -16,6 +16,34 @@ export type Money = {
 
 export type PricingModelType = 'fixed' | 'packages' | 'hourly' | 'daily' | 'quote';
 
+// ============================================
+// PROMOTION & CREDIT TYPES
+// ============================================
+
+/** Exclusive codes cannot be combined with any other code. */
+export type PromotionStacking = 'exclusive' | 'stackable';
+
+/** A promo code the server validated, worth `discount` on this booking. */
+export type Promotion = {
+  code: string;
+  label: string;
+  discount: Money;
+  stacking: PromotionStacking;
+};
+
+export type CreditSource = 'referral' | 'wallet';
+
+/** Spendable credit on the customer's account. */
+export type CreditBalances = {
+  referral: Money;
+  wallet: Money;
+};
+
+export type AppliedCredit = {
+  source: CreditSource;
+  amount: Money;
+};
+
 export type PricingBreakdown = {
   pricingModel: PricingModelType;
   packageId?: string;
@@ -30,6 +58,8 @@ export type PricingBreakdown = {
   originalTotal?: Money; // if showing strike-through
   discountPercent?: number; // e.g., 20
   couponCode?: string | null;
+  promotions?: Promotion[]; // promo codes, in the order applied; included in total
+  credits?: AppliedCredit[]; // referral and wallet credit, applied last; included in total
 };
 
 // ============================================
@@ -153,6 +183,8 @@ export type BookingDraftInput = {
   };
   currency?: Currency;
   couponCode?: string | null;
+  promotions?: Promotion[];
+  credits?: CreditBalances | null;
 };
 
 // ============================================
@@ -138,68 +138,6 @@ export type TriageResult = {
   isEmergency: boolean;
 };
 
-// ============================================
-// EMERGENCY KEYWORDS (PRD SPEC)
-// ============================================
-
-export const EMERGENCY_KEYWORDS: string[] = [
-  // Cardiac
-  'chest pain',
-  'heart attack',
-  'cardiac arrest',
-
-  // Respiratory
-  'difficulty breathing',
-  'shortness of breath',
-  "can't breathe",
-  'choking',
-  'drowning',
-
-  // Neurological
-  'stroke',
-  'face drooping',
-  'arm weakness',
-  'slurred speech',
-  'seizure',
-  'convulsion',
-  'unconscious',
-  'passed out',
-  'fainted',
-  'unresponsive',
-
-  // Trauma
-  'severe bleeding',
-  'heavy bleeding',
-  'severe head injury',
-  'head trauma',
-  'severe burns',
-  'electric shock',
-
-  // Toxicology
-  'overdose',
-  'poisoning',
-
-  // Allergic
-  'severe allergic reaction',
-  'anaphylaxis',
-  "can't swallow",
-
-  // Mental health crisis
-  'suicidal',
-  'suicide',
-  'self-harm',
-  'want to die',
-
-  // Other critical
-  'coughing blood',
-  'vomiting blood',
-  'severe abdominal pain',
-  'sudden severe headache',
-  'worst headache',
-  'high fever infant',
-  'newborn fever',
-];
-
 // ============================================
 // DISCLAIMER
 // ============================================
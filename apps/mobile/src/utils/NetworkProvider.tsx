@@ -15,6 +15,8 @@ import { View, Text, StyleSheet, Animated, Platform } from 'react-native';
 import NetInfo, { NetInfoState, NetInfoSubscription } from '@react-native-community/netinfo';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { colors, spacing, typography } from '../theme';
+import { ApiClient } from '../services/api/ApiClient';
+import { useOutboxStore, usePendingSyncCount } from '../store/useOutboxStore';
 import { createLogger } from './logger';
 
 const logger = createLogger('Network');
@@ -229,6 +231,7 @@ export function NetworkProvider({ children, showBanner = true }: NetworkProvider
   });
 
   const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+  const queuedWrites = usePendingSyncCount();
   const [bannerVisible, setBannerVisible] = useState(false);
   const bannerAnimation = useState(new Animated.Value(0))[0];
 
@@ -344,6 +347,8 @@ export function NetworkProvider({ children, showBanner = true }: NetworkProvider
       return;
     }
 
+    await ApiClient.flushOutbox();
+
     if (pendingOperations.length === 0) {
       return;
     }
@@ -393,13 +398,29 @@ export function NetworkProvider({ children, showBanner = true }: NetworkProvider
 
   const isOnline = networkState.isConnected && (networkState.isInternetReachable ?? true);
   const isOffline = !isOnline;
+  const pendingCount = pendingOperations.length + queuedWrites;
+
+  // Replay API writes queued in the outbox whenever the device comes back online.
+  useEffect(() => {
+    if (!isOnline) return;
+    const flush = () => {
+      ApiClient.flushOutbox().catch((error) => logger.error('Outbox replay failed', error));
+    };
+
+    // The queue loads from storage asynchronously; replay what was persisted.
+    if (useOutboxStore.persist.hasHydrated()) {
+      flush();
+      return;
+    }
+    return useOutboxStore.persist.onFinishHydration(flush);
+  }, [isOnline]);
 
   const contextValue: NetworkContextType = {
     networkState,
     isOnline,
     isOffline,
     addToSyncQueue,
-    pendingOperationsCount: pendingOperations.length,
+    pendingOperationsCount: pendingCount,
     syncPendingOperations,
     clearSyncQueue,
   };
@@ -431,9 +452,7 @@ export function NetworkProvider({ children, showBanner = true }: NetworkProvider
               You're offline. Changes will sync when you reconnect.
             </Text>
           </View>
-          {pendingOperations.length > 0 && (
-            <Text style={styles.pendingText}>{pendingOperations.length} pending</Text>
-          )}
+          {pendingCount > 0 && <Text style={styles.pendingText}>{pendingCount} pending</Text>}
         </Animated.View>
       )}
     </NetworkContext.Provider>
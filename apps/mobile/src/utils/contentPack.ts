@@ -0,0 +1,55 @@
+/**
+ * Integrity helpers for clinically reviewed content packs (red-flag rules,
+ * interaction dataset) that ship bundled and can be replaced from the server.
+ *
+ * The checksum guards against truncation and corruption in transit or in the
+ * cache; it is unkeyed, so it proves nothing about who published a pack.
+ * Authenticity comes from fetching packs over the authenticated API client
+ * (never with skipAuth), and only the bundled or cached copy applies until a
+ * signed-in fetch succeeds.
+ */
+
+/** JSON with object keys sorted, so the checksum does not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * FNV-1a (32-bit) over the canonical JSON of a value, as 8 lowercase hex
+ * characters. The server computes the same value when it publishes a pack.
+ */
+export function computeContentChecksum(value: unknown): string {
+  const input = canonicalJson(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compare dotted numeric versions ("2026.10.1"). Non-numeric segments compare
+ * as 0, so a malformed version never outranks a well-formed one.
+ */
+export function compareContentVersions(a: string, b: string): number {
+  const pa = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const pb = b.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
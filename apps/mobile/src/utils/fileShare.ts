@@ -0,0 +1,90 @@
+/**
+ * File Share
+ * Hands a generated file to the native share sheet.
+ *
+ * React Native's Share API only takes a message or, on iOS, a URL. Files go
+ * through react-native-share, which writes the base64 data to a named file in
+ * the cache directory and opens the share sheet with it attached on both
+ * platforms.
+ */
+
+import { Platform } from 'react-native';
+import RNShare from 'react-native-share';
+
+export type ShareableFile = {
+  filename: string;
+  mimeType: string;
+  base64: string;
+  /** Share sheet title. */
+  title: string;
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function encodeBase64(bytes: ArrayLike<number>): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+    out += BASE64_ALPHABET[(triple >> 18) & 63];
+    out += BASE64_ALPHABET[(triple >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : '=';
+  }
+  return out;
+}
+
+/** UTF-8 bytes of a string, for text files such as JSON exports. */
+export function encodeUtf8(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Open the share sheet for a file. Returns false when the user dismissed it.
+ * Throws only if sharing itself failed.
+ */
+export async function shareFile(file: ShareableFile): Promise<boolean> {
+  const { filename, mimeType } = fileForPlatform(file);
+  const result = await RNShare.open({
+    url: `data:${mimeType};base64,${file.base64}`,
+    filename,
+    type: mimeType,
+    title: file.title,
+    failOnCancel: false,
+  });
+  return result.success && !result.dismissedAction;
+}
+
+/**
+ * iOS writes the file under the name given. Android appends the extension it
+ * knows for the MIME type, so it gets the name without one, and types it has
+ * no extension for (such as application/fhir+json) are sent as their base
+ * type.
+ */
+function fileForPlatform(file: ShareableFile): { filename: string; mimeType: string } {
+  if (Platform.OS !== 'android') return { filename: file.filename, mimeType: file.mimeType };
+  return {
+    filename: file.filename.replace(/\.[^.]+$/, ''),
+    mimeType: file.mimeType.replace(/^application\/[\w.-]+\+json$/, 'application/json'),
+  };
+}
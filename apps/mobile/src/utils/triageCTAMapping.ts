@@ -3,7 +3,9 @@
  * Maps assessment results to appropriate call-to-action buttons
  */
 
-export type TriageLevel = 'emergency' | 'urgent' | 'soon' | 'self_care';
+import { triageMappers, type TriageCareLevel } from '@carebow/shared';
+
+export type TriageLevel = TriageCareLevel;
 
 export interface CTAButton {
   id: string;
@@ -30,6 +32,10 @@ interface AssessmentData {
 export function getTriageLevel(data: AssessmentData): TriageLevel {
   const { recommendation, riskLevel, hasRedFlags, severity = 5, urgencyLevel } = data;
 
+  // A TriageService urgency maps directly, so the CTA always matches the
+  // urgency shown in the conversation.
+  if (triageMappers.isUrgency(urgencyLevel)) return triageMappers.toCareLevel(urgencyLevel);
+
   if (urgencyLevel === 'emergency' || urgencyLevel === 'critical') return 'emergency';
   if (recommendation === 'emergency' || (hasRedFlags && severity >= 8)) return 'emergency';
 
@@ -2,14 +2,16 @@
  * Rule-Based Triage Engine (PRD V1 Spec)
  * Simple, deterministic triage logic - NOT AI-based
  *
- * Rules:
- * 1. Emergency keywords detected → EMERGENCY risk, Seek Emergency Care
+ * The decision itself lives in the shared TriageService (red flags, then the
+ * severity × duration table); this module maps it onto symptom-entry risk
+ * levels and care suggestions:
+ * 1. Red flag detected → EMERGENCY risk, Seek Emergency Care
  * 2. High severity + just_started → HIGH risk, Visit Urgent Care
- * 3. High severity + hours/days → HIGH risk, Schedule Doctor Visit soon
- * 4. Medium severity + just_started → MEDIUM risk, Monitor/Urgent Care
- * 5. Medium severity + ongoing → MEDIUM risk, Schedule Doctor Visit
- * 6. Low severity + any duration → LOW risk, Monitor at Home
- * 7. Ongoing high severity → HIGH risk, Schedule Doctor Visit urgently
+ * 3. High severity + longer → HIGH risk, Schedule Doctor Visit
+ * 4. Medium severity + just_started/hours → MEDIUM risk, Monitor
+ * 5. Medium severity + days or longer → MEDIUM risk, Schedule Doctor Visit
+ * 6. Low severity + ongoing → MEDIUM risk, Schedule Doctor Visit
+ * 7. Low severity otherwise → LOW risk, Monitor at Home
  */
 
 import {
@@ -18,114 +20,34 @@ import {
   type RiskLevel,
   type CareSuggestion,
   type TriageResult,
-  EMERGENCY_KEYWORDS,
 } from '../types/symptomEntry';
-
-/**
- * Check if description contains any emergency keywords
- * Case-insensitive matching
- */
-export function detectEmergencyKeywords(description: string): string[] {
-  const lowerDescription = description.toLowerCase();
-  const foundKeywords: string[] = [];
-
-  for (const keyword of EMERGENCY_KEYWORDS) {
-    if (lowerDescription.includes(keyword.toLowerCase())) {
-      foundKeywords.push(keyword);
-    }
-  }
-
-  return foundKeywords;
-}
+import { triageMappers } from '@carebow/shared';
+import { triageService } from '../lib/askCarebow/triageService';
 
 /**
  * Main triage function - rule-based, deterministic
+ * Decided by the app's TriageService so entries agree with Ask CareBow
  */
 export function performTriage(
   description: string,
   duration: SymptomDuration,
   severity: SymptomSeverity
 ): TriageResult {
-  // Step 1: Check for emergency keywords
-  const emergencyKeywordsFound = detectEmergencyKeywords(description);
-
-  if (emergencyKeywordsFound.length > 0) {
-    return {
-      riskLevel: 'emergency',
-      careSuggestion: 'emergency',
-      reason: `Emergency keywords detected: ${emergencyKeywordsFound.join(', ')}. Immediate medical attention may be required.`,
-      emergencyKeywordsFound,
-      isEmergency: true,
-    };
-  }
-
-  // Step 2: Rule-based triage based on severity and duration
-  let riskLevel: RiskLevel;
-  let careSuggestion: CareSuggestion;
-  let reason: string;
+  const decision = triageService.triage({ text: description, severity, duration });
 
-  // High severity cases
-  if (severity === 'high') {
-    if (duration === 'just_started') {
-      riskLevel = 'high';
-      careSuggestion = 'urgent_care';
-      reason = 'Severe symptoms that just started warrant prompt medical evaluation to rule out serious conditions.';
-    } else if (duration === 'hours' || duration === 'days') {
-      riskLevel = 'high';
-      careSuggestion = 'doctor_visit';
-      reason = 'Severe symptoms persisting for hours to days should be evaluated by a healthcare provider soon.';
-    } else {
-      // weeks or ongoing
-      riskLevel = 'high';
-      careSuggestion = 'doctor_visit';
-      reason = 'Severe symptoms that have persisted for an extended period require medical evaluation to identify the underlying cause.';
-    }
-  }
-  // Medium severity cases
-  else if (severity === 'medium') {
-    if (duration === 'just_started') {
-      riskLevel = 'medium';
-      careSuggestion = 'monitor';
-      reason = 'Moderate symptoms that just started can often be monitored at home. Seek care if symptoms worsen.';
-    } else if (duration === 'hours') {
-      riskLevel = 'medium';
-      careSuggestion = 'monitor';
-      reason = 'Moderate symptoms for a few hours may improve with rest and home care. Monitor for changes.';
-    } else if (duration === 'days') {
-      riskLevel = 'medium';
-      careSuggestion = 'doctor_visit';
-      reason = 'Moderate symptoms lasting several days warrant a doctor visit to ensure proper treatment.';
-    } else {
-      // weeks or ongoing
-      riskLevel = 'medium';
-      careSuggestion = 'doctor_visit';
-      reason = 'Moderate symptoms that have persisted for weeks or longer should be evaluated by a healthcare provider.';
-    }
-  }
-  // Low severity cases
-  else {
-    if (duration === 'ongoing') {
-      riskLevel = 'low';
-      careSuggestion = 'doctor_visit';
-      reason = 'While symptoms are mild, their ongoing nature suggests a doctor visit may help identify any underlying causes.';
-    } else if (duration === 'weeks') {
-      riskLevel = 'low';
-      careSuggestion = 'monitor';
-      reason = 'Mild symptoms for over a week can usually be monitored. Consider a doctor visit if they persist or worsen.';
-    } else {
-      // just_started, hours, days
-      riskLevel = 'low';
-      careSuggestion = 'monitor';
-      reason = 'Mild symptoms can typically be managed at home with rest and self-care. Monitor for any changes.';
-    }
-  }
+  // Mild but ongoing symptoms are sent to a doctor, yet their entry has always
+  // been low risk; the shared non_urgent mapping would raise it to medium.
+  const riskLevel =
+    severity === 'low' && decision.urgency === 'non_urgent'
+      ? 'low'
+      : triageMappers.toRiskLevel(decision.urgency);
 
   return {
     riskLevel,
-    careSuggestion,
-    reason,
-    emergencyKeywordsFound: [],
-    isEmergency: false,
+    careSuggestion: triageMappers.toCareSuggestion(decision.urgency),
+    reason: decision.reason,
+    emergencyKeywordsFound: decision.isEmergency ? decision.redFlags : [],
+    isEmergency: decision.isEmergency,
   };
 }
 
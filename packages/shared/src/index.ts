@@ -22,3 +22,38 @@ export { TRIAGE_KEYWORDS, EMERGENCY_NUMBERS, SERVICE_CATEGORIES } from './utils/
 export { validators, formatters } from './utils/validation';
 export { checkSafety, getEmergencyNumber, getTriageLevelInfo } from './utils/safetyGate';
 export type { SafetyCheckResult } from './utils/safetyGate';
+export {
+  RED_FLAG_LEXICONS,
+  detectInputLanguages,
+  resolveLexiconLanguages,
+  matchRedFlagLexicons,
+} from './utils/redFlagLexicons';
+export type {
+  LexiconLanguage,
+  CrisisKind,
+  RedFlagLexiconEntry,
+  LexiconMatch,
+} from './utils/redFlagLexicons';
+export {
+  TRIAGE_URGENCIES,
+  compareUrgency,
+  mostUrgent,
+  keywordRedFlagDetector,
+  createTriageService,
+  triageService,
+  triageMappers,
+} from './utils/triageService';
+export type {
+  TriageUrgency,
+  TriageSeverity,
+  TriageDuration,
+  TriageRiskLevel,
+  TriageCareSuggestion,
+  TriageCareLevel,
+  RedFlagFinding,
+  RedFlagDetector,
+  TriageRequest,
+  TriageDecision,
+  TriageServiceOptions,
+  TriageService,
+} from './utils/triageService';
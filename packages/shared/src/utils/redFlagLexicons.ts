@@ -0,0 +1,518 @@
+import type { TriageLevel } from '../types';
+
+/**
+ * Per-language red-flag and crisis lexicons.
+ *
+ * The keyword gates were English-only, so "सीने में दर्द" or "me duele el pecho"
+ * never escalated. Each entry maps local phrasings (native script and, for
+ * Hindi, romanized Hinglish) onto the canonical English term the rest of the
+ * app already understands, so a match feeds the same result shapes as an
+ * English keyword.
+ *
+ * English itself is not listed here: TRIAGE_KEYWORDS and the mobile rule pack
+ * already cover it.
+ *
+ * Matches in a negated clause ("no tengo dolor de pecho", "सीने में दर्द नहीं
+ * है") are reported with `negated` set rather than dropped, so each caller
+ * decides whether to discount them. Spanish negates before the symptom and
+ * Hindi right after it; a cue never crosses a clause boundary, and phrases
+ * like "no se me quita" (it won't go away) are not negation.
+ */
+
+export type LexiconLanguage = 'en' | 'es' | 'hi';
+
+export type CrisisKind = 'suicide' | 'self_harm' | 'overdose';
+
+export type RedFlagLexiconEntry = {
+  /** Canonical English term, matching TRIAGE_KEYWORDS wording. */
+  term: string;
+  level: Extract<TriageLevel, 'P1' | 'P2'>;
+  /** Mobile safety-classifier rule this phrase corresponds to, if any. */
+  ruleId?: string;
+  crisis?: CrisisKind;
+  patterns: RegExp[];
+};
+
+export type LexiconMatch = {
+  term: string;
+  level: RedFlagLexiconEntry['level'];
+  ruleId?: string;
+  crisis?: CrisisKind;
+  language: LexiconLanguage;
+  matchedText: string;
+  /** Every mention of the term sits in a negated clause. */
+  negated: boolean;
+};
+
+// Spanish patterns are written without accents; input is de-accented first.
+const SPANISH: RedFlagLexiconEntry[] = [
+  {
+    term: 'chest pain',
+    level: 'P1',
+    ruleId: 'cardiac_chest_pain',
+    patterns: [
+      /dolor\s+(de|en\s+el)\s+pecho/,
+      /dolor\s+toracico/,
+      /(opresion|presion)\s+en\s+el\s+pecho/,
+      /me\s+duele\s+(mucho\s+)?el\s+pecho/,
+    ],
+  },
+  {
+    term: 'heart attack',
+    level: 'P1',
+    ruleId: 'cardiac_heart_attack',
+    patterns: [/ataque\s+(al\s+corazon|cardiaco)/, /\binfarto\b/],
+  },
+  {
+    term: "can't breathe",
+    level: 'P1',
+    ruleId: 'respiratory_cant_breathe',
+    patterns: [/no\s+(puedo|puede)\s+respirar/],
+  },
+  {
+    term: 'difficulty breathing',
+    level: 'P1',
+    ruleId: 'respiratory_difficulty',
+    patterns: [
+      /dificultad\s+para\s+respirar/,
+      /me\s+cuesta\s+(mucho\s+)?respirar/,
+      /falta\s+de\s+aire/,
+      /\bme\s+ahogo\b/,
+    ],
+  },
+  {
+    term: 'blue lips',
+    level: 'P1',
+    ruleId: 'respiratory_blue_lips',
+    patterns: [/labios\s+(azules|morados)/],
+  },
+  {
+    term: 'stroke',
+    level: 'P1',
+    ruleId: 'neuro_stroke_signs',
+    patterns: [
+      /derrame\s+cerebral/,
+      /\bictus\b/,
+      /cara\s+(caida|torcida)/,
+      /(habla|lengua)\s+(arrastrada|trabada)/,
+    ],
+  },
+  {
+    term: 'unconscious',
+    level: 'P1',
+    ruleId: 'neuro_loss_consciousness',
+    patterns: [/\binconsciente\b/, /perdio\s+el\s+conocimiento/, /no\s+responde\b/],
+  },
+  {
+    term: 'seizure',
+    level: 'P1',
+    ruleId: 'neuro_seizure',
+    patterns: [/convulsi(on|ones|onando)/, /ataque\s+epileptico/],
+  },
+  {
+    term: 'severe bleeding',
+    level: 'P1',
+    ruleId: 'bleeding_severe',
+    patterns: [
+      /sangrado\s+(abundante|fuerte|que\s+no\s+para)/,
+      /\bhemorragia\b/,
+      /no\s+(para|deja)\s+de\s+sangrar/,
+    ],
+  },
+  {
+    term: 'choking',
+    level: 'P1',
+    patterns: [/atragant(ado|ada|ando)/, /se\s+esta\s+ahogando/],
+  },
+  {
+    term: 'anaphylaxis',
+    level: 'P1',
+    ruleId: 'allergic_throat',
+    patterns: [/se\s+me\s+cierra\s+la\s+garganta/, /garganta\s+(cerrada|hinchada)/, /anafilaxia/],
+  },
+  {
+    term: 'suicidal',
+    level: 'P1',
+    ruleId: 'mental_suicidal',
+    crisis: 'suicide',
+    patterns: [/suicid(io|arme|arse|a)\b/, /quiero\s+(morir(me)?|matarme)/, /quitarme\s+la\s+vida/],
+  },
+  {
+    term: 'self harm',
+    level: 'P1',
+    ruleId: 'mental_self_harm',
+    crisis: 'self_harm',
+    patterns: [/hacerme\s+dano/, /\bcortarme\b/, /autolesi(on|ones)/],
+  },
+  {
+    term: 'overdose',
+    level: 'P1',
+    ruleId: 'mental_overdose',
+    crisis: 'overdose',
+    patterns: [/sobredosis/, /tome\s+demasiadas\s+(pastillas|pildoras)/],
+  },
+  {
+    term: 'vomiting blood',
+    level: 'P2',
+    ruleId: 'bleeding_blood_vomit',
+    patterns: [/vomit(ar|ando|o)\s+sangre/, /vomito\s+con\s+sangre/],
+  },
+  {
+    term: 'fainting',
+    level: 'P2',
+    ruleId: 'neuro_loss_consciousness',
+    patterns: [/desmay(o|e|ado|ada)\b/],
+  },
+  {
+    term: 'head injury',
+    level: 'P2',
+    ruleId: 'trauma_head_severe',
+    patterns: [/golpe\s+(fuerte\s+)?en\s+la\s+cabeza/, /traumatismo\s+craneal/],
+  },
+  { term: 'high fever', level: 'P2', patterns: [/fiebre\s+(muy\s+)?alta/] },
+  {
+    term: 'severe pain',
+    level: 'P2',
+    patterns: [/dolor\s+(muy\s+)?(fuerte|intenso|insoportable)/],
+  },
+];
+
+// Devanagari has no \b in JS regex, so native-script patterns are unanchored.
+// Romanized patterns allow the common spelling variants (me/mein/main, etc.).
+const HINDI: RedFlagLexiconEntry[] = [
+  {
+    term: 'chest pain',
+    level: 'P1',
+    ruleId: 'cardiac_chest_pain',
+    patterns: [
+      /(सीने|छाती)\s*में\s*(दर्द|जकड़न|भारीपन)/,
+      /\b(seene|sine|seeney|chhati|chati|chaati)\s+(me|mein|main|mai|mei)\s+(dard|jakdan|jakadan|bharipan)\b/,
+    ],
+  },
+  {
+    term: 'heart attack',
+    level: 'P1',
+    ruleId: 'cardiac_heart_attack',
+    patterns: [/दिल\s*का\s*दौरा/, /हार्ट\s*अटैक/, /\bdil\s+ka\s+daura\b/],
+  },
+  {
+    term: "can't breathe",
+    level: 'P1',
+    ruleId: 'respiratory_cant_breathe',
+    patterns: [/सा[ंँ]स\s*नहीं\s*(आ|ले)/, /\bsaa?ns\s+(nahi|nahin|nhi)\s+(aa|le)\b/],
+  },
+  {
+    term: 'difficulty breathing',
+    level: 'P1',
+    ruleId: 'respiratory_difficulty',
+    patterns: [
+      /सा[ंँ]स\s*(लेने\s*)?में\s*(तकलीफ|दिक्कत|परेशानी)/,
+      /सा[ंँ]स\s*फूल/,
+      /\bsaa?ns\s+(lene\s+)?(me|mein|main)\s+(takleef|taklif|dikkat|pareshani)\b/,
+      /\bsaa?ns\s+(phool|ful)/,
+    ],
+  },
+  {
+    term: 'blue lips',
+    level: 'P1',
+    ruleId: 'respiratory_blue_lips',
+    patterns: [/होंठ\s*नीले/, /\b(honth|hoth|hont)\s+neele\b/],
+  },
+  {
+    term: 'stroke',
+    level: 'P1',
+    ruleId: 'neuro_stroke_signs',
+    patterns: [
+      /लकवा/,
+      /चेहरा\s*टेढ़ा/,
+      /(ज़ुबान|जुबान|ज़बान)\s*लड़खड़ा/,
+      /\b(lakwa|lakva|laqwa)\b/,
+      /\bchehra\s+(tedha|terha|tehda)\b/,
+      /\b(zuban|juban|zaban)\s+ladkhada/,
+    ],
+  },
+  {
+    term: 'unconscious',
+    level: 'P1',
+    ruleId: 'neuro_loss_consciousness',
+    patterns: [/बेहोश/, /\b(behosh|behos|be-hosh)\b/],
+  },
+  {
+    term: 'seizure',
+    level: 'P1',
+    ruleId: 'neuro_seizure',
+    patterns: [/मिर्गी/, /दौरा\s*पड़/, /\b(mirgi|mirgee)\b/, /\bdaura\s+(pad|pada|padh)/],
+  },
+  {
+    term: 'severe bleeding',
+    level: 'P1',
+    ruleId: 'bleeding_severe',
+    patterns: [
+      /खून\s*(नहीं\s*रुक|बहुत\s*बह)/,
+      /बहुत\s*(ज़्यादा\s*)?खून/,
+      /\b(khoon|khun)\s+(nahi|nahin|nhi)\s+ruk/,
+      /\b(bahut|bohot|zyada|jyada)\s+(khoon|khun)\s+(beh|bah)/,
+    ],
+  },
+  {
+    term: 'choking',
+    level: 'P1',
+    patterns: [/गले\s*में\s*(कुछ\s*)?फंस/, /\bgale\s+(me|mein)\s+(kuch\s+)?(phas|fas)/],
+  },
+  {
+    term: 'anaphylaxis',
+    level: 'P1',
+    ruleId: 'allergic_throat',
+    patterns: [
+      /गला\s*बंद/,
+      /गले\s*में\s*सूजन/,
+      /\bgala\s+band\b/,
+      /\bgale\s+(me|mein)\s+(sujan|soojan)\b/,
+    ],
+  },
+  {
+    term: 'suicidal',
+    level: 'P1',
+    ruleId: 'mental_suicidal',
+    crisis: 'suicide',
+    patterns: [
+      /आत्महत्या/,
+      /खुदकुशी/,
+      /मरना\s*चाहत/,
+      /जान\s*दे\s*(दूं|दूँ|दूंगा|दूंगी|देना)/,
+      /\b(aatmahatya|atmahatya|khudkushi|khudkhushi)\b/,
+      /\bmarna\s+chah(ta|ti|tha)\b/,
+      /\bjaan\s+de\s*(du|doon|dunga|dungi|dena)\b/,
+    ],
+  },
+  {
+    term: 'self harm',
+    level: 'P1',
+    ruleId: 'mental_self_harm',
+    crisis: 'self_harm',
+    patterns: [/खुद\s*को\s*(नुकसान|चोट)/, /\bkhud\s+ko\s+(nuksan|nuksaan|nuqsan|chot)\b/],
+  },
+  {
+    term: 'overdose',
+    level: 'P1',
+    ruleId: 'mental_overdose',
+    crisis: 'overdose',
+    patterns: [
+      /ओवरडोज़?/,
+      /(बहुत|ज़्यादा)\s*(सारी\s*)?गोलियां\s*खा/,
+      /\b(bahut|bohot|zyada|jyada)\s+(saari\s+)?goli(yan|ya)\s+kha/,
+    ],
+  },
+  {
+    term: 'vomiting blood',
+    level: 'P2',
+    ruleId: 'bleeding_blood_vomit',
+    patterns: [
+      /खून\s*की\s*उल्टी/,
+      /उल्टी\s*में\s*खून/,
+      /\b(khoon|khun)\s+ki\s+ulti\b/,
+      /\bulti\s+(me|mein)\s+(khoon|khun)\b/,
+    ],
+  },
+  {
+    term: 'head injury',
+    level: 'P2',
+    ruleId: 'trauma_head_severe',
+    patterns: [/सिर\s*(में|पर|पे)\s*चोट/, /\bsir\s+(me|mein|par|pe)\s+chot\b/],
+  },
+  {
+    term: 'high fever',
+    level: 'P2',
+    patterns: [/तेज़?\s*बुखार/, /\b(tez|tej)\s+(bukhar|bukhaar)\b/],
+  },
+  {
+    term: 'severe pain',
+    level: 'P2',
+    patterns: [/(बहुत\s*तेज़|असहनीय)\s*दर्द/, /\b(bahut|bohot)\s+(tez|tej|zyada)\s+dard\b/],
+  },
+];
+
+export const RED_FLAG_LEXICONS: Record<Exclude<LexiconLanguage, 'en'>, RedFlagLexiconEntry[]> = {
+  es: SPANISH,
+  hi: HINDI,
+};
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+const SPANISH_MARKERS =
+  /[ñ¿¡]|\b(tengo|duele|dolor|estoy|puedo|pecho|fiebre|ayuda|siento|sangre|respirar|mucho|desde|hijo|hija|quiero|necesito|ayudame|pienso|quitarme|matarme|morir|vida)\b/;
+const HINGLISH_MARKERS =
+  /\b(mujhe|mere|meri|mera|hai|hain|nahi|nahin|nhi|dard|saans|sans|bukhar|kya|seene|chhati|ulti|khoon|behosh|chakkar|hoon|chahta|chahti|ho\s+raha|ho\s+rahi)\b/;
+
+const SPANISH_ACCENTS: Record<string, string> = {
+  á: 'a',
+  é: 'e',
+  í: 'i',
+  ó: 'o',
+  ú: 'u',
+  ü: 'u',
+  ñ: 'n',
+};
+
+// NFC also splits precomposed Devanagari nukta letters (ज़ → ज + ़), which is
+// how the patterns above are written. Spanish accents are mapped by hand
+// rather than via NFD, because NFD would also split Devanagari vowel signs.
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFC')
+    .replace(/[áéíóúüñ]/g, (c) => SPANISH_ACCENTS[c] ?? c);
+
+/**
+ * Languages the text appears to be written in. Hindi covers both Devanagari
+ * and romanized Hinglish. Returns an empty array when nothing non-English is
+ * recognised.
+ */
+export const detectInputLanguages = (text: string): LexiconLanguage[] => {
+  const normalized = normalize(text);
+  const languages: LexiconLanguage[] = [];
+  if (DEVANAGARI.test(normalized) || HINGLISH_MARKERS.test(normalized)) languages.push('hi');
+  if (SPANISH_MARKERS.test(text.toLowerCase()) || SPANISH_MARKERS.test(normalized)) {
+    languages.push('es');
+  }
+  return languages;
+};
+
+/**
+ * Languages to check: whatever the input looks like, plus the user's app
+ * language, plus English (people code-switch mid-sentence).
+ */
+export const resolveLexiconLanguages = (
+  text: string,
+  preferred?: LexiconLanguage
+): LexiconLanguage[] => {
+  const languages = [...detectInputLanguages(text), ...(preferred ? [preferred] : []), 'en'];
+  return [...new Set(languages)] as LexiconLanguage[];
+};
+
+// ============================================
+// NEGATION
+// ============================================
+
+type NegationRules = {
+  /** Where the cue sits relative to the symptom it negates. */
+  position: 'before' | 'after';
+  cue: RegExp;
+  /** Cue phrases that do not negate ("no se me quita" = it won't go away). */
+  pseudo?: RegExp;
+  clauseBoundary: RegExp;
+};
+
+const NEGATION: Record<Exclude<LexiconLanguage, 'en'>, NegationRules> = {
+  es: {
+    position: 'before',
+    cue: /\b(no|sin|nunca|ningun|ninguna|tampoco|niega)\b/g,
+    pseudo: /^no\s+(se\b|me\s+deja|para\b|paro\b|mejora|cede|pasa|quita)/,
+    clauseBoundary: /[.!?;,\n]|\b(pero|y|aunque|sino|mientras)\b/g,
+  },
+  hi: {
+    position: 'after',
+    // Only directly after the symptom, optionally softened: "dard bilkul nahi
+    // hai". "Dard ruk nahi raha" (it is not stopping) is left alone.
+    cue: /^\s*((bilkul|koi|bhi|बिल्कुल|कोई|भी)\s*)*(नहीं|नही|\bnahi\b|\bnahin\b|\bnhi\b)/,
+    clauseBoundary: /[.!?;,\n।]|लेकिन|और|\b(lekin|aur|par)\b/g,
+  },
+};
+
+/** Start and end of the clause around `index`. */
+function clauseAround(text: string, index: number, boundary: RegExp): [number, number] {
+  let start = 0;
+  let end = text.length;
+  for (const found of text.matchAll(boundary)) {
+    const at = found.index ?? 0;
+    if (at + found[0].length <= index) start = at + found[0].length;
+    else if (at >= index) {
+      end = at;
+      break;
+    }
+  }
+  return [start, end];
+}
+
+function isNegated(
+  text: string,
+  start: number,
+  end: number,
+  language: Exclude<LexiconLanguage, 'en'>
+): boolean {
+  const rules = NEGATION[language];
+  const [clauseStart, clauseEnd] = clauseAround(text, start, rules.clauseBoundary);
+
+  if (rules.position === 'after') {
+    return rules.cue.test(text.slice(end, clauseEnd));
+  }
+
+  // The cue must end before the match, so "no puedo respirar" is not negated
+  // by its own "no".
+  const before = text.slice(clauseStart, start);
+  for (const cue of before.matchAll(rules.cue)) {
+    if (!rules.pseudo?.test(before.slice(cue.index ?? 0))) return true;
+  }
+  return false;
+}
+
+const globalPatterns = new WeakMap<RegExp, RegExp>();
+
+function findAll(text: string, pattern: RegExp): RegExpMatchArray[] {
+  let global = globalPatterns.get(pattern);
+  if (!global) {
+    global = new RegExp(pattern.source, `${pattern.flags.replace('g', '')}g`);
+    globalPatterns.set(pattern, global);
+  }
+  return [...text.matchAll(global)].filter((m) => m[0].length > 0);
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Red-flag and crisis matches from the non-English lexicons. Each term is
+ * reported once per language: with its first affirmed mention, or with
+ * `negated` set when every mention is negated.
+ */
+export const matchRedFlagLexicons = (
+  text: string,
+  languages: LexiconLanguage[]
+): LexiconMatch[] => {
+  const normalized = normalize(text);
+  const matches: LexiconMatch[] = [];
+
+  for (const language of languages) {
+    if (language === 'en') continue;
+    for (const entry of RED_FLAG_LEXICONS[language]) {
+      let firstNegated: string | null = null;
+      let affirmed: string | null = null;
+      for (const pattern of entry.patterns) {
+        for (const found of findAll(normalized, pattern)) {
+          const start = found.index ?? 0;
+          if (isNegated(normalized, start, start + found[0].length, language)) {
+            firstNegated = firstNegated ?? found[0];
+          } else {
+            affirmed = found[0];
+            break;
+          }
+        }
+        if (affirmed) break;
+      }
+
+      const matchedText = affirmed ?? firstNegated;
+      if (matchedText === null) continue;
+      matches.push({
+        term: entry.term,
+        level: entry.level,
+        ruleId: entry.ruleId,
+        crisis: entry.crisis,
+        language,
+        matchedText,
+        negated: affirmed === null,
+      });
+    }
+  }
+
+  return matches;
+};
@@ -1,4 +1,6 @@
 import { TRIAGE_KEYWORDS, EMERGENCY_NUMBERS } from './constants';
+import { matchRedFlagLexicons, resolveLexiconLanguages } from './redFlagLexicons';
+import type { LexiconLanguage } from './redFlagLexicons';
 import type { TriageLevel } from '../types';
 
 export type SafetyCheckResult = {
@@ -11,15 +13,27 @@ export type SafetyCheckResult = {
 /**
  * Checks user message for emergency keywords and returns triage level
  * This gate runs BEFORE AI processing to catch emergencies immediately
+ *
+ * Spanish and Hindi (including Hinglish) phrasings are checked when the
+ * message looks like those languages or the user's app language is one of
+ * them. Matched keywords are always reported as the canonical English term.
  */
 export const checkSafety = (
   message: string,
-  countryCode = 'US'
+  countryCode = 'US',
+  language?: LexiconLanguage
 ): SafetyCheckResult => {
   const lower = message.toLowerCase();
+  const lexiconMatches = matchRedFlagLexicons(message, resolveLexiconLanguages(message, language));
+  const withLexicon = (level: 'P1' | 'P2', keywords: string[]) => [
+    ...new Set([
+      ...keywords,
+      ...lexiconMatches.filter((m) => m.level === level).map((m) => m.term),
+    ]),
+  ];
 
   // Check P1 (Emergency - Call ambulance immediately)
-  const p1Matches = TRIAGE_KEYWORDS.P1.filter((k) => lower.includes(k));
+  const p1Matches = withLexicon('P1', TRIAGE_KEYWORDS.P1.filter((k) => lower.includes(k)));
   if (p1Matches.length > 0) {
     return {
       isEmergency: true,
@@ -30,7 +44,7 @@ export const checkSafety = (
   }
 
   // Check P2 (Urgent - Needs medical attention soon)
-  const p2Matches = TRIAGE_KEYWORDS.P2.filter((k) => lower.includes(k));
+  const p2Matches = withLexicon('P2', TRIAGE_KEYWORDS.P2.filter((k) => lower.includes(k)));
   if (p2Matches.length > 0) {
     return {
       isEmergency: true,
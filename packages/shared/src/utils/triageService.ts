@@ -0,0 +1,338 @@
+import { checkSafety } from './safetyGate';
+import type { LexiconLanguage } from './redFlagLexicons';
+import type { TriageLevel } from '../types';
+
+/**
+ * Triage service
+ *
+ * The one place that decides how urgent a symptom is. Symptom entries, the Ask
+ * CareBow fallback and the pre-AI safety gate used to triage independently,
+ * each in its own vocabulary (risk levels, urgency levels, P1–P4, CTA levels),
+ * so the same description could come out "emergency" on one screen and
+ * "soon" on another.
+ *
+ * Every decision is made in TriageUrgency and converted at the edges with
+ * triageMappers:
+ *
+ *   red flags ─────────────► emergency / urgent ─┐
+ *   severity × duration ───► table below ────────┼─► most urgent wins
+ *   caller's own assessment (optional) ──────────┘
+ *
+ * The default red-flag detector is the keyword gate (checkSafety). Clients
+ * with a richer detector — the mobile app's rule-pack classifier, which also
+ * discounts negated and historical mentions — pass it to createTriageService
+ * so every screen in that client shares it.
+ */
+
+// Most urgent first.
+export const TRIAGE_URGENCIES = [
+  'emergency',
+  'urgent',
+  'soon',
+  'non_urgent',
+  'monitor',
+  'self_care',
+] as const;
+
+export type TriageUrgency = (typeof TRIAGE_URGENCIES)[number];
+
+export type TriageSeverity = 'low' | 'medium' | 'high';
+export type TriageDuration = 'just_started' | 'hours' | 'days' | 'weeks' | 'ongoing';
+
+/** Symptom-entry risk level. */
+export type TriageRiskLevel = 'low' | 'medium' | 'high' | 'emergency';
+/** Symptom-entry care suggestion. */
+export type TriageCareSuggestion = 'emergency' | 'urgent_care' | 'doctor_visit' | 'monitor';
+/** Four-level scale used for CTAs, episodes and the orchestrator contract. */
+export type TriageCareLevel = 'emergency' | 'urgent' | 'soon' | 'self_care';
+
+export type RedFlagFinding = {
+  description: string;
+  urgency: 'emergency' | 'urgent';
+};
+
+export type RedFlagDetector = (text: string) => RedFlagFinding[];
+
+export type TriageRequest = {
+  /** All free text describing the symptom. */
+  text: string;
+  severity?: TriageSeverity;
+  duration?: TriageDuration;
+  /** A context-aware assessment the caller already made; can only raise urgency. */
+  assessedUrgency?: TriageUrgency;
+};
+
+export type TriageDecision = {
+  urgency: TriageUrgency;
+  isEmergency: boolean;
+  redFlags: string[];
+  reason: string;
+};
+
+export type TriageServiceOptions = {
+  /** Replaces the keyword gate. */
+  detectRedFlags?: RedFlagDetector;
+  /** App language, for the keyword gate's lexicons. */
+  getLanguage?: () => LexiconLanguage | undefined;
+};
+
+export type TriageService = {
+  triage: (request: TriageRequest) => TriageDecision;
+  detectRedFlags: RedFlagDetector;
+};
+
+// ============================================
+// ORDERING
+// ============================================
+
+const rank = (urgency: TriageUrgency): number => TRIAGE_URGENCIES.indexOf(urgency);
+
+/** Negative when a is more urgent than b. */
+export const compareUrgency = (a: TriageUrgency, b: TriageUrgency): number => rank(a) - rank(b);
+
+export const mostUrgent = (...levels: (TriageUrgency | undefined)[]): TriageUrgency =>
+  levels.reduce<TriageUrgency>(
+    (max, level) => (level && compareUrgency(level, max) < 0 ? level : max),
+    'self_care'
+  );
+
+// ============================================
+// SEVERITY × DURATION
+// ============================================
+
+type TableEntry = { urgency: TriageUrgency; reason: string };
+
+const SEVERITY_DURATION_TABLE: Record<TriageSeverity, Record<TriageDuration, TableEntry>> = {
+  high: {
+    just_started: {
+      urgency: 'urgent',
+      reason:
+        'Severe symptoms that just started warrant prompt medical evaluation to rule out serious conditions.',
+    },
+    hours: {
+      urgency: 'soon',
+      reason:
+        'Severe symptoms persisting for hours to days should be evaluated by a healthcare provider soon.',
+    },
+    days: {
+      urgency: 'soon',
+      reason:
+        'Severe symptoms persisting for hours to days should be evaluated by a healthcare provider soon.',
+    },
+    weeks: {
+      urgency: 'soon',
+      reason:
+        'Severe symptoms that have persisted for an extended period require medical evaluation to identify the underlying cause.',
+    },
+    ongoing: {
+      urgency: 'soon',
+      reason:
+        'Severe symptoms that have persisted for an extended period require medical evaluation to identify the underlying cause.',
+    },
+  },
+  medium: {
+    just_started: {
+      urgency: 'monitor',
+      reason:
+        'Moderate symptoms that just started can often be monitored at home. Seek care if symptoms worsen.',
+    },
+    hours: {
+      urgency: 'monitor',
+      reason:
+        'Moderate symptoms for a few hours may improve with rest and home care. Monitor for changes.',
+    },
+    days: {
+      urgency: 'non_urgent',
+      reason:
+        'Moderate symptoms lasting several days warrant a doctor visit to ensure proper treatment.',
+    },
+    weeks: {
+      urgency: 'non_urgent',
+      reason:
+        'Moderate symptoms that have persisted for weeks or longer should be evaluated by a healthcare provider.',
+    },
+    ongoing: {
+      urgency: 'non_urgent',
+      reason:
+        'Moderate symptoms that have persisted for weeks or longer should be evaluated by a healthcare provider.',
+    },
+  },
+  low: {
+    just_started: {
+      urgency: 'self_care',
+      reason:
+        'Mild symptoms can typically be managed at home with rest and self-care. Monitor for any changes.',
+    },
+    hours: {
+      urgency: 'self_care',
+      reason:
+        'Mild symptoms can typically be managed at home with rest and self-care. Monitor for any changes.',
+    },
+    days: {
+      urgency: 'self_care',
+      reason:
+        'Mild symptoms can typically be managed at home with rest and self-care. Monitor for any changes.',
+    },
+    weeks: {
+      urgency: 'self_care',
+      reason:
+        'Mild symptoms for over a week can usually be monitored. Consider a doctor visit if they persist or worsen.',
+    },
+    ongoing: {
+      urgency: 'non_urgent',
+      reason:
+        'While symptoms are mild, their ongoing nature suggests a doctor visit may help identify any underlying causes.',
+    },
+  },
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+/**
+ * Red flags from the shared keyword gate: P1 keywords are emergencies, P2
+ * keywords urgent.
+ */
+export const keywordRedFlagDetector =
+  (getLanguage?: () => LexiconLanguage | undefined): RedFlagDetector =>
+  (text) => {
+    const result = checkSafety(text, 'US', getLanguage?.());
+    if (!result.level) return [];
+    const urgency = result.level === 'P1' ? 'emergency' : 'urgent';
+    return result.matchedKeywords.map((description) => ({ description, urgency }));
+  };
+
+export const createTriageService = (options: TriageServiceOptions = {}): TriageService => {
+  const detectRedFlags = options.detectRedFlags ?? keywordRedFlagDetector(options.getLanguage);
+
+  const triage = ({ text, severity, duration, assessedUrgency }: TriageRequest): TriageDecision => {
+    const findings = detectRedFlags(text);
+    const redFlags = [...new Set(findings.map((f) => f.description))];
+    const redFlagUrgency = mostUrgent(...findings.map((f) => f.urgency));
+    const table = severity && duration ? SEVERITY_DURATION_TABLE[severity][duration] : undefined;
+
+    const urgency = mostUrgent(
+      findings.length > 0 ? redFlagUrgency : undefined,
+      table?.urgency,
+      assessedUrgency
+    );
+
+    let reason: string;
+    if (findings.length > 0 && urgency === redFlagUrgency) {
+      reason =
+        urgency === 'emergency'
+          ? `Emergency keywords detected: ${redFlags.join(', ')}. Immediate medical attention may be required.`
+          : `Warning signs detected: ${redFlags.join(', ')}. Medical attention is needed soon.`;
+    } else if (table && urgency === table.urgency) {
+      reason = table.reason;
+    } else {
+      reason = 'Based on the full assessment of these symptoms.';
+    }
+
+    return { urgency, isEmergency: urgency === 'emergency', redFlags, reason };
+  };
+
+  return { triage, detectRedFlags };
+};
+
+/** Keyword-gate service for clients without their own red-flag detector. */
+export const triageService = createTriageService();
+
+// ============================================
+// LEGACY MAPPERS
+// ============================================
+
+export const triageMappers = {
+  toRiskLevel: (urgency: TriageUrgency): TriageRiskLevel => {
+    switch (urgency) {
+      case 'emergency':
+        return 'emergency';
+      case 'urgent':
+      case 'soon':
+        return 'high';
+      case 'non_urgent':
+      case 'monitor':
+        return 'medium';
+      default:
+        return 'low';
+    }
+  },
+
+  fromRiskLevel: (riskLevel: TriageRiskLevel): TriageUrgency => {
+    switch (riskLevel) {
+      case 'emergency':
+        return 'emergency';
+      case 'high':
+        return 'urgent';
+      case 'medium':
+        return 'non_urgent';
+      default:
+        return 'self_care';
+    }
+  },
+
+  toCareSuggestion: (urgency: TriageUrgency): TriageCareSuggestion => {
+    switch (urgency) {
+      case 'emergency':
+        return 'emergency';
+      case 'urgent':
+        return 'urgent_care';
+      case 'soon':
+      case 'non_urgent':
+        return 'doctor_visit';
+      default:
+        return 'monitor';
+    }
+  },
+
+  toCareLevel: (urgency: TriageUrgency): TriageCareLevel => {
+    switch (urgency) {
+      case 'emergency':
+      case 'urgent':
+      case 'soon':
+        return urgency;
+      default:
+        return 'self_care';
+    }
+  },
+
+  fromCareLevel: (level: TriageCareLevel): TriageUrgency => level,
+
+  toPriority: (urgency: TriageUrgency): TriageLevel => {
+    switch (urgency) {
+      case 'emergency':
+        return 'P1';
+      case 'urgent':
+        return 'P2';
+      case 'soon':
+      case 'non_urgent':
+        return 'P3';
+      default:
+        return 'P4';
+    }
+  },
+
+  fromPriority: (priority: TriageLevel): TriageUrgency => {
+    switch (priority) {
+      case 'P1':
+        return 'emergency';
+      case 'P2':
+        return 'urgent';
+      case 'P3':
+        return 'soon';
+      default:
+        return 'self_care';
+    }
+  },
+
+  /** 1–10 pain-scale score: 1–3 mild, 4–6 moderate, 7–10 severe. */
+  severityFromScore: (score: number): TriageSeverity => {
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'medium';
+    return 'low';
+  },
+
+  isUrgency: (value: unknown): value is TriageUrgency =>
+    typeof value === 'string' && (TRIAGE_URGENCIES as readonly string[]).includes(value),
+};